@@ -2,24 +2,101 @@
 
 /**
  * Authentication Server Actions
- * Handles login and logout operations
+ * Handles login, the two-factor and forced password change steps, password resets and logout
  */
 
 import { redirect } from 'next/navigation';
 
+import { InvalidTwoFactorCodeError, isAppError } from '@/lib/errors';
 import { authService } from '@/lib/services/business/auth.service';
+import { passwordService } from '@/lib/services/business/password.service';
+import { twoFactorService } from '@/lib/services/business/two-factor.service';
 import {
   checkLoginRateLimit,
   recordFailedLogin,
   resetLoginAttempts,
 } from '@/lib/utils/system/rate-limit';
-import { createAdminSession, clearAdminSession } from '@/lib/utils/system/session';
+import { recordSecurityEvent } from '@/lib/utils/system/security-events';
+import {
+  createAdminSession,
+  clearAdminSession,
+  clearPendingLogin,
+  createPendingLogin,
+  getPendingLogin,
+  getRequestMetadata,
+  validateSession,
+} from '@/lib/utils/system/session';
+
+import type { TwoFactorSetup } from '@/lib/types/auth';
+
+/**
+ * Result of a login step that did not redirect
+ * nextStep tells the form which step to show next
+ */
+interface LoginStepResult {
+  success: boolean;
+  error?: string;
+  nextStep?: 'verify' | 'setup' | 'change_password';
+}
+
+const EXPIRED_LOGIN_MESSAGE = 'Your login has expired. Please sign in again.';
+
+/**
+ * Message shown when the account is locked by the rate limiter
+ */
+function lockedMessage(lockedUntil?: Date): string {
+  const until = lockedUntil ? new Date(lockedUntil).toLocaleTimeString() : 'shortly';
+  return `Account locked due to too many failed attempts. Try again after ${until}.`;
+}
+
+/**
+ * Message for a failed attempt, with the attempts left before lockout
+ */
+function failedAttemptMessage(message: string, remainingAttempts?: number): string {
+  const remaining = (remainingAttempts || 10) - 1;
+  const attemptsMessage =
+    remaining > 0 ? ` ${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.` : '';
+
+  return `${message}${attemptsMessage}`;
+}
+
+/**
+ * Finish a login: reset the rate limit counter, create the session and go to the dashboard
+ * An admin who must change their password is asked to do that first
+ */
+async function completeLogin(adminId: string, email: string): Promise<LoginStepResult> {
+  const admin = await authService.getAdminById(adminId);
+  if (!admin) {
+    await clearPendingLogin();
+    redirect('/admin/login');
+  }
+
+  if (admin.mustChangePassword) {
+    await createPendingLogin(admin, 'change_password');
+    return { success: true, nextStep: 'change_password' };
+  }
+
+  await resetLoginAttempts(email);
+  await clearPendingLogin();
+
+  // Create session
+  await createAdminSession({
+    id: admin.id,
+    email: admin.email,
+    role: admin.role,
+    name: admin.name,
+  });
+  await recordSecurityEvent({ type: 'LOGIN_SUCCESS', adminId: admin.id, email: admin.email });
+
+  // Redirect to dashboard - let it throw (Next.js handles this)
+  redirect('/admin');
+}
 
 /**
  * Login action with rate limiting
- * Validates credentials and creates session on success
+ * Validates credentials, then either creates the session or asks for the two-factor step
  */
-export async function loginAction(formData: FormData) {
+export async function loginAction(formData: FormData): Promise<LoginStepResult> {
   const email = formData.get('email') as string;
   const password = formData.get('password') as string;
 
@@ -34,13 +111,9 @@ export async function loginAction(formData: FormData) {
   // 1. Check rate limit FIRST (before expensive password check)
   const rateLimit = await checkLoginRateLimit(email);
   if (!rateLimit.allowed) {
-    const lockedUntil = rateLimit.lockedUntil
-      ? new Date(rateLimit.lockedUntil).toLocaleTimeString()
-      : 'shortly';
-
     return {
       success: false,
-      error: `Account locked due to too many failed attempts. Try again after ${lockedUntil}.`,
+      error: lockedMessage(rateLimit.lockedUntil),
     };
   }
 
@@ -49,32 +122,203 @@ export async function loginAction(formData: FormData) {
 
   // 3a. If authentication failed
   if (!admin) {
-    await recordFailedLogin(email);
+    await recordFailedLogin(email, 'Wrong email or password');
 
-    // Calculate remaining attempts
-    const remaining = (rateLimit.remainingAttempts || 10) - 1;
-    const attemptsMessage =
-      remaining > 0 ? ` ${remaining} attempt${remaining !== 1 ? 's' : ''} remaining.` : '';
+    return {
+      success: false,
+      error: failedAttemptMessage('Invalid email or password.', rateLimit.remainingAttempts),
+    };
+  }
+
+  // 3b. Password is correct - a second factor may still be needed
+  // The attempt counter is only reset once the whole login succeeds
+  const requirement = await twoFactorService.getLoginRequirement(admin.id);
+  if (requirement !== 'none') {
+    await createPendingLogin(admin, requirement);
+    return { success: true, nextStep: requirement };
+  }
+
+  return completeLogin(admin.id, admin.email);
+}
+
+/**
+ * Second login step - verify an authenticator or recovery code
+ * Wrong codes count towards the same lockout as wrong passwords
+ */
+export async function verifyTwoFactorLoginAction(code: string): Promise<LoginStepResult> {
+  const pending = await getPendingLogin();
+  if (!pending || pending.purpose !== 'verify') {
+    return { success: false, error: EXPIRED_LOGIN_MESSAGE };
+  }
+
+  const rateLimit = await checkLoginRateLimit(pending.email);
+  if (!rateLimit.allowed) {
+    await clearPendingLogin();
+    return { success: false, error: lockedMessage(rateLimit.lockedUntil) };
+  }
+
+  if (!code || !(await twoFactorService.verifyCode(pending.adminId, code))) {
+    await recordFailedLogin(pending.email, 'Wrong authentication code');
 
     return {
       success: false,
-      error: `Invalid email or password.${attemptsMessage}`,
+      error: failedAttemptMessage('Invalid authentication code.', rateLimit.remainingAttempts),
     };
   }
 
-  // 3b. If authentication succeeded
-  await resetLoginAttempts(email);
+  return completeLogin(pending.adminId, pending.email);
+}
 
-  // Create session
-  await createAdminSession({
-    id: admin.id,
-    email: admin.email,
-    role: admin.role,
-    name: admin.name,
-  });
+/**
+ * Start the enrolment an admin must complete before their first login with 2FA required
+ */
+export async function startTwoFactorSetupAction(): Promise<{
+  success: boolean;
+  data?: TwoFactorSetup;
+  error?: string;
+}> {
+  const pending = await getPendingLogin();
+  if (!pending || pending.purpose !== 'setup') {
+    return { success: false, error: EXPIRED_LOGIN_MESSAGE };
+  }
 
-  // Redirect to dashboard - let it throw (Next.js handles this)
-  redirect('/admin');
+  try {
+    const setup = await twoFactorService.startEnrolment(pending.adminId);
+    return { success: true, data: setup };
+  } catch (error) {
+    if (isAppError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error('Unexpected error in startTwoFactorSetupAction:', error);
+    return { success: false, error: 'Failed to start two-factor setup' };
+  }
+}
+
+/**
+ * Confirm enrolment during login
+ * Returns the recovery codes; the session is created when the admin continues
+ */
+export async function confirmTwoFactorSetupAction(
+  code: string
+): Promise<{ success: boolean; data?: string[]; error?: string }> {
+  const pending = await getPendingLogin();
+  if (!pending || pending.purpose !== 'setup') {
+    return { success: false, error: EXPIRED_LOGIN_MESSAGE };
+  }
+
+  const rateLimit = await checkLoginRateLimit(pending.email);
+  if (!rateLimit.allowed) {
+    await clearPendingLogin();
+    return { success: false, error: lockedMessage(rateLimit.lockedUntil) };
+  }
+
+  const admin = await authService.getAdminById(pending.adminId);
+  if (!admin) {
+    await clearPendingLogin();
+    return { success: false, error: EXPIRED_LOGIN_MESSAGE };
+  }
+
+  try {
+    const recoveryCodes = await twoFactorService.confirmEnrolment(admin.id, code, {
+      adminId: admin.id,
+      name: admin.name,
+    });
+
+    // The code proved the enrolment, so the login can finish once the codes are saved
+    await createPendingLogin(admin, 'enrolled');
+
+    return { success: true, data: recoveryCodes };
+  } catch (error) {
+    if (error instanceof InvalidTwoFactorCodeError) {
+      await recordFailedLogin(pending.email, 'Wrong code during two-factor setup');
+    }
+    if (isAppError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error('Unexpected error in confirmTwoFactorSetupAction:', error);
+    return { success: false, error: 'Failed to confirm two-factor setup' };
+  }
+}
+
+/**
+ * Finish a login after enrolment, once the recovery codes have been saved
+ */
+export async function completeTwoFactorSetupAction(): Promise<LoginStepResult> {
+  const pending = await getPendingLogin();
+  if (!pending || pending.purpose !== 'enrolled') {
+    return { success: false, error: EXPIRED_LOGIN_MESSAGE };
+  }
+
+  const status = await twoFactorService.getStatus(pending.adminId);
+  if (!status.enabled) {
+    return { success: false, error: 'Two-factor setup was not completed' };
+  }
+
+  return completeLogin(pending.adminId, pending.email);
+}
+
+/**
+ * Set a new password during login when the account requires it
+ * The session is created once the new password is saved
+ */
+export async function changeRequiredPasswordAction(newPassword: string): Promise<LoginStepResult> {
+  const pending = await getPendingLogin();
+  if (!pending || pending.purpose !== 'change_password') {
+    return { success: false, error: EXPIRED_LOGIN_MESSAGE };
+  }
+
+  try {
+    await passwordService.completeRequiredChange(pending.adminId, newPassword);
+  } catch (error) {
+    if (isAppError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error('Unexpected error in changeRequiredPasswordAction:', error);
+    return { success: false, error: 'Failed to change password' };
+  }
+
+  return completeLogin(pending.adminId, pending.email);
+}
+
+/**
+ * Send a password reset link
+ * Always reports success so the form cannot be used to find out which emails have accounts
+ */
+export async function requestPasswordResetAction(
+  email: string
+): Promise<{ success: boolean; error?: string }> {
+  if (!email?.trim()) {
+    return { success: false, error: 'Email is required' };
+  }
+
+  try {
+    const { ipAddress } = await getRequestMetadata();
+    await passwordService.requestReset(email, ipAddress);
+  } catch (error) {
+    console.error('Unexpected error in requestPasswordResetAction:', error);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Choose a new password from a reset link
+ * The admin signs in with it afterwards, including any two-factor step
+ */
+export async function resetPasswordAction(
+  token: string,
+  newPassword: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await passwordService.resetPassword(token, newPassword);
+    return { success: true };
+  } catch (error) {
+    if (isAppError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error('Unexpected error in resetPasswordAction:', error);
+    return { success: false, error: 'Failed to reset password' };
+  }
 }
 
 /**
@@ -82,6 +326,11 @@ export async function loginAction(formData: FormData) {
  * Clears session and redirects to login
  */
 export async function logoutAction() {
+  const session = await validateSession();
+  if (session) {
+    await recordSecurityEvent({ type: 'LOGOUT', adminId: session.adminId, email: session.email });
+  }
+
   await clearAdminSession();
   // Redirect to login - let it throw (Next.js handles this)
   redirect('/admin/login');
@@ -0,0 +1,9 @@
+import { ForgotPasswordForm } from '@/components/forgot-password-form';
+
+export default function ForgotPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4 py-12 sm:px-6 lg:px-8">
+      <ForgotPasswordForm />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+// Token is checked on every request
+export const dynamic = 'force-dynamic';
+
+import { passwordService } from '@/lib/services/business/password.service';
+
+import { ResetPasswordForm } from '@/components/reset-password-form';
+
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const { token } = await searchParams;
+  const resetToken = typeof token === 'string' ? token : '';
+  const email = resetToken ? await passwordService.getResetTokenEmail(resetToken) : null;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4 py-12 sm:px-6 lg:px-8">
+      <ResetPasswordForm token={resetToken} email={email} />
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+
+import { InvalidCurrentPasswordError, InvalidTwoFactorCodeError, isAppError } from '@/lib/errors';
+import { withAuth } from '@/lib/server-actions/with-auth';
+import { passwordService } from '@/lib/services/business/password.service';
+import { twoFactorService } from '@/lib/services/business/two-factor.service';
+import { checkLoginRateLimit, recordFailedLogin } from '@/lib/utils/system/rate-limit';
+import { recordSecurityEvent } from '@/lib/utils/system/security-events';
+import {
+  clearAdminSession,
+  getActiveSessions,
+  revokeAdminSessions,
+  revokeSession,
+} from '@/lib/utils/system/session';
+
+import type { ActiveSessionItem, TwoFactorSetup, TwoFactorStatus } from '@/lib/types/auth';
+
+/**
+ * Account Security Server Actions
+ * Each admin manages their own password, two-factor authentication and login sessions
+ * Wrong codes and passwords count towards the login lockout, the same as at login
+ */
+
+/**
+ * Run an action that checks a two-factor code, applying the login rate limit
+ */
+async function runWithCode<T>(
+  email: string,
+  fallbackError: string,
+  action: () => Promise<T>
+): Promise<{ success: boolean; data?: T; error?: string }> {
+  const rateLimit = await checkLoginRateLimit(email);
+  if (!rateLimit.allowed) {
+    return {
+      success: false,
+      error: 'Too many failed attempts. Try again later.',
+    };
+  }
+
+  try {
+    const data = await action();
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof InvalidTwoFactorCodeError) {
+      await recordFailedLogin(email, 'Wrong authentication code on the account page');
+    }
+    if (isAppError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error('Unexpected error in account security action:', error);
+    return { success: false, error: fallbackError };
+  }
+}
+
+/**
+ * Change the current admin's password
+ * Their other sessions are signed out; this one stays signed in
+ */
+export const changeMyPassword = withAuth(
+  async (
+    session,
+    currentPassword: string,
+    newPassword: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    const rateLimit = await checkLoginRateLimit(session.email);
+    if (!rateLimit.allowed) {
+      return { success: false, error: 'Too many failed attempts. Try again later.' };
+    }
+
+    try {
+      await passwordService.changePassword(
+        session.adminId,
+        currentPassword,
+        newPassword,
+        session,
+        session.sessionId
+      );
+      revalidatePath('/admin/account');
+      return { success: true };
+    } catch (error) {
+      if (error instanceof InvalidCurrentPasswordError) {
+        await recordFailedLogin(session.email, 'Wrong current password when changing password');
+      }
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in changeMyPassword:', error);
+      return { success: false, error: 'Failed to change password' };
+    }
+  }
+);
+
+/**
+ * Get the current admin's two-factor state
+ */
+export const getTwoFactorStatus = withAuth(async (session): Promise<TwoFactorStatus> => {
+  return twoFactorService.getStatus(session.adminId);
+});
+
+/**
+ * Start enrolling an authenticator app
+ */
+export const startTwoFactorEnrolment = withAuth(
+  async (session): Promise<{ success: boolean; data?: TwoFactorSetup; error?: string }> => {
+    try {
+      const setup = await twoFactorService.startEnrolment(session.adminId);
+      return { success: true, data: setup };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in startTwoFactorEnrolment:', error);
+      return { success: false, error: 'Failed to start two-factor setup' };
+    }
+  }
+);
+
+/**
+ * Confirm enrolment with a code from the app
+ * Returns the recovery codes
+ */
+export const confirmTwoFactorEnrolment = withAuth(
+  async (session, code: string): Promise<{ success: boolean; data?: string[]; error?: string }> => {
+    return runWithCode(session.email, 'Failed to enable two-factor authentication', async () => {
+      const recoveryCodes = await twoFactorService.confirmEnrolment(session.adminId, code, session);
+      revalidatePath('/admin/account');
+      return recoveryCodes;
+    });
+  }
+);
+
+/**
+ * Replace the recovery codes
+ */
+export const regenerateRecoveryCodes = withAuth(
+  async (session, code: string): Promise<{ success: boolean; data?: string[]; error?: string }> => {
+    return runWithCode(session.email, 'Failed to regenerate recovery codes', async () => {
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(session.adminId, code);
+      revalidatePath('/admin/account');
+      return recoveryCodes;
+    });
+  }
+);
+
+/**
+ * Turn off two-factor authentication
+ */
+export const disableTwoFactor = withAuth(
+  async (session, code: string): Promise<{ success: boolean; error?: string }> => {
+    return runWithCode(session.email, 'Failed to disable two-factor authentication', async () => {
+      await twoFactorService.disable(session.adminId, code, session);
+      revalidatePath('/admin/account');
+    });
+  }
+);
+
+/**
+ * Get the current admin's active sessions
+ */
+export const getMySessions = withAuth(async (session): Promise<ActiveSessionItem[]> => {
+  return getActiveSessions(session.adminId, session.sessionId);
+});
+
+/**
+ * Sign out one of the current admin's other sessions
+ */
+export const revokeMySession = withAuth(
+  async (session, sessionId: string): Promise<{ success: boolean; error?: string }> => {
+    if (sessionId === session.sessionId) {
+      return { success: false, error: 'Use Log out to end the session you are using' };
+    }
+
+    const revoked = await revokeSession(session.adminId, sessionId);
+    if (!revoked) {
+      return { success: false, error: 'Session not found or already ended' };
+    }
+
+    await recordSecurityEvent({
+      type: 'LOGOUT',
+      adminId: session.adminId,
+      email: session.email,
+      details: 'Signed out another session',
+    });
+
+    revalidatePath('/admin/account');
+
+    return { success: true };
+  }
+);
+
+/**
+ * Sign out every session, including this one
+ */
+export const logOutEverywhere = withAuth(async (session): Promise<void> => {
+  await revokeAdminSessions(session.adminId, 'REVOKED');
+  await recordSecurityEvent({
+    type: 'LOGOUT',
+    adminId: session.adminId,
+    email: session.email,
+    details: 'Signed out of all sessions',
+  });
+  await clearAdminSession();
+
+  // Redirect to login - let it throw (Next.js handles this)
+  redirect('/admin/login');
+});
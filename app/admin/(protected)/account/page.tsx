@@ -0,0 +1,48 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { getMySessions, getTwoFactorStatus } from '@/lib/actions/account.actions';
+
+import { ActiveSessionsList } from '@/components/account/active-sessions-list';
+import { ChangePasswordCard } from '@/components/account/change-password-card';
+import { TwoFactorSettings } from '@/components/account/two-factor-settings';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+
+export default async function AccountSecurityPage() {
+  const [twoFactorStatus, sessions] = await Promise.all([getTwoFactorStatus(), getMySessions()]);
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Account Security</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Account Security</h1>
+      </div>
+
+      <div className="flex max-w-2xl flex-col gap-4">
+        <ChangePasswordCard />
+        <TwoFactorSettings status={twoFactorStatus} />
+        <ActiveSessionsList sessions={sessions} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use server';
+
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { activityLogService } from '@/lib/services/business/activity-log.service';
+
+import type {
+  ActivityChanges,
+  ActivityLogFilters,
+  ActivityLogItem,
+  ActivityLogPage,
+} from '@/lib/types/activity';
+import type { ActivityLog } from '@prisma/client';
+
+/**
+ * Activity Log Server Actions
+ * Read-only - the log is written by the business services, never from here
+ * All actions require the view_audit_logs permission (ADMIN and above)
+ */
+
+/**
+ * Convert an activity log row to its serializable form
+ */
+function toActivityLogItem(entry: ActivityLog): ActivityLogItem {
+  return {
+    id: entry.id,
+    actorId: entry.actorId,
+    actorName: entry.actorName,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    entityLabel: entry.entityLabel,
+    action: entry.action,
+    changes: (entry.changes || {}) as ActivityChanges,
+    clientId: entry.clientId,
+    caseId: entry.caseId,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Get a filtered page of the activity log
+ */
+export const getActivityLog = withPermission(
+  'view_audit_logs',
+  async (
+    _session,
+    filters: ActivityLogFilters
+  ): Promise<{ success: boolean; data?: ActivityLogPage; error?: string }> => {
+    try {
+      const result = await activityLogService.getActivity(filters);
+
+      return {
+        success: true,
+        data: {
+          entries: result.entries.map(toActivityLogItem),
+          pagination: result.pagination,
+        },
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to load activity log',
+      };
+    }
+  }
+);
+
+/**
+ * Get the admins who appear in the activity log
+ */
+export const getActivityActors = withPermission(
+  'view_audit_logs',
+  async (
+    _session
+  ): Promise<{ success: boolean; data?: Array<{ id: string; name: string }>; error?: string }> => {
+    try {
+      const actors = await activityLogService.getActors();
+      return { success: true, data: actors };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to load admins',
+      };
+    }
+  }
+);
+
+/**
+ * Get the change history for a client and everything that belongs to it
+ */
+export const getClientActivity = withPermission(
+  'view_audit_logs',
+  async (
+    _session,
+    clientId: number
+  ): Promise<{ success: boolean; data?: ActivityLogItem[]; error?: string }> => {
+    try {
+      const entries = await activityLogService.getClientHistory(clientId);
+      return { success: true, data: entries.map(toActivityLogItem) };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to load client history',
+      };
+    }
+  }
+);
+
+/**
+ * Get the change history for a case, its interactions and files
+ */
+export const getCaseActivity = withPermission(
+  'view_audit_logs',
+  async (
+    _session,
+    caseId: number
+  ): Promise<{ success: boolean; data?: ActivityLogItem[]; error?: string }> => {
+    try {
+      const entries = await activityLogService.getCaseHistory(caseId);
+      return { success: true, data: entries.map(toActivityLogItem) };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to load case history',
+      };
+    }
+  }
+);
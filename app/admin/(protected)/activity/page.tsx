@@ -0,0 +1,168 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { ActivityAction, ActivityEntityType } from '@prisma/client';
+
+import { getActivityActors, getActivityLog } from '@/lib/actions/activity.actions';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
+import { ActivityLogFilters } from '@/components/activity/activity-log-filters';
+import { ActivityLogTable } from '@/components/activity/activity-log-table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+/**
+ * Read a single string search param
+ */
+function getParam(
+  params: { [key: string]: string | string[] | undefined },
+  key: string
+): string | undefined {
+  const value = params[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export default async function ActivityLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const session = await validateSession();
+
+  if (!session) {
+    // This shouldn't happen due to layout auth check, but TypeScript needs it
+    return null;
+  }
+
+  if (!canPerformAction(session, 'view_audit_logs')) {
+    return (
+      <div className="flex flex-1 flex-col gap-4 p-4">
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+          <CardContent className="p-4">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              <strong>Note:</strong> Only SUPER_ADMIN and ADMIN users can view the activity log. You
+              have <strong>{session.role}</strong> permissions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const resolvedSearchParams = await searchParams;
+  const page = Number(resolvedSearchParams.page) || 1;
+  const limit = 50;
+
+  const actorId = getParam(resolvedSearchParams, 'actor');
+  const entityParam = getParam(resolvedSearchParams, 'entityType');
+  const actionParam = getParam(resolvedSearchParams, 'action');
+  const dateFrom = getParam(resolvedSearchParams, 'from');
+  const dateTo = getParam(resolvedSearchParams, 'to');
+
+  // Ignore values that are not valid enum members rather than failing the query
+  const entityType = Object.values(ActivityEntityType).find((value) => value === entityParam);
+  const action = Object.values(ActivityAction).find((value) => value === actionParam);
+
+  const [logResult, actorsResult] = await Promise.all([
+    getActivityLog({
+      actorId,
+      entityType,
+      action,
+      from: dateFrom,
+      to: dateTo,
+      page,
+      limit,
+    }),
+    getActivityActors(),
+  ]);
+
+  /**
+   * Build a page link that keeps the current filters
+   */
+  const pageHref = (targetPage: number) => {
+    const params = new URLSearchParams();
+    if (actorId) params.set('actor', actorId);
+    if (entityType) params.set('entityType', entityType);
+    if (action) params.set('action', action);
+    if (dateFrom) params.set('from', dateFrom);
+    if (dateTo) params.set('to', dateTo);
+    params.set('page', String(targetPage));
+    return `?${params.toString()}`;
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Activity Log</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Activity Log</h1>
+      </div>
+
+      {/* Filters */}
+      <ActivityLogFilters actors={actorsResult.data || []} />
+
+      {!logResult.success || !logResult.data ? (
+        <Card>
+          <CardContent className="p-6">
+            <h2 className="text-lg font-semibold mb-2">Error Loading Activity Log</h2>
+            <p className="text-sm text-red-600">
+              {logResult.error || 'Failed to load activity log'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Activity Table */}
+          <ActivityLogTable entries={logResult.data.entries} />
+
+          {/* Pagination */}
+          {logResult.data.pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Showing {(page - 1) * limit + 1} to{' '}
+                {Math.min(page * limit, logResult.data.pagination.totalCount)} of{' '}
+                {logResult.data.pagination.totalCount} changes
+              </p>
+              <div className="flex items-center space-x-2">
+                {logResult.data.pagination.hasPrev && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={pageHref(page - 1)}>Previous</a>
+                  </Button>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {logResult.data.pagination.totalPages}
+                </span>
+                {logResult.data.pagination.hasNext && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={pageHref(page + 1)}>Next</a>
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
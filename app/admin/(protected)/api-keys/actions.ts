@@ -0,0 +1,87 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { isAppError } from '@/lib/errors';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { apiKeyService } from '@/lib/services/business/api-key.service';
+
+import type { ApiKeyItem, CreatedApiKey } from '@/lib/types/api-key';
+import type { ApiKeyScope } from '@/lib/utils/system/api-scopes';
+
+/**
+ * API Key Server Actions
+ * Keys for the /api/v1 external API - SUPER_ADMIN only (manage_api_keys)
+ */
+
+/**
+ * Get every API key
+ */
+export const getApiKeys = withPermission(
+  'manage_api_keys',
+  async (_session): Promise<{ success: boolean; data?: ApiKeyItem[]; error?: string }> => {
+    try {
+      const keys = await apiKeyService.listKeys();
+      return { success: true, data: keys };
+    } catch (error) {
+      console.error('Unexpected error in getApiKeys:', error);
+      return { success: false, error: 'Failed to load API keys' };
+    }
+  }
+);
+
+/**
+ * Create an API key
+ * The full key is in the result and cannot be retrieved again
+ * @param expiresAt - YYYY-MM-DD (the key stops working at the end of that day), or null
+ */
+export const createApiKey = withPermission(
+  'manage_api_keys',
+  async (
+    session,
+    data: { name: string; scopes: ApiKeyScope[]; expiresAt: string | null }
+  ): Promise<{ success: boolean; data?: CreatedApiKey; error?: string }> => {
+    try {
+      const created = await apiKeyService.createKey(
+        {
+          name: data.name,
+          scopes: data.scopes,
+          expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59.999Z`) : null,
+        },
+        session
+      );
+
+      revalidatePath('/admin/api-keys');
+
+      return { success: true, data: created };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in createApiKey:', error);
+      return { success: false, error: 'Failed to create API key' };
+    }
+  }
+);
+
+/**
+ * Revoke an API key
+ */
+export const revokeApiKey = withPermission(
+  'manage_api_keys',
+  async (session, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await apiKeyService.revokeKey(id, session);
+
+      revalidatePath('/admin/api-keys');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in revokeApiKey:', error);
+      return { success: false, error: 'Failed to revoke API key' };
+    }
+  }
+);
@@ -0,0 +1,69 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { getApiDocsOperations } from '@/lib/utils/system/openapi';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
+import { ApiDocs } from '@/components/api-keys/api-docs';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Card, CardContent } from '@/components/ui/card';
+
+export default async function ApiDocsPage() {
+  const session = await validateSession();
+
+  if (!session) {
+    // This shouldn't happen due to layout auth check, but TypeScript needs it
+    return null;
+  }
+
+  if (!canPerformAction(session, 'manage_api_keys')) {
+    return (
+      <div className="flex flex-1 flex-col gap-4 p-4">
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+          <CardContent className="p-4">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              <strong>Note:</strong> Only SUPER_ADMIN users can view the API documentation. You have{' '}
+              <strong>{session.role}</strong> permissions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin/api-keys">API Keys</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>API Documentation</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">API Documentation</h1>
+      </div>
+
+      <ApiDocs operations={getApiDocsOperations()} />
+    </div>
+  );
+}
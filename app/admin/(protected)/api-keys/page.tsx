@@ -0,0 +1,86 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import Link from 'next/link';
+
+import { BookOpen } from 'lucide-react';
+
+import { getApiKeys } from '@/lib/actions/api-key.actions';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
+import { ApiKeysTable } from '@/components/api-keys/api-keys-table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+
+export default async function ApiKeysPage() {
+  const session = await validateSession();
+
+  if (!session) {
+    // This shouldn't happen due to layout auth check, but TypeScript needs it
+    return null;
+  }
+
+  if (!canPerformAction(session, 'manage_api_keys')) {
+    return (
+      <div className="flex flex-1 flex-col gap-4 p-4">
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+          <CardContent className="p-4">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              <strong>Note:</strong> Only SUPER_ADMIN users can manage API keys. You have{' '}
+              <strong>{session.role}</strong> permissions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const result = await getApiKeys();
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>API Keys</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">API Keys</h1>
+        <Button variant="outline" asChild>
+          <Link href="/admin/api-keys/docs">
+            <BookOpen className="mr-2 h-4 w-4" />
+            API Documentation
+          </Link>
+        </Button>
+      </div>
+
+      {result.success && result.data ? (
+        <ApiKeysTable apiKeys={result.data} />
+      ) : (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-red-600">{result.error || 'Failed to load API keys'}</p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { isAppError } from '@/lib/errors';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { inboundEmailService } from '@/lib/services/business/inbound-email.service';
+
+import type { InboundEmailItem } from '@/lib/types/inbound-email';
+
+/**
+ * Email Inbox Server Actions
+ * The triage inbox for imported emails that could not be filed against a case automatically
+ * Importing itself goes through /api/cases/emails so large messages are not limited by Server Action body size
+ */
+
+/**
+ * Get the emails waiting in triage
+ */
+export const getInboxEmails = withPermission(
+  'view_clients',
+  async (_session): Promise<{ success: boolean; data?: InboundEmailItem[]; error?: string }> => {
+    try {
+      const emails = await inboundEmailService.listEmails();
+      return { success: true, data: emails };
+    } catch (error) {
+      console.error('Unexpected error in getInboxEmails:', error);
+      return { success: false, error: 'Failed to load the email inbox' };
+    }
+  }
+);
+
+/**
+ * File a triaged email as an interaction on a case, with its attachments
+ */
+export const fileInboxEmail = withPermission(
+  'manage_interactions',
+  async (
+    session,
+    id: number,
+    caseReference: string
+  ): Promise<{ success: boolean; data?: InboundEmailItem; error?: string }> => {
+    try {
+      const email = await inboundEmailService.fileToCase(id, caseReference, session);
+
+      revalidatePath('/admin/cases/inbox');
+
+      return { success: true, data: email };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in fileInboxEmail:', error);
+      return { success: false, error: 'Failed to file email' };
+    }
+  }
+);
+
+/**
+ * Remove an email from triage without filing it
+ */
+export const dismissInboxEmail = withPermission(
+  'manage_interactions',
+  async (session, id: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await inboundEmailService.dismiss(id, session);
+
+      revalidatePath('/admin/cases/inbox');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in dismissInboxEmail:', error);
+      return { success: false, error: 'Failed to dismiss email' };
+    }
+  }
+);
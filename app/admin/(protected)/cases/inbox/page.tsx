@@ -0,0 +1,64 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { getInboxEmails } from '@/lib/actions/inbound-email.actions';
+
+import { EmailInboxTable } from '@/components/inbox/email-inbox-table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Card, CardContent } from '@/components/ui/card';
+
+/**
+ * Email Inbox Page
+ * Imported emails waiting to be filed against a case
+ */
+export default async function EmailInboxPage() {
+  const result = await getInboxEmails();
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin/cases">Cases</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Email Inbox</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div>
+        <h1 className="text-3xl font-bold">Email Inbox</h1>
+        <p className="text-muted-foreground">
+          Imported emails that could not be matched to a client&apos;s case
+        </p>
+      </div>
+
+      {result.success && result.data ? (
+        <EmailInboxTable emails={result.data} />
+      ) : (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-red-600">
+              {result.error || 'Failed to load the email inbox'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,9 @@
+import Link from 'next/link';
+
+import { Inbox } from 'lucide-react';
+
 import { caseService } from '@/lib/services/business/case.service';
+import { pickCaseTypeFields } from '@/lib/utils/business/case-types';
 
 import { CallLogContent } from '@/components/cases/call-log-content';
 import {
@@ -9,6 +14,7 @@ import {
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
 
 /**
  * Call Log Cases Page
@@ -41,8 +47,11 @@ export default async function CallLogPage() {
     escalatedBy: c.escalatedBy,
     assignedTo: c.assignedTo,
     description: c.description,
+    type: c.type,
+    typeFields: pickCaseTypeFields(c.type, c.typeFields),
     interactionCount: c._count.interactions,
     fileCount: c._count.files,
+    channels: c.channels,
   }));
 
   return (
@@ -61,9 +70,17 @@ export default async function CallLogPage() {
       </Breadcrumb>
 
       {/* Page Header */}
-      <div>
-        <h1 className="text-3xl font-bold">Cases</h1>
-        <p className="text-muted-foreground">All cases across all clients</p>
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Cases</h1>
+          <p className="text-muted-foreground">All cases across all clients</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/cases/inbox">
+            <Inbox className="mr-2 h-4 w-4" />
+            Email Inbox
+          </Link>
+        </Button>
       </div>
 
       {/* Call Log Content */}
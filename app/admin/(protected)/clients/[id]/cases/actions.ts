@@ -8,15 +8,30 @@
 import { revalidatePath } from 'next/cache';
 
 import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { adminService } from '@/lib/services/business/admin.service';
+import { caseProcessService } from '@/lib/services/business/case-process.service';
 import { caseService } from '@/lib/services/business/case.service';
+import { pickCaseTypeFields } from '@/lib/utils/business/case-types';
 
 import type {
   CreateCaseInput,
   UpdateCaseInput,
   CreateInteractionInput,
   CreateFileInput,
+  CreateTimeEntryInput,
+  ClientHoursUsage,
+  ClientCallActivity,
+  CaseStatusHistory,
 } from '@/lib/types/case';
+import type { CaseProcessItem, CompleteProcessStepDto } from '@/lib/types/case-process';
+import type { CaseTypeFieldValues } from '@/lib/utils/business/case-types';
+import type {
+  CaseType,
+  InteractionDirection,
+  InteractionType,
+  ProcessTemplate,
+} from '@prisma/client';
 
 /**
  * Get all active admin users
@@ -68,6 +83,8 @@ export const getCasesByClientId = withAuth(
       escalatedBy: string;
       assignedTo: string | null;
       description: string | null;
+      type: CaseType | null;
+      typeFields: CaseTypeFieldValues;
       interactionCount: number;
       fileCount: number;
     }>;
@@ -93,6 +110,8 @@ export const getCasesByClientId = withAuth(
         escalatedBy: c.escalatedBy,
         assignedTo: c.assignedTo,
         description: c.description,
+        type: c.type,
+        typeFields: pickCaseTypeFields(c.type, c.typeFields),
         interactionCount: c._count.interactions,
         fileCount: c._count.files,
       }));
@@ -113,9 +132,10 @@ export const getCasesByClientId = withAuth(
 /**
  * Create a new case
  */
-export const createCase = withAuth(
+export const createCase = withPermission(
+  'create_case',
   async (
-    _session,
+    session,
     input: CreateCaseInput
   ): Promise<{
     success: boolean;
@@ -129,13 +149,15 @@ export const createCase = withAuth(
       escalatedBy: string;
       assignedTo: string | null;
       description: string | null;
+      type: CaseType | null;
+      typeFields: CaseTypeFieldValues;
       interactionCount: number;
       fileCount: number;
     };
     error?: string;
   }> => {
     try {
-      const newCase = await caseService.createCase(input);
+      const newCase = await caseService.createCase(input, session);
 
       // Transform to frontend format
       const transformedCase = {
@@ -154,6 +176,8 @@ export const createCase = withAuth(
         escalatedBy: newCase.escalatedBy,
         assignedTo: newCase.assignedTo,
         description: newCase.description,
+        type: newCase.type,
+        typeFields: pickCaseTypeFields(newCase.type, newCase.typeFields),
         interactionCount: newCase._count.interactions,
         fileCount: newCase._count.files,
       };
@@ -176,9 +200,10 @@ export const createCase = withAuth(
 /**
  * Update a case
  */
-export const updateCase = withAuth(
+export const updateCase = withPermission(
+  'update_case',
   async (
-    _session,
+    session,
     id: number,
     input: UpdateCaseInput
   ): Promise<{
@@ -194,13 +219,15 @@ export const updateCase = withAuth(
       escalatedBy: string;
       assignedTo: string | null;
       description: string | null;
+      type: CaseType | null;
+      typeFields: CaseTypeFieldValues;
       interactionCount: number;
       fileCount: number;
     };
     error?: string;
   }> => {
     try {
-      const updatedCase = await caseService.updateCase(id, input);
+      const updatedCase = await caseService.updateCase(id, input, session);
 
       // Transform to frontend format
       const transformedCase = {
@@ -220,6 +247,8 @@ export const updateCase = withAuth(
         escalatedBy: updatedCase.escalatedBy,
         assignedTo: updatedCase.assignedTo,
         description: updatedCase.description,
+        type: updatedCase.type,
+        typeFields: pickCaseTypeFields(updatedCase.type, updatedCase.typeFields),
         interactionCount: updatedCase._count.interactions,
         fileCount: updatedCase._count.files,
       };
@@ -244,11 +273,134 @@ export const updateCase = withAuth(
 );
 
 /**
- * Delete a case
+ * Get a case's status history
+ */
+export const getCaseStatusHistory = withAuth(
+  async (
+    _session,
+    caseId: number
+  ): Promise<{
+    success: boolean;
+    data?: CaseStatusHistory;
+    error?: string;
+  }> => {
+    try {
+      const history = await caseService.getStatusHistory(caseId);
+
+      return { success: true, data: history };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch status history',
+      };
+    }
+  }
+);
+
+/**
+ * Get the guided processes on a case, newest first
  */
-export const deleteCase = withAuth(
+export const getCaseProcesses = withAuth(
   async (
     _session,
+    caseId: number
+  ): Promise<{
+    success: boolean;
+    data?: CaseProcessItem[];
+    error?: string;
+  }> => {
+    try {
+      const processes = await caseProcessService.getProcesses(caseId);
+
+      return { success: true, data: processes };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch processes',
+      };
+    }
+  }
+);
+
+/**
+ * Start a guided process on a case
+ */
+export const startCaseProcess = withPermission(
+  'update_case',
+  async (
+    session,
+    caseId: number,
+    template: ProcessTemplate,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    data?: CaseProcessItem;
+    error?: string;
+  }> => {
+    try {
+      const process = await caseProcessService.startProcess(caseId, template, session);
+
+      revalidatePath(`/admin/clients/${clientId}/cases`);
+
+      return { success: true, data: process };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to start process',
+      };
+    }
+  }
+);
+
+/**
+ * Complete or skip the current step of a guided process
+ */
+export const completeProcessStep = withPermission(
+  'manage_interactions',
+  async (
+    session,
+    stepId: number,
+    input: CompleteProcessStepDto,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    data?: CaseProcessItem;
+    error?: string;
+  }> => {
+    try {
+      const process = await caseProcessService.completeStep(stepId, input, session);
+
+      revalidatePath(`/admin/clients/${clientId}/cases`);
+
+      return { success: true, data: process };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to complete step',
+      };
+    }
+  }
+);
+
+/**
+ * Delete a case
+ */
+export const deleteCase = withPermission(
+  'delete_case',
+  async (
+    session,
     id: number,
     clientId: number
   ): Promise<{
@@ -256,7 +408,7 @@ export const deleteCase = withAuth(
     error?: string;
   }> => {
     try {
-      await caseService.deleteCase(id);
+      await caseService.deleteCase(id, session);
 
       revalidatePath(`/admin/clients/${clientId}/cases`);
 
@@ -290,10 +442,15 @@ export const getInteractionsByCaseId = withAuth(
       party2Name: string;
       party2Type: string;
       content: string;
+      type: string;
+      direction: string | null;
+      startedAt: string;
+      durationMinutes: number | null;
       fileCount: number;
       isActiveAction: boolean;
       actionRequired: string | null;
       actionRequiredBy: string | null;
+      totalMinutes: number;
     }>;
     error?: string;
   }> => {
@@ -303,7 +460,7 @@ export const getInteractionsByCaseId = withAuth(
       // Transform to frontend format
       const transformedInteractions = interactions.map((i) => ({
         id: i.id,
-        date: i.createdAt.toLocaleString('en-GB', {
+        date: i.startedAt.toLocaleString('en-GB', {
           day: '2-digit',
           month: '2-digit',
           year: 'numeric',
@@ -315,11 +472,16 @@ export const getInteractionsByCaseId = withAuth(
         party2Name: i.party2Name,
         party2Type: i.party2Type,
         content: i.content,
+        type: i.type,
+        direction: i.direction,
+        startedAt: i.startedAt.toISOString(),
+        durationMinutes: i.durationMinutes,
         fileCount: i._count.files,
         isActiveAction: i.isActiveAction,
         actionRequired: i.actionRequired,
         actionRequiredBy: i.actionRequiredBy,
         actionRequiredByDate: i.actionRequiredByDate ? i.actionRequiredByDate.toISOString().split('T')[0] : null,
+        totalMinutes: i.timeEntries.reduce((sum, entry) => sum + entry.durationMinutes, 0),
       }));
 
       return { success: true, data: transformedInteractions };
@@ -338,9 +500,10 @@ export const getInteractionsByCaseId = withAuth(
 /**
  * Create an interaction
  */
-export const createInteraction = withAuth(
+export const createInteraction = withPermission(
+  'manage_interactions',
   async (
-    _session,
+    session,
     input: CreateInteractionInput
   ): Promise<{
     success: boolean;
@@ -352,6 +515,10 @@ export const createInteraction = withAuth(
       party2Name: string;
       party2Type: string;
       content: string;
+      type: string;
+      direction: string | null;
+      startedAt: string;
+      durationMinutes: number | null;
       fileCount: number;
       isActiveAction: boolean;
       actionRequired: string | null;
@@ -361,12 +528,12 @@ export const createInteraction = withAuth(
     error?: string;
   }> => {
     try {
-      const interaction = await caseService.createInteraction(input);
+      const interaction = await caseService.createInteraction(input, session);
 
       // Transform to frontend format
       const transformedInteraction = {
         id: interaction.id,
-        date: interaction.createdAt.toLocaleString('en-GB', {
+        date: interaction.startedAt.toLocaleString('en-GB', {
           day: '2-digit',
           month: '2-digit',
           year: 'numeric',
@@ -378,6 +545,10 @@ export const createInteraction = withAuth(
         party2Name: interaction.party2Name,
         party2Type: interaction.party2Type,
         content: interaction.content,
+        type: interaction.type,
+        direction: interaction.direction,
+        startedAt: interaction.startedAt.toISOString(),
+        durationMinutes: interaction.durationMinutes,
         fileCount: interaction._count.files,
         isActiveAction: interaction.isActiveAction,
         actionRequired: interaction.actionRequired,
@@ -407,9 +578,10 @@ export const createInteraction = withAuth(
 /**
  * Update an interaction
  */
-export const updateInteraction = withAuth(
+export const updateInteraction = withPermission(
+  'manage_interactions',
   async (
-    _session,
+    session,
     interactionId: number,
     input: {
       party1Name?: string;
@@ -417,6 +589,10 @@ export const updateInteraction = withAuth(
       party2Name?: string;
       party2Type?: 'ARGAN' | 'CLIENT' | 'CONTRACTOR' | 'EMPLOYEE' | 'THIRD_PARTY';
       content?: string;
+      type?: InteractionType;
+      direction?: InteractionDirection | null;
+      startedAt?: string;
+      durationMinutes?: number | null;
       actionRequired?: string | null;
       actionRequiredBy?: 'ARGAN' | 'CLIENT' | 'CONTRACTOR' | 'EMPLOYEE' | 'THIRD_PARTY' | null;
       actionRequiredByDate?: string | null;
@@ -431,6 +607,10 @@ export const updateInteraction = withAuth(
       party2Name: string;
       party2Type: string;
       content: string;
+      type: string;
+      direction: string | null;
+      startedAt: string;
+      durationMinutes: number | null;
       fileCount: number;
       isActiveAction: boolean;
       actionRequired: string | null;
@@ -441,12 +621,12 @@ export const updateInteraction = withAuth(
   }> => {
     try {
       // Update the interaction using the case service
-      const updatedInteraction = await caseService.updateInteraction(interactionId, input);
+      const updatedInteraction = await caseService.updateInteraction(interactionId, input, session);
 
       // Transform to frontend format
       const transformedInteraction = {
         id: updatedInteraction.id,
-        date: updatedInteraction.createdAt.toLocaleString('en-GB', {
+        date: updatedInteraction.startedAt.toLocaleString('en-GB', {
           day: '2-digit',
           month: '2-digit',
           year: 'numeric',
@@ -458,6 +638,10 @@ export const updateInteraction = withAuth(
         party2Name: updatedInteraction.party2Name,
         party2Type: updatedInteraction.party2Type,
         content: updatedInteraction.content,
+        type: updatedInteraction.type,
+        direction: updatedInteraction.direction,
+        startedAt: updatedInteraction.startedAt.toISOString(),
+        durationMinutes: updatedInteraction.durationMinutes,
         fileCount: updatedInteraction._count.files,
         isActiveAction: updatedInteraction.isActiveAction,
         actionRequired: updatedInteraction.actionRequired,
@@ -484,9 +668,10 @@ export const updateInteraction = withAuth(
 /**
  * Delete an interaction
  */
-export const deleteInteraction = withAuth(
+export const deleteInteraction = withPermission(
+  'manage_interactions',
   async (
-    _session,
+    session,
     interactionId: number
   ): Promise<{
     success: boolean;
@@ -494,7 +679,7 @@ export const deleteInteraction = withAuth(
   }> => {
     try {
       // Delete the interaction (this will also cascade delete related files)
-      await caseService.deleteInteraction(interactionId);
+      await caseService.deleteInteraction(interactionId, session);
 
       return { success: true };
     } catch (error) {
@@ -512,9 +697,10 @@ export const deleteInteraction = withAuth(
 /**
  * Create a file record (after S3 upload)
  */
-export const createFileRecord = withAuth(
+export const createFileRecord = withPermission(
+  'manage_case_files',
   async (
-    _session,
+    session,
     input: CreateFileInput
   ): Promise<{
     success: boolean;
@@ -529,7 +715,7 @@ export const createFileRecord = withAuth(
     error?: string;
   }> => {
     try {
-      const file = await caseService.createFile(input);
+      const file = await caseService.createFile(input, session);
 
       // Transform to frontend format
       const transformedFile = {
@@ -574,6 +760,7 @@ export const getFiles = withAuth(
       id: number;
       fileName: string;
       fileUrl: string;
+      contentType: string | null;
       fileSize: number;
       uploadedBy: string;
       uploadedAt: string;
@@ -591,6 +778,7 @@ export const getFiles = withAuth(
         id: f.id,
         fileName: f.fileName,
         fileUrl: f.fileUrl,
+        contentType: f.contentType,
         fileSize: f.fileSize,
         uploadedBy: f.uploadedBy,
         uploadedAt: f.uploadedAt.toLocaleDateString('en-GB'),
@@ -612,13 +800,55 @@ export const getFiles = withAuth(
   }
 );
 
+/**
+ * Get who downloaded or previewed a file, most recent first
+ */
+export const getFileAccesses = withAuth(
+  async (
+    _session,
+    fileId: number
+  ): Promise<{
+    success: boolean;
+    data?: Array<{
+      id: number;
+      accessType: 'DOWNLOAD' | 'PREVIEW';
+      accessedBy: string;
+      accessedAt: string;
+    }>;
+    error?: string;
+  }> => {
+    try {
+      const accesses = await caseService.getFileAccesses(fileId);
+
+      // Transform to frontend format
+      const transformedAccesses = accesses.map((a) => ({
+        id: a.id,
+        accessType: a.accessType,
+        accessedBy: a.accessedBy,
+        accessedAt: a.accessedAt.toISOString(),
+      }));
+
+      return { success: true, data: transformedAccesses };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch file access history',
+      };
+    }
+  }
+);
+
 /**
  * Set an interaction as the active action
  * This will unset all other active actions and update the case's action fields
  */
-export const setActiveAction = withAuth(
+export const setActiveAction = withPermission(
+  'manage_interactions',
   async (
-    _session,
+    session,
     interactionId: number,
     clientId: number
   ): Promise<{
@@ -626,7 +856,7 @@ export const setActiveAction = withAuth(
     error?: string;
   }> => {
     try {
-      await caseService.setActiveAction(interactionId);
+      await caseService.setActiveAction(interactionId, session);
 
       revalidatePath(`/admin/clients/${clientId}/cases`);
 
@@ -647,9 +877,10 @@ export const setActiveAction = withAuth(
  * Unset the active action for an interaction
  * This will clear the case's action fields
  */
-export const unsetActiveAction = withAuth(
+export const unsetActiveAction = withPermission(
+  'manage_interactions',
   async (
-    _session,
+    session,
     interactionId: number,
     clientId: number
   ): Promise<{
@@ -657,7 +888,7 @@ export const unsetActiveAction = withAuth(
     error?: string;
   }> => {
     try {
-      await caseService.unsetActiveAction(interactionId);
+      await caseService.unsetActiveAction(interactionId, session);
 
       revalidatePath(`/admin/clients/${clientId}/cases`);
 
@@ -673,3 +904,192 @@ export const unsetActiveAction = withAuth(
     }
   }
 );
+
+/**
+ * Get time entries for an interaction
+ */
+export const getTimeEntries = withAuth(
+  async (
+    _session,
+    interactionId: number
+  ): Promise<{
+    success: boolean;
+    data?: Array<{
+      id: number;
+      category: string;
+      durationMinutes: number;
+      billable: boolean;
+      description: string | null;
+      workDate: string;
+      recordedBy: string;
+    }>;
+    error?: string;
+  }> => {
+    try {
+      const entries = await caseService.getTimeEntriesByInteractionId(interactionId);
+
+      // Transform to frontend format
+      const transformedEntries = entries.map((e) => ({
+        id: e.id,
+        category: e.category,
+        durationMinutes: e.durationMinutes,
+        billable: e.billable,
+        description: e.description,
+        workDate: e.workDate.toISOString().split('T')[0],
+        recordedBy: e.recordedBy,
+      }));
+
+      return { success: true, data: transformedEntries };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch time entries',
+      };
+    }
+  }
+);
+
+/**
+ * Record time spent on an interaction
+ * The logged-in admin is recorded as the person who did the work
+ */
+export const createTimeEntry = withPermission(
+  'manage_time_entries',
+  async (
+    session,
+    clientId: number,
+    input: Omit<CreateTimeEntryInput, 'recordedBy'>
+  ): Promise<{
+    success: boolean;
+    data?: {
+      id: number;
+      category: string;
+      durationMinutes: number;
+      billable: boolean;
+      description: string | null;
+      workDate: string;
+      recordedBy: string;
+    };
+    error?: string;
+  }> => {
+    try {
+      const entry = await caseService.createTimeEntry(clientId, {
+        ...input,
+        recordedBy: session.name,
+      });
+
+      revalidatePath(`/admin/clients/${clientId}/cases`);
+
+      return {
+        success: true,
+        data: {
+          id: entry.id,
+          category: entry.category,
+          durationMinutes: entry.durationMinutes,
+          billable: entry.billable,
+          description: entry.description,
+          workDate: entry.workDate.toISOString().split('T')[0],
+          recordedBy: entry.recordedBy,
+        },
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to record time',
+      };
+    }
+  }
+);
+
+/**
+ * Delete a time entry
+ */
+export const deleteTimeEntry = withPermission(
+  'manage_time_entries',
+  async (
+    _session,
+    id: number,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    error?: string;
+  }> => {
+    try {
+      await caseService.deleteTimeEntry(clientId, id);
+
+      revalidatePath(`/admin/clients/${clientId}/cases`);
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to delete time entry',
+      };
+    }
+  }
+);
+
+/**
+ * Get hours used vs. included for a client's active contract
+ */
+export const getClientHoursUsage = withAuth(
+  async (
+    _session,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    data?: ClientHoursUsage | null;
+    error?: string;
+  }> => {
+    try {
+      const usage = await caseService.getClientHoursUsage(clientId);
+
+      return { success: true, data: usage };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch hours usage',
+      };
+    }
+  }
+);
+
+/**
+ * Get a client's phone and video calls per month
+ */
+export const getClientCallActivity = withAuth(
+  async (
+    _session,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    data?: ClientCallActivity;
+    error?: string;
+  }> => {
+    try {
+      const activity = await caseService.getClientCallActivity(clientId);
+
+      return { success: true, data: activity };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch call activity',
+      };
+    }
+  }
+);
@@ -5,8 +5,11 @@ import { ArrowLeft } from 'lucide-react';
 
 import { caseService } from '@/lib/services/business/case.service';
 import { clientService } from '@/lib/services/business/client.service';
+import { pickCaseTypeFields } from '@/lib/utils/business/case-types';
 
+import { CallActivityWidget } from '@/components/cases/call-activity-widget';
 import { CasesPageContent } from '@/components/cases/cases-page-content';
+import { HoursUsageWidget } from '@/components/cases/hours-usage-widget';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -51,8 +54,12 @@ export default async function ClientCasesPage({ params, searchParams }: ClientCa
     notFound();
   }
 
-  // Fetch cases for this client
-  const casesData = await caseService.getCasesByClientId(id);
+  // Fetch cases, hours usage and call activity for this client
+  const [casesData, hoursUsage, callActivity] = await Promise.all([
+    caseService.getCasesByClientId(id),
+    caseService.getClientHoursUsage(id),
+    caseService.getClientCallActivity(id),
+  ]);
 
   // Transform to match frontend format
   const cases = casesData.map(c => ({
@@ -72,6 +79,8 @@ export default async function ClientCasesPage({ params, searchParams }: ClientCa
     escalatedBy: c.escalatedBy,
     assignedTo: c.assignedTo,
     description: c.description,
+    type: c.type,
+    typeFields: pickCaseTypeFields(c.type, c.typeFields),
     interactionCount: c._count.interactions,
     fileCount: c._count.files,
   }));
@@ -112,6 +121,12 @@ export default async function ClientCasesPage({ params, searchParams }: ClientCa
         </div>
       </div>
 
+      {/* Hours Usage against Active Contract */}
+      <HoursUsageWidget usage={hoursUsage} />
+
+      {/* Calls and Minutes per Month */}
+      <CallActivityWidget activity={callActivity} />
+
       {/* Cases Content */}
       <CasesPageContent
         clientId={id}
@@ -2,29 +2,30 @@
 
 import { revalidatePath } from 'next/cache';
 
-import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { contractService } from '@/lib/services/business/contract.service';
 
 import type { ServiceInScope, ServiceOutOfScope } from '@/lib/constants/contract';
 
 /**
  * Contract Management Server Actions
- * All actions require authentication via withAuth wrapper
+ * All actions require authentication; mutations also require a role permission (withPermission)
  */
 
 /**
  * Update contract inclusive services (In Scope)
  * Returns result object following architectural patterns
  */
-export const updateServicesInScope = withAuth(
+export const updateServicesInScope = withPermission(
+  'update_contract',
   async (
-    _session,
+    session,
     contractId: number,
     services: ServiceInScope[]
   ): Promise<{ success: boolean; data?: { inclusiveServicesInScope: string[] }; error?: string }> => {
     try {
       // Update the contract using service layer
-      const contract = await contractService.updateServicesInScope(contractId, services);
+      const contract = await contractService.updateServicesInScope(contractId, services, session);
 
       // Revalidate the client page to show updated data
       revalidatePath(`/admin/clients/${contract.clientId}`);
@@ -57,15 +58,16 @@ export const updateServicesInScope = withAuth(
  * Update contract services (Out of Scope)
  * Returns result object following architectural patterns
  */
-export const updateServicesOutOfScope = withAuth(
+export const updateServicesOutOfScope = withPermission(
+  'update_contract',
   async (
-    _session,
+    session,
     contractId: number,
     services: ServiceOutOfScope[]
   ): Promise<{ success: boolean; data?: { inclusiveServicesOutOfScope: string[] }; error?: string }> => {
     try {
       // Update the contract using service layer
-      const contract = await contractService.updateServicesOutOfScope(contractId, services);
+      const contract = await contractService.updateServicesOutOfScope(contractId, services, session);
 
       // Revalidate the client page to show updated data
       revalidatePath(`/admin/clients/${contract.clientId}`);
@@ -5,13 +5,14 @@ import { revalidatePath } from 'next/cache';
 import { ContractStatus } from '@prisma/client';
 
 import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { contractService } from '@/lib/services/business/contract.service';
 
 import type { Contract, CreateContractDto, UpdateContractDto } from '@/lib/types/contract';
 
 /**
  * Contract Management Server Actions
- * All actions require authentication via withAuth wrapper
+ * All actions require authentication; mutations also require a role permission (withPermission)
  */
 
 /**
@@ -51,13 +52,14 @@ export const checkActiveContract = withAuth(
  * Create new contract with proper error handling
  * Returns result object (not throwing errors) following architectural patterns
  */
-export const createContract = withAuth(
+export const createContract = withPermission(
+  'create_contract',
   async (
-    _session,
+    session,
     data: CreateContractDto
   ): Promise<{ success: boolean; data?: Contract; error?: string }> => {
     try {
-      const contract = await contractService.createContract(data);
+      const contract = await contractService.createContract(data, session);
 
       // Convert Decimal to number for client serialization
       const serializedContract = {
@@ -100,14 +102,15 @@ export const createContract = withAuth(
  * Update existing contract with proper error handling
  * Returns result object (not throwing errors) following architectural patterns
  */
-export const updateContract = withAuth(
+export const updateContract = withPermission(
+  'update_contract',
   async (
-    _session,
+    session,
     id: number,
     data: UpdateContractDto
   ): Promise<{ success: boolean; data?: Contract; error?: string }> => {
     try {
-      const contract = await contractService.updateContract(id, data);
+      const contract = await contractService.updateContract(id, data, session);
 
       // Convert Decimal to number for client serialization
       const serializedContract = {
@@ -251,14 +254,15 @@ export const getContract = withAuth(
  * Set a contract as active
  * Archives the current active contract before setting the new one
  */
-export const setActiveContract = withAuth(
+export const setActiveContract = withPermission(
+  'update_contract',
   async (
-    _session,
+    session,
     clientId: number,
     contractId: number
   ): Promise<{ success: boolean; data?: Contract; error?: string }> => {
     try {
-      const contract = await contractService.setActiveContract(clientId, contractId);
+      const contract = await contractService.setActiveContract(clientId, contractId, session);
 
       // Serialize Decimal fields
       const serializedContract = {
@@ -303,14 +307,15 @@ export const setActiveContract = withAuth(
  * Delete a contract
  * Only DRAFT contracts can be deleted
  */
-export const deleteContract = withAuth(
+export const deleteContract = withPermission(
+  'delete_contract',
   async (
-    _session,
+    session,
     clientId: number,
     contractId: number
   ): Promise<{ success: boolean; error?: string }> => {
     try {
-      await contractService.deleteContract(contractId);
+      await contractService.deleteContract(contractId, session);
 
       // Revalidate contracts list page
       revalidatePath(`/admin/clients/${clientId}/contracts`);
@@ -338,14 +343,15 @@ export const deleteContract = withAuth(
 /**
  * Update contract document URLs
  */
-export const updateContractUrls = withAuth(
+export const updateContractUrls = withPermission(
+  'update_contract',
   async (
-    _session,
+    session,
     contractId: number,
     urls: { docUrl?: string; signedContractUrl?: string }
   ): Promise<{ success: boolean; data?: Contract; error?: string }> => {
     try {
-      const contract = await contractService.updateUrls(contractId, urls);
+      const contract = await contractService.updateUrls(contractId, urls, session);
 
       // Serialize Decimal fields
       const serializedContract = {
@@ -385,3 +391,57 @@ export const updateContractUrls = withAuth(
     }
   }
 );
+
+/**
+ * Generate the contract PDF and set it as the active contract document
+ * The signed contract URL is not changed
+ */
+export const generateContractDocument = withPermission(
+  'update_contract',
+  async (
+    session,
+    contractId: number
+  ): Promise<{ success: boolean; data?: Contract; error?: string }> => {
+    try {
+      const contract = await contractService.generateContractDocument(contractId, session);
+
+      // Serialize Decimal fields
+      const serializedContract = {
+        ...contract,
+        hrAdminInclusiveHours: contract.hrAdminInclusiveHours
+          ? Number(contract.hrAdminInclusiveHours)
+          : null,
+        employmentLawInclusiveHours: contract.employmentLawInclusiveHours
+          ? Number(contract.employmentLawInclusiveHours)
+          : null,
+        hrAdminRate: contract.hrAdminRate ? Number(contract.hrAdminRate) : null,
+        employmentLawRate: contract.employmentLawRate ? Number(contract.employmentLawRate) : null,
+        mileageRate: contract.mileageRate ? Number(contract.mileageRate) : null,
+        overnightRate: contract.overnightRate ? Number(contract.overnightRate) : null,
+      };
+
+      // Revalidate contract pages and the client's document repository
+      revalidatePath(`/admin/clients/${contract.clientId}/contracts/${contractId}`);
+      revalidatePath(`/admin/clients/${contract.clientId}/contracts`);
+      revalidatePath(`/admin/documents/client/${contract.clientId}`);
+      revalidatePath(`/admin/clients/${contract.clientId}/documents`);
+
+      return {
+        success: true,
+        data: serializedContract,
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: false,
+        error: 'An unexpected error occurred while generating the contract document',
+      };
+    }
+  }
+);
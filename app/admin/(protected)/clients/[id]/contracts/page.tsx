@@ -5,6 +5,8 @@ import { Plus, ArrowLeft } from 'lucide-react';
 
 import { getClientContracts } from '@/lib/actions/contract.actions';
 import { clientService } from '@/lib/services/business/client.service';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
 
 import { ContractsList } from '@/components/contracts/contracts-list';
 import {
@@ -17,7 +19,6 @@ import {
 } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 
-
 interface ContractsPageProps {
   params: Promise<{
     id: string;
@@ -45,6 +46,8 @@ export default async function ContractsPage({ params }: ContractsPageProps) {
 
   // Fetch all contracts for this client
   const contractsResult = await getClientContracts(clientId);
+  const session = await validateSession();
+  const canCreateContract = !!session && canPerformAction(session, 'create_contract');
 
   if (!contractsResult.success) {
     throw new Error(contractsResult.error || 'Failed to fetch contracts');
@@ -88,21 +91,25 @@ export default async function ContractsPage({ params }: ContractsPageProps) {
             <p className="text-muted-foreground">Client Contracts</p>
           </div>
         </div>
-        <Link href={`/admin/clients/${clientId}/contracts/new`}>
-          <Button className="w-[180px]">
-            <Plus className="mr-2 h-4 w-4" />
-            Add New Contract
-          </Button>
-        </Link>
+        {canCreateContract && (
+          <Link href={`/admin/clients/${clientId}/contracts/new`}>
+            <Button className="w-[180px]">
+              <Plus className="mr-2 h-4 w-4" />
+              Add New Contract
+            </Button>
+          </Link>
+        )}
       </div>
 
       {/* Contracts Table */}
       {contracts.length === 0 ? (
         <div className="text-center py-12 border rounded-lg bg-muted/30">
           <p className="text-muted-foreground text-lg mb-4">No contracts found for this client</p>
-          <Button asChild>
-            <Link href={`/admin/clients/${clientId}/contracts/new`}>Create First Contract</Link>
-          </Button>
+          {canCreateContract && (
+            <Button asChild>
+              <Link href={`/admin/clients/${clientId}/contracts/new`}>Create First Contract</Link>
+            </Button>
+          )}
         </div>
       ) : (
         <ContractsList contracts={contracts} clientId={clientId} />
@@ -1,10 +1,11 @@
 import Link from 'next/link';
+import { notFound } from 'next/navigation';
 
-import { Plus, ArrowLeft } from 'lucide-react';
+import { ArrowLeft } from 'lucide-react';
 
 import { clientService } from '@/lib/services/business/client.service';
 
-import { InternalDocsTable } from '@/components/internal-docs/internal-docs-table';
+import { ClientDocumentRepositoryContent } from '@/components/documents/client-document-repository-content';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -15,6 +16,8 @@ import {
 } from '@/components/ui/breadcrumb';
 import { Button } from '@/components/ui/button';
 
+import { getClientDocuments } from '@/app/admin/(protected)/documents/actions';
+
 export default async function ClientDocumentsPage({
   params,
   searchParams,
@@ -25,71 +28,18 @@ export default async function ClientDocumentsPage({
   const { id } = await params;
   const resolvedSearchParams = await searchParams;
   const search = typeof resolvedSearchParams.search === 'string' ? resolvedSearchParams.search : '';
+  const clientId = parseInt(id, 10);
+
+  if (isNaN(clientId)) {
+    notFound();
+  }
 
   // Fetch actual client data
-  const client = await clientService.getClientById(Number(id));
+  const client = await clientService.getClientById(clientId);
   const clientName = client.companyName;
 
-  // Placeholder data - will be replaced with S3 bucket data
-  // These documents represent files stored in S3 organized by client folders
-  const documents = [
-    {
-      id: 'DOC-001',
-      type: 'Contract',
-      version: 'V1.0',
-      title: 'Service Agreement 2024.pdf',
-      uploadedAt: new Date('2024-03-15T10:30:00'),
-    },
-    {
-      id: 'DOC-002',
-      type: 'Policy',
-      version: 'V2.1',
-      title: 'Employee Handbook.pdf',
-      uploadedAt: new Date('2024-03-10T14:45:00'),
-    },
-    {
-      id: 'DOC-003',
-      type: 'Payroll',
-      version: 'V1.0',
-      title: 'Payroll Summary March 2024.xlsx',
-      uploadedAt: new Date('2024-03-08T09:15:00'),
-    },
-    {
-      id: 'DOC-004',
-      type: 'Policy',
-      version: 'V1.5',
-      title: 'Health & Safety Policy.pdf',
-      uploadedAt: new Date('2024-02-28T11:20:00'),
-    },
-    {
-      id: 'DOC-005',
-      type: 'Training',
-      version: 'V1.0',
-      title: 'Training Records Q1 2024.xlsx',
-      uploadedAt: new Date('2024-02-15T16:00:00'),
-    },
-    {
-      id: 'DOC-006',
-      type: 'Contract',
-      version: 'V1.2',
-      title: 'NDA Standard Template.docx',
-      uploadedAt: new Date('2024-02-10T08:30:00'),
-    },
-    {
-      id: 'DOC-007',
-      type: 'Form',
-      version: 'V1.0',
-      title: 'Client Onboarding Checklist.pdf',
-      uploadedAt: new Date('2024-01-25T13:15:00'),
-    },
-    {
-      id: 'DOC-008',
-      type: 'Compliance',
-      version: 'V2.0',
-      title: 'GDPR Compliance Report 2024.pdf',
-      uploadedAt: new Date('2024-01-20T10:45:00'),
-    },
-  ];
+  // Documents held in the client's repository, optionally filtered by ?search=
+  const documents = await getClientDocuments(clientId, search);
 
   return (
     <div className="flex flex-1 flex-col gap-4 p-4 bg-gray-50 min-h-screen">
@@ -109,7 +59,7 @@ export default async function ClientDocumentsPage({
           </BreadcrumbItem>
           <BreadcrumbSeparator />
           <BreadcrumbItem>
-            <BreadcrumbPage>Internal Documents Repository</BreadcrumbPage>
+            <BreadcrumbPage>Document Repository</BreadcrumbPage>
           </BreadcrumbItem>
         </BreadcrumbList>
       </Breadcrumb>
@@ -123,18 +73,18 @@ export default async function ClientDocumentsPage({
             </Button>
           </Link>
           <div>
-            <h1 className="text-3xl font-bold">Internal Documents Repository</h1>
+            <h1 className="text-3xl font-bold">Document Repository</h1>
             <p className="text-sm text-muted-foreground">{clientName}</p>
           </div>
         </div>
-        <Button className="w-[200px]">
-          <Plus className="mr-2 h-4 w-4" />
-          Add New Document
-        </Button>
       </div>
 
-      {/* Documents Table */}
-      <InternalDocsTable documents={documents} search={search} />
+      {/* Documents */}
+      <ClientDocumentRepositoryContent
+        documents={documents}
+        clientId={clientId}
+        clientName={clientName}
+      />
     </div>
   );
 }
@@ -0,0 +1,190 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { policyService } from '@/lib/services/business/policy.service';
+
+import type {
+  CreatePolicyDocumentDto,
+  CreatePolicyUploadDto,
+  PolicyDocument,
+  PolicyDocumentKind,
+} from '@/lib/types/policy';
+
+/**
+ * Policy and Handbook Server Actions
+ * All actions require authentication; mutations also require a role permission (withPermission)
+ */
+
+/**
+ * Get all policy and handbook versions for a client
+ */
+export const getClientPolicyDocuments = withAuth(
+  async (
+    _session,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    data?: { policies: PolicyDocument[]; handbooks: PolicyDocument[] };
+    error?: string;
+  }> => {
+    try {
+      const data = await policyService.getClientPolicyDocuments(clientId);
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to fetch policies',
+      };
+    }
+  }
+);
+
+/**
+ * Start a file upload for a policy or handbook version
+ */
+export const createPolicyUpload = withPermission(
+  'manage_policies',
+  async (
+    _session,
+    dto: CreatePolicyUploadDto
+  ): Promise<{
+    success: boolean;
+    data?: { uploadUrl: string; fileKey: string; contentType: string };
+    error?: string;
+  }> => {
+    try {
+      const data = await policyService.createUpload(dto);
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to start upload',
+      };
+    }
+  }
+);
+
+/**
+ * Create a draft policy or handbook, or a draft new version
+ * The current admin is the author unless another is chosen
+ */
+export const createPolicyDraft = withPermission(
+  'manage_policies',
+  async (
+    session,
+    dto: CreatePolicyDocumentDto
+  ): Promise<{ success: boolean; data?: PolicyDocument; error?: string }> => {
+    try {
+      const data = await policyService.createDraft(dto, session.adminId);
+
+      revalidatePath(`/admin/clients/${dto.clientId}/policies`);
+
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to create draft',
+      };
+    }
+  }
+);
+
+/**
+ * Issue a draft version, superseding the version it replaces
+ */
+export const issuePolicyDocument = withPermission(
+  'manage_policies',
+  async (
+    _session,
+    clientId: number,
+    kind: PolicyDocumentKind,
+    id: number
+  ): Promise<{ success: boolean; data?: PolicyDocument; error?: string }> => {
+    try {
+      const data = await policyService.issue(clientId, kind, id);
+
+      revalidatePath(`/admin/clients/${clientId}/policies`);
+
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to issue document',
+      };
+    }
+  }
+);
+
+/**
+ * Set the next review date for a policy or handbook version
+ */
+export const updatePolicyReviewDate = withPermission(
+  'manage_policies',
+  async (
+    _session,
+    clientId: number,
+    kind: PolicyDocumentKind,
+    id: number,
+    nextReviewDate: string | null
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await policyService.updateReviewDate(clientId, kind, id, nextReviewDate);
+
+      revalidatePath(`/admin/clients/${clientId}/policies`);
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to update review date',
+      };
+    }
+  }
+);
+
+/**
+ * Delete a draft version
+ */
+export const deletePolicyDraft = withPermission(
+  'manage_policies',
+  async (
+    _session,
+    clientId: number,
+    kind: PolicyDocumentKind,
+    id: number
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await policyService.deleteDraft(clientId, kind, id);
+
+      revalidatePath(`/admin/clients/${clientId}/policies`);
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to delete draft',
+      };
+    }
+  }
+);
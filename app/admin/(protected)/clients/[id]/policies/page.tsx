@@ -0,0 +1,109 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+
+import { ArrowLeft } from 'lucide-react';
+
+import { getClientPolicyDocuments } from '@/lib/actions/policy.actions';
+import { adminService } from '@/lib/services/business/admin.service';
+import { clientService } from '@/lib/services/business/client.service';
+
+import { PolicyDocumentsList } from '@/components/policies/policy-documents-list';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+
+interface PoliciesPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * Policies and Handbooks Page
+ * Version history of a client's policies and handbooks
+ */
+export default async function PoliciesPage({ params }: PoliciesPageProps) {
+  const { id } = await params;
+  const clientId = parseInt(id, 10);
+
+  if (isNaN(clientId)) {
+    notFound();
+  }
+
+  // Fetch client data for breadcrumbs and page header
+  const client = await clientService.getClientById(clientId);
+
+  if (!client) {
+    notFound();
+  }
+
+  const [documentsResult, adminUsers] = await Promise.all([
+    getClientPolicyDocuments(clientId),
+    adminService.getActiveAdminUsers(),
+  ]);
+
+  if (!documentsResult.success || !documentsResult.data) {
+    throw new Error(documentsResult.error || 'Failed to fetch policies');
+  }
+
+  const { policies, handbooks } = documentsResult.data;
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin/clients">Clients</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbLink href={`/admin/clients/${clientId}`}>
+              {client.companyName}
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Policies & Handbooks</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="flex items-center gap-4">
+        <Link href={`/admin/clients/${clientId}`}>
+          <Button variant="outline" size="icon" className="h-10 w-10">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold">{client.companyName}</h1>
+          <p className="text-muted-foreground">Policies & Handbooks</p>
+        </div>
+      </div>
+
+      <PolicyDocumentsList
+        clientId={clientId}
+        kind="policy"
+        documents={policies}
+        adminUsers={adminUsers}
+      />
+      <PolicyDocumentsList
+        clientId={clientId}
+        kind="handbook"
+        documents={handbooks}
+        adminUsers={adminUsers}
+      />
+    </div>
+  );
+}
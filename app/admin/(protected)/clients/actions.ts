@@ -1,6 +1,8 @@
 'use server';
 
 import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { activityLogService } from '@/lib/services/business/activity-log.service';
 import { clientService } from '@/lib/services/business/client.service';
 
 import type {
@@ -13,7 +15,7 @@ import type {
 
 /**
  * Client Management Server Actions
- * All actions require authentication via withAuth wrapper
+ * All actions require authentication; mutations also require a role permission (withPermission)
  */
 
 /**
@@ -28,14 +30,15 @@ export async function getUniqueSectors(): Promise<string[]> {
  * Update a sector name across all clients
  * Returns result object following architectural patterns
  */
-export const updateSector = withAuth(
+export const updateSector = withPermission(
+  'manage_sectors',
   async (
-    _session,
+    session,
     oldName: string,
     newName: string
   ): Promise<{ success: boolean; data?: { count: number }; error?: string }> => {
     try {
-      const count = await clientService.updateSector(oldName, newName);
+      const count = await clientService.updateSector(oldName, newName, session);
 
       return {
         success: true,
@@ -63,13 +66,14 @@ export const updateSector = withAuth(
  * Delete a sector (sets to null for all clients using it)
  * Returns result object following architectural patterns
  */
-export const deleteSector = withAuth(
+export const deleteSector = withPermission(
+  'manage_sectors',
   async (
-    _session,
+    session,
     name: string
   ): Promise<{ success: boolean; data?: { count: number; deleted: boolean }; error?: string }> => {
     try {
-      const result = await clientService.deleteSector(name);
+      const result = await clientService.deleteSector(name, session);
 
       return {
         success: true,
@@ -115,13 +119,14 @@ export const getClients = withAuth(
  * Create new client with proper error handling
  * Returns result object (not throwing errors) following architectural patterns
  */
-export const createClient = withAuth(
+export const createClient = withPermission(
+  'create_client',
   async (
-    _session,
+    session,
     data: CreateClientDto
   ): Promise<{ success: boolean; data?: Client; error?: string }> => {
     try {
-      const client = await clientService.createClient(data);
+      const client = await clientService.createClient(data, session);
 
       // Convert Decimal to number for client serialization
       const serializedClient = {
@@ -155,14 +160,15 @@ export const createClient = withAuth(
  * Update existing client with proper error handling
  * Returns result object (not throwing errors) following architectural patterns
  */
-export const updateClient = withAuth(
+export const updateClient = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     id: number,
     data: UpdateClientDto
   ): Promise<{ success: boolean; data?: Client; error?: string }> => {
     try {
-      const client = await clientService.updateClient(id, data);
+      const client = await clientService.updateClient(id, data, session);
 
       // Convert Decimal to number for client serialization
       const serializedClient = {
@@ -196,14 +202,15 @@ export const updateClient = withAuth(
  * Delete (soft delete) client with proper error handling
  * Returns result object (not throwing errors) following architectural patterns
  */
-export const deleteClient = withAuth(
+export const deleteClient = withPermission(
+  'delete_client',
   async (
-    _session,
+    session,
     id: number,
     targetStatus?: 'PENDING' | 'INACTIVE'
   ): Promise<{ success: boolean; data?: Client; error?: string }> => {
     try {
-      const client = await clientService.deleteClient(id, targetStatus);
+      const client = await clientService.deleteClient(id, session, targetStatus);
 
       // Convert Decimal to number for client serialization
       const serializedClient = {
@@ -337,9 +344,10 @@ export const getOnboarding = withAuth(
 /**
  * Update a single onboarding field
  */
-export const updateOnboardingField = withAuth(
+export const updateOnboardingField = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     clientId: number,
     type: 'client' | 'contract',
     field: string,
@@ -398,10 +406,22 @@ export const updateOnboardingField = withAuth(
         }
 
         // Update client field
-        await db.client.update({
+        const before = await db.client.findUnique({ where: { id: clientId } });
+        const after = await db.client.update({
           where: { id: clientId },
           data: { [field]: value },
         });
+
+        await activityLogService.record({
+          actor: session,
+          entityType: 'CLIENT',
+          entityId: clientId,
+          entityLabel: after.companyName,
+          action: 'UPDATE',
+          before,
+          after,
+          clientId,
+        });
       } else if (type === 'contract') {
         // Validate field - only contract-specific fields remain
         const validFields = [
@@ -438,10 +458,21 @@ export const updateOnboardingField = withAuth(
         }
 
         // Update contract field
-        await db.contract.update({
+        const after = await db.contract.update({
           where: { id: client.contracts[0].id },
           data: { [field]: value },
         });
+
+        await activityLogService.record({
+          actor: session,
+          entityType: 'CONTRACT',
+          entityId: after.id,
+          entityLabel: after.contractNumber,
+          action: 'UPDATE',
+          before: client.contracts[0],
+          after,
+          clientId,
+        });
       } else {
         return {
           success: false,
@@ -2,6 +2,9 @@ import Link from 'next/link';
 
 import { Plus } from 'lucide-react';
 
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
 import { ClientSearch } from '@/components/client-search';
 import { ClientPageWrapper } from '@/components/clients/client-page-wrapper';
 import {
@@ -26,6 +29,8 @@ export default async function ClientsPage({
   const page = Number(resolvedSearchParams.page) || 1;
   const search = typeof resolvedSearchParams.search === 'string' ? resolvedSearchParams.search : '';
   const limit = 25;
+  const session = await validateSession();
+  const canCreateClient = !!session && canPerformAction(session, 'create_client');
 
   try {
     // Fetch clients using Server Action
@@ -57,12 +62,14 @@ export default async function ClientsPage({
         {/* Page Header */}
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold">Clients</h1>
-          <Link href="/admin/clients/new">
-            <Button className="w-[180px]">
-              <Plus className="mr-2 h-4 w-4" />
-              Add New Client
-            </Button>
-          </Link>
+          {canCreateClient && (
+            <Link href="/admin/clients/new">
+              <Button className="w-[180px]">
+                <Plus className="mr-2 h-4 w-4" />
+                Add New Client
+              </Button>
+            </Link>
+          )}
         </div>
 
         {/* Search Bar */}
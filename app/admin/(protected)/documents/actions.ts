@@ -1,9 +1,27 @@
 'use server';
 
+import { revalidatePath } from 'next/cache';
+
 import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { clientService } from '@/lib/services/business/client.service';
+import { documentTemplateService } from '@/lib/services/business/document-template.service';
+import { documentService } from '@/lib/services/business/document.service';
+import { canPerformAction } from '@/lib/utils/system/rbac';
 
 import type { SerializableClientResponse } from '@/lib/types/client';
+import type {
+  ClientDocumentItem,
+  CreateDocumentUploadDto,
+  SaveClientDocumentDto,
+} from '@/lib/types/document';
+import type {
+  DocumentTemplateItem,
+  GenerateDocumentDto,
+  GeneratedDocument,
+} from '@/lib/types/document-template';
+import type { Permission } from '@/lib/utils/system/permissions';
+import type { ClientDocument, DocumentTemplateEntity } from '@prisma/client';
 
 /**
  * Document Management Server Actions
@@ -30,3 +48,183 @@ export const getClientsForDocuments = withAuth(
     };
   }
 );
+
+/**
+ * Convert a document record to its serializable form
+ */
+function toClientDocumentItem(document: ClientDocument): ClientDocumentItem {
+  return {
+    id: document.id,
+    clientId: document.clientId,
+    category: document.category,
+    title: document.title,
+    version: document.version,
+    fileName: document.fileName,
+    contentType: document.contentType,
+    fileSize: document.fileSize,
+    uploadedBy: document.uploadedBy,
+    uploadedAt: document.uploadedAt.toISOString(),
+  };
+}
+
+/**
+ * Get a client's document repository, newest first
+ */
+export const getClientDocuments = withAuth(
+  async (_session, clientId: number, search?: string): Promise<ClientDocumentItem[]> => {
+    const documents = await documentService.getClientDocuments(clientId, { search });
+    return documents.map(toClientDocumentItem);
+  }
+);
+
+/**
+ * Start a document upload for a client
+ * Returns a short-lived URL the browser PUTs the file to
+ */
+export const createDocumentUpload = withPermission(
+  'manage_client_documents',
+  async (
+    _session,
+    dto: CreateDocumentUploadDto
+  ): Promise<{
+    success: boolean;
+    data?: { uploadUrl: string; fileKey: string; contentType: string };
+    error?: string;
+  }> => {
+    try {
+      const data = await documentService.createDocumentUpload(dto);
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to start upload',
+      };
+    }
+  }
+);
+
+/**
+ * Add an uploaded document to the client's repository
+ */
+export const saveClientDocument = withPermission(
+  'manage_client_documents',
+  async (
+    session,
+    dto: Omit<SaveClientDocumentDto, 'uploadedBy'>
+  ): Promise<{
+    success: boolean;
+    data?: ClientDocumentItem;
+    error?: string;
+  }> => {
+    try {
+      const document = await documentService.saveDocument({
+        ...dto,
+        uploadedBy: session.name,
+      });
+
+      revalidatePath(`/admin/documents/client/${dto.clientId}`);
+      revalidatePath(`/admin/clients/${dto.clientId}/documents`);
+
+      return { success: true, data: toClientDocumentItem(document) };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to save document',
+      };
+    }
+  }
+);
+
+/**
+ * Permission needed to store a generated document against each kind of record
+ */
+const GENERATE_PERMISSIONS: Record<DocumentTemplateEntity, Permission> = {
+  CLIENT: 'manage_client_documents',
+  CONTRACT: 'manage_client_documents',
+  CASE: 'manage_case_files',
+};
+
+/**
+ * Get the active templates for generating documents from a client, contract or case
+ */
+export const getTemplatesForGeneration = withAuth(
+  async (
+    _session,
+    entityType: DocumentTemplateEntity
+  ): Promise<{
+    success: boolean;
+    data?: DocumentTemplateItem[];
+    error?: string;
+  }> => {
+    try {
+      const templates = await documentTemplateService.listTemplates({
+        entityType,
+        activeOnly: true,
+      });
+      return { success: true, data: templates };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to load templates',
+      };
+    }
+  }
+);
+
+/**
+ * Generate a document from a template and store it against its client, contract or case
+ * Logging it as an interaction also needs manage_interactions
+ */
+export const generateDocument = withAuth(
+  async (
+    session,
+    dto: GenerateDocumentDto,
+    clientId: number
+  ): Promise<{
+    success: boolean;
+    data?: GeneratedDocument;
+    error?: string;
+  }> => {
+    if (
+      !canPerformAction(session, GENERATE_PERMISSIONS[dto.entityType]) ||
+      (dto.logInteraction && !canPerformAction(session, 'manage_interactions'))
+    ) {
+      return {
+        success: false,
+        error: 'Insufficient permissions. Your role cannot perform this action.',
+      };
+    }
+
+    try {
+      const document = await documentTemplateService.generateDocument(dto, session);
+
+      revalidatePath(`/admin/documents/client/${clientId}`);
+      revalidatePath(`/admin/clients/${clientId}/documents`);
+      if (dto.entityType === 'CONTRACT') {
+        revalidatePath(`/admin/clients/${clientId}/contracts/${dto.entityId}`);
+      }
+      if (dto.entityType === 'CASE' || dto.logInteraction) {
+        revalidatePath(`/admin/clients/${clientId}/cases`);
+      }
+
+      return { success: true, data: document };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to generate document',
+      };
+    }
+  }
+);
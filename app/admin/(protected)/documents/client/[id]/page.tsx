@@ -12,6 +12,8 @@ import {
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
 
+import { getClientDocuments } from '@/app/admin/(protected)/documents/actions';
+
 interface ClientDocumentRepositoryPageProps {
   params: Promise<{
     id: string;
@@ -22,7 +24,7 @@ interface ClientDocumentRepositoryPageProps {
  * Client Document Repository Page
  * Shows documents that Argan creates for the client's employees
  * (e.g., employee handbooks, policies, HR documents)
- * Stored in S3 bucket
+ * Files are held in document storage and streamed through /api/clients/[id]/documents
  */
 export default async function ClientDocumentRepositoryPage({ params }: ClientDocumentRepositoryPageProps) {
   const { id } = await params;
@@ -39,58 +41,8 @@ export default async function ClientDocumentRepositoryPage({ params }: ClientDoc
     notFound();
   }
 
-  // Placeholder documents - will be replaced with S3 bucket data
-  // These are documents Argan creates FOR the client to give to their employees
-  const placeholderDocuments = [
-    {
-      id: 1,
-      name: 'Employee_Handbook_2024.pdf',
-      category: 'Handbooks',
-      uploadedAt: '2024-03-15',
-    },
-    {
-      id: 2,
-      name: 'Holiday_Policy.pdf',
-      category: 'Policies',
-      uploadedAt: '2024-03-10',
-    },
-    {
-      id: 3,
-      name: 'Sickness_Absence_Policy.pdf',
-      category: 'Policies',
-      uploadedAt: '2024-03-08',
-    },
-    {
-      id: 4,
-      name: 'Disciplinary_Procedure.pdf',
-      category: 'Procedures',
-      uploadedAt: '2024-02-28',
-    },
-    {
-      id: 5,
-      name: 'Grievance_Procedure.pdf',
-      category: 'Procedures',
-      uploadedAt: '2024-02-25',
-    },
-    {
-      id: 6,
-      name: 'Maternity_Paternity_Policy.pdf',
-      category: 'Policies',
-      uploadedAt: '2024-02-20',
-    },
-    {
-      id: 7,
-      name: 'Health_Safety_Policy.pdf',
-      category: 'Policies',
-      uploadedAt: '2024-02-15',
-    },
-    {
-      id: 8,
-      name: 'Code_of_Conduct.pdf',
-      category: 'Policies',
-      uploadedAt: '2024-02-10',
-    },
-  ];
+  // Documents Argan holds for the client
+  const documents = await getClientDocuments(clientId);
 
   return (
     <div className="flex flex-1 flex-col gap-4 p-4 bg-gray-50 min-h-screen">
@@ -120,7 +72,11 @@ export default async function ClientDocumentRepositoryPage({ params }: ClientDoc
       </div>
 
       {/* Document Repository Content */}
-      <ClientDocumentRepositoryContent documents={placeholderDocuments} clientId={clientId} />
+      <ClientDocumentRepositoryContent
+        documents={documents}
+        clientId={clientId}
+        clientName={client.companyName}
+      />
     </div>
   );
 }
@@ -0,0 +1,184 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import {
+  internalDocumentService,
+  type InternalWithArchives,
+} from '@/lib/services/business/internal-document.service';
+
+import type {
+  ArchivedInternalDocumentItem,
+  CreateInternalDocumentUploadDto,
+  InternalDocumentItem,
+  SaveInternalDocumentDto,
+  UpdateInternalDocumentDto,
+} from '@/lib/types/internal-document';
+import type { Archive } from '@prisma/client';
+
+/**
+ * Internal Document Library Server Actions
+ * All actions require authentication; mutations also require a role permission (withPermission)
+ */
+
+/**
+ * Convert an archived version to its serializable form
+ */
+function toArchivedItem(archive: Archive): ArchivedInternalDocumentItem {
+  return {
+    id: archive.id,
+    archiveNumber: archive.archiveNumber,
+    title: archive.title,
+    version: archive.version,
+    fileName: archive.fileName,
+    contentType: archive.contentType,
+    fileSize: archive.fileSize,
+    uploadedBy: archive.uploadedBy,
+    uploadedAt: archive.uploadedAt.toISOString(),
+    archivedBy: archive.archivedBy,
+    archivedAt: archive.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a document and its archived versions to their serializable form
+ */
+function toInternalDocumentItem(document: InternalWithArchives): InternalDocumentItem {
+  return {
+    id: document.id,
+    internalNumber: document.internalNumber,
+    type: document.type,
+    title: document.title,
+    version: document.version,
+    fileName: document.fileName,
+    contentType: document.contentType,
+    fileSize: document.fileSize,
+    uploadedBy: document.uploadedBy,
+    uploadedAt: document.uploadedAt.toISOString(),
+    archives: document.archives.map(toArchivedItem),
+  };
+}
+
+/**
+ * Get the internal document library, most recently uploaded first
+ */
+export const getInternalDocuments = withAuth(
+  async (_session, search?: string): Promise<InternalDocumentItem[]> => {
+    const documents = await internalDocumentService.getDocuments({ search });
+    return documents.map(toInternalDocumentItem);
+  }
+);
+
+/**
+ * Start an upload to the internal document library
+ * Returns a short-lived URL the browser PUTs the file to
+ */
+export const createInternalDocumentUpload = withPermission(
+  'manage_internal_documents',
+  async (
+    _session,
+    dto: CreateInternalDocumentUploadDto
+  ): Promise<{
+    success: boolean;
+    data?: { uploadUrl: string; fileKey: string; contentType: string };
+    error?: string;
+  }> => {
+    try {
+      const data = await internalDocumentService.createUpload(dto);
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to start upload',
+      };
+    }
+  }
+);
+
+/**
+ * Save an uploaded file as a new document or as the next version of an existing one
+ */
+export const saveInternalDocument = withPermission(
+  'manage_internal_documents',
+  async (
+    session,
+    dto: Omit<SaveInternalDocumentDto, 'uploadedBy'>
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await internalDocumentService.saveDocument({
+        ...dto,
+        uploadedBy: session.name,
+      });
+
+      revalidatePath('/admin/internal-docs');
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to save document',
+      };
+    }
+  }
+);
+
+/**
+ * Update a document's type and title
+ */
+export const updateInternalDocument = withPermission(
+  'manage_internal_documents',
+  async (
+    _session,
+    id: number,
+    dto: UpdateInternalDocumentDto
+  ): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await internalDocumentService.updateDocument(id, dto);
+
+      revalidatePath('/admin/internal-docs');
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to update document',
+      };
+    }
+  }
+);
+
+/**
+ * Delete a document and all of its archived versions
+ * Requires SUPER_ADMIN or ADMIN role
+ */
+export const deleteInternalDocument = withPermission(
+  'delete_internal_document',
+  async (_session, id: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await internalDocumentService.deleteDocument(id);
+
+      revalidatePath('/admin/internal-docs');
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof Error) {
+        return { success: false, error: error.message };
+      }
+      return {
+        success: false,
+        error: 'Failed to delete document',
+      };
+    }
+  }
+);
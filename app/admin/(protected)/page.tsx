@@ -5,6 +5,7 @@ import Link from 'next/link';
 import { TrendingUp, Shield, Briefcase, AlertTriangle } from 'lucide-react';
 
 import { caseService } from '@/lib/services/business/case.service';
+import { canPerformAction } from '@/lib/utils/system/rbac';
 import { validateSession } from '@/lib/utils/system/session';
 
 import {
@@ -44,9 +45,13 @@ export default async function AdminDashboard() {
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <Link href="/admin/clients/new" className="w-full">
-              <Button className="w-full">Add New Client</Button>
-            </Link>
+            {session && canPerformAction(session, 'create_client') ? (
+              <Link href="/admin/clients/new" className="w-full">
+                <Button className="w-full">Add New Client</Button>
+              </Link>
+            ) : (
+              <Button disabled>Add New Client</Button>
+            )}
             <Button disabled>Add Case</Button>
             <Button disabled>Record Interaction</Button>
           </div>
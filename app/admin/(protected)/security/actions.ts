@@ -0,0 +1,127 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { isAppError } from '@/lib/errors';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { securityEventService } from '@/lib/services/business/security-event.service';
+
+import type {
+  AdminSecuritySummary,
+  SecurityEventFilters,
+  SecurityEventItem,
+  SecurityEventPage,
+} from '@/lib/types/security';
+import type { SecurityEvent } from '@prisma/client';
+
+/**
+ * Security Server Actions
+ * Login history and lockouts - events are written by the auth flow, never from here
+ * The security page and unlocking require manage_admin_security (SUPER_ADMIN);
+ * an admin's recent events in the edit dialog require view_security_events (ADMIN and above)
+ */
+
+/**
+ * Convert a security event row to its serializable form
+ */
+function toSecurityEventItem(event: SecurityEvent): SecurityEventItem {
+  return {
+    id: event.id,
+    adminId: event.adminId,
+    email: event.email,
+    type: event.type,
+    details: event.details,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    actorName: event.actorName,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Get a filtered page of security events
+ */
+export const getSecurityEvents = withPermission(
+  'manage_admin_security',
+  async (
+    _session,
+    filters: SecurityEventFilters
+  ): Promise<{ success: boolean; data?: SecurityEventPage; error?: string }> => {
+    try {
+      const result = await securityEventService.getEvents(filters);
+
+      return {
+        success: true,
+        data: {
+          events: result.events.map(toSecurityEventItem),
+          pagination: result.pagination,
+        },
+      };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in getSecurityEvents:', error);
+      return { success: false, error: 'Failed to load security events' };
+    }
+  }
+);
+
+/**
+ * Get every admin's last login and lockout state
+ */
+export const getAdminSecuritySummaries = withPermission(
+  'manage_admin_security',
+  async (
+    _session
+  ): Promise<{ success: boolean; data?: AdminSecuritySummary[]; error?: string }> => {
+    try {
+      const summaries = await securityEventService.getAdminSummaries();
+      return { success: true, data: summaries };
+    } catch (error) {
+      console.error('Unexpected error in getAdminSecuritySummaries:', error);
+      return { success: false, error: 'Failed to load admin accounts' };
+    }
+  }
+);
+
+/**
+ * Get an admin's recent security events
+ */
+export const getAdminSecurityEvents = withPermission(
+  'view_security_events',
+  async (
+    _session,
+    adminId: string
+  ): Promise<{ success: boolean; data?: SecurityEventItem[]; error?: string }> => {
+    try {
+      const events = await securityEventService.getAdminEvents(adminId);
+      return { success: true, data: events.map(toSecurityEventItem) };
+    } catch (error) {
+      console.error('Unexpected error in getAdminSecurityEvents:', error);
+      return { success: false, error: 'Failed to load security events' };
+    }
+  }
+);
+
+/**
+ * Unlock an account locked by too many failed logins
+ */
+export const unlockAdminAccount = withPermission(
+  'manage_admin_security',
+  async (session, adminId: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await securityEventService.unlockAdmin(adminId, session);
+
+      revalidatePath('/admin/security');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in unlockAdminAccount:', error);
+      return { success: false, error: 'Failed to unlock account' };
+    }
+  }
+);
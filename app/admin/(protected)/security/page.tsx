@@ -0,0 +1,169 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { SecurityEventType } from '@prisma/client';
+
+import { getAdminSecuritySummaries, getSecurityEvents } from '@/lib/actions/security.actions';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
+import { AdminSecurityTable } from '@/components/security/admin-security-table';
+import { SecurityEventFilters } from '@/components/security/security-event-filters';
+import { SecurityEventsTable } from '@/components/security/security-events-table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+/**
+ * Read a single string search param
+ */
+function getParam(
+  params: { [key: string]: string | string[] | undefined },
+  key: string
+): string | undefined {
+  const value = params[key];
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+export default async function SecurityPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const session = await validateSession();
+
+  if (!session) {
+    // This shouldn't happen due to layout auth check, but TypeScript needs it
+    return null;
+  }
+
+  if (!canPerformAction(session, 'manage_admin_security')) {
+    return (
+      <div className="flex flex-1 flex-col gap-4 p-4">
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+          <CardContent className="p-4">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              <strong>Note:</strong> Only SUPER_ADMIN users can view account security. You have{' '}
+              <strong>{session.role}</strong> permissions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const resolvedSearchParams = await searchParams;
+  const page = Number(resolvedSearchParams.page) || 1;
+  const limit = 50;
+
+  const adminId = getParam(resolvedSearchParams, 'admin');
+  const typeParam = getParam(resolvedSearchParams, 'type');
+
+  // Ignore values that are not valid enum members rather than failing the query
+  const type = Object.values(SecurityEventType).find((value) => value === typeParam);
+
+  const [eventsResult, summariesResult] = await Promise.all([
+    getSecurityEvents({ adminId, type, page, limit }),
+    getAdminSecuritySummaries(),
+  ]);
+
+  const admins = summariesResult.data || [];
+
+  /**
+   * Build a page link that keeps the current filters
+   */
+  const pageHref = (targetPage: number) => {
+    const params = new URLSearchParams();
+    if (adminId) params.set('admin', adminId);
+    if (type) params.set('type', type);
+    params.set('page', String(targetPage));
+    return `?${params.toString()}`;
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Security</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Security</h1>
+      </div>
+
+      {/* Accounts */}
+      {summariesResult.success ? (
+        <AdminSecurityTable admins={admins} />
+      ) : (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-red-600">
+              {summariesResult.error || 'Failed to load admin accounts'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Events */}
+      <Card>
+        <CardHeader className="space-y-4">
+          <CardTitle>Security Events</CardTitle>
+          <SecurityEventFilters
+            admins={admins.map((admin) => ({ id: admin.id, name: admin.name }))}
+          />
+        </CardHeader>
+        <CardContent className="p-0">
+          {!eventsResult.success || !eventsResult.data ? (
+            <p className="p-6 text-sm text-red-600">
+              {eventsResult.error || 'Failed to load security events'}
+            </p>
+          ) : (
+            <SecurityEventsTable events={eventsResult.data.events} />
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {eventsResult.data && eventsResult.data.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {(page - 1) * limit + 1} to{' '}
+            {Math.min(page * limit, eventsResult.data.pagination.totalCount)} of{' '}
+            {eventsResult.data.pagination.totalCount} events
+          </p>
+          <div className="flex items-center space-x-2">
+            {eventsResult.data.pagination.hasPrev && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={pageHref(page - 1)}>Previous</a>
+              </Button>
+            )}
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {eventsResult.data.pagination.totalPages}
+            </span>
+            {eventsResult.data.pagination.hasNext && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={pageHref(page + 1)}>Next</a>
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
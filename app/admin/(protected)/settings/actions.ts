@@ -0,0 +1,105 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { isAppError } from '@/lib/errors';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { documentTemplateService } from '@/lib/services/business/document-template.service';
+
+import type { DocumentTemplateItem, SaveDocumentTemplateDto } from '@/lib/types/document-template';
+
+/**
+ * Settings Server Actions
+ * Document templates used to generate letters and documents (manage_document_templates)
+ */
+
+/**
+ * Get every document template, active or not
+ */
+export const getDocumentTemplates = withPermission(
+  'manage_document_templates',
+  async (
+    _session
+  ): Promise<{ success: boolean; data?: DocumentTemplateItem[]; error?: string }> => {
+    try {
+      const templates = await documentTemplateService.listTemplates();
+      return { success: true, data: templates };
+    } catch (error) {
+      console.error('Unexpected error in getDocumentTemplates:', error);
+      return { success: false, error: 'Failed to load document templates' };
+    }
+  }
+);
+
+/**
+ * Create a document template
+ */
+export const createDocumentTemplate = withPermission(
+  'manage_document_templates',
+  async (
+    session,
+    data: SaveDocumentTemplateDto
+  ): Promise<{ success: boolean; data?: DocumentTemplateItem; error?: string }> => {
+    try {
+      const template = await documentTemplateService.createTemplate(data, session);
+
+      revalidatePath('/admin/settings');
+
+      return { success: true, data: template };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in createDocumentTemplate:', error);
+      return { success: false, error: 'Failed to create document template' };
+    }
+  }
+);
+
+/**
+ * Update a document template
+ */
+export const updateDocumentTemplate = withPermission(
+  'manage_document_templates',
+  async (
+    session,
+    id: number,
+    data: SaveDocumentTemplateDto
+  ): Promise<{ success: boolean; data?: DocumentTemplateItem; error?: string }> => {
+    try {
+      const template = await documentTemplateService.updateTemplate(id, data, session);
+
+      revalidatePath('/admin/settings');
+
+      return { success: true, data: template };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in updateDocumentTemplate:', error);
+      return { success: false, error: 'Failed to update document template' };
+    }
+  }
+);
+
+/**
+ * Delete a document template - documents generated from it are kept
+ */
+export const deleteDocumentTemplate = withPermission(
+  'manage_document_templates',
+  async (session, id: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await documentTemplateService.deleteTemplate(id, session);
+
+      revalidatePath('/admin/settings');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in deleteDocumentTemplate:', error);
+      return { success: false, error: 'Failed to delete document template' };
+    }
+  }
+);
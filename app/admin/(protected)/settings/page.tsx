@@ -0,0 +1,75 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { getDocumentTemplates } from '@/lib/actions/document-template.actions';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
+import { DocumentTemplatesTable } from '@/components/settings/document-templates-table';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Card, CardContent } from '@/components/ui/card';
+
+export default async function SettingsPage() {
+  const session = await validateSession();
+
+  if (!session) {
+    // This shouldn't happen due to layout auth check, but TypeScript needs it
+    return null;
+  }
+
+  if (!canPerformAction(session, 'manage_document_templates')) {
+    return (
+      <div className="flex flex-1 flex-col gap-4 p-4">
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+          <CardContent className="p-4">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              <strong>Note:</strong> Only SUPER_ADMIN and ADMIN users can manage settings. You have{' '}
+              <strong>{session.role}</strong> permissions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const templatesResult = await getDocumentTemplates();
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Settings</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <h1 className="text-3xl font-bold">Settings</h1>
+
+      {templatesResult.success && templatesResult.data ? (
+        <DocumentTemplatesTable templates={templatesResult.data} />
+      ) : (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-red-600">
+              {templatesResult.error || 'Failed to load document templates'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,9 @@ import { revalidatePath } from 'next/cache';
 
 import { isAppError } from '@/lib/errors';
 import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { adminService } from '@/lib/services/business/admin.service';
+import { twoFactorService } from '@/lib/services/business/two-factor.service';
 import { canPerformAction } from '@/lib/utils/system/rbac';
 
 import type { ServerActionResult } from '@/lib/types/action';
@@ -60,7 +62,7 @@ export const createUser = withAuth(
     }
 
     try {
-      const admin = await adminService.createAdmin(data);
+      const admin = await adminService.createAdmin(data, session);
 
       // Revalidate the users page to show the new admin
       revalidatePath('/admin/users');
@@ -104,7 +106,7 @@ export const updateUser = withAuth(
     }
 
     try {
-      const admin = await adminService.updateAdmin(id, data);
+      const admin = await adminService.updateAdmin(id, data, session);
 
       // Revalidate the users page to show the updated admin
       revalidatePath('/admin/users');
@@ -148,7 +150,7 @@ export const deleteUser = withAuth(
     }
 
     try {
-      const admin = await adminService.deleteAdmin(id);
+      const admin = await adminService.deleteAdmin(id, session);
 
       // Revalidate the users page to show the deactivated admin
       revalidatePath('/admin/users');
@@ -192,7 +194,7 @@ export const reactivateUser = withAuth(
     }
 
     try {
-      const admin = await adminService.reactivateAdmin(id);
+      const admin = await adminService.reactivateAdmin(id, session);
 
       // Revalidate the users page to show the reactivated admin
       revalidatePath('/admin/users');
@@ -219,3 +221,63 @@ export const reactivateUser = withAuth(
     }
   }
 );
+
+/**
+ * Require or stop requiring two-factor authentication for an admin user
+ * Requires SUPER_ADMIN role
+ */
+export const setAdminTwoFactorRequired = withPermission(
+  'manage_admin_security',
+  async (session, id: string, required: boolean): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await twoFactorService.setRequired(id, required, session);
+
+      revalidatePath('/admin/users');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      console.error('Unexpected error in setAdminTwoFactorRequired:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred. Please try again.',
+      };
+    }
+  }
+);
+
+/**
+ * Remove an admin user's authenticator and recovery codes
+ * Requires SUPER_ADMIN role
+ */
+export const resetAdminTwoFactor = withPermission(
+  'manage_admin_security',
+  async (session, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await twoFactorService.reset(id, session);
+
+      revalidatePath('/admin/users');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      console.error('Unexpected error in resetAdminTwoFactor:', error);
+      return {
+        success: false,
+        error: 'An unexpected error occurred. Please try again.',
+      };
+    }
+  }
+);
@@ -0,0 +1,145 @@
+'use server';
+
+import { revalidatePath } from 'next/cache';
+
+import { isAppError } from '@/lib/errors';
+import { withPermission } from '@/lib/server-actions/with-permission';
+import { webhookService } from '@/lib/services/business/webhook.service';
+
+import type { CreatedWebhook, WebhookDeliveryItem, WebhookItem } from '@/lib/types/webhook';
+import type { WebhookEvent } from '@/lib/utils/system/webhook-events';
+
+/**
+ * Webhook Server Actions
+ * Outbound webhook subscriptions and their delivery log - SUPER_ADMIN only (manage_webhooks)
+ */
+
+/**
+ * Get every webhook subscription
+ */
+export const getWebhooks = withPermission(
+  'manage_webhooks',
+  async (_session): Promise<{ success: boolean; data?: WebhookItem[]; error?: string }> => {
+    try {
+      const webhooks = await webhookService.listSubscriptions();
+      return { success: true, data: webhooks };
+    } catch (error) {
+      console.error('Unexpected error in getWebhooks:', error);
+      return { success: false, error: 'Failed to load webhooks' };
+    }
+  }
+);
+
+/**
+ * Get recent webhook deliveries, optionally for one subscription
+ */
+export const getWebhookDeliveries = withPermission(
+  'manage_webhooks',
+  async (
+    _session,
+    subscriptionId?: string
+  ): Promise<{ success: boolean; data?: WebhookDeliveryItem[]; error?: string }> => {
+    try {
+      const deliveries = await webhookService.listDeliveries({ subscriptionId });
+      return { success: true, data: deliveries };
+    } catch (error) {
+      console.error('Unexpected error in getWebhookDeliveries:', error);
+      return { success: false, error: 'Failed to load webhook deliveries' };
+    }
+  }
+);
+
+/**
+ * Create a webhook subscription
+ * The signing secret is in the result and cannot be retrieved again
+ */
+export const createWebhook = withPermission(
+  'manage_webhooks',
+  async (
+    session,
+    data: { name: string; url: string; events: WebhookEvent[] }
+  ): Promise<{ success: boolean; data?: CreatedWebhook; error?: string }> => {
+    try {
+      const created = await webhookService.createSubscription(data, session);
+
+      revalidatePath('/admin/webhooks');
+
+      return { success: true, data: created };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in createWebhook:', error);
+      return { success: false, error: 'Failed to create webhook' };
+    }
+  }
+);
+
+/**
+ * Pause or resume a webhook subscription
+ */
+export const setWebhookActive = withPermission(
+  'manage_webhooks',
+  async (session, id: string, active: boolean): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await webhookService.setSubscriptionActive(id, active, session);
+
+      revalidatePath('/admin/webhooks');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in setWebhookActive:', error);
+      return { success: false, error: 'Failed to update webhook' };
+    }
+  }
+);
+
+/**
+ * Delete a webhook subscription and its delivery log
+ */
+export const deleteWebhook = withPermission(
+  'manage_webhooks',
+  async (session, id: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await webhookService.deleteSubscription(id, session);
+
+      revalidatePath('/admin/webhooks');
+
+      return { success: true };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in deleteWebhook:', error);
+      return { success: false, error: 'Failed to delete webhook' };
+    }
+  }
+);
+
+/**
+ * Send a delivery's payload again
+ */
+export const redeliverWebhook = withPermission(
+  'manage_webhooks',
+  async (
+    _session,
+    deliveryId: string
+  ): Promise<{ success: boolean; data?: WebhookDeliveryItem; error?: string }> => {
+    try {
+      const delivery = await webhookService.redeliver(deliveryId);
+
+      revalidatePath('/admin/webhooks');
+
+      return { success: true, data: delivery };
+    } catch (error) {
+      if (isAppError(error)) {
+        return { success: false, error: error.message };
+      }
+      console.error('Unexpected error in redeliverWebhook:', error);
+      return { success: false, error: 'Failed to redeliver webhook' };
+    }
+  }
+);
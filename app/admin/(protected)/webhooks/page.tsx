@@ -0,0 +1,91 @@
+// Force dynamic rendering for sidebar context
+export const dynamic = 'force-dynamic';
+
+import { getWebhookDeliveries, getWebhooks } from '@/lib/actions/webhook.actions';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { validateSession } from '@/lib/utils/system/session';
+
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/components/ui/breadcrumb';
+import { Card, CardContent } from '@/components/ui/card';
+import { WebhookDeliveriesTable } from '@/components/webhooks/webhook-deliveries-table';
+import { WebhooksTable } from '@/components/webhooks/webhooks-table';
+
+export default async function WebhooksPage() {
+  const session = await validateSession();
+
+  if (!session) {
+    // This shouldn't happen due to layout auth check, but TypeScript needs it
+    return null;
+  }
+
+  if (!canPerformAction(session, 'manage_webhooks')) {
+    return (
+      <div className="flex flex-1 flex-col gap-4 p-4">
+        <Card className="border-yellow-200 bg-yellow-50 dark:border-yellow-900 dark:bg-yellow-950">
+          <CardContent className="p-4">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">
+              <strong>Note:</strong> Only SUPER_ADMIN users can manage webhooks. You have{' '}
+              <strong>{session.role}</strong> permissions.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const [webhooksResult, deliveriesResult] = await Promise.all([
+    getWebhooks(),
+    getWebhookDeliveries(),
+  ]);
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4">
+      {/* Breadcrumbs */}
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink href="/admin">Dashboard</BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            <BreadcrumbPage>Webhooks</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      {/* Page Header */}
+      <h1 className="text-3xl font-bold">Webhooks</h1>
+
+      {webhooksResult.success && webhooksResult.data ? (
+        <WebhooksTable webhooks={webhooksResult.data} />
+      ) : (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-red-600">
+              {webhooksResult.error || 'Failed to load webhooks'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {deliveriesResult.success && deliveriesResult.data ? (
+        <WebhookDeliveriesTable deliveries={deliveriesResult.data} />
+      ) : (
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-red-600">
+              {deliveriesResult.error || 'Failed to load webhook deliveries'}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
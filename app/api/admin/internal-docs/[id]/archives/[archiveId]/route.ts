@@ -0,0 +1,61 @@
+/**
+ * Archived Internal Document Download Endpoint
+ * Streams a superseded version of an internal document to an authenticated admin
+ *
+ * Query parameters:
+ * - disposition=inline: render in the browser (PDFs and images only)
+ * - disposition=attachment (default): download
+ */
+
+import { NextResponse } from 'next/server';
+
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { internalDocumentService } from '@/lib/services/business/internal-document.service';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { createObjectResponse, getStorage } from '@/lib/utils/system/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; archiveId: string }>;
+}
+
+/**
+ * Handler: GET archived document version
+ */
+async function getArchivedVersionHandler(
+  request: AuthenticatedRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, archiveId } = await context.params;
+  const documentId = parseInt(id, 10);
+  const numericArchiveId = parseInt(archiveId, 10);
+
+  if (isNaN(documentId) || isNaN(numericArchiveId)) {
+    throw new ValidationError('Invalid document or archive ID');
+  }
+
+  const archive = await internalDocumentService.getArchivedVersion(documentId, numericArchiveId);
+  const stored = await getStorage().getObject(archive.storageKey);
+
+  if (!stored) {
+    throw new NotFoundError('Archived version', numericArchiveId);
+  }
+
+  // Only render known-safe types inline; everything else is forced to download
+  const inline =
+    request.nextUrl.searchParams.get('disposition') === 'inline' &&
+    isPreviewableContentType(archive.contentType);
+
+  return createObjectResponse(stored, {
+    fileName: archive.fileName,
+    contentType: archive.contentType,
+    inline,
+  });
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const GET = withErrorHandling<RouteContext>()(
+  withRequestLogging<RouteContext>()(withAuth<RouteContext>(getArchivedVersionHandler))
+);
@@ -0,0 +1,60 @@
+/**
+ * Internal Document Download Endpoint
+ * Streams the current version of an internal document to an authenticated admin
+ *
+ * Query parameters:
+ * - disposition=inline: render in the browser (PDFs and images only)
+ * - disposition=attachment (default): download
+ */
+
+import { NextResponse } from 'next/server';
+
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { internalDocumentService } from '@/lib/services/business/internal-document.service';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { createObjectResponse, getStorage } from '@/lib/utils/system/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET current document version
+ */
+async function getInternalDocumentHandler(
+  request: AuthenticatedRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const documentId = parseInt(id, 10);
+
+  if (isNaN(documentId)) {
+    throw new ValidationError('Invalid document ID');
+  }
+
+  const document = await internalDocumentService.getDocument(documentId);
+  const stored = await getStorage().getObject(document.storageKey);
+
+  if (!stored) {
+    throw new NotFoundError('Internal document', documentId);
+  }
+
+  // Only render known-safe types inline; everything else is forced to download
+  const inline =
+    request.nextUrl.searchParams.get('disposition') === 'inline' &&
+    isPreviewableContentType(document.contentType);
+
+  return createObjectResponse(stored, {
+    fileName: document.fileName,
+    contentType: document.contentType,
+    inline,
+  });
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const GET = withErrorHandling<RouteContext>()(
+  withRequestLogging<RouteContext>()(withAuth<RouteContext>(getInternalDocumentHandler))
+);
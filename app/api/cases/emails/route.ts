@@ -0,0 +1,36 @@
+/**
+ * Email Import Endpoint
+ * Imports one raw email (.eml) uploaded by an admin, filing it against its case or sending it to triage
+ *
+ * The body is the message itself rather than a Server Action argument, so large
+ * messages are not limited by the Server Action body size
+ */
+
+import { NextResponse } from 'next/server';
+
+import { AuthorizationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { inboundEmailService } from '@/lib/services/business/inbound-email.service';
+import { readRawBody } from '@/lib/utils/system/api-request';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { ApiResponseBuilder } from '@/lib/utils/system/response';
+
+/**
+ * Handler: POST import email
+ */
+async function importEmailHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  if (!canPerformAction(request.adminSession, 'manage_interactions')) {
+    throw new AuthorizationError('Insufficient permissions. Your role cannot import emails.');
+  }
+
+  const raw = await readRawBody(request);
+
+  const result = await inboundEmailService.importEmail(raw, request.adminSession);
+
+  return ApiResponseBuilder.success(result, undefined, 201);
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const POST = withErrorHandling()(withRequestLogging()(withAuth(importEmailHandler)));
@@ -0,0 +1,48 @@
+/**
+ * Case File Upload URL Endpoint
+ * Issues a short-lived URL the browser uploads a case file to directly
+ *
+ * Flow:
+ * 1. POST here with file details -> { uploadUrl, fileKey }
+ * 2. PUT the file body to uploadUrl with the same Content-Type
+ * 3. POST /api/cases/upload/save with fileKey to record the file
+ */
+
+import { NextResponse } from 'next/server';
+
+import { AuthorizationError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { caseService } from '@/lib/services/business/case.service';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { ApiResponseBuilder } from '@/lib/utils/system/response';
+
+/**
+ * Handler: POST create upload URL
+ */
+async function createUploadUrlHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  if (!canPerformAction(request.adminSession, 'manage_case_files')) {
+    throw new AuthorizationError('Insufficient permissions. Your role cannot upload case files.');
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (!body || typeof body.caseId !== 'string' || typeof body.fileName !== 'string') {
+    throw new ValidationError('caseId and fileName are required');
+  }
+
+  const result = await caseService.createFileUpload({
+    caseId: body.caseId,
+    clientId: Number(body.clientId),
+    interactionId: body.interactionId ? Number(body.interactionId) : null,
+    fileName: body.fileName,
+    fileType: typeof body.fileType === 'string' ? body.fileType : '',
+    fileSize: Number(body.fileSize),
+  });
+
+  return ApiResponseBuilder.success(result);
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const POST = withErrorHandling()(withRequestLogging()(withAuth(createUploadUrlHandler)));
@@ -0,0 +1,60 @@
+/**
+ * Case File Save Endpoint
+ * Records an uploaded file against its case or interaction
+ */
+
+import { NextResponse } from 'next/server';
+
+import { AuthorizationError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { caseService } from '@/lib/services/business/case.service';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+import { ApiResponseBuilder } from '@/lib/utils/system/response';
+
+/**
+ * Handler: POST save uploaded file
+ */
+async function saveUploadedFileHandler(request: AuthenticatedRequest): Promise<NextResponse> {
+  if (!canPerformAction(request.adminSession, 'manage_case_files')) {
+    throw new AuthorizationError('Insufficient permissions. Your role cannot upload case files.');
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (
+    !body ||
+    typeof body.caseId !== 'string' ||
+    typeof body.fileKey !== 'string' ||
+    typeof body.fileName !== 'string'
+  ) {
+    throw new ValidationError('caseId, fileKey and fileName are required');
+  }
+
+  const file = await caseService.saveUploadedFile(
+    {
+      caseId: body.caseId,
+      interactionId: body.interactionId ? Number(body.interactionId) : null,
+      fileKey: body.fileKey,
+      fileName: body.fileName,
+      fileTitle: body.fileTitle || null,
+      fileDescription: body.fileDescription || null,
+      fileTags: Array.isArray(body.fileTags) ? body.fileTags.map(String) : [],
+      uploadedBy: request.adminSession.name,
+    },
+    request.adminSession
+  );
+
+  return ApiResponseBuilder.success(
+    {
+      ...file,
+      uploadedAt: file.uploadedAt.toISOString(),
+    },
+    undefined,
+    201
+  );
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const POST = withErrorHandling()(withRequestLogging()(withAuth(saveUploadedFileHandler)));
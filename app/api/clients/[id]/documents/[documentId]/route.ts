@@ -0,0 +1,61 @@
+/**
+ * Client Document Download Endpoint
+ * Streams a document from the client's repository to an authenticated admin
+ *
+ * Query parameters:
+ * - disposition=inline: render in the browser (PDFs and images only)
+ * - disposition=attachment (default): download
+ */
+
+import { NextResponse } from 'next/server';
+
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { documentService } from '@/lib/services/business/document.service';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { createObjectResponse, getStorage } from '@/lib/utils/system/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; documentId: string }>;
+}
+
+/**
+ * Handler: GET document body
+ */
+async function getDocumentHandler(
+  request: AuthenticatedRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, documentId } = await context.params;
+  const clientId = parseInt(id, 10);
+  const numericDocumentId = parseInt(documentId, 10);
+
+  if (isNaN(clientId) || isNaN(numericDocumentId)) {
+    throw new ValidationError('Invalid client or document ID');
+  }
+
+  const document = await documentService.getClientDocument(clientId, numericDocumentId);
+  const stored = await getStorage().getObject(document.storageKey);
+
+  if (!stored) {
+    throw new NotFoundError('Document', numericDocumentId);
+  }
+
+  // Only render known-safe types inline; everything else is forced to download
+  const inline =
+    request.nextUrl.searchParams.get('disposition') === 'inline' &&
+    isPreviewableContentType(document.contentType);
+
+  return createObjectResponse(stored, {
+    fileName: document.fileName,
+    contentType: document.contentType,
+    inline,
+  });
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const GET = withErrorHandling<RouteContext>()(
+  withRequestLogging<RouteContext>()(withAuth<RouteContext>(getDocumentHandler))
+);
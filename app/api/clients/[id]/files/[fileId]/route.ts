@@ -0,0 +1,72 @@
+/**
+ * Case File Download Endpoint
+ * Streams a case file to an authenticated admin and records the access
+ *
+ * Query parameters:
+ * - disposition=inline: render in the browser (PDFs and images only)
+ * - disposition=attachment (default): download
+ */
+
+import { NextResponse } from 'next/server';
+
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { caseService } from '@/lib/services/business/case.service';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { getRequestMetadata } from '@/lib/utils/system/session';
+import { createObjectResponse, getStorage } from '@/lib/utils/system/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; fileId: string }>;
+}
+
+/**
+ * Handler: GET file body
+ */
+async function getFileHandler(
+  request: AuthenticatedRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, fileId } = await context.params;
+  const clientId = parseInt(id, 10);
+  const numericFileId = parseInt(fileId, 10);
+
+  if (isNaN(clientId) || isNaN(numericFileId)) {
+    throw new ValidationError('Invalid client or file ID');
+  }
+
+  const file = await caseService.getClientFile(clientId, numericFileId);
+  const stored = await getStorage().getObject(file.storageKey!);
+
+  if (!stored) {
+    throw new NotFoundError('File', numericFileId);
+  }
+
+  const contentType = file.contentType || stored.contentType;
+
+  // Only render known-safe types inline; everything else is forced to download
+  const inline =
+    request.nextUrl.searchParams.get('disposition') === 'inline' &&
+    isPreviewableContentType(contentType);
+
+  // First address of the proxy chain, as recorded for sessions
+  const { ipAddress, userAgent } = await getRequestMetadata();
+
+  await caseService.recordFileAccess({
+    fileId: file.id,
+    accessType: inline ? 'PREVIEW' : 'DOWNLOAD',
+    adminId: request.adminSession.adminId,
+    accessedBy: request.adminSession.name,
+    ipAddress,
+    userAgent,
+  });
+
+  return createObjectResponse(stored, { fileName: file.fileName, contentType, inline });
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const GET = withErrorHandling<RouteContext>()(
+  withRequestLogging<RouteContext>()(withAuth<RouteContext>(getFileHandler))
+);
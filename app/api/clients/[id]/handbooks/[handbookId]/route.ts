@@ -0,0 +1,61 @@
+/**
+ * Handbook Download Endpoint
+ * Streams the file for a handbook version to an authenticated admin
+ *
+ * Query parameters:
+ * - disposition=inline: render in the browser (PDFs and images only)
+ * - disposition=attachment (default): download
+ */
+
+import { NextResponse } from 'next/server';
+
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { policyService } from '@/lib/services/business/policy.service';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { createObjectResponse, getStorage } from '@/lib/utils/system/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; handbookId: string }>;
+}
+
+/**
+ * Handler: GET handbook file
+ */
+async function getHandbookHandler(
+  request: AuthenticatedRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, handbookId } = await context.params;
+  const clientId = parseInt(id, 10);
+  const documentId = parseInt(handbookId, 10);
+
+  if (isNaN(clientId) || isNaN(documentId)) {
+    throw new ValidationError('Invalid client or handbook ID');
+  }
+
+  const document = await policyService.getPolicyDocument(clientId, 'handbook', documentId);
+  const stored = document.storageKey ? await getStorage().getObject(document.storageKey) : null;
+
+  if (!stored) {
+    throw new NotFoundError('Handbook file', documentId);
+  }
+
+  // Only render known-safe types inline; everything else is forced to download
+  const inline =
+    request.nextUrl.searchParams.get('disposition') === 'inline' &&
+    isPreviewableContentType(document.contentType);
+
+  return createObjectResponse(stored, {
+    fileName: document.fileName || document.number,
+    contentType: document.contentType,
+    inline,
+  });
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const GET = withErrorHandling<RouteContext>()(
+  withRequestLogging<RouteContext>()(withAuth<RouteContext>(getHandbookHandler))
+);
@@ -0,0 +1,61 @@
+/**
+ * Policy Download Endpoint
+ * Streams the file for a policy version to an authenticated admin
+ *
+ * Query parameters:
+ * - disposition=inline: render in the browser (PDFs and images only)
+ * - disposition=attachment (default): download
+ */
+
+import { NextResponse } from 'next/server';
+
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { withAuth, type AuthenticatedRequest } from '@/lib/middleware/withAuth';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { policyService } from '@/lib/services/business/policy.service';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { createObjectResponse, getStorage } from '@/lib/utils/system/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string; policyId: string }>;
+}
+
+/**
+ * Handler: GET policy file
+ */
+async function getPolicyHandler(
+  request: AuthenticatedRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, policyId } = await context.params;
+  const clientId = parseInt(id, 10);
+  const documentId = parseInt(policyId, 10);
+
+  if (isNaN(clientId) || isNaN(documentId)) {
+    throw new ValidationError('Invalid client or policy ID');
+  }
+
+  const document = await policyService.getPolicyDocument(clientId, 'policy', documentId);
+  const stored = document.storageKey ? await getStorage().getObject(document.storageKey) : null;
+
+  if (!stored) {
+    throw new NotFoundError('Policy file', documentId);
+  }
+
+  // Only render known-safe types inline; everything else is forced to download
+  const inline =
+    request.nextUrl.searchParams.get('disposition') === 'inline' &&
+    isPreviewableContentType(document.contentType);
+
+  return createObjectResponse(stored, {
+    fileName: document.fileName || document.number,
+    contentType: document.contentType,
+    inline,
+  });
+}
+
+// Apply middleware layers: error handling -> logging -> authentication
+export const GET = withErrorHandling<RouteContext>()(
+  withRequestLogging<RouteContext>()(withAuth<RouteContext>(getPolicyHandler))
+);
@@ -0,0 +1,56 @@
+/**
+ * Webhook Retry Endpoint
+ * Sends webhook deliveries whose next retry is due - call it every minute or so from a scheduler
+ *
+ * Authentication:
+ * - Authorization: Bearer <CRON_SECRET>
+ *
+ * Returns:
+ * - 200: { attempted } - the number of deliveries sent in this run
+ * - 401: missing or wrong secret
+ * - 503: CRON_SECRET is not configured
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { timingSafeEqual } from 'crypto';
+
+import { AuthenticationError, ConfigurationError } from '@/lib/errors';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { webhookService } from '@/lib/services/business/webhook.service';
+import { config } from '@/lib/utils/system/config';
+
+/**
+ * Check the bearer token against CRON_SECRET in constant time
+ */
+function assertCronSecret(request: NextRequest): void {
+  const secret = config.webhooks.cronSecret;
+
+  if (!secret) {
+    throw new ConfigurationError('CRON_SECRET must be set to run scheduled webhook retries');
+  }
+
+  const provided = Buffer.from(
+    request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? ''
+  );
+  const expected = Buffer.from(secret);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new AuthenticationError('Invalid cron secret');
+  }
+}
+
+/**
+ * Handler: GET process due webhook deliveries
+ */
+async function processWebhooksHandler(request: NextRequest): Promise<NextResponse> {
+  assertCronSecret(request);
+
+  const attempted = await webhookService.processDueDeliveries();
+
+  return NextResponse.json({ success: true, data: { attempted } });
+}
+
+// Apply middleware layers: error handling -> logging
+export const GET = withErrorHandling()(withRequestLogging()(processWebhooksHandler));
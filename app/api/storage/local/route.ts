@@ -0,0 +1,42 @@
+/**
+ * Local Storage Endpoint
+ * Accepts signed uploads when STORAGE_DRIVER=local (development and tests)
+ *
+ * Authorisation comes from the HMAC signature on the URL, not the session,
+ * so this behaves like an S3 presigned URL
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { AuthorizationError, NotFoundError, ValidationError } from '@/lib/errors';
+import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { getStorage, verifyLocalSignature } from '@/lib/utils/system/storage';
+
+/**
+ * Handler: PUT object body
+ */
+async function putObjectHandler(request: NextRequest): Promise<NextResponse> {
+  const storage = getStorage();
+
+  if (storage.driver !== 'local') {
+    throw new NotFoundError('Route');
+  }
+
+  const signed = verifyLocalSignature('PUT', request.nextUrl.searchParams, ['contentType', 'size']);
+
+  if (!signed) {
+    throw new AuthorizationError('Upload URL is invalid or has expired');
+  }
+
+  const body = new Uint8Array(await request.arrayBuffer());
+
+  if (body.byteLength !== Number(signed.params.size)) {
+    throw new ValidationError('Uploaded file size does not match the requested size');
+  }
+
+  await storage.putObject(signed.key, body, signed.params.contentType);
+
+  return new NextResponse(null, { status: 200 });
+}
+
+export const PUT = withErrorHandling()(putObjectHandler);
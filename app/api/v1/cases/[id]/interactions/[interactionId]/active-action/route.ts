@@ -0,0 +1,66 @@
+/**
+ * External API: Active action
+ * Make an interaction the case's active action (PUT) or clear it (DELETE)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { NotFoundError } from '@/lib/errors';
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { parseIdParam } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+
+interface RouteContext {
+  params: Promise<{ id: string; interactionId: string }>;
+}
+
+/**
+ * Read the route parameters and check the interaction belongs to the case
+ */
+async function resolveInteractionId(context: RouteContext): Promise<number> {
+  const { id, interactionId } = await context.params;
+  const caseId = parseIdParam(id, 'case');
+  const interactionIdNum = parseIdParam(interactionId, 'interaction');
+
+  await caseService.getCaseReference(caseId);
+  const interactions = await caseService.getInteractionsByCaseId(caseId);
+  if (!interactions.some((interaction) => interaction.id === interactionIdNum)) {
+    throw new NotFoundError('Interaction', interactionIdNum);
+  }
+
+  return interactionIdNum;
+}
+
+/**
+ * Handler: PUT active action
+ */
+async function setActiveActionHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const interactionId = await resolveInteractionId(context);
+
+  const interaction = await caseService.setActiveAction(interactionId, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(interaction, getRequestId(request));
+}
+
+/**
+ * Handler: DELETE active action
+ */
+async function clearActiveActionHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const interactionId = await resolveInteractionId(context);
+
+  const interaction = await caseService.unsetActiveAction(interactionId, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(interaction, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const PUT = withExternalApi<RouteContext>('cases:write')(setActiveActionHandler);
+export const DELETE = withExternalApi<RouteContext>('cases:write')(clearActiveActionHandler);
@@ -0,0 +1,57 @@
+/**
+ * External API: Case interactions
+ * List a case's interactions and append one (e.g. a logged phone call)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { createInteractionApiSchema } from '@/lib/validations/case-api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET interactions
+ */
+async function listInteractionsHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const caseId = parseIdParam(id, 'case');
+
+  // Throws NotFoundError for an unknown case
+  await caseService.getCaseReference(caseId);
+  const interactions = await caseService.getInteractionsByCaseId(caseId);
+
+  return ApiResponseBuilder.success(interactions, getRequestId(request));
+}
+
+/**
+ * Handler: POST interaction
+ */
+async function createInteractionHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const caseId = parseIdParam(id, 'case');
+  const data = parseInput(createInteractionApiSchema, await readJsonBody(request));
+
+  const interaction = await caseService.createInteraction(
+    { ...data, caseId },
+    getApiKeyActor(request)
+  );
+
+  return ApiResponseBuilder.success(interaction, getRequestId(request), 201);
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi<RouteContext>('cases:read')(listInteractionsHandler);
+export const POST = withExternalApi<RouteContext>('cases:write')(createInteractionHandler);
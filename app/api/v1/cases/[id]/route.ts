@@ -0,0 +1,34 @@
+/**
+ * External API: Case
+ * Read a case by ID
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { NotFoundError } from '@/lib/errors';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { parseIdParam } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET case
+ */
+async function getCaseHandler(request: NextRequest, context: RouteContext): Promise<NextResponse> {
+  const { id } = await context.params;
+  const caseId = parseIdParam(id, 'case');
+
+  const caseRecord = await caseService.getCaseById(caseId);
+  if (!caseRecord) {
+    throw new NotFoundError('Case', caseId);
+  }
+
+  return ApiResponseBuilder.success(caseRecord, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi<RouteContext>('cases:read')(getCaseHandler);
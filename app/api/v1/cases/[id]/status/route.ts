@@ -0,0 +1,52 @@
+/**
+ * External API: Case status
+ * Read a case's status history and change its status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { caseStatusApiSchema } from '@/lib/validations/case-api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET status history
+ */
+async function getStatusHistoryHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const caseId = parseIdParam(id, 'case');
+
+  const history = await caseService.getStatusHistory(caseId);
+
+  return ApiResponseBuilder.success(history, getRequestId(request));
+}
+
+/**
+ * Handler: PUT case status
+ */
+async function setCaseStatusHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const caseId = parseIdParam(id, 'case');
+  const data = parseInput(caseStatusApiSchema, await readJsonBody(request));
+
+  const updatedCase = await caseService.updateCase(caseId, data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(updatedCase, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi<RouteContext>('cases:read')(getStatusHistoryHandler);
+export const PUT = withExternalApi<RouteContext>('cases:write')(setCaseStatusHandler);
@@ -0,0 +1,22 @@
+/**
+ * External API: Open actions
+ * Every case's active action that has a due date, earliest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+
+/**
+ * Handler: GET open actions
+ */
+async function listOpenActionsHandler(request: NextRequest): Promise<NextResponse> {
+  const actions = await caseService.getCasesWithActionDates();
+
+  return ApiResponseBuilder.success(actions, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi('cases:read')(listOpenActionsHandler);
@@ -0,0 +1,49 @@
+/**
+ * External API: Cases
+ * List cases and open a new case for a client
+ *
+ * Query parameters (GET):
+ * - page, limit: pagination (default 1 and 25)
+ * - clientId: cases for one client
+ * - status: OPEN, AWAITING or CLOSED
+ * - type: case type, e.g. DISCIPLINARY or GRIEVANCE
+ * - assignedTo: cases assigned to this person (case-insensitive)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { clientService } from '@/lib/services/business/client.service';
+import { parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { createCaseApiSchema, listCasesQuerySchema } from '@/lib/validations/case-api';
+
+/**
+ * Handler: GET cases
+ */
+async function listCasesHandler(request: NextRequest): Promise<NextResponse> {
+  const query = parseInput(listCasesQuerySchema, Object.fromEntries(request.nextUrl.searchParams));
+
+  const { cases, pagination } = await caseService.getCases(query);
+
+  return ApiResponseBuilder.paginated(cases, pagination, getRequestId(request));
+}
+
+/**
+ * Handler: POST case
+ */
+async function createCaseHandler(request: NextRequest): Promise<NextResponse> {
+  const data = parseInput(createCaseApiSchema, await readJsonBody(request));
+
+  // Resolve the client first so a missing client is a 404, not a database error
+  await clientService.getClientById(data.clientId);
+  const newCase = await caseService.createCase(data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(newCase, getRequestId(request), 201);
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi('cases:read')(listCasesHandler);
+export const POST = withExternalApi('cases:write')(createCaseHandler);
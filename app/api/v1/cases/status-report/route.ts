@@ -0,0 +1,37 @@
+/**
+ * External API: Case status report
+ * Time-to-close and time-in-status across closed cases
+ *
+ * Query parameters:
+ * - clientId: cases for one client
+ * - closedFrom, closedTo: cases closed between these dates (YYYY-MM-DD, inclusive)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { caseService } from '@/lib/services/business/case.service';
+import { parseInput } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { caseStatusReportQuerySchema } from '@/lib/validations/case-api';
+
+/**
+ * Handler: GET status report
+ */
+async function getStatusReportHandler(request: NextRequest): Promise<NextResponse> {
+  const query = parseInput(
+    caseStatusReportQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  const report = await caseService.getStatusReport({
+    clientId: query.clientId,
+    closedFrom: query.closedFrom ? new Date(`${query.closedFrom}T00:00:00.000Z`) : undefined,
+    closedTo: query.closedTo ? new Date(`${query.closedTo}T23:59:59.999Z`) : undefined,
+  });
+
+  return ApiResponseBuilder.success(report, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi('cases:read')(getStatusReportHandler);
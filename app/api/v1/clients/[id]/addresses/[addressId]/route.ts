@@ -0,0 +1,45 @@
+/**
+ * External API: Client address
+ * Update one of a client's addresses
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { NotFoundError } from '@/lib/errors';
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { addressService } from '@/lib/services/business/address.service';
+import { clientService } from '@/lib/services/business/client.service';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { updateAddressApiSchema } from '@/lib/validations/client-api';
+
+interface RouteContext {
+  params: Promise<{ id: string; addressId: string }>;
+}
+
+/**
+ * Handler: PATCH address
+ */
+async function updateAddressHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, addressId } = await context.params;
+  const clientId = parseIdParam(id, 'client');
+  const addressIdNum = parseIdParam(addressId, 'address');
+  const data = parseInput(updateAddressApiSchema, await readJsonBody(request));
+
+  // The address must belong to the client in the URL
+  const client = await clientService.getClientById(clientId);
+  if (!client.addresses.some((address) => address.id === addressIdNum)) {
+    throw new NotFoundError('Address', addressIdNum);
+  }
+
+  const address = await addressService.updateAddress(addressIdNum, data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(address, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const PATCH = withExternalApi<RouteContext>('clients:write')(updateAddressHandler);
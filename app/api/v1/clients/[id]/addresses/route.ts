@@ -0,0 +1,53 @@
+/**
+ * External API: Client addresses
+ * List a client's addresses and add an address
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { addressService } from '@/lib/services/business/address.service';
+import { clientService } from '@/lib/services/business/client.service';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { createAddressApiSchema } from '@/lib/validations/client-api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET addresses
+ */
+async function listAddressesHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const client = await clientService.getClientById(parseIdParam(id, 'client'));
+
+  return ApiResponseBuilder.success(client.addresses, getRequestId(request));
+}
+
+/**
+ * Handler: POST address
+ */
+async function createAddressHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const clientId = parseIdParam(id, 'client');
+  const data = parseInput(createAddressApiSchema, await readJsonBody(request));
+
+  // Resolve the client first so a missing client is a 404, not a validation error
+  await clientService.getClientById(clientId);
+  const address = await addressService.createAddress(clientId, data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(address, getRequestId(request), 201);
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi<RouteContext>('clients:read')(listAddressesHandler);
+export const POST = withExternalApi<RouteContext>('clients:write')(createAddressHandler);
@@ -0,0 +1,45 @@
+/**
+ * External API: Client contact
+ * Update one of a client's contacts
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { NotFoundError } from '@/lib/errors';
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { clientService } from '@/lib/services/business/client.service';
+import { contactService } from '@/lib/services/business/contact.service';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { updateContactApiSchema } from '@/lib/validations/client-api';
+
+interface RouteContext {
+  params: Promise<{ id: string; contactId: string }>;
+}
+
+/**
+ * Handler: PATCH contact
+ */
+async function updateContactHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id, contactId } = await context.params;
+  const clientId = parseIdParam(id, 'client');
+  const contactIdNum = parseIdParam(contactId, 'contact');
+  const data = parseInput(updateContactApiSchema, await readJsonBody(request));
+
+  // The contact must belong to the client in the URL
+  const client = await clientService.getClientById(clientId);
+  if (!client.contacts.some((contact) => contact.id === contactIdNum)) {
+    throw new NotFoundError('Contact', contactIdNum);
+  }
+
+  const contact = await contactService.updateContact(contactIdNum, data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(contact, getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const PATCH = withExternalApi<RouteContext>('clients:write')(updateContactHandler);
@@ -0,0 +1,53 @@
+/**
+ * External API: Client contacts
+ * List a client's contacts and add a contact
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { clientService } from '@/lib/services/business/client.service';
+import { contactService } from '@/lib/services/business/contact.service';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { createContactApiSchema } from '@/lib/validations/client-api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET contacts
+ */
+async function listContactsHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const client = await clientService.getClientById(parseIdParam(id, 'client'));
+
+  return ApiResponseBuilder.success(client.contacts, getRequestId(request));
+}
+
+/**
+ * Handler: POST contact
+ */
+async function createContactHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const clientId = parseIdParam(id, 'client');
+  const data = parseInput(createContactApiSchema, await readJsonBody(request));
+
+  // Resolve the client first so a missing client is a 404, not a validation error
+  await clientService.getClientById(clientId);
+  const contact = await contactService.createContact(clientId, data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(contact, getRequestId(request), 201);
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi<RouteContext>('clients:read')(listContactsHandler);
+export const POST = withExternalApi<RouteContext>('clients:write')(createContactHandler);
@@ -0,0 +1,57 @@
+/**
+ * External API: Client
+ * Read a client with its contacts and addresses, and update its details
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { clientService } from '@/lib/services/business/client.service';
+import { serializeClient } from '@/lib/utils/business/client';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { updateClientApiSchema } from '@/lib/validations/client-api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: GET client
+ */
+async function getClientHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+
+  // Contracts and audits are internal records and are not part of the API
+  const {
+    contracts: _contracts,
+    audits: _audits,
+    ...client
+  } = await clientService.getClientById(parseIdParam(id, 'client'));
+
+  return ApiResponseBuilder.success(serializeClient(client), getRequestId(request));
+}
+
+/**
+ * Handler: PATCH client
+ */
+async function updateClientHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const clientId = parseIdParam(id, 'client');
+  const data = parseInput(updateClientApiSchema, await readJsonBody(request));
+
+  const client = await clientService.updateClient(clientId, data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(serializeClient(client), getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi<RouteContext>('clients:read')(getClientHandler);
+export const PATCH = withExternalApi<RouteContext>('clients:write')(updateClientHandler);
@@ -0,0 +1,37 @@
+/**
+ * External API: Client status
+ * Set a client to ACTIVE, INACTIVE or PENDING
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { clientService } from '@/lib/services/business/client.service';
+import { serializeClient } from '@/lib/utils/business/client';
+import { parseIdParam, parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { clientStatusApiSchema } from '@/lib/validations/client-api';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Handler: PUT client status
+ */
+async function setClientStatusHandler(
+  request: NextRequest,
+  context: RouteContext
+): Promise<NextResponse> {
+  const { id } = await context.params;
+  const clientId = parseIdParam(id, 'client');
+  const { status } = parseInput(clientStatusApiSchema, await readJsonBody(request));
+
+  const client = await clientService.updateClient(clientId, { status }, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(serializeClient(client), getRequestId(request));
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const PUT = withExternalApi<RouteContext>('clients:write')(setClientStatusHandler);
@@ -0,0 +1,52 @@
+/**
+ * External API: Clients
+ * List and search clients, and create a client with its contacts and addresses
+ *
+ * Query parameters (GET):
+ * - page, limit: pagination (default 1 and 25)
+ * - search: matches company name, business ID or sector
+ * - status: ACTIVE, INACTIVE or PENDING
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { clientService } from '@/lib/services/business/client.service';
+import { serializeClient } from '@/lib/utils/business/client';
+import { parseInput, readJsonBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+import { createClientApiSchema, listClientsQuerySchema } from '@/lib/validations/client-api';
+
+/**
+ * Handler: GET clients
+ */
+async function listClientsHandler(request: NextRequest): Promise<NextResponse> {
+  const query = parseInput(
+    listClientsQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+
+  const { clients, pagination } = await clientService.getClients(query);
+
+  return ApiResponseBuilder.paginated(
+    clients.map(serializeClient),
+    pagination,
+    getRequestId(request)
+  );
+}
+
+/**
+ * Handler: POST client
+ */
+async function createClientHandler(request: NextRequest): Promise<NextResponse> {
+  const data = parseInput(createClientApiSchema, await readJsonBody(request));
+
+  const client = await clientService.createClient(data, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(serializeClient(client), getRequestId(request), 201);
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi('clients:read')(listClientsHandler);
+export const POST = withExternalApi('clients:write')(createClientHandler);
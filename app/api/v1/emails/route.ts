@@ -0,0 +1,30 @@
+/**
+ * External API: Inbound emails
+ * Import a raw email (e.g. from a mail provider's inbound webhook or a mailbox poller)
+ *
+ * The body is the message itself (Content-Type: message/rfc822). It is filed as an
+ * interaction on the case named in the subject (CASE-0001) when a sender or recipient
+ * is a contact of that case's client; otherwise it waits in the triage inbox
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getApiKeyActor } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { inboundEmailService } from '@/lib/services/business/inbound-email.service';
+import { readRawBody } from '@/lib/utils/system/api-request';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
+
+/**
+ * Handler: POST email
+ */
+async function importEmailHandler(request: NextRequest): Promise<NextResponse> {
+  const raw = await readRawBody(request);
+
+  const result = await inboundEmailService.importEmail(raw, getApiKeyActor(request));
+
+  return ApiResponseBuilder.success(result, getRequestId(request), 201);
+}
+
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const POST = withExternalApi('emails:write')(importEmailHandler);
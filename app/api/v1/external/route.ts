@@ -1,47 +1,27 @@
 /**
- * External API Endpoint (Placeholder)
- * This endpoint is designed to be called by external services
- * (webhooks, microservices, mobile apps, etc.)
+ * External API Endpoint
+ * Lets an integration check its API key - returns the key's name and scopes
+ * Called by external services (webhooks, microservices, mobile apps, etc.)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { withErrorHandling } from '@/lib/middleware/withErrorHandling';
-import { withRateLimit } from '@/lib/middleware/withRateLimit';
-import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { getApiKeyPrincipal } from '@/lib/middleware/withApiKey';
+import { withExternalApi } from '@/lib/middleware/withExternalApi';
+import { ApiResponseBuilder, getRequestId } from '@/lib/utils/system/response';
 
 /**
- * Handler: GET external data
+ * Handler: GET the calling key's details
  * This is the actual work - happens after middleware
  */
-async function getExternalHandler(_request: NextRequest) {
-  return NextResponse.json({
-    message: 'Hello stinkpot',
-    timestamp: new Date().toISOString(),
-    endpoint: '/api/v1/external',
-    version: 'v1',
-  });
-}
-
-/**
- * Handler: POST external data
- * This is the actual work - happens after middleware
- */
-async function postExternalHandler(request: NextRequest) {
-  const body = await request.json();
+async function getExternalHandler(request: NextRequest): Promise<NextResponse> {
+  const apiKey = getApiKeyPrincipal(request);
 
-  return NextResponse.json({
-    message: 'External POST received',
-    receivedData: body,
-    timestamp: new Date().toISOString(),
-  });
+  return ApiResponseBuilder.success(
+    { key: { name: apiKey.name, scopes: apiKey.scopes } },
+    getRequestId(request)
+  );
 }
 
-// Apply middleware layers: error handling -> rate limiting -> logging
-export const GET = withErrorHandling()(
-  withRateLimit({ maxRequests: 100, windowMinutes: 1 })(withRequestLogging()(getExternalHandler))
-);
-
-export const POST = withErrorHandling()(
-  withRateLimit({ maxRequests: 100, windowMinutes: 1 })(withRequestLogging()(postExternalHandler))
-);
+// Apply middleware layers: error handling -> per-IP rate limit -> API key -> per-key rate limit -> logging
+export const GET = withExternalApi()(getExternalHandler);
@@ -0,0 +1,21 @@
+/**
+ * OpenAPI Specification Endpoint
+ * Serves the /api/v1 contract as OpenAPI 3.1 JSON
+ * Public - the contract contains no data, and consumers fetch it before they have a key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withApiErrorHandling } from '@/lib/middleware/withErrorHandling';
+import { withRequestLogging } from '@/lib/middleware/withRequestLogging';
+import { getOpenApiDocument } from '@/lib/utils/system/openapi';
+
+/**
+ * Handler: GET OpenAPI document
+ */
+async function getOpenApiHandler(_request: NextRequest): Promise<NextResponse> {
+  return NextResponse.json(getOpenApiDocument());
+}
+
+// Apply middleware layers: error handling -> logging
+export const GET = withApiErrorHandling()(withRequestLogging()(getOpenApiHandler));
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { LogOut, Monitor, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { logOutEverywhere, revokeMySession } from '@/lib/actions/account.actions';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import type { ActiveSessionItem } from '@/lib/types/auth';
+
+interface ActiveSessionsListProps {
+  sessions: ActiveSessionItem[];
+}
+
+/**
+ * Describe a browser user agent as "Browser on OS"
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Chrome\//.test(userAgent)
+      ? 'Chrome'
+      : /Firefox\//.test(userAgent)
+        ? 'Firefox'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : 'Browser';
+
+  const os = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Windows/.test(userAgent)
+        ? 'Windows'
+        : /Mac OS X/.test(userAgent)
+          ? 'macOS'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : 'unknown OS';
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Active Sessions List Component
+ * The signed-in admin's sessions, with per-session sign out and log out everywhere
+ */
+export function ActiveSessionsList({ sessions }: ActiveSessionsListProps) {
+  const router = useRouter();
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [confirmEverywhere, setConfirmEverywhere] = useState(false);
+
+  /**
+   * Sign out another session
+   */
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    const result = await revokeMySession(sessionId);
+    setRevokingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to sign out session');
+      return;
+    }
+
+    toast.success('Session signed out');
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>
+            Devices signed in to your account. Sessions end after a period of inactivity.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setConfirmEverywhere(true)}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Log Out Everywhere
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {sessions.map((session) => {
+            const isMobile = /Mobile|iPhone|Android/.test(session.userAgent || '');
+
+            return (
+              <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  {isMobile ? (
+                    <Smartphone className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <Monitor className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{describeUserAgent(session.userAgent)}</span>
+                      {session.isCurrent && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {session.ipAddress || 'Unknown IP'} · Signed in{' '}
+                      {formatDateTime(session.createdAt)} · Last active{' '}
+                      {formatDateTime(session.lastSeenAt)}
+                    </p>
+                  </div>
+                </div>
+                {!session.isCurrent && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(session.id)}
+                    disabled={revokingId === session.id}
+                  >
+                    {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+
+      <AlertDialog open={confirmEverywhere} onOpenChange={setConfirmEverywhere}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Log out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session will be signed out, including this one. You will need to log in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => logOutEverywhere()}>
+              Log Out Everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
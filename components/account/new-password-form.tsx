@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+
+import { newPasswordSchema, type NewPasswordFormValues } from '@/lib/validations/admin';
+
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+interface NewPasswordFormProps {
+  onSubmit: (password: string) => Promise<{ success: boolean; error?: string }>;
+  submitLabel: string;
+}
+
+/**
+ * New Password Form Component
+ * New password and confirmation, checked against the password policy before submitting
+ * Used when resetting a forgotten password and when a change is required at login
+ */
+export function NewPasswordForm({ onSubmit, submitLabel }: NewPasswordFormProps) {
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  async function handleSubmit(data: NewPasswordFormValues) {
+    setIsSaving(true);
+    setError('');
+
+    const result = await onSubmit(data.password);
+
+    // On success the caller moves on (or the action redirects)
+    if (result && !result.success) {
+      setError(result.error || 'Failed to save password');
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Enter new password"
+                  disabled={isSaving}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                Must be 8+ characters with uppercase, lowercase, and number
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  placeholder="Confirm new password"
+                  disabled={isSaving}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+        <Button type="submit" className="w-full" disabled={isSaving}>
+          {isSaving ? 'Saving...' : submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+}
+
+/**
+ * Recovery Codes List Component
+ * Shows freshly generated recovery codes with copy and download - they are not shown again
+ */
+export function RecoveryCodesList({ codes }: RecoveryCodesListProps) {
+  /**
+   * Copy the codes to the clipboard, one per line
+   */
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  /**
+   * Download the codes as a text file
+   */
+  const handleDownload = () => {
+    const blob = new Blob([`Argan HR recovery codes\n\n${codes.join('\n')}\n`], {
+      type: 'text/plain',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'argan-hr-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Save these codes somewhere safe. Each one can be used once to sign in if you lose access to
+        your authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
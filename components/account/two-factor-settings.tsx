@@ -0,0 +1,268 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { KeyRound, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrolment,
+} from '@/lib/actions/account.actions';
+
+import { RecoveryCodesList } from '@/components/account/recovery-codes-list';
+import { TwoFactorSetupForm } from '@/components/account/two-factor-setup-form';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import type { TwoFactorSetup, TwoFactorStatus } from '@/lib/types/auth';
+
+interface TwoFactorSettingsProps {
+  status: TwoFactorStatus;
+}
+
+/**
+ * setup: enrolling an authenticator
+ * regenerate / disable: waiting for a current code to confirm
+ * codes: showing newly generated recovery codes
+ */
+type DialogMode = 'setup' | 'regenerate' | 'disable' | 'codes' | null;
+
+/**
+ * Two-Factor Settings Component
+ * Enable, disable and manage recovery codes for the signed-in admin
+ */
+export function TwoFactorSettings({ status }: TwoFactorSettingsProps) {
+  const router = useRouter();
+  const [dialogMode, setDialogMode] = useState<DialogMode>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  /**
+   * Generate a secret and open the setup dialog
+   */
+  const handleEnable = async () => {
+    setIsWorking(true);
+    const result = await startTwoFactorEnrolment();
+    setIsWorking(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to start two-factor setup');
+      return;
+    }
+
+    setSetup(result.data);
+    setDialogMode('setup');
+  };
+
+  /**
+   * Open a dialog that asks for a current code
+   */
+  const openCodeDialog = (mode: 'regenerate' | 'disable') => {
+    setCode('');
+    setDialogMode(mode);
+  };
+
+  /**
+   * Regenerate recovery codes or disable 2FA with the entered code
+   */
+  const handleCodeSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsWorking(true);
+
+    if (dialogMode === 'regenerate') {
+      const result = await regenerateRecoveryCodes(code);
+      setIsWorking(false);
+
+      if (!result.success || !result.data) {
+        toast.error(result.error || 'Failed to regenerate recovery codes');
+        return;
+      }
+
+      setRecoveryCodes(result.data);
+      setDialogMode('codes');
+      router.refresh();
+      return;
+    }
+
+    const result = await disableTwoFactor(code);
+    setIsWorking(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to disable two-factor authentication');
+      return;
+    }
+
+    toast.success('Two-factor authentication disabled');
+    setDialogMode(null);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          {status.enabled ? (
+            <Badge className="gap-1">
+              <ShieldCheck className="h-3 w-3" />
+              Enabled
+            </Badge>
+          ) : (
+            <Badge variant="outline">Off</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Sign in with a code from an authenticator app as well as your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status.required && (
+          <p className="text-sm text-muted-foreground">
+            Two-factor authentication is required for your account by an administrator.
+          </p>
+        )}
+
+        {status.enabled ? (
+          <>
+            <div className="text-sm">
+              {status.enabledAt && (
+                <p>Enabled on {new Date(status.enabledAt).toLocaleDateString('en-GB')}</p>
+              )}
+              <p className={status.recoveryCodesRemaining <= 2 ? 'text-red-600' : ''}>
+                {status.recoveryCodesRemaining} recovery code
+                {status.recoveryCodesRemaining !== 1 ? 's' : ''} remaining
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => openCodeDialog('regenerate')}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                New Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => openCodeDialog('disable')}>
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Disable
+                </Button>
+              )}
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleEnable} disabled={isWorking}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            {isWorking ? 'Starting...' : 'Enable Two-Factor'}
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={dialogMode !== null}
+        onOpenChange={(open) => {
+          if (open || isWorking) return;
+          setDialogMode(null);
+          router.refresh();
+        }}
+      >
+        <DialogContent className="sm:max-w-[420px]">
+          {dialogMode === 'setup' && setup && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set Up Two-Factor</DialogTitle>
+                <DialogDescription>Link an authenticator app to your account</DialogDescription>
+              </DialogHeader>
+              <TwoFactorSetupForm
+                setup={setup}
+                onConfirm={confirmTwoFactorEnrolment}
+                onConfirmed={(codes) => {
+                  setRecoveryCodes(codes);
+                  setDialogMode('codes');
+                  toast.success('Two-factor authentication enabled');
+                }}
+              />
+            </>
+          )}
+
+          {dialogMode === 'codes' && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Recovery Codes</DialogTitle>
+              </DialogHeader>
+              <RecoveryCodesList codes={recoveryCodes} />
+              <DialogFooter>
+                <Button
+                  onClick={() => {
+                    setDialogMode(null);
+                    router.refresh();
+                  }}
+                >
+                  Done
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {(dialogMode === 'regenerate' || dialogMode === 'disable') && (
+            <form onSubmit={handleCodeSubmit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>
+                  {dialogMode === 'regenerate' ? 'New Recovery Codes' : 'Disable Two-Factor'}
+                </DialogTitle>
+                <DialogDescription>
+                  {dialogMode === 'regenerate'
+                    ? 'Your existing recovery codes will stop working.'
+                    : 'You will sign in with your password only.'}{' '}
+                  Enter a code from your authenticator app to continue.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-confirm-code">Authentication code</Label>
+                <Input
+                  id="two-factor-confirm-code"
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  disabled={isWorking}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setDialogMode(null)}
+                  disabled={isWorking}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant={dialogMode === 'disable' ? 'destructive' : 'default'}
+                  disabled={isWorking || !code.trim()}
+                >
+                  {isWorking ? 'Verifying...' : dialogMode === 'disable' ? 'Disable' : 'Generate'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
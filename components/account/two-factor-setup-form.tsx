@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import type { TwoFactorSetup } from '@/lib/types/auth';
+
+interface TwoFactorSetupFormProps {
+  setup: TwoFactorSetup;
+  onConfirm: (code: string) => Promise<{ success: boolean; data?: string[]; error?: string }>;
+  onConfirmed: (recoveryCodes: string[]) => void;
+}
+
+/**
+ * Two-Factor Setup Form Component
+ * QR code and manual key for the authenticator app, then a code to confirm it works
+ * Used from the account page and from login when 2FA is required
+ */
+export function TwoFactorSetupForm({ setup, onConfirm, onConfirmed }: TwoFactorSetupFormProps) {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  /**
+   * Confirm the first code from the app
+   */
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsConfirming(true);
+    setError('');
+
+    const result = await onConfirm(code);
+
+    setIsConfirming(false);
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Invalid authentication code');
+      return;
+    }
+
+    onConfirmed(result.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Scan this QR code with an authenticator app such as Google Authenticator, Microsoft
+        Authenticator or 1Password.
+      </p>
+      <div className="flex justify-center">
+        {/* eslint-disable-next-line @next/next/no-img-element -- generated data URL, not optimisable */}
+        <img
+          src={setup.qrCodeDataUrl}
+          alt="Two-factor authentication QR code"
+          width={200}
+          height={200}
+          className="rounded-md border"
+        />
+      </div>
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Can&apos;t scan it? Enter this key instead:</p>
+        <p className="break-all rounded-md bg-muted/50 p-2 text-center font-mono text-sm">
+          {setup.secret.replace(/(.{4})/g, '$1 ').trim()}
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-setup-code">Code from the app</Label>
+        <Input
+          id="two-factor-setup-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isConfirming}
+        />
+      </div>
+
+      {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+      <Button type="submit" className="w-full" disabled={isConfirming || code.trim().length < 6}>
+        {isConfirming ? 'Verifying...' : 'Verify and Enable'}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+
+import type { ActivityChanges as ActivityChangesData, ActivityValue } from '@/lib/types/activity';
+import type { ActivityAction, ActivityEntityType } from '@prisma/client';
+
+/**
+ * Display labels for activity log entity types
+ */
+export const ACTIVITY_ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  CLIENT: 'Client',
+  CONTACT: 'Contact',
+  ADDRESS: 'Address',
+  CONTRACT: 'Contract',
+  CASE: 'Case',
+  INTERACTION: 'Interaction',
+  FILE: 'File',
+  ADMIN: 'Admin User',
+  API_KEY: 'API Key',
+  WEBHOOK: 'Webhook',
+  TEMPLATE: 'Document Template',
+};
+
+/**
+ * Display labels for activity log actions
+ */
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+/**
+ * Get badge variant for an activity log action
+ */
+export function getActionVariant(action: ActivityAction): 'default' | 'secondary' | 'destructive' {
+  switch (action) {
+    case 'CREATE':
+      return 'default';
+    case 'DELETE':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+}
+
+/**
+ * Turn a field name into a readable label, e.g. companyName -> Company Name
+ * Keys inside JSON columns are shown after the column, e.g. Type Fields: Hearing Date
+ */
+function formatFieldName(field: string): string {
+  return field
+    .split('.')
+    .map((part) =>
+      part.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/^./, (first) => first.toUpperCase())
+    )
+    .join(': ');
+}
+
+/**
+ * Format a recorded value for display
+ */
+function formatValue(value: ActivityValue): string {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/.test(value)) {
+    return new Date(value).toLocaleString('en-GB');
+  }
+  return String(value);
+}
+
+interface ActivityChangesProps {
+  action: ActivityAction;
+  changes: ActivityChangesData;
+}
+
+/**
+ * Activity Changes Component
+ * Field-level before/after diff for a single activity log entry
+ */
+export function ActivityChanges({ action, changes }: ActivityChangesProps) {
+  const fields = Object.keys(changes);
+
+  if (fields.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 pr-4 font-medium w-1/4">Field</th>
+          {action !== 'CREATE' && <th className="py-1 pr-4 font-medium">Before</th>}
+          {action !== 'DELETE' && <th className="py-1 font-medium">After</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map((field) => (
+          <tr key={field} className="border-t align-top">
+            <td className="py-1 pr-4 font-medium">{formatFieldName(field)}</td>
+            {action !== 'CREATE' && (
+              <td className="py-1 pr-4 break-words text-muted-foreground">
+                {action === 'UPDATE' ? (
+                  <span className="line-through">{formatValue(changes[field].from)}</span>
+                ) : (
+                  formatValue(changes[field].from)
+                )}
+              </td>
+            )}
+            {action !== 'DELETE' && (
+              <td className="py-1 break-words">{formatValue(changes[field].to)}</td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface ActivityEntryHeadingProps {
+  entityType: ActivityEntityType;
+  entityLabel: string | null;
+  entityId: string;
+  action: ActivityAction;
+}
+
+/**
+ * Activity Entry Heading Component
+ * Action badge followed by the entity, e.g. [Updated] Contact · Jane Smith
+ */
+export function ActivityEntryHeading({
+  entityType,
+  entityLabel,
+  entityId,
+  action,
+}: ActivityEntryHeadingProps) {
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <Badge variant={getActionVariant(action)}>{ACTIVITY_ACTION_LABELS[action]}</Badge>
+      <span className="font-medium">{ACTIVITY_ENTITY_LABELS[entityType]}</span>
+      <span className="truncate text-muted-foreground">{entityLabel || `#${entityId}`}</span>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { History, Loader2 } from 'lucide-react';
+
+import { getCaseActivity, getClientActivity } from '@/lib/actions/activity.actions';
+
+import { ActivityChanges, ActivityEntryHeading } from '@/components/activity/activity-changes';
+import { usePermission } from '@/components/layouts/permissions-provider';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+import type { ActivityLogItem } from '@/lib/types/activity';
+
+interface ActivityHistoryPanelProps {
+  scope: 'client' | 'case';
+  id: number;
+}
+
+/**
+ * Activity History Panel Component
+ * Header button that opens a side panel with the change history of a client or case
+ * Hidden for roles without view_audit_logs
+ */
+export function ActivityHistoryPanel({ scope, id }: ActivityHistoryPanelProps) {
+  const canView = usePermission('view_audit_logs');
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<ActivityLogItem[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the history each time the panel opens so it includes the latest changes
+   */
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const result = scope === 'client' ? await getClientActivity(id) : await getCaseActivity(id);
+
+      if (cancelled) return;
+
+      if (result.success && result.data) {
+        setEntries(result.data);
+      } else {
+        setError(result.error || 'Failed to load history');
+      }
+      setIsLoading(false);
+    };
+
+    loadHistory();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, scope, id]);
+
+  if (!canView) return null;
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-slate-500 hover:text-slate-700 transition-colors"
+            onClick={() => setOpen(true)}
+          >
+            <History className="h-4 w-4" />
+            <span className="sr-only">History</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>History</TooltipContent>
+      </Tooltip>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent className="w-full sm:max-w-xl">
+          <SheetHeader>
+            <SheetTitle>History</SheetTitle>
+            <SheetDescription>
+              {scope === 'client'
+                ? 'Changes to this client and its contacts, addresses, contracts and cases'
+                : 'Changes to this case, its interactions and files'}
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-y-auto px-4 pb-4">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+            ) : (
+              <ol className="space-y-4">
+                {entries.map((entry) => (
+                  <li key={entry.id} className="rounded-md border p-3 space-y-2">
+                    <ActivityEntryHeading
+                      entityType={entry.entityType}
+                      entityLabel={entry.entityLabel}
+                      entityId={entry.entityId}
+                      action={entry.action}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {entry.actorName} · {new Date(entry.createdAt).toLocaleString('en-GB')}
+                    </p>
+                    <ActivityChanges action={entry.action} changes={entry.changes} />
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
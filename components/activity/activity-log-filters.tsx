@@ -0,0 +1,156 @@
+'use client';
+
+import { useTransition } from 'react';
+
+import { useRouter, useSearchParams } from 'next/navigation';
+
+import { Loader2, X } from 'lucide-react';
+
+import {
+  ACTIVITY_ACTION_LABELS,
+  ACTIVITY_ENTITY_LABELS,
+} from '@/components/activity/activity-changes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const ALL = 'all';
+
+const FILTER_KEYS = ['actor', 'entityType', 'action', 'from', 'to'] as const;
+
+interface ActivityLogFiltersProps {
+  actors: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Activity Log Filters Component
+ * Keeps the filters in the URL so the server page can query with them
+ */
+export function ActivityLogFilters({ actors }: ActivityLogFiltersProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const hasFilters = FILTER_KEYS.some((key) => searchParams.get(key));
+
+  /**
+   * Set or clear a filter and go back to the first page
+   */
+  const updateFilter = (key: (typeof FILTER_KEYS)[number], value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    if (value && value !== ALL) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+
+    params.delete('page');
+
+    startTransition(() => {
+      router.push(`/admin/activity?${params.toString()}`);
+    });
+  };
+
+  /**
+   * Clear every filter
+   */
+  const resetFilters = () => {
+    startTransition(() => {
+      router.push('/admin/activity');
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={searchParams.get('actor') || ALL}
+        onValueChange={(value) => updateFilter('actor', value)}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue placeholder="All admins" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All admins</SelectItem>
+          {actors.map((actor) => (
+            <SelectItem key={actor.id} value={actor.id}>
+              {actor.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={searchParams.get('entityType') || ALL}
+        onValueChange={(value) => updateFilter('entityType', value)}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="All records" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All records</SelectItem>
+          {Object.entries(ACTIVITY_ENTITY_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={searchParams.get('action') || ALL}
+        onValueChange={(value) => updateFilter('action', value)}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue placeholder="All actions" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All actions</SelectItem>
+          {Object.entries(ACTIVITY_ACTION_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          aria-label="From date"
+          value={searchParams.get('from') || ''}
+          onChange={(e) => updateFilter('from', e.target.value)}
+          disabled={isPending}
+          className="w-[150px]"
+        />
+        <span className="text-sm text-muted-foreground">to</span>
+        <Input
+          type="date"
+          aria-label="To date"
+          value={searchParams.get('to') || ''}
+          onChange={(e) => updateFilter('to', e.target.value)}
+          disabled={isPending}
+          className="w-[150px]"
+        />
+      </div>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={resetFilters} disabled={isPending}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+
+      {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+    </div>
+  );
+}
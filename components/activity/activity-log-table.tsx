@@ -0,0 +1,131 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+
+import Link from 'next/link';
+
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+import { ActivityChanges, ActivityEntryHeading } from '@/components/activity/activity-changes';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { ActivityLogItem } from '@/lib/types/activity';
+
+interface ActivityLogTableProps {
+  entries: ActivityLogItem[];
+}
+
+/**
+ * Activity Log Table Component
+ * One row per change; expand a row to see the field-level diff
+ */
+export function ActivityLogTable({ entries }: ActivityLogTableProps) {
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+
+  /**
+   * Show or hide the diff for an entry
+   */
+  const toggleExpanded = (id: number) => {
+    setExpandedIds((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>When</TableHead>
+              <TableHead>Admin</TableHead>
+              <TableHead>Change</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead className="text-center">Fields</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                  No activity matches these filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => {
+                const isExpanded = expandedIds.has(entry.id);
+
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow className="cursor-pointer" onClick={() => toggleExpanded(entry.id)}>
+                      <TableCell>
+                        <Button variant="ghost" size="icon" className="h-6 w-6">
+                          {isExpanded ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString('en-GB')}
+                      </TableCell>
+                      <TableCell>{entry.actorName}</TableCell>
+                      <TableCell>
+                        <ActivityEntryHeading
+                          entityType={entry.entityType}
+                          entityLabel={entry.entityLabel}
+                          entityId={entry.entityId}
+                          action={entry.action}
+                        />
+                      </TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {entry.clientId ? (
+                          <Link
+                            href={`/admin/clients/${entry.clientId}`}
+                            className="text-primary hover:underline"
+                          >
+                            #{entry.clientId}
+                          </Link>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {Object.keys(entry.changes).length}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell />
+                        <TableCell colSpan={5} className="whitespace-normal">
+                          <ActivityChanges action={entry.action} changes={entry.changes} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,10 +2,15 @@
 
 import { useState } from 'react';
 
+import Link from 'next/link';
+
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 
+import { NewPasswordForm } from '@/components/account/new-password-form';
+import { RecoveryCodesList } from '@/components/account/recovery-codes-list';
+import { TwoFactorSetupForm } from '@/components/account/two-factor-setup-form';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
@@ -18,7 +23,16 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 
-import { loginAction } from '@/app/admin/(auth)/login/actions';
+import {
+  changeRequiredPasswordAction,
+  completeTwoFactorSetupAction,
+  confirmTwoFactorSetupAction,
+  loginAction,
+  startTwoFactorSetupAction,
+  verifyTwoFactorLoginAction,
+} from '@/app/admin/(auth)/login/actions';
+
+import type { TwoFactorSetup } from '@/lib/types/auth';
 
 const loginSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -27,9 +41,22 @@ const loginSchema = z.object({
 
 type LoginFormValues = z.infer<typeof loginSchema>;
 
+/**
+ * credentials: email and password
+ * verify: code from the authenticator app (or a recovery code)
+ * setup: enrol an authenticator because 2FA is required for this admin
+ * recovery-codes: show the new recovery codes before continuing
+ * change-password: choose a new password because the account requires it
+ */
+type LoginStep = 'credentials' | 'verify' | 'setup' | 'recovery-codes' | 'change-password';
+
 export function AdminLoginForm() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [code, setCode] = useState('');
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -55,8 +82,194 @@ export function AdminLoginForm() {
     if (result && !result.success) {
       setError(result.error || 'Invalid email or password');
       setIsLoading(false);
+      return;
     }
-    // If successful, loginAction handles redirect automatically (no result returned)
+
+    // Password accepted but a further step is needed
+    if (result?.nextStep === 'verify') {
+      setStep('verify');
+      setIsLoading(false);
+      return;
+    }
+
+    if (result?.nextStep === 'change_password') {
+      setStep('change-password');
+      setIsLoading(false);
+      return;
+    }
+
+    if (result?.nextStep === 'setup') {
+      const setupResult = await startTwoFactorSetupAction();
+      if (!setupResult.success || !setupResult.data) {
+        setError(setupResult.error || 'Failed to start two-factor setup');
+      } else {
+        setSetup(setupResult.data);
+        setStep('setup');
+      }
+      setIsLoading(false);
+    }
+    // Otherwise loginAction handles redirect automatically (no result returned)
+  }
+
+  /**
+   * Submit the authenticator or recovery code
+   */
+  async function onVerifyCode(event: React.FormEvent) {
+    event.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    const result = await verifyTwoFactorLoginAction(code);
+
+    // If successful, the action redirects automatically (no result returned)
+    if (result && !result.success) {
+      setError(result.error || 'Invalid authentication code');
+      setCode('');
+      setIsLoading(false);
+      return;
+    }
+
+    if (result?.nextStep === 'change_password') {
+      setStep('change-password');
+      setIsLoading(false);
+    }
+  }
+
+  /**
+   * Continue to the dashboard once the recovery codes are saved
+   */
+  async function onContinue() {
+    setIsLoading(true);
+    setError('');
+
+    const result = await completeTwoFactorSetupAction();
+
+    if (result && !result.success) {
+      setError(result.error || 'Failed to complete login');
+      setIsLoading(false);
+      return;
+    }
+
+    if (result?.nextStep === 'change_password') {
+      setStep('change-password');
+      setIsLoading(false);
+    }
+  }
+
+  /**
+   * Go back to the email and password step
+   */
+  function backToCredentials() {
+    setStep('credentials');
+    setCode('');
+    setSetup(null);
+    setError('');
+    form.reset({ email: form.getValues('email'), password: '' });
+  }
+
+  if (step === 'verify') {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            Enter the 6-digit code from your authenticator app, or one of your recovery codes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={onVerifyCode} className="space-y-4">
+            <Input
+              aria-label="Authentication code"
+              autoComplete="one-time-code"
+              autoFocus
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={isLoading}
+            />
+
+            {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+            <Button type="submit" className="w-full" disabled={isLoading || !code.trim()}>
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={backToCredentials}
+              disabled={isLoading}
+            >
+              Back to login
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === 'setup' && setup) {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Set Up Two-Factor</CardTitle>
+          <CardDescription>Two-factor authentication is required for your account</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TwoFactorSetupForm
+            setup={setup}
+            onConfirm={confirmTwoFactorSetupAction}
+            onConfirmed={(codes) => {
+              setRecoveryCodes(codes);
+              setStep('recovery-codes');
+            }}
+          />
+          <Button type="button" variant="ghost" className="w-full" onClick={backToCredentials}>
+            Back to login
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === 'change-password') {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Change Your Password</CardTitle>
+          <CardDescription>You need to choose a new password before continuing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <NewPasswordForm
+            onSubmit={changeRequiredPasswordAction}
+            submitLabel="Save password and continue"
+          />
+          <Button type="button" variant="ghost" className="w-full" onClick={backToCredentials}>
+            Back to login
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (step === 'recovery-codes') {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Recovery Codes</CardTitle>
+          <CardDescription>Two-factor authentication is now enabled</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <RecoveryCodesList codes={recoveryCodes} />
+
+          {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+          <Button className="w-full" onClick={onContinue} disabled={isLoading}>
+            {isLoading ? 'Logging in...' : "I've saved my codes - continue"}
+          </Button>
+        </CardContent>
+      </Card>
+    );
   }
 
   return (
@@ -110,6 +323,14 @@ export function AdminLoginForm() {
             <Button type="submit" className="w-full" disabled={isLoading}>
               {isLoading ? 'Logging in...' : 'Login'}
             </Button>
+            <div className="text-center text-sm">
+              <Link
+                href="/admin/login/forgot"
+                className="text-muted-foreground underline-offset-4 hover:underline"
+              >
+                Forgot your password?
+              </Link>
+            </div>
           </form>
         </Form>
       </CardContent>
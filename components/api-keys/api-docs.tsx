@@ -0,0 +1,276 @@
+'use client';
+
+import { useState } from 'react';
+
+import { ChevronDown, Send } from 'lucide-react';
+
+import { cn } from '@/lib/utils/cn';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+import type { ApiDocsOperation, ApiParameter, HttpMethod } from '@/lib/utils/system/openapi';
+
+const METHOD_STYLES: Record<HttpMethod, string> = {
+  get: 'bg-blue-100 text-blue-800 dark:bg-blue-950 dark:text-blue-200',
+  post: 'bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-200',
+  put: 'bg-amber-100 text-amber-800 dark:bg-amber-950 dark:text-amber-200',
+  patch: 'bg-purple-100 text-purple-800 dark:bg-purple-950 dark:text-purple-200',
+  delete: 'bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200',
+};
+
+/**
+ * Short type label for a parameter schema (e.g. "integer", "ACTIVE | INACTIVE")
+ */
+function describeSchema(schema: ApiParameter['schema']): string {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.join(' | ');
+  }
+  return typeof schema.type === 'string' ? schema.type : 'any';
+}
+
+interface TryItResult {
+  status: number;
+  body: string;
+}
+
+interface OperationPanelProps {
+  operation: ApiDocsOperation;
+  apiKey: string;
+}
+
+/**
+ * One operation: parameters, request body schema and a form to call it
+ */
+function OperationPanel({ operation, apiKey }: OperationPanelProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(
+    operation.requestContentType === 'application/json' ? '{\n  \n}' : ''
+  );
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<TryItResult | null>(null);
+
+  /**
+   * Send the request with the entered parameters, body and key
+   */
+  const handleSend = async () => {
+    const path = operation.path.replace(/\{(\w+)\}/g, (_match, name: string) =>
+      encodeURIComponent(values[name] ?? '')
+    );
+    const query = new URLSearchParams(
+      operation.parameters
+        .filter((parameter) => parameter.in === 'query' && values[parameter.name])
+        .map((parameter) => [parameter.name, values[parameter.name]])
+    ).toString();
+
+    setIsSending(true);
+    try {
+      const response = await fetch(`/api/v1${path}${query ? `?${query}` : ''}`, {
+        method: operation.method.toUpperCase(),
+        headers: {
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+          ...(operation.requestContentType && { 'Content-Type': operation.requestContentType }),
+        },
+        body: operation.requestBody ? body : undefined,
+      });
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON - show as is
+      }
+      setResult({ status: response.status, body: formatted });
+    } catch (error) {
+      setResult({
+        status: 0,
+        body: error instanceof Error ? error.message : 'Request failed',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t p-4">
+      <p className="text-sm text-muted-foreground">
+        {operation.scope ? (
+          <>
+            Requires the <code className="font-mono">{operation.scope}</code> scope.
+          </>
+        ) : (
+          'Any valid API key may call this endpoint.'
+        )}
+      </p>
+
+      {operation.parameters.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Parameters</h4>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {operation.parameters.map((parameter) => (
+              <div key={`${parameter.in}-${parameter.name}`} className="space-y-1">
+                <Label htmlFor={`${operation.method}-${operation.path}-${parameter.name}`}>
+                  <span className="font-mono">{parameter.name}</span>
+                  {parameter.required && <span className="text-red-600">*</span>}
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {parameter.in} · {describeSchema(parameter.schema)}
+                  </span>
+                </Label>
+                <Input
+                  id={`${operation.method}-${operation.path}-${parameter.name}`}
+                  value={values[parameter.name] ?? ''}
+                  placeholder={
+                    parameter.schema.default !== undefined ? String(parameter.schema.default) : ''
+                  }
+                  onChange={(event) =>
+                    setValues((current) => ({ ...current, [parameter.name]: event.target.value }))
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {operation.requestBody && (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Request body schema</h4>
+            <pre className="max-h-80 overflow-auto rounded-md border bg-muted/50 p-3 font-mono text-xs">
+              {JSON.stringify(operation.requestBody, null, 2)}
+            </pre>
+          </div>
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Request body</h4>
+            <Textarea
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              className="h-80 font-mono text-xs"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Button size="sm" onClick={handleSend} disabled={isSending}>
+          <Send className="mr-2 h-4 w-4" />
+          {isSending ? 'Sending...' : 'Send request'}
+        </Button>
+        {!apiKey && (
+          <span className="text-xs text-muted-foreground">
+            Enter an API key above to authenticate.
+          </span>
+        )}
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">
+            Response{' '}
+            <Badge
+              variant={result.status >= 200 && result.status < 300 ? 'default' : 'destructive'}
+            >
+              {result.status || 'Network error'}
+            </Badge>
+          </h4>
+          <pre className="max-h-96 overflow-auto rounded-md border bg-muted/50 p-3 font-mono text-xs">
+            {result.body}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ApiDocsProps {
+  operations: ApiDocsOperation[];
+}
+
+/**
+ * API Docs Component
+ * Interactive reference for /api/v1, built from the OpenAPI specification
+ * The API key entered here is only held in memory and sent with test requests
+ */
+export function ApiDocs({ operations }: ApiDocsProps) {
+  const [apiKey, setApiKey] = useState('');
+  const tags = [...new Set(operations.map((operation) => operation.tag))];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Authentication</CardTitle>
+          <CardDescription>
+            Send the key as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> or
+            in the <code className="font-mono">X-API-Key</code> header. The machine-readable
+            specification is at{' '}
+            <a href="/api/v1/openapi.json" className="font-mono underline" target="_blank">
+              /api/v1/openapi.json
+            </a>
+            .
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-xl space-y-1">
+            <Label htmlFor="api-docs-key">API key for test requests</Label>
+            <Input
+              id="api-docs-key"
+              type="password"
+              autoComplete="off"
+              placeholder="argan_..."
+              value={apiKey}
+              onChange={(event) => setApiKey(event.target.value.trim())}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {tags.map((tag) => (
+        <Card key={tag}>
+          <CardHeader>
+            <CardTitle>{tag}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {operations
+              .filter((operation) => operation.tag === tag)
+              .map((operation) => (
+                <Collapsible
+                  key={`${operation.method} ${operation.path}`}
+                  className="rounded-md border"
+                >
+                  <CollapsibleTrigger className="group flex w-full items-center gap-3 p-3 text-left hover:bg-muted/50">
+                    <span
+                      className={cn(
+                        'w-16 rounded px-2 py-0.5 text-center font-mono text-xs font-semibold uppercase',
+                        METHOD_STYLES[operation.method]
+                      )}
+                    >
+                      {operation.method}
+                    </span>
+                    <span className="font-mono text-sm">{operation.path}</span>
+                    <span className="hidden flex-1 truncate text-sm text-muted-foreground md:block">
+                      {operation.summary}
+                    </span>
+                    {operation.scope && (
+                      <Badge variant="outline" className="font-mono">
+                        {operation.scope}
+                      </Badge>
+                    )}
+                    <ChevronDown className="h-4 w-4 shrink-0 transition-transform group-data-[state=open]:rotate-180" />
+                  </CollapsibleTrigger>
+                  <CollapsibleContent>
+                    <OperationPanel operation={operation} apiKey={apiKey} />
+                  </CollapsibleContent>
+                </Collapsible>
+              ))}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { revokeApiKey } from '@/lib/actions/api-key.actions';
+
+import { CreateApiKeyDialog } from '@/components/api-keys/create-api-key-dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { ApiKeyItem } from '@/lib/types/api-key';
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string | null, fallback: string): string {
+  if (!value) return fallback;
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Status badge for a key
+ */
+function ApiKeyStatusBadge({ apiKey }: { apiKey: ApiKeyItem }) {
+  if (apiKey.revokedAt) {
+    return <Badge variant="destructive">Revoked</Badge>;
+  }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    return <Badge variant="secondary">Expired</Badge>;
+  }
+  return <Badge variant="default">Active</Badge>;
+}
+
+interface ApiKeysTableProps {
+  apiKeys: ApiKeyItem[];
+}
+
+/**
+ * API Keys Table Component
+ * Every key with its scopes, expiry and last use, with create and revoke
+ */
+export function ApiKeysTable({ apiKeys }: ApiKeysTableProps) {
+  const router = useRouter();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [revoking, setRevoking] = useState<ApiKeyItem | null>(null);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  /**
+   * Revoke the key awaiting confirmation
+   */
+  const handleRevoke = async () => {
+    if (!revoking) return;
+
+    setIsRevoking(true);
+    const result = await revokeApiKey(revoking.id);
+    setIsRevoking(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to revoke API key');
+      return;
+    }
+
+    toast.success(`${revoking.name} revoked`);
+    setRevoking(null);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>API Keys</CardTitle>
+        <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Key
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {apiKeys.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">No API keys have been created yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.map((apiKey) => (
+                <TableRow
+                  key={apiKey.id}
+                  className={apiKey.revokedAt ? 'text-muted-foreground' : ''}
+                >
+                  <TableCell>
+                    <div className="font-medium">{apiKey.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {apiKey.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(apiKey.expiresAt, 'Never')}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(apiKey.lastUsedAt, 'Never')}
+                    {apiKey.lastUsedIp && (
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {apiKey.lastUsedIp}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(apiKey.createdAt, '-')}
+                    {apiKey.createdByName && (
+                      <div className="text-xs text-muted-foreground">by {apiKey.createdByName}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <ApiKeyStatusBadge apiKey={apiKey} />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {!apiKey.revokedAt && (
+                      <Button variant="outline" size="sm" onClick={() => setRevoking(apiKey)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CreateApiKeyDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+
+      <AlertDialog
+        open={revoking !== null}
+        onOpenChange={(open) => !isRevoking && !open && setRevoking(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revoking?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Requests using this key will be rejected straight away. This cannot be undone - the
+              integration will need a new key.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRevoking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke} disabled={isRevoking}>
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
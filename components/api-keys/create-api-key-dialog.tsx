@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Copy } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+import { createApiKey } from '@/lib/actions/api-key.actions';
+import { API_KEY_SCOPE_DESCRIPTIONS, API_KEY_SCOPES } from '@/lib/utils/system/api-scopes';
+import { createApiKeySchema, type CreateApiKeyFormValues } from '@/lib/validations/api-key';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+interface CreateApiKeyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create API Key Dialog Component
+ * Name, scopes and optional expiry; the new key is shown once, then never again
+ */
+export function CreateApiKeyDialog({ open, onOpenChange }: CreateApiKeyDialogProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const form = useForm<CreateApiKeyFormValues>({
+    resolver: zodResolver(createApiKeySchema),
+    defaultValues: {
+      name: '',
+      scopes: [],
+      expiresAt: '',
+    },
+  });
+
+  async function onSubmit(data: CreateApiKeyFormValues) {
+    setIsSaving(true);
+
+    const result = await createApiKey({
+      name: data.name,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt || null,
+    });
+
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      toast.error('Failed to create API key', { description: result.error });
+      return;
+    }
+
+    setCreatedKey(result.data.key);
+    router.refresh();
+  }
+
+  /**
+   * Copy the new key to the clipboard
+   */
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey);
+    toast.success('API key copied');
+  };
+
+  /**
+   * Close the dialog, forgetting the new key and resetting the form
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isSaving) return;
+    if (!nextOpen) {
+      setCreatedKey(null);
+      form.reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[540px]">
+        <DialogHeader>
+          <DialogTitle>{createdKey ? 'API Key Created' : 'Create API Key'}</DialogTitle>
+          <DialogDescription>
+            {createdKey
+              ? 'Copy this key now and store it somewhere safe. It will not be shown again.'
+              : 'Keys authenticate external systems calling the /api/v1 API.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdKey ? (
+          <div className="space-y-4">
+            <div className="break-all rounded-md border bg-muted/50 p-3 font-mono text-sm">
+              {createdKey}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Send it as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> or in
+              the <code className="font-mono">X-API-Key</code> header.
+            </p>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCopy}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Payroll integration" disabled={isSaving} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      What the key is for, so it can be recognised later
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="scopes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scopes</FormLabel>
+                    <div className="space-y-2 rounded-md border p-4">
+                      {API_KEY_SCOPES.map((scope) => (
+                        <label key={scope} className="flex items-start space-x-3">
+                          <Checkbox
+                            checked={field.value.includes(scope)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, scope]
+                                  : field.value.filter((value) => value !== scope)
+                              )
+                            }
+                            disabled={isSaving}
+                          />
+                          <div className="space-y-1 leading-none">
+                            <div className="font-mono text-sm">{scope}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {API_KEY_SCOPE_DESCRIPTIONS[scope]}
+                            </div>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="expiresAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <FormControl>
+                      <Input type="date" disabled={isSaving} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      The key stops working at the end of this day. Leave empty for no expiry.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? 'Creating...' : 'Create Key'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
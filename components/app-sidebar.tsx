@@ -2,8 +2,20 @@
 
 import * as React from 'react';
 
-import { Building2, FileText, LayoutDashboard, Settings, Users, Briefcase } from 'lucide-react';
+import {
+  Building2,
+  FileText,
+  History,
+  KeyRound,
+  LayoutDashboard,
+  Settings,
+  ShieldAlert,
+  Users,
+  Briefcase,
+  Webhook,
+} from 'lucide-react';
 
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { NavMain } from '@/components/nav-main';
 import { NavUser } from '@/components/nav-user';
 import {
@@ -50,12 +62,30 @@ const navData = {
       url: '/admin/users',
       icon: Users,
     },
+    {
+      title: 'Activity Log',
+      url: '/admin/activity',
+      icon: History,
+    },
+    {
+      title: 'Security',
+      url: '/admin/security',
+      icon: ShieldAlert,
+    },
+    {
+      title: 'API Keys',
+      url: '/admin/api-keys',
+      icon: KeyRound,
+    },
+    {
+      title: 'Webhooks',
+      url: '/admin/webhooks',
+      icon: Webhook,
+    },
     {
       title: 'Settings',
       url: '/admin/settings',
       icon: Settings,
-      badge: 'Coming Soon',
-      disabled: true,
     },
   ],
 };
@@ -69,6 +99,20 @@ interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
 }
 
 export function AppSidebar({ user, ...props }: AppSidebarProps) {
+  const canViewActivity = usePermission('view_audit_logs');
+  const canManageSecurity = usePermission('manage_admin_security');
+  const canManageApiKeys = usePermission('manage_api_keys');
+  const canManageWebhooks = usePermission('manage_webhooks');
+  const canManageSettings = usePermission('manage_document_templates');
+  const navManagement = navData.navManagement.filter(
+    (item) =>
+      (item.url !== '/admin/activity' || canViewActivity) &&
+      (item.url !== '/admin/security' || canManageSecurity) &&
+      (item.url !== '/admin/api-keys' || canManageApiKeys) &&
+      (item.url !== '/admin/webhooks' || canManageWebhooks) &&
+      (item.url !== '/admin/settings' || canManageSettings)
+  );
+
   // Use provided user data or fallback to defaults
   const userData = user
     ? {
@@ -109,9 +153,7 @@ export function AppSidebar({ user, ...props }: AppSidebarProps) {
           </SidebarHeader>
           <SidebarContent className="flex-1">
             <NavMain items={navData.navMain} label="Platform" />
-            {navData.navManagement && (
-              <NavMain items={navData.navManagement} label="Management" />
-            )}
+            {navManagement.length > 0 && <NavMain items={navManagement} label="Management" />}
           </SidebarContent>
           <SidebarFooter>
             <NavUser user={userData} />
@@ -0,0 +1,86 @@
+import { Phone } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+import type { ClientCallActivity } from '@/lib/types/case';
+
+interface CallActivityWidgetProps {
+  activity: ClientCallActivity;
+}
+
+/**
+ * Format the first day of a month as "Oct 2025"
+ */
+function formatMonth(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+}
+
+/**
+ * Call Activity Widget
+ * Shows the number of phone and video calls and the minutes spent on them per month
+ */
+export function CallActivityWidget({ activity }: CallActivityWidgetProps) {
+  const busiestMonth = Math.max(...activity.months.map((month) => month.minutes), 0);
+
+  return (
+    <Card className="bg-muted/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Phone className="h-5 w-5" />
+          Call Activity
+          <span className="text-sm font-normal text-muted-foreground">
+            ({activity.totalCalls} {activity.totalCalls === 1 ? 'call' : 'calls'},{' '}
+            {activity.totalMinutes} minutes in the last {activity.months.length} months)
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {activity.totalCalls === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No phone or video calls logged in the last {activity.months.length} months
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-muted-foreground">
+                <th className="py-2 text-left font-medium">Month</th>
+                <th className="py-2 text-right font-medium w-20">Calls</th>
+                <th className="py-2 text-right font-medium w-24">Minutes</th>
+                <th className="py-2 pl-4 w-1/2" />
+              </tr>
+            </thead>
+            <tbody>
+              {[...activity.months].reverse().map((month) => (
+                <tr key={month.month} className="border-b last:border-0">
+                  <td className="py-1.5">{formatMonth(month.month)}</td>
+                  <td className="py-1.5 text-right">{month.calls}</td>
+                  <td className="py-1.5 text-right">
+                    {month.minutes}
+                    {month.untimedCalls > 0 && (
+                      <span
+                        className="text-xs text-muted-foreground"
+                        title={`${month.untimedCalls} ${month.untimedCalls === 1 ? 'call has' : 'calls have'} no duration`}
+                      >
+                        *
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pl-4">
+                    <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500"
+                        style={{
+                          width: `${busiestMonth > 0 ? (month.minutes / busiestMonth) * 100 : 0}%`,
+                        }}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 
+import type { CaseInteractionChannel } from '@/lib/types/case';
+import type { CaseTypeFieldValues, CaseTypeValue } from '@/lib/utils/business/case-types';
+
 export interface CallLogCaseData {
   id: number;
   caseId: string;
@@ -30,8 +33,11 @@ export interface CallLogCaseData {
   escalatedBy: string;
   assignedTo: string | null;
   description?: string | null;
+  type?: CaseTypeValue | null;
+  typeFields?: CaseTypeFieldValues;
   interactionCount?: number;
   fileCount?: number;
+  channels?: CaseInteractionChannel[];
 }
 
 type ServiceTierFilter = 'ALL' | 'TIER_1' | 'DOC_ONLY' | 'AD_HOC';
@@ -6,8 +6,15 @@ import Link from 'next/link';
 
 import { ArrowUpDown, ArrowUp, ArrowDown, Filter, Plus, MessageSquarePlus } from 'lucide-react';
 
+import { CASE_TYPE_LABELS, matchesCaseFieldFilters } from '@/lib/utils/business/case-types';
+
 import { CaseDetailsWidget } from '@/components/cases/case-details-widget';
-import { CaseInteractionsWidget } from '@/components/cases/case-interactions-widget';
+import {
+  CaseInteractionsWidget,
+  INTERACTION_DIRECTION_LABELS,
+  INTERACTION_TYPE_LABELS,
+} from '@/components/cases/case-interactions-widget';
+import { CaseTypeFilter } from '@/components/cases/case-type-filter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -18,6 +25,7 @@ import {
 } from '@/components/ui/popover';
 
 import type { CallLogCaseData } from '@/components/cases/call-log-content';
+import type { InteractionType } from '@prisma/client';
 
 interface CallLogListProps {
   cases: CallLogCaseData[];
@@ -29,7 +37,7 @@ interface CallLogListProps {
  */
 export function CallLogList({ cases }: CallLogListProps) {
   const [selectedCase, setSelectedCase] = useState<CallLogCaseData | null>(null);
-  const [sortColumn, setSortColumn] = useState<'caseId' | 'title' | 'clientName' | 'escalatedBy' | 'assignedTo' | 'lastInteractionDate' | 'status' | 'actionRequired' | 'creationDate'>('creationDate');
+  const [sortColumn, setSortColumn] = useState<'caseId' | 'title' | 'type' | 'clientName' | 'escalatedBy' | 'assignedTo' | 'lastInteractionDate' | 'status' | 'actionRequired' | 'creationDate'>('creationDate');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [isTableVisible, setIsTableVisible] = useState(false); // Default: table hidden
 
@@ -40,8 +48,17 @@ export function CallLogList({ cases }: CallLogListProps) {
     assignedTo: [],
     escalatedBy: [],
     clientName: [],
+    type: [],
+    interactionType: [],
+    direction: [],
   });
 
+  // Case type field filters - only offered while a single case type is selected
+  const [fieldFilters, setFieldFilters] = useState<Record<string, string[]>>({});
+
+  // Bumped when the case details log an interaction (process steps) so the interactions reload
+  const [interactionsRefreshKey, setInteractionsRefreshKey] = useState(0);
+
   /**
    * Handle case click
    */
@@ -88,21 +105,77 @@ export function CallLogList({ cases }: CallLogListProps) {
     }));
   };
 
+  /**
+   * Toggle a case type filter value
+   * Field filters belong to a single type, so they are cleared whenever the type filter changes
+   */
+  const toggleTypeFilter = (value: string) => {
+    toggleFilter('type', value);
+    setFieldFilters({});
+  };
+
+  /**
+   * Toggle a case type field filter value
+   */
+  const toggleFieldFilter = (key: string, value: string) => {
+    setFieldFilters(prev => {
+      const currentFilters = prev[key] || [];
+      return {
+        ...prev,
+        [key]: currentFilters.includes(value)
+          ? currentFilters.filter(v => v !== value)
+          : [...currentFilters, value],
+      };
+    });
+  };
+
+  /**
+   * Clear the case type and field filters
+   */
+  const clearTypeFilter = () => {
+    clearFilter('type');
+    setFieldFilters({});
+  };
+
   /**
    * Get unique values for a column
    */
-  const getUniqueValues = (column: keyof CallLogCaseData) => {
+  const getUniqueValues = (column: Exclude<keyof CallLogCaseData, 'typeFields'>) => {
     return [...new Set(cases.map(c => c[column]))].filter(Boolean).sort();
   };
 
+  /**
+   * Get interaction counts per type for a case, across both directions
+   */
+  const getTypeCounts = (caseItem: CallLogCaseData) => {
+    const counts = new Map<InteractionType, number>();
+    for (const channel of caseItem.channels || []) {
+      counts.set(channel.type, (counts.get(channel.type) || 0) + channel.count);
+    }
+    return [...counts.entries()];
+  };
+
   /**
    * Apply filters and sort cases
    */
   const filteredAndSortedCases = useMemo(() => {
+    const { interactionType, direction, ...columnFilters } = filters;
+
     // First filter
     const filtered = cases.filter(caseItem => {
-      // Apply each active filter
-      for (const [column, selectedValues] of Object.entries(filters)) {
+      // Channel filters match cases with at least one interaction of a selected type and direction
+      if (interactionType.length > 0 || direction.length > 0) {
+        const hasMatchingInteraction = (caseItem.channels || []).some(channel =>
+          (interactionType.length === 0 || interactionType.includes(channel.type)) &&
+          (direction.length === 0 || (channel.direction !== null && direction.includes(channel.direction)))
+        );
+        if (!hasMatchingInteraction) {
+          return false;
+        }
+      }
+
+      // Apply each active column filter
+      for (const [column, selectedValues] of Object.entries(columnFilters)) {
         if (selectedValues.length > 0) {
           const columnValue = caseItem[column as keyof typeof caseItem];
           if (!selectedValues.includes(String(columnValue))) {
@@ -110,6 +183,11 @@ export function CallLogList({ cases }: CallLogListProps) {
           }
         }
       }
+
+      // Apply case type field filters
+      if (!matchesCaseFieldFilters(caseItem.typeFields, fieldFilters)) {
+        return false;
+      }
       return true;
     });
 
@@ -127,6 +205,10 @@ export function CallLogList({ cases }: CallLogListProps) {
           aVal = a.title.toLowerCase();
           bVal = b.title.toLowerCase();
           break;
+        case 'type':
+          aVal = a.type ? CASE_TYPE_LABELS[a.type] : '';
+          bVal = b.type ? CASE_TYPE_LABELS[b.type] : '';
+          break;
         case 'clientName':
           aVal = a.clientName.toLowerCase();
           bVal = b.clientName.toLowerCase();
@@ -164,7 +246,7 @@ export function CallLogList({ cases }: CallLogListProps) {
       if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
       return 0;
     });
-  }, [cases, filters, sortColumn, sortDirection]);
+  }, [cases, filters, fieldFilters, sortColumn, sortDirection]);
 
   /**
    * Render sort icon based on current sort state
@@ -277,6 +359,26 @@ export function CallLogList({ cases }: CallLogListProps) {
                     </button>
                   </th>
 
+                  {/* Case Type */}
+                  <th className="sticky top-0 bg-background backdrop-blur-sm p-3 text-center font-semibold border-b">
+                    <div className="flex items-center justify-center gap-2">
+                      <button
+                        className="flex items-center text-primary hover:text-primary/80 transition-colors"
+                        onClick={() => handleSort('type')}
+                      >
+                        Type
+                        {getSortIcon('type')}
+                      </button>
+                      <CaseTypeFilter
+                        selectedTypes={filters.type}
+                        fieldFilters={fieldFilters}
+                        onToggleType={toggleTypeFilter}
+                        onToggleField={toggleFieldFilter}
+                        onClear={clearTypeFilter}
+                      />
+                    </div>
+                  </th>
+
                   {/* Client */}
                   <th className="sticky top-0 bg-background backdrop-blur-sm p-3 text-center font-semibold border-b">
                     <div className="flex items-center justify-center gap-2">
@@ -438,6 +540,76 @@ export function CallLogList({ cases }: CallLogListProps) {
                     </button>
                   </th>
 
+                  {/* Interaction Channels */}
+                  <th className="sticky top-0 bg-background backdrop-blur-sm p-3 text-center font-semibold border-b">
+                    <div className="flex items-center justify-center gap-2">
+                      <span className="text-primary">Channels</span>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <button className="p-1 hover:bg-muted rounded">
+                            <Filter className={`h-3.5 w-3.5 ${filters.interactionType?.length > 0 || filters.direction?.length > 0 ? 'text-primary' : 'text-muted-foreground'}`} />
+                          </button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-48" align="center">
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-medium">Filter Type</span>
+                              {filters.interactionType?.length > 0 && (
+                                <button
+                                  className="text-xs text-muted-foreground hover:text-foreground"
+                                  onClick={() => clearFilter('interactionType')}
+                                >
+                                  Clear
+                                </button>
+                              )}
+                            </div>
+                            {Object.entries(INTERACTION_TYPE_LABELS).map(([value, label]) => (
+                              <div key={value} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`interactionType-${value}`}
+                                  checked={filters.interactionType?.includes(value)}
+                                  onCheckedChange={() => toggleFilter('interactionType', value)}
+                                />
+                                <label
+                                  htmlFor={`interactionType-${value}`}
+                                  className="text-sm cursor-pointer"
+                                >
+                                  {label}
+                                </label>
+                              </div>
+                            ))}
+                            <div className="flex items-center justify-between pt-2 border-t">
+                              <span className="text-sm font-medium">Filter Direction</span>
+                              {filters.direction?.length > 0 && (
+                                <button
+                                  className="text-xs text-muted-foreground hover:text-foreground"
+                                  onClick={() => clearFilter('direction')}
+                                >
+                                  Clear
+                                </button>
+                              )}
+                            </div>
+                            {Object.entries(INTERACTION_DIRECTION_LABELS).map(([value, label]) => (
+                              <div key={value} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`direction-${value}`}
+                                  checked={filters.direction?.includes(value)}
+                                  onCheckedChange={() => toggleFilter('direction', value)}
+                                />
+                                <label
+                                  htmlFor={`direction-${value}`}
+                                  className="text-sm cursor-pointer"
+                                >
+                                  {label}
+                                </label>
+                              </div>
+                            ))}
+                          </div>
+                        </PopoverContent>
+                      </Popover>
+                    </div>
+                  </th>
+
                   {/* Case Status */}
                   <th className="sticky top-0 bg-background backdrop-blur-sm p-3 text-center font-semibold border-b">
                     <div className="flex items-center justify-center gap-2">
@@ -558,6 +730,20 @@ export function CallLogList({ cases }: CallLogListProps) {
                       {caseItem.title}
                     </td>
 
+                    {/* Case Type */}
+                    <td className="p-3 text-center">
+                      {caseItem.type ? (
+                        <div className="flex flex-col items-center">
+                          <span className="text-sm whitespace-nowrap">{CASE_TYPE_LABELS[caseItem.type]}</span>
+                          {caseItem.typeFields?.stage && (
+                            <span className="text-xs text-muted-foreground">{String(caseItem.typeFields.stage)}</span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+
                     {/* Client */}
                     <td className="p-3 text-center">
                       <Link
@@ -584,6 +770,21 @@ export function CallLogList({ cases }: CallLogListProps) {
                       {caseItem.lastInteractionDate}
                     </td>
 
+                    {/* Interaction Channels */}
+                    <td className="p-3 text-center">
+                      <div className="flex flex-wrap justify-center gap-1">
+                        {getTypeCounts(caseItem).map(([type, count]) => (
+                          <span
+                            key={type}
+                            className="inline-flex items-center px-2 py-0.5 rounded bg-muted text-xs text-muted-foreground whitespace-nowrap"
+                          >
+                            {INTERACTION_TYPE_LABELS[type]} × {count}
+                          </span>
+                        ))}
+                        {!caseItem.channels?.length && <span className="text-muted-foreground">-</span>}
+                      </div>
+                    </td>
+
                     {/* Case Status */}
                     <td className="p-3 text-center">
                       <div className="flex items-center justify-center gap-2">
@@ -625,8 +826,11 @@ export function CallLogList({ cases }: CallLogListProps) {
               escalatedBy: selectedCase.escalatedBy,
               assignedTo: selectedCase.assignedTo,
               description: selectedCase.description || null,
+              type: selectedCase.type ?? null,
+              typeFields: selectedCase.typeFields ?? {},
             }}
             clientId={selectedCase.clientId}
+            onInteractionsChanged={() => setInteractionsRefreshKey((key) => key + 1)}
           />
 
           {/* Right: Case Interactions Widget */}
@@ -634,6 +838,7 @@ export function CallLogList({ cases }: CallLogListProps) {
             caseId={selectedCase.caseId}
             caseNumericId={selectedCase.id}
             clientId={selectedCase.clientId}
+            refreshKey={interactionsRefreshKey}
           />
         </div>
       )}
@@ -4,10 +4,21 @@ import { useState, useEffect } from 'react';
 
 import { useRouter } from 'next/navigation';
 
-import { Trash2, Paperclip } from 'lucide-react';
+import { Trash2, Paperclip, FilePlus } from 'lucide-react';
 import { toast } from 'sonner';
 
+import { getStatusChangeRequirements } from '@/lib/utils/business/case-status';
+import { CASE_TYPE_LABELS, pickCaseTypeFields } from '@/lib/utils/business/case-types';
+
+import { ActivityHistoryPanel } from '@/components/activity/activity-history-panel';
+import { CaseFilesList } from '@/components/cases/case-files-list';
+import { CaseProcessChecklist } from '@/components/cases/case-process-checklist';
+import { CaseStatusDialog } from '@/components/cases/case-status-dialog';
+import { CaseStatusTimeline } from '@/components/cases/case-status-timeline';
+import { CaseTypeFields } from '@/components/cases/case-type-fields';
 import { FileUploadModal } from '@/components/cases/file-upload-modal';
+import { GenerateDocumentDialog } from '@/components/documents/generate-document-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -21,8 +32,12 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 
+
 import { deleteCase, updateCase, getAdminUsers } from '@/app/admin/(protected)/clients/[id]/cases/actions';
 
+import type { CaseTypeFieldValues, CaseTypeValue } from '@/lib/utils/business/case-types';
+import type { CaseStatus } from '@prisma/client';
+
 interface AdminUser {
   id: string;
   name: string;
@@ -41,24 +56,34 @@ interface CaseDetailsWidgetProps {
     escalatedBy: string;
     assignedTo: string | null;
     description: string | null;
+    type: CaseTypeValue | null;
+    typeFields: CaseTypeFieldValues;
   };
   clientId: number;
   onCaseDeleted?: () => void;
+  onInteractionsChanged?: () => void; // Called when a process step logs an interaction
 }
 
 /**
  * Case Details Widget
  * Shows detailed information about a selected case
  */
-export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDetailsWidgetProps) {
+export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted, onInteractionsChanged }: CaseDetailsWidgetProps) {
   const router = useRouter();
+  const canUpdateCase = usePermission('update_case');
+  const canDeleteCase = usePermission('delete_case');
+  const canUploadFiles = usePermission('manage_case_files');
   const [title, setTitle] = useState(caseData.title);
   const [escalatedBy, setEscalatedBy] = useState(caseData.escalatedBy);
   const [description, setDescription] = useState(caseData.description || '');
   const [actionRequiredText, setActionRequiredText] = useState(caseData.actionRequired || '');
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isGenerateOpen, setIsGenerateOpen] = useState(false);
+  const [filesRefreshKey, setFilesRefreshKey] = useState(0);
   const [isDeleting, setIsDeleting] = useState(false);
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  const [pendingStatus, setPendingStatus] = useState<CaseStatus | null>(null);
+  const [statusRefreshKey, setStatusRefreshKey] = useState(0);
 
   /**
    * Load admin users on mount
@@ -141,7 +166,7 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
   /**
    * Auto-save handler for dropdown fields (immediate save)
    */
-  const handleDropdownSave = async (field: 'status' | 'actionRequiredBy' | 'assignedTo', value: string | null) => {
+  const handleDropdownSave = async (field: 'status' | 'actionRequiredBy' | 'assignedTo' | 'type', value: string | null) => {
     try {
       const result = await updateCase(caseData.id, { [field]: value });
       if (result.success) {
@@ -154,6 +179,43 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
     }
   };
 
+  /**
+   * Change the case status - closing and reopening ask for a reason first
+   */
+  const handleStatusChange = async (value: string) => {
+    const status = value as CaseStatus;
+    if (status === caseData.status) return;
+
+    const { reasonRequired } = getStatusChangeRequirements(caseData.status as CaseStatus, status);
+    if (reasonRequired) {
+      setPendingStatus(status);
+      return;
+    }
+
+    await handleDropdownSave('status', status);
+    setStatusRefreshKey((key) => key + 1);
+  };
+
+  /**
+   * Change the case type - fields the new type does not have are dropped, so ask first
+   */
+  const handleTypeChange = async (value: string) => {
+    const type = value === 'none' ? null : (value as CaseTypeValue);
+    if (type === caseData.type) return;
+
+    const droppedCount =
+      Object.keys(caseData.typeFields).length -
+      Object.keys(pickCaseTypeFields(type, caseData.typeFields)).length;
+    if (droppedCount > 0) {
+      const confirmed = window.confirm(
+        `Change the case type to ${type ? CASE_TYPE_LABELS[type] : 'none'}?\n\n${droppedCount} ${droppedCount === 1 ? 'field does' : 'fields do'} not apply to the new type and will be cleared.`
+      );
+      if (!confirmed) return;
+    }
+
+    await handleDropdownSave('type', type);
+  };
+
   /**
    * Handle delete case
    */
@@ -195,23 +257,39 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
         <CardTitle>Case Details</CardTitle>
         <div className="flex items-center gap-1">
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setIsUploadModalOpen(true)}
-            className="h-8 w-8 text-muted-foreground hover:text-foreground"
-          >
-            <Paperclip className="h-4 w-4" />
-          </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handleDeleteCase}
-            disabled={isDeleting}
-            className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
-          >
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          <ActivityHistoryPanel scope="case" id={caseData.id} />
+          {canUploadFiles && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsGenerateOpen(true)}
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+              title="Generate Document"
+            >
+              <FilePlus className="h-4 w-4" />
+            </Button>
+          )}
+          {canUploadFiles && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsUploadModalOpen(true)}
+              className="h-8 w-8 text-muted-foreground hover:text-foreground"
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+          )}
+          {canDeleteCase && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDeleteCase}
+              disabled={isDeleting}
+              className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -230,10 +308,35 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
               onChange={(e) => setTitle(e.target.value)}
               onBlur={() => handleFieldSave('title', title)}
               className="h-8 text-sm"
+              disabled={!canUpdateCase}
             />
           </div>
         </div>
 
+        {/* Case Type */}
+        <div className="grid grid-cols-3 gap-2">
+          <Label className="text-sm font-semibold text-muted-foreground">Case Type</Label>
+          <div className="col-span-2">
+            <Select
+              value={caseData.type || 'none'}
+              disabled={!canUpdateCase}
+              onValueChange={handleTypeChange}
+            >
+              <SelectTrigger className="h-8 w-full text-sm">
+                <SelectValue placeholder="Select case type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">-</SelectItem>
+                {Object.entries(CASE_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         {/* Escalated By */}
         <div className="grid grid-cols-3 gap-2 items-center">
           <Label className="text-sm font-semibold text-muted-foreground">Escalated By</Label>
@@ -243,6 +346,7 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
               onChange={(e) => setEscalatedBy(e.target.value)}
               onBlur={() => handleFieldSave('escalatedBy', escalatedBy)}
               className="h-8 text-sm"
+              disabled={!canUpdateCase}
             />
           </div>
         </div>
@@ -253,6 +357,7 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
           <div className="col-span-2">
             <Select
               value={caseData.assignedTo || 'none'}
+              disabled={!canUpdateCase}
               onValueChange={(value) => handleDropdownSave('assignedTo', value === 'none' ? null : value)}
             >
               <SelectTrigger className="h-8 w-full text-sm">
@@ -276,7 +381,8 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
           <div className="col-span-2">
             <Select
               value={caseData.status}
-              onValueChange={(value) => handleDropdownSave('status', value)}
+              disabled={!canUpdateCase}
+              onValueChange={handleStatusChange}
             >
               <SelectTrigger className="h-8 w-full text-sm">
                 <div className="flex items-center gap-2">
@@ -314,6 +420,7 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
           <div className="col-span-2">
             <Select
               value={caseData.actionRequiredBy || 'none'}
+              disabled={!canUpdateCase}
               onValueChange={(value) => handleDropdownSave('actionRequiredBy', value === 'none' ? null : value)}
             >
               <SelectTrigger className="h-8 w-full text-sm">
@@ -367,6 +474,7 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
               onBlur={() => handleFieldSave('actionRequired', actionRequiredText)}
               className="h-8 text-sm"
               placeholder="What action is needed..."
+              disabled={!canUpdateCase}
             />
           </div>
         </div>
@@ -377,6 +485,16 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
           <div className="col-span-2 text-sm">{caseData.creationDate}</div>
         </div>
 
+        {/* Case Type Fields */}
+        {caseData.type && (
+          <CaseTypeFields
+            caseId={caseData.id}
+            type={caseData.type}
+            values={caseData.typeFields}
+            disabled={!canUpdateCase}
+          />
+        )}
+
         {/* Case Description */}
         <div className="space-y-2 pt-2 border-t">
           <Label htmlFor="case-description" className="text-sm font-semibold">
@@ -389,10 +507,49 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
             value={description}
             onChange={(e) => setDescription(e.target.value)}
             onBlur={() => handleFieldSave('description', description)}
+            disabled={!canUpdateCase}
+          />
+        </div>
+
+        {/* Guided Process */}
+        <div className="pt-2 border-t empty:hidden">
+          <CaseProcessChecklist
+            caseId={caseData.id}
+            clientId={clientId}
+            caseType={caseData.type}
+            caseStatus={caseData.status}
+            onProcessChanged={() => {
+              router.refresh();
+              onInteractionsChanged?.();
+            }}
           />
         </div>
+
+        {/* Status History */}
+        <div className="pt-2 border-t">
+          <CaseStatusTimeline caseId={caseData.id} refreshKey={statusRefreshKey} />
+        </div>
+
+        {/* Case Files */}
+        <div className="pt-2 border-t">
+          <CaseFilesList caseId={caseData.id} clientId={clientId} refreshKey={filesRefreshKey} />
+        </div>
       </CardContent>
 
+      {/* Close / Reopen Dialog */}
+      <CaseStatusDialog
+        caseId={caseData.caseId}
+        caseNumericId={caseData.id}
+        toStatus={pendingStatus}
+        onOpenChange={(open) => {
+          if (!open) setPendingStatus(null);
+        }}
+        onStatusChanged={() => {
+          setStatusRefreshKey((key) => key + 1);
+          router.refresh();
+        }}
+      />
+
       {/* File Upload Modal */}
       <FileUploadModal
         open={isUploadModalOpen}
@@ -400,9 +557,19 @@ export function CaseDetailsWidget({ caseData, clientId, onCaseDeleted }: CaseDet
         caseId={caseData.caseId}
         clientId={clientId}
         interactionId={null}
-        onUploadSuccess={() => {
-          console.log('File uploaded successfully');
-          // TODO: Refresh file list
+        onUploadSuccess={() => setFilesRefreshKey((key) => key + 1)}
+      />
+
+      {/* Generate Document Dialog */}
+      <GenerateDocumentDialog
+        open={isGenerateOpen}
+        onOpenChange={setIsGenerateOpen}
+        entityType="CASE"
+        entityId={caseData.id}
+        clientId={clientId}
+        onGenerated={(document) => {
+          setFilesRefreshKey((key) => key + 1);
+          if (document.interactionId) onInteractionsChanged?.();
         }}
       />
     </Card>
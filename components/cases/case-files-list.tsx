@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { Download, Eye, FileText, History } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  formatFileSize,
+  isImageContentType,
+  isPreviewableContentType,
+} from '@/lib/utils/business/file';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+
+import { getFiles, getFileAccesses } from '@/app/admin/(protected)/clients/[id]/cases/actions';
+
+interface CaseFile {
+  id: number;
+  fileName: string;
+  contentType: string | null;
+  fileSize: number;
+  uploadedBy: string;
+  uploadedAt: string;
+  fileTitle: string | null;
+}
+
+interface FileAccess {
+  id: number;
+  accessType: 'DOWNLOAD' | 'PREVIEW';
+  accessedBy: string;
+  accessedAt: string;
+}
+
+interface CaseFilesListProps {
+  caseId: number; // Numeric case ID for database operations
+  clientId: number;
+  interactionId?: number | null; // NULL = case-level files
+  refreshKey?: number; // Change to reload the list (e.g., after an upload)
+}
+
+/**
+ * Case Files List
+ * Lists case files with secure download, inline preview and access history
+ */
+export function CaseFilesList({
+  caseId,
+  clientId,
+  interactionId = null,
+  refreshKey = 0,
+}: CaseFilesListProps) {
+  const [files, setFiles] = useState<CaseFile[]>([]);
+  const [previewFile, setPreviewFile] = useState<CaseFile | null>(null);
+  const [historyFile, setHistoryFile] = useState<CaseFile | null>(null);
+  const [accesses, setAccesses] = useState<FileAccess[]>([]);
+
+  /**
+   * Load files when the case changes or an upload completes
+   */
+  useEffect(() => {
+    const loadFiles = async () => {
+      const result = await getFiles(caseId, interactionId);
+      if (result.success && result.data) {
+        setFiles(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load files');
+      }
+    };
+
+    loadFiles();
+  }, [caseId, interactionId, refreshKey]);
+
+  /**
+   * Load access history when the history dialog opens
+   */
+  useEffect(() => {
+    if (!historyFile) return;
+
+    const loadAccesses = async () => {
+      const result = await getFileAccesses(historyFile.id);
+      if (result.success && result.data) {
+        setAccesses(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load access history');
+      }
+    };
+
+    loadAccesses();
+  }, [historyFile]);
+
+  /**
+   * Get the secure download route for a file
+   */
+  const getFileHref = (fileId: number, disposition: 'inline' | 'attachment') =>
+    `/api/clients/${clientId}/files/${fileId}?disposition=${disposition}`;
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-semibold">Files</Label>
+
+      {files.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No files attached</p>
+      ) : (
+        <div className="space-y-2">
+          {files.map((file) => (
+            <div
+              key={file.id}
+              className="flex items-center justify-between border rounded-lg p-2 bg-card"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{file.fileTitle || file.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(file.fileSize)} · {file.uploadedBy} · {file.uploadedAt}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {isPreviewableContentType(file.contentType) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPreviewFile(file)}
+                    className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                  >
+                    <Eye className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  asChild
+                  className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                >
+                  <a href={getFileHref(file.id, 'attachment')}>
+                    <Download className="h-3.5 w-3.5" />
+                  </a>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setHistoryFile(file)}
+                  className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                >
+                  <History className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Preview Dialog */}
+      <Dialog open={previewFile !== null} onOpenChange={(open) => !open && setPreviewFile(null)}>
+        <DialogContent className="sm:max-w-[900px] h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{previewFile?.fileTitle || previewFile?.fileName}</DialogTitle>
+            <DialogDescription>{previewFile?.fileName}</DialogDescription>
+          </DialogHeader>
+          {previewFile &&
+            (isImageContentType(previewFile.contentType) ? (
+              <div className="flex-1 overflow-auto flex items-center justify-center">
+                {/* eslint-disable-next-line @next/next/no-img-element -- authenticated stream, not optimisable */}
+                <img
+                  src={getFileHref(previewFile.id, 'inline')}
+                  alt={previewFile.fileName}
+                  className="max-w-full max-h-full object-contain"
+                />
+              </div>
+            ) : (
+              <iframe
+                src={getFileHref(previewFile.id, 'inline')}
+                title={previewFile.fileName}
+                className="flex-1 w-full rounded border"
+              />
+            ))}
+        </DialogContent>
+      </Dialog>
+
+      {/* Access History Dialog */}
+      <Dialog
+        open={historyFile !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setHistoryFile(null);
+            setAccesses([]);
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Access History</DialogTitle>
+            <DialogDescription>
+              Who has opened {historyFile?.fileTitle || historyFile?.fileName}
+            </DialogDescription>
+          </DialogHeader>
+          {accesses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This file has not been opened</p>
+          ) : (
+            <div className="space-y-1 max-h-[400px] overflow-y-auto">
+              {accesses.map((access) => (
+                <div key={access.id} className="flex items-center justify-between text-sm py-1">
+                  <span>{access.accessedBy}</span>
+                  <span className="text-muted-foreground">
+                    {access.accessType === 'PREVIEW' ? 'Previewed' : 'Downloaded'} ·{' '}
+                    {new Date(access.accessedAt).toLocaleString('en-GB')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
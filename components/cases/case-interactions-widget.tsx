@@ -2,10 +2,12 @@
 
 import { useState, useEffect } from 'react';
 
-import { Plus, User, Calendar, Trash2, Paperclip, Flag, ChevronDown, ChevronRight } from 'lucide-react';
+import { Plus, User, Calendar, Trash2, Paperclip, Flag, ChevronDown, ChevronRight, Clock } from 'lucide-react';
 import { toast } from 'sonner';
 
 import { FileUploadModal } from '@/components/cases/file-upload-modal';
+import { TimeEntriesDialog, formatDuration } from '@/components/cases/time-entries-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -38,6 +40,22 @@ import {
   unsetActiveAction,
 } from '@/app/admin/(protected)/clients/[id]/cases/actions';
 
+import type { InteractionDirection, InteractionType } from '@prisma/client';
+
+export const INTERACTION_TYPE_LABELS: Record<InteractionType, string> = {
+  PHONE_CALL: 'Phone call',
+  VIDEO_CALL: 'Video call',
+  MEETING: 'Meeting',
+  EMAIL: 'Email',
+  LETTER: 'Letter',
+  NOTE: 'Note',
+};
+
+export const INTERACTION_DIRECTION_LABELS: Record<InteractionDirection, string> = {
+  INBOUND: 'Inbound',
+  OUTBOUND: 'Outbound',
+};
+
 interface Interaction {
   id: number;
   party1Name: string;
@@ -46,17 +64,23 @@ interface Interaction {
   party2Type: string;
   date: string;
   content: string;
+  type: string;
+  direction: string | null;
+  startedAt: string;
+  durationMinutes: number | null;
   fileCount: number;
   isActiveAction?: boolean;
   actionRequired?: string | null;
   actionRequiredBy?: string | null;
   actionRequiredByDate?: string | null;
+  totalMinutes?: number;
 }
 
 interface CaseInteractionsWidgetProps {
   caseId: string; // String case ID for display (e.g., "CASE-0001")
   caseNumericId: number; // Numeric case ID for database operations
   clientId: number;
+  refreshKey?: number; // Changing it reloads the interactions
 }
 
 interface AdminUser {
@@ -70,11 +94,36 @@ const MOCK_CONTRACTORS = [
   'Sue Butterworth',
 ];
 
+/**
+ * Convert an ISO date-time to the local value of a datetime-local input
+ */
+function toDateTimeLocal(value: string): string {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Summarise how an interaction took place, e.g. "Phone call · Inbound · 15m"
+ */
+function getChannelSummary(interaction: Interaction): string {
+  const parts = [INTERACTION_TYPE_LABELS[interaction.type as InteractionType] || interaction.type];
+  if (interaction.direction) {
+    parts.push(INTERACTION_DIRECTION_LABELS[interaction.direction as InteractionDirection]);
+  }
+  if (interaction.durationMinutes) {
+    parts.push(formatDuration(interaction.durationMinutes));
+  }
+  return parts.join(' · ');
+}
+
 /**
  * Case Interactions Widget
  * Shows interaction log for a case and allows adding new interactions
  */
-export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: CaseInteractionsWidgetProps) {
+export function CaseInteractionsWidget({ caseId, caseNumericId, clientId, refreshKey = 0 }: CaseInteractionsWidgetProps) {
+  const canManageInteractions = usePermission('manage_interactions');
+  const canUploadFiles = usePermission('manage_case_files');
   const [interactions, setInteractions] = useState<Interaction[]>([]);
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -84,6 +133,13 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
   const [expandedInteractions, setExpandedInteractions] = useState<Set<number>>(new Set());
   const [editingInteraction, setEditingInteraction] = useState<Interaction | null>(null);
+  const [timeInteractionId, setTimeInteractionId] = useState<number | null>(null);
+
+  // Channel state
+  const [interactionType, setInteractionType] = useState<InteractionType>('PHONE_CALL');
+  const [direction, setDirection] = useState<InteractionDirection | ''>('');
+  const [startedAt, setStartedAt] = useState(''); // Empty = now
+  const [durationMinutes, setDurationMinutes] = useState('');
 
   // First party state
   const [party1Type, setParty1Type] = useState<'ARGAN' | 'CLIENT' | 'CONTRACTOR' | 'EMPLOYEE' | 'THIRD_PARTY'>('ARGAN');
@@ -120,7 +176,7 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
   }, []);
 
   /**
-   * Load interactions when case changes
+   * Load interactions when case changes or a refresh is requested
    */
   useEffect(() => {
     const loadInteractions = async () => {
@@ -136,7 +192,7 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
     };
 
     loadInteractions();
-  }, [caseNumericId]);
+  }, [caseNumericId, refreshKey]);
 
   /**
    * Handle adding a new interaction
@@ -170,6 +226,10 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
         party2Name,
         party2Type,
         content: newInteractionText.trim(),
+        type: interactionType,
+        direction: direction || null,
+        startedAt: startedAt ? new Date(startedAt).toISOString() : null,
+        durationMinutes: durationMinutes ? Number(durationMinutes) : null,
         actionRequired: actionRequired.trim() || null,
         actionRequiredBy: actionRequiredBy || null,
         actionRequiredByDate: noDateNeeded ? null : (actionRequiredByDate || null),
@@ -182,6 +242,10 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
 
         // Reset form
         setNewInteractionText('');
+        setInteractionType('PHONE_CALL');
+        setDirection('');
+        setStartedAt('');
+        setDurationMinutes('');
         setParty1ArganUser('');
         setParty1Contractor('');
         setParty1FreeText('');
@@ -238,6 +302,10 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
 
     // Populate form fields with interaction data
     setNewInteractionText(interaction.content);
+    setInteractionType(interaction.type as InteractionType);
+    setDirection((interaction.direction as InteractionDirection) || '');
+    setStartedAt(toDateTimeLocal(interaction.startedAt));
+    setDurationMinutes(interaction.durationMinutes ? String(interaction.durationMinutes) : '');
     setActionRequired(interaction.actionRequired || '');
     setActionRequiredBy((interaction.actionRequiredBy as 'ARGAN' | 'CLIENT' | 'CONTRACTOR' | 'EMPLOYEE' | 'THIRD_PARTY') || '');
     setActionRequiredByDate(interaction.actionRequiredByDate || '');
@@ -299,6 +367,10 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
         party2Name,
         party2Type,
         content: newInteractionText.trim(),
+        type: interactionType,
+        direction: direction || null,
+        startedAt: startedAt ? new Date(startedAt).toISOString() : undefined,
+        durationMinutes: durationMinutes ? Number(durationMinutes) : null,
         actionRequired: actionRequired.trim() || null,
         actionRequiredBy: actionRequiredBy || null,
         actionRequiredByDate: noDateNeeded ? null : (actionRequiredByDate || null),
@@ -307,12 +379,16 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
       if (result.success && result.data) {
         // Update the interaction in the list
         setInteractions(interactions.map(i =>
-          i.id === editingInteraction.id ? result.data! : i
+          i.id === editingInteraction.id ? { ...result.data!, totalMinutes: i.totalMinutes } : i
         ));
         toast.success('Interaction updated successfully');
 
         // Reset form and close dialog
         setNewInteractionText('');
+        setInteractionType('PHONE_CALL');
+        setDirection('');
+        setStartedAt('');
+        setDurationMinutes('');
         setParty1ArganUser('');
         setParty1Contractor('');
         setParty1FreeText('');
@@ -431,17 +507,19 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
       <Card className="bg-muted/50">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
           <CardTitle>Interaction Log</CardTitle>
-          <Button
-            size="sm"
-            onClick={() => {
-              setEditingInteraction(null);
-              setIsDialogOpen(true);
-            }}
-            className="h-8"
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            Add Interaction
-          </Button>
+          {canManageInteractions && (
+            <Button
+              size="sm"
+              onClick={() => {
+                setEditingInteraction(null);
+                setIsDialogOpen(true);
+              }}
+              className="h-8"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Interaction
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           {interactions.length === 0 ? (
@@ -452,17 +530,19 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
               <p className="text-sm text-muted-foreground mb-4">
                 No interactions recorded yet
               </p>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => {
-                  setEditingInteraction(null);
-                  setIsDialogOpen(true);
-                }}
-              >
-                <Plus className="mr-2 h-4 w-4" />
-                Add First Interaction
-              </Button>
+              {canManageInteractions && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setEditingInteraction(null);
+                    setIsDialogOpen(true);
+                  }}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add First Interaction
+                </Button>
+              )}
             </div>
           ) : (
             <div className="space-y-3 max-h-[600px] overflow-y-auto">
@@ -472,7 +552,14 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
                   <div
                     key={interaction.id}
                     className={`border border-green-700 rounded-lg p-3 bg-card hover:shadow-sm transition-shadow group relative ${!isExpanded ? 'cursor-pointer' : ''}`}
-                    onClick={() => !isExpanded && handleEditInteraction(interaction)}
+                    onClick={() => {
+                      if (isExpanded) return;
+                      if (canManageInteractions) {
+                        handleEditInteraction(interaction);
+                      } else {
+                        toggleExpanded(interaction.id);
+                      }
+                    }}
                   >
                     {/* Chevron button in top left */}
                     <Button
@@ -507,6 +594,7 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
                             : 'opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground'
                         }`}
                         title={interaction.isActiveAction ? 'Clear active action' : 'Set as active action'}
+                        disabled={!canManageInteractions}
                       >
                         <Flag className={`h-3.5 w-3.5 ${interaction.isActiveAction ? 'fill-current' : ''}`} />
                       </Button>
@@ -515,35 +603,62 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
                         size="icon"
                         onClick={(e) => {
                           e.stopPropagation();
-                          setUploadInteractionId(interaction.id);
-                          setIsUploadModalOpen(true);
+                          setTimeInteractionId(interaction.id);
                         }}
-                        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
-                      >
-                        <Paperclip className="h-3.5 w-3.5" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteInteraction(interaction.id);
-                        }}
-                        className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity text-destructive hover:text-destructive hover:bg-destructive/10"
+                        className={`h-7 w-7 transition-opacity ${
+                          interaction.totalMinutes
+                            ? 'text-blue-600 hover:text-blue-700'
+                            : 'opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground'
+                        }`}
+                        title={
+                          interaction.totalMinutes
+                            ? `Time spent: ${formatDuration(interaction.totalMinutes)}`
+                            : 'Record time spent'
+                        }
                       >
-                        <Trash2 className="h-3.5 w-3.5" />
+                        <Clock className="h-3.5 w-3.5" />
                       </Button>
+                      {canUploadFiles && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setUploadInteractionId(interaction.id);
+                            setIsUploadModalOpen(true);
+                          }}
+                          className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-foreground"
+                        >
+                          <Paperclip className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                      {canManageInteractions && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteInteraction(interaction.id);
+                          }}
+                          className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity text-destructive hover:text-destructive hover:bg-destructive/10"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
                     </div>
 
                     {/* Content area with padding to avoid buttons on both sides */}
-                    <div className="pl-10 pr-28 space-y-3">
+                    <div className="pl-10 pr-36 space-y-3">
                       {/* Interaction Between section - always visible */}
                       <div className="border rounded-lg p-3 bg-muted/30">
                         {isExpanded ? (
                           <>
                             {/* Expanded view - header with date */}
                             <div className="flex items-center justify-between mb-2">
-                              <span className="text-sm font-semibold">Interaction Between...</span>
+                              <div className="flex items-center gap-2">
+                                <span className="text-sm font-semibold">Interaction Between...</span>
+                                <span className="text-[11px] text-muted-foreground">{getChannelSummary(interaction)}</span>
+                              </div>
                               <div className="flex items-center gap-1 text-[11px] text-muted-foreground">
                                 <Calendar className="h-3 w-3" />
                                 <span>{interaction.date}</span>
@@ -575,8 +690,9 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
                             {/* Col 1: 1fr (equal) | Col 2: arrow width | Col 3: 1fr (equal) | Col 4: fixed 110px for badge/date */}
                             <div className="grid grid-cols-[1fr_auto_1fr_110px] grid-rows-2 gap-x-2 gap-y-1 h-[75px]">
                               {/* Row 1, Col 1-3: "Interaction Between..." spans 3 columns */}
-                              <div className="col-start-1 col-span-3 row-start-1 flex items-center">
+                              <div className="col-start-1 col-span-3 row-start-1 flex items-center gap-2">
                                 <span className="text-sm font-semibold">Interaction Between...</span>
+                                <span className="text-[11px] text-muted-foreground">{getChannelSummary(interaction)}</span>
                               </div>
 
                               {/* Row 1, Col 4: Action Badge */}
@@ -648,6 +764,15 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
                             </div>
                           )}
 
+                          {/* Time Spent */}
+                          {!!interaction.totalMinutes && (
+                            <div className="flex items-center gap-1 pb-2 border-b text-xs text-muted-foreground">
+                              <Clock className="h-3 w-3" />
+                              <span className="font-semibold">Time Spent:</span>
+                              <span>{formatDuration(interaction.totalMinutes)}</span>
+                            </div>
+                          )}
+
                           {/* Interaction Details */}
                           <div className="space-y-1">
                             <span className="text-[11px] font-semibold text-muted-foreground">Interaction Details:</span>
@@ -681,8 +806,77 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4 overflow-y-auto flex-1">
-            {/* Interaction Between */}
+            {/* Channel */}
             <div className="space-y-3">
+              <Label className="text-base font-semibold">Channel</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <Select
+                  value={interactionType}
+                  onValueChange={(value) => {
+                    setInteractionType(value as InteractionType);
+                    if (value === 'NOTE') setDirection('');
+                  }}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select interaction type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTERACTION_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={direction}
+                  onValueChange={(value) => setDirection(value as InteractionDirection)}
+                  disabled={interactionType === 'NOTE'}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Inbound or outbound" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INTERACTION_DIRECTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="interaction-started-at" className="text-sm">Date &amp; Time</Label>
+                  <Input
+                    id="interaction-started-at"
+                    type="datetime-local"
+                    value={startedAt}
+                    onChange={(e) => setStartedAt(e.target.value)}
+                    className="w-full"
+                  />
+                  {!startedAt && (
+                    <p className="text-xs text-muted-foreground">Leave empty for now</p>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="interaction-duration" className="text-sm">Duration (minutes)</Label>
+                  <Input
+                    id="interaction-duration"
+                    type="number"
+                    min={1}
+                    step={1}
+                    placeholder="e.g. 15"
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(e.target.value)}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Interaction Between */}
+            <div className="space-y-3 pt-2 border-t">
               <Label className="text-base font-semibold">Interaction Between</Label>
 
               {/* First Party */}
@@ -980,6 +1174,12 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
                 </div>
               </div>
 
+              {/* Channel */}
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold text-muted-foreground">Channel</Label>
+                <p className="text-sm">{getChannelSummary(viewingInteraction)}</p>
+              </div>
+
               {/* Full content */}
               <div className="space-y-2">
                 <Label className="text-sm font-semibold text-muted-foreground">Interaction Details</Label>
@@ -999,6 +1199,22 @@ export function CaseInteractionsWidget({ caseId, caseNumericId, clientId }: Case
         </DialogContent>
       </Dialog>
 
+      {/* Time Entries Dialog */}
+      <TimeEntriesDialog
+        open={timeInteractionId !== null}
+        onOpenChange={(open) => {
+          if (!open) setTimeInteractionId(null);
+        }}
+        caseId={caseId}
+        clientId={clientId}
+        interactionId={timeInteractionId}
+        onTotalChange={(interactionId, totalMinutes) => {
+          setInteractions((prev) =>
+            prev.map((i) => (i.id === interactionId ? { ...i, totalMinutes } : i))
+          );
+        }}
+      />
+
       {/* File Upload Modal */}
       <FileUploadModal
         open={isUploadModalOpen}
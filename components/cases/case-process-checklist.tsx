@@ -0,0 +1,360 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { CheckCircle2, Circle, FileText, SkipForward } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { getCurrentProcessStep, PROCESS_TEMPLATES } from '@/lib/utils/business/case-process';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+import {
+  completeProcessStep,
+  getCaseProcesses,
+  startCaseProcess,
+} from '@/app/admin/(protected)/clients/[id]/cases/actions';
+
+import type { CaseProcessItem, CaseProcessStepItem } from '@/lib/types/case-process';
+import type { CaseTypeValue } from '@/lib/utils/business/case-types';
+import type { ProcessTemplate } from '@prisma/client';
+
+interface CaseProcessChecklistProps {
+  caseId: number;
+  clientId: number;
+  caseType: CaseTypeValue | null;
+  caseStatus: string;
+  onProcessChanged?: () => void; // Called after a step logs an interaction
+}
+
+/**
+ * Format a YYYY-MM-DD date for display
+ */
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString('en-GB', { timeZone: 'UTC' });
+}
+
+/**
+ * Today as YYYY-MM-DD, for spotting overdue steps
+ */
+function getToday(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Case Process Checklist
+ * Guided process steps on a case - start a process from a template, then complete or
+ * skip each step in turn
+ */
+export function CaseProcessChecklist({
+  caseId,
+  clientId,
+  caseType,
+  caseStatus,
+  onProcessChanged,
+}: CaseProcessChecklistProps) {
+  const canStartProcess = usePermission('update_case');
+  const canCompleteSteps = usePermission('manage_interactions');
+  const [processes, setProcesses] = useState<CaseProcessItem[]>([]);
+  const [template, setTemplate] = useState<ProcessTemplate | ''>('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [stepAction, setStepAction] = useState<{ step: CaseProcessStepItem; skip: boolean } | null>(
+    null
+  );
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadProcesses = async () => {
+      const result = await getCaseProcesses(caseId);
+      if (result.success && result.data) {
+        setProcesses(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load processes');
+      }
+    };
+
+    loadProcesses();
+  }, [caseId]);
+
+  /**
+   * Suggest the template meant for the case's type
+   */
+  useEffect(() => {
+    const suggested = Object.entries(PROCESS_TEMPLATES).find(
+      ([, definition]) => definition.caseType === caseType
+    );
+    setTemplate(suggested ? (suggested[0] as ProcessTemplate) : '');
+  }, [caseType]);
+
+  /**
+   * Put the latest state of a process in the list - new processes go first
+   */
+  const replaceProcess = (process: CaseProcessItem) => {
+    setProcesses((prev) =>
+      prev.some((other) => other.id === process.id)
+        ? prev.map((other) => (other.id === process.id ? process : other))
+        : [process, ...prev]
+    );
+  };
+
+  /**
+   * Start the selected process
+   */
+  const handleStart = async () => {
+    if (!template) return;
+
+    setIsStarting(true);
+    const result = await startCaseProcess(caseId, template, clientId);
+    setIsStarting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to start process');
+      return;
+    }
+
+    toast.success(`${result.data.label} started`);
+    replaceProcess(result.data);
+    onProcessChanged?.();
+  };
+
+  /**
+   * Close the complete / skip dialog
+   */
+  const handleDialogOpenChange = (open: boolean) => {
+    if (isSaving) return;
+    if (!open) {
+      setStepAction(null);
+      setNote('');
+    }
+  };
+
+  /**
+   * Complete or skip the current step
+   */
+  const handleStepSave = async () => {
+    if (!stepAction) return;
+
+    setIsSaving(true);
+    const result = await completeProcessStep(
+      stepAction.step.id,
+      { note: note.trim() || null, skip: stepAction.skip },
+      clientId
+    );
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to update step');
+      return;
+    }
+
+    toast.success(`${stepAction.step.title} ${stepAction.skip ? 'skipped' : 'completed'}`);
+    replaceProcess(result.data);
+    setStepAction(null);
+    setNote('');
+    onProcessChanged?.();
+  };
+
+  const inProgressTemplates = processes
+    .filter((process) => !process.completedAt)
+    .map((process) => process.template);
+  const availableTemplates = Object.entries(PROCESS_TEMPLATES).filter(
+    ([value]) => !inProgressTemplates.includes(value as ProcessTemplate)
+  );
+  const today = getToday();
+
+  if (processes.length === 0 && (!canStartProcess || caseStatus === 'CLOSED')) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold">Process</Label>
+
+      {processes.map((process) => {
+        const currentStep = getCurrentProcessStep(process.steps);
+        const doneCount = process.steps.filter((step) => step.status !== 'PENDING').length;
+
+        return (
+          <div key={process.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">{process.label}</span>
+              <span className="text-xs text-muted-foreground">
+                {process.completedAt ? 'Complete' : `${doneCount} of ${process.steps.length} done`}
+              </span>
+            </div>
+
+            <ol className="space-y-2">
+              {process.steps.map((step) => {
+                const isCurrent = currentStep?.id === step.id;
+                const isOverdue = step.status === 'PENDING' && step.dueDate < today;
+
+                return (
+                  <li
+                    key={step.id}
+                    className={`flex gap-2 rounded p-2 ${isCurrent ? 'bg-background border' : ''}`}
+                  >
+                    {step.status === 'COMPLETED' ? (
+                      <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                    ) : step.status === 'SKIPPED' ? (
+                      <SkipForward className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Circle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <div className="flex items-center justify-between gap-2">
+                        <span
+                          className={`text-sm ${step.status === 'SKIPPED' ? 'line-through text-muted-foreground' : ''}`}
+                        >
+                          {step.title}
+                        </span>
+                        <span className="text-[11px] text-muted-foreground whitespace-nowrap">
+                          {step.actionParty}
+                          {step.status === 'PENDING' && (
+                            <span className={isOverdue ? 'text-red-600 font-medium' : ''}>
+                              {' '}
+                              · due {formatDate(step.dueDate)}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      {isCurrent && step.description && (
+                        <p className="text-xs text-muted-foreground">{step.description}</p>
+                      )}
+                      {step.documentTemplate && (
+                        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <FileText className="h-3 w-3" />
+                          {step.documentTemplate}
+                        </p>
+                      )}
+                      {step.completedBy && step.completedAt && (
+                        <p className="text-xs text-muted-foreground">
+                          {step.status === 'SKIPPED' ? 'Skipped' : 'Completed'} by{' '}
+                          {step.completedBy} on{' '}
+                          {new Date(step.completedAt).toLocaleDateString('en-GB')}
+                        </p>
+                      )}
+                      {step.note && <p className="text-xs whitespace-pre-wrap">{step.note}</p>}
+                      {isCurrent && canCompleteSteps && (
+                        <div className="flex gap-2 pt-1">
+                          <Button
+                            size="sm"
+                            className="h-7"
+                            onClick={() => setStepAction({ step, skip: false })}
+                          >
+                            Complete
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7"
+                            onClick={() => setStepAction({ step, skip: true })}
+                          >
+                            Skip
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        );
+      })}
+
+      {canStartProcess && caseStatus !== 'CLOSED' && availableTemplates.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={template} onValueChange={(value) => setTemplate(value as ProcessTemplate)}>
+            <SelectTrigger className="h-8 flex-1 text-sm">
+              <SelectValue placeholder="Select a process" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTemplates.map(([value, definition]) => (
+                <SelectItem key={value} value={value}>
+                  {definition.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            className="h-8"
+            onClick={handleStart}
+            disabled={
+              isStarting || !template || inProgressTemplates.includes(template as ProcessTemplate)
+            }
+          >
+            {isStarting ? 'Starting...' : 'Start Process'}
+          </Button>
+        </div>
+      )}
+
+      {/* Complete / Skip Step Dialog */}
+      <Dialog open={stepAction !== null} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {stepAction?.skip ? 'Skip' : 'Complete'} {stepAction?.step.title}
+            </DialogTitle>
+            <DialogDescription>
+              An interaction is logged on the case and the next step becomes the active action.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-2">
+            <Label htmlFor="process-step-note">
+              {stepAction?.skip ? 'Reason' : 'Note (optional)'}
+            </Label>
+            <Textarea
+              id="process-step-note"
+              placeholder={
+                stepAction?.skip
+                  ? 'e.g. Employee did not appeal'
+                  : 'e.g. Hearing held, minutes on file'
+              }
+              className="min-h-[100px] resize-none"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => handleDialogOpenChange(false)}
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleStepSave}
+              disabled={isSaving || (stepAction?.skip === true && !note.trim())}
+            >
+              {isSaving ? 'Saving...' : stepAction?.skip ? 'Skip Step' : 'Complete Step'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
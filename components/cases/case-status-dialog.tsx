@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+import { updateCase } from '@/app/admin/(protected)/clients/[id]/cases/actions';
+
+import type { CaseOutcome, CaseStatus } from '@prisma/client';
+
+export const CASE_OUTCOME_LABELS: Record<CaseOutcome, string> = {
+  RESOLVED: 'Resolved',
+  SETTLED: 'Settled',
+  TRIBUNAL: 'Tribunal',
+  WITHDRAWN: 'Withdrawn',
+  OTHER: 'Other',
+};
+
+interface CaseStatusDialogProps {
+  caseId: string; // String case ID for display (e.g., "CASE-0001")
+  caseNumericId: number;
+  toStatus: CaseStatus | null; // Status being moved to; null hides the dialog
+  onOpenChange: (open: boolean) => void;
+  onStatusChanged: () => void;
+}
+
+/**
+ * Case Status Dialog
+ * Asks for the reason (and outcome when closing) before closing or reopening a case
+ */
+export function CaseStatusDialog({
+  caseId,
+  caseNumericId,
+  toStatus,
+  onOpenChange,
+  onStatusChanged,
+}: CaseStatusDialogProps) {
+  const [reason, setReason] = useState('');
+  const [outcome, setOutcome] = useState<CaseOutcome | ''>('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const closing = toStatus === 'CLOSED';
+
+  /**
+   * Reset the form whenever the dialog closes
+   */
+  const handleOpenChange = (open: boolean) => {
+    if (isSaving) return;
+    if (!open) {
+      setReason('');
+      setOutcome('');
+    }
+    onOpenChange(open);
+  };
+
+  /**
+   * Save the status change
+   */
+  const handleSave = async () => {
+    if (!toStatus) return;
+
+    setIsSaving(true);
+    const result = await updateCase(caseNumericId, {
+      status: toStatus,
+      statusReason: reason.trim(),
+      outcome: closing ? outcome || null : null,
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to change status');
+      return;
+    }
+
+    toast.success(closing ? `${caseId} closed` : `${caseId} reopened`);
+    setReason('');
+    setOutcome('');
+    onOpenChange(false);
+    onStatusChanged();
+  };
+
+  return (
+    <Dialog open={toStatus !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{closing ? `Close ${caseId}` : `Reopen ${caseId}`}</DialogTitle>
+          <DialogDescription>
+            {closing
+              ? 'Record how the case ended and why it is being closed.'
+              : `Record why the case is being reopened. It will be set to ${toStatus}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {closing && (
+            <div className="space-y-2">
+              <Label htmlFor="case-outcome">Outcome</Label>
+              <Select value={outcome} onValueChange={(value) => setOutcome(value as CaseOutcome)}>
+                <SelectTrigger id="case-outcome" className="w-full">
+                  <SelectValue placeholder="Select an outcome" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CASE_OUTCOME_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="case-status-reason">Reason</Label>
+            <Textarea
+              id="case-status-reason"
+              placeholder={
+                closing ? 'e.g. Grievance upheld and resolved' : 'e.g. Employee has appealed'
+              }
+              className="min-h-[100px] resize-none"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !reason.trim() || (closing && !outcome)}
+          >
+            {isSaving ? 'Saving...' : closing ? 'Close Case' : 'Reopen Case'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { toast } from 'sonner';
+
+import { CASE_OUTCOME_LABELS } from '@/components/cases/case-status-dialog';
+import { Label } from '@/components/ui/label';
+
+import { getCaseStatusHistory } from '@/app/admin/(protected)/clients/[id]/cases/actions';
+
+import type { CaseStatusHistory } from '@/lib/types/case';
+
+interface CaseStatusTimelineProps {
+  caseId: number;
+  refreshKey?: number;
+}
+
+/**
+ * Get status dot color
+ */
+function getStatusDotColor(status: string): string {
+  switch (status) {
+    case 'OPEN':
+      return 'bg-green-500';
+    case 'AWAITING':
+      return 'bg-amber-500';
+    case 'CLOSED':
+      return 'bg-red-500';
+    default:
+      return 'bg-gray-500';
+  }
+}
+
+/**
+ * Format hours as "3d 4h", "5h" or "< 1h"
+ */
+function formatHours(hours: number): string {
+  if (hours < 1) return '< 1h';
+
+  const days = Math.floor(hours / 24);
+  const remainder = Math.round(hours % 24);
+  if (days === 0) return `${remainder}h`;
+  return remainder === 0 ? `${days}d` : `${days}d ${remainder}h`;
+}
+
+/**
+ * Format an ISO timestamp for display
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Case Status Timeline
+ * Shows every status change of a case with who made it and why, plus time in each status
+ */
+export function CaseStatusTimeline({ caseId, refreshKey = 0 }: CaseStatusTimelineProps) {
+  const [history, setHistory] = useState<CaseStatusHistory | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      const result = await getCaseStatusHistory(caseId);
+      if (result.success && result.data) {
+        setHistory(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load status history');
+      }
+    };
+
+    loadHistory();
+  }, [caseId, refreshKey]);
+
+  if (!history) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">Status History</Label>
+        <span className="text-xs text-muted-foreground">
+          Open {formatHours(history.hoursInStatus.OPEN)} · Awaiting{' '}
+          {formatHours(history.hoursInStatus.AWAITING)}
+          {history.hoursToClose !== null && ` · Closed after ${formatHours(history.hoursToClose)}`}
+        </span>
+      </div>
+
+      <ol className="relative border-l ml-1.5 space-y-3">
+        {[...history.changes].reverse().map((change) => (
+          <li key={change.id} className="ml-4">
+            <div
+              className={`absolute -left-[5px] mt-1.5 h-2.5 w-2.5 rounded-full ${getStatusDotColor(change.toStatus)}`}
+            />
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">
+                {change.fromStatus
+                  ? `${change.fromStatus} → ${change.toStatus}`
+                  : `Opened as ${change.toStatus}`}
+                {change.outcome && (
+                  <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded bg-muted text-xs font-medium">
+                    {CASE_OUTCOME_LABELS[change.outcome]}
+                  </span>
+                )}
+              </span>
+              <span className="text-[11px] text-muted-foreground whitespace-nowrap">
+                {formatDateTime(change.changedAt)}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">by {change.changedBy}</p>
+            {change.reason && <p className="text-xs mt-1 whitespace-pre-wrap">{change.reason}</p>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
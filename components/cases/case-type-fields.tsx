@@ -0,0 +1,167 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { toast } from 'sonner';
+
+import { CASE_TYPE_FIELDS, CASE_TYPE_LABELS } from '@/lib/utils/business/case-types';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import { updateCase } from '@/app/admin/(protected)/clients/[id]/cases/actions';
+
+import type { CaseTypeFieldsInput } from '@/lib/types/case';
+import type {
+  CaseFieldDefinition,
+  CaseTypeFieldValues,
+  CaseTypeValue,
+} from '@/lib/utils/business/case-types';
+
+interface CaseTypeFieldsProps {
+  caseId: number;
+  type: CaseTypeValue;
+  values: CaseTypeFieldValues;
+  disabled?: boolean;
+}
+
+/**
+ * Stored values as form input strings - '' for an empty field
+ */
+function toDraft(values: CaseTypeFieldValues): Record<string, string> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)]));
+}
+
+/**
+ * Form input strings as field values to save - empty fields are left out
+ */
+function fromDraft(
+  fields: CaseFieldDefinition[],
+  draft: Record<string, string>
+): CaseTypeFieldsInput {
+  const values: CaseTypeFieldsInput = {};
+
+  for (const field of fields) {
+    const value = draft[field.key]?.trim();
+    if (!value) continue;
+
+    if (field.kind === 'number') {
+      // An unparseable number is sent as typed so the server can reject it
+      values[field.key] = Number.isNaN(Number(value)) ? value : Number(value);
+    } else if (field.kind === 'boolean') {
+      values[field.key] = value === 'true';
+    } else {
+      values[field.key] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Case Type Fields
+ * Editable structured fields for the case's type - text, number and date fields save
+ * on blur, select and yes/no fields save immediately
+ */
+export function CaseTypeFields({ caseId, type, values, disabled = false }: CaseTypeFieldsProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<Record<string, string>>(() => toDraft(values));
+
+  const fields = CASE_TYPE_FIELDS[type];
+
+  /**
+   * Sync local state when the saved values change
+   */
+  useEffect(() => {
+    setDraft(toDraft(values));
+  }, [values]);
+
+  /**
+   * Save all fields with one field changed
+   */
+  const saveField = async (key: string, value: string) => {
+    const nextDraft = { ...draft, [key]: value };
+    setDraft(nextDraft);
+
+    if ((toDraft(values)[key] || '') === value.trim()) return;
+
+    try {
+      const result = await updateCase(caseId, { typeFields: fromDraft(fields, nextDraft) });
+      if (result.success) {
+        router.refresh();
+      } else {
+        toast.error(result.error || 'Failed to save changes');
+      }
+    } catch {
+      toast.error('An unexpected error occurred');
+    }
+  };
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="space-y-4 pt-2 border-t">
+      <Label className="text-sm font-semibold">{CASE_TYPE_LABELS[type]} Details</Label>
+
+      {fields.map((field) => (
+        <div key={field.key} className="grid grid-cols-3 gap-2 items-center">
+          <Label
+            htmlFor={`case-field-${field.key}`}
+            className="text-sm font-semibold text-muted-foreground"
+          >
+            {field.label}
+          </Label>
+          <div className="col-span-2">
+            {field.kind === 'select' || field.kind === 'boolean' ? (
+              <Select
+                value={draft[field.key] || 'none'}
+                disabled={disabled}
+                onValueChange={(value) => saveField(field.key, value === 'none' ? '' : value)}
+              >
+                <SelectTrigger id={`case-field-${field.key}`} className="h-8 w-full text-sm">
+                  <SelectValue placeholder="-" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">-</SelectItem>
+                  {field.kind === 'boolean' ? (
+                    <>
+                      <SelectItem value="true">Yes</SelectItem>
+                      <SelectItem value="false">No</SelectItem>
+                    </>
+                  ) : (
+                    field.options?.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={`case-field-${field.key}`}
+                type={field.kind === 'text' ? 'text' : field.kind}
+                min={field.kind === 'number' ? 0 : undefined}
+                step={field.kind === 'number' ? 'any' : undefined}
+                value={draft[field.key] || ''}
+                onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+                onBlur={(e) => saveField(field.key, e.target.value)}
+                className="h-8 text-sm"
+                disabled={disabled}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
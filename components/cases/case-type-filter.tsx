@@ -0,0 +1,106 @@
+'use client';
+
+import { Filter } from 'lucide-react';
+
+import { CASE_TYPE_LABELS, getFilterableCaseFields } from '@/lib/utils/business/case-types';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+import type { CaseTypeValue } from '@/lib/utils/business/case-types';
+
+interface CaseTypeFilterProps {
+  selectedTypes: string[];
+  fieldFilters: Record<string, string[]>; // Accepted values per field key
+  onToggleType: (type: string) => void;
+  onToggleField: (key: string, value: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Case Type Filter
+ * Column filter for the case lists - filters by case type and, when a single type is
+ * selected, by that type's select and yes/no fields
+ */
+export function CaseTypeFilter({
+  selectedTypes,
+  fieldFilters,
+  onToggleType,
+  onToggleField,
+  onClear,
+}: CaseTypeFilterProps) {
+  const fields =
+    selectedTypes.length === 1 ? getFilterableCaseFields(selectedTypes[0] as CaseTypeValue) : [];
+  const isActive =
+    selectedTypes.length > 0 || Object.values(fieldFilters).some((values) => values.length > 0);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className="p-1 hover:bg-muted rounded">
+          <Filter
+            className={`h-3.5 w-3.5 ${isActive ? 'text-primary' : 'text-muted-foreground'}`}
+          />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 max-h-[400px] overflow-y-auto" align="center">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Filter Type</span>
+            {isActive && (
+              <button
+                className="text-xs text-muted-foreground hover:text-foreground"
+                onClick={onClear}
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {Object.entries(CASE_TYPE_LABELS).map(([value, label]) => (
+            <div key={value} className="flex items-center space-x-2">
+              <Checkbox
+                id={`caseType-${value}`}
+                checked={selectedTypes.includes(value)}
+                onCheckedChange={() => onToggleType(value)}
+              />
+              <label htmlFor={`caseType-${value}`} className="text-sm cursor-pointer">
+                {label}
+              </label>
+            </div>
+          ))}
+
+          {fields.map((field) => {
+            const options =
+              field.kind === 'boolean'
+                ? [
+                    { value: 'true', label: 'Yes' },
+                    { value: 'false', label: 'No' },
+                  ]
+                : (field.options || []).map((option) => ({ value: option, label: option }));
+
+            return (
+              <div key={field.key} className="space-y-2 pt-2 border-t">
+                <span className="text-sm font-medium">{field.label}</span>
+                {options.map((option) => (
+                  <div key={option.value} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`caseField-${field.key}-${option.value}`}
+                      checked={fieldFilters[field.key]?.includes(option.value) || false}
+                      onCheckedChange={() => onToggleField(field.key, option.value)}
+                    />
+                    <label
+                      htmlFor={`caseField-${field.key}-${option.value}`}
+                      className="text-sm cursor-pointer"
+                    >
+                      {option.label}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -7,6 +7,8 @@ import { Search } from 'lucide-react';
 import { ClientCasesList } from '@/components/cases/client-cases-list';
 import { Input } from '@/components/ui/input';
 
+import type { CaseTypeFieldValues, CaseTypeValue } from '@/lib/utils/business/case-types';
+
 export interface CaseData {
   id: number;
   caseId: string;
@@ -18,6 +20,8 @@ export interface CaseData {
   escalatedBy: string;
   assignedTo: string | null;
   description?: string | null;
+  type?: CaseTypeValue | null;
+  typeFields?: CaseTypeFieldValues;
   interactionCount?: number;
   fileCount?: number;
 }
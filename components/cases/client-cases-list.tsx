@@ -7,8 +7,14 @@ import { useRouter } from 'next/navigation';
 import { ArrowUpDown, ArrowUp, ArrowDown, Filter, Plus } from 'lucide-react';
 import { toast } from 'sonner';
 
+import { getStatusChangeRequirements } from '@/lib/utils/business/case-status';
+import { CASE_TYPE_LABELS, matchesCaseFieldFilters } from '@/lib/utils/business/case-types';
+
 import { CaseDetailsWidget } from '@/components/cases/case-details-widget';
 import { CaseInteractionsWidget } from '@/components/cases/case-interactions-widget';
+import { CaseStatusDialog } from '@/components/cases/case-status-dialog';
+import { CaseTypeFilter } from '@/components/cases/case-type-filter';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -42,10 +48,11 @@ import {
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 
+
 import { createCase, updateCase, getAdminUsers } from '@/app/admin/(protected)/clients/[id]/cases/actions';
 
 import type { CaseData } from '@/components/cases/cases-page-content';
-
+import type { CaseTypeValue } from '@/lib/utils/business/case-types';
 
 interface ClientCasesListProps {
   clientId: number;
@@ -67,8 +74,10 @@ interface AdminUser {
  */
 export function ClientCasesList({ clientId, clientName, cases, searchTerm = '', autoExpandCaseId }: ClientCasesListProps) {
   const router = useRouter();
+  const canCreateCase = usePermission('create_case');
+  const canUpdateCase = usePermission('update_case');
   const [selectedCase, setSelectedCase] = useState<CaseData | null>(null);
-  const [sortColumn, setSortColumn] = useState<'caseId' | 'title' | 'escalatedBy' | 'assignedTo' | 'creationDate' | 'status' | 'actionRequiredBy'>('status');
+  const [sortColumn, setSortColumn] = useState<'caseId' | 'title' | 'type' | 'escalatedBy' | 'assignedTo' | 'creationDate' | 'status' | 'actionRequiredBy'>('status');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
   // Filters state - stores selected values for each column
@@ -77,8 +86,15 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
     actionRequiredBy: [],
     assignedTo: [],
     escalatedBy: [],
+    type: [],
   });
 
+  // Case type field filters - only offered while a single case type is selected
+  const [fieldFilters, setFieldFilters] = useState<Record<string, string[]>>({});
+
+  // Bumped when the case details log an interaction (process steps) so the interactions reload
+  const [interactionsRefreshKey, setInteractionsRefreshKey] = useState(0);
+
   // Admin users state
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
 
@@ -87,11 +103,19 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
   const [newCaseTitle, setNewCaseTitle] = useState('');
   const [newCaseEscalatedBy, setNewCaseEscalatedBy] = useState('');
   const [newCaseAssignedTo, setNewCaseAssignedTo] = useState<string | null>(null);
-  const [newCaseStatus, setNewCaseStatus] = useState<'OPEN' | 'AWAITING' | 'CLOSED'>('OPEN');
+  const [newCaseStatus, setNewCaseStatus] = useState<'OPEN' | 'AWAITING'>('OPEN');
+  const [newCaseType, setNewCaseType] = useState<CaseTypeValue | null>(null);
   const [newCaseActionRequired, setNewCaseActionRequired] = useState<'ARGAN' | 'CLIENT' | 'CONTRACTOR' | 'EMPLOYEE'>('ARGAN');
   const [newCaseActionRequiredText, setNewCaseActionRequiredText] = useState('');
   const [newCaseDescription, setNewCaseDescription] = useState('');
 
+  // Close / reopen dialog state
+  const [statusChange, setStatusChange] = useState<{
+    id: number;
+    caseId: string;
+    status: 'OPEN' | 'AWAITING' | 'CLOSED';
+  } | null>(null);
+
   /**
    * Load admin users on mount
    */
@@ -205,10 +229,42 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
     }));
   };
 
+  /**
+   * Toggle a case type filter value
+   * Field filters belong to a single type, so they are cleared whenever the type filter changes
+   */
+  const toggleTypeFilter = (value: string) => {
+    toggleFilter('type', value);
+    setFieldFilters({});
+  };
+
+  /**
+   * Toggle a case type field filter value
+   */
+  const toggleFieldFilter = (key: string, value: string) => {
+    setFieldFilters(prev => {
+      const currentFilters = prev[key] || [];
+      return {
+        ...prev,
+        [key]: currentFilters.includes(value)
+          ? currentFilters.filter(v => v !== value)
+          : [...currentFilters, value],
+      };
+    });
+  };
+
+  /**
+   * Clear the case type and field filters
+   */
+  const clearTypeFilter = () => {
+    clearFilter('type');
+    setFieldFilters({});
+  };
+
   /**
    * Get unique values for a column
    */
-  const getUniqueValues = (column: keyof CaseData) => {
+  const getUniqueValues = (column: Exclude<keyof CaseData, 'typeFields'>) => {
     return [...new Set(cases.map(c => c[column]))].filter(Boolean).sort();
   };
 
@@ -241,6 +297,11 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
           }
         }
       }
+
+      // Apply case type field filters
+      if (!matchesCaseFieldFilters(caseItem.typeFields, fieldFilters)) {
+        return false;
+      }
       return true;
     });
 
@@ -262,6 +323,10 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
           aVal = a.title.toLowerCase();
           bVal = b.title.toLowerCase();
           break;
+        case 'type':
+          aVal = a.type ? CASE_TYPE_LABELS[a.type] : '';
+          bVal = b.type ? CASE_TYPE_LABELS[b.type] : '';
+          break;
         case 'escalatedBy':
           aVal = a.escalatedBy.toLowerCase();
           bVal = b.escalatedBy.toLowerCase();
@@ -317,7 +382,7 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
 
       return comparison;
     });
-  }, [cases, searchTerm, filters, sortColumn, sortDirection]);
+  }, [cases, searchTerm, filters, fieldFilters, sortColumn, sortDirection]);
 
   /**
    * Render sort icon based on current sort state
@@ -387,8 +452,17 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
   /**
    * Handle case status change
    */
-  const handleCaseStatusChange = async (id: number, caseId: string, newValue: string) => {
-    const result = await updateCase(id, { status: newValue as 'OPEN' | 'AWAITING' | 'CLOSED' });
+  const handleCaseStatusChange = async (id: number, caseId: string, newValue: 'OPEN' | 'AWAITING' | 'CLOSED') => {
+    const currentStatus = cases.find(c => c.id === id)?.status;
+    if (currentStatus === newValue) return;
+
+    // Closing and reopening ask for a reason first
+    if (currentStatus && getStatusChangeRequirements(currentStatus, newValue).reasonRequired) {
+      setStatusChange({ id, caseId, status: newValue });
+      return;
+    }
+
+    const result = await updateCase(id, { status: newValue });
 
     if (result.success) {
       toast.success(`Status changed to ${newValue}`);
@@ -412,6 +486,7 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
       escalatedBy: newCaseEscalatedBy,
       assignedTo: newCaseAssignedTo,
       status: newCaseStatus,
+      type: newCaseType,
       actionRequiredBy: newCaseActionRequired,
       actionRequired: newCaseActionRequiredText,
       description: newCaseDescription,
@@ -425,6 +500,7 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
       setNewCaseEscalatedBy('');
       setNewCaseAssignedTo(null);
       setNewCaseStatus('OPEN');
+      setNewCaseType(null);
       setNewCaseActionRequired('ARGAN');
       setNewCaseActionRequiredText('');
       setNewCaseDescription('');
@@ -442,14 +518,16 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
       <Card className="w-full border-0 shadow-none">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
           <CardTitle>Cases</CardTitle>
-          <Button
-            size="sm"
-            onClick={() => setIsNewCaseDialogOpen(true)}
-            className="h-9"
-          >
-            <Plus className="mr-2 h-4 w-4" />
-            Open New Case
-          </Button>
+          {canCreateCase && (
+            <Button
+              size="sm"
+              onClick={() => setIsNewCaseDialogOpen(true)}
+              className="h-9"
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Open New Case
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           {/* Scroll container - using the working pattern from minimal version */}
@@ -475,6 +553,24 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
                       {getSortIcon('title')}
                     </button>
                   </th>
+                  <th className="sticky top-0 bg-muted/90 backdrop-blur-sm p-3 text-center font-semibold border-b">
+                    <div className="flex items-center justify-center gap-2">
+                      <button
+                        className="flex items-center text-primary hover:text-primary/80 transition-colors"
+                        onClick={() => handleSort('type')}
+                      >
+                        Type
+                        {getSortIcon('type')}
+                      </button>
+                      <CaseTypeFilter
+                        selectedTypes={filters.type}
+                        fieldFilters={fieldFilters}
+                        onToggleType={toggleTypeFilter}
+                        onToggleField={toggleFieldFilter}
+                        onClear={clearTypeFilter}
+                      />
+                    </div>
+                  </th>
                   <th className="sticky top-0 bg-muted/90 backdrop-blur-sm p-3 text-center font-semibold border-b">
                     <div className="flex items-center justify-center gap-2">
                       <button
@@ -697,6 +793,20 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
                       {caseItem.title}
                     </td>
 
+                    {/* Case Type */}
+                    <td className="p-3 text-center">
+                      {caseItem.type ? (
+                        <div className="flex flex-col items-center">
+                          <span className="text-sm">{CASE_TYPE_LABELS[caseItem.type]}</span>
+                          {caseItem.typeFields?.stage && (
+                            <span className="text-xs text-muted-foreground">{String(caseItem.typeFields.stage)}</span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+
                     {/* Escalated By */}
                     <td className="p-3 text-center">
                       {caseItem.escalatedBy}
@@ -705,8 +815,8 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
                     {/* Assigned To */}
                     <td className="p-3 text-center" onClick={(e) => e.stopPropagation()}>
                       <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <button className="text-sm font-medium hover:underline cursor-pointer">
+                        <DropdownMenuTrigger asChild disabled={!canUpdateCase}>
+                          <button className="text-sm font-medium hover:underline cursor-pointer disabled:pointer-events-none">
                             {caseItem.assignedTo || '-'}
                           </button>
                         </DropdownMenuTrigger>
@@ -733,8 +843,8 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
                       <div className="flex items-center justify-center gap-2">
                         <div className={`h-2.5 w-2.5 rounded-full ${getStatusDotColor(caseItem.status)}`} />
                         <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <button className="text-sm hover:underline cursor-pointer">
+                          <DropdownMenuTrigger asChild disabled={!canUpdateCase}>
+                            <button className="text-sm hover:underline cursor-pointer disabled:pointer-events-none">
                               {caseItem.status}
                             </button>
                           </DropdownMenuTrigger>
@@ -757,8 +867,8 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
                     <td className="p-3 text-center" onClick={(e) => e.stopPropagation()}>
                       <div className="flex justify-center">
                         <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <button className={`inline-flex items-center justify-center px-3 py-1 rounded text-sm font-medium cursor-pointer transition-colors w-[110px] ${getActionRequiredColor(caseItem.actionRequiredBy)}`}>
+                          <DropdownMenuTrigger asChild disabled={!canUpdateCase}>
+                            <button className={`inline-flex items-center justify-center px-3 py-1 rounded text-sm font-medium cursor-pointer transition-colors w-[110px] disabled:pointer-events-none ${getActionRequiredColor(caseItem.actionRequiredBy)}`}>
                               {caseItem.actionRequiredBy || '-'}
                             </button>
                           </DropdownMenuTrigger>
@@ -806,9 +916,12 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
               escalatedBy: selectedCase.escalatedBy,
               assignedTo: selectedCase.assignedTo,
               description: selectedCase.description || null,
+              type: selectedCase.type ?? null,
+              typeFields: selectedCase.typeFields ?? {},
             }}
             clientId={clientId}
             onCaseDeleted={() => setSelectedCase(null)}
+            onInteractionsChanged={() => setInteractionsRefreshKey((key) => key + 1)}
           />
 
           {/* Right: Case Interactions Widget */}
@@ -816,6 +929,7 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
             caseId={selectedCase.caseId}
             caseNumericId={selectedCase.id}
             clientId={clientId}
+            refreshKey={interactionsRefreshKey}
           />
         </div>
       )}
@@ -898,19 +1012,37 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
               />
             </div>
 
-            {/* Case Status */}
-            <div className="space-y-2">
-              <Label htmlFor="case-status">Case Status</Label>
-              <Select value={newCaseStatus} onValueChange={(value) => setNewCaseStatus(value as 'OPEN' | 'AWAITING' | 'CLOSED')}>
-                <SelectTrigger className="w-full sm:w-[calc(50%-0.5rem)]">
-                  <SelectValue placeholder="Select case status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="OPEN">Open</SelectItem>
-                  <SelectItem value="AWAITING">Awaiting</SelectItem>
-                  <SelectItem value="CLOSED">Closed</SelectItem>
-                </SelectContent>
-              </Select>
+            {/* Case Type and Case Status - Side by side */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="case-type">Case Type</Label>
+                <Select value={newCaseType || 'none'} onValueChange={(value) => setNewCaseType(value === 'none' ? null : value as CaseTypeValue)}>
+                  <SelectTrigger id="case-type" className="w-full">
+                    <SelectValue placeholder="Select case type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">-</SelectItem>
+                    {Object.entries(CASE_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="case-status">Case Status</Label>
+                <Select value={newCaseStatus} onValueChange={(value) => setNewCaseStatus(value as 'OPEN' | 'AWAITING')}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select case status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="OPEN">Open</SelectItem>
+                    <SelectItem value="AWAITING">Awaiting</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             {/* Case Description */}
@@ -938,6 +1070,17 @@ export function ClientCasesList({ clientId, clientName, cases, searchTerm = '',
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Close / Reopen Dialog */}
+      <CaseStatusDialog
+        caseId={statusChange?.caseId ?? ''}
+        caseNumericId={statusChange?.id ?? 0}
+        toStatus={statusChange?.status ?? null}
+        onOpenChange={(open) => {
+          if (!open) setStatusChange(null);
+        }}
+        onStatusChanged={() => router.refresh()}
+      />
     </>
   );
 }
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 
 import { Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -73,33 +74,33 @@ export function FileUploadModal({
         .map(tag => tag.trim())
         .filter(tag => tag.length > 0);
 
-      // Get presigned URL from API
-      const uploadPath = interactionId
-        ? `${clientId}/cases/${caseId}/interactions/interaction-${interactionId}`
-        : `${clientId}/cases/${caseId}/case-level`;
-
+      // Get upload URL from API (server decides the storage location)
       const presignedResponse = await fetch('/api/cases/upload/presigned-url', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          caseId,
+          clientId,
+          interactionId,
           fileName: selectedFile.name,
           fileType: selectedFile.type,
-          uploadPath,
+          fileSize: selectedFile.size,
         }),
       });
+      const presignedResult = await presignedResponse.json();
 
-      if (!presignedResponse.ok) {
-        throw new Error('Failed to get upload URL');
+      if (!presignedResponse.ok || !presignedResult.success) {
+        throw new Error(presignedResult.error?.message || 'Failed to get upload URL');
       }
 
-      const { uploadUrl, fileUrl } = await presignedResponse.json();
+      const { uploadUrl, fileKey, contentType } = presignedResult.data;
 
-      // Upload file to S3
+      // Upload file to storage
       const uploadResponse = await fetch(uploadUrl, {
         method: 'PUT',
         body: selectedFile,
         headers: {
-          'Content-Type': selectedFile.type,
+          'Content-Type': contentType,
         },
       });
 
@@ -114,17 +115,17 @@ export function FileUploadModal({
         body: JSON.stringify({
           caseId,
           interactionId,
+          fileKey,
           fileName: selectedFile.name,
-          fileUrl,
-          fileSize: selectedFile.size,
           fileTitle: fileTitle || null,
           fileDescription: fileDescription || null,
           fileTags: tagArray,
         }),
       });
+      const saveResult = await saveResponse.json();
 
-      if (!saveResponse.ok) {
-        throw new Error('Failed to save file record');
+      if (!saveResponse.ok || !saveResult.success) {
+        throw new Error(saveResult.error?.message || 'Failed to save file record');
       }
 
       // Success!
@@ -133,7 +134,7 @@ export function FileUploadModal({
       onUploadSuccess?.();
     } catch (error) {
       console.error('Upload error:', error);
-      alert('Failed to upload file. Please try again.');
+      toast.error(error instanceof Error ? error.message : 'Failed to upload file. Please try again.');
     } finally {
       setIsUploading(false);
     }
@@ -0,0 +1,137 @@
+import { Clock } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+import type { ClientHoursUsage } from '@/lib/types/case';
+
+interface HoursUsageWidgetProps {
+  usage: ClientHoursUsage | null;
+}
+
+/**
+ * Get display label for work category
+ */
+function getCategoryLabel(category: string): string {
+  return category === 'HR_ADMIN' ? 'HR Admin' : 'Employment Law';
+}
+
+/**
+ * Get display label for hours period
+ */
+function getPeriodLabel(period: string): string {
+  switch (period) {
+    case 'WEEKLY':
+      return 'This week';
+    case 'MONTHLY':
+      return 'This month';
+    case 'QUARTERLY':
+      return 'This quarter';
+    case 'YEARLY':
+      return 'This contract year';
+    default:
+      return period;
+  }
+}
+
+/**
+ * Format currency in GBP
+ */
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount);
+}
+
+/**
+ * Get progress bar color based on how much of the allowance is used
+ */
+function getUsageBarColor(usedHours: number, includedHours: number): string {
+  if (includedHours === 0 || usedHours > includedHours) return 'bg-red-500';
+  if (usedHours / includedHours >= 0.8) return 'bg-amber-500';
+  return 'bg-green-500';
+}
+
+/**
+ * Hours Usage Widget
+ * Shows hours used vs. included in the active contract period, with overage
+ */
+export function HoursUsageWidget({ usage }: HoursUsageWidgetProps) {
+  return (
+    <Card className="bg-muted/50">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Hours Usage
+          {usage && (
+            <span className="text-sm font-normal text-muted-foreground">
+              ({usage.contractNumber})
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!usage ? (
+          <p className="text-sm text-muted-foreground">
+            No active contract - inclusive hours cannot be reconciled
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {usage.categories.map((category) => {
+              const percentUsed =
+                category.includedHours > 0
+                  ? Math.min((category.usedHours / category.includedHours) * 100, 100)
+                  : 100;
+
+              return (
+                <div key={category.category} className="border rounded-lg p-3 bg-card space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold">
+                      {getCategoryLabel(category.category)}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {getPeriodLabel(category.period)} (
+                      {new Date(category.periodStart).toLocaleDateString('en-GB')} -{' '}
+                      {new Date(
+                        new Date(category.periodEnd).getTime() - 24 * 60 * 60 * 1000
+                      ).toLocaleDateString('en-GB')}
+                      )
+                    </span>
+                  </div>
+
+                  <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={`h-full ${getUsageBarColor(category.usedHours, category.includedHours)}`}
+                      style={{ width: `${percentUsed}%` }}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between text-sm">
+                    <span>
+                      {category.usedHours}h used of {category.includedHours}h included
+                    </span>
+                    <span className="text-muted-foreground">
+                      {category.remainingHours}h remaining
+                    </span>
+                  </div>
+
+                  {category.overageHours > 0 && (
+                    <div className="text-sm text-red-600">
+                      Overage: {category.overageHours}h
+                      {category.overageCost !== null
+                        ? ` = ${formatCurrency(category.overageCost)} at ${formatCurrency(category.overageRate!)}/${category.overageRateUnit === 'DAILY' ? 'day' : 'hr'}`
+                        : ' (no out-of-scope rate set)'}
+                    </div>
+                  )}
+
+                  {category.nonBillableHours > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Plus {category.nonBillableHours}h non-billable
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
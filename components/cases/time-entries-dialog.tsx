@@ -0,0 +1,329 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Clock, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import {
+  getTimeEntries,
+  createTimeEntry,
+  deleteTimeEntry,
+} from '@/app/admin/(protected)/clients/[id]/cases/actions';
+
+interface TimeEntry {
+  id: number;
+  category: string;
+  durationMinutes: number;
+  billable: boolean;
+  description: string | null;
+  workDate: string;
+  recordedBy: string;
+}
+
+interface TimeEntriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  caseId: string; // String case ID for display (e.g., "CASE-0001")
+  clientId: number;
+  interactionId: number | null;
+  onTotalChange?: (interactionId: number, totalMinutes: number) => void;
+}
+
+/**
+ * Format minutes as hours and minutes (e.g., "1h 30m")
+ */
+export function formatDuration(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  if (minutes === 0) return `${hours}h`;
+  return `${hours}h ${minutes}m`;
+}
+
+/**
+ * Time Entries Dialog
+ * Lists and records time spent on a case interaction
+ */
+export function TimeEntriesDialog({
+  open,
+  onOpenChange,
+  caseId,
+  clientId,
+  interactionId,
+  onTotalChange,
+}: TimeEntriesDialogProps) {
+  const router = useRouter();
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [category, setCategory] = useState<'HR_ADMIN' | 'EMPLOYMENT_LAW'>('HR_ADMIN');
+  const [hours, setHours] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [billable, setBillable] = useState(true);
+  const [workDate, setWorkDate] = useState('');
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const canManageTime = usePermission('manage_time_entries');
+
+  /**
+   * Load entries when the dialog opens for an interaction
+   */
+  useEffect(() => {
+    if (!open || interactionId === null) return;
+
+    const loadEntries = async () => {
+      const result = await getTimeEntries(interactionId);
+      if (result.success && result.data) {
+        setEntries(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load time entries');
+      }
+    };
+
+    loadEntries();
+  }, [open, interactionId]);
+
+  /**
+   * Notify parent of the new total and refresh server-rendered usage
+   */
+  const handleEntriesChanged = (updated: TimeEntry[]) => {
+    setEntries(updated);
+    if (interactionId !== null && onTotalChange) {
+      onTotalChange(
+        interactionId,
+        updated.reduce((sum, entry) => sum + entry.durationMinutes, 0)
+      );
+    }
+    router.refresh();
+  };
+
+  const durationMinutes = (parseInt(hours, 10) || 0) * 60 + (parseInt(minutes, 10) || 0);
+
+  /**
+   * Handle recording a new time entry
+   */
+  const handleAddEntry = async () => {
+    if (interactionId === null || durationMinutes < 1) return;
+
+    setIsSaving(true);
+    const result = await createTimeEntry(clientId, {
+      interactionId,
+      category,
+      durationMinutes,
+      billable,
+      description: description.trim() || null,
+      workDate: workDate || null,
+    });
+    setIsSaving(false);
+
+    if (result.success && result.data) {
+      handleEntriesChanged([result.data, ...entries]);
+      toast.success('Time recorded');
+
+      // Reset form
+      setHours('');
+      setMinutes('');
+      setBillable(true);
+      setWorkDate('');
+      setDescription('');
+    } else {
+      toast.error(result.error || 'Failed to record time');
+    }
+  };
+
+  /**
+   * Handle deleting a time entry
+   */
+  const handleDeleteEntry = async (id: number) => {
+    const result = await deleteTimeEntry(id, clientId);
+
+    if (result.success) {
+      handleEntriesChanged(entries.filter((entry) => entry.id !== id));
+      toast.success('Time entry deleted');
+    } else {
+      toast.error(result.error || 'Failed to delete time entry');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Time Spent</DialogTitle>
+          <DialogDescription>
+            Record time spent on this interaction for case {caseId}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4 overflow-y-auto flex-1">
+          {/* Existing entries */}
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time recorded yet</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center justify-between border rounded-lg p-2 bg-muted/30"
+                >
+                  <div className="space-y-0.5">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Clock className="h-3.5 w-3.5 text-muted-foreground" />
+                      <span className="font-medium">{formatDuration(entry.durationMinutes)}</span>
+                      <span className="text-muted-foreground">
+                        {entry.category === 'HR_ADMIN' ? 'HR Admin' : 'Employment Law'}
+                      </span>
+                      {!entry.billable && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground">
+                          Non-billable
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.workDate).toLocaleDateString('en-GB')} · {entry.recordedBy}
+                      {entry.description && ` · ${entry.description}`}
+                    </p>
+                  </div>
+                  {canManageTime && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDeleteEntry(entry.id)}
+                      className="h-7 w-7 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* New entry */}
+          {canManageTime && (
+            <div className="space-y-3 pt-2 border-t">
+              <Label className="text-base font-semibold">Record Time</Label>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="time-category" className="text-sm">
+                    Work Category
+                  </Label>
+                  <Select
+                    value={category}
+                    onValueChange={(value) => setCategory(value as 'HR_ADMIN' | 'EMPLOYMENT_LAW')}
+                  >
+                    <SelectTrigger id="time-category" className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="HR_ADMIN">HR Admin</SelectItem>
+                      <SelectItem value="EMPLOYMENT_LAW">Employment Law</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="time-work-date" className="text-sm">
+                    Date
+                  </Label>
+                  <Input
+                    id="time-work-date"
+                    type="date"
+                    value={workDate}
+                    onChange={(e) => setWorkDate(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="time-hours" className="text-sm">
+                    Hours
+                  </Label>
+                  <Input
+                    id="time-hours"
+                    type="number"
+                    min="0"
+                    value={hours}
+                    onChange={(e) => setHours(e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="time-minutes" className="text-sm">
+                    Minutes
+                  </Label>
+                  <Input
+                    id="time-minutes"
+                    type="number"
+                    min="0"
+                    max="59"
+                    value={minutes}
+                    onChange={(e) => setMinutes(e.target.value)}
+                    placeholder="0"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="time-description" className="text-sm">
+                  Description (Optional)
+                </Label>
+                <Input
+                  id="time-description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What was the time spent on..."
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="time-billable"
+                  checked={billable}
+                  onCheckedChange={(checked) => setBillable(checked as boolean)}
+                />
+                <Label htmlFor="time-billable" className="text-sm cursor-pointer">
+                  Billable (counts against inclusive hours)
+                </Label>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {canManageTime && (
+            <Button onClick={handleAddEntry} disabled={isSaving || durationMinutes < 1}>
+              Record Time
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
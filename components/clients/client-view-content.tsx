@@ -30,6 +30,7 @@ import {
 
 import { ContactDisplay, AddressDisplay } from '@/components/clients/contact-tabs';
 import { SectorSelect } from '@/components/forms/sector-select';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -201,7 +202,8 @@ const getContractStatusColor = (status: string): string => {
 
 export function ClientViewContent({ client, editMode: initialEditMode, activeTab, onTabChange }: ClientViewContentProps) {
   const router = useRouter();
-  const [editMode, setEditMode] = useState(initialEditMode);
+  const canEdit = usePermission('update_client');
+  const [editMode, setEditMode] = useState(initialEditMode && canEdit);
   const [isSaving, setIsSaving] = useState(false);
 
   // Get active contract
@@ -302,7 +304,6 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
     );
   };
 
-
   // Handler for contact deletion
   const handleContactDelete = async (contactId: number) => {
     if (!confirm('Are you sure you want to delete this contact?')) {
@@ -515,8 +516,8 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
   };
 
   useEffect(() => {
-    setEditMode(initialEditMode);
-  }, [initialEditMode]);
+    setEditMode(initialEditMode && canEdit);
+  }, [initialEditMode, canEdit]);
 
   return (
     <div className="relative w-full">
@@ -572,7 +573,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                   <Save className="h-8 w-8" />
                 )}
               </button>
-            ) : (
+            ) : canEdit ? (
               <Button
                 variant="ghost"
                 size="icon"
@@ -587,7 +588,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
               >
                 <SquarePen className="h-4 w-4" />
               </Button>
-            )}
+            ) : null}
           </CardHeader>
           <CardContent>
             {/* Client Type Selection - Only visible in edit mode */}
@@ -830,7 +831,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                   <Save className="h-8 w-8" />
                 )}
               </button>
-            ) : (
+            ) : canEdit ? (
               <Button
                 variant="ghost"
                 size="icon"
@@ -845,7 +846,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
               >
                 <SquarePen className="h-4 w-4" />
               </Button>
-            )}
+            ) : null}
           </CardHeader>
           <CardContent>
             <ContactDisplay
@@ -889,7 +890,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                   <Save className="h-8 w-8" />
                 )}
               </button>
-            ) : (
+            ) : canEdit ? (
               <Button
                 variant="ghost"
                 size="icon"
@@ -904,7 +905,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
               >
                 <SquarePen className="h-4 w-4" />
               </Button>
-            )}
+            ) : null}
           </CardHeader>
           <CardContent>
             <AddressDisplay
@@ -948,7 +949,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                   <Save className="h-8 w-8" />
                 )}
               </button>
-            ) : (
+            ) : canEdit ? (
               <Button
                 variant="ghost"
                 size="icon"
@@ -963,7 +964,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
               >
                 <SquarePen className="h-4 w-4" />
               </Button>
-            )}
+            ) : null}
           </CardHeader>
           <CardContent>
             {/* Externally Audited Toggle */}
@@ -1095,7 +1096,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                     <Save className="h-8 w-8" />
                   )}
                 </button>
-              ) : (
+              ) : canEdit ? (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -1110,7 +1111,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                 >
                   <SquarePen className="h-4 w-4" />
                 </Button>
-              )}
+              ) : null}
             </CardHeader>
             <CardContent>
               <div className="grid gap-4 md:grid-cols-2">
@@ -1333,7 +1334,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                     <Save className="h-8 w-8" />
                   )}
                 </button>
-              ) : (
+              ) : canEdit ? (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -1348,7 +1349,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                 >
                   <SquarePen className="h-4 w-4" />
                 </Button>
-              )}
+              ) : null}
             </CardHeader>
             <CardContent>
               <div className="space-y-6">
@@ -1760,7 +1761,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                     <Save className="h-8 w-8" />
                   )}
                 </button>
-              ) : (
+              ) : canEdit ? (
                 <Button
                   variant="ghost"
                   size="icon"
@@ -1775,7 +1776,7 @@ export function ClientViewContent({ client, editMode: initialEditMode, activeTab
                 >
                   <SquarePen className="h-4 w-4" />
                 </Button>
-              )}
+              ) : null}
             </CardHeader>
             <CardContent>
               <p className="text-muted-foreground">No active contract found</p>
@@ -4,9 +4,12 @@ import { useState } from 'react';
 
 import { useRouter } from 'next/navigation';
 
-import { Calculator, ClipboardCheck, FileText } from 'lucide-react';
+import { BookOpen, Calculator, ClipboardCheck, FilePlus, FileText } from 'lucide-react';
 
+import { ActivityHistoryPanel } from '@/components/activity/activity-history-panel';
 import { OnboardingModal } from '@/components/clients/onboarding-modal';
+import { GenerateDocumentDialog } from '@/components/documents/generate-document-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { VatCalculatorModal } from '@/components/modals/vat-calculator-modal';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
@@ -20,6 +23,8 @@ export function ClientViewHeader({ clientId, activeTab }: ClientViewHeaderProps)
   const router = useRouter();
   const [onboardingOpen, setOnboardingOpen] = useState(false);
   const [calculatorOpen, setCalculatorOpen] = useState(false);
+  const [generateOpen, setGenerateOpen] = useState(false);
+  const canGenerateDocuments = usePermission('manage_client_documents');
 
   return (
     <div className="flex items-center gap-3">
@@ -68,6 +73,37 @@ export function ClientViewHeader({ clientId, activeTab }: ClientViewHeaderProps)
         </TooltipTrigger>
         <TooltipContent>View Contracts</TooltipContent>
       </Tooltip>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-green-700 hover:text-green-800 transition-colors"
+            onClick={() => router.push(`/admin/clients/${clientId}/policies`)}
+          >
+            <BookOpen className="h-4 w-4" />
+            <span className="sr-only">Policies & Handbooks</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>Policies & Handbooks</TooltipContent>
+      </Tooltip>
+      {canGenerateDocuments && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-slate-600 hover:text-slate-700 transition-colors"
+              onClick={() => setGenerateOpen(true)}
+            >
+              <FilePlus className="h-4 w-4" />
+              <span className="sr-only">Generate Document</span>
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Generate Document</TooltipContent>
+        </Tooltip>
+      )}
+      <ActivityHistoryPanel scope="client" id={clientId} />
 
       {/* Onboarding Modal */}
       <OnboardingModal
@@ -76,6 +112,15 @@ export function ClientViewHeader({ clientId, activeTab }: ClientViewHeaderProps)
         onOpenChange={setOnboardingOpen}
       />
 
+      {/* Generate Document Dialog */}
+      <GenerateDocumentDialog
+        open={generateOpen}
+        onOpenChange={setGenerateOpen}
+        entityType="CLIENT"
+        entityId={clientId}
+        clientId={clientId}
+      />
+
       {/* VAT Calculator Modal */}
       <VatCalculatorModal
         open={calculatorOpen}
@@ -6,6 +6,7 @@ import { Loader2, CheckCircle2 } from 'lucide-react';
 
 import { getOnboarding, updateOnboardingField } from '@/lib/actions/client.actions';
 
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -53,6 +54,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
   const [data, setData] = useState<OnboardingData | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const canEdit = usePermission('update_client');
   const [error, setError] = useState<string | null>(null);
 
   const fetchOnboardingData = useCallback(async () => {
@@ -203,7 +205,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                       onCheckedChange={(checked) =>
                         updateField('client', 'welcomeEmailSent', checked === true)
                       }
-                      disabled={saving}
+                      disabled={saving || !canEdit}
                     />
                     <Label
                       htmlFor="welcomeEmailSent"
@@ -223,7 +225,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('client', 'directDebitSetup', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="directDebitSetup"
@@ -240,7 +242,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('client', 'directDebitConfirmed', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="directDebitConfirmed"
@@ -259,7 +261,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                       onCheckedChange={(checked) =>
                         updateField('client', 'contractAddedToXero', checked === true)
                       }
-                      disabled={saving}
+                      disabled={saving || !canEdit}
                     />
                     <Label
                       htmlFor="contractAddedToXero"
@@ -276,7 +278,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                       onCheckedChange={(checked) =>
                         updateField('client', 'dpaSignedGdpr', checked === true)
                       }
-                      disabled={saving}
+                      disabled={saving || !canEdit}
                     />
                     <Label
                       htmlFor="dpaSignedGdpr"
@@ -293,7 +295,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                       onCheckedChange={(checked) =>
                         updateField('client', 'firstInvoiceSent', checked === true)
                       }
-                      disabled={saving}
+                      disabled={saving || !canEdit}
                     />
                     <Label
                       htmlFor="firstInvoiceSent"
@@ -312,7 +314,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                         onCheckedChange={(checked) =>
                           updateField('client', 'recurringInvoiceSetup', checked === true)
                         }
-                        disabled={saving}
+                        disabled={saving || !canEdit}
                       />
                       <Label
                         htmlFor="recurringInvoiceSetup"
@@ -330,7 +332,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                       onCheckedChange={(checked) =>
                         updateField('client', 'firstPaymentMade', checked === true)
                       }
-                      disabled={saving}
+                      disabled={saving || !canEdit}
                     />
                     <Label
                       htmlFor="firstPaymentMade"
@@ -362,7 +364,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('contract', 'contractUploaded', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="contractUploaded"
@@ -379,7 +381,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('contract', 'contractSentToClient', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="contractSentToClient"
@@ -396,7 +398,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('contract', 'signedContractReceived', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="signedContractReceived"
@@ -413,7 +415,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('contract', 'paymentTermsAgreed', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="paymentTermsAgreed"
@@ -430,7 +432,7 @@ export function OnboardingModal({ clientId, open, onOpenChange }: OnboardingModa
                           onCheckedChange={(checked) =>
                             updateField('contract', 'outOfScopeRateAgreed', checked === true)
                           }
-                          disabled={saving}
+                          disabled={saving || !canEdit}
                         />
                         <Label
                           htmlFor="outOfScopeRateAgreed"
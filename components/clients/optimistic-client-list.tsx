@@ -9,6 +9,7 @@ import { Edit, UserX, UserCheck, Eye, AlertCircle, Clock, ArrowUpDown, ArrowUp,
 import { useOptimisticClient } from '@/lib/hooks/useOptimisticClient';
 
 import { OnboardingModal } from '@/components/clients/onboarding-modal';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   AlertDialog,
@@ -71,6 +72,8 @@ export function OptimisticClientList({
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
   const [clientToDeactivate, setClientToDeactivate] = useState<Client | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const canUpdateClient = usePermission('update_client');
+  const canDeleteClient = usePermission('delete_client');
   const [sortColumn, setSortColumn] = useState<'companyName' | 'sector' | 'serviceTier' | 'status'>('status');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [onboardingClientId, setOnboardingClientId] = useState<number | null>(null);
@@ -357,7 +360,7 @@ export function OptimisticClientList({
                               size="icon"
                               className="h-8 w-8 text-green-700 hover:text-green-500 transition-colors"
                               onClick={() => onEdit?.(client)}
-                              disabled={client._pending || client.status === 'INACTIVE'}
+                              disabled={client._pending || client.status === 'INACTIVE' || !canUpdateClient}
                             >
                               <Edit className="h-4 w-4" />
                               <span className="sr-only">Edit</span>
@@ -433,7 +436,7 @@ export function OptimisticClientList({
                                 size="icon"
                                 className="h-8 w-8 text-red-700 hover:text-red-500 transition-colors"
                                 onClick={() => setClientToDeactivate(client)}
-                                disabled={client._pending}
+                                disabled={client._pending || !canDeleteClient}
                               >
                                 <UserX className="h-4 w-4" />
                                 <span className="sr-only">Deactivate</span>
@@ -449,7 +452,7 @@ export function OptimisticClientList({
                                 size="icon"
                                 className="h-8 w-8 text-green-700 hover:text-green-500 transition-colors"
                                 onClick={() => setClientToDelete(client)}
-                                disabled={client._pending}
+                                disabled={client._pending || !canDeleteClient}
                               >
                                 <UserCheck className="h-4 w-4" />
                                 <span className="sr-only">Activate</span>
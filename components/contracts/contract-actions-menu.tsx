@@ -7,6 +7,7 @@ import { useRouter } from 'next/navigation';
 import { Eye, SquarePen, Star } from 'lucide-react';
 
 import { SetActiveDialog } from '@/components/contracts/set-active-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -29,6 +30,7 @@ export function ContractActionsMenu({
 }: ContractActionsMenuProps) {
   const router = useRouter();
   const [setActiveOpen, setSetActiveOpen] = useState(false);
+  const canUpdateContract = usePermission('update_contract');
 
   const isActive = contract.status === 'ACTIVE';
   const isArchived = contract.status === 'ARCHIVED';
@@ -78,12 +80,12 @@ export function ContractActionsMenu({
             variant="ghost"
             size="icon"
             className={`h-8 w-8 transition-colors ${
-              isArchived
+              isArchived || !canUpdateContract
                 ? 'text-gray-300 cursor-not-allowed'
                 : 'text-green-800 hover:text-green-600'
             }`}
             onClick={handleEdit}
-            disabled={isArchived}
+            disabled={isArchived || !canUpdateContract}
           >
             <SquarePen className="h-4 w-4" />
           </Button>
@@ -105,7 +107,7 @@ export function ContractActionsMenu({
                 : 'text-yellow-500 hover:text-yellow-400'
             }`}
             onClick={handleSetActive}
-            disabled={isActive}
+            disabled={isActive || !canUpdateContract}
           >
             <Star className={`h-4 w-4 ${isActive ? 'fill-yellow-500' : ''}`} />
           </Button>
@@ -4,16 +4,28 @@ import { useEffect, useState } from 'react';
 
 import { useRouter } from 'next/navigation';
 
-import { Calculator, CheckCircle, ExternalLink, Save, SquarePen, Trash2, X } from 'lucide-react';
+import {
+  Calculator,
+  CheckCircle,
+  ExternalLink,
+  FilePlus,
+  FileText,
+  Save,
+  SquarePen,
+  Trash2,
+  X,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
-import { updateContract } from '@/lib/actions/contract.actions';
+import { generateContractDocument, updateContract } from '@/lib/actions/contract.actions';
 import {
   AVAILABLE_SERVICES_IN_SCOPE,
   AVAILABLE_SERVICES_OUT_OF_SCOPE,
 } from '@/lib/constants/contract';
 
 import { DeleteContractDialog } from '@/components/contracts/delete-contract-dialog';
+import { GenerateDocumentDialog } from '@/components/documents/generate-document-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { VatCalculatorModal } from '@/components/modals/vat-calculator-modal';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -60,13 +72,18 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
   // Check contract status
   const isArchived = contract.status === 'ARCHIVED';
   const isDraft = contract.status === 'DRAFT';
+  const canUpdateContract = usePermission('update_contract');
+  const canDeleteContract = usePermission('delete_contract');
+  const canGenerateDocuments = usePermission('manage_client_documents');
 
   // Edit mode state - cannot edit archived contracts
-  const [editMode, setEditMode] = useState(initialEditMode && !isArchived);
+  const [editMode, setEditMode] = useState(initialEditMode && !isArchived && canUpdateContract);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
   const [deleteOpen, setDeleteOpen] = useState(false);
   const [calculatorOpen, setCalculatorOpen] = useState(false);
+  const [generateOpen, setGenerateOpen] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
 
   // Form state
   const [contractStartDate, setContractStartDate] = useState(
@@ -182,6 +199,28 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
     }
   };
 
+  /**
+   * Generate the contract PDF and make it the active contract document
+   * Earlier PDFs stay in the document repository and the signed contract URL is kept
+   */
+  const handleGenerateContractPdf = async () => {
+    setIsGeneratingPdf(true);
+    const result = await generateContractDocument(contract.id);
+    setIsGeneratingPdf(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to generate contract PDF');
+      return;
+    }
+
+    const pdfUrl = result.data.docUrl;
+    toast.success('Contract PDF generated', {
+      action: pdfUrl ? { label: 'Open', onClick: () => window.open(pdfUrl, '_blank') } : undefined,
+    });
+    setDocUrl(pdfUrl || '');
+    router.refresh();
+  };
+
   // Reset saveSuccess when any field changes
   useEffect(() => {
     if (saveSuccess) {
@@ -214,7 +253,7 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
       {/* Edit/Save Button and Delete Button */}
       <div className="absolute top-4 right-4 flex items-center gap-2 z-10">
         {/* Delete Button - Only for DRAFT contracts */}
-        {isDraft && !editMode && (
+        {isDraft && !editMode && canDeleteContract && (
           <Button
             variant="ghost"
             size="icon"
@@ -226,6 +265,19 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
           </Button>
         )}
 
+        {/* Generate Document Button */}
+        {!editMode && canGenerateDocuments && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-muted-foreground hover:text-foreground transition-colors"
+            onClick={() => setGenerateOpen(true)}
+            title="Generate Document"
+          >
+            <FilePlus className="h-4 w-4" />
+          </Button>
+        )}
+
         {/* Edit/Save Button */}
         {editMode ? (
           <button
@@ -250,12 +302,12 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
             variant="ghost"
             size="icon"
             className={`h-8 w-8 transition-colors ${
-              isArchived
+              isArchived || !canUpdateContract
                 ? 'text-gray-300 cursor-not-allowed'
                 : 'text-green-800 hover:text-green-600'
             }`}
             onClick={handleEnterEditMode}
-            disabled={isArchived}
+            disabled={isArchived || !canUpdateContract}
             title={isArchived ? 'Archived contracts cannot be edited' : 'Edit Contract'}
           >
             <SquarePen className="h-4 w-4" />
@@ -332,7 +384,25 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
 
         {/* Document URLs */}
         <div>
-          <h4 className="text-base font-semibold mb-4 text-primary">Contract Documents</h4>
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-base font-semibold text-primary">Contract Documents</h4>
+            {!editMode && !isArchived && canUpdateContract && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleGenerateContractPdf}
+                disabled={isGeneratingPdf}
+                title="Generate the contract PDF from this contract's details"
+              >
+                <FileText className="mr-2 h-4 w-4" />
+                {isGeneratingPdf
+                  ? 'Generating...'
+                  : contract.docUrl
+                    ? 'Regenerate Contract PDF'
+                    : 'Generate Contract PDF'}
+              </Button>
+            )}
+          </div>
           <div className="grid gap-4 md:grid-cols-2">
             <div className="space-y-2">
               <Label htmlFor="docUrl" className="text-sm font-medium text-muted-foreground">
@@ -736,6 +806,15 @@ export function ContractDetailView({ contract, clientId, initialEditMode = false
         clientId={clientId}
       />
 
+      {/* Generate Document Dialog */}
+      <GenerateDocumentDialog
+        open={generateOpen}
+        onOpenChange={setGenerateOpen}
+        entityType="CONTRACT"
+        entityId={contract.id}
+        clientId={clientId}
+      />
+
       {/* VAT Calculator Modal */}
       <VatCalculatorModal
         open={calculatorOpen}
@@ -2,8 +2,15 @@
 
 import { useState, useMemo } from 'react';
 
-import { Search, Eye, Download } from 'lucide-react';
+import { Search, Eye, Download, Upload } from 'lucide-react';
 
+import { formatFileSize, isPreviewableContentType } from '@/lib/utils/business/file';
+
+import {
+  DOCUMENT_CATEGORY_LABELS,
+  DocumentUploadDialog,
+} from '@/components/documents/document-upload-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -17,20 +24,22 @@ import {
 } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
-interface Document {
-  id: number;
-  name: string;
-  category: string;
-  uploadedAt: string;
-}
+import type { ClientDocumentItem } from '@/lib/types/document';
 
 interface ClientDocumentRepositoryContentProps {
-  documents: Document[];
+  documents: ClientDocumentItem[];
   clientId: number;
+  clientName?: string;
 }
 
-export function ClientDocumentRepositoryContent({ documents, clientId: _clientId }: ClientDocumentRepositoryContentProps) {
+export function ClientDocumentRepositoryContent({
+  documents,
+  clientId,
+  clientName,
+}: ClientDocumentRepositoryContentProps) {
   const [searchTerm, setSearchTerm] = useState('');
+  const [isUploadDialogOpen, setIsUploadDialogOpen] = useState(false);
+  const canUpload = usePermission('manage_client_documents');
 
   // Filter documents based on search term
   const filteredDocuments = useMemo(() => {
@@ -39,20 +48,26 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
     const lowerSearch = searchTerm.toLowerCase();
     return documents.filter((doc) => {
       return (
-        doc.name.toLowerCase().includes(lowerSearch) ||
-        doc.category.toLowerCase().includes(lowerSearch)
+        doc.title.toLowerCase().includes(lowerSearch) ||
+        doc.fileName.toLowerCase().includes(lowerSearch) ||
+        doc.version.toLowerCase().includes(lowerSearch) ||
+        DOCUMENT_CATEGORY_LABELS[doc.category].toLowerCase().includes(lowerSearch)
       );
     });
   }, [documents, searchTerm]);
 
-  const handleViewDocument = (doc: Document) => {
-    console.log('View document:', doc.name);
-    // TODO: Implement S3 document viewing
+  /**
+   * Get the secure download route for a document
+   */
+  const getDocumentHref = (doc: ClientDocumentItem, disposition: 'inline' | 'attachment') =>
+    `/api/clients/${clientId}/documents/${doc.id}?disposition=${disposition}`;
+
+  const handleViewDocument = (doc: ClientDocumentItem) => {
+    window.open(getDocumentHref(doc, 'inline'), '_blank', 'noopener');
   };
 
-  const handleDownloadDocument = (doc: Document) => {
-    console.log('Download document:', doc.name);
-    // TODO: Implement S3 document download
+  const handleDownloadDocument = (doc: ClientDocumentItem) => {
+    window.location.href = getDocumentHref(doc, 'attachment');
   };
 
   return (
@@ -66,16 +81,24 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
                 <Search className="h-5 w-5" />
                 Search Documents
               </CardTitle>
-              <CardDescription>Find documents by name or category</CardDescription>
+              <CardDescription>Find documents by title, category or version</CardDescription>
             </div>
-            <div className="relative flex-1 max-w-md">
-              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-              <Input
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search by document name or category..."
-                className="pl-8"
-              />
+            <div className="flex flex-1 items-center justify-end gap-2">
+              <div className="relative flex-1 max-w-md">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Search by title, category or version..."
+                  className="pl-8"
+                />
+              </div>
+              {canUpload && (
+                <Button onClick={() => setIsUploadDialogOpen(true)}>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload Document
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -88,11 +111,17 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
             <TableHeader>
               <TableRow>
                 <TableHead className="text-left text-primary text-base font-semibold">
-                  Document Name
+                  Document
                 </TableHead>
                 <TableHead className="text-center text-primary text-base font-semibold">
                   Category
                 </TableHead>
+                <TableHead className="text-center text-primary text-base font-semibold">
+                  Version
+                </TableHead>
+                <TableHead className="text-center text-primary text-base font-semibold">
+                  Uploaded By
+                </TableHead>
                 <TableHead className="text-center text-primary text-base font-semibold">
                   Uploaded
                 </TableHead>
@@ -104,7 +133,7 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
             <TableBody>
               {filteredDocuments.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={4} className="h-24 text-center">
+                  <TableCell colSpan={6} className="h-24 text-center">
                     <div>
                       <p className="text-lg font-semibold">No documents found</p>
                       <p className="text-sm text-muted-foreground">
@@ -118,14 +147,27 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
               ) : (
                 filteredDocuments.map((doc) => (
                   <TableRow key={doc.id}>
-                    {/* Document Name */}
-                    <TableCell className="font-medium text-left">
-                      {doc.name}
+                    {/* Document Title */}
+                    <TableCell className="text-left">
+                      <p className="font-medium">{doc.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {doc.fileName} · {formatFileSize(doc.fileSize)}
+                      </p>
                     </TableCell>
 
                     {/* Category */}
                     <TableCell className="text-center">
-                      {doc.category}
+                      {DOCUMENT_CATEGORY_LABELS[doc.category]}
+                    </TableCell>
+
+                    {/* Version */}
+                    <TableCell className="text-center">
+                      {doc.version}
+                    </TableCell>
+
+                    {/* Uploaded By */}
+                    <TableCell className="text-center text-muted-foreground">
+                      {doc.uploadedBy}
                     </TableCell>
 
                     {/* Uploaded Date */}
@@ -140,20 +182,22 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
                     {/* Actions */}
                     <TableCell className="text-center">
                       <div className="flex items-center justify-center gap-2">
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 hover:bg-muted transition-colors"
-                              onClick={() => handleViewDocument(doc)}
-                            >
-                              <Eye className="h-4 w-4 text-black" />
-                              <span className="sr-only">View Document</span>
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>View Document</TooltipContent>
-                        </Tooltip>
+                        {isPreviewableContentType(doc.contentType) && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 hover:bg-muted transition-colors"
+                                onClick={() => handleViewDocument(doc)}
+                              >
+                                <Eye className="h-4 w-4 text-black" />
+                                <span className="sr-only">View Document</span>
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>View Document</TooltipContent>
+                          </Tooltip>
+                        )}
 
                         <Tooltip>
                           <TooltipTrigger asChild>
@@ -178,6 +222,14 @@ export function ClientDocumentRepositoryContent({ documents, clientId: _clientId
           </Table>
         </CardContent>
       </Card>
+
+      {/* Upload Dialog */}
+      <DocumentUploadDialog
+        open={isUploadDialogOpen}
+        onOpenChange={setIsUploadDialogOpen}
+        clientId={clientId}
+        clientName={clientName}
+      />
     </>
   );
 }
@@ -1,11 +1,13 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState } from 'react';
 
 import { useRouter } from 'next/navigation';
 
 import { Plus, Upload, Eye } from 'lucide-react';
 
+import { DocumentUploadDialog } from '@/components/documents/document-upload-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import {
@@ -39,8 +41,8 @@ export function ClientDocumentsList({ clients }: ClientDocumentsListProps) {
   const router = useRouter();
   const [comingSoonDialogOpen, setComingSoonDialogOpen] = useState(false);
   const [dialogAction, setDialogAction] = useState<string>('');
-  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadClient, setUploadClient] = useState<Client | null>(null);
+  const canUpload = usePermission('manage_client_documents');
 
   /**
    * Handle new document
@@ -55,40 +57,14 @@ export function ClientDocumentsList({ clients }: ClientDocumentsListProps) {
    * Handle upload document
    */
   const handleUploadDocument = (client: Client) => {
-    // Trigger the file input click immediately for better responsiveness
-    fileInputRef.current?.click();
-    // Set the selected client for when the file is chosen
-    setSelectedClient(client);
-  };
-
-  /**
-   * Handle file selection
-   */
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && selectedClient) {
-      console.log('File selected:', file.name, 'for client:', selectedClient.companyName);
-      // TODO: Handle file upload logic here
-      // For now, just log the file details
-      console.log('File details:', {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-      });
-    }
-    // Reset the file input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+    setUploadClient(client);
   };
 
   /**
    * Handle view all documents
    */
   const handleViewAllDocuments = (client: Client) => {
-    console.log('View all documents for client:', client.companyName);
-    setDialogAction('View All Documents');
-    setComingSoonDialogOpen(true);
+    router.push(`/admin/documents/client/${client.id}`);
   };
 
   return (
@@ -147,35 +123,39 @@ export function ClientDocumentsList({ clients }: ClientDocumentsListProps) {
                         <TooltipContent>View All Documents</TooltipContent>
                       </Tooltip>
 
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-purple-600 hover:text-purple-500 transition-colors"
-                            onClick={() => handleUploadDocument(client)}
-                          >
-                            <Upload className="h-4 w-4" />
-                            <span className="sr-only">Upload Document</span>
-                          </Button>
-                        </TooltipTrigger>
-                        <TooltipContent>Upload Document</TooltipContent>
-                      </Tooltip>
-
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-green-500 hover:text-green-400 transition-colors"
-                            onClick={() => handleNewDocument(client)}
-                          >
-                            <Plus className="h-4 w-4" />
-                            <span className="sr-only">Create New Document</span>
-                          </Button>
-                        </TooltipTrigger>
-                        <TooltipContent>Create New Document</TooltipContent>
-                      </Tooltip>
+                      {canUpload && (
+                        <>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-purple-600 hover:text-purple-500 transition-colors"
+                                onClick={() => handleUploadDocument(client)}
+                              >
+                                <Upload className="h-4 w-4" />
+                                <span className="sr-only">Upload Document</span>
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Upload Document</TooltipContent>
+                          </Tooltip>
+
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-green-500 hover:text-green-400 transition-colors"
+                                onClick={() => handleNewDocument(client)}
+                              >
+                                <Plus className="h-4 w-4" />
+                                <span className="sr-only">Create New Document</span>
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Create New Document</TooltipContent>
+                          </Tooltip>
+                        </>
+                      )}
                     </div>
                   </TableCell>
                 </TableRow>
@@ -185,14 +165,15 @@ export function ClientDocumentsList({ clients }: ClientDocumentsListProps) {
         </Table>
       </CardContent>
 
-      {/* Hidden file input for upload */}
-      <input
-        ref={fileInputRef}
-        type="file"
-        className="hidden"
-        onChange={handleFileChange}
-        accept=".pdf,.doc,.docx,.xls,.xlsx,.txt"
-      />
+      {/* Upload Dialog */}
+      {uploadClient && (
+        <DocumentUploadDialog
+          open={uploadClient !== null}
+          onOpenChange={(open) => !open && setUploadClient(null)}
+          clientId={uploadClient.id}
+          clientName={uploadClient.companyName}
+        />
+      )}
 
       {/* Coming Soon Dialog */}
       <Dialog open={comingSoonDialogOpen} onOpenChange={setComingSoonDialogOpen}>
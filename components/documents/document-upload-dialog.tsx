@@ -0,0 +1,241 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import {
+  createDocumentUpload,
+  saveClientDocument,
+} from '@/app/admin/(protected)/documents/actions';
+
+import type { ClientDocumentCategory } from '@prisma/client';
+
+/**
+ * Display labels for client document categories
+ */
+export const DOCUMENT_CATEGORY_LABELS: Record<ClientDocumentCategory, string> = {
+  CONTRACT: 'Contract',
+  POLICY: 'Policy',
+  HANDBOOK: 'Handbook',
+  CORRESPONDENCE: 'Correspondence',
+  OTHER: 'Other',
+};
+
+interface DocumentUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientId: number;
+  clientName?: string;
+}
+
+/**
+ * Document Upload Dialog
+ * Uploads a file to a client's document repository
+ */
+export function DocumentUploadDialog({
+  open,
+  onOpenChange,
+  clientId,
+  clientName,
+}: DocumentUploadDialogProps) {
+  const router = useRouter();
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [category, setCategory] = useState<ClientDocumentCategory>('POLICY');
+  const [title, setTitle] = useState('');
+  const [version, setVersion] = useState('V1.0');
+  const [isUploading, setIsUploading] = useState(false);
+
+  /**
+   * Handle file selection - default the title to the file name without extension
+   */
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    setSelectedFile(file);
+    if (file && !title) {
+      setTitle(file.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  /**
+   * Reset form
+   */
+  const resetForm = () => {
+    setSelectedFile(null);
+    setCategory('POLICY');
+    setTitle('');
+    setVersion('V1.0');
+  };
+
+  /**
+   * Handle dialog close
+   */
+  const handleClose = (nextOpen: boolean) => {
+    if (isUploading) return;
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  /**
+   * Handle upload: get upload URL, PUT file to storage, then record the document
+   */
+  const handleUpload = async () => {
+    if (!selectedFile || !title.trim()) return;
+
+    setIsUploading(true);
+
+    try {
+      const uploadResult = await createDocumentUpload({
+        clientId,
+        category,
+        fileName: selectedFile.name,
+        fileType: selectedFile.type,
+        fileSize: selectedFile.size,
+      });
+
+      if (!uploadResult.success || !uploadResult.data) {
+        throw new Error(uploadResult.error || 'Failed to get upload URL');
+      }
+
+      const uploadResponse = await fetch(uploadResult.data.uploadUrl, {
+        method: 'PUT',
+        body: selectedFile,
+        headers: {
+          'Content-Type': uploadResult.data.contentType,
+        },
+      });
+
+      if (!uploadResponse.ok) {
+        throw new Error('Failed to upload file');
+      }
+
+      const saveResult = await saveClientDocument({
+        clientId,
+        category,
+        title,
+        version,
+        fileKey: uploadResult.data.fileKey,
+        fileName: selectedFile.name,
+      });
+
+      if (!saveResult.success) {
+        throw new Error(saveResult.error || 'Failed to save document');
+      }
+
+      toast.success('Document uploaded');
+      resetForm();
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload document');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Upload Document</DialogTitle>
+          <DialogDescription>
+            {clientName
+              ? `Add a document to ${clientName}'s repository`
+              : "Add a document to the client's repository"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* File Selector */}
+          <div className="space-y-2">
+            <Label htmlFor="document-file">File *</Label>
+            <Input
+              id="document-file"
+              type="file"
+              onChange={handleFileSelect}
+              disabled={isUploading}
+              accept=".pdf,.doc,.docx,.xls,.xlsx,.txt,.png,.jpg,.jpeg"
+              className="cursor-pointer"
+            />
+          </div>
+
+          {/* Category */}
+          <div className="space-y-2">
+            <Label htmlFor="document-category">Category *</Label>
+            <Select
+              value={category}
+              onValueChange={(value) => setCategory(value as ClientDocumentCategory)}
+              disabled={isUploading}
+            >
+              <SelectTrigger id="document-category" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DOCUMENT_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Title and Version */}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="document-title">Title *</Label>
+              <Input
+                id="document-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                disabled={isUploading}
+                placeholder="e.g., Holiday Policy"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-version">Version</Label>
+              <Input
+                id="document-version"
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                disabled={isUploading}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleClose(false)} disabled={isUploading}>
+            Cancel
+          </Button>
+          <Button onClick={handleUpload} disabled={!selectedFile || !title.trim() || isUploading}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isUploading ? 'Uploading...' : 'Upload'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { toast } from 'sonner';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import { getCasesByClientId } from '@/app/admin/(protected)/clients/[id]/cases/actions';
+import {
+  generateDocument,
+  getTemplatesForGeneration,
+} from '@/app/admin/(protected)/documents/actions';
+
+import type { DocumentTemplateItem, GeneratedDocument } from '@/lib/types/document-template';
+import type { DocumentTemplateEntity } from '@prisma/client';
+
+interface GenerateDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityType: DocumentTemplateEntity;
+  entityId: number; // Client, contract or case ID
+  clientId: number;
+  onGenerated?: (document: GeneratedDocument) => void;
+}
+
+/**
+ * Generate Document Dialog Component
+ * Pick a template, generate the PDF and optionally log it as an interaction - on the case
+ * itself for case documents, or on a case of the client's for client and contract documents
+ */
+export function GenerateDocumentDialog({
+  open,
+  onOpenChange,
+  entityType,
+  entityId,
+  clientId,
+  onGenerated,
+}: GenerateDocumentDialogProps) {
+  const router = useRouter();
+  const canLogInteraction = usePermission('manage_interactions');
+  const [templates, setTemplates] = useState<DocumentTemplateItem[]>([]);
+  const [cases, setCases] = useState<Array<{ id: number; caseId: string; title: string }>>([]);
+  const [templateId, setTemplateId] = useState<string>('');
+  const [logInteraction, setLogInteraction] = useState(false);
+  const [caseId, setCaseId] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const needsCase = entityType !== 'CASE';
+
+  /**
+   * Load the templates (and the client's open cases) each time the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+
+    const loadOptions = async () => {
+      setIsLoading(true);
+      const [templatesResult, casesResult] = await Promise.all([
+        getTemplatesForGeneration(entityType),
+        needsCase ? getCasesByClientId(clientId) : Promise.resolve(null),
+      ]);
+      setIsLoading(false);
+
+      if (templatesResult.success && templatesResult.data) {
+        setTemplates(templatesResult.data);
+      } else {
+        toast.error(templatesResult.error || 'Failed to load templates');
+      }
+
+      if (casesResult?.success && casesResult.data) {
+        setCases(casesResult.data.filter((c) => c.status !== 'CLOSED'));
+      }
+    };
+
+    setTemplateId('');
+    setLogInteraction(false);
+    setCaseId('');
+    loadOptions();
+  }, [open, entityType, clientId, needsCase]);
+
+  /**
+   * Generate the document from the selected template
+   */
+  const handleGenerate = async () => {
+    if (!templateId) return;
+
+    setIsGenerating(true);
+    const result = await generateDocument(
+      {
+        templateId: Number(templateId),
+        entityType,
+        entityId,
+        logInteraction,
+        caseId: needsCase && logInteraction ? Number(caseId) : null,
+      },
+      clientId
+    );
+    setIsGenerating(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to generate document');
+      return;
+    }
+
+    const document = result.data;
+    const href = document.caseFileId
+      ? `/api/clients/${clientId}/files/${document.caseFileId}?disposition=inline`
+      : `/api/clients/${clientId}/documents/${document.clientDocumentId}?disposition=inline`;
+
+    toast.success(`${document.fileName} generated`, {
+      description: document.interactionId ? 'Logged as an interaction' : undefined,
+      action: { label: 'Open', onClick: () => window.open(href, '_blank') },
+    });
+    if (document.missingFields.length > 0) {
+      toast.warning('Some merge fields were left blank', {
+        description: document.missingFields.join(', '),
+      });
+    }
+
+    onGenerated?.(document);
+    onOpenChange(false);
+    router.refresh();
+  };
+
+  const selectedTemplate = templates.find((template) => String(template.id) === templateId);
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isGenerating && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Generate Document</DialogTitle>
+          <DialogDescription>
+            {entityType === 'CASE'
+              ? 'The PDF is stored as a file on the case.'
+              : "The PDF is added to the client's document repository."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="generate-template">Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId} disabled={isLoading}>
+              <SelectTrigger id="generate-template" className="w-full">
+                <SelectValue placeholder={isLoading ? 'Loading...' : 'Select a template'} />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={String(template.id)}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isLoading && templates.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No templates yet - create them under Settings.
+              </p>
+            )}
+            {selectedTemplate?.description && (
+              <p className="text-xs text-muted-foreground">{selectedTemplate.description}</p>
+            )}
+          </div>
+
+          {canLogInteraction && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="generate-log-interaction"
+                  checked={logInteraction}
+                  onCheckedChange={(checked) => setLogInteraction(checked === true)}
+                  disabled={needsCase && cases.length === 0}
+                />
+                <Label htmlFor="generate-log-interaction" className="font-normal">
+                  Log as an interaction{needsCase ? ' on a case' : ''}
+                </Label>
+              </div>
+              {needsCase && logInteraction && (
+                <Select value={caseId} onValueChange={setCaseId}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a case" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cases.map((c) => (
+                      <SelectItem key={c.id} value={String(c.id)}>
+                        {c.caseId} - {c.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating || !templateId || (needsCase && logInteraction && !caseId)}
+          >
+            {isGenerating ? 'Generating...' : 'Generate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+
+import Link from 'next/link';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import { requestPasswordResetAction } from '@/app/admin/(auth)/login/actions';
+
+/**
+ * Forgot Password Form Component
+ * Asks for an email address and sends a reset link if it belongs to an account
+ * The same confirmation is shown either way
+ */
+export function ForgotPasswordForm() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  async function onSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setIsSending(true);
+    setError('');
+
+    const result = await requestPasswordResetAction(email);
+
+    setIsSending(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to send reset link');
+      return;
+    }
+
+    setIsSent(true);
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Forgot Password</CardTitle>
+        <CardDescription>
+          {isSent
+            ? 'Check your email'
+            : "Enter your email address and we'll send you a link to reset your password"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isSent ? (
+          <p className="text-sm text-muted-foreground">
+            If an account exists for <span className="font-medium text-foreground">{email}</span>, a
+            password reset link is on its way. The link can only be used once and expires shortly.
+          </p>
+        ) : (
+          <form onSubmit={onSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="forgot-password-email">Email</Label>
+              <Input
+                id="forgot-password-email"
+                type="email"
+                autoComplete="email"
+                placeholder="admin@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isSending}
+              />
+            </div>
+
+            {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-800">{error}</div>}
+
+            <Button type="submit" className="w-full" disabled={isSending || !email.trim()}>
+              {isSending ? 'Sending...' : 'Send reset link'}
+            </Button>
+          </form>
+        )}
+        <Button variant="ghost" className="w-full" asChild>
+          <Link href="/admin/login">Back to login</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import { Plus, Check, Pencil, Trash2, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 
+import { usePermission } from '@/components/layouts/permissions-provider';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -58,6 +59,7 @@ interface SectorSelectProps {
  */
 export function SectorSelect({ value, onChange, disabled = false }: SectorSelectProps) {
   const [open, setOpen] = useState(false);
+  const canManageSectors = usePermission('manage_sectors');
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showEditValueDialog, setShowEditValueDialog] = useState(false);
@@ -294,35 +296,37 @@ export function SectorSelect({ value, onChange, disabled = false }: SectorSelect
                       className={`mr-2 h-4 w-4 ${value === sector ? 'opacity-100' : 'opacity-0'}`}
                     />
                     <span className="flex-1">{sector}</span>
-                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button
-                        type="button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setEditingSector(sector);
-                          setEditedSectorName(sector);
-                          setShowEditDialog(true);
-                          setOpen(false);
-                        }}
-                        className="p-1 hover:bg-muted rounded"
-                        title="Edit sector"
-                      >
-                        <Pencil className="h-3 w-3 text-blue-600" />
-                      </button>
-                      <button
-                        type="button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setDeletingSector(sector);
-                          setShowDeleteDialog(true);
-                          setOpen(false);
-                        }}
-                        className="p-1 hover:bg-muted rounded"
-                        title="Delete sector"
-                      >
-                        <Trash2 className="h-3 w-3 text-red-600" />
-                      </button>
-                    </div>
+                    {canManageSectors && (
+                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingSector(sector);
+                            setEditedSectorName(sector);
+                            setShowEditDialog(true);
+                            setOpen(false);
+                          }}
+                          className="p-1 hover:bg-muted rounded"
+                          title="Edit sector"
+                        >
+                          <Pencil className="h-3 w-3 text-blue-600" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeletingSector(sector);
+                            setShowDeleteDialog(true);
+                            setOpen(false);
+                          }}
+                          className="p-1 hover:bg-muted rounded"
+                          title="Delete sector"
+                        >
+                          <Trash2 className="h-3 w-3 text-red-600" />
+                        </button>
+                      </div>
+                    )}
                   </CommandItem>
                 ))}
               </CommandGroup>
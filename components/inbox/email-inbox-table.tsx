@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Paperclip, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { dismissInboxEmail } from '@/lib/actions/inbound-email.actions';
+
+import { FileEmailDialog } from '@/components/inbox/file-email-dialog';
+import { ImportEmailsDialog } from '@/components/inbox/import-emails-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { InboundEmailItem } from '@/lib/types/inbound-email';
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface EmailInboxTableProps {
+  emails: InboundEmailItem[];
+}
+
+/**
+ * Email Inbox Table Component
+ * Imported emails that could not be filed automatically, with import, file and dismiss
+ */
+export function EmailInboxTable({ emails }: EmailInboxTableProps) {
+  const router = useRouter();
+  const canManage = usePermission('manage_interactions');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [reviewing, setReviewing] = useState<InboundEmailItem | null>(null);
+  const [dismissing, setDismissing] = useState<InboundEmailItem | null>(null);
+  const [isDismissing, setIsDismissing] = useState(false);
+
+  /**
+   * Dismiss the email awaiting confirmation
+   */
+  const handleDismiss = async () => {
+    if (!dismissing) return;
+
+    setIsDismissing(true);
+    const result = await dismissInboxEmail(dismissing.id);
+    setIsDismissing(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to dismiss email');
+      return;
+    }
+
+    toast.success('Email dismissed');
+    setDismissing(null);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Triage</CardTitle>
+        {canManage && (
+          <Button size="sm" onClick={() => setIsImportOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import Emails
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {emails.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">No emails are waiting to be filed.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id}>
+                  <TableCell>
+                    <div className="font-medium">{email.fromName || email.fromAddress}</div>
+                    {email.fromName && (
+                      <div className="text-xs text-muted-foreground">{email.fromAddress}</div>
+                    )}
+                    {email.clientName && (
+                      <div className="text-xs text-muted-foreground">{email.clientName}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="truncate">{email.subject}</div>
+                    {email.attachmentCount > 0 && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <Paperclip className="h-3 w-3" />
+                        {email.attachmentCount}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs text-sm text-muted-foreground">
+                    {email.triageReason}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(email.receivedAt)}
+                    <div className="text-xs text-muted-foreground">by {email.receivedBy}</div>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <div className="flex justify-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setReviewing(email)}>
+                        {canManage ? 'File' : 'View'}
+                      </Button>
+                      {canManage && (
+                        <Button variant="outline" size="sm" onClick={() => setDismissing(email)}>
+                          Dismiss
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ImportEmailsDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      <FileEmailDialog
+        email={reviewing}
+        canFile={canManage}
+        onOpenChange={(open) => !open && setReviewing(null)}
+      />
+
+      <AlertDialog
+        open={dismissing !== null}
+        onOpenChange={(open) => !isDismissing && !open && setDismissing(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Dismiss this email?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{dismissing?.subject}&quot; will be removed from the inbox without being added
+              to a case.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDismissing}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDismiss} disabled={isDismissing}>
+              Dismiss
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Paperclip } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { fileInboxEmail } from '@/lib/actions/inbound-email.actions';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import type { InboundEmailItem } from '@/lib/types/inbound-email';
+
+interface FileEmailDialogProps {
+  email: InboundEmailItem | null;
+  canFile: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * File Email Dialog Component
+ * Shows a triaged email and files it to a case chosen by case number
+ */
+export function FileEmailDialog({ email, canFile, onOpenChange }: FileEmailDialogProps) {
+  const router = useRouter();
+  const [caseReference, setCaseReference] = useState('');
+  const [isFiling, setIsFiling] = useState(false);
+  const [shownEmailId, setShownEmailId] = useState<number | null>(null);
+
+  // Start from the case the subject referred to, if any
+  if (email && email.id !== shownEmailId) {
+    setShownEmailId(email.id);
+    setCaseReference(email.caseReference ?? '');
+  }
+
+  /**
+   * File the email to the entered case
+   */
+  const handleFile = async () => {
+    if (!email) return;
+
+    setIsFiling(true);
+    const result = await fileInboxEmail(email.id, caseReference);
+    setIsFiling(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to file email');
+      return;
+    }
+
+    toast.success(`Filed to ${result.data.caseReference}`);
+    onOpenChange(false);
+    router.refresh();
+  };
+
+  return (
+    <Dialog open={email !== null} onOpenChange={(open) => !isFiling && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle className="pr-6">{email?.subject}</DialogTitle>
+          <DialogDescription>
+            From {email?.fromName ? `${email.fromName} <${email.fromAddress}>` : email?.fromAddress}
+            {email?.sentAt && ` on ${new Date(email.sentAt).toLocaleString('en-GB')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {email && (
+          <div className="space-y-4">
+            <div className="space-y-1 text-sm">
+              {email.toAddresses.length > 0 && (
+                <div>
+                  <span className="text-muted-foreground">To:</span> {email.toAddresses.join(', ')}
+                </div>
+              )}
+              {email.ccAddresses.length > 0 && (
+                <div>
+                  <span className="text-muted-foreground">Cc:</span> {email.ccAddresses.join(', ')}
+                </div>
+              )}
+              {email.attachmentCount > 0 && (
+                <div className="flex items-center gap-1 text-muted-foreground">
+                  <Paperclip className="h-3 w-3" />
+                  {email.attachmentCount} attachment{email.attachmentCount === 1 ? '' : 's'}
+                </div>
+              )}
+            </div>
+
+            <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-md border bg-muted/50 p-3 font-sans text-sm">
+              {email.bodyText || '(no text)'}
+            </pre>
+
+            {canFile && (
+              <div className="space-y-1">
+                <Label htmlFor="file-email-case">Case number</Label>
+                <Input
+                  id="file-email-case"
+                  placeholder="CASE-0001"
+                  value={caseReference}
+                  disabled={isFiling}
+                  onChange={(event) => setCaseReference(event.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  The email and its attachments are added to this case as an interaction.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isFiling}
+          >
+            Close
+          </Button>
+          {canFile && (
+            <Button type="button" onClick={handleFile} disabled={isFiling || !caseReference.trim()}>
+              {isFiling ? 'Filing...' : 'File to Case'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
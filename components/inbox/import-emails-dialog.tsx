@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { CheckCircle2, Copy, Inbox, XCircle } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+import type { ImportEmailResult } from '@/lib/types/inbound-email';
+
+/**
+ * What happened to one uploaded file
+ */
+interface ImportOutcome {
+  fileName: string;
+  kind: 'filed' | 'triage' | 'duplicate' | 'error';
+  message: string;
+}
+
+const OUTCOME_ICONS = {
+  filed: <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />,
+  triage: <Inbox className="h-4 w-4 shrink-0 text-amber-600" />,
+  duplicate: <Copy className="h-4 w-4 shrink-0 text-muted-foreground" />,
+  error: <XCircle className="h-4 w-4 shrink-0 text-red-600" />,
+};
+
+/**
+ * Describe an import result for the outcome list
+ */
+function describeResult(fileName: string, result: ImportEmailResult): ImportOutcome {
+  const { email, duplicate } = result;
+
+  if (duplicate) {
+    return { fileName, kind: 'duplicate', message: 'Already imported - skipped' };
+  }
+  if (email.status === 'FILED') {
+    return { fileName, kind: 'filed', message: `Filed to ${email.caseReference}` };
+  }
+  return {
+    fileName,
+    kind: 'triage',
+    message: `Sent to triage: ${email.triageReason || 'could not be matched'}`,
+  };
+}
+
+interface ImportEmailsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Import Emails Dialog Component
+ * Uploads .eml files one at a time; each is filed to the case in its subject or sent to triage
+ */
+export function ImportEmailsDialog({ open, onOpenChange }: ImportEmailsDialogProps) {
+  const router = useRouter();
+  const [files, setFiles] = useState<File[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [outcomes, setOutcomes] = useState<ImportOutcome[] | null>(null);
+
+  /**
+   * Upload each selected file and record what happened to it
+   */
+  const handleImport = async () => {
+    setIsImporting(true);
+    const results: ImportOutcome[] = [];
+
+    for (const file of files) {
+      try {
+        const response = await fetch('/api/cases/emails', {
+          method: 'POST',
+          headers: { 'Content-Type': 'message/rfc822' },
+          body: file,
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.success) {
+          throw new Error(result.error?.message || 'Import failed');
+        }
+
+        results.push(describeResult(file.name, result.data));
+      } catch (error) {
+        results.push({
+          fileName: file.name,
+          kind: 'error',
+          message: error instanceof Error ? error.message : 'Import failed',
+        });
+      }
+      setOutcomes([...results]);
+    }
+
+    setIsImporting(false);
+    router.refresh();
+  };
+
+  /**
+   * Close the dialog, clearing the selection and results
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return;
+    if (!nextOpen) {
+      setFiles([]);
+      setOutcomes(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Import Emails</DialogTitle>
+          <DialogDescription>
+            Emails with a case number (e.g. CASE-0001) in the subject, sent to or from one of that
+            client&apos;s contacts, are added to the case with their attachments. Everything else
+            goes to the triage inbox.
+          </DialogDescription>
+        </DialogHeader>
+
+        {outcomes ? (
+          <ul className="max-h-80 space-y-2 overflow-auto">
+            {outcomes.map((outcome, index) => (
+              <li key={`${outcome.fileName}-${index}`} className="flex items-start gap-2 text-sm">
+                {OUTCOME_ICONS[outcome.kind]}
+                <div className="min-w-0">
+                  <div className="truncate font-medium">{outcome.fileName}</div>
+                  <div className="text-muted-foreground">{outcome.message}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="import-emails-files">Email files</Label>
+            <Input
+              id="import-emails-files"
+              type="file"
+              accept=".eml,message/rfc822"
+              multiple
+              disabled={isImporting}
+              onChange={(event) => setFiles(Array.from(event.target.files ?? []))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Save messages from your mail client as .eml files (drag them out of Outlook or use
+              &quot;Save as&quot;).
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {outcomes && !isImporting ? (
+            <Button type="button" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isImporting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || files.length === 0}
+              >
+                {isImporting
+                  ? 'Importing...'
+                  : `Import ${files.length || ''} ${files.length === 1 ? 'Email' : 'Emails'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,43 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { Fragment, useState, useMemo } from 'react';
 
-import { Eye, Download, Share2, Trash2, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { useRouter } from 'next/navigation';
 
+import {
+  Eye,
+  Download,
+  Share2,
+  Trash2,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  History,
+  SquarePen,
+  Upload,
+} from 'lucide-react';
+import { toast } from 'sonner';
+
+import { deleteInternalDocument } from '@/lib/actions/internal-document.actions';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+import { formatInternalVersion } from '@/lib/utils/business/internal-document';
+
+import {
+  INTERNAL_DOCUMENT_TYPE_LABELS,
+  InternalDocumentDialog,
+  type InternalDocumentDialogMode,
+} from '@/components/internal-docs/internal-document-dialog';
+import { usePermission } from '@/components/layouts/permissions-provider';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -18,31 +52,43 @@ import {
 } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 
-/**
- * Document type for internal docs
- */
-export interface InternalDocument {
-  id: string;
-  type: string;
-  version: string;
-  title: string;
-  uploadedAt: Date;
-}
+import type { InternalDocumentItem } from '@/lib/types/internal-document';
+import type { InternalDocumentType } from '@prisma/client';
 
 /**
  * Props for InternalDocsTable component
  */
 export interface InternalDocsTableProps {
-  documents: InternalDocument[];
+  documents: InternalDocumentItem[];
   search?: string;
 }
 
+/**
+ * Download URL for the current version, or an archived version when archiveId is given
+ */
+function getDocumentUrl(documentId: number, archiveId?: number): string {
+  return archiveId
+    ? `/api/admin/internal-docs/${documentId}/archives/${archiveId}`
+    : `/api/admin/internal-docs/${documentId}`;
+}
+
 /**
  * Internal Documents Table Component
  * Displays internal company documents with search, sort, and actions
  */
-export function InternalDocsTable({ documents, search: initialSearch = '' }: InternalDocsTableProps) {
+export function InternalDocsTable({
+  documents,
+  search: initialSearch = '',
+}: InternalDocsTableProps) {
+  const router = useRouter();
   const [searchTerm, setSearchTerm] = useState(initialSearch);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [dialogMode, setDialogMode] = useState<InternalDocumentDialogMode | null>(null);
+  const [selectedDocument, setSelectedDocument] = useState<InternalDocumentItem | null>(null);
+  const [documentToDelete, setDocumentToDelete] = useState<InternalDocumentItem | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const canManage = usePermission('manage_internal_documents');
+  const canDelete = usePermission('delete_internal_document');
   const [sortColumn, setSortColumn] = useState<'type' | 'version' | 'title' | 'uploadedAt'>('type');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 
@@ -66,35 +112,35 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
       const lowerSearch = searchTerm.toLowerCase();
       filtered = documents.filter(
         (doc) =>
-          doc.id.toLowerCase().includes(lowerSearch) ||
-          doc.type.toLowerCase().includes(lowerSearch) ||
+          doc.internalNumber.toLowerCase().includes(lowerSearch) ||
+          INTERNAL_DOCUMENT_TYPE_LABELS[doc.type].toLowerCase().includes(lowerSearch) ||
           doc.title.toLowerCase().includes(lowerSearch) ||
-          doc.version.toLowerCase().includes(lowerSearch)
+          formatInternalVersion(doc.version).toLowerCase().includes(lowerSearch)
       );
     }
 
     // Sort with primary and secondary sort
     return [...filtered].sort((a, b) => {
-      let aVal: string | number | Date = '';
-      let bVal: string | number | Date = '';
+      let aVal: string | number = '';
+      let bVal: string | number = '';
 
       // Primary sort by selected column
       switch (sortColumn) {
         case 'type':
-          aVal = a.type.toLowerCase();
-          bVal = b.type.toLowerCase();
+          aVal = INTERNAL_DOCUMENT_TYPE_LABELS[a.type].toLowerCase();
+          bVal = INTERNAL_DOCUMENT_TYPE_LABELS[b.type].toLowerCase();
           break;
         case 'version':
-          aVal = a.version.toLowerCase();
-          bVal = b.version.toLowerCase();
+          aVal = a.version;
+          bVal = b.version;
           break;
         case 'title':
           aVal = a.title.toLowerCase();
           bVal = b.title.toLowerCase();
           break;
         case 'uploadedAt':
-          aVal = a.uploadedAt.getTime();
-          bVal = b.uploadedAt.getTime();
+          aVal = new Date(a.uploadedAt).getTime();
+          bVal = new Date(b.uploadedAt).getTime();
           break;
       }
 
@@ -103,8 +149,8 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
       if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
 
       // Secondary sort: when primary values are equal, sort by uploadedAt (newest first)
-      const aTime = a.uploadedAt.getTime();
-      const bTime = b.uploadedAt.getTime();
+      const aTime = new Date(a.uploadedAt).getTime();
+      const bTime = new Date(b.uploadedAt).getTime();
       return bTime - aTime; // Descending order (newest first)
     });
   }, [documents, searchTerm, sortColumn, sortDirection]);
@@ -126,17 +172,16 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
   /**
    * Get document type badge variant
    */
-  const getTypeVariant = (type: string): 'default' | 'secondary' | 'outline' => {
-    switch (type.toLowerCase()) {
-      case 'contract':
+  const getTypeVariant = (type: InternalDocumentType): 'default' | 'secondary' | 'outline' => {
+    switch (type) {
+      case 'CONTRACT':
         return 'default'; // Blue
-      case 'policy':
+      case 'POLICY':
         return 'secondary'; // Gray
-      case 'payroll':
-      case 'training':
-      case 'compliance':
-      case 'form':
-      case 'template':
+      case 'TRAINING':
+      case 'COMPLIANCE':
+      case 'FORM':
+      case 'TEMPLATE':
         return 'outline'; // Light
       default:
         return 'outline';
@@ -146,14 +191,54 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
   /**
    * Format date for display
    */
-  const formatDate = (date: Date): string => {
+  const formatDate = (date: string): string => {
     return new Intl.DateTimeFormat('en-GB', {
       day: '2-digit',
       month: 'short',
       year: 'numeric',
       hour: '2-digit',
       minute: '2-digit',
-    }).format(date);
+    }).format(new Date(date));
+  };
+
+  /**
+   * Open the add/version/edit dialog for a document
+   */
+  const openDialog = (mode: InternalDocumentDialogMode, doc: InternalDocumentItem) => {
+    setSelectedDocument(doc);
+    setDialogMode(mode);
+  };
+
+  /**
+   * Copy an absolute link to the document; it only opens for signed-in admins
+   */
+  const handleShare = async (doc: InternalDocumentItem) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${getDocumentUrl(doc.id)}`);
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Failed to copy link');
+    }
+  };
+
+  /**
+   * Delete the selected document and its archived versions
+   */
+  const handleDelete = async () => {
+    if (!documentToDelete) return;
+
+    setIsDeleting(true);
+    const result = await deleteInternalDocument(documentToDelete.id);
+    setIsDeleting(false);
+    setDocumentToDelete(null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete document');
+      return;
+    }
+
+    toast.success('Document deleted');
+    router.refresh();
   };
 
   return (
@@ -215,7 +300,7 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
                     {getSortIcon('uploadedAt')}
                   </button>
                 </TableHead>
-                <TableHead className="w-[220px] text-center text-primary text-base font-semibold">
+                <TableHead className="w-[320px] text-center text-primary text-base font-semibold">
                   Actions
                 </TableHead>
               </TableRow>
@@ -223,82 +308,183 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
             <TableBody>
               {filteredAndSortedDocuments.length > 0 ? (
                 filteredAndSortedDocuments.map((doc) => (
-                  <TableRow key={doc.id} className="cursor-pointer hover:bg-muted/50 transition-all duration-200">
-                    <TableCell className="text-center">
-                      <Badge variant={getTypeVariant(doc.type)} className="w-28 justify-center">
-                        {doc.type}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-center">
-                      <Badge variant="outline" className="w-20 justify-center">
-                        {doc.version}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="font-medium text-left">{doc.title}</TableCell>
-                    <TableCell className="text-sm text-muted-foreground text-center">
-                      {formatDate(doc.uploadedAt)}
-                    </TableCell>
-                    <TableCell className="text-center" onClick={(e) => e.stopPropagation()}>
-                      <div className="flex items-center justify-center gap-2">
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 hover:bg-muted transition-colors"
-                              onClick={() => console.log('View document:', doc.id)}
-                            >
-                              <Eye className="h-4 w-4 text-black" />
-                              <span className="sr-only">View</span>
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>View Document</TooltipContent>
-                        </Tooltip>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-green-600 hover:text-green-500 transition-colors"
-                              onClick={() => console.log('Download document:', doc.id)}
-                            >
-                              <Download className="h-4 w-4" />
-                              <span className="sr-only">Download</span>
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>Download Document</TooltipContent>
-                        </Tooltip>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-purple-600 hover:text-purple-500 transition-colors"
-                              onClick={() => console.log('Share document:', doc.id)}
-                            >
-                              <Share2 className="h-4 w-4" />
-                              <span className="sr-only">Share</span>
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>Share Document</TooltipContent>
-                        </Tooltip>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-red-600 hover:text-red-500 transition-colors"
-                              onClick={() => console.log('Delete document:', doc.id)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                              <span className="sr-only">Delete</span>
-                            </Button>
-                          </TooltipTrigger>
-                          <TooltipContent>Delete Document</TooltipContent>
-                        </Tooltip>
-                      </div>
-                    </TableCell>
-                  </TableRow>
+                  <Fragment key={doc.id}>
+                    <TableRow className="hover:bg-muted/50 transition-all duration-200">
+                      <TableCell className="text-center">
+                        <Badge variant={getTypeVariant(doc.type)} className="w-28 justify-center">
+                          {INTERNAL_DOCUMENT_TYPE_LABELS[doc.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant="outline" className="w-20 justify-center">
+                          {formatInternalVersion(doc.version)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-medium text-left">
+                        {doc.title}
+                        <p className="text-xs font-normal text-muted-foreground">
+                          {doc.internalNumber}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground text-center">
+                        {formatDate(doc.uploadedAt)}
+                        <p className="text-xs">by {doc.uploadedBy}</p>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <div className="flex items-center justify-center gap-2">
+                          {isPreviewableContentType(doc.contentType) && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 hover:bg-muted transition-colors"
+                                  onClick={() =>
+                                    window.open(`${getDocumentUrl(doc.id)}?disposition=inline`, '_blank')
+                                  }
+                                >
+                                  <Eye className="h-4 w-4 text-black" />
+                                  <span className="sr-only">View</span>
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>View Document</TooltipContent>
+                            </Tooltip>
+                          )}
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-green-600 hover:text-green-500 transition-colors"
+                                onClick={() => window.open(getDocumentUrl(doc.id), '_blank')}
+                              >
+                                <Download className="h-4 w-4" />
+                                <span className="sr-only">Download</span>
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Download Document</TooltipContent>
+                          </Tooltip>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-purple-600 hover:text-purple-500 transition-colors"
+                                onClick={() => handleShare(doc)}
+                              >
+                                <Share2 className="h-4 w-4" />
+                                <span className="sr-only">Share</span>
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Copy Link</TooltipContent>
+                          </Tooltip>
+                          {canManage && (
+                            <>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-blue-600 hover:text-blue-500 transition-colors"
+                                    onClick={() => openDialog('version', doc)}
+                                  >
+                                    <Upload className="h-4 w-4" />
+                                    <span className="sr-only">Upload New Version</span>
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>Upload New Version</TooltipContent>
+                              </Tooltip>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-green-800 hover:text-green-600 transition-colors"
+                                    onClick={() => openDialog('edit', doc)}
+                                  >
+                                    <SquarePen className="h-4 w-4" />
+                                    <span className="sr-only">Edit</span>
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>Edit Details</TooltipContent>
+                              </Tooltip>
+                            </>
+                          )}
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 transition-colors"
+                                onClick={() => setExpandedId(expandedId === doc.id ? null : doc.id)}
+                                disabled={doc.archives.length === 0}
+                              >
+                                <History className="h-4 w-4" />
+                                <span className="sr-only">Version History</span>
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              {doc.archives.length === 0
+                                ? 'No previous versions'
+                                : `${doc.archives.length} previous version${doc.archives.length === 1 ? '' : 's'}`}
+                            </TooltipContent>
+                          </Tooltip>
+                          {canDelete && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-red-600 hover:text-red-500 transition-colors"
+                                  onClick={() => setDocumentToDelete(doc)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                  <span className="sr-only">Delete</span>
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Delete Document</TooltipContent>
+                            </Tooltip>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+
+                    {/* Archived versions */}
+                    {expandedId === doc.id &&
+                      doc.archives.map((archive) => (
+                        <TableRow key={`archive-${archive.id}`} className="bg-muted/30 text-muted-foreground">
+                          <TableCell className="text-center text-xs">{archive.archiveNumber}</TableCell>
+                          <TableCell className="text-center">
+                            <Badge variant="outline" className="w-20 justify-center">
+                              {formatInternalVersion(archive.version)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-left">{archive.title}</TableCell>
+                          <TableCell className="text-sm text-center">
+                            {formatDate(archive.uploadedAt)}
+                            <p className="text-xs">
+                              archived {formatDate(archive.archivedAt)} by {archive.archivedBy}
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-center">
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-green-600 hover:text-green-500 transition-colors"
+                                  onClick={() => window.open(getDocumentUrl(doc.id, archive.id), '_blank')}
+                                >
+                                  <Download className="h-4 w-4" />
+                                  <span className="sr-only">Download</span>
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Download Archived Version</TooltipContent>
+                            </Tooltip>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                  </Fragment>
                 ))
               ) : (
                 <TableRow>
@@ -325,6 +511,37 @@ export function InternalDocsTable({ documents, search: initialSearch = '' }: Int
           </Table>
         </CardContent>
       </Card>
+
+      {/* Version / Edit Dialog */}
+      {dialogMode && (
+        <InternalDocumentDialog
+          open={!!dialogMode}
+          onOpenChange={(open) => !open && setDialogMode(null)}
+          mode={dialogMode}
+          document={selectedDocument}
+        />
+      )}
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!documentToDelete}
+        onOpenChange={(open) => !open && !isDeleting && setDocumentToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {documentToDelete?.title}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The document and all of its archived versions will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </>
   );
 }
@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Plus, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  createInternalDocumentUpload,
+  saveInternalDocument,
+  updateInternalDocument,
+} from '@/lib/actions/internal-document.actions';
+import { formatInternalVersion } from '@/lib/utils/business/internal-document';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import type { InternalDocumentItem } from '@/lib/types/internal-document';
+import type { InternalDocumentType } from '@prisma/client';
+
+/**
+ * Display labels for internal document types
+ */
+export const INTERNAL_DOCUMENT_TYPE_LABELS: Record<InternalDocumentType, string> = {
+  POLICY: 'Policy',
+  CONTRACT: 'Contract',
+  TEMPLATE: 'Template',
+  FORM: 'Form',
+  GUIDANCE: 'Guidance',
+  TRAINING: 'Training',
+  COMPLIANCE: 'Compliance',
+  OTHER: 'Other',
+};
+
+/**
+ * create: new document
+ * version: upload the next version of an existing document
+ * edit: change type and title only
+ */
+export type InternalDocumentDialogMode = 'create' | 'version' | 'edit';
+
+interface InternalDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: InternalDocumentDialogMode;
+  document?: InternalDocumentItem | null; // Required for version and edit modes
+}
+
+/**
+ * Internal Document Dialog
+ * Adds a document to the internal library, uploads a new version, or edits details
+ */
+export function InternalDocumentDialog({
+  open,
+  onOpenChange,
+  mode,
+  document,
+}: InternalDocumentDialogProps) {
+  const router = useRouter();
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [type, setType] = useState<InternalDocumentType>('OTHER');
+  const [title, setTitle] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const needsFile = mode !== 'edit';
+
+  /**
+   * Reset the form when the dialog opens, carrying details over from the document
+   */
+  useEffect(() => {
+    if (!open) return;
+
+    setSelectedFile(null);
+    setType(document?.type || 'OTHER');
+    setTitle(document?.title || '');
+  }, [open, document]);
+
+  /**
+   * Handle file selection - default the title to the file name without extension
+   */
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0] || null;
+    setSelectedFile(file);
+    if (file && !title) {
+      setTitle(file.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  /**
+   * Upload the file to storage, then save it as a new document or version
+   */
+  const uploadAndSave = async (file: File) => {
+    const uploadResult = await createInternalDocumentUpload({
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+    });
+
+    if (!uploadResult.success || !uploadResult.data) {
+      throw new Error(uploadResult.error || 'Failed to get upload URL');
+    }
+
+    const uploadResponse = await fetch(uploadResult.data.uploadUrl, {
+      method: 'PUT',
+      body: file,
+      headers: {
+        'Content-Type': uploadResult.data.contentType,
+      },
+    });
+
+    if (!uploadResponse.ok) {
+      throw new Error('Failed to upload file');
+    }
+
+    return saveInternalDocument({
+      internalId: mode === 'version' ? document?.id : null,
+      type,
+      title,
+      fileKey: uploadResult.data.fileKey,
+      fileName: file.name,
+    });
+  };
+
+  /**
+   * Handle save for the current mode
+   */
+  const handleSave = async () => {
+    if (!title.trim() || (needsFile && !selectedFile)) return;
+
+    setIsSaving(true);
+
+    try {
+      const result =
+        mode === 'edit' && document
+          ? await updateInternalDocument(document.id, { type, title })
+          : await uploadAndSave(selectedFile!);
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save document');
+      }
+
+      toast.success(
+        mode === 'version'
+          ? `Uploaded ${formatInternalVersion((document?.version || 0) + 1)}`
+          : mode === 'edit'
+            ? 'Document updated'
+            : 'Document uploaded'
+      );
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save document');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const dialogTitle =
+    mode === 'version' ? 'Upload New Version' : mode === 'edit' ? 'Edit Document' : 'Add Document';
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isSaving && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{dialogTitle}</DialogTitle>
+          <DialogDescription>
+            {mode === 'version' && document
+              ? `${document.internalNumber} ${formatInternalVersion(document.version)} will be moved to the archive.`
+              : mode === 'edit' && document
+                ? document.internalNumber
+                : 'Add a document to the internal library'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* File Selector */}
+          {needsFile && (
+            <div className="space-y-2">
+              <Label htmlFor="internal-document-file">File *</Label>
+              <Input
+                id="internal-document-file"
+                type="file"
+                onChange={handleFileSelect}
+                disabled={isSaving}
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.txt,.png,.jpg,.jpeg"
+                className="cursor-pointer"
+              />
+            </div>
+          )}
+
+          {/* Type */}
+          <div className="space-y-2">
+            <Label htmlFor="internal-document-type">Type *</Label>
+            <Select
+              value={type}
+              onValueChange={(value) => setType(value as InternalDocumentType)}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="internal-document-type" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(INTERNAL_DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Title */}
+          <div className="space-y-2">
+            <Label htmlFor="internal-document-title">Title *</Label>
+            <Input
+              id="internal-document-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isSaving}
+              placeholder="e.g., Standard Service Agreement"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!title.trim() || (needsFile && !selectedFile) || isSaving}
+          >
+            {needsFile && <Upload className="mr-2 h-4 w-4" />}
+            {isSaving ? 'Saving...' : needsFile ? 'Upload' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Add Internal Document Button
+ * Page header button that opens the dialog in create mode
+ */
+export function AddInternalDocumentButton() {
+  const [open, setOpen] = useState(false);
+  const canManage = usePermission('manage_internal_documents');
+
+  if (!canManage) return null;
+
+  return (
+    <>
+      <Button className="w-[200px]" onClick={() => setOpen(true)}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add New Document
+      </Button>
+      <InternalDocumentDialog open={open} onOpenChange={setOpen} mode="create" />
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { createContext, useContext, type ReactNode } from 'react';
+
+import { hasPermission, type Permission } from '@/lib/utils/system/permissions';
+
+import type { AdminRole } from '@/lib/types/admin';
+
+const PermissionsContext = createContext<AdminRole | undefined>(undefined);
+
+/**
+ * Makes the signed-in admin's role available to Client Components
+ * Server Actions enforce the same permissions - this only drives what the UI shows
+ */
+export function PermissionsProvider({ role, children }: { role: AdminRole; children: ReactNode }) {
+  return <PermissionsContext.Provider value={role}>{children}</PermissionsContext.Provider>;
+}
+
+/**
+ * Check whether the signed-in admin holds a permission
+ * Outside the protected layout (no provider) nothing is permitted
+ */
+export function usePermission(permission: Permission): boolean {
+  const role = useContext(PermissionsContext);
+  return role ? hasPermission(role, permission) : false;
+}
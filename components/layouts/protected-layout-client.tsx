@@ -3,30 +3,35 @@
 import { Toaster } from 'sonner';
 
 import { AppSidebar } from '@/components/app-sidebar';
+import { PermissionsProvider } from '@/components/layouts/permissions-provider';
 import { SidebarInset, SidebarTrigger, SidebarProvider } from '@/components/ui/sidebar';
 
+import type { AdminRole } from '@/lib/types/admin';
+
 interface ProtectedLayoutClientProps {
   children: React.ReactNode;
   user: {
     name: string;
     email: string;
-    role: string;
+    role: AdminRole;
   };
 }
 
 export function ProtectedLayoutClient({ children, user }: ProtectedLayoutClientProps) {
   return (
-    <SidebarProvider>
-      <AppSidebar user={user} />
-      <SidebarInset>
-        <header className="flex h-16 shrink-0 items-center gap-2 border-b">
-          <div className="flex items-center gap-2 px-3">
-            <SidebarTrigger />
-          </div>
-        </header>
-        <main className="flex-1">{children}</main>
-      </SidebarInset>
-      <Toaster />
-    </SidebarProvider>
+    <PermissionsProvider role={user.role}>
+      <SidebarProvider>
+        <AppSidebar user={user} />
+        <SidebarInset>
+          <header className="flex h-16 shrink-0 items-center gap-2 border-b">
+            <div className="flex items-center gap-2 px-3">
+              <SidebarTrigger />
+            </div>
+          </header>
+          <main className="flex-1">{children}</main>
+        </SidebarInset>
+        <Toaster />
+      </SidebarProvider>
+    </PermissionsProvider>
   );
 }
@@ -1,6 +1,8 @@
 'use client';
 
-import { Bell, ChevronsUpDown, LogOut } from 'lucide-react';
+import Link from 'next/link';
+
+import { Bell, ChevronsUpDown, LogOut, ShieldCheck } from 'lucide-react';
 
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
@@ -86,6 +88,12 @@ export function NavUser({
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
+            <DropdownMenuItem asChild>
+              <Link href="/admin/account">
+                <ShieldCheck />
+                Account Security
+              </Link>
+            </DropdownMenuItem>
             <DropdownMenuItem>
               <Bell />
               Notifications
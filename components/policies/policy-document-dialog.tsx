@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { toast } from 'sonner';
+
+import { createPolicyDraft, createPolicyUpload } from '@/lib/actions/policy.actions';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+import type { PolicyDocument, PolicyDocumentKind } from '@/lib/types/policy';
+import type { PolicyType } from '@prisma/client';
+
+/**
+ * Display labels for policy types
+ */
+export const POLICY_TYPE_LABELS: Record<PolicyType, string> = {
+  HOLIDAY: 'Holiday',
+  SICKNESS_ABSENCE: 'Sickness Absence',
+  DISCIPLINARY: 'Disciplinary',
+  GRIEVANCE: 'Grievance',
+  EQUALITY_DIVERSITY: 'Equality & Diversity',
+  HEALTH_SAFETY: 'Health & Safety',
+  DATA_PROTECTION: 'Data Protection',
+  FAMILY_LEAVE: 'Family Leave',
+  FLEXIBLE_WORKING: 'Flexible Working',
+  CODE_OF_CONDUCT: 'Code of Conduct',
+  OTHER: 'Other',
+};
+
+interface AdminUser {
+  id: string;
+  name: string;
+}
+
+interface PolicyDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  clientId: number;
+  kind: PolicyDocumentKind;
+  adminUsers: AdminUser[];
+  previousVersion?: PolicyDocument | null; // Set when drafting a new version
+}
+
+/**
+ * Policy Document Dialog
+ * Drafts a new policy or handbook, or the next version of an issued one
+ */
+export function PolicyDocumentDialog({
+  open,
+  onOpenChange,
+  clientId,
+  kind,
+  adminUsers,
+  previousVersion,
+}: PolicyDocumentDialogProps) {
+  const router = useRouter();
+  const [title, setTitle] = useState('');
+  const [policyType, setPolicyType] = useState<PolicyType>('OTHER');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [nextReviewDate, setNextReviewDate] = useState('');
+  const [authorId, setAuthorId] = useState('');
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const label = kind === 'policy' ? 'Policy' : 'Handbook';
+
+  /**
+   * Reset the form when the dialog opens, carrying details over from the previous version
+   */
+  useEffect(() => {
+    if (!open) return;
+
+    setTitle(previousVersion?.title || '');
+    setPolicyType(previousVersion?.policyType || 'OTHER');
+    setEffectiveDate('');
+    setNextReviewDate('');
+    setAuthorId('');
+    setSelectedFile(null);
+  }, [open, previousVersion]);
+
+  /**
+   * Upload the file (if any) then create the draft
+   */
+  const handleSave = async () => {
+    if (!title.trim()) return;
+
+    setIsSaving(true);
+
+    try {
+      let fileKey: string | null = null;
+
+      if (selectedFile) {
+        const uploadResult = await createPolicyUpload({
+          clientId,
+          kind,
+          fileName: selectedFile.name,
+          fileType: selectedFile.type,
+          fileSize: selectedFile.size,
+        });
+
+        if (!uploadResult.success || !uploadResult.data) {
+          throw new Error(uploadResult.error || 'Failed to get upload URL');
+        }
+
+        const uploadResponse = await fetch(uploadResult.data.uploadUrl, {
+          method: 'PUT',
+          body: selectedFile,
+          headers: {
+            'Content-Type': uploadResult.data.contentType,
+          },
+        });
+
+        if (!uploadResponse.ok) {
+          throw new Error('Failed to upload file');
+        }
+
+        fileKey = uploadResult.data.fileKey;
+      }
+
+      const result = await createPolicyDraft({
+        clientId,
+        kind,
+        supersedesId: previousVersion?.id || null,
+        title,
+        policyType: kind === 'policy' ? policyType : null,
+        effectiveDate: effectiveDate || null,
+        nextReviewDate: nextReviewDate || null,
+        authorId: authorId || null,
+        fileKey,
+        fileName: selectedFile?.name || null,
+      });
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to create draft');
+      }
+
+      toast.success(`${result.data.number} saved as draft`);
+      onOpenChange(false);
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create draft');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isSaving && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-[550px]">
+        <DialogHeader>
+          <DialogTitle>
+            {previousVersion ? `New Version of ${previousVersion.number}` : `New ${label}`}
+          </DialogTitle>
+          <DialogDescription>
+            {previousVersion
+              ? `Drafts v${previousVersion.version + 1}. v${previousVersion.version} stays in force until the draft is issued.`
+              : `Drafts a new ${label.toLowerCase()}. It can be issued once the document is uploaded.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Title */}
+          <div className="space-y-2">
+            <Label htmlFor="policy-title">Title *</Label>
+            <Input
+              id="policy-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isSaving}
+              placeholder={kind === 'policy' ? 'e.g., Holiday Policy' : 'e.g., Employee Handbook'}
+            />
+          </div>
+
+          {/* Policy Type */}
+          {kind === 'policy' && (
+            <div className="space-y-2">
+              <Label htmlFor="policy-type">Policy Type</Label>
+              <Select
+                value={policyType}
+                onValueChange={(value) => setPolicyType(value as PolicyType)}
+                disabled={isSaving || !!previousVersion}
+              >
+                <SelectTrigger id="policy-type" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(POLICY_TYPE_LABELS).map(([value, typeLabel]) => (
+                    <SelectItem key={value} value={value}>
+                      {typeLabel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Dates */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy-effective-date">Effective Date</Label>
+              <Input
+                id="policy-effective-date"
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-review-date">Next Review Date</Label>
+              <Input
+                id="policy-review-date"
+                type="date"
+                value={nextReviewDate}
+                onChange={(e) => setNextReviewDate(e.target.value)}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          {/* Author */}
+          <div className="space-y-2">
+            <Label htmlFor="policy-author">Author</Label>
+            <Select
+              value={authorId || 'me'}
+              onValueChange={(value) => setAuthorId(value === 'me' ? '' : value)}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="policy-author" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="me">Me</SelectItem>
+                {adminUsers.map((admin) => (
+                  <SelectItem key={admin.id} value={admin.id}>
+                    {admin.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* File */}
+          <div className="space-y-2">
+            <Label htmlFor="policy-file">Document</Label>
+            <Input
+              id="policy-file"
+              type="file"
+              onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+              disabled={isSaving}
+              accept=".pdf,.doc,.docx"
+              className="cursor-pointer"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!title.trim() || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,400 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { AlertTriangle, CopyPlus, Download, Eye, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import {
+  deletePolicyDraft,
+  issuePolicyDocument,
+  updatePolicyReviewDate,
+} from '@/lib/actions/policy.actions';
+import { isPreviewableContentType } from '@/lib/utils/business/file';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import {
+  POLICY_TYPE_LABELS,
+  PolicyDocumentDialog,
+} from '@/components/policies/policy-document-dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+import type { PolicyDocument, PolicyDocumentKind } from '@/lib/types/policy';
+import type { PolicyStatus } from '@prisma/client';
+
+interface PolicyDocumentsListProps {
+  clientId: number;
+  kind: PolicyDocumentKind;
+  documents: PolicyDocument[];
+  adminUsers: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Get badge variant based on policy status
+ */
+function getStatusVariant(status: PolicyStatus): 'default' | 'secondary' | 'outline' {
+  switch (status) {
+    case 'ISSUED':
+      return 'default';
+    case 'DRAFT':
+      return 'secondary';
+    case 'SUPERSEDED':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+}
+
+/**
+ * Get status display text
+ */
+function getStatusText(status: PolicyStatus): string {
+  switch (status) {
+    case 'ISSUED':
+      return 'Issued';
+    case 'DRAFT':
+      return 'Draft';
+    case 'SUPERSEDED':
+      return 'Superseded';
+    default:
+      return status;
+  }
+}
+
+/**
+ * Format a YYYY-MM-DD date for display
+ */
+function formatDate(date: string | null): string {
+  if (!date) return '-';
+  return new Date(date).toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+type PendingAction = { type: 'issue' | 'delete'; document: PolicyDocument } | null;
+
+/**
+ * Policy Documents List Component
+ * Version history for a client's policies or handbooks, latest version first
+ */
+export function PolicyDocumentsList({
+  clientId,
+  kind,
+  documents,
+  adminUsers,
+}: PolicyDocumentsListProps) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [previousVersion, setPreviousVersion] = useState<PolicyDocument | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const canManage = usePermission('manage_policies');
+
+  const label = kind === 'policy' ? 'Policy' : 'Handbook';
+  const collection = kind === 'policy' ? 'policies' : 'handbooks';
+
+  /**
+   * Open the dialog for a brand new document or the next version of an issued one
+   */
+  const openDialog = (document: PolicyDocument | null) => {
+    setPreviousVersion(document);
+    setDialogOpen(true);
+  };
+
+  /**
+   * Open or download the stored file
+   */
+  const openFile = (document: PolicyDocument, inline: boolean) => {
+    const url = `/api/clients/${clientId}/${collection}/${document.id}`;
+    window.open(inline ? `${url}?disposition=inline` : url, '_blank');
+  };
+
+  /**
+   * Save a new review date
+   */
+  const handleReviewDateChange = async (document: PolicyDocument, value: string) => {
+    const result = await updatePolicyReviewDate(clientId, kind, document.id, value || null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update review date');
+      return;
+    }
+
+    toast.success('Review date updated');
+    router.refresh();
+  };
+
+  /**
+   * Run the confirmed issue or delete action
+   */
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+
+    setIsWorking(true);
+
+    const { type, document } = pendingAction;
+    const result =
+      type === 'issue'
+        ? await issuePolicyDocument(clientId, kind, document.id)
+        : await deletePolicyDraft(clientId, kind, document.id);
+
+    setIsWorking(false);
+    setPendingAction(null);
+
+    if (!result.success) {
+      toast.error(result.error || `Failed to ${type} ${label.toLowerCase()}`);
+      return;
+    }
+
+    toast.success(type === 'issue' ? `${document.number} issued` : 'Draft deleted');
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{kind === 'policy' ? 'Policies' : 'Handbooks'}</CardTitle>
+        {canManage && (
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New {label}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Number</TableHead>
+              <TableHead>Title</TableHead>
+              {kind === 'policy' && <TableHead>Type</TableHead>}
+              <TableHead className="text-center">Version</TableHead>
+              <TableHead className="text-center">Status</TableHead>
+              <TableHead>Effective</TableHead>
+              <TableHead>Next Review</TableHead>
+              <TableHead>Author</TableHead>
+              <TableHead className="text-center">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {documents.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={kind === 'policy' ? 9 : 8}
+                  className="text-center text-muted-foreground py-8"
+                >
+                  No {collection} yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              documents.map((document) => {
+                const isSuperseded = document.status === 'SUPERSEDED';
+                const canDraftNewVersion = document.status === 'ISSUED' && !document.supersededById;
+
+                return (
+                  <TableRow
+                    key={document.id}
+                    className={isSuperseded ? 'text-muted-foreground' : ''}
+                  >
+                    <TableCell className="font-medium">{document.number}</TableCell>
+                    <TableCell>{document.title}</TableCell>
+                    {kind === 'policy' && (
+                      <TableCell>
+                        {document.policyType ? POLICY_TYPE_LABELS[document.policyType] : '-'}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-center">v{document.version}</TableCell>
+                    <TableCell className="text-center">
+                      <Badge variant={getStatusVariant(document.status)}>
+                        {getStatusText(document.status)}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatDate(document.effectiveDate)}</TableCell>
+                    <TableCell>
+                      {isSuperseded || !canManage ? (
+                        <div className="flex items-center gap-2">
+                          {formatDate(document.nextReviewDate)}
+                          {document.isOverdueForReview && (
+                            <Badge variant="destructive" className="gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Overdue
+                            </Badge>
+                          )}
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="date"
+                            defaultValue={document.nextReviewDate || ''}
+                            onBlur={(e) => {
+                              if (e.target.value !== (document.nextReviewDate || '')) {
+                                handleReviewDateChange(document, e.target.value);
+                              }
+                            }}
+                            className="h-8 w-[150px]"
+                          />
+                          {document.isOverdueForReview && (
+                            <Badge variant="destructive" className="gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              Overdue
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{document.authorName || '-'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-center gap-1">
+                        {document.fileName && isPreviewableContentType(document.contentType) && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => openFile(document, true)}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>View</TooltipContent>
+                          </Tooltip>
+                        )}
+                        {document.fileName && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => openFile(document, false)}
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Download</TooltipContent>
+                          </Tooltip>
+                        )}
+                        {canManage && document.status === 'DRAFT' && (
+                          <>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-green-800 hover:text-green-600"
+                                  onClick={() => setPendingAction({ type: 'issue', document })}
+                                  disabled={!document.fileName}
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                {document.fileName ? 'Issue' : 'Upload a document before issuing'}
+                              </TooltipContent>
+                            </Tooltip>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-destructive"
+                                  onClick={() => setPendingAction({ type: 'delete', document })}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent>Delete Draft</TooltipContent>
+                            </Tooltip>
+                          </>
+                        )}
+                        {canManage && canDraftNewVersion && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => openDialog(document)}
+                              >
+                                <CopyPlus className="h-4 w-4" />
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>New Version</TooltipContent>
+                          </Tooltip>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <PolicyDocumentDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        clientId={clientId}
+        kind={kind}
+        adminUsers={adminUsers}
+        previousVersion={previousVersion}
+      />
+
+      <AlertDialog
+        open={!!pendingAction}
+        onOpenChange={(open) => !open && !isWorking && setPendingAction(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === 'issue'
+                ? `Issue ${pendingAction.document.number} v${pendingAction.document.version}?`
+                : 'Delete draft?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === 'issue'
+                ? pendingAction.document.supersedesId
+                  ? 'The previous version will be marked as superseded.'
+                  : `This ${label.toLowerCase()} will become the issued version.`
+                : 'The draft and its uploaded document will be permanently removed.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} disabled={isWorking}>
+              {pendingAction?.type === 'issue' ? 'Issue' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
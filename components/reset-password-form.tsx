@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+
+import Link from 'next/link';
+
+import { NewPasswordForm } from '@/components/account/new-password-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+import { resetPasswordAction } from '@/app/admin/(auth)/login/actions';
+
+interface ResetPasswordFormProps {
+  token: string;
+  email: string | null; // Null when the link is invalid, used or expired
+}
+
+/**
+ * Reset Password Form Component
+ * Sets a new password from an emailed reset link
+ */
+export function ResetPasswordForm({ token, email }: ResetPasswordFormProps) {
+  const [isReset, setIsReset] = useState(false);
+
+  /**
+   * Save the new password, then offer the way back to login
+   */
+  const handleSubmit = async (password: string) => {
+    const result = await resetPasswordAction(token, password);
+    if (result.success) {
+      setIsReset(true);
+    }
+    return result;
+  };
+
+  if (!email) {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Link Expired</CardTitle>
+          <CardDescription>
+            This password reset link is invalid, has already been used or has expired
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Button className="w-full" asChild>
+            <Link href="/admin/login/forgot">Request a new link</Link>
+          </Button>
+          <Button variant="ghost" className="w-full" asChild>
+            <Link href="/admin/login">Back to login</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isReset) {
+    return (
+      <Card className="w-full max-w-sm">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold">Password Reset</CardTitle>
+          <CardDescription>
+            Your password has been changed and you have been signed out everywhere
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button className="w-full" asChild>
+            <Link href="/admin/login">Go to login</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold">Choose a New Password</CardTitle>
+        <CardDescription>For {email}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <NewPasswordForm onSubmit={handleSubmit} submitLabel="Reset password" />
+      </CardContent>
+    </Card>
+  );
+}
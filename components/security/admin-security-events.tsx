@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+import { getAdminSecurityEvents } from '@/lib/actions/security.actions';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import { SecurityEventsTable } from '@/components/security/security-events-table';
+
+import type { SecurityEventItem } from '@/lib/types/security';
+
+interface AdminSecurityEventsProps {
+  adminId: string;
+}
+
+/**
+ * Admin Security Events Component
+ * An admin's recent logins, failures and credential changes, for the edit-admin dialog
+ * Hidden for roles without view_security_events
+ */
+export function AdminSecurityEvents({ adminId }: AdminSecurityEventsProps) {
+  const canView = usePermission('view_security_events');
+  const [events, setEvents] = useState<SecurityEventItem[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!canView) return;
+
+    let cancelled = false;
+    setEvents(null);
+    setError('');
+
+    getAdminSecurityEvents(adminId).then((result) => {
+      if (cancelled) return;
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to load security events');
+        return;
+      }
+      setEvents(result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [adminId, canView]);
+
+  if (!canView) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Recent Security Events</h3>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : events === null ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto rounded-md border">
+          <SecurityEventsTable events={events} showAccount={false} />
+        </div>
+      )}
+    </div>
+  );
+}
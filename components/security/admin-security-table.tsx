@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { LockOpen } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { unlockAdminAccount } from '@/lib/actions/security.actions';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { AdminSecuritySummary } from '@/lib/types/security';
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string | null): string {
+  if (!value) return 'Never';
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface AdminSecurityTableProps {
+  admins: AdminSecuritySummary[];
+}
+
+/**
+ * Admin Security Table Component
+ * Each admin's last login and lockout state, with unlock for locked accounts
+ */
+export function AdminSecurityTable({ admins }: AdminSecurityTableProps) {
+  const router = useRouter();
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+
+  /**
+   * Unlock an account locked by failed logins
+   */
+  const handleUnlock = async (admin: AdminSecuritySummary) => {
+    setUnlockingId(admin.id);
+    const result = await unlockAdminAccount(admin.id);
+    setUnlockingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to unlock account');
+      return;
+    }
+
+    toast.success(`${admin.name} can sign in again`);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Accounts</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Admin</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Last Login</TableHead>
+              <TableHead>From</TableHead>
+              <TableHead className="text-center">Failed Attempts</TableHead>
+              <TableHead className="text-center">Status</TableHead>
+              <TableHead className="text-center">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {admins.map((admin) => (
+              <TableRow key={admin.id} className={admin.isActive ? '' : 'text-muted-foreground'}>
+                <TableCell>
+                  <div className="font-medium">{admin.name}</div>
+                  <div className="text-xs text-muted-foreground">{admin.email}</div>
+                </TableCell>
+                <TableCell>{admin.role}</TableCell>
+                <TableCell className="whitespace-nowrap text-sm">
+                  {formatDateTime(admin.lastLoginAt)}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{admin.lastLoginIp || '-'}</TableCell>
+                <TableCell className="text-center">{admin.failedLoginAttempts}</TableCell>
+                <TableCell className="text-center">
+                  {admin.isLocked ? (
+                    <Badge variant="destructive">
+                      {admin.lockedUntil
+                        ? `Locked until ${new Date(admin.lockedUntil).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}`
+                        : 'Locked'}
+                    </Badge>
+                  ) : admin.isActive ? (
+                    <Badge variant="default">Active</Badge>
+                  ) : (
+                    <Badge variant="secondary">Inactive</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-center">
+                  {admin.isLocked && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleUnlock(admin)}
+                      disabled={unlockingId === admin.id}
+                    >
+                      <LockOpen className="mr-2 h-4 w-4" />
+                      {unlockingId === admin.id ? 'Unlocking...' : 'Unlock'}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
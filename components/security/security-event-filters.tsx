@@ -0,0 +1,114 @@
+'use client';
+
+import { useTransition } from 'react';
+
+import { useRouter, useSearchParams } from 'next/navigation';
+
+import { Loader2, X } from 'lucide-react';
+
+import { SECURITY_EVENT_LABELS } from '@/components/security/security-events-table';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const ALL = 'all';
+
+const FILTER_KEYS = ['admin', 'type'] as const;
+
+interface SecurityEventFiltersProps {
+  admins: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Security Event Filters Component
+ * Keeps the filters in the URL so the server page can query with them
+ */
+export function SecurityEventFilters({ admins }: SecurityEventFiltersProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const hasFilters = FILTER_KEYS.some((key) => searchParams.get(key));
+
+  /**
+   * Set or clear a filter and go back to the first page
+   */
+  const updateFilter = (key: (typeof FILTER_KEYS)[number], value: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+
+    if (value && value !== ALL) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+
+    params.delete('page');
+
+    startTransition(() => {
+      router.push(`/admin/security?${params.toString()}`);
+    });
+  };
+
+  /**
+   * Clear every filter
+   */
+  const resetFilters = () => {
+    startTransition(() => {
+      router.push('/admin/security');
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={searchParams.get('admin') || ALL}
+        onValueChange={(value) => updateFilter('admin', value)}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue placeholder="All admins" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All admins</SelectItem>
+          {admins.map((admin) => (
+            <SelectItem key={admin.id} value={admin.id}>
+              {admin.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={searchParams.get('type') || ALL}
+        onValueChange={(value) => updateFilter('type', value)}
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue placeholder="All events" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All events</SelectItem>
+          {Object.entries(SECURITY_EVENT_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {hasFilters && (
+        <Button variant="ghost" size="sm" onClick={resetFilters} disabled={isPending}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+
+      {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+    </div>
+  );
+}
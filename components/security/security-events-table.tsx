@@ -0,0 +1,122 @@
+'use client';
+
+import { describeUserAgent } from '@/components/account/active-sessions-list';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { SecurityEventItem } from '@/lib/types/security';
+import type { SecurityEventType } from '@prisma/client';
+
+/**
+ * Display labels for security event types
+ */
+export const SECURITY_EVENT_LABELS: Record<SecurityEventType, string> = {
+  LOGIN_SUCCESS: 'Login',
+  LOGIN_FAILED: 'Failed Login',
+  ACCOUNT_LOCKED: 'Locked',
+  ACCOUNT_UNLOCKED: 'Unlocked',
+  LOGOUT: 'Logout',
+  PASSWORD_CHANGED: 'Password Changed',
+  ROLE_CHANGED: 'Role Changed',
+};
+
+/**
+ * Get badge variant for a security event type
+ */
+function getEventVariant(
+  type: SecurityEventType
+): 'default' | 'secondary' | 'destructive' | 'outline' {
+  switch (type) {
+    case 'LOGIN_FAILED':
+    case 'ACCOUNT_LOCKED':
+      return 'destructive';
+    case 'LOGIN_SUCCESS':
+      return 'default';
+    case 'LOGOUT':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+}
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface SecurityEventsTableProps {
+  events: SecurityEventItem[];
+  showAccount?: boolean; // Include the account column (security page); off for a single admin
+}
+
+/**
+ * Security Events Table Component
+ * Sign-ins, failures, lockouts and credential changes with where they came from
+ */
+export function SecurityEventsTable({ events, showAccount = true }: SecurityEventsTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          {showAccount && <TableHead>Account</TableHead>}
+          <TableHead>Event</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead>IP Address</TableHead>
+          <TableHead>Device</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {events.length === 0 ? (
+          <TableRow>
+            <TableCell
+              colSpan={showAccount ? 6 : 5}
+              className="text-center text-muted-foreground py-8"
+            >
+              No security events
+            </TableCell>
+          </TableRow>
+        ) : (
+          events.map((event) => (
+            <TableRow key={event.id}>
+              <TableCell className="whitespace-nowrap text-sm">
+                {formatDateTime(event.createdAt)}
+              </TableCell>
+              {showAccount && <TableCell className="text-sm">{event.email || '-'}</TableCell>}
+              <TableCell>
+                <Badge variant={getEventVariant(event.type)}>
+                  {SECURITY_EVENT_LABELS[event.type]}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm">
+                {event.details || '-'}
+                {event.actorName && (
+                  <span className="text-muted-foreground"> · by {event.actorName}</span>
+                )}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{event.ipAddress || '-'}</TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {event.userAgent ? describeUserAgent(event.userAgent) : '-'}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
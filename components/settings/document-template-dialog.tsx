@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+import {
+  createDocumentTemplate,
+  updateDocumentTemplate,
+} from '@/lib/actions/document-template.actions';
+import {
+  DOCUMENT_TEMPLATE_ENTITY_LABELS,
+  MERGE_FIELD_GROUPS,
+} from '@/lib/utils/business/document-template';
+import {
+  documentTemplateSchema,
+  type DocumentTemplateFormValues,
+} from '@/lib/validations/document-template';
+
+import { DOCUMENT_CATEGORY_LABELS } from '@/components/documents/document-upload-dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+
+import type { DocumentTemplateItem } from '@/lib/types/document-template';
+import type { DocumentTemplateEntityValue } from '@/lib/utils/business/document-template';
+import type { ClientDocumentCategory } from '@prisma/client';
+
+interface DocumentTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  template: DocumentTemplateItem | null; // Null to create a new template
+}
+
+const EMPTY_TEMPLATE: DocumentTemplateFormValues = {
+  name: '',
+  description: '',
+  entityType: 'CLIENT',
+  category: 'CORRESPONDENCE',
+  body: '',
+  active: true,
+};
+
+/**
+ * Document Template Dialog Component
+ * Create or edit a template - its text, the record it generates from and where client
+ * and contract documents are filed. Clicking a merge field inserts it at the cursor
+ */
+export function DocumentTemplateDialog({
+  open,
+  onOpenChange,
+  template,
+}: DocumentTemplateDialogProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const form = useForm<DocumentTemplateFormValues>({
+    resolver: zodResolver(documentTemplateSchema),
+    defaultValues: EMPTY_TEMPLATE,
+  });
+
+  const entityType = form.watch('entityType');
+
+  /**
+   * Load the template being edited each time the dialog opens
+   */
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      template
+        ? {
+            name: template.name,
+            description: template.description ?? '',
+            entityType: template.entityType,
+            category: template.category,
+            body: template.body,
+            active: template.active,
+          }
+        : EMPTY_TEMPLATE
+    );
+  }, [open, template, form]);
+
+  async function onSubmit(data: DocumentTemplateFormValues) {
+    setIsSaving(true);
+
+    const result = template
+      ? await updateDocumentTemplate(template.id, data)
+      : await createDocumentTemplate(data);
+
+    setIsSaving(false);
+
+    if (!result.success) {
+      toast.error(`Failed to ${template ? 'update' : 'create'} template`, {
+        description: result.error,
+      });
+      return;
+    }
+
+    toast.success(`${data.name} ${template ? 'updated' : 'created'}`);
+    onOpenChange(false);
+    router.refresh();
+  }
+
+  /**
+   * Insert a merge field at the cursor in the template text
+   */
+  const insertMergeField = (key: string) => {
+    const body = form.getValues('body');
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    const token = `{{${key}}}`;
+
+    form.setValue('body', body.slice(0, start) + token + body.slice(end), {
+      shouldValidate: form.formState.isSubmitted,
+    });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  /**
+   * Close the dialog unless a save is in progress
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isSaving) return;
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Template' : 'Create Template'}</DialogTitle>
+          <DialogDescription>
+            Templates are written in HTML and generated as PDFs. Headings, paragraphs, lists,
+            tables, bold and italic text and embedded PNG or JPEG images (such as a letterhead) are
+            supported. Add class=&quot;page-break&quot; to an element to start it on a new page.
+            Scripts, remote images and other unsupported markup are removed when saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Invitation to disciplinary hearing"
+                        disabled={isSaving}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional" disabled={isSaving} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="entityType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Generated From</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) =>
+                        field.onChange(value as DocumentTemplateEntityValue)
+                      }
+                      disabled={isSaving}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(DOCUMENT_TEMPLATE_ENTITY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Decides the merge fields the template can use</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Document Category</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => field.onChange(value as ClientDocumentCategory)}
+                      disabled={isSaving || entityType === 'CASE'}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(DOCUMENT_CATEGORY_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {entityType === 'CASE'
+                        ? 'Case documents are stored as case files'
+                        : "Where the document is filed in the client's repository"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-[1fr_240px]">
+              <FormField
+                control={form.control}
+                name="body"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Template HTML</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        className="min-h-[360px] font-mono text-sm"
+                        placeholder={
+                          '<h1>Invitation to a disciplinary hearing</h1>\n<p>{{today}}</p>\n<p>Dear {{case.employeeName}},</p>'
+                        }
+                        disabled={isSaving}
+                        {...field}
+                        ref={(element) => {
+                          field.ref(element);
+                          bodyRef.current = element;
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-3">
+                <p className="text-sm font-medium">Merge Fields</p>
+                <div className="max-h-[360px] space-y-3 overflow-y-auto rounded-md border p-3">
+                  {MERGE_FIELD_GROUPS[entityType].map((group) => (
+                    <div key={group.label} className="space-y-1">
+                      <p className="text-xs font-semibold text-muted-foreground">{group.label}</p>
+                      {group.fields.map((field) => (
+                        <button
+                          key={field.key}
+                          type="button"
+                          className="block w-full rounded px-1 py-0.5 text-left text-xs hover:bg-muted"
+                          onClick={() => insertMergeField(field.key)}
+                          disabled={isSaving}
+                          title={`Insert {{${field.key}}}`}
+                        >
+                          {field.label}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 space-y-0">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={isSaving}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">
+                    Active - inactive templates are hidden when generating documents
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={isSaving}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : template ? 'Save Template' : 'Create Template'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { deleteDocumentTemplate } from '@/lib/actions/document-template.actions';
+import { DOCUMENT_TEMPLATE_ENTITY_LABELS } from '@/lib/utils/business/document-template';
+
+import { DOCUMENT_CATEGORY_LABELS } from '@/components/documents/document-upload-dialog';
+import { DocumentTemplateDialog } from '@/components/settings/document-template-dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { DocumentTemplateItem } from '@/lib/types/document-template';
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface DocumentTemplatesTableProps {
+  templates: DocumentTemplateItem[];
+}
+
+/**
+ * Document Templates Table Component
+ * Every template with the record it generates from, with create, edit and delete
+ */
+export function DocumentTemplatesTable({ templates }: DocumentTemplatesTableProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<DocumentTemplateItem | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [deleting, setDeleting] = useState<DocumentTemplateItem | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  /**
+   * Open the editor for a new or existing template
+   */
+  const openEditor = (template: DocumentTemplateItem | null) => {
+    setEditing(template);
+    setIsEditorOpen(true);
+  };
+
+  /**
+   * Delete the template awaiting confirmation
+   */
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsDeleting(true);
+    const result = await deleteDocumentTemplate(deleting.id);
+    setIsDeleting(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete template');
+      return;
+    }
+
+    toast.success(`${deleting.name} deleted`);
+    setDeleting(null);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Document Templates</CardTitle>
+        <Button size="sm" onClick={() => openEditor(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Template
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {templates.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">
+            No document templates have been created yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Generated From</TableHead>
+                <TableHead>Filed As</TableHead>
+                <TableHead>Last Updated</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow
+                  key={template.id}
+                  className={template.active ? '' : 'text-muted-foreground'}
+                >
+                  <TableCell>
+                    <div className="font-medium">{template.name}</div>
+                    {template.description && (
+                      <div className="text-xs text-muted-foreground">{template.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{DOCUMENT_TEMPLATE_ENTITY_LABELS[template.entityType]}</TableCell>
+                  <TableCell>
+                    {template.entityType === 'CASE'
+                      ? 'Case file'
+                      : DOCUMENT_CATEGORY_LABELS[template.category]}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(template.updatedAt)}
+                    <div className="text-xs text-muted-foreground">by {template.updatedBy}</div>
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {template.active ? (
+                      <Badge variant="default">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <div className="flex justify-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openEditor(template)}>
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setDeleting(template)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <DocumentTemplateDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        template={editing}
+      />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !isDeleting && !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Documents already generated from this template are kept. Make the template inactive
+              instead to hide it without losing its text.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
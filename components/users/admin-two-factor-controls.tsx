@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { ShieldAlert, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { usePermission } from '@/components/layouts/permissions-provider';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+import {
+  resetAdminTwoFactor,
+  setAdminTwoFactorRequired,
+} from '@/app/admin/(protected)/users/actions';
+
+import type { SerializableAdmin } from '@/lib/types/admin';
+
+/**
+ * Admin Two-Factor Badge Component
+ * Shows whether an admin has 2FA and whether it is required
+ */
+export function AdminTwoFactorBadge({ admin }: { admin: SerializableAdmin }) {
+  if (admin.twoFactorEnabled) {
+    return <Badge className="w-24 justify-center">Enabled</Badge>;
+  }
+
+  if (admin.twoFactorRequired) {
+    return (
+      <Badge variant="secondary" className="w-24 justify-center">
+        Pending
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="w-24 justify-center">
+      Off
+    </Badge>
+  );
+}
+
+/**
+ * Admin Two-Factor Controls Component
+ * Require or reset 2FA for an admin - SUPER_ADMIN only
+ */
+export function AdminTwoFactorControls({ admin }: { admin: SerializableAdmin }) {
+  const router = useRouter();
+  const canManageSecurity = usePermission('manage_admin_security');
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  if (!canManageSecurity) return null;
+
+  /**
+   * Toggle whether 2FA is required
+   */
+  const handleToggleRequired = async () => {
+    setIsWorking(true);
+    const result = await setAdminTwoFactorRequired(admin.id, !admin.twoFactorRequired);
+    setIsWorking(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update two-factor requirement');
+      return;
+    }
+
+    toast.success(
+      admin.twoFactorRequired
+        ? `Two-factor no longer required for ${admin.name}`
+        : `Two-factor required for ${admin.name}`
+    );
+    router.refresh();
+  };
+
+  /**
+   * Remove the admin's authenticator and recovery codes
+   */
+  const handleReset = async () => {
+    setIsWorking(true);
+    const result = await resetAdminTwoFactor(admin.id);
+    setIsWorking(false);
+    setConfirmReset(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to reset two-factor authentication');
+      return;
+    }
+
+    toast.success(`Two-factor reset for ${admin.name}`);
+    router.refresh();
+  };
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-8 w-8 transition-colors ${admin.twoFactorRequired ? 'text-amber-600 hover:text-amber-500' : 'text-muted-foreground hover:text-foreground'}`}
+            onClick={handleToggleRequired}
+            disabled={isWorking || !admin.isActive}
+          >
+            <ShieldAlert className="h-4 w-4" />
+            <span className="sr-only">
+              {admin.twoFactorRequired ? 'Stop requiring 2FA' : 'Require 2FA'}
+            </span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          {admin.twoFactorRequired ? 'Stop Requiring 2FA' : 'Require 2FA'}
+        </TooltipContent>
+      </Tooltip>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-red-700 hover:text-red-500 transition-colors"
+            onClick={() => setConfirmReset(true)}
+            disabled={isWorking || !admin.twoFactorEnabled}
+          >
+            <ShieldOff className="h-4 w-4" />
+            <span className="sr-only">Reset 2FA</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>Reset 2FA</TooltipContent>
+      </Tooltip>
+
+      <AlertDialog open={confirmReset} onOpenChange={(open) => !isWorking && setConfirmReset(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset two-factor for {admin.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their authenticator app and recovery codes will stop working.
+              {admin.twoFactorRequired
+                ? ' They will have to set up two-factor again at their next login.'
+                : ' They will be able to sign in with their password only.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset} disabled={isWorking}>
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
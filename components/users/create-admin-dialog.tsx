@@ -12,6 +12,7 @@ import { AdminRoleEnum } from '@/lib/types/admin';
 import { createAdminSchema, type CreateAdminFormValues } from '@/lib/validations/admin';
 
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Dialog,
   DialogContent,
@@ -56,6 +57,7 @@ export interface CreateAdminDialogProps {
  * - React Hook Form with Zod validation
  * - Password confirmation matching
  * - Role selection (SUPER_ADMIN, ADMIN, VIEWER)
+ * - Optionally require a new password at first login
  * - Form validation and error messages
  * - Toast notifications for success/error
  * - Auto-refresh page on success
@@ -72,6 +74,7 @@ export function CreateAdminDialog({ open, onOpenChange }: CreateAdminDialogProps
       password: '',
       confirmPassword: '',
       role: AdminRoleEnum.ADMIN,
+      mustChangePassword: true,
     },
   });
 
@@ -84,6 +87,7 @@ export function CreateAdminDialog({ open, onOpenChange }: CreateAdminDialogProps
       email: data.email,
       password: data.password,
       role: data.role,
+      mustChangePassword: data.mustChangePassword,
     });
 
     setIsLoading(false);
@@ -243,6 +247,29 @@ export function CreateAdminDialog({ open, onOpenChange }: CreateAdminDialogProps
               )}
             />
 
+            {/* Must Change Password Field */}
+            <FormField
+              control={form.control}
+              name="mustChangePassword"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Require password change at first login</FormLabel>
+                    <FormDescription>
+                      They will choose their own password before they can continue
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button
                 type="button"
@@ -11,6 +11,7 @@ import { toast } from 'sonner';
 import { AdminRoleEnum } from '@/lib/types/admin';
 import { editAdminSchema, type EditAdminFormValues } from '@/lib/validations/admin';
 
+import { AdminSecurityEvents } from '@/components/security/admin-security-events';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
@@ -62,6 +63,7 @@ export interface EditAdminDialogProps {
  * - Password confirmation matching
  * - Role selection (SUPER_ADMIN, ADMIN, VIEWER)
  * - Active/Inactive status toggle
+ * - Recent security events (logins, lockouts, credential changes)
  * - Form validation and error messages
  * - Toast notifications for success/error
  * - Auto-refresh page on success
@@ -141,7 +143,7 @@ export function EditAdminDialog({ admin, open, onOpenChange }: EditAdminDialogPr
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[700px]">
         <DialogHeader>
           <DialogTitle>Edit Admin User</DialogTitle>
           <DialogDescription>
@@ -340,6 +342,9 @@ export function EditAdminDialog({ admin, open, onOpenChange }: EditAdminDialogPr
             </DialogFooter>
           </form>
         </Form>
+
+        {/* Login history, lockouts and credential changes */}
+        {open && <AdminSecurityEvents adminId={admin.id} />}
       </DialogContent>
     </Dialog>
   );
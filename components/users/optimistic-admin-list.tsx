@@ -29,6 +29,10 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import {
+  AdminTwoFactorBadge,
+  AdminTwoFactorControls,
+} from '@/components/users/admin-two-factor-controls';
 
 import type { OptimisticAdmin } from '@/lib/hooks/useOptimisticAdmin';
 import type { ServerActionResult } from '@/lib/types/action';
@@ -318,7 +322,8 @@ export function OptimisticAdminList({
                     {getSortIcon('isActive')}
                   </button>
                 </TableHead>
-                <TableHead className="w-[180px] text-center text-primary text-base font-semibold">Actions</TableHead>
+                <TableHead className="text-center text-primary text-base font-semibold">2FA</TableHead>
+                <TableHead className="w-[220px] text-center text-primary text-base font-semibold">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -356,6 +361,9 @@ export function OptimisticAdminList({
                         {admin.isActive ? 'Active' : 'Inactive'}
                       </Badge>
                     </TableCell>
+                    <TableCell className="text-center">
+                      <AdminTwoFactorBadge admin={admin} />
+                    </TableCell>
                     <TableCell className="text-center">
                       <div className="flex items-center justify-center gap-2">
                         <Tooltip>
@@ -406,13 +414,14 @@ export function OptimisticAdminList({
                             <TooltipContent>Reactivate User</TooltipContent>
                           </Tooltip>
                         )}
+                        <AdminTwoFactorControls admin={admin} />
                       </div>
                     </TableCell>
                   </TableRow>
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={5} className="h-24 text-center">
+                  <TableCell colSpan={6} className="h-24 text-center">
                     {search ? (
                       <div>
                         <p className="text-lg font-semibold">No admin users found</p>
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Copy } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { toast } from 'sonner';
+
+import { createWebhook } from '@/lib/actions/webhook.actions';
+import { WEBHOOK_EVENT_DESCRIPTIONS, WEBHOOK_EVENTS } from '@/lib/utils/system/webhook-events';
+import { createWebhookSchema, type CreateWebhookFormValues } from '@/lib/validations/webhook';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+interface CreateWebhookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Create Webhook Dialog Component
+ * Name, URL and events; the signing secret is shown once, then never again
+ */
+export function CreateWebhookDialog({ open, onOpenChange }: CreateWebhookDialogProps) {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+  const form = useForm<CreateWebhookFormValues>({
+    resolver: zodResolver(createWebhookSchema),
+    defaultValues: {
+      name: '',
+      url: '',
+      events: [],
+    },
+  });
+
+  async function onSubmit(data: CreateWebhookFormValues) {
+    setIsSaving(true);
+
+    const result = await createWebhook(data);
+
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      toast.error('Failed to create webhook', { description: result.error });
+      return;
+    }
+
+    setCreatedSecret(result.data.secret);
+    router.refresh();
+  }
+
+  /**
+   * Copy the signing secret to the clipboard
+   */
+  const handleCopy = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast.success('Signing secret copied');
+  };
+
+  /**
+   * Close the dialog, forgetting the secret and resetting the form
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isSaving) return;
+    if (!nextOpen) {
+      setCreatedSecret(null);
+      form.reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[540px]">
+        <DialogHeader>
+          <DialogTitle>{createdSecret ? 'Webhook Created' : 'Create Webhook'}</DialogTitle>
+          <DialogDescription>
+            {createdSecret
+              ? 'Copy this signing secret now and store it with the receiving system. It will not be shown again.'
+              : 'Selected events are sent as JSON POST requests to the URL.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdSecret ? (
+          <div className="space-y-4">
+            <div className="break-all rounded-md border bg-muted/50 p-3 font-mono text-sm">
+              {createdSecret}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Each request carries{' '}
+              <code className="font-mono">X-Webhook-Signature: sha256=&lt;hex&gt;</code>, an
+              HMAC-SHA256 of{' '}
+              <code className="font-mono">&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;</code> using this
+              secret. Recompute it to verify the request came from here.
+            </p>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={handleCopy}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="CRM sync" disabled={isSaving} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="url"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://example.com/webhooks/argan"
+                        disabled={isSaving}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Must respond with a 2xx status; anything else is retried with backoff
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="events"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Events</FormLabel>
+                    <div className="space-y-2 rounded-md border p-4">
+                      {WEBHOOK_EVENTS.map((event) => (
+                        <label key={event} className="flex items-start space-x-3">
+                          <Checkbox
+                            checked={field.value.includes(event)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, event]
+                                  : field.value.filter((value) => value !== event)
+                              )
+                            }
+                            disabled={isSaving}
+                          />
+                          <div className="space-y-1 leading-none">
+                            <div className="font-mono text-sm">{event}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {WEBHOOK_EVENT_DESCRIPTIONS[event]}
+                            </div>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                  disabled={isSaving}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving ? 'Creating...' : 'Create Webhook'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
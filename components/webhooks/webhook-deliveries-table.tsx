@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { RotateCw } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { redeliverWebhook } from '@/lib/actions/webhook.actions';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+import type { WebhookDeliveryItem } from '@/lib/types/webhook';
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string | null, fallback: string): string {
+  if (!value) return fallback;
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Status badge for a delivery
+ */
+function DeliveryStatusBadge({ delivery }: { delivery: WebhookDeliveryItem }) {
+  switch (delivery.status) {
+    case 'SUCCEEDED':
+      return <Badge variant="default">Delivered</Badge>;
+    case 'FAILED':
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="secondary">{delivery.attempts > 0 ? 'Retrying' : 'Pending'}</Badge>;
+  }
+}
+
+interface WebhookDeliveriesTableProps {
+  deliveries: WebhookDeliveryItem[];
+}
+
+/**
+ * Webhook Deliveries Table Component
+ * Recent deliveries with their last response, next retry and a redeliver button
+ */
+export function WebhookDeliveriesTable({ deliveries }: WebhookDeliveriesTableProps) {
+  const router = useRouter();
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null);
+
+  /**
+   * Send a delivery's payload again and report the outcome
+   */
+  const handleRedeliver = async (delivery: WebhookDeliveryItem) => {
+    setRedeliveringId(delivery.id);
+    const result = await redeliverWebhook(delivery.id);
+    setRedeliveringId(null);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to redeliver webhook');
+      return;
+    }
+
+    if (result.data.status === 'SUCCEEDED') {
+      toast.success(`${delivery.event} redelivered to ${delivery.subscriptionName}`);
+    } else {
+      toast.error('Redelivery failed', {
+        description: result.data.error || `Responded with ${result.data.responseStatus}`,
+      });
+    }
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent Deliveries</CardTitle>
+        <CardDescription>
+          Failed deliveries are retried with increasing delays until they succeed or run out of
+          attempts.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {deliveries.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">No events have been sent yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-center">Attempts</TableHead>
+                <TableHead>Last Response</TableHead>
+                <TableHead>Next Attempt</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-sm">{delivery.event}</TableCell>
+                  <TableCell className="text-sm">{delivery.subscriptionName}</TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(delivery.createdAt, '-')}
+                  </TableCell>
+                  <TableCell className="text-center text-sm">{delivery.attempts}</TableCell>
+                  <TableCell className="max-w-xs text-sm">
+                    {delivery.responseStatus !== null && (
+                      <span className="font-mono">{delivery.responseStatus}</span>
+                    )}
+                    {delivery.error && (
+                      <div className="truncate text-xs text-red-600" title={delivery.error}>
+                        {delivery.error}
+                      </div>
+                    )}
+                    {delivery.responseStatus === null && !delivery.error && '-'}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(delivery.nextAttemptAt, '-')}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <DeliveryStatusBadge delivery={delivery} />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRedeliver(delivery)}
+                      disabled={redeliveringId === delivery.id}
+                    >
+                      <RotateCw className="mr-2 h-4 w-4" />
+                      Redeliver
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
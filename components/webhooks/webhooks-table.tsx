@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+
+import { useRouter } from 'next/navigation';
+
+import { Plus } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { deleteWebhook, setWebhookActive } from '@/lib/actions/webhook.actions';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CreateWebhookDialog } from '@/components/webhooks/create-webhook-dialog';
+
+import type { WebhookItem } from '@/lib/types/webhook';
+
+/**
+ * Format a timestamp for display
+ */
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface WebhooksTableProps {
+  webhooks: WebhookItem[];
+}
+
+/**
+ * Webhooks Table Component
+ * Every subscription with its URL and events, with create, pause/resume and delete
+ */
+export function WebhooksTable({ webhooks }: WebhooksTableProps) {
+  const router = useRouter();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<WebhookItem | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  /**
+   * Pause an active subscription or resume a paused one
+   */
+  const handleToggle = async (webhook: WebhookItem) => {
+    setTogglingId(webhook.id);
+    const result = await setWebhookActive(webhook.id, !webhook.active);
+    setTogglingId(null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update webhook');
+      return;
+    }
+
+    toast.success(`${webhook.name} ${webhook.active ? 'paused' : 'resumed'}`);
+    router.refresh();
+  };
+
+  /**
+   * Delete the subscription awaiting confirmation
+   */
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    setIsDeleting(true);
+    const result = await deleteWebhook(deleting.id);
+    setIsDeleting(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete webhook');
+      return;
+    }
+
+    toast.success(`${deleting.name} deleted`);
+    setDeleting(null);
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Subscriptions</CardTitle>
+        <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create Webhook
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {webhooks.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground">No webhooks have been created yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-center">Status</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow
+                  key={webhook.id}
+                  className={webhook.active ? '' : 'text-muted-foreground'}
+                >
+                  <TableCell>
+                    <div className="font-medium">{webhook.name}</div>
+                    <div className="break-all font-mono text-xs text-muted-foreground">
+                      {webhook.url}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="outline" className="font-mono">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {formatDateTime(webhook.createdAt)}
+                    {webhook.createdByName && (
+                      <div className="text-xs text-muted-foreground">
+                        by {webhook.createdByName}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {webhook.active ? (
+                      <Badge variant="default">Active</Badge>
+                    ) : (
+                      <Badge variant="secondary">Paused</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <div className="flex justify-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleToggle(webhook)}
+                        disabled={togglingId === webhook.id}
+                      >
+                        {webhook.active ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setDeleting(webhook)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CreateWebhookDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+
+      <AlertDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !isDeleting && !open && setDeleting(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              No further events will be sent to this URL and its delivery log will be removed. Pause
+              the webhook instead to stop deliveries temporarily.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
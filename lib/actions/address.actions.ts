@@ -4,7 +4,7 @@ import { revalidatePath } from 'next/cache';
 
 import { AddressType, ClientAddress } from '@prisma/client';
 
-import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { addressService } from '@/lib/services/business/address.service';
 
 interface CreateAddressDto {
@@ -28,14 +28,15 @@ interface UpdateAddressDto {
 /**
  * Create a new address for a client
  */
-export const createAddress = withAuth(
+export const createAddress = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     clientId: number,
     data: CreateAddressDto
   ): Promise<{ success: boolean; error?: string; address?: ClientAddress }> => {
     try {
-      const newAddress = await addressService.createAddress(clientId, data);
+      const newAddress = await addressService.createAddress(clientId, data, session);
 
       // Revalidate the client page to show new address
       revalidatePath('/admin/clients');
@@ -63,14 +64,15 @@ export const createAddress = withAuth(
 /**
  * Update an address
  */
-export const updateAddress = withAuth(
+export const updateAddress = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     addressId: number,
     data: UpdateAddressDto
   ): Promise<{ success: boolean; error?: string }> => {
     try {
-      await addressService.updateAddress(addressId, data);
+      await addressService.updateAddress(addressId, data, session);
 
       // Revalidate the client page to show updated address
       revalidatePath('/admin/clients');
@@ -95,13 +97,14 @@ export const updateAddress = withAuth(
 /**
  * Delete an address
  */
-export const deleteAddress = withAuth(
+export const deleteAddress = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     addressId: number
   ): Promise<{ success: boolean; error?: string }> => {
     try {
-      await addressService.deleteAddress(addressId);
+      await addressService.deleteAddress(addressId, session);
 
       // Revalidate the client page to show updated address list
       revalidatePath('/admin/clients');
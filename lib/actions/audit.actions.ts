@@ -4,7 +4,7 @@ import { revalidatePath } from 'next/cache';
 
 import { AuditInterval } from '@prisma/client';
 
-import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { auditService } from '@/lib/services/business/audit.service';
 
 interface UpdateAuditDto {
@@ -16,7 +16,8 @@ interface UpdateAuditDto {
 /**
  * Update an audit
  */
-export const updateAudit = withAuth(
+export const updateAudit = withPermission(
+  'manage_client_audits',
   async (
     _session,
     auditId: number,
@@ -48,7 +49,8 @@ export const updateAudit = withAuth(
 /**
  * Delete an audit
  */
-export const deleteAudit = withAuth(
+export const deleteAudit = withPermission(
+  'manage_client_audits',
   async (_session, auditId: number): Promise<{ success: boolean; error?: string }> => {
     try {
       await auditService.deleteAudit(auditId);
@@ -4,7 +4,7 @@ import { revalidatePath } from 'next/cache';
 
 import { ContactType } from '@prisma/client';
 
-import { withAuth } from '@/lib/server-actions/with-auth';
+import { withPermission } from '@/lib/server-actions/with-permission';
 import { contactService } from '@/lib/services/business/contact.service';
 
 import type { Contact } from '@/lib/types/contact';
@@ -27,14 +27,15 @@ interface CreateContactDto {
 /**
  * Create a new contact for a client
  */
-export const createContact = withAuth(
+export const createContact = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     clientId: number,
     data: CreateContactDto
   ): Promise<{ success: boolean; error?: string; contact?: Contact }> => {
     try {
-      const newContact = await contactService.createContact(clientId, data);
+      const newContact = await contactService.createContact(clientId, data, session);
 
       // Revalidate the client page to show new contact
       revalidatePath('/admin/clients');
@@ -62,14 +63,15 @@ export const createContact = withAuth(
 /**
  * Update a contact
  */
-export const updateContact = withAuth(
+export const updateContact = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     contactId: number,
     data: UpdateContactDto
   ): Promise<{ success: boolean; error?: string }> => {
     try {
-      await contactService.updateContact(contactId, data);
+      await contactService.updateContact(contactId, data, session);
 
       // Revalidate the client page to show updated contact
       revalidatePath('/admin/clients');
@@ -94,13 +96,14 @@ export const updateContact = withAuth(
 /**
  * Delete a contact
  */
-export const deleteContact = withAuth(
+export const deleteContact = withPermission(
+  'update_client',
   async (
-    _session,
+    session,
     contactId: number
   ): Promise<{ success: boolean; error?: string }> => {
     try {
-      await contactService.deleteContact(contactId);
+      await contactService.deleteContact(contactId, session);
 
       // Revalidate the client page to show updated contact list
       revalidatePath('/admin/clients');
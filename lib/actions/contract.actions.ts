@@ -19,4 +19,5 @@ export {
   setActiveContract,
   deleteContract,
   updateContractUrls,
+  generateContractDocument,
 } from '@/app/admin/(protected)/clients/[id]/contracts/actions';
@@ -38,6 +38,51 @@ export class SessionExpiredError extends AuthenticationError {
   }
 }
 
+/**
+ * Error thrown when a two-factor authentication or recovery code is wrong
+ */
+export class InvalidTwoFactorCodeError extends AuthenticationError {
+  constructor() {
+    super('Invalid authentication code');
+  }
+}
+
+/**
+ * Error thrown when the current password given to change a password is wrong
+ */
+export class InvalidCurrentPasswordError extends AuthenticationError {
+  constructor() {
+    super('Current password is incorrect');
+  }
+}
+
+/**
+ * Error thrown when a password reset link is unknown, used or expired
+ */
+export class InvalidPasswordResetTokenError extends AuthenticationError {
+  constructor() {
+    super('This password reset link is invalid or has expired');
+  }
+}
+
+/**
+ * Error thrown when an API request has no API key, or one that is unknown, revoked or expired
+ */
+export class InvalidApiKeyError extends AuthenticationError {
+  constructor() {
+    super('A valid API key is required');
+  }
+}
+
+/**
+ * Error thrown when an API key lacks a scope the endpoint requires
+ */
+export class MissingApiKeyScopeError extends AuthorizationError {
+  constructor(scopes: string[]) {
+    super(`This API key is missing a required scope: ${scopes.join(', ')}`);
+  }
+}
+
 /**
  * Error thrown when user lacks required role
  */
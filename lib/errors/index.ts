@@ -6,12 +6,23 @@ export { AppError } from './base';
 import { AppError } from './base';
 
 export { ValidationError, FieldValidationError, type FieldError } from './validation';
-export { NotFoundError, ClientNotFoundError, AdminNotFoundError } from './not-found';
+export {
+  NotFoundError,
+  ClientNotFoundError,
+  AdminNotFoundError,
+  ApiKeyNotFoundError,
+  WebhookNotFoundError,
+} from './not-found';
 export {
   AuthenticationError,
   AuthorizationError,
   InvalidCredentialsError,
   SessionExpiredError,
+  InvalidTwoFactorCodeError,
+  InvalidCurrentPasswordError,
+  InvalidPasswordResetTokenError,
+  InvalidApiKeyError,
+  MissingApiKeyScopeError,
   InsufficientPermissionsError,
 } from './authentication';
 export { ConflictError, DuplicateResourceError, EmailAlreadyExistsError } from './conflict';
@@ -32,3 +32,21 @@ export class AdminNotFoundError extends NotFoundError {
     super('Admin user', adminId);
   }
 }
+
+/**
+ * Specific error for API key not found
+ */
+export class ApiKeyNotFoundError extends NotFoundError {
+  constructor(apiKeyId: string) {
+    super('API key', apiKeyId);
+  }
+}
+
+/**
+ * Specific error for webhook subscription not found
+ */
+export class WebhookNotFoundError extends NotFoundError {
+  constructor(webhookId: string) {
+    super('Webhook', webhookId);
+  }
+}
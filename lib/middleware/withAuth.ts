@@ -17,25 +17,35 @@ export interface AuthenticatedRequest extends NextRequest {
 /**
  * Protected route configuration
  */
-const PROTECTED_PATHS = ['/admin', '/api/admin', '/api/clients'];
+const PROTECTED_PATHS = ['/admin', '/api/admin', '/api/clients', '/api/cases'];
 
 /**
  * Public paths that don't require authentication
  */
 const PUBLIC_PATHS = ['/admin/login', '/'];
 
+/**
+ * Check if pathname is the given path or nested beneath it
+ */
+function matchesPath(pathname: string, path: string): boolean {
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
 /**
  * Check if path requires authentication
  */
 function isProtectedPath(pathname: string): boolean {
-  return PROTECTED_PATHS.some((path) => pathname.startsWith(path));
+  return PROTECTED_PATHS.some((path) => matchesPath(pathname, path));
 }
 
 /**
  * Check if path is public (no auth required)
+ * The site root is matched exactly so it doesn't make every path public
  */
 function isPublicPath(pathname: string): boolean {
-  return PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(path));
+  return PUBLIC_PATHS.some((path) =>
+    path === '/' ? pathname === path : matchesPath(pathname, path)
+  );
 }
 
 /**
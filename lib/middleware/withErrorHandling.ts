@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { AppError, isAppError } from '@/lib/errors';
 import { SystemError } from '@/lib/errors/system';
 import { logError } from '@/lib/utils/system/logger';
+import { ApiResponseBuilder } from '@/lib/utils/system/response';
 
 /**
  * Middleware handler types
@@ -37,6 +38,11 @@ function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
+/**
+ * Request IDs accepted from callers - anything else is replaced with a generated one
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
 /**
  * Format error for API response
  */
@@ -139,6 +145,47 @@ export function withErrorHandling<T = unknown>(): Middleware<T> {
   };
 }
 
+/**
+ * Error handling middleware for the /api/v1 external API
+ * Same as withErrorHandling, but errors use the ApiResponse envelope from response.ts.
+ * The caller's X-Request-Id is kept when sent; either way the handler's request carries
+ * the same ID that is returned in the X-Request-Id response header.
+ */
+export function withApiErrorHandling<T = unknown>(): Middleware<T> {
+  return (handler: Handler<T>) => {
+    return async (request: NextRequest, context: T): Promise<NextResponse> => {
+      const incomingId = request.headers.get('x-request-id');
+      const requestId =
+        incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : generateRequestId();
+
+      // Handlers put getRequestId(request) in the body, so it must match the header
+      let trackedRequest = request;
+      if (requestId !== incomingId) {
+        const headers = new Headers(request.headers);
+        headers.set('x-request-id', requestId);
+        trackedRequest = new NextRequest(request, { headers });
+      }
+
+      let response: NextResponse;
+      try {
+        response = await handler(trackedRequest, context);
+      } catch (error) {
+        if (error instanceof SystemError) {
+          logError('System error occurred', error);
+        } else if (!isAppError(error)) {
+          logError('Unexpected error occurred', error);
+        }
+
+        response = ApiResponseBuilder.fromError(error, requestId);
+      }
+
+      // Add request ID to response headers
+      response.headers.set('X-Request-Id', requestId);
+      return response;
+    };
+  };
+}
+
 /**
  * Lightweight error boundary for non-API routes
  * Only logs errors without formatting responses
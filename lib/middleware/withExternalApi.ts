@@ -0,0 +1,51 @@
+// External API middleware stack
+// The standard layers for /api/v1 endpoints, in the order they must run
+
+import { NextRequest, NextResponse } from 'next/server';
+
+import { config } from '@/lib/utils/system/config';
+
+import { withApiKey } from './withApiKey';
+import { withApiErrorHandling } from './withErrorHandling';
+import { withRateLimit } from './withRateLimit';
+import { withRequestLogging } from './withRequestLogging';
+
+import type { ApiKeyScope } from '@/lib/utils/system/api-scopes';
+
+/**
+ * Middleware handler types
+ */
+type Handler<T = unknown> = (
+  request: NextRequest,
+  context: T
+) => Promise<NextResponse> | NextResponse;
+type Middleware<T = unknown> = (handler: Handler<T>) => Handler<T>;
+
+/**
+ * External API middleware
+ * error handling (ApiResponse envelope) -> rate limit per IP -> API key with scopes ->
+ * rate limit per key -> logging
+ *
+ * The per-IP limit runs before the key is checked, so requests with missing or invalid
+ * keys are throttled too; it is set high enough for several keys behind one address.
+ *
+ * Usage:
+ * export const GET = withExternalApi<RouteContext>('clients:read')(getClientHandler);
+ */
+export function withExternalApi<T = unknown>(
+  requiredScopes: ApiKeyScope | ApiKeyScope[] = []
+): Middleware<T> {
+  return (handler: Handler<T>) =>
+    withApiErrorHandling<T>()(
+      withRateLimit<T>({
+        keyBy: 'ip',
+        scope: 'api-v1-ip',
+        maxRequests: config.api.rateLimitIpMax,
+        headers: false,
+      })(
+        withApiKey<T>(requiredScopes)(
+          withRateLimit<T>({ keyBy: 'apiKey', scope: 'api-v1' })(withRequestLogging<T>()(handler))
+        )
+      )
+    );
+}
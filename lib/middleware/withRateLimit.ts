@@ -1,102 +1,175 @@
 /**
  * Rate Limiting Middleware
- * Simple in-memory rate limiting for external API endpoints
+ * Limits API requests per client, with counters shared by every server instance
  *
- * For production, this should use Redis or a database for distributed rate limiting
+ * Clients are identified by IP address, API key or signed-in admin (falling back to IP
+ * when the request has no key or session). Responses carry the standard RateLimit-* headers.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 
+import { hashApiKey, readApiKey } from '@/lib/utils/system/api-key';
+import { config } from '@/lib/utils/system/config';
+import { logError } from '@/lib/utils/system/logger';
+import {
+  consumeRateLimit,
+  type RateLimitAlgorithm,
+  type RateLimitResult,
+} from '@/lib/utils/system/rate-limit-store';
+import { validateSession } from '@/lib/utils/system/session';
+
+import type { ApiKeyRequest } from './withApiKey';
+import type { AuthenticatedRequest } from './withAuth';
+
+/**
+ * Middleware handler types
+ */
+type Handler<T = unknown> = (
+  request: NextRequest,
+  context: T
+) => Promise<NextResponse> | NextResponse;
+type Middleware<T = unknown> = (handler: Handler<T>) => Handler<T>;
+
 /**
- * In-memory rate limit tracking
- * Key: IP address or API key
- * Value: { count: number, resetAt: number }
+ * What a limit is counted against
+ * A function can return its own identifier, or null to fall back to the IP address
  */
-const rateLimitStore = new Map<string, { count: number; resetAt: number }>();
+export type RateLimitKeyBy =
+  | 'ip'
+  | 'apiKey'
+  | 'admin'
+  | ((request: NextRequest) => Promise<string | null> | string | null);
+
+/**
+ * Rate limit configuration
+ */
+export interface RateLimitConfig {
+  maxRequests?: number; // Defaults to RATE_LIMIT_MAX
+  windowMinutes?: number; // Defaults to RATE_LIMIT_WINDOW (seconds)
+  keyBy?: RateLimitKeyBy;
+  algorithm?: RateLimitAlgorithm; // Defaults to RATE_LIMIT_ALGORITHM
+  scope?: string; // Routes with the same scope share a limit; defaults to 'api'
+  headers?: boolean; // Defaults to true; off for an outer limit so the inner one's headers are kept
+}
 
 /**
- * Clean up expired entries periodically
+ * Get the client IP address from proxy headers
  */
-function cleanupExpiredEntries() {
-  const now = Date.now();
-  for (const [key, value] of rateLimitStore.entries()) {
-    if (now > value.resetAt) {
-      rateLimitStore.delete(key);
-    }
+function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  return forwardedFor?.split(',')[0].trim() || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Get the API key's ID
+ * Uses the key attached by withApiKey when present, otherwise a hash of the key sent,
+ * so keys are never stored
+ */
+function getApiKeyId(request: NextRequest): string | null {
+  const attached = (request as Partial<ApiKeyRequest>).apiKey;
+  if (attached) return attached.id;
+
+  const apiKey = readApiKey(request.headers);
+  return apiKey ? hashApiKey(apiKey) : null;
+}
+
+/**
+ * Get the signed-in admin's ID
+ * Uses the session attached by withAuth when present, otherwise reads the session cookie
+ */
+async function getAdminId(request: NextRequest): Promise<string | null> {
+  const attached = (request as Partial<AuthenticatedRequest>).adminSession;
+  if (attached) return attached.adminId;
+
+  const session = await validateSession();
+  return session?.adminId ?? null;
+}
+
+/**
+ * Build the counter key for a request
+ */
+async function resolveKey(request: NextRequest, scope: string, keyBy: RateLimitKeyBy) {
+  let identifier: string | null = null;
+
+  if (typeof keyBy === 'function') {
+    identifier = await keyBy(request);
+    if (identifier) return `${scope}:custom:${identifier}`;
+  } else if (keyBy === 'apiKey') {
+    identifier = getApiKeyId(request);
+    if (identifier) return `${scope}:key:${identifier}`;
+  } else if (keyBy === 'admin') {
+    identifier = await getAdminId(request);
+    if (identifier) return `${scope}:admin:${identifier}`;
   }
+
+  return `${scope}:ip:${getClientIp(request)}`;
 }
 
-// Run cleanup every 5 minutes
-setInterval(cleanupExpiredEntries, 5 * 60 * 1000);
+/**
+ * Set the standard RateLimit-* headers
+ */
+function setRateLimitHeaders(headers: Headers, result: RateLimitResult, windowSeconds: number) {
+  headers.set('RateLimit-Limit', result.limit.toString());
+  headers.set('RateLimit-Remaining', result.remaining.toString());
+  headers.set('RateLimit-Reset', result.resetSeconds.toString());
+  headers.set('RateLimit-Policy', `${result.limit};w=${windowSeconds}`);
+}
 
 /**
  * Rate limiting middleware
- * Limits requests per IP address
+ * If the store cannot be reached the request is let through and the error logged,
+ * so a database problem does not take the API down with it
  */
-export function withRateLimit<T = unknown>(
-  config: {
-    maxRequests?: number;
-    windowMinutes?: number;
-  } = {}
-): (
-  handler: (request: NextRequest, context: T) => Promise<NextResponse> | NextResponse
-) => (request: NextRequest, context: T) => Promise<NextResponse> {
-  const maxRequests = config.maxRequests || 100;
-  const windowMs = (config.windowMinutes || 1) * 60 * 1000;
-
-  return (handler: (request: NextRequest, context: T) => Promise<NextResponse> | NextResponse) => {
+export function withRateLimit<T = unknown>(rateLimitConfig: RateLimitConfig = {}): Middleware<T> {
+  const limit = rateLimitConfig.maxRequests || config.api.rateLimitMax;
+  const windowSeconds = rateLimitConfig.windowMinutes
+    ? rateLimitConfig.windowMinutes * 60
+    : config.api.rateLimitWindow;
+  const scope = rateLimitConfig.scope || 'api';
+  const keyBy = rateLimitConfig.keyBy || 'ip';
+
+  return (handler: Handler<T>) => {
     return async (request: NextRequest, context: T): Promise<NextResponse> => {
-      // Get IP address from request
-      const ip =
-        request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown';
-
-      const now = Date.now();
-      const identifier = `ip:${ip}`;
-
-      // Get or create rate limit entry
-      let entry = rateLimitStore.get(identifier);
-
-      if (!entry || now > entry.resetAt) {
-        // Create new window
-        entry = {
-          count: 1,
-          resetAt: now + windowMs,
-        };
-        rateLimitStore.set(identifier, entry);
-      } else {
-        // Increment count
-        entry.count++;
+      let result: RateLimitResult;
+
+      try {
+        const key = await resolveKey(request, scope, keyBy);
+        result = await consumeRateLimit(key, {
+          limit,
+          windowSeconds,
+          algorithm: rateLimitConfig.algorithm,
+        });
+      } catch (error) {
+        logError('Rate limit check failed - allowing request', {
+          url: request.nextUrl.pathname,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return handler(request, context);
       }
 
       // Check if limit exceeded
-      if (entry.count > maxRequests) {
-        const retryAfter = Math.ceil((entry.resetAt - now) / 1000);
-
-        return NextResponse.json(
+      if (!result.allowed) {
+        const response = NextResponse.json(
           {
             success: false,
             error: 'Rate limit exceeded',
             code: 'RATE_LIMIT_EXCEEDED',
-            retryAfter,
+            retryAfter: result.resetSeconds,
           },
           {
             status: 429,
-            headers: {
-              'Retry-After': retryAfter.toString(),
-              'X-RateLimit-Limit': maxRequests.toString(),
-              'X-RateLimit-Remaining': '0',
-              'X-RateLimit-Reset': entry.resetAt.toString(),
-            },
+            headers: { 'Retry-After': result.resetSeconds.toString() },
           }
         );
+        setRateLimitHeaders(response.headers, result, windowSeconds);
+        return response;
       }
 
       // Add rate limit headers
       const response = await handler(request, context);
-
-      response.headers.set('X-RateLimit-Limit', maxRequests.toString());
-      response.headers.set('X-RateLimit-Remaining', (maxRequests - entry.count).toString());
-      response.headers.set('X-RateLimit-Reset', entry.resetAt.toString());
+      if (rateLimitConfig.headers !== false) {
+        setRateLimitHeaders(response.headers, result, windowSeconds);
+      }
 
       return response;
     };
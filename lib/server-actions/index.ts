@@ -4,4 +4,5 @@
  */
 
 export { withAuth } from './with-auth';
+export { withPermission } from './with-permission';
 export { withErrorHandling, type ServerActionResponse } from './error-handling';
@@ -0,0 +1,36 @@
+import { withAuth } from '@/lib/server-actions/with-auth';
+import { canPerformAction } from '@/lib/utils/system/rbac';
+
+import type { AdminSession } from '@/lib/types/auth';
+import type { Permission } from '@/lib/utils/system/permissions';
+
+/**
+ * Higher-order function to wrap mutating Server Actions with authentication
+ * and a role permission check
+ *
+ * Admins without the permission get a failed result instead of running the handler,
+ * so wrapped actions must return the standard { success, error } shape
+ *
+ * Usage:
+ * ```typescript
+ * export const deleteCase = withPermission('delete_case', async (session, caseId: number) => {
+ *   await caseService.deleteCase(caseId, session)
+ *   return { success: true }
+ * })
+ * ```
+ */
+export function withPermission<
+  TArgs extends unknown[],
+  TResult extends { success: boolean; error?: string },
+>(permission: Permission, handler: (session: AdminSession, ...args: TArgs) => Promise<TResult>) {
+  return withAuth(async (session: AdminSession, ...args: TArgs): Promise<TResult> => {
+    if (!canPerformAction(session, permission)) {
+      return {
+        success: false,
+        error: 'Insufficient permissions. Your role cannot perform this action.',
+      } as TResult;
+    }
+
+    return handler(session, ...args);
+  });
+}
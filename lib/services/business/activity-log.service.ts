@@ -0,0 +1,193 @@
+import { ActivityLog, Prisma, PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { ValidationError } from '@/lib/errors';
+import { diffRecords } from '@/lib/utils/business/activity';
+
+import type {
+  ActivityLogFilters,
+  ActivityLogPage,
+  RecordActivityInput,
+} from '@/lib/types/activity';
+
+/**
+ * ActivityLogService - Append-only record of data changes
+ *
+ * Key patterns:
+ * - Written by the business services after (or inside the transaction of) each mutation
+ * - Pass the transaction client when the change is made inside a transaction
+ * - Entries are never updated or deleted; the database enforces this with a trigger
+ * - Updates that change nothing are not recorded
+ */
+export class ActivityLogService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Record a create, update or delete
+   */
+  async record(
+    input: RecordActivityInput,
+    db: Prisma.TransactionClient = this.db
+  ): Promise<ActivityLog | null> {
+    const data = this.toCreateInput(input);
+    if (!data) return null;
+
+    return db.activityLog.create({ data });
+  }
+
+  /**
+   * Record several changes at once, e.g. a bulk update across clients
+   */
+  async recordMany(
+    inputs: RecordActivityInput[],
+    db: Prisma.TransactionClient = this.db
+  ): Promise<number> {
+    const data = inputs
+      .map((input) => this.toCreateInput(input))
+      .filter((entry): entry is Prisma.ActivityLogCreateManyInput => entry !== null);
+
+    if (data.length === 0) return 0;
+
+    const result = await db.activityLog.createMany({ data });
+    return result.count;
+  }
+
+  /**
+   * Get a filtered page of the activity log, newest first
+   */
+  async getActivity(
+    filters: ActivityLogFilters
+  ): Promise<{ entries: ActivityLog[]; pagination: ActivityLogPage['pagination'] }> {
+    const { page = 1, limit = 50 } = filters;
+
+    if (page < 1) {
+      throw new ValidationError('Page must be greater than 0');
+    }
+    if (limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+    for (const date of [filters.from, filters.to]) {
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new ValidationError('Dates must be in YYYY-MM-DD format');
+      }
+    }
+
+    const where: Prisma.ActivityLogWhereInput = {
+      ...(filters.actorId && { actorId: filters.actorId }),
+      ...(filters.entityType && { entityType: filters.entityType }),
+      ...(filters.action && { action: filters.action }),
+      ...(filters.clientId && { clientId: filters.clientId }),
+      ...((filters.from || filters.to) && {
+        createdAt: {
+          ...(filters.from && { gte: new Date(`${filters.from}T00:00:00.000Z`) }),
+          ...(filters.to && { lte: new Date(`${filters.to}T23:59:59.999Z`) }),
+        },
+      }),
+    };
+
+    const [entries, totalCount] = await this.db.$transaction([
+      this.db.activityLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.db.activityLog.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      entries,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get every admin who appears in the log, for the viewer's admin filter
+   * Includes admins who have since been deactivated
+   */
+  async getActors(): Promise<Array<{ id: string; name: string }>> {
+    const actors = await this.db.activityLog.findMany({
+      where: { actorId: { not: null } },
+      distinct: ['actorId'],
+      select: { actorId: true, actorName: true },
+      orderBy: { actorId: 'asc' },
+    });
+
+    return actors
+      .map((actor) => ({ id: actor.actorId!, name: actor.actorName }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Get the history of everything belonging to a client
+   * (the client, its contacts, addresses, contracts, cases, interactions and files)
+   */
+  async getClientHistory(clientId: number, limit = 100): Promise<ActivityLog[]> {
+    return this.db.activityLog.findMany({
+      where: { clientId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get the history of a case, its interactions and files
+   */
+  async getCaseHistory(caseId: number, limit = 100): Promise<ActivityLog[]> {
+    return this.db.activityLog.findMany({
+      where: { caseId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get the history of a single entity
+   */
+  async getEntityHistory(
+    entityType: RecordActivityInput['entityType'],
+    entityId: string | number,
+    limit = 100
+  ): Promise<ActivityLog[]> {
+    return this.db.activityLog.findMany({
+      where: { entityType, entityId: String(entityId) },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Build the row to insert, or null for an update that changed nothing
+   */
+  private toCreateInput(input: RecordActivityInput): Prisma.ActivityLogCreateManyInput | null {
+    const changes = diffRecords(input.before ?? null, input.after ?? null);
+
+    if (input.action === 'UPDATE' && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    return {
+      actorId: input.actor.adminId,
+      actorName: input.actor.name,
+      entityType: input.entityType,
+      entityId: String(input.entityId),
+      entityLabel: input.entityLabel ?? null,
+      action: input.action,
+      changes,
+      clientId: input.clientId ?? null,
+      caseId: input.caseId ?? null,
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const activityLogService = new ActivityLogService(getDatabaseInstance());
@@ -2,6 +2,12 @@ import { ClientAddress, AddressType, PrismaClient } from '@prisma/client';
 
 import { getDatabaseInstance } from '@/lib/database';
 import { ValidationError } from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+
+import type { ActivityActor } from '@/lib/types/activity';
 
 interface CreateAddressDto {
   type: AddressType;
@@ -25,12 +31,19 @@ interface UpdateAddressDto {
  * AddressService - Business logic for address management
  */
 export class AddressService {
-  constructor(private readonly db: PrismaClient) {}
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService
+  ) {}
 
   /**
    * Create a new address for a client
    */
-  async createAddress(clientId: number, data: CreateAddressDto): Promise<ClientAddress> {
+  async createAddress(
+    clientId: number,
+    data: CreateAddressDto,
+    actor: ActivityActor
+  ): Promise<ClientAddress> {
     // Validate client ID
     if (!clientId || clientId < 1) {
       throw new ValidationError('Invalid client ID');
@@ -63,13 +76,27 @@ export class AddressService {
       },
     });
 
+    await this.activityLog.record({
+      actor,
+      entityType: 'ADDRESS',
+      entityId: newAddress.id,
+      entityLabel: newAddress.addressLine1,
+      action: 'CREATE',
+      after: newAddress,
+      clientId,
+    });
+
     return newAddress;
   }
 
   /**
    * Update an address by ID
    */
-  async updateAddress(addressId: number, data: UpdateAddressDto): Promise<ClientAddress> {
+  async updateAddress(
+    addressId: number,
+    data: UpdateAddressDto,
+    actor: ActivityActor
+  ): Promise<ClientAddress> {
     // Validate address ID
     if (!addressId || addressId < 1) {
       throw new ValidationError('Invalid address ID');
@@ -97,13 +124,24 @@ export class AddressService {
       },
     });
 
+    await this.activityLog.record({
+      actor,
+      entityType: 'ADDRESS',
+      entityId: addressId,
+      entityLabel: updatedAddress.addressLine1,
+      action: 'UPDATE',
+      before: existingAddress,
+      after: updatedAddress,
+      clientId: updatedAddress.clientId,
+    });
+
     return updatedAddress;
   }
 
   /**
    * Delete an address by ID
    */
-  async deleteAddress(addressId: number): Promise<void> {
+  async deleteAddress(addressId: number, actor: ActivityActor): Promise<void> {
     // Validate address ID
     if (!addressId || addressId < 1) {
       throw new ValidationError('Invalid address ID');
@@ -122,9 +160,19 @@ export class AddressService {
     await this.db.clientAddress.delete({
       where: { id: addressId },
     });
+
+    await this.activityLog.record({
+      actor,
+      entityType: 'ADDRESS',
+      entityId: addressId,
+      entityLabel: existingAddress.addressLine1,
+      action: 'DELETE',
+      before: existingAddress,
+      clientId: existingAddress.clientId,
+    });
   }
 }
 
 // Singleton instance
 const db = getDatabaseInstance();
-export const addressService = new AddressService(db);
+export const addressService = new AddressService(db, activityLogService);
@@ -7,8 +7,23 @@ import {
   AdminNotFoundError,
   EmailAlreadyExistsError,
 } from '@/lib/errors';
-import { hashPassword, validatePasswordStrength } from '@/lib/utils/system/password';
-
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import {
+  PasswordService,
+  passwordService,
+} from '@/lib/services/business/password.service';
+import {
+  hashPassword,
+  PASSWORD_POLICY_MESSAGE,
+  validatePasswordStrength,
+} from '@/lib/utils/system/password';
+import { recordSecurityEvent } from '@/lib/utils/system/security-events';
+import { revokeAdminSessions } from '@/lib/utils/system/session';
+
+import type { ActivityActor } from '@/lib/types/activity';
 import type {
   GetAdminsParams,
   CreateAdminDto,
@@ -23,11 +38,18 @@ import type {
  * - Constructor dependency injection for database access
  * - Proper error handling with business errors
  * - Input validation
- * - Password hashing and strength validation
+ * - Password hashing, strength validation and reuse checks (via PasswordService)
  * - Role-based access control
+ * - Every change is recorded in the activity log (password hashes redacted)
+ * - Deactivating an admin, changing their role or setting their password ends their sessions
+ * - Role and password changes are also recorded as security events
  */
 export class AdminService {
-  constructor(private readonly db: PrismaClient) {}
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService,
+    private readonly passwords: PasswordService
+  ) {}
 
   /**
    * Get all active admin users (simple list for dropdowns)
@@ -106,6 +128,8 @@ export class AdminService {
           failedLoginAttempts: true,
           lastFailedAttempt: true,
           lockedUntil: true,
+          twoFactorEnabled: true,
+          twoFactorRequired: true,
         },
       }),
       this.db.admin.count({ where }),
@@ -149,7 +173,7 @@ export class AdminService {
   /**
    * Create a new admin user
    */
-  async createAdmin(data: CreateAdminDto): Promise<Admin> {
+  async createAdmin(data: CreateAdminDto, actor: ActivityActor): Promise<Admin> {
     // Validate required fields
     const errors = [];
 
@@ -166,10 +190,7 @@ export class AdminService {
     if (!data.password) {
       errors.push({ field: 'password', message: 'Password is required' });
     } else if (!validatePasswordStrength(data.password)) {
-      errors.push({
-        field: 'password',
-        message: 'Password must be at least 8 characters with uppercase, lowercase, and number',
-      });
+      errors.push({ field: 'password', message: PASSWORD_POLICY_MESSAGE });
     }
 
     if (!data.role) {
@@ -194,16 +215,29 @@ export class AdminService {
         passwordHash,
         role: data.role,
         isActive: true,
+        mustChangePassword: data.mustChangePassword ?? false,
+        passwordChangedAt: new Date(),
       },
     });
 
+    await this.passwords.recordPasswordHistory(admin.id, passwordHash);
+
+    await this.activityLog.record({
+      actor,
+      entityType: 'ADMIN',
+      entityId: admin.id,
+      entityLabel: admin.name,
+      action: 'CREATE',
+      after: admin,
+    });
+
     return admin;
   }
 
   /**
    * Update an admin user
    */
-  async updateAdmin(id: string, data: UpdateAdminDto): Promise<Admin> {
+  async updateAdmin(id: string, data: UpdateAdminDto, actor: ActivityActor): Promise<Admin> {
     // Validate ID format
     if (!id || id.length < 10) {
       throw new ValidationError('Invalid admin ID format');
@@ -235,10 +269,7 @@ export class AdminService {
 
     if (data.password !== undefined && data.password) {
       if (!validatePasswordStrength(data.password)) {
-        errors.push({
-          field: 'password',
-          message: 'Password must be at least 8 characters with uppercase, lowercase, and number',
-        });
+        errors.push({ field: 'password', message: PASSWORD_POLICY_MESSAGE });
       }
     }
 
@@ -246,6 +277,11 @@ export class AdminService {
       throw new FieldValidationError(errors);
     }
 
+    const isPasswordChange = !!data.password?.trim();
+    if (isPasswordChange) {
+      await this.passwords.assertPasswordAllowed(existingAdmin, data.password!);
+    }
+
     // Check for duplicate email if email is being changed
     if (data.email && data.email !== existingAdmin.email) {
       await this.checkDuplicateEmail(data.email, id);
@@ -256,6 +292,7 @@ export class AdminService {
       name?: string;
       email?: string;
       passwordHash?: string;
+      passwordChangedAt?: Date;
       role?: typeof data.role;
       isActive?: boolean;
     } = {};
@@ -266,8 +303,9 @@ export class AdminService {
     if (data.isActive !== undefined) updateData.isActive = data.isActive;
 
     // Hash new password if provided
-    if (data.password && data.password.trim()) {
-      updateData.passwordHash = await hashPassword(data.password);
+    if (isPasswordChange) {
+      updateData.passwordHash = await hashPassword(data.password!);
+      updateData.passwordChangedAt = new Date();
     }
 
     // Update admin
@@ -276,13 +314,46 @@ export class AdminService {
       data: updateData,
     });
 
+    if (updateData.passwordHash) {
+      await this.passwords.recordPasswordHistory(id, updateData.passwordHash);
+    }
+
+    await this.recordUpdate(existingAdmin, admin, actor);
+
+    if (admin.role !== existingAdmin.role) {
+      await recordSecurityEvent({
+        type: 'ROLE_CHANGED',
+        adminId: id,
+        email: admin.email,
+        details: `${existingAdmin.role} → ${admin.role}`,
+        actor,
+      });
+    }
+    if (isPasswordChange) {
+      await recordSecurityEvent({
+        type: 'PASSWORD_CHANGED',
+        adminId: id,
+        email: admin.email,
+        details: 'Set on the users page',
+        actor: id !== actor.adminId ? actor : null,
+      });
+    }
+
+    if (!admin.isActive && existingAdmin.isActive) {
+      await revokeAdminSessions(id, 'ADMIN_DEACTIVATED');
+    } else if (admin.role !== existingAdmin.role) {
+      await revokeAdminSessions(id, 'ROLE_CHANGED');
+    } else if (isPasswordChange && id !== actor.adminId) {
+      await revokeAdminSessions(id, 'PASSWORD_CHANGED');
+    }
+
     return admin;
   }
 
   /**
    * Soft delete an admin user (set isActive to false)
    */
-  async deleteAdmin(id: string): Promise<Admin> {
+  async deleteAdmin(id: string, actor: ActivityActor): Promise<Admin> {
     // Validate ID format
     if (!id || id.length < 10) {
       throw new ValidationError('Invalid admin ID format');
@@ -305,13 +376,16 @@ export class AdminService {
       },
     });
 
+    await this.recordUpdate(existingAdmin, admin, actor);
+    await revokeAdminSessions(id, 'ADMIN_DEACTIVATED');
+
     return admin;
   }
 
   /**
    * Reactivate a deactivated admin user
    */
-  async reactivateAdmin(id: string): Promise<Admin> {
+  async reactivateAdmin(id: string, actor: ActivityActor): Promise<Admin> {
     // Validate ID format
     if (!id || id.length < 10) {
       throw new ValidationError('Invalid admin ID format');
@@ -334,9 +408,26 @@ export class AdminService {
       },
     });
 
+    await this.recordUpdate(existingAdmin, admin, actor);
+
     return admin;
   }
 
+  /**
+   * Private helper: Record an admin update in the activity log
+   */
+  private async recordUpdate(before: Admin, after: Admin, actor: ActivityActor): Promise<void> {
+    await this.activityLog.record({
+      actor,
+      entityType: 'ADMIN',
+      entityId: after.id,
+      entityLabel: after.name,
+      action: 'UPDATE',
+      before,
+      after,
+    });
+  }
+
   /**
    * Private helper: Validate email format
    */
@@ -362,4 +453,8 @@ export class AdminService {
 }
 
 // Singleton instance export with environment-specific database
-export const adminService = new AdminService(getDatabaseInstance());
+export const adminService = new AdminService(
+  getDatabaseInstance(),
+  activityLogService,
+  passwordService
+);
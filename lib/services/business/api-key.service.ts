@@ -0,0 +1,152 @@
+import { ApiKey, PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { ApiKeyNotFoundError, ValidationError } from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import { generateApiKey } from '@/lib/utils/system/api-key';
+import { isApiKeyScope } from '@/lib/utils/system/api-scopes';
+
+import type { ActivityActor } from '@/lib/types/activity';
+import type { ApiKeyItem, CreateApiKeyDto, CreatedApiKey } from '@/lib/types/api-key';
+
+type ApiKeyWithCreator = ApiKey & { createdBy: { name: string } | null };
+
+/**
+ * ApiKeyService - Keys for the /api/v1 external API
+ *
+ * Key patterns:
+ * - The full key is returned once, from createKey; only its hash is stored
+ * - Keys are revoked rather than deleted, so their history stays readable
+ * - Authentication itself happens in the withApiKey middleware
+ * - Creating and revoking keys is recorded in the activity log (hash redacted)
+ */
+export class ApiKeyService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService
+  ) {}
+
+  /**
+   * Get every key, newest first, including revoked and expired ones
+   */
+  async listKeys(): Promise<ApiKeyItem[]> {
+    const keys = await this.db.apiKey.findMany({
+      include: { createdBy: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return keys.map((key) => this.toApiKeyItem(key));
+  }
+
+  /**
+   * Create a key with the given scopes
+   */
+  async createKey(dto: CreateApiKeyDto, actor: ActivityActor): Promise<CreatedApiKey> {
+    const name = dto.name.trim();
+    const scopes = [...new Set(dto.scopes)];
+
+    if (!name) {
+      throw new ValidationError('Name is required');
+    }
+    if (scopes.length === 0) {
+      throw new ValidationError('Select at least one scope');
+    }
+    const unknownScope = scopes.find((scope) => !isApiKeyScope(scope));
+    if (unknownScope) {
+      throw new ValidationError(`Unknown scope: ${unknownScope}`);
+    }
+    if (dto.expiresAt && dto.expiresAt.getTime() <= Date.now()) {
+      throw new ValidationError('Expiry date must be in the future');
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await this.db.$transaction(async (tx) => {
+      const created = await tx.apiKey.create({
+        data: {
+          name,
+          prefix,
+          keyHash,
+          scopes,
+          expiresAt: dto.expiresAt ?? null,
+          createdById: actor.adminId,
+        },
+        include: { createdBy: { select: { name: true } } },
+      });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'API_KEY',
+          entityId: created.id,
+          entityLabel: created.name,
+          action: 'CREATE',
+          after: created,
+        },
+        tx
+      );
+
+      return created;
+    });
+
+    return { apiKey: this.toApiKeyItem(apiKey), key };
+  }
+
+  /**
+   * Revoke a key - requests using it are rejected straight away
+   */
+  async revokeKey(id: string, actor: ActivityActor): Promise<void> {
+    const before = await this.db.apiKey.findUnique({ where: { id } });
+
+    if (!before) {
+      throw new ApiKeyNotFoundError(id);
+    }
+    if (before.revokedAt) {
+      throw new ValidationError('This API key has already been revoked');
+    }
+
+    await this.db.$transaction(async (tx) => {
+      const after = await tx.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'API_KEY',
+          entityId: id,
+          entityLabel: before.name,
+          action: 'UPDATE',
+          before,
+          after,
+        },
+        tx
+      );
+    });
+  }
+
+  /**
+   * Private helper: Convert a key row to its serializable form
+   */
+  private toApiKeyItem(key: ApiKeyWithCreator): ApiKeyItem {
+    return {
+      id: key.id,
+      name: key.name,
+      prefix: key.prefix,
+      scopes: key.scopes.filter(isApiKeyScope),
+      expiresAt: key.expiresAt?.toISOString() || null,
+      lastUsedAt: key.lastUsedAt?.toISOString() || null,
+      lastUsedIp: key.lastUsedIp,
+      revokedAt: key.revokedAt?.toISOString() || null,
+      createdByName: key.createdBy?.name || null,
+      createdAt: key.createdAt.toISOString(),
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const apiKeyService = new ApiKeyService(getDatabaseInstance(), activityLogService);
@@ -14,6 +14,7 @@ export interface AuthenticatedAdmin {
   email: string;
   role: AdminRole;
   name: string;
+  mustChangePassword: boolean;
 }
 
 /**
@@ -45,6 +46,7 @@ export class AuthService {
           passwordHash: true,
           name: true,
           role: true,
+          mustChangePassword: true,
         },
       });
 
@@ -63,6 +65,7 @@ export class AuthService {
         email: admin.email,
         role: admin.role,
         name: admin.name,
+        mustChangePassword: admin.mustChangePassword,
       };
     } catch (error) {
       console.error('Authentication error:', error);
@@ -85,6 +88,7 @@ export class AuthService {
           email: true,
           name: true,
           role: true,
+          mustChangePassword: true,
         },
       });
 
@@ -110,6 +114,7 @@ export class AuthService {
           email: true,
           name: true,
           role: true,
+          mustChangePassword: true,
         },
       });
 
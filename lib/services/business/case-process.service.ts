@@ -0,0 +1,328 @@
+import { PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { caseService } from '@/lib/services/business/case.service';
+import {
+  getCurrentProcessStep,
+  PROCESS_TEMPLATES,
+  scheduleProcessSteps,
+} from '@/lib/utils/business/case-process';
+
+import type { ActivityActor } from '@/lib/types/activity';
+import type {
+  CaseProcessItem,
+  CaseProcessStepItem,
+  CompleteProcessStepDto,
+} from '@/lib/types/case-process';
+import type { CaseProcess, CaseProcessStep, ProcessTemplate } from '@prisma/client';
+
+type CaseProcessWithSteps = CaseProcess & { steps: CaseProcessStep[] };
+
+const PROCESS_INCLUDE = {
+  steps: { orderBy: { position: 'asc' } },
+} as const;
+
+/**
+ * CaseProcessService - Guided process checklists (disciplinary, grievance) on cases
+ *
+ * Key patterns:
+ * - Starting a process copies the template's steps onto the case, so later template
+ *   changes do not affect processes already running
+ * - Steps are done in order; completing or skipping the current step logs an interaction
+ *   that carries the next step as its action and makes it the case's active action
+ * - The remaining steps are rescheduled from the day a step is done
+ * - Interactions and active actions go through caseService, so they are in the activity log
+ *   and send the usual webhooks
+ */
+export class CaseProcessService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Get the processes on a case, newest first
+   */
+  async getProcesses(caseId: number): Promise<CaseProcessItem[]> {
+    // Throws NotFoundError for an unknown case
+    await caseService.getCaseReference(caseId);
+
+    const processes = await this.db.caseProcess.findMany({
+      where: { caseId },
+      orderBy: { startedAt: 'desc' },
+      include: PROCESS_INCLUDE,
+    });
+
+    return processes.map((process) => this.toCaseProcessItem(process));
+  }
+
+  /**
+   * Start a process on a case and make its first step the active action
+   */
+  async startProcess(
+    caseId: number,
+    template: ProcessTemplate,
+    actor: ActivityActor
+  ): Promise<CaseProcessItem> {
+    const caseRecord = await this.db.case.findUnique({
+      where: { id: caseId },
+      select: { id: true, status: true, escalatedBy: true },
+    });
+
+    if (!caseRecord) {
+      throw new NotFoundError('Case', caseId);
+    }
+
+    if (caseRecord.status === 'CLOSED') {
+      throw new ValidationError('A process cannot be started on a closed case');
+    }
+
+    const definition = PROCESS_TEMPLATES[template];
+
+    const inProgress = await this.db.caseProcess.findFirst({
+      where: { caseId, template, completedAt: null },
+    });
+    if (inProgress) {
+      throw new ValidationError(
+        `A ${definition.label.toLowerCase()} is already in progress on this case`
+      );
+    }
+
+    const dueDates = scheduleProcessSteps(
+      definition.steps.map((step) => step.dueInDays),
+      new Date()
+    );
+    const [firstStep] = definition.steps;
+
+    const interaction = await caseService.createInteraction(
+      {
+        caseId,
+        party1Name: actor.name,
+        party1Type: 'ARGAN',
+        party2Name: caseRecord.escalatedBy,
+        party2Type: 'CLIENT',
+        type: 'NOTE',
+        content: [
+          `Process started - ${definition.label}`,
+          '',
+          ...definition.steps.map(
+            (step, index) =>
+              `${index + 1}. ${step.title} (${step.actionParty}, due ${this.formatDate(dueDates[index])})`
+          ),
+        ].join('\n'),
+        actionRequired: firstStep.title,
+        actionRequiredBy: firstStep.actionParty,
+        actionRequiredByDate: this.toDateString(dueDates[0]),
+      },
+      actor
+    );
+
+    const process = await this.db.caseProcess.create({
+      data: {
+        caseId,
+        template,
+        interactionId: interaction.id,
+        startedById: actor.adminId,
+        startedBy: actor.name,
+        steps: {
+          create: definition.steps.map((step, index) => ({
+            position: index + 1,
+            title: step.title,
+            description: step.description,
+            actionParty: step.actionParty,
+            dueInDays: step.dueInDays,
+            dueDate: dueDates[index],
+            documentTemplate: step.documentTemplate || null,
+          })),
+        },
+      },
+      include: PROCESS_INCLUDE,
+    });
+
+    await caseService.setActiveAction(interaction.id, actor);
+
+    return this.toCaseProcessItem(process);
+  }
+
+  /**
+   * Complete (or skip) the current step of a process
+   * The next step becomes the active action; finishing the last step completes the
+   * process and clears the active action if it still belongs to the process
+   */
+  async completeStep(
+    stepId: number,
+    data: CompleteProcessStepDto,
+    actor: ActivityActor
+  ): Promise<CaseProcessItem> {
+    const step = await this.db.caseProcessStep.findUnique({
+      where: { id: stepId },
+      include: {
+        process: {
+          include: {
+            ...PROCESS_INCLUDE,
+            case: { select: { escalatedBy: true } },
+          },
+        },
+      },
+    });
+
+    if (!step) {
+      throw new NotFoundError('Process step', stepId);
+    }
+
+    const { process } = step;
+    const note = data.note?.trim() || null;
+
+    if (step.status !== 'PENDING') {
+      throw new ValidationError(
+        `${step.title} has already been ${step.status === 'SKIPPED' ? 'skipped' : 'completed'}`
+      );
+    }
+
+    const currentStep = getCurrentProcessStep(process.steps);
+    if (currentStep && currentStep.id !== step.id) {
+      throw new ValidationError(`${currentStep.title} must be completed or skipped first`);
+    }
+
+    if (data.skip && !note) {
+      throw new ValidationError('A reason is required to skip a step');
+    }
+
+    const now = new Date();
+    const remainingSteps = process.steps.filter((other) => other.position > step.position);
+    const dueDates = scheduleProcessSteps(
+      remainingSteps.map((other) => other.dueInDays),
+      now
+    );
+    const nextStep = remainingSteps[0];
+    const definition = PROCESS_TEMPLATES[process.template];
+
+    const interaction = await caseService.createInteraction(
+      {
+        caseId: process.caseId,
+        party1Name: actor.name,
+        party1Type: 'ARGAN',
+        party2Name: process.case.escalatedBy,
+        party2Type: 'CLIENT',
+        type: 'NOTE',
+        content: [
+          `Process step ${data.skip ? 'skipped' : 'completed'} - ${definition.label} ${step.position}/${process.steps.length}: ${step.title}`,
+          ...(note ? ['', data.skip ? `Reason: ${note}` : note] : []),
+          ...(nextStep ? [] : ['', `${definition.label} complete`]),
+        ].join('\n'),
+        actionRequired: nextStep?.title ?? null,
+        actionRequiredBy: nextStep?.actionParty ?? null,
+        actionRequiredByDate: nextStep ? this.toDateString(dueDates[0]) : null,
+      },
+      actor
+    );
+
+    await this.db.$transaction([
+      this.db.caseProcessStep.update({
+        where: { id: step.id },
+        data: {
+          status: data.skip ? 'SKIPPED' : 'COMPLETED',
+          note,
+          completedById: actor.adminId,
+          completedBy: actor.name,
+          completedAt: now,
+          interactionId: interaction.id,
+        },
+      }),
+      ...remainingSteps.map((other, index) =>
+        this.db.caseProcessStep.update({
+          where: { id: other.id },
+          data: { dueDate: dueDates[index] },
+        })
+      ),
+      ...(nextStep
+        ? []
+        : [
+            this.db.caseProcess.update({
+              where: { id: process.id },
+              data: { completedAt: now },
+            }),
+          ]),
+    ]);
+
+    if (nextStep) {
+      await caseService.setActiveAction(interaction.id, actor);
+    } else {
+      await this.clearProcessActiveAction(process, actor);
+    }
+
+    const updated = await this.db.caseProcess.findUniqueOrThrow({
+      where: { id: process.id },
+      include: PROCESS_INCLUDE,
+    });
+
+    return this.toCaseProcessItem(updated);
+  }
+
+  /**
+   * Private helper: Clear the case's active action when it is one of the process's steps
+   * An action set by hand since then is left alone
+   */
+  private async clearProcessActiveAction(process: CaseProcessWithSteps, actor: ActivityActor) {
+    const processInteractionIds = [
+      process.interactionId,
+      ...process.steps.map((step) => step.interactionId),
+    ].filter((id): id is number => id !== null);
+
+    const activeAction = await this.db.caseInteraction.findFirst({
+      where: { caseId: process.caseId, isActiveAction: true },
+      select: { id: true },
+    });
+
+    if (activeAction && processInteractionIds.includes(activeAction.id)) {
+      await caseService.unsetActiveAction(activeAction.id, actor);
+    }
+  }
+
+  /**
+   * Private helper: Date as YYYY-MM-DD
+   */
+  private toDateString(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Private helper: Date as DD/MM/YYYY for interaction notes
+   */
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-GB', { timeZone: 'UTC' });
+  }
+
+  /**
+   * Private helper: Convert to the serializable process shape
+   */
+  private toCaseProcessItem(process: CaseProcessWithSteps): CaseProcessItem {
+    return {
+      id: process.id,
+      caseId: process.caseId,
+      template: process.template,
+      label: PROCESS_TEMPLATES[process.template].label,
+      startedBy: process.startedBy,
+      startedAt: process.startedAt.toISOString(),
+      completedAt: process.completedAt?.toISOString() ?? null,
+      steps: process.steps.map(
+        (step): CaseProcessStepItem => ({
+          id: step.id,
+          position: step.position,
+          title: step.title,
+          description: step.description,
+          actionParty: step.actionParty,
+          dueInDays: step.dueInDays,
+          dueDate: this.toDateString(step.dueDate),
+          documentTemplate: step.documentTemplate,
+          status: step.status,
+          note: step.note,
+          completedBy: step.completedBy,
+          completedAt: step.completedAt?.toISOString() ?? null,
+          interactionId: step.interactionId,
+        })
+      ),
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const caseProcessService = new CaseProcessService(getDatabaseInstance());
@@ -4,14 +4,89 @@
  */
 
 import { prisma } from '@/lib/database';
+import { FieldValidationError, NotFoundError, ValidationError } from '@/lib/errors';
+import { activityLogService } from '@/lib/services/business/activity-log.service';
+import { webhookService } from '@/lib/services/business/webhook.service';
+import {
+  averageHours,
+  calculateHoursInStatus,
+  calculateHoursToClose,
+  getStatusChangeRequirements,
+} from '@/lib/utils/business/case-status';
+import { normalizeCaseTypeFields, pickCaseTypeFields } from '@/lib/utils/business/case-types';
+import { calculateHoursUsage, getPeriodBounds } from '@/lib/utils/business/time-tracking';
+import { toActionWebhookData, toCaseWebhookData } from '@/lib/utils/business/webhook';
+import { assertUploadAllowed, getStorage, sanitizeFileName } from '@/lib/utils/system/storage';
 
+import type { ActivityActor } from '@/lib/types/activity';
 import type {
+  GetCasesParams,
   CreateCaseInput,
   UpdateCaseInput,
   CreateInteractionInput,
   CreateFileInput,
+  CreateTimeEntryInput,
+  CategoryHoursUsage,
+  ClientHoursUsage,
+  CaseInteractionChannel,
+  CaseStatusHistory,
+  CaseStatusReport,
+  CaseStatusReportParams,
+  CaseTypeFieldsInput,
+  ClientCallActivity,
+  CreateFileUploadInput,
+  SaveUploadedFileInput,
+  RecordFileAccessInput,
 } from '@/lib/types/case';
-import type { ActionParty } from '@prisma/client';
+import type {
+  ActionParty,
+  CaseStatus,
+  CaseType,
+  InteractionDirection,
+  InteractionType,
+  WorkCategory,
+} from '@prisma/client';
+
+/**
+ * Interaction types counted as calls in call activity reports
+ */
+const CALL_INTERACTION_TYPES: InteractionType[] = ['PHONE_CALL', 'VIDEO_CALL'];
+
+/**
+ * Check the start time and duration of an interaction before it is saved
+ */
+function validateInteractionTiming(input: {
+  startedAt?: string | null;
+  durationMinutes?: number | null;
+}) {
+  if (input.startedAt && Number.isNaN(new Date(input.startedAt).getTime())) {
+    throw new ValidationError('Start time must be a valid date');
+  }
+
+  if (
+    input.durationMinutes !== undefined &&
+    input.durationMinutes !== null &&
+    (!Number.isInteger(input.durationMinutes) || input.durationMinutes < 1)
+  ) {
+    throw new ValidationError('Duration must be a whole number of minutes greater than zero');
+  }
+}
+
+/**
+ * Check the structured fields of a case against its type before they are saved
+ */
+function validateCaseTypeFields(type: CaseType | null, values: CaseTypeFieldsInput) {
+  const { values: normalized, errors } = normalizeCaseTypeFields(type, values);
+
+  if (errors.length > 0) {
+    throw new FieldValidationError(
+      errors.map((error) => ({ field: `typeFields.${error.field}`, message: error.message })),
+      errors.map((error) => error.message).join('. ')
+    );
+  }
+
+  return normalized;
+}
 
 export const caseService = {
   /**
@@ -94,10 +169,10 @@ export const caseService = {
           },
         },
         interactions: {
-          orderBy: { createdAt: 'desc' },
+          orderBy: { startedAt: 'desc' },
           take: 1,
           select: {
-            createdAt: true,
+            startedAt: true,
           },
         },
         _count: {
@@ -109,13 +184,94 @@ export const caseService = {
       },
     });
 
-    // Transform to include lastInteractionDate
+    // Interaction counts per case by type and direction, for the call log filters
+    const channelTotals = await prisma.caseInteraction.groupBy({
+      by: ['caseId', 'type', 'direction'],
+      _count: { _all: true },
+      _sum: { durationMinutes: true },
+    });
+
+    const channelsByCase = new Map<number, CaseInteractionChannel[]>();
+    for (const total of channelTotals) {
+      const channels = channelsByCase.get(total.caseId) || [];
+      channels.push({
+        type: total.type,
+        direction: total.direction,
+        count: total._count._all,
+        minutes: total._sum.durationMinutes ?? 0,
+      });
+      channelsByCase.set(total.caseId, channels);
+    }
+
+    // Transform to include lastInteractionDate and interaction channels
     return cases.map(caseItem => ({
       ...caseItem,
-      lastInteractionDate: caseItem.interactions[0]?.createdAt || caseItem.createdAt,
+      lastInteractionDate: caseItem.interactions[0]?.startedAt || caseItem.createdAt,
+      channels: channelsByCase.get(caseItem.id) || [],
     }));
   },
 
+  /**
+   * Get cases filtered by client, status, type or assignee, with pagination
+   * Used by the external API
+   */
+  async getCases(params: GetCasesParams) {
+    const { page = 1, limit = 25, clientId, status, type, assignedTo } = params;
+
+    // Validate pagination parameters
+    if (page < 1) {
+      throw new ValidationError('Page must be greater than 0');
+    }
+    if (limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+
+    const where = {
+      ...(clientId && { clientId }),
+      ...(status && { status }),
+      ...(type && { type }),
+      ...(assignedTo && { assignedTo: { equals: assignedTo, mode: 'insensitive' as const } }),
+    };
+
+    const [cases, totalCount] = await prisma.$transaction([
+      prisma.case.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+        include: {
+          client: {
+            select: {
+              id: true,
+              companyName: true,
+            },
+          },
+          _count: {
+            select: {
+              interactions: true,
+              files: true,
+            },
+          },
+        },
+      }),
+      prisma.case.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      cases,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  },
+
   /**
    * Get a specific case by ID
    */
@@ -145,7 +301,15 @@ export const caseService = {
   /**
    * Create a new case
    */
-  async createCase(input: CreateCaseInput) {
+  async createCase(input: CreateCaseInput, actor: ActivityActor) {
+    if (input.status === 'CLOSED') {
+      throw new ValidationError('A case cannot be opened as closed');
+    }
+
+    const status = input.status || 'OPEN';
+    const type = input.type || null;
+    const typeFields = validateCaseTypeFields(type, input.typeFields || {});
+
     // Get the last case globally to generate next case ID
     // Order by caseId string to ensure we get the highest case number
     const lastCase = await prisma.case.findFirst({
@@ -156,17 +320,27 @@ export const caseService = {
     const nextNumber = lastCase ? parseInt(lastCase.caseId.split('-')[1]) + 1 : 1;
     const caseId = `CASE-${String(nextNumber).padStart(4, '0')}`;
 
-    return prisma.case.create({
+    const newCase = await prisma.case.create({
       data: {
         caseId,
         clientId: input.clientId,
         title: input.title,
         escalatedBy: input.escalatedBy,
         assignedTo: input.assignedTo || null,
-        status: input.status || 'OPEN',
+        status,
         actionRequiredBy: input.actionRequiredBy || null,
         actionRequired: input.actionRequired || null,
         description: input.description || null,
+        type,
+        typeFields,
+        // Opening entry of the status history
+        statusChanges: {
+          create: {
+            toStatus: status,
+            changedById: actor.adminId,
+            changedBy: actor.name,
+          },
+        },
       },
       include: {
         _count: {
@@ -177,33 +351,241 @@ export const caseService = {
         },
       },
     });
+
+    await activityLogService.record({
+      actor,
+      entityType: 'CASE',
+      entityId: newCase.id,
+      entityLabel: newCase.caseId,
+      action: 'CREATE',
+      after: newCase,
+      clientId: newCase.clientId,
+      caseId: newCase.id,
+    });
+
+    await webhookService.emit('case.opened', { case: toCaseWebhookData(newCase) });
+
+    return newCase;
   },
 
   /**
    * Update a case
+   * Status changes are recorded in the status history; closing needs a reason and an
+   * outcome, reopening needs a reason. Changing the type keeps only the structured
+   * fields the new type shares
    */
-  async updateCase(id: number, input: UpdateCaseInput) {
-    return prisma.case.update({
+  async updateCase(id: number, input: UpdateCaseInput, actor: ActivityActor) {
+    const { statusReason, outcome, typeFields, ...fields } = input;
+
+    const existingCase = await prisma.case.findUnique({
       where: { id },
-      data: input,
-      include: {
-        _count: {
-          select: {
-            interactions: true,
-            files: true,
+    });
+
+    if (!existingCase) {
+      throw new NotFoundError('Case', id);
+    }
+
+    const newStatus =
+      fields.status !== undefined && fields.status !== existingCase.status ? fields.status : null;
+    const reason = statusReason?.trim() || null;
+
+    if (!newStatus && (reason || outcome)) {
+      throw new ValidationError('A reason or outcome can only be given with a status change');
+    }
+
+    if (newStatus) {
+      const { reasonRequired, outcomeRequired } = getStatusChangeRequirements(
+        existingCase.status,
+        newStatus
+      );
+
+      if (reasonRequired && !reason) {
+        throw new ValidationError(
+          newStatus === 'CLOSED'
+            ? 'A reason is required to close a case'
+            : 'A reason is required to reopen a case'
+        );
+      }
+      if (outcomeRequired && !outcome) {
+        throw new ValidationError('An outcome is required to close a case');
+      }
+      if (!outcomeRequired && outcome) {
+        throw new ValidationError('An outcome can only be given when closing a case');
+      }
+    }
+
+    const closing = newStatus === 'CLOSED';
+    const reopening = newStatus !== null && existingCase.status === 'CLOSED';
+
+    const type = fields.type !== undefined ? fields.type : existingCase.type;
+    const newTypeFields =
+      typeFields !== undefined
+        ? validateCaseTypeFields(type, typeFields)
+        : type !== existingCase.type
+          ? pickCaseTypeFields(type, existingCase.typeFields)
+          : undefined;
+
+    const updatedCase = await prisma.$transaction(async (tx) => {
+      const updated = await tx.case.update({
+        where: { id },
+        data: {
+          ...fields,
+          ...(newTypeFields !== undefined ? { typeFields: newTypeFields } : {}),
+          ...(closing ? { outcome, closedAt: new Date() } : {}),
+          ...(reopening ? { outcome: null, closedAt: null } : {}),
+        },
+        include: {
+          _count: {
+            select: {
+              interactions: true,
+              files: true,
+            },
           },
         },
+      });
+
+      if (newStatus) {
+        await tx.caseStatusChange.create({
+          data: {
+            caseId: id,
+            fromStatus: existingCase.status,
+            toStatus: newStatus,
+            reason,
+            outcome: closing ? outcome : null,
+            changedById: actor.adminId,
+            changedBy: actor.name,
+          },
+        });
+      }
+
+      return updated;
+    });
+
+    await activityLogService.record({
+      actor,
+      entityType: 'CASE',
+      entityId: id,
+      entityLabel: updatedCase.caseId,
+      action: 'UPDATE',
+      before: existingCase,
+      after: updatedCase,
+      clientId: updatedCase.clientId,
+      caseId: id,
+    });
+
+    if (updatedCase.status === 'CLOSED' && existingCase.status !== 'CLOSED') {
+      await webhookService.emit('case.closed', { case: toCaseWebhookData(updatedCase) });
+    }
+
+    return updatedCase;
+  },
+
+  /**
+   * Get a case's status history, oldest first, with the time spent in each status
+   */
+  async getStatusHistory(id: number, referenceDate: Date = new Date()): Promise<CaseStatusHistory> {
+    // Throws NotFoundError for an unknown case
+    await this.getCaseReference(id);
+
+    const changes = await prisma.caseStatusChange.findMany({
+      where: { caseId: id },
+      orderBy: [{ changedAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return {
+      caseId: id,
+      changes: changes.map((change) => ({
+        id: change.id,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        reason: change.reason,
+        outcome: change.outcome,
+        changedBy: change.changedBy,
+        changedAt: change.changedAt.toISOString(),
+      })),
+      hoursInStatus: calculateHoursInStatus(changes, referenceDate),
+      hoursToClose: calculateHoursToClose(changes),
+    };
+  },
+
+  /**
+   * Report time-to-close and time-in-status across closed cases
+   * Optionally limited to one client and to cases closed between two dates (inclusive)
+   */
+  async getStatusReport(params: CaseStatusReportParams = {}): Promise<CaseStatusReport> {
+    const cases = await prisma.case.findMany({
+      where: {
+        status: 'CLOSED',
+        clientId: params.clientId,
+        closedAt: { gte: params.closedFrom, lte: params.closedTo },
+      },
+      select: {
+        outcome: true,
+        statusChanges: {
+          select: { toStatus: true, changedAt: true },
+          orderBy: [{ changedAt: 'asc' }, { id: 'asc' }],
+        },
       },
     });
+
+    const closedCases = cases
+      .map((caseItem) => ({
+        outcome: caseItem.outcome,
+        hoursToClose: calculateHoursToClose(caseItem.statusChanges),
+        hoursInStatus: calculateHoursInStatus(caseItem.statusChanges),
+      }))
+      .filter(
+        (caseItem): caseItem is typeof caseItem & { hoursToClose: number } =>
+          caseItem.hoursToClose !== null
+      );
+
+    const averageInStatus = (status: CaseStatus) =>
+      averageHours(closedCases.map((caseItem) => caseItem.hoursInStatus[status])) ?? 0;
+
+    const outcomes = [...new Set(closedCases.map((caseItem) => caseItem.outcome))];
+
+    return {
+      closedCases: closedCases.length,
+      averageHoursToClose: averageHours(closedCases.map((caseItem) => caseItem.hoursToClose)),
+      averageHoursInStatus: {
+        OPEN: averageInStatus('OPEN'),
+        AWAITING: averageInStatus('AWAITING'),
+        CLOSED: averageInStatus('CLOSED'),
+      },
+      byOutcome: outcomes.map((caseOutcome) => {
+        const hours = closedCases
+          .filter((caseItem) => caseItem.outcome === caseOutcome)
+          .map((caseItem) => caseItem.hoursToClose);
+
+        return {
+          outcome: caseOutcome,
+          closedCases: hours.length,
+          averageHoursToClose: averageHours(hours) ?? 0,
+        };
+      }),
+    };
   },
 
   /**
    * Delete a case
    */
-  async deleteCase(id: number) {
-    return prisma.case.delete({
+  async deleteCase(id: number, actor: ActivityActor) {
+    const deletedCase = await prisma.case.delete({
       where: { id },
     });
+
+    await activityLogService.record({
+      actor,
+      entityType: 'CASE',
+      entityId: id,
+      entityLabel: deletedCase.caseId,
+      action: 'DELETE',
+      before: deletedCase,
+      clientId: deletedCase.clientId,
+      caseId: id,
+    });
+
+    return deletedCase;
   },
 
   /**
@@ -212,8 +594,13 @@ export const caseService = {
   async getInteractionsByCaseId(caseId: number) {
     return prisma.caseInteraction.findMany({
       where: { caseId },
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ startedAt: 'desc' }, { createdAt: 'desc' }],
       include: {
+        timeEntries: {
+          select: {
+            durationMinutes: true,
+          },
+        },
         _count: {
           select: {
             files: true,
@@ -226,8 +613,13 @@ export const caseService = {
   /**
    * Create an interaction
    */
-  async createInteraction(input: CreateInteractionInput) {
-    return prisma.caseInteraction.create({
+  async createInteraction(input: CreateInteractionInput, actor: ActivityActor) {
+    validateInteractionTiming(input);
+
+    const caseReference = await this.getCaseReference(input.caseId);
+    const type = input.type || 'NOTE';
+
+    const interaction = await prisma.caseInteraction.create({
       data: {
         caseId: input.caseId,
         party1Name: input.party1Name,
@@ -235,6 +627,11 @@ export const caseService = {
         party2Name: input.party2Name,
         party2Type: input.party2Type,
         content: input.content,
+        type,
+        // Notes are not sent or received, so they have no direction
+        direction: type === 'NOTE' ? null : input.direction || null,
+        startedAt: input.startedAt ? new Date(input.startedAt) : undefined,
+        durationMinutes: input.durationMinutes ?? null,
         actionRequired: input.actionRequired || null,
         actionRequiredBy: input.actionRequiredBy || null,
         actionRequiredByDate: input.actionRequiredByDate ? new Date(input.actionRequiredByDate) : null,
@@ -247,6 +644,19 @@ export const caseService = {
         },
       },
     });
+
+    await activityLogService.record({
+      actor,
+      entityType: 'INTERACTION',
+      entityId: interaction.id,
+      entityLabel: caseReference.caseId,
+      action: 'CREATE',
+      after: interaction,
+      clientId: caseReference.clientId,
+      caseId: input.caseId,
+    });
+
+    return interaction;
   },
 
   /**
@@ -260,20 +670,37 @@ export const caseService = {
       party2Name?: string;
       party2Type?: ActionParty;
       content?: string;
+      type?: InteractionType;
+      direction?: InteractionDirection | null;
+      startedAt?: string;
+      durationMinutes?: number | null;
       actionRequired?: string | null;
       actionRequiredBy?: ActionParty | null;
       actionRequiredByDate?: string | null;
-    }
+    },
+    actor: ActivityActor
   ) {
-    // Convert date string to Date object if provided
+    validateInteractionTiming(input);
+
+    const existingInteraction = await prisma.caseInteraction.findUnique({
+      where: { id: interactionId },
+    });
+
+    if (!existingInteraction) {
+      throw new NotFoundError('Interaction', interactionId);
+    }
+
+    // Convert date strings to Date objects if provided
     const data = {
       ...input,
+      direction: input.type === 'NOTE' ? null : input.direction,
+      startedAt: input.startedAt ? new Date(input.startedAt) : undefined,
       actionRequiredByDate: input.actionRequiredByDate !== undefined
         ? (input.actionRequiredByDate ? new Date(input.actionRequiredByDate) : null)
         : undefined,
     };
 
-    return prisma.caseInteraction.update({
+    const updatedInteraction = await prisma.caseInteraction.update({
       where: { id: interactionId },
       data,
       include: {
@@ -285,6 +712,33 @@ export const caseService = {
         },
       },
     });
+
+    await activityLogService.record({
+      actor,
+      entityType: 'INTERACTION',
+      entityId: interactionId,
+      entityLabel: updatedInteraction.case.caseId,
+      action: 'UPDATE',
+      before: existingInteraction,
+      after: updatedInteraction,
+      clientId: updatedInteraction.case.clientId,
+      caseId: updatedInteraction.caseId,
+    });
+
+    // A new due date on the active action is a newly set action due date
+    if (
+      updatedInteraction.isActiveAction &&
+      updatedInteraction.actionRequiredByDate &&
+      updatedInteraction.actionRequiredByDate.getTime() !==
+        existingInteraction.actionRequiredByDate?.getTime()
+    ) {
+      await webhookService.emit('case.action_due_date_set', {
+        case: toCaseWebhookData(updatedInteraction.case),
+        action: toActionWebhookData(updatedInteraction),
+      });
+    }
+
+    return updatedInteraction;
   },
 
   /**
@@ -292,18 +746,29 @@ export const caseService = {
    * This will unset all other active actions for the same case
    * and update the case's action fields with the interaction's data
    */
-  async setActiveAction(interactionId: number) {
+  async setActiveAction(interactionId: number, actor: ActivityActor) {
     // Get the interaction to find its case and action data
     const interaction = await prisma.caseInteraction.findUnique({
       where: { id: interactionId },
     });
 
     if (!interaction) {
-      throw new Error('Interaction not found');
+      throw new NotFoundError('Interaction', interactionId);
     }
 
     // Use a transaction to ensure consistency
-    return prisma.$transaction(async (tx) => {
+    const { updatedInteraction, updatedCase } = await prisma.$transaction(async (tx) => {
+      const existingCase = await tx.case.findUniqueOrThrow({
+        where: { id: interaction.caseId },
+      });
+      const previousActive = await tx.caseInteraction.findMany({
+        where: {
+          caseId: interaction.caseId,
+          isActiveAction: true,
+          id: { not: interactionId },
+        },
+      });
+
       // First, unset all active actions for this case
       await tx.caseInteraction.updateMany({
         where: {
@@ -329,7 +794,7 @@ export const caseService = {
       });
 
       // Update the parent case with this interaction's action data
-      await tx.case.update({
+      const updatedCase = await tx.case.update({
         where: { id: interaction.caseId },
         data: {
           actionRequired: interaction.actionRequired,
@@ -337,22 +802,68 @@ export const caseService = {
         },
       });
 
-      return updatedInteraction;
+      const reference = {
+        actor,
+        entityLabel: existingCase.caseId,
+        clientId: existingCase.clientId,
+        caseId: existingCase.id,
+      };
+
+      await activityLogService.recordMany(
+        [
+          ...previousActive.map((previous) => ({
+            ...reference,
+            entityType: 'INTERACTION' as const,
+            entityId: previous.id,
+            action: 'UPDATE' as const,
+            before: { isActiveAction: true },
+            after: { isActiveAction: false },
+          })),
+          {
+            ...reference,
+            entityType: 'INTERACTION',
+            entityId: interactionId,
+            action: 'UPDATE',
+            before: interaction,
+            after: updatedInteraction,
+          },
+          {
+            ...reference,
+            entityType: 'CASE',
+            entityId: existingCase.id,
+            action: 'UPDATE',
+            before: existingCase,
+            after: updatedCase,
+          },
+        ],
+        tx
+      );
+
+      return { updatedInteraction, updatedCase };
     });
+
+    if (updatedInteraction.actionRequiredByDate) {
+      await webhookService.emit('case.action_due_date_set', {
+        case: toCaseWebhookData(updatedCase),
+        action: toActionWebhookData(updatedInteraction),
+      });
+    }
+
+    return updatedInteraction;
   },
 
   /**
    * Unset the active action for an interaction
    * This will clear the isActiveAction flag and clear the case's action fields
    */
-  async unsetActiveAction(interactionId: number) {
+  async unsetActiveAction(interactionId: number, actor: ActivityActor) {
     // Get the interaction to find its case
     const interaction = await prisma.caseInteraction.findUnique({
       where: { id: interactionId },
     });
 
     if (!interaction) {
-      throw new Error('Interaction not found');
+      throw new NotFoundError('Interaction', interactionId);
     }
 
     // Use a transaction to ensure consistency
@@ -371,7 +882,10 @@ export const caseService = {
       });
 
       // Clear the parent case's action fields
-      await tx.case.update({
+      const existingCase = await tx.case.findUniqueOrThrow({
+        where: { id: interaction.caseId },
+      });
+      const updatedCase = await tx.case.update({
         where: { id: interaction.caseId },
         data: {
           actionRequired: null,
@@ -379,6 +893,35 @@ export const caseService = {
         },
       });
 
+      const reference = {
+        actor,
+        entityLabel: existingCase.caseId,
+        clientId: existingCase.clientId,
+        caseId: existingCase.id,
+      };
+
+      await activityLogService.recordMany(
+        [
+          {
+            ...reference,
+            entityType: 'INTERACTION',
+            entityId: interactionId,
+            action: 'UPDATE',
+            before: interaction,
+            after: updatedInteraction,
+          },
+          {
+            ...reference,
+            entityType: 'CASE',
+            entityId: existingCase.id,
+            action: 'UPDATE',
+            before: existingCase,
+            after: updatedCase,
+          },
+        ],
+        tx
+      );
+
       return updatedInteraction;
     });
   },
@@ -387,7 +930,7 @@ export const caseService = {
    * Delete an interaction
    * If the interaction is the active action, clear the case's action fields
    */
-  async deleteInteraction(id: number) {
+  async deleteInteraction(id: number, actor: ActivityActor) {
     // Get the interaction first to check if it's active and get the caseId
     const interaction = await prisma.caseInteraction.findUnique({
       where: { id },
@@ -404,15 +947,48 @@ export const caseService = {
         where: { id },
       });
 
+      const existingCase = await tx.case.findUniqueOrThrow({
+        where: { id: interaction.caseId },
+      });
+      const reference = {
+        actor,
+        entityLabel: existingCase.caseId,
+        clientId: existingCase.clientId,
+        caseId: existingCase.id,
+      };
+
+      await activityLogService.record(
+        {
+          ...reference,
+          entityType: 'INTERACTION',
+          entityId: id,
+          action: 'DELETE',
+          before: deletedInteraction,
+        },
+        tx
+      );
+
       // If this was the active action, clear the case's action fields
       if (interaction.isActiveAction) {
-        await tx.case.update({
+        const updatedCase = await tx.case.update({
           where: { id: interaction.caseId },
           data: {
             actionRequired: null,
             actionRequiredBy: null,
           },
         });
+
+        await activityLogService.record(
+          {
+            ...reference,
+            entityType: 'CASE',
+            entityId: existingCase.id,
+            action: 'UPDATE',
+            before: existingCase,
+            after: updatedCase,
+          },
+          tx
+        );
       }
 
       return deletedInteraction;
@@ -435,13 +1011,17 @@ export const caseService = {
   /**
    * Create a file record
    */
-  async createFile(input: CreateFileInput) {
-    return prisma.caseFile.create({
+  async createFile(input: CreateFileInput, actor: ActivityActor) {
+    const caseReference = await this.getCaseReference(input.caseId);
+
+    const file = await prisma.caseFile.create({
       data: {
         caseId: input.caseId,
         interactionId: input.interactionId || null,
         fileName: input.fileName,
         fileUrl: input.fileUrl,
+        storageKey: input.storageKey || null,
+        contentType: input.contentType || null,
         fileSize: input.fileSize,
         uploadedBy: input.uploadedBy,
         fileTitle: input.fileTitle || null,
@@ -449,5 +1029,394 @@ export const caseService = {
         fileTags: input.fileTags || [],
       },
     });
+
+    await activityLogService.record({
+      actor,
+      entityType: 'FILE',
+      entityId: file.id,
+      entityLabel: file.fileName,
+      action: 'CREATE',
+      after: file,
+      clientId: caseReference.clientId,
+      caseId: input.caseId,
+    });
+
+    return file;
+  },
+
+  /**
+   * Look up the client and case number for a case, for activity log entries
+   */
+  async getCaseReference(id: number) {
+    const caseRecord = await prisma.case.findUnique({
+      where: { id },
+      select: { clientId: true, caseId: true },
+    });
+
+    if (!caseRecord) {
+      throw new NotFoundError('Case', id);
+    }
+
+    return caseRecord;
+  },
+
+  /**
+   * Get the storage key prefix for a case or interaction
+   * Layout: {client-id}/cases/{case-id}/case-level or
+   *         {client-id}/cases/{case-id}/interactions/interaction-{id}
+   */
+  getFileKeyPrefix(clientId: number, caseId: string, interactionId?: number | null): string {
+    return interactionId
+      ? `${clientId}/cases/${caseId}/interactions/interaction-${interactionId}`
+      : `${clientId}/cases/${caseId}/case-level`;
+  },
+
+  /**
+   * Look up a case by its string ID and check an optional interaction belongs to it
+   */
+  async getCaseForFile(caseId: string, interactionId?: number | null) {
+    const caseRecord = await prisma.case.findUnique({
+      where: { caseId },
+    });
+
+    if (!caseRecord) {
+      throw new NotFoundError('Case', caseId);
+    }
+
+    if (interactionId) {
+      const interaction = await prisma.caseInteraction.findFirst({
+        where: { id: interactionId, caseId: caseRecord.id },
+      });
+
+      if (!interaction) {
+        throw new NotFoundError('Interaction', interactionId);
+      }
+    }
+
+    return caseRecord;
+  },
+
+  /**
+   * Start a file upload
+   * Validates the target case and file, then issues a short-lived upload URL
+   */
+  async createFileUpload(input: CreateFileUploadInput) {
+    assertUploadAllowed(input.fileName, input.fileSize);
+
+    const caseRecord = await this.getCaseForFile(input.caseId, input.interactionId);
+
+    if (caseRecord.clientId !== input.clientId) {
+      throw new ValidationError('Case does not belong to this client');
+    }
+
+    // Timestamp prevents naming collisions within the same folder
+    const prefix = this.getFileKeyPrefix(
+      caseRecord.clientId,
+      caseRecord.caseId,
+      input.interactionId
+    );
+    const fileKey = `${prefix}/${Date.now()}-${sanitizeFileName(input.fileName)}`;
+    const contentType = input.fileType || 'application/octet-stream';
+
+    const uploadUrl = await getStorage().createUploadUrl(fileKey, contentType, input.fileSize);
+
+    return { uploadUrl, fileKey, contentType };
+  },
+
+  /**
+   * Record an uploaded file against its case or interaction
+   * Verifies the object exists in storage and belongs to the case folder
+   */
+  async saveUploadedFile(input: SaveUploadedFileInput, actor: ActivityActor) {
+    const caseRecord = await this.getCaseForFile(input.caseId, input.interactionId);
+    const prefix = this.getFileKeyPrefix(
+      caseRecord.clientId,
+      caseRecord.caseId,
+      input.interactionId
+    );
+
+    if (!input.fileKey.startsWith(`${prefix}/`) || input.fileKey.includes('..')) {
+      throw new ValidationError('File key does not match the case upload location');
+    }
+
+    const storage = getStorage();
+    const stored = await storage.headObject(input.fileKey);
+
+    if (!stored) {
+      throw new ValidationError('Uploaded file was not found in storage');
+    }
+
+    return this.createFile(
+      {
+        caseId: caseRecord.id,
+        interactionId: input.interactionId || null,
+        fileName: input.fileName,
+        fileUrl: storage.getObjectUrl(input.fileKey),
+        storageKey: input.fileKey,
+        contentType: stored.contentType,
+        fileSize: stored.size,
+        uploadedBy: input.uploadedBy,
+        fileTitle: input.fileTitle,
+        fileDescription: input.fileDescription,
+        fileTags: input.fileTags,
+      },
+      actor
+    );
+  },
+
+  /**
+   * Get a file for download, checking it belongs to one of the client's cases
+   */
+  async getClientFile(clientId: number, fileId: number) {
+    const file = await prisma.caseFile.findUnique({
+      where: { id: fileId },
+      include: {
+        case: {
+          select: { clientId: true, caseId: true },
+        },
+      },
+    });
+
+    if (!file || file.case.clientId !== clientId) {
+      throw new NotFoundError('File', fileId);
+    }
+
+    if (!file.storageKey) {
+      throw new ValidationError('File is not held in document storage');
+    }
+
+    return file;
+  },
+
+  /**
+   * Record that an admin downloaded or previewed a file
+   */
+  async recordFileAccess(input: RecordFileAccessInput) {
+    return prisma.caseFileAccess.create({
+      data: {
+        fileId: input.fileId,
+        accessType: input.accessType,
+        adminId: input.adminId,
+        accessedBy: input.accessedBy,
+        ipAddress: input.ipAddress || null,
+        userAgent: input.userAgent || null,
+      },
+    });
+  },
+
+  /**
+   * Get the access history for a file (most recent first)
+   */
+  async getFileAccesses(fileId: number) {
+    return prisma.caseFileAccess.findMany({
+      where: { fileId },
+      orderBy: { accessedAt: 'desc' },
+    });
+  },
+
+  /**
+   * Get time entries for an interaction
+   */
+  async getTimeEntriesByInteractionId(interactionId: number) {
+    return prisma.caseTimeEntry.findMany({
+      where: { interactionId },
+      orderBy: [{ workDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  },
+
+  /**
+   * Record time spent on an interaction, checking it belongs to one of the client's cases
+   * The case is taken from the interaction so entries always roll up to the right client
+   */
+  async createTimeEntry(clientId: number, input: CreateTimeEntryInput) {
+    if (!Number.isInteger(input.durationMinutes) || input.durationMinutes < 1) {
+      throw new Error('Duration must be a whole number of minutes greater than zero');
+    }
+
+    const interaction = await prisma.caseInteraction.findFirst({
+      where: { id: input.interactionId, case: { clientId } },
+    });
+
+    if (!interaction) {
+      throw new NotFoundError('Interaction', input.interactionId);
+    }
+
+    return prisma.caseTimeEntry.create({
+      data: {
+        caseId: interaction.caseId,
+        interactionId: input.interactionId,
+        category: input.category,
+        durationMinutes: input.durationMinutes,
+        billable: input.billable ?? true,
+        description: input.description || null,
+        workDate: input.workDate ? new Date(input.workDate) : undefined,
+        recordedBy: input.recordedBy,
+      },
+    });
+  },
+
+  /**
+   * Delete a time entry, checking it belongs to one of the client's cases
+   */
+  async deleteTimeEntry(clientId: number, id: number) {
+    const entry = await prisma.caseTimeEntry.findFirst({
+      where: { id, case: { clientId } },
+    });
+
+    if (!entry) {
+      throw new NotFoundError('Time entry', id);
+    }
+
+    return prisma.caseTimeEntry.delete({
+      where: { id },
+    });
+  },
+
+  /**
+   * Get hours usage for a client's active contract
+   * Rolls up time entries per work category for the contract period containing the reference date
+   * Returns null if the client has no active contract
+   */
+  async getClientHoursUsage(
+    clientId: number,
+    referenceDate: Date = new Date()
+  ): Promise<ClientHoursUsage | null> {
+    const contract = await prisma.contract.findFirst({
+      where: { clientId, status: 'ACTIVE' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!contract) {
+      return null;
+    }
+
+    const categoryTerms: Array<{
+      category: WorkCategory;
+      includedHours: number | null;
+      period: CategoryHoursUsage['period'];
+      rate: number | null;
+      rateUnit: CategoryHoursUsage['overageRateUnit'];
+    }> = [
+      {
+        category: 'HR_ADMIN',
+        includedHours: contract.hrAdminInclusiveHours
+          ? Number(contract.hrAdminInclusiveHours)
+          : null,
+        period: contract.hrAdminInclusiveHoursPeriod || 'MONTHLY',
+        rate: contract.hrAdminRate ? Number(contract.hrAdminRate) : null,
+        rateUnit: contract.hrAdminRateUnit,
+      },
+      {
+        category: 'EMPLOYMENT_LAW',
+        includedHours: contract.employmentLawInclusiveHours
+          ? Number(contract.employmentLawInclusiveHours)
+          : null,
+        period: contract.employmentLawInclusiveHoursPeriod || 'MONTHLY',
+        rate: contract.employmentLawRate ? Number(contract.employmentLawRate) : null,
+        rateUnit: contract.employmentLawRateUnit,
+      },
+    ];
+
+    const categories = await Promise.all(
+      categoryTerms.map(async (terms): Promise<CategoryHoursUsage> => {
+        const { start, end } = getPeriodBounds(
+          terms.period,
+          referenceDate,
+          contract.contractStartDate
+        );
+
+        const totals = await prisma.caseTimeEntry.groupBy({
+          by: ['billable'],
+          where: {
+            category: terms.category,
+            workDate: { gte: start, lt: end },
+            case: { clientId },
+          },
+          _sum: { durationMinutes: true },
+        });
+
+        const billableMinutes = totals.find((t) => t.billable)?._sum.durationMinutes ?? 0;
+        const nonBillableMinutes = totals.find((t) => !t.billable)?._sum.durationMinutes ?? 0;
+        const usage = calculateHoursUsage(
+          billableMinutes,
+          terms.includedHours,
+          terms.rate,
+          terms.rateUnit
+        );
+
+        return {
+          category: terms.category,
+          period: terms.period,
+          periodStart: start.toISOString(),
+          periodEnd: end.toISOString(),
+          ...usage,
+          overageRate: terms.rate,
+          overageRateUnit: terms.rateUnit,
+          nonBillableHours: Math.round((nonBillableMinutes / 60) * 100) / 100,
+        };
+      })
+    );
+
+    return {
+      clientId,
+      contractId: contract.id,
+      contractNumber: contract.contractNumber,
+      categories,
+    };
+  },
+
+  /**
+   * Get a client's phone and video calls per calendar month
+   * Covers the given number of months up to and including the month of the reference date
+   */
+  async getClientCallActivity(
+    clientId: number,
+    monthCount: number = 12,
+    referenceDate: Date = new Date()
+  ): Promise<ClientCallActivity> {
+    const start = new Date(
+      referenceDate.getFullYear(),
+      referenceDate.getMonth() - (monthCount - 1),
+      1
+    );
+    const end = new Date(referenceDate.getFullYear(), referenceDate.getMonth() + 1, 1);
+
+    const calls = await prisma.caseInteraction.findMany({
+      where: {
+        type: { in: CALL_INTERACTION_TYPES },
+        startedAt: { gte: start, lt: end },
+        case: { clientId },
+      },
+      select: { startedAt: true, durationMinutes: true },
+    });
+
+    const months = Array.from({ length: monthCount }, (_, index) => ({
+      month: new Date(start.getFullYear(), start.getMonth() + index, 1).toISOString(),
+      calls: 0,
+      minutes: 0,
+      untimedCalls: 0,
+    }));
+
+    for (const call of calls) {
+      const index =
+        (call.startedAt.getFullYear() - start.getFullYear()) * 12 +
+        call.startedAt.getMonth() -
+        start.getMonth();
+      const month = months[index];
+
+      month.calls++;
+      if (call.durationMinutes) {
+        month.minutes += call.durationMinutes;
+      } else {
+        month.untimedCalls++;
+      }
+    }
+
+    return {
+      clientId,
+      months,
+      totalCalls: calls.length,
+      totalMinutes: months.reduce((sum, month) => sum + month.minutes, 0),
+    };
   },
 };
@@ -2,7 +2,14 @@ import { Client, PrismaClient } from '@prisma/client';
 
 import { getDatabaseInstance } from '@/lib/database';
 import { ValidationError, FieldValidationError, ClientNotFoundError } from '@/lib/errors';
-
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import { WebhookService, webhookService } from '@/lib/services/business/webhook.service';
+import { toClientWebhookData } from '@/lib/utils/business/webhook';
+
+import type { ActivityActor } from '@/lib/types/activity';
 import type {
   GetClientsParams,
   CreateClientDto,
@@ -18,9 +25,15 @@ import type {
  * - Proper error handling with business errors
  * - Input validation
  * - Database transactions where needed
+ * - Every change is recorded in the activity log against the acting admin
+ * - Creation and status changes are sent to webhook subscribers
  */
 export class ClientService {
-  constructor(private readonly db: PrismaClient) {}
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService,
+    private readonly webhooks: WebhookService
+  ) {}
 
   /**
    * Get unique sectors from database
@@ -54,9 +67,10 @@ export class ClientService {
    * Update sector name across all clients
    * @param oldName - Current sector name
    * @param newName - New sector name
+   * @param actor - Admin making the change
    * @returns Number of clients updated
    */
-  async updateSector(oldName: string, newName: string): Promise<number> {
+  async updateSector(oldName: string, newName: string, actor: ActivityActor): Promise<number> {
     // Validation
     if (!oldName || !oldName.trim()) {
       throw new ValidationError('Old sector name is required');
@@ -90,28 +104,55 @@ export class ClientService {
       throw new ValidationError(`Sector "${trimmedNew}" already exists`);
     }
 
+    const where = {
+      sector: {
+        equals: trimmedOld,
+        mode: 'insensitive' as const,
+      },
+    };
+
     // Update all clients with this sector
-    const result = await this.db.client.updateMany({
-      where: {
-        sector: {
-          equals: trimmedOld,
-          mode: 'insensitive',
+    return this.db.$transaction(async (tx) => {
+      const affectedClients = await tx.client.findMany({
+        where,
+        select: { id: true, companyName: true, sector: true },
+      });
+
+      const result = await tx.client.updateMany({
+        where,
+        data: {
+          sector: trimmedNew,
         },
-      },
-      data: {
-        sector: trimmedNew,
-      },
-    });
+      });
 
-    return result.count;
+      await this.activityLog.recordMany(
+        affectedClients.map((client) => ({
+          actor,
+          entityType: 'CLIENT' as const,
+          entityId: client.id,
+          entityLabel: client.companyName,
+          action: 'UPDATE' as const,
+          before: { sector: client.sector },
+          after: { sector: trimmedNew },
+          clientId: client.id,
+        })),
+        tx
+      );
+
+      return result.count;
+    });
   }
 
   /**
    * Delete sector (set to null for all clients using it)
    * @param name - Sector name to delete
+   * @param actor - Admin making the change
    * @returns Object with count of clients affected and whether deletion was successful
    */
-  async deleteSector(name: string): Promise<{ count: number; deleted: boolean }> {
+  async deleteSector(
+    name: string,
+    actor: ActivityActor
+  ): Promise<{ count: number; deleted: boolean }> {
     // Validation
     if (!name || !name.trim()) {
       throw new ValidationError('Sector name is required');
@@ -134,27 +175,50 @@ export class ClientService {
       return { count: 0, deleted: false };
     }
 
+    const where = {
+      sector: {
+        equals: trimmedName,
+        mode: 'insensitive' as const,
+      },
+    };
+
     // Set sector to null for all clients using it
-    const result = await this.db.client.updateMany({
-      where: {
-        sector: {
-          equals: trimmedName,
-          mode: 'insensitive',
+    return this.db.$transaction(async (tx) => {
+      const affectedClients = await tx.client.findMany({
+        where,
+        select: { id: true, companyName: true, sector: true },
+      });
+
+      const result = await tx.client.updateMany({
+        where,
+        data: {
+          sector: null,
         },
-      },
-      data: {
-        sector: null,
-      },
-    });
+      });
 
-    return { count: result.count, deleted: true };
+      await this.activityLog.recordMany(
+        affectedClients.map((client) => ({
+          actor,
+          entityType: 'CLIENT' as const,
+          entityId: client.id,
+          entityLabel: client.companyName,
+          action: 'UPDATE' as const,
+          before: { sector: client.sector },
+          after: { sector: null },
+          clientId: client.id,
+        })),
+        tx
+      );
+
+      return { count: result.count, deleted: true };
+    });
   }
 
   /**
    * Get clients with search and pagination
    */
   async getClients(params: GetClientsParams): Promise<ClientResponse> {
-    const { page = 1, limit = 25, search = '' } = params;
+    const { page = 1, limit = 25, search = '', status } = params;
 
     // Validate pagination parameters
     if (page < 1) {
@@ -166,23 +230,24 @@ export class ClientService {
 
     const offset = (page - 1) * limit;
 
-    // Build search conditions
-    const where = search
-      ? {
-          OR: [
-            { companyName: { contains: search, mode: 'insensitive' as const } },
-            { businessId: { contains: search, mode: 'insensitive' as const } },
-            { sector: { contains: search, mode: 'insensitive' as const } },
-          ],
-        }
-      : {};
+    // Build search and status conditions
+    const where = {
+      ...(search && {
+        OR: [
+          { companyName: { contains: search, mode: 'insensitive' as const } },
+          { businessId: { contains: search, mode: 'insensitive' as const } },
+          { sector: { contains: search, mode: 'insensitive' as const } },
+        ],
+      }),
+      ...(status && { status }),
+    };
 
     // Use transaction for consistency
     const [clients, totalCount] = await this.db.$transaction([
       this.db.client.findMany({
         where,
         orderBy: [
-          { status: 'asc' },      // ACTIVE first, then INACTIVE, then PENDING
+          { status: 'asc' }, // ACTIVE first, then INACTIVE, then PENDING
           { companyName: 'asc' }, // Alphabetical within each status
         ],
         take: limit,
@@ -278,7 +343,7 @@ export class ClientService {
   /**
    * Create a new client with new contact system
    */
-  async createClient(data: CreateClientDto): Promise<Client> {
+  async createClient(data: CreateClientDto, actor: ActivityActor): Promise<Client> {
     // Validate required fields
     const errors = [];
     if (!data.companyName) {
@@ -312,7 +377,8 @@ export class ClientService {
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
         // Create client and contacts in a transaction
-        const client = await this.createClientTransaction(data);
+        const client = await this.createClientTransaction(data, actor);
+        await this.webhooks.emit('client.created', { client: toClientWebhookData(client) });
         return client;
       } catch (error) {
         // Check if it's a unique constraint error on contract_number
@@ -347,7 +413,10 @@ export class ClientService {
    * Internal method to create client in a transaction
    * Separated for retry logic
    */
-  private async createClientTransaction(data: CreateClientDto): Promise<Client> {
+  private async createClientTransaction(
+    data: CreateClientDto,
+    actor: ActivityActor
+  ): Promise<Client> {
     const client = await this.db.$transaction(async (tx) => {
       // Conditional payment method onboarding fields
       // Set to null (N/A) for irrelevant payment methods, false (pending) for relevant ones
@@ -387,13 +456,27 @@ export class ClientService {
           directDebitSetup,
           directDebitConfirmed,
           recurringInvoiceSetup,
+          createdBy: actor.adminId,
         },
       });
 
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'CLIENT',
+          entityId: newClient.id,
+          entityLabel: newClient.companyName,
+          action: 'CREATE',
+          after: newClient,
+          clientId: newClient.id,
+        },
+        tx
+      );
+
       // Create contacts from array (new system: SERVICE or INVOICE types)
       if (data.contacts && data.contacts.length > 0) {
         for (const contact of data.contacts) {
-          await tx.clientContact.create({
+          const newContact = await tx.clientContact.create({
             data: {
               clientId: newClient.id,
               type: contact.type,
@@ -404,13 +487,26 @@ export class ClientService {
               description: contact.description || null,
             },
           });
+
+          await this.activityLog.record(
+            {
+              actor,
+              entityType: 'CONTACT',
+              entityId: newContact.id,
+              entityLabel: newContact.name,
+              action: 'CREATE',
+              after: newContact,
+              clientId: newClient.id,
+            },
+            tx
+          );
         }
       }
 
       // Create addresses from array (new system: SERVICE or INVOICE types)
       if (data.addresses && data.addresses.length > 0) {
         for (const address of data.addresses) {
-          await tx.clientAddress.create({
+          const newAddress = await tx.clientAddress.create({
             data: {
               clientId: newClient.id,
               type: address.type,
@@ -422,6 +518,19 @@ export class ClientService {
               description: address.description || null,
             },
           });
+
+          await this.activityLog.record(
+            {
+              actor,
+              entityType: 'ADDRESS',
+              entityId: newAddress.id,
+              entityLabel: newAddress.addressLine1,
+              action: 'CREATE',
+              after: newAddress,
+              clientId: newClient.id,
+            },
+            tx
+          );
         }
       }
 
@@ -495,13 +604,14 @@ export class ClientService {
 
       const version = 1; // First contract is always version 1
 
-      await tx.contract.create({
+      const newContract = await tx.contract.create({
         data: {
           clientId: newClient.id,
           contractNumber,
           version,
           contractStartDate: data.contractStartDate || new Date(),
-          contractRenewalDate: data.contractRenewalDate || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
+          contractRenewalDate:
+            data.contractRenewalDate || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
           status: 'ACTIVE',
           // Onboarding fields - all default to false via Prisma schema
           // Service Agreement - In Scope
@@ -519,6 +629,19 @@ export class ClientService {
         },
       });
 
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'CONTRACT',
+          entityId: newContract.id,
+          entityLabel: newContract.contractNumber,
+          action: 'CREATE',
+          after: newContract,
+          clientId: newClient.id,
+        },
+        tx
+      );
+
       return newClient;
     });
 
@@ -528,7 +651,7 @@ export class ClientService {
   /**
    * Update a client
    */
-  async updateClient(id: number, data: UpdateClientDto): Promise<Client> {
+  async updateClient(id: number, data: UpdateClientDto, actor: ActivityActor): Promise<Client> {
     // Validate ID
     if (!id || id < 1) {
       throw new ValidationError('Invalid client ID');
@@ -574,26 +697,48 @@ export class ClientService {
         chargeVat: data.chargeVat !== undefined ? data.chargeVat : undefined,
         paymentMethod: data.paymentMethod !== undefined ? data.paymentMethod : undefined,
         directDebitSetup: data.directDebitSetup !== undefined ? data.directDebitSetup : undefined,
-        directDebitConfirmed: data.directDebitConfirmed !== undefined ? data.directDebitConfirmed : undefined,
-        contractAddedToXero: data.contractAddedToXero !== undefined ? data.contractAddedToXero : undefined,
-        recurringInvoiceSetup: data.recurringInvoiceSetup !== undefined ? data.recurringInvoiceSetup : undefined,
+        directDebitConfirmed:
+          data.directDebitConfirmed !== undefined ? data.directDebitConfirmed : undefined,
+        contractAddedToXero:
+          data.contractAddedToXero !== undefined ? data.contractAddedToXero : undefined,
+        recurringInvoiceSetup:
+          data.recurringInvoiceSetup !== undefined ? data.recurringInvoiceSetup : undefined,
         dpaSignedGdpr: data.dpaSignedGdpr !== undefined ? data.dpaSignedGdpr : undefined,
         firstInvoiceSent: data.firstInvoiceSent !== undefined ? data.firstInvoiceSent : undefined,
         firstPaymentMade: data.firstPaymentMade !== undefined ? data.firstPaymentMade : undefined,
-        lastPriceIncrease: data.lastPriceIncrease !== undefined ? data.lastPriceIncrease : undefined,
+        lastPriceIncrease:
+          data.lastPriceIncrease !== undefined ? data.lastPriceIncrease : undefined,
         externalAudit: data.externalAudit !== undefined ? data.externalAudit : undefined,
       },
     });
 
+    await this.activityLog.record({
+      actor,
+      entityType: 'CLIENT',
+      entityId: id,
+      entityLabel: client.companyName,
+      action: 'UPDATE',
+      before: existingClient,
+      after: client,
+      clientId: id,
+    });
+
+    await this.emitStatusChange(existingClient.status, client);
+
     return client;
   }
 
   /**
    * Toggle client status (deactivate ACTIVE clients, reactivate INACTIVE/PENDING clients)
    * @param id - Client ID
+   * @param actor - Admin making the change
    * @param targetStatus - Optional target status for ACTIVE clients (PENDING or INACTIVE)
    */
-  async deleteClient(id: number, targetStatus?: 'PENDING' | 'INACTIVE'): Promise<Client> {
+  async deleteClient(
+    id: number,
+    actor: ActivityActor,
+    targetStatus?: 'PENDING' | 'INACTIVE'
+  ): Promise<Client> {
     // Validate ID
     if (!id || id < 1) {
       throw new ValidationError('Invalid client ID');
@@ -625,9 +770,34 @@ export class ClientService {
       },
     });
 
+    await this.activityLog.record({
+      actor,
+      entityType: 'CLIENT',
+      entityId: id,
+      entityLabel: client.companyName,
+      action: 'UPDATE',
+      before: existingClient,
+      after: client,
+      clientId: id,
+    });
+
+    await this.emitStatusChange(existingClient.status, client);
+
     return client;
   }
 
+  /**
+   * Private helper: Notify webhook subscribers when a client's status has changed
+   */
+  private async emitStatusChange(previousStatus: Client['status'], client: Client): Promise<void> {
+    if (client.status === previousStatus) return;
+
+    await this.webhooks.emit('client.status_changed', {
+      client: toClientWebhookData(client),
+      previousStatus,
+    });
+  }
+
   /**
    * Private helper: Validate email format
    */
@@ -637,4 +807,8 @@ export class ClientService {
 }
 
 // Singleton instance export with environment-specific database
-export const clientService = new ClientService(getDatabaseInstance());
+export const clientService = new ClientService(
+  getDatabaseInstance(),
+  activityLogService,
+  webhookService
+);
@@ -2,6 +2,12 @@ import { ClientContact, ContactType, PrismaClient } from '@prisma/client';
 
 import { getDatabaseInstance } from '@/lib/database';
 import { ValidationError } from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+
+import type { ActivityActor } from '@/lib/types/activity';
 
 interface CreateContactDto {
   type: ContactType;
@@ -22,12 +28,19 @@ interface UpdateContactDto {
  * ContactService - Business logic for contact management
  */
 export class ContactService {
-  constructor(private readonly db: PrismaClient) {}
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService
+  ) {}
 
   /**
    * Create a new contact for a client
    */
-  async createContact(clientId: number, data: CreateContactDto): Promise<ClientContact> {
+  async createContact(
+    clientId: number,
+    data: CreateContactDto,
+    actor: ActivityActor
+  ): Promise<ClientContact> {
     // Validate client ID
     if (!clientId || clientId < 1) {
       throw new ValidationError('Invalid client ID');
@@ -64,13 +77,27 @@ export class ContactService {
       },
     });
 
+    await this.activityLog.record({
+      actor,
+      entityType: 'CONTACT',
+      entityId: newContact.id,
+      entityLabel: newContact.name,
+      action: 'CREATE',
+      after: newContact,
+      clientId,
+    });
+
     return newContact;
   }
 
   /**
    * Update a contact by ID
    */
-  async updateContact(contactId: number, data: UpdateContactDto): Promise<ClientContact> {
+  async updateContact(
+    contactId: number,
+    data: UpdateContactDto,
+    actor: ActivityActor
+  ): Promise<ClientContact> {
     // Validate contact ID
     if (!contactId || contactId < 1) {
       throw new ValidationError('Invalid contact ID');
@@ -101,13 +128,24 @@ export class ContactService {
       },
     });
 
+    await this.activityLog.record({
+      actor,
+      entityType: 'CONTACT',
+      entityId: contactId,
+      entityLabel: updatedContact.name,
+      action: 'UPDATE',
+      before: existingContact,
+      after: updatedContact,
+      clientId: updatedContact.clientId,
+    });
+
     return updatedContact;
   }
 
   /**
    * Delete a contact by ID
    */
-  async deleteContact(contactId: number): Promise<void> {
+  async deleteContact(contactId: number, actor: ActivityActor): Promise<void> {
     // Validate contact ID
     if (!contactId || contactId < 1) {
       throw new ValidationError('Invalid contact ID');
@@ -126,9 +164,19 @@ export class ContactService {
     await this.db.clientContact.delete({
       where: { id: contactId },
     });
+
+    await this.activityLog.record({
+      actor,
+      entityType: 'CONTACT',
+      entityId: contactId,
+      entityLabel: existingContact.name,
+      action: 'DELETE',
+      before: existingContact,
+      clientId: existingContact.clientId,
+    });
   }
 }
 
 // Singleton instance
 const db = getDatabaseInstance();
-export const contactService = new ContactService(db);
+export const contactService = new ContactService(db, activityLogService);
@@ -1,10 +1,30 @@
-import { Contract, ContractStatus, PrismaClient } from '@prisma/client';
+import { Contract, ContractStatus, Prisma, PrismaClient } from '@prisma/client';
 
 import { getDatabaseInstance } from '@/lib/database';
 import { ValidationError } from '@/lib/errors';
-
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import { documentService, DocumentService } from '@/lib/services/business/document.service';
+import { WebhookService, webhookService } from '@/lib/services/business/webhook.service';
+import { describeContractRate, describeInclusiveHours } from '@/lib/utils/business/contract';
+import { escapeHtml, formatMergeDate } from '@/lib/utils/business/document-template';
+import { toContractWebhookData } from '@/lib/utils/business/webhook';
+import { renderPdf } from '@/lib/utils/system/pdf';
+
+import type { ActivityActor } from '@/lib/types/activity';
 import type { CreateContractDto, UpdateContractDto } from '@/lib/types/contract';
 
+/**
+ * Contract with the client details its document is generated from
+ */
+type ContractWithClient = Prisma.ContractGetPayload<{
+  include: { client: { include: { contacts: true; addresses: true } } };
+}>;
+
+const PROVIDER_NAME = '7Central Argan HR Consultancy Ltd';
+
 /**
  * ContractService - Business logic for contract management
  *
@@ -13,9 +33,17 @@ import type { CreateContractDto, UpdateContractDto } from '@/lib/types/contract'
  * - Proper error handling with business errors
  * - Input validation
  * - Database transactions where needed
+ * - Every change is recorded in the activity log against the acting admin
+ * - Contracts becoming active or archived are sent to webhook subscribers
+ * - Generated contract PDFs are kept in the client's document repository
  */
 export class ContractService {
-  constructor(private readonly db: PrismaClient) {}
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService,
+    private readonly webhooks: WebhookService,
+    private readonly documents: DocumentService
+  ) {}
 
   /**
    * Get all contracts for a client
@@ -80,7 +108,7 @@ export class ContractService {
    * Create a new contract
    * If replaceExisting is true, archives all active contracts for the client
    */
-  async createContract(data: CreateContractDto): Promise<Contract> {
+  async createContract(data: CreateContractDto, actor: ActivityActor): Promise<Contract> {
     // Validate required fields
     const errors = [];
     if (!data.clientId) {
@@ -107,19 +135,11 @@ export class ContractService {
     }
 
     // Create contract in a transaction
-    const contract = await this.db.$transaction(async (tx) => {
+    const { contract, archived } = await this.db.$transaction(async (tx) => {
       // If replaceExisting is true, archive all active contracts for this client
-      if (data.replaceExisting) {
-        await tx.contract.updateMany({
-          where: {
-            clientId: data.clientId,
-            status: 'ACTIVE',
-          },
-          data: {
-            status: 'ARCHIVED',
-          },
-        });
-      }
+      const archived = data.replaceExisting
+        ? await this.archiveActiveContracts(data.clientId, actor, tx)
+        : [];
 
       // Generate contract number and version
       // Format: CON-{officeId}-{paddedClientId}-{sequential}
@@ -137,7 +157,7 @@ export class ContractService {
       const version = existingContracts + 1;
 
       // Create the contract
-      return tx.contract.create({
+      const newContract = await tx.contract.create({
         data: {
           clientId: data.clientId,
           contractNumber,
@@ -160,15 +180,32 @@ export class ContractService {
           // All onboarding fields default to false via Prisma schema
         },
       });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'CONTRACT',
+          entityId: newContract.id,
+          entityLabel: newContract.contractNumber,
+          action: 'CREATE',
+          after: newContract,
+          clientId: newContract.clientId,
+        },
+        tx
+      );
+
+      return { contract: newContract, archived };
     });
 
+    await this.emitStatusChanges(archived, contract);
+
     return contract;
   }
 
   /**
    * Update a contract
    */
-  async updateContract(id: number, data: UpdateContractDto): Promise<Contract> {
+  async updateContract(id: number, data: UpdateContractDto, actor: ActivityActor): Promise<Contract> {
     // Validate ID
     if (!id || id < 1) {
       throw new ValidationError('Invalid contract ID');
@@ -217,13 +254,23 @@ export class ContractService {
       },
     });
 
+    await this.recordUpdate(existingContract, contract, actor);
+
+    if (contract.status !== existingContract.status) {
+      await this.emitStatusChanges([], contract);
+    }
+
     return contract;
   }
 
   /**
    * Update contract services in scope
    */
-  async updateServicesInScope(id: number, services: string[]): Promise<Contract> {
+  async updateServicesInScope(
+    id: number,
+    services: string[],
+    actor: ActivityActor
+  ): Promise<Contract> {
     // Validate ID
     if (!id || id < 1) {
       throw new ValidationError('Invalid contract ID');
@@ -246,13 +293,19 @@ export class ContractService {
       },
     });
 
+    await this.recordUpdate(existingContract, contract, actor);
+
     return contract;
   }
 
   /**
    * Update contract services out of scope
    */
-  async updateServicesOutOfScope(id: number, services: string[]): Promise<Contract> {
+  async updateServicesOutOfScope(
+    id: number,
+    services: string[],
+    actor: ActivityActor
+  ): Promise<Contract> {
     // Validate ID
     if (!id || id < 1) {
       throw new ValidationError('Invalid contract ID');
@@ -275,6 +328,8 @@ export class ContractService {
       },
     });
 
+    await this.recordUpdate(existingContract, contract, actor);
+
     return contract;
   }
 
@@ -283,7 +338,11 @@ export class ContractService {
    * Archives the current active contract (if any) before setting the new one as active
    * Business rule: Only one ACTIVE contract per client at any time
    */
-  async setActiveContract(clientId: number, contractId: number): Promise<Contract> {
+  async setActiveContract(
+    clientId: number,
+    contractId: number,
+    actor: ActivityActor
+  ): Promise<Contract> {
     // Validate IDs
     if (!clientId || clientId < 1) {
       throw new ValidationError('Invalid client ID');
@@ -311,17 +370,9 @@ export class ContractService {
     }
 
     // Use transaction to ensure atomic operation
-    const updatedContract = await this.db.$transaction(async (tx) => {
+    const { updatedContract, archived } = await this.db.$transaction(async (tx) => {
       // Archive all current ACTIVE contracts for this client
-      await tx.contract.updateMany({
-        where: {
-          clientId,
-          status: 'ACTIVE',
-        },
-        data: {
-          status: 'ARCHIVED',
-        },
-      });
+      const archived = await this.archiveActiveContracts(clientId, actor, tx);
 
       // Set the target contract as ACTIVE
       const contract = await tx.contract.update({
@@ -331,7 +382,9 @@ export class ContractService {
         },
       });
 
-      return contract;
+      await this.recordUpdate(targetContract, contract, actor, tx);
+
+      return { updatedContract: contract, archived };
     });
 
     // Validate business rule: only one ACTIVE contract per client
@@ -346,6 +399,8 @@ export class ContractService {
       throw new Error(`Invalid state: Client ${clientId} has ${activeCount} active contracts`);
     }
 
+    await this.emitStatusChanges(archived, updatedContract);
+
     return updatedContract;
   }
 
@@ -353,7 +408,7 @@ export class ContractService {
    * Delete a contract
    * Business rule: Only DRAFT contracts can be deleted
    */
-  async deleteContract(id: number): Promise<void> {
+  async deleteContract(id: number, actor: ActivityActor): Promise<void> {
     // Validate ID
     if (!id || id < 1) {
       throw new ValidationError('Invalid contract ID');
@@ -379,6 +434,16 @@ export class ContractService {
     await this.db.contract.delete({
       where: { id },
     });
+
+    await this.activityLog.record({
+      actor,
+      entityType: 'CONTRACT',
+      entityId: id,
+      entityLabel: existingContract.contractNumber,
+      action: 'DELETE',
+      before: existingContract,
+      clientId: existingContract.clientId,
+    });
   }
 
   /**
@@ -386,7 +451,8 @@ export class ContractService {
    */
   async updateUrls(
     id: number,
-    urls: { docUrl?: string; signedContractUrl?: string }
+    urls: { docUrl?: string; signedContractUrl?: string },
+    actor: ActivityActor
   ): Promise<Contract> {
     // Validate ID
     if (!id || id < 1) {
@@ -411,9 +477,262 @@ export class ContractService {
       },
     });
 
+    await this.recordUpdate(existingContract, contract, actor);
+
+    return contract;
+  }
+
+  /**
+   * Generate the contract PDF from the contract's details and make it the active contract document
+   * Each generation is stored as a new file, so earlier versions and the signed copy are kept
+   */
+  async generateContractDocument(id: number, actor: ActivityActor): Promise<Contract> {
+    // Validate ID
+    if (!id || id < 1) {
+      throw new ValidationError('Invalid contract ID');
+    }
+
+    const existingContract = await this.db.contract.findUnique({
+      where: { id },
+      include: {
+        client: {
+          include: {
+            contacts: { orderBy: { createdAt: 'asc' } },
+            addresses: { orderBy: { createdAt: 'asc' } },
+          },
+        },
+      },
+    });
+
+    if (!existingContract) {
+      throw new ValidationError('Contract not found');
+    }
+
+    const { client, ...before } = existingContract;
+    const title = `Contract ${existingContract.contractNumber} v${existingContract.version}`;
+    const content = await renderPdf({ title, html: this.buildContractHtml(existingContract) });
+
+    const document = await this.documents.storeGeneratedDocument({
+      clientId: client.id,
+      contractId: id,
+      category: 'CONTRACT',
+      title,
+      fileName: `${title}.pdf`,
+      content,
+      contentType: 'application/pdf',
+      uploadedBy: actor.name,
+    });
+
+    // Only the active contract link moves to the new file - the signed copy is left as it is
+    const contract = await this.db.contract.update({
+      where: { id },
+      data: {
+        docUrl: `/api/clients/${client.id}/documents/${document.id}?disposition=inline`,
+      },
+    });
+
+    await this.recordUpdate(before, contract, actor);
+
     return contract;
   }
+
+  /**
+   * Archive every ACTIVE contract for a client, recording each in the activity log
+   * Returns the archived contracts
+   */
+  private async archiveActiveContracts(
+    clientId: number,
+    actor: ActivityActor,
+    tx: Prisma.TransactionClient
+  ): Promise<Contract[]> {
+    const activeContracts = await tx.contract.findMany({
+      where: {
+        clientId,
+        status: 'ACTIVE',
+      },
+    });
+
+    if (activeContracts.length === 0) return [];
+
+    await tx.contract.updateMany({
+      where: {
+        id: { in: activeContracts.map((contract) => contract.id) },
+      },
+      data: {
+        status: 'ARCHIVED',
+      },
+    });
+
+    await this.activityLog.recordMany(
+      activeContracts.map((contract) => ({
+        actor,
+        entityType: 'CONTRACT' as const,
+        entityId: contract.id,
+        entityLabel: contract.contractNumber,
+        action: 'UPDATE' as const,
+        before: { status: contract.status },
+        after: { status: 'ARCHIVED' },
+        clientId,
+      })),
+      tx
+    );
+
+    return activeContracts.map((contract) => ({ ...contract, status: 'ARCHIVED' as const }));
+  }
+
+  /**
+   * Notify webhook subscribers of archived contracts, then of the contract whose status changed
+   */
+  private async emitStatusChanges(archived: Contract[], contract: Contract): Promise<void> {
+    for (const archivedContract of archived) {
+      await this.webhooks.emit('contract.archived', {
+        contract: toContractWebhookData(archivedContract),
+      });
+    }
+
+    if (contract.status === 'ACTIVE') {
+      await this.webhooks.emit('contract.activated', { contract: toContractWebhookData(contract) });
+    } else if (contract.status === 'ARCHIVED') {
+      await this.webhooks.emit('contract.archived', { contract: toContractWebhookData(contract) });
+    }
+  }
+
+  /**
+   * Private helper: Write out the contract's terms as HTML for renderPdf
+   * Parties are the client's invoice contact and address, falling back to the service ones
+   */
+  private buildContractHtml(contract: ContractWithClient): string {
+    const { client } = contract;
+    const contact =
+      client.contacts.find((other) => other.type === 'INVOICE') ??
+      client.contacts.find((other) => other.type === 'SERVICE') ??
+      null;
+    const address =
+      client.addresses.find((other) => other.type === 'INVOICE') ??
+      client.addresses.find((other) => other.type === 'SERVICE') ??
+      null;
+
+    const hours = [
+      ['HR administration', contract.hrAdminInclusiveHours, contract.hrAdminInclusiveHoursPeriod],
+      [
+        'Employment law',
+        contract.employmentLawInclusiveHours,
+        contract.employmentLawInclusiveHoursPeriod,
+      ],
+    ] as const;
+
+    // Mileage and overnight rates have no unit of their own
+    const perUnit = (rate: Prisma.Decimal | null, notNeeded: boolean, unit: string) => {
+      const description = describeContractRate(rate?.toNumber() ?? null, null, notNeeded);
+      return rate && !notNeeded ? `${description} per ${unit}` : description;
+    };
+
+    const rates = [
+      [
+        'HR administration',
+        describeContractRate(
+          contract.hrAdminRate?.toNumber() ?? null,
+          contract.hrAdminRateUnit,
+          contract.hrAdminRateNotNeeded
+        ),
+      ],
+      [
+        'Employment law',
+        describeContractRate(
+          contract.employmentLawRate?.toNumber() ?? null,
+          contract.employmentLawRateUnit,
+          contract.employmentLawRateNotNeeded
+        ),
+      ],
+      ['Mileage', perUnit(contract.mileageRate, contract.mileageRateNotNeeded, 'mile')],
+      [
+        'Overnight stays',
+        perUnit(contract.overnightRate, contract.overnightRateNotNeeded, 'night'),
+      ],
+    ] as const;
+
+    // Everything taken from the contract or client is escaped, so it cannot change the layout
+    const clientLines = [
+      `<strong>${escapeHtml(client.companyName)}</strong>`,
+      client.businessId && `Company number: ${escapeHtml(client.businessId)}`,
+      address?.addressLine1 && escapeHtml(address.addressLine1),
+      address?.addressLine2 && escapeHtml(address.addressLine2),
+      address && escapeHtml(`${address.city} ${address.postcode}`),
+      address?.country && escapeHtml(address.country),
+      contact &&
+        escapeHtml(
+          `For the attention of ${contact.name}${contact.email ? ` (${contact.email})` : ''}`
+        ),
+    ];
+
+    const list = (items: string[]) =>
+      `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    const signature = (party: string) =>
+      `<p>Signed for and on behalf of ${escapeHtml(party)}</p>` +
+      '<p>Name:</p><p>Signature:</p><p>Date:</p>';
+
+    return [
+      '<h1>Service Agreement</h1>',
+      `<p>Contract ${escapeHtml(contract.contractNumber)}, version ${contract.version}</p>`,
+      '<h2>Parties</h2>',
+      `<p><strong>${PROVIDER_NAME}</strong> ("Argan HR")</p>`,
+      '<p>and</p>',
+      `<p>${clientLines.filter(Boolean).join('<br>')}</p>`,
+      '<p>("the Client")</p>',
+      '<h2>Term</h2>',
+      `<p>This agreement starts on ${formatMergeDate(contract.contractStartDate)} and is due for renewal on ${formatMergeDate(contract.contractRenewalDate)}.</p>`,
+      '<h2>Services in Scope</h2>',
+      contract.inclusiveServicesInScope.length > 0
+        ? list(contract.inclusiveServicesInScope)
+        : '<p>No inclusive services have been agreed.</p>',
+      '<h2>Inclusive Hours</h2>',
+      list(
+        hours.map(([label, value, period]) => {
+          const description = describeInclusiveHours(value?.toNumber() ?? null, period);
+          return `${label}: ${description ?? 'none included'}`;
+        })
+      ),
+      '<h2>Out of Scope Work</h2>',
+      contract.inclusiveServicesOutOfScope.length > 0
+        ? `<p>The following services are not included:</p>${list(contract.inclusiveServicesOutOfScope)}`
+        : '',
+      '<p>Work outside the inclusive services and hours is charged at:</p>',
+      list(rates.map(([label, rate]) => `${label}: ${rate ?? 'to be agreed'}`)),
+      '<h2>Signatures</h2>',
+      signature(PROVIDER_NAME),
+      signature(client.companyName),
+    ].join('');
+  }
+
+  /**
+   * Record a contract update in the activity log
+   */
+  private async recordUpdate(
+    before: Contract,
+    after: Contract,
+    actor: ActivityActor,
+    db?: Prisma.TransactionClient
+  ): Promise<void> {
+    await this.activityLog.record(
+      {
+        actor,
+        entityType: 'CONTRACT',
+        entityId: after.id,
+        entityLabel: after.contractNumber,
+        action: 'UPDATE',
+        before,
+        after,
+        clientId: after.clientId,
+      },
+      db
+    );
+  }
 }
 
 // Singleton instance export with environment-specific database
-export const contractService = new ContractService(getDatabaseInstance());
+export const contractService = new ContractService(
+  getDatabaseInstance(),
+  activityLogService,
+  webhookService,
+  documentService
+);
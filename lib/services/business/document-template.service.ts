@@ -0,0 +1,527 @@
+import { PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import {
+  ClientNotFoundError,
+  FieldValidationError,
+  NotFoundError,
+  ValidationError,
+} from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import { caseService } from '@/lib/services/business/case.service';
+import { documentService, DocumentService } from '@/lib/services/business/document.service';
+import { CASE_TYPE_LABELS } from '@/lib/utils/business/case-types';
+import { describeContractRate, describeInclusiveHours } from '@/lib/utils/business/contract';
+import {
+  DOCUMENT_TEMPLATE_ENTITY_LABELS,
+  formatMergeDate,
+  formatMergeMoney,
+  getUnknownMergeFields,
+  renderMergeFields,
+} from '@/lib/utils/business/document-template';
+import { renderPdf, sanitizeDocumentHtml } from '@/lib/utils/system/pdf';
+import { getStorage, sanitizeFileName } from '@/lib/utils/system/storage';
+
+import type { FieldError } from '@/lib/errors';
+import type { ActivityActor } from '@/lib/types/activity';
+import type {
+  DocumentTemplateItem,
+  GenerateDocumentDto,
+  GeneratedDocument,
+  SaveDocumentTemplateDto,
+} from '@/lib/types/document-template';
+import type { MergeValues } from '@/lib/utils/business/document-template';
+import type { DocumentTemplate } from '@prisma/client';
+
+/**
+ * The record a document is generated from, with its merge field values
+ */
+interface MergeSource {
+  clientId: number;
+  contractId: number | null;
+  case: { id: number; caseId: string; escalatedBy: string } | null;
+  label: string; // Added to the file name, e.g. the company name or case ID
+  values: MergeValues;
+}
+
+const SERVICE_TIER_LABELS: Record<string, string> = {
+  TIER_1: 'Tier 1',
+  DOC_ONLY: 'Doc Only',
+  AD_HOC: 'Ad-hoc',
+};
+
+/**
+ * DocumentTemplateService - Letters and documents generated from templates with merge fields
+ *
+ * Key patterns:
+ * - A template belongs to one kind of record (client, contract or case), which decides the
+ *   merge fields it can use; unknown merge fields are rejected when the template is saved
+ * - Templates are HTML, sanitised when saved and again when rendered to PDF; merge field
+ *   values are escaped, so record data can never change a document's layout
+ * - Client and contract documents go into the client's document repository; case documents
+ *   are stored as case files
+ * - Logging a document as an interaction goes through caseService, so it is in the activity
+ *   log and sends the usual webhooks
+ */
+export class DocumentTemplateService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService,
+    private readonly documents: DocumentService
+  ) {}
+
+  /**
+   * Get templates by name, optionally for one kind of record or active ones only
+   */
+  async listTemplates(
+    filters: { entityType?: DocumentTemplate['entityType']; activeOnly?: boolean } = {}
+  ): Promise<DocumentTemplateItem[]> {
+    const templates = await this.db.documentTemplate.findMany({
+      where: {
+        ...(filters.entityType && { entityType: filters.entityType }),
+        ...(filters.activeOnly && { active: true }),
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return templates.map((template) => this.toTemplateItem(template));
+  }
+
+  /**
+   * Create a template
+   */
+  async createTemplate(
+    dto: SaveDocumentTemplateDto,
+    actor: ActivityActor
+  ): Promise<DocumentTemplateItem> {
+    const data = await this.validateTemplate(dto);
+
+    const template = await this.db.$transaction(async (tx) => {
+      const created = await tx.documentTemplate.create({
+        data: { ...data, createdBy: actor.name, updatedBy: actor.name },
+      });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'TEMPLATE',
+          entityId: created.id,
+          entityLabel: created.name,
+          action: 'CREATE',
+          after: created,
+        },
+        tx
+      );
+
+      return created;
+    });
+
+    return this.toTemplateItem(template);
+  }
+
+  /**
+   * Update a template - documents already generated from it are not changed
+   */
+  async updateTemplate(
+    id: number,
+    dto: SaveDocumentTemplateDto,
+    actor: ActivityActor
+  ): Promise<DocumentTemplateItem> {
+    const before = await this.db.documentTemplate.findUnique({ where: { id } });
+
+    if (!before) {
+      throw new NotFoundError('Document template', id);
+    }
+
+    const data = await this.validateTemplate(dto, id);
+
+    const template = await this.db.$transaction(async (tx) => {
+      const after = await tx.documentTemplate.update({
+        where: { id },
+        data: { ...data, updatedBy: actor.name },
+      });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'TEMPLATE',
+          entityId: id,
+          entityLabel: after.name,
+          action: 'UPDATE',
+          before,
+          after,
+        },
+        tx
+      );
+
+      return after;
+    });
+
+    return this.toTemplateItem(template);
+  }
+
+  /**
+   * Delete a template - documents already generated from it are kept
+   */
+  async deleteTemplate(id: number, actor: ActivityActor): Promise<void> {
+    const before = await this.db.documentTemplate.findUnique({ where: { id } });
+
+    if (!before) {
+      throw new NotFoundError('Document template', id);
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.documentTemplate.delete({ where: { id } });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'TEMPLATE',
+          entityId: id,
+          entityLabel: before.name,
+          action: 'DELETE',
+          before,
+        },
+        tx
+      );
+    });
+  }
+
+  /**
+   * Generate a document from a template and store it against its record
+   * Merge fields the record has no value for are left blank and listed in the result
+   */
+  async generateDocument(
+    dto: GenerateDocumentDto,
+    actor: ActivityActor
+  ): Promise<GeneratedDocument> {
+    const template = await this.db.documentTemplate.findUnique({
+      where: { id: dto.templateId },
+    });
+
+    if (!template || !template.active) {
+      throw new NotFoundError('Document template', dto.templateId);
+    }
+    if (template.entityType !== dto.entityType) {
+      throw new ValidationError(
+        `${template.name} is a ${DOCUMENT_TEMPLATE_ENTITY_LABELS[template.entityType].toLowerCase()} template`
+      );
+    }
+
+    const source = await this.getMergeSource(template.entityType, dto.entityId, actor);
+    const { html, missing } = renderMergeFields(template.body, source.values);
+    const content = await renderPdf({ title: template.name, html });
+    const fileName = `${template.name} - ${source.label}.pdf`;
+
+    // Case documents are logged on their own case; others on a case of the client's choosing
+    const logCase = dto.logInteraction
+      ? (source.case ?? (await this.getClientCase(source.clientId, dto.caseId)))
+      : null;
+
+    const interaction = logCase
+      ? await caseService.createInteraction(
+          {
+            caseId: logCase.id,
+            party1Name: actor.name,
+            party1Type: 'ARGAN',
+            party2Name: logCase.escalatedBy,
+            party2Type: 'CLIENT',
+            type: 'LETTER',
+            direction: 'OUTBOUND',
+            content: `Document generated - ${template.name}\n\n${fileName}`,
+          },
+          actor
+        )
+      : null;
+
+    if (source.case) {
+      const storage = getStorage();
+      const prefix = caseService.getFileKeyPrefix(
+        source.clientId,
+        source.case.caseId,
+        interaction?.id
+      );
+      const fileKey = `${prefix}/${Date.now()}-${sanitizeFileName(fileName)}`;
+      await storage.putObject(fileKey, content, 'application/pdf');
+
+      const file = await caseService.createFile(
+        {
+          caseId: source.case.id,
+          interactionId: interaction?.id ?? null,
+          fileName,
+          fileUrl: storage.getObjectUrl(fileKey),
+          storageKey: fileKey,
+          contentType: 'application/pdf',
+          fileSize: content.length,
+          uploadedBy: actor.name,
+          fileTitle: template.name,
+          fileDescription: `Generated from the "${template.name}" template`,
+          fileTags: ['generated'],
+        },
+        actor
+      );
+
+      return {
+        fileName,
+        clientDocumentId: null,
+        caseFileId: file.id,
+        interactionId: interaction?.id ?? null,
+        missingFields: missing,
+      };
+    }
+
+    const document = await this.documents.storeGeneratedDocument({
+      clientId: source.clientId,
+      contractId: source.contractId,
+      category: template.category,
+      title: template.name,
+      fileName,
+      content,
+      contentType: 'application/pdf',
+      uploadedBy: actor.name,
+    });
+
+    return {
+      fileName,
+      clientDocumentId: document.id,
+      caseFileId: null,
+      interactionId: interaction?.id ?? null,
+      missingFields: missing,
+    };
+  }
+
+  /**
+   * Private helper: Check a template's fields and return the data to save
+   */
+  private async validateTemplate(dto: SaveDocumentTemplateDto, id?: number) {
+    const name = dto.name?.trim() ?? '';
+    const body = sanitizeDocumentHtml(dto.body ?? '');
+    const errors: FieldError[] = [];
+
+    if (!name) {
+      errors.push({ field: 'name', message: 'Name is required' });
+    } else {
+      const existing = await this.db.documentTemplate.findUnique({
+        where: { name },
+        select: { id: true },
+      });
+      if (existing && existing.id !== id) {
+        errors.push({ field: 'name', message: 'A template with this name already exists' });
+      }
+    }
+
+    if (!DOCUMENT_TEMPLATE_ENTITY_LABELS[dto.entityType]) {
+      errors.push({ field: 'entityType', message: 'Choose what the template is generated from' });
+    } else if (!body.trim()) {
+      errors.push({ field: 'body', message: 'Template text is required' });
+    } else {
+      const unknown = getUnknownMergeFields(dto.entityType, body);
+      if (unknown.length > 0) {
+        errors.push({
+          field: 'body',
+          message: `Unknown merge fields for a ${DOCUMENT_TEMPLATE_ENTITY_LABELS[dto.entityType].toLowerCase()} template: ${unknown.map((key) => `{{${key}}}`).join(', ')}`,
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new FieldValidationError(errors, errors[0].message);
+    }
+
+    return {
+      name,
+      description: dto.description?.trim() || null,
+      entityType: dto.entityType,
+      category: dto.category ?? 'CORRESPONDENCE',
+      body,
+      active: dto.active ?? true,
+    };
+  }
+
+  /**
+   * Private helper: Load the record a document is generated from and its merge field values
+   */
+  private async getMergeSource(
+    entityType: DocumentTemplate['entityType'],
+    entityId: number,
+    actor: ActivityActor
+  ): Promise<MergeSource> {
+    let clientId = entityId;
+    let contractId: number | null = null;
+    let caseSource: MergeSource['case'] = null;
+    let label: string | null = null;
+    let values: MergeValues = {};
+
+    if (entityType === 'CONTRACT') {
+      const contract = await this.db.contract.findUnique({ where: { id: entityId } });
+      if (!contract) {
+        throw new NotFoundError('Contract', entityId);
+      }
+
+      clientId = contract.clientId;
+      contractId = contract.id;
+      label = `${contract.contractNumber} v${contract.version}`;
+      values = {
+        'contract.number': contract.contractNumber,
+        'contract.version': String(contract.version),
+        'contract.status': contract.status.charAt(0) + contract.status.slice(1).toLowerCase(),
+        'contract.startDate': formatMergeDate(contract.contractStartDate),
+        'contract.renewalDate': formatMergeDate(contract.contractRenewalDate),
+        'contract.hrAdminHours': describeInclusiveHours(
+          contract.hrAdminInclusiveHours?.toNumber() ?? null,
+          contract.hrAdminInclusiveHoursPeriod
+        ),
+        'contract.employmentLawHours': describeInclusiveHours(
+          contract.employmentLawInclusiveHours?.toNumber() ?? null,
+          contract.employmentLawInclusiveHoursPeriod
+        ),
+        'contract.servicesInScope': contract.inclusiveServicesInScope.join(', ') || null,
+        'contract.servicesOutOfScope': contract.inclusiveServicesOutOfScope.join(', ') || null,
+        'contract.hrAdminRate': describeContractRate(
+          contract.hrAdminRate?.toNumber() ?? null,
+          contract.hrAdminRateUnit,
+          contract.hrAdminRateNotNeeded
+        ),
+        'contract.employmentLawRate': describeContractRate(
+          contract.employmentLawRate?.toNumber() ?? null,
+          contract.employmentLawRateUnit,
+          contract.employmentLawRateNotNeeded
+        ),
+        'contract.mileageRate': describeContractRate(
+          contract.mileageRate?.toNumber() ?? null,
+          null,
+          contract.mileageRateNotNeeded
+        ),
+        'contract.overnightRate': describeContractRate(
+          contract.overnightRate?.toNumber() ?? null,
+          null,
+          contract.overnightRateNotNeeded
+        ),
+      };
+    } else if (entityType === 'CASE') {
+      const caseRecord = await this.db.case.findUnique({ where: { id: entityId } });
+      if (!caseRecord) {
+        throw new NotFoundError('Case', entityId);
+      }
+
+      const typeFields = (caseRecord.typeFields ?? {}) as Record<string, unknown>;
+
+      clientId = caseRecord.clientId;
+      caseSource = {
+        id: caseRecord.id,
+        caseId: caseRecord.caseId,
+        escalatedBy: caseRecord.escalatedBy,
+      };
+      label = caseRecord.caseId;
+      values = {
+        'case.id': caseRecord.caseId,
+        'case.title': caseRecord.title,
+        'case.type': caseRecord.type ? CASE_TYPE_LABELS[caseRecord.type] : null,
+        'case.status': caseRecord.status.charAt(0) + caseRecord.status.slice(1).toLowerCase(),
+        'case.escalatedBy': caseRecord.escalatedBy,
+        'case.assignedTo': caseRecord.assignedTo,
+        'case.employeeName':
+          typeof typeFields.employeeName === 'string' ? typeFields.employeeName : null,
+        'case.description': caseRecord.description,
+      };
+    }
+
+    const client = await this.db.client.findUnique({
+      where: { id: clientId },
+      include: {
+        contacts: { orderBy: { createdAt: 'asc' } },
+        addresses: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!client) {
+      throw new ClientNotFoundError(clientId);
+    }
+
+    // The service contact and address are who letters go to; fall back to any on file
+    const contact =
+      client.contacts.find((other) => other.type === 'SERVICE') ?? client.contacts[0] ?? null;
+    const address =
+      client.addresses.find((other) => other.type === 'SERVICE') ?? client.addresses[0] ?? null;
+
+    return {
+      clientId,
+      contractId,
+      case: caseSource,
+      label: label ?? client.companyName,
+      values: {
+        ...values,
+        today: formatMergeDate(new Date()),
+        'sender.name': actor.name,
+        'client.companyName': client.companyName,
+        'client.businessId': client.businessId,
+        'client.sector': client.sector,
+        'client.serviceTier': SERVICE_TIER_LABELS[client.serviceTier] ?? client.serviceTier,
+        'client.contractStartDate': formatMergeDate(client.contractStartDate),
+        'client.contractRenewalDate': formatMergeDate(client.contractRenewalDate),
+        'client.monthlyRetainer': formatMergeMoney(client.monthlyRetainer?.toNumber() ?? null),
+        'contact.name': contact?.name ?? null,
+        'contact.email': contact?.email ?? null,
+        'contact.phone': contact?.phone ?? null,
+        'contact.role': contact?.role ?? null,
+        'address.block': address
+          ? [address.addressLine1, address.addressLine2, address.city, address.postcode]
+              .filter(Boolean)
+              .join('\n')
+          : null,
+        'address.line1': address?.addressLine1 ?? null,
+        'address.line2': address?.addressLine2 ?? null,
+        'address.city': address?.city ?? null,
+        'address.postcode': address?.postcode ?? null,
+        'address.country': address?.country ?? null,
+      },
+    };
+  }
+
+  /**
+   * Private helper: Find the case a client or contract document is logged on
+   */
+  private async getClientCase(clientId: number, caseId?: number | null) {
+    if (!caseId) {
+      throw new ValidationError('Choose a case to log the document on');
+    }
+
+    const caseRecord = await this.db.case.findUnique({
+      where: { id: caseId },
+      select: { id: true, caseId: true, clientId: true, escalatedBy: true },
+    });
+
+    if (!caseRecord || caseRecord.clientId !== clientId) {
+      throw new NotFoundError('Case', caseId);
+    }
+
+    return caseRecord;
+  }
+
+  /**
+   * Private helper: Convert to the serializable template shape
+   */
+  private toTemplateItem(template: DocumentTemplate): DocumentTemplateItem {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      entityType: template.entityType,
+      category: template.category,
+      body: template.body,
+      active: template.active,
+      updatedBy: template.updatedBy,
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const documentTemplateService = new DocumentTemplateService(
+  getDatabaseInstance(),
+  activityLogService,
+  documentService
+);
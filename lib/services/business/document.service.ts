@@ -0,0 +1,165 @@
+import { ClientDocument, ClientDocumentCategory, PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { ClientNotFoundError, NotFoundError, ValidationError } from '@/lib/errors';
+import { assertUploadAllowed, getStorage, sanitizeFileName } from '@/lib/utils/system/storage';
+
+import type {
+  CreateDocumentUploadDto,
+  SaveClientDocumentDto,
+  StoreGeneratedDocumentDto,
+} from '@/lib/types/document';
+
+/**
+ * DocumentService - Business logic for the client document repository
+ *
+ * Key patterns:
+ * - Constructor dependency injection for database access
+ * - Files are uploaded straight to storage; the database holds the storage key
+ * - Storage layout: {client-id}/documents/{category}/{timestamp}-{file-name}
+ */
+export class DocumentService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Get documents for a client, newest first
+   * Optionally search by title, file name or version
+   */
+  async getClientDocuments(
+    clientId: number,
+    filters?: { search?: string; category?: ClientDocumentCategory }
+  ): Promise<ClientDocument[]> {
+    const search = filters?.search?.trim();
+
+    return this.db.clientDocument.findMany({
+      where: {
+        clientId,
+        ...(filters?.category && { category: filters.category }),
+        ...(search && {
+          OR: [
+            { title: { contains: search, mode: 'insensitive' } },
+            { fileName: { contains: search, mode: 'insensitive' } },
+            { version: { contains: search, mode: 'insensitive' } },
+          ],
+        }),
+      },
+      orderBy: { uploadedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get a single document, checking it belongs to the client
+   */
+  async getClientDocument(clientId: number, id: number): Promise<ClientDocument> {
+    const document = await this.db.clientDocument.findUnique({
+      where: { id },
+    });
+
+    if (!document || document.clientId !== clientId) {
+      throw new NotFoundError('Document', id);
+    }
+
+    return document;
+  }
+
+  /**
+   * Start a document upload
+   * Validates the client and file, then issues a short-lived upload URL
+   */
+  async createDocumentUpload(
+    dto: CreateDocumentUploadDto
+  ): Promise<{ uploadUrl: string; fileKey: string; contentType: string }> {
+    assertUploadAllowed(dto.fileName, dto.fileSize);
+    await this.assertClientExists(dto.clientId);
+
+    // Timestamp prevents naming collisions within the same folder
+    const fileKey = `${this.getKeyPrefix(dto.clientId, dto.category)}/${Date.now()}-${sanitizeFileName(dto.fileName)}`;
+    const contentType = dto.fileType || 'application/octet-stream';
+
+    const uploadUrl = await getStorage().createUploadUrl(fileKey, contentType, dto.fileSize);
+
+    return { uploadUrl, fileKey, contentType };
+  }
+
+  /**
+   * Add an uploaded file to the client's repository
+   * Verifies the object exists in storage and was uploaded for this client and category
+   */
+  async saveDocument(dto: SaveClientDocumentDto): Promise<ClientDocument> {
+    if (!dto.title?.trim()) {
+      throw new ValidationError('Document title is required');
+    }
+
+    const prefix = this.getKeyPrefix(dto.clientId, dto.category);
+    if (!dto.fileKey.startsWith(`${prefix}/`) || dto.fileKey.includes('..')) {
+      throw new ValidationError('File key does not match the document upload location');
+    }
+
+    await this.assertClientExists(dto.clientId);
+
+    const stored = await getStorage().headObject(dto.fileKey);
+    if (!stored) {
+      throw new ValidationError('Uploaded file was not found in storage');
+    }
+
+    return this.db.clientDocument.create({
+      data: {
+        clientId: dto.clientId,
+        category: dto.category,
+        title: dto.title.trim(),
+        version: dto.version?.trim() || 'V1.0',
+        fileName: dto.fileName,
+        storageKey: dto.fileKey,
+        contentType: stored.contentType,
+        fileSize: stored.size,
+        uploadedBy: dto.uploadedBy,
+      },
+    });
+  }
+
+  /**
+   * Add a document produced on the server (e.g. from a template) to the client's repository
+   * Writes the file to storage, then records it
+   */
+  async storeGeneratedDocument(dto: StoreGeneratedDocumentDto): Promise<ClientDocument> {
+    await this.assertClientExists(dto.clientId);
+
+    const fileKey = `${this.getKeyPrefix(dto.clientId, dto.category)}/${Date.now()}-${sanitizeFileName(dto.fileName)}`;
+    await getStorage().putObject(fileKey, dto.content, dto.contentType);
+
+    return this.db.clientDocument.create({
+      data: {
+        clientId: dto.clientId,
+        contractId: dto.contractId ?? null,
+        category: dto.category,
+        title: dto.title,
+        fileName: dto.fileName,
+        storageKey: fileKey,
+        contentType: dto.contentType,
+        fileSize: dto.content.length,
+        uploadedBy: dto.uploadedBy,
+      },
+    });
+  }
+
+  /**
+   * Get the storage key prefix for a client document category
+   */
+  private getKeyPrefix(clientId: number, category: ClientDocumentCategory): string {
+    return `${clientId}/documents/${category.toLowerCase()}`;
+  }
+
+  private async assertClientExists(clientId: number): Promise<void> {
+    const client = await this.db.client.findUnique({
+      where: { id: clientId },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new ClientNotFoundError(clientId);
+    }
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const documentService = new DocumentService(getDatabaseInstance());
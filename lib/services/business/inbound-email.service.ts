@@ -0,0 +1,477 @@
+import { randomUUID } from 'crypto';
+
+import {
+  ActionParty,
+  InboundEmail,
+  InboundEmailStatus,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { caseService } from '@/lib/services/business/case.service';
+import { logger } from '@/lib/utils/system/logger';
+import { parseEmail, type EmailAddress, type ParsedEmail } from '@/lib/utils/system/mime';
+import { assertUploadAllowed, getStorage, sanitizeFileName } from '@/lib/utils/system/storage';
+
+import type { ActivityActor } from '@/lib/types/activity';
+import type { CreateInteractionInput } from '@/lib/types/case';
+import type { ImportEmailResult, InboundEmailItem } from '@/lib/types/inbound-email';
+
+type InboundEmailWithRelations = InboundEmail & {
+  client: { companyName: string } | null;
+  case: { caseId: string } | null;
+};
+
+type CaseTarget = { id: number; caseId: string; clientId: number };
+
+type InteractionParties = Pick<
+  CreateInteractionInput,
+  'party1Name' | 'party1Type' | 'party2Name' | 'party2Type'
+>;
+
+/**
+ * Case number in a subject line, e.g. "Re: [CASE-0012] Disciplinary hearing"
+ */
+const CASE_REFERENCE_PATTERN = /\bCASE-\d{4,}\b/i;
+
+const INBOUND_EMAIL_INCLUDE = {
+  client: { select: { companyName: true } },
+  case: { select: { caseId: true } },
+} as const;
+
+/**
+ * InboundEmailService - Files raw emails (.eml) against cases as interactions
+ *
+ * Key patterns:
+ * - The case comes from a CASE-0001 reference in the subject; the message is only
+ *   filed automatically when a sender or recipient is a contact of that case's client
+ * - Anything else goes to the triage inbox, where an admin files it to a case or dismisses it
+ * - The original message is kept in storage so triage can file it (with attachments) later
+ * - Messages are imported once per Message-ID; importing the same message again returns the first import
+ * - Interactions and attachments are created through caseService, so they are in the activity log
+ */
+export class InboundEmailService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Import a raw email and file it against its case, or send it to triage
+   */
+  async importEmail(raw: Uint8Array, actor: ActivityActor): Promise<ImportEmailResult> {
+    assertUploadAllowed('message.eml', raw.length);
+
+    const parsed = parseEmail(raw);
+
+    if (parsed.messageId) {
+      const existing = await this.findByMessageId(parsed.messageId);
+      if (existing) {
+        return { email: this.toInboundEmailItem(existing), duplicate: true };
+      }
+    }
+
+    const { clientId, caseTarget, triageReason } = await this.matchEmail(parsed);
+
+    const now = new Date();
+    const rawStorageKey = `inbound-email/${now.getFullYear()}/${String(now.getMonth() + 1).padStart(2, '0')}/${randomUUID()}.eml`;
+    await getStorage().putObject(rawStorageKey, raw, 'message/rfc822');
+
+    let email: InboundEmailWithRelations;
+    try {
+      email = await this.db.inboundEmail.create({
+        data: {
+          messageId: parsed.messageId,
+          fromAddress: parsed.from?.address || 'unknown',
+          fromName: parsed.from?.name || null,
+          toAddresses: parsed.to.map((mailbox) => mailbox.address),
+          ccAddresses: parsed.cc.map((mailbox) => mailbox.address),
+          subject: parsed.subject || '(no subject)',
+          sentAt: parsed.date,
+          bodyText: parsed.text,
+          attachmentCount: parsed.attachments.length,
+          rawStorageKey,
+          rawSize: raw.length,
+          status: 'UNMATCHED',
+          triageReason,
+          clientId,
+          caseId: caseTarget?.id ?? null,
+          receivedBy: actor.name,
+        },
+        include: INBOUND_EMAIL_INCLUDE,
+      });
+    } catch (error) {
+      // Imported concurrently by another request
+      if (
+        parsed.messageId &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        await getStorage().deleteObject(rawStorageKey);
+        const existing = await this.findByMessageId(parsed.messageId);
+        if (existing) {
+          return { email: this.toInboundEmailItem(existing), duplicate: true };
+        }
+      }
+      throw error;
+    }
+
+    if (!caseTarget || triageReason) {
+      return { email: this.toInboundEmailItem(email), duplicate: false };
+    }
+
+    try {
+      const filed = await this.fileEmail(email.id, parsed, caseTarget, actor);
+      return { email: filed, duplicate: false };
+    } catch (error) {
+      // Keep the message in triage rather than losing it
+      logger.error('Failed to file inbound email', {
+        inboundEmailId: email.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      const failed = await this.db.inboundEmail.update({
+        where: { id: email.id },
+        data: { triageReason: `Could not be filed automatically to ${caseTarget.caseId}` },
+        include: INBOUND_EMAIL_INCLUDE,
+      });
+      return { email: this.toInboundEmailItem(failed), duplicate: false };
+    }
+  }
+
+  /**
+   * Get imported emails, newest first - the triage inbox by default
+   */
+  async listEmails(
+    params: { status?: InboundEmailStatus; limit?: number } = {}
+  ): Promise<InboundEmailItem[]> {
+    const emails = await this.db.inboundEmail.findMany({
+      where: { status: params.status ?? 'UNMATCHED' },
+      include: INBOUND_EMAIL_INCLUDE,
+      orderBy: { receivedAt: 'desc' },
+      take: params.limit ?? 100,
+    });
+
+    return emails.map((email) => this.toInboundEmailItem(email));
+  }
+
+  /**
+   * File a triaged email to a case chosen by an admin
+   * The sender does not need to be a contact of the case's client
+   */
+  async fileToCase(
+    id: number,
+    caseReference: string,
+    actor: ActivityActor
+  ): Promise<InboundEmailItem> {
+    const email = await this.getUnmatchedEmail(id);
+
+    const reference = caseReference.trim().toUpperCase();
+    const caseTarget = await this.db.case.findUnique({
+      where: { caseId: reference },
+      select: { id: true, caseId: true, clientId: true },
+    });
+
+    if (!caseTarget) {
+      throw new NotFoundError('Case', reference);
+    }
+
+    const stored = await getStorage().getObject(email.rawStorageKey);
+    if (!stored) {
+      throw new ValidationError('The original message is no longer in storage');
+    }
+
+    const parsed = parseEmail(new Uint8Array(await new Response(stored.body).arrayBuffer()));
+
+    return this.fileEmail(email.id, parsed, caseTarget, actor, {
+      processedBy: actor.name,
+      processedAt: new Date(),
+    });
+  }
+
+  /**
+   * Remove an email from the triage inbox without filing it
+   */
+  async dismiss(id: number, actor: ActivityActor): Promise<void> {
+    await this.getUnmatchedEmail(id);
+
+    await this.db.inboundEmail.update({
+      where: { id },
+      data: { status: 'DISMISSED', processedBy: actor.name, processedAt: new Date() },
+    });
+  }
+
+  /**
+   * Private helper: Get an email that is still waiting in triage
+   */
+  private async getUnmatchedEmail(id: number): Promise<InboundEmail> {
+    const email = await this.db.inboundEmail.findUnique({ where: { id } });
+
+    if (!email) {
+      throw new NotFoundError('Email', id);
+    }
+    if (email.status !== 'UNMATCHED') {
+      throw new ValidationError('This email has already been filed or dismissed');
+    }
+
+    return email;
+  }
+
+  /**
+   * Private helper: Find an earlier import of a message
+   */
+  private async findByMessageId(messageId: string): Promise<InboundEmailWithRelations | null> {
+    return this.db.inboundEmail.findUnique({
+      where: { messageId },
+      include: INBOUND_EMAIL_INCLUDE,
+    });
+  }
+
+  /**
+   * Private helper: Match a message to a client (by contact email) and a case (by subject)
+   * triageReason is null when the message can be filed automatically
+   */
+  private async matchEmail(parsed: ParsedEmail): Promise<{
+    clientId: number | null;
+    caseTarget: CaseTarget | null;
+    triageReason: string | null;
+  }> {
+    const contacts = await this.db.clientContact.findMany({
+      where: { email: { in: this.getAddresses(parsed), mode: 'insensitive' } },
+      select: { clientId: true, email: true },
+    });
+
+    const reference = CASE_REFERENCE_PATTERN.exec(parsed.subject)?.[0].toUpperCase() ?? null;
+    const caseRecord = reference
+      ? await this.db.case.findUnique({
+          where: { caseId: reference },
+          select: {
+            id: true,
+            caseId: true,
+            clientId: true,
+            client: { select: { companyName: true } },
+          },
+        })
+      : null;
+
+    const sender = parsed.from?.address.toLowerCase();
+    const senderContact = contacts.find((contact) => contact.email.toLowerCase() === sender);
+    const contactClientIds = [...new Set(contacts.map((contact) => contact.clientId))];
+    const clientId =
+      caseRecord?.clientId ??
+      senderContact?.clientId ??
+      (contactClientIds.length === 1 ? contactClientIds[0] : null);
+
+    if (!reference) {
+      return {
+        clientId,
+        caseTarget: null,
+        triageReason: 'No case reference (e.g. CASE-0001) in the subject',
+      };
+    }
+    if (!caseRecord) {
+      return { clientId, caseTarget: null, triageReason: `${reference} does not exist` };
+    }
+
+    const caseTarget = {
+      id: caseRecord.id,
+      caseId: caseRecord.caseId,
+      clientId: caseRecord.clientId,
+    };
+
+    if (!contacts.some((contact) => contact.clientId === caseRecord.clientId)) {
+      return {
+        clientId,
+        caseTarget,
+        triageReason: `No sender or recipient is a contact of ${caseRecord.client.companyName}`,
+      };
+    }
+
+    return { clientId, caseTarget, triageReason: null };
+  }
+
+  /**
+   * Private helper: Create the interaction and attachment files, then mark the email filed
+   */
+  private async fileEmail(
+    id: number,
+    parsed: ParsedEmail,
+    caseTarget: CaseTarget,
+    actor: ActivityActor,
+    processed: { processedBy: string; processedAt: Date } | null = null
+  ): Promise<InboundEmailItem> {
+    const parties = await this.resolveParties(parsed, caseTarget.clientId);
+
+    const interaction = await caseService.createInteraction(
+      {
+        caseId: caseTarget.id,
+        ...parties,
+        content: this.formatContent(parsed),
+        type: 'EMAIL',
+        // Sent by one of us means it went out; anything else came in
+        direction: parties.party1Type === 'ARGAN' ? 'OUTBOUND' : 'INBOUND',
+        startedAt: parsed.date?.toISOString() ?? null,
+      },
+      actor
+    );
+
+    const storage = getStorage();
+    const prefix = caseService.getFileKeyPrefix(
+      caseTarget.clientId,
+      caseTarget.caseId,
+      interaction.id
+    );
+
+    for (const [position, attachment] of parsed.attachments.entries()) {
+      // Position keeps attachments with the same name apart
+      const fileKey = `${prefix}/${Date.now()}-${position + 1}-${sanitizeFileName(attachment.fileName)}`;
+      await storage.putObject(fileKey, attachment.content, attachment.contentType);
+
+      await caseService.createFile(
+        {
+          caseId: caseTarget.id,
+          interactionId: interaction.id,
+          fileName: attachment.fileName,
+          fileUrl: storage.getObjectUrl(fileKey),
+          storageKey: fileKey,
+          contentType: attachment.contentType,
+          fileSize: attachment.content.length,
+          uploadedBy: actor.name,
+          fileDescription: `Attached to the email "${parsed.subject}"`,
+          fileTags: ['email'],
+        },
+        actor
+      );
+    }
+
+    const filed = await this.db.inboundEmail.update({
+      where: { id },
+      data: {
+        status: 'FILED',
+        triageReason: null,
+        clientId: caseTarget.clientId,
+        caseId: caseTarget.id,
+        interactionId: interaction.id,
+        ...processed,
+      },
+      include: INBOUND_EMAIL_INCLUDE,
+    });
+
+    return this.toInboundEmailItem(filed);
+  }
+
+  /**
+   * Private helper: Work out who the email is between
+   * Contacts of the client are CLIENT, admins are ARGAN and anyone else is a THIRD_PARTY;
+   * party 2 is the first recipient on the other side of the conversation
+   */
+  private async resolveParties(parsed: ParsedEmail, clientId: number): Promise<InteractionParties> {
+    const addresses = this.getAddresses(parsed);
+    const [contacts, admins] = await Promise.all([
+      this.db.clientContact.findMany({
+        where: { clientId, email: { in: addresses, mode: 'insensitive' } },
+        select: { name: true, email: true },
+      }),
+      this.db.admin.findMany({
+        where: { email: { in: addresses, mode: 'insensitive' } },
+        select: { name: true, email: true },
+      }),
+    ]);
+
+    const resolve = (mailbox: EmailAddress): { name: string; type: ActionParty | null } => {
+      const address = mailbox.address.toLowerCase();
+      const contact = contacts.find((candidate) => candidate.email.toLowerCase() === address);
+      if (contact) return { name: contact.name, type: 'CLIENT' };
+
+      const admin = admins.find((candidate) => candidate.email.toLowerCase() === address);
+      if (admin) return { name: admin.name, type: 'ARGAN' };
+
+      return { name: mailbox.name || mailbox.address, type: null };
+    };
+
+    const sender = parsed.from ? resolve(parsed.from) : { name: 'Unknown sender', type: null };
+    const recipients = [...parsed.to, ...parsed.cc].map(resolve);
+    const counterpart =
+      recipients.find((recipient) => recipient.type && recipient.type !== sender.type) ??
+      recipients[0];
+
+    const party1Type = sender.type ?? 'THIRD_PARTY';
+    // The message reached us, so an unrecognised recipient is on the other side from the sender
+    const party2Type = counterpart?.type ?? (party1Type === 'ARGAN' ? 'CLIENT' : 'ARGAN');
+
+    return {
+      party1Name: sender.name,
+      party1Type,
+      party2Name: counterpart?.name ?? (party2Type === 'ARGAN' ? 'Argan HR' : 'Client'),
+      party2Type,
+    };
+  }
+
+  /**
+   * Private helper: Every address on the message, lower-cased and de-duplicated
+   */
+  private getAddresses(parsed: ParsedEmail): string[] {
+    return [
+      ...new Set(
+        [parsed.from, ...parsed.to, ...parsed.cc]
+          .filter((mailbox): mailbox is EmailAddress => mailbox !== null)
+          .map((mailbox) => mailbox.address.toLowerCase())
+      ),
+    ];
+  }
+
+  /**
+   * Private helper: Interaction content - the email's headers followed by its body
+   */
+  private formatContent(parsed: ParsedEmail): string {
+    const formatMailbox = (mailbox: EmailAddress) =>
+      mailbox.name ? `${mailbox.name} <${mailbox.address}>` : mailbox.address;
+
+    const lines = [
+      `Email: ${parsed.subject || '(no subject)'}`,
+      `From: ${parsed.from ? formatMailbox(parsed.from) : 'unknown'}`,
+      parsed.to.length > 0 ? `To: ${parsed.to.map(formatMailbox).join(', ')}` : null,
+      parsed.cc.length > 0 ? `Cc: ${parsed.cc.map(formatMailbox).join(', ')}` : null,
+      parsed.date
+        ? `Date: ${parsed.date.toLocaleString('en-GB', {
+            day: '2-digit',
+            month: '2-digit',
+            year: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}`
+        : null,
+      parsed.attachments.length > 0
+        ? `Attachments: ${parsed.attachments.map((attachment) => attachment.fileName).join(', ')}`
+        : null,
+    ].filter((line): line is string => line !== null);
+
+    return `${lines.join('\n')}\n\n${parsed.text}`.trim();
+  }
+
+  /**
+   * Private helper: Convert an email row to its serializable form
+   */
+  private toInboundEmailItem(email: InboundEmailWithRelations): InboundEmailItem {
+    return {
+      id: email.id,
+      fromAddress: email.fromAddress,
+      fromName: email.fromName,
+      toAddresses: email.toAddresses,
+      ccAddresses: email.ccAddresses,
+      subject: email.subject,
+      sentAt: email.sentAt?.toISOString() || null,
+      bodyText: email.bodyText,
+      attachmentCount: email.attachmentCount,
+      status: email.status,
+      triageReason: email.triageReason,
+      clientId: email.clientId,
+      clientName: email.client?.companyName || null,
+      caseId: email.caseId,
+      caseReference: email.case?.caseId || null,
+      receivedBy: email.receivedBy,
+      receivedAt: email.receivedAt.toISOString(),
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const inboundEmailService = new InboundEmailService(getDatabaseInstance());
@@ -23,3 +23,39 @@ export {
   type ServiceTierBreakdown,
   type RecentClient,
 } from './dashboard.service';
+
+// Client document repository service
+export { DocumentService, documentService } from './document.service';
+
+// Policy and handbook versioning service
+export { PolicyService, policyService } from './policy.service';
+
+// Internal document library service
+export { InternalDocumentService, internalDocumentService } from './internal-document.service';
+
+// Append-only activity log
+export { ActivityLogService, activityLogService } from './activity-log.service';
+
+// TOTP two-factor authentication for admin logins
+export { TwoFactorService, twoFactorService } from './two-factor.service';
+
+// Password changes, reset links and reuse prevention
+export { PasswordService, passwordService } from './password.service';
+
+// Login history, lockouts and account unlocks
+export { SecurityEventService, securityEventService } from './security-event.service';
+
+// API keys for the external API
+export { ApiKeyService, apiKeyService } from './api-key.service';
+
+// Outbound webhook subscriptions and deliveries
+export { WebhookService, webhookService } from './webhook.service';
+
+// Inbound email filing and the triage inbox
+export { InboundEmailService, inboundEmailService } from './inbound-email.service';
+
+// Guided process checklists on cases
+export { CaseProcessService, caseProcessService } from './case-process.service';
+
+// Document templates and generated letters
+export { DocumentTemplateService, documentTemplateService } from './document-template.service';
@@ -0,0 +1,257 @@
+import { Archive, Internal, InternalDocumentType, PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import {
+  formatInternalNumber,
+  parseInternalSequence,
+} from '@/lib/utils/business/internal-document';
+import { assertUploadAllowed, getStorage, sanitizeFileName } from '@/lib/utils/system/storage';
+
+import type {
+  CreateInternalDocumentUploadDto,
+  SaveInternalDocumentDto,
+  UpdateInternalDocumentDto,
+} from '@/lib/types/internal-document';
+
+/**
+ * Storage key prefix for the internal document library
+ */
+const KEY_PREFIX = 'internal';
+
+export type InternalWithArchives = Internal & { archives: Archive[] };
+
+/**
+ * InternalDocumentService - Business logic for Argan's internal document library
+ *
+ * Key patterns:
+ * - Constructor dependency injection for database access
+ * - An Internal row always holds the current version of a document
+ * - Uploading a new version copies the current one into Archive first
+ * - Storage layout: internal/{timestamp}-{file-name}
+ */
+export class InternalDocumentService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Get company-wide internal documents with their archived versions
+   * Optionally search by number, title or file name
+   */
+  async getDocuments(filters?: {
+    search?: string;
+    type?: InternalDocumentType;
+  }): Promise<InternalWithArchives[]> {
+    const search = filters?.search?.trim();
+
+    return this.db.internal.findMany({
+      where: {
+        clientId: null,
+        ...(filters?.type && { type: filters.type }),
+        ...(search && {
+          OR: [
+            { internalNumber: { contains: search, mode: 'insensitive' } },
+            { title: { contains: search, mode: 'insensitive' } },
+            { fileName: { contains: search, mode: 'insensitive' } },
+          ],
+        }),
+      },
+      include: {
+        archives: { orderBy: { version: 'desc' } },
+      },
+      orderBy: { uploadedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get a single internal document
+   */
+  async getDocument(id: number): Promise<Internal> {
+    const document = await this.db.internal.findUnique({
+      where: { id },
+    });
+
+    if (!document) {
+      throw new NotFoundError('Internal document', id);
+    }
+
+    return document;
+  }
+
+  /**
+   * Get an archived version, checking it belongs to the document
+   */
+  async getArchivedVersion(internalId: number, archiveId: number): Promise<Archive> {
+    const archive = await this.db.archive.findUnique({
+      where: { id: archiveId },
+    });
+
+    if (!archive || archive.internalId !== internalId) {
+      throw new NotFoundError('Archived version', archiveId);
+    }
+
+    return archive;
+  }
+
+  /**
+   * Start an upload to the internal document library
+   * Returns a short-lived URL the browser PUTs the file to
+   */
+  async createUpload(
+    dto: CreateInternalDocumentUploadDto
+  ): Promise<{ uploadUrl: string; fileKey: string; contentType: string }> {
+    assertUploadAllowed(dto.fileName, dto.fileSize);
+
+    // Timestamp prevents naming collisions within the same folder
+    const fileKey = `${KEY_PREFIX}/${Date.now()}-${sanitizeFileName(dto.fileName)}`;
+    const contentType = dto.fileType || 'application/octet-stream';
+
+    const uploadUrl = await getStorage().createUploadUrl(fileKey, contentType, dto.fileSize);
+
+    return { uploadUrl, fileKey, contentType };
+  }
+
+  /**
+   * Save an uploaded file as a new document, or as the next version of an existing one
+   * The version being replaced is archived in the same transaction
+   */
+  async saveDocument(dto: SaveInternalDocumentDto): Promise<Internal> {
+    if (!dto.title?.trim()) {
+      throw new ValidationError('Document title is required');
+    }
+
+    if (!dto.fileKey.startsWith(`${KEY_PREFIX}/`) || dto.fileKey.includes('..')) {
+      throw new ValidationError('File key does not match the document upload location');
+    }
+
+    const stored = await getStorage().headObject(dto.fileKey);
+    if (!stored) {
+      throw new ValidationError('Uploaded file was not found in storage');
+    }
+
+    const file = {
+      fileName: dto.fileName,
+      storageKey: dto.fileKey,
+      contentType: stored.contentType,
+      fileSize: stored.size,
+      uploadedBy: dto.uploadedBy,
+    };
+
+    if (!dto.internalId) {
+      return this.db.$transaction(async (tx) => {
+        // Newest by ID - a string sort puts -1000 before -999
+        const last = await tx.internal.findFirst({
+          where: { clientId: null },
+          orderBy: { id: 'desc' },
+          select: { internalNumber: true },
+        });
+
+        return tx.internal.create({
+          data: {
+            internalNumber: formatInternalNumber(
+              'INT',
+              null,
+              parseInternalSequence(last?.internalNumber) + 1
+            ),
+            type: dto.type,
+            title: dto.title.trim(),
+            ...file,
+          },
+        });
+      });
+    }
+
+    const current = await this.getDocument(dto.internalId);
+
+    return this.db.$transaction(async (tx) => {
+      // Guarded on the version read above, so only one concurrent upload can replace it
+      const { count } = await tx.internal.updateMany({
+        where: { id: current.id, version: current.version },
+        data: {
+          type: dto.type,
+          title: dto.title.trim(),
+          version: current.version + 1,
+          uploadedAt: new Date(),
+          ...file,
+        },
+      });
+
+      if (count === 0) {
+        throw new ValidationError('A newer version of this document has just been uploaded');
+      }
+
+      // Newest by ID - a string sort puts -1000 before -999
+      const last = await tx.archive.findFirst({
+        where: { clientId: current.clientId },
+        orderBy: { id: 'desc' },
+        select: { archiveNumber: true },
+      });
+
+      await tx.archive.create({
+        data: {
+          archiveNumber: formatInternalNumber(
+            'ARC',
+            current.clientId,
+            parseInternalSequence(last?.archiveNumber) + 1
+          ),
+          clientId: current.clientId,
+          internalId: current.id,
+          type: current.type,
+          title: current.title,
+          version: current.version,
+          fileName: current.fileName,
+          storageKey: current.storageKey,
+          contentType: current.contentType,
+          fileSize: current.fileSize,
+          uploadedBy: current.uploadedBy,
+          uploadedAt: current.uploadedAt,
+          archivedBy: dto.uploadedBy,
+        },
+      });
+
+      return tx.internal.findUniqueOrThrow({ where: { id: current.id } });
+    });
+  }
+
+  /**
+   * Update a document's type and title
+   */
+  async updateDocument(id: number, dto: UpdateInternalDocumentDto): Promise<Internal> {
+    if (!dto.title?.trim()) {
+      throw new ValidationError('Document title is required');
+    }
+
+    await this.getDocument(id);
+
+    return this.db.internal.update({
+      where: { id },
+      data: {
+        type: dto.type,
+        title: dto.title.trim(),
+      },
+    });
+  }
+
+  /**
+   * Delete a document with all of its archived versions and their stored files
+   */
+  async deleteDocument(id: number): Promise<void> {
+    const document = await this.getDocument(id);
+    const archives = await this.db.archive.findMany({
+      where: { internalId: id },
+      select: { storageKey: true },
+    });
+
+    // Archives cascade with the document
+    await this.db.internal.delete({ where: { id } });
+
+    const storage = getStorage();
+    await Promise.all(
+      [document.storageKey, ...archives.map((archive) => archive.storageKey)].map((key) =>
+        storage.deleteObject(key)
+      )
+    );
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const internalDocumentService = new InternalDocumentService(getDatabaseInstance());
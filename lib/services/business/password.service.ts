@@ -0,0 +1,355 @@
+import { Admin, Prisma, PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import {
+  AdminNotFoundError,
+  InvalidCurrentPasswordError,
+  InvalidPasswordResetTokenError,
+  ValidationError,
+} from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import { config } from '@/lib/utils/system/config';
+import { logger } from '@/lib/utils/system/logger';
+import { getMailTransport } from '@/lib/utils/system/mail';
+import {
+  generatePasswordResetToken,
+  hashPassword,
+  hashPasswordResetToken,
+  PASSWORD_POLICY_MESSAGE,
+  validatePasswordStrength,
+  verifyPassword,
+} from '@/lib/utils/system/password';
+import { recordSecurityEvent } from '@/lib/utils/system/security-events';
+import { revokeAdminSessions } from '@/lib/utils/system/session';
+
+import type { ActivityActor } from '@/lib/types/activity';
+
+/**
+ * Minimum time between reset emails to the same admin
+ */
+const RESET_REQUEST_INTERVAL_MS = 60 * 1000;
+
+/**
+ * PasswordService - Password changes, resets and reuse prevention
+ *
+ * Key patterns:
+ * - Every new password must pass the strength policy and not match a recent password
+ * - Reset tokens are emailed once, stored as SHA-256 hashes, single use and short-lived
+ * - Reset requests never reveal whether an email address has an account
+ * - A changed password ends the admin's other sessions
+ * - Changes are recorded in the activity log (password hashes redacted) and as security events
+ */
+export class PasswordService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService
+  ) {}
+
+  /**
+   * Email a password reset link, if the address belongs to an active admin
+   * Earlier unused links stop working when a new one is sent
+   */
+  async requestReset(email: string, requestedIp: string | null): Promise<void> {
+    const admin = await this.db.admin.findUnique({
+      where: { email: email.trim(), isActive: true },
+      select: { id: true, email: true, name: true },
+    });
+
+    if (!admin) {
+      return;
+    }
+
+    const recentRequest = await this.db.passwordResetToken.findFirst({
+      where: {
+        adminId: admin.id,
+        createdAt: { gt: new Date(Date.now() - RESET_REQUEST_INTERVAL_MS) },
+      },
+    });
+    if (recentRequest) {
+      return;
+    }
+
+    const { token, tokenHash } = generatePasswordResetToken();
+    const expiresAt = new Date(Date.now() + config.auth.passwordResetExpiry * 1000);
+
+    await this.db.$transaction([
+      this.db.passwordResetToken.updateMany({
+        where: { adminId: admin.id, usedAt: null },
+        data: { usedAt: new Date() },
+      }),
+      this.db.passwordResetToken.create({
+        data: { adminId: admin.id, tokenHash, expiresAt, requestedIp },
+      }),
+    ]);
+
+    const resetUrl = `${config.app.url}/admin/login/reset?token=${encodeURIComponent(token)}`;
+    const expiryMinutes = Math.round(config.auth.passwordResetExpiry / 60);
+
+    try {
+      await getMailTransport().send({
+        to: admin.email,
+        subject: 'Reset your Argan HR password',
+        text: [
+          `Hello ${admin.name},`,
+          '',
+          'We received a request to reset the password for your Argan HR account.',
+          `Use the link below to choose a new password. It expires in ${expiryMinutes} minutes and can only be used once.`,
+          '',
+          resetUrl,
+          '',
+          'If you did not ask for this, you can ignore this email - your password has not been changed.',
+        ].join('\n'),
+      });
+    } catch (error) {
+      // Not surfaced to the requester, who must not learn whether the account exists
+      logger.error('Failed to send password reset email', {
+        adminId: admin.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Get the email address a reset link belongs to, or null if the link cannot be used
+   */
+  async getResetTokenEmail(token: string): Promise<string | null> {
+    const resetToken = await this.findUsableToken(token);
+    return resetToken?.admin.email ?? null;
+  }
+
+  /**
+   * Set a new password from a reset link
+   * Also clears any login lockout, since the admin has proved they own the mailbox
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const resetToken = await this.findUsableToken(token);
+    if (!resetToken) {
+      throw new InvalidPasswordResetTokenError();
+    }
+
+    const admin = await this.getAdmin(resetToken.adminId);
+    await this.assertPasswordAllowed(admin, newPassword);
+
+    await this.setPassword(
+      admin,
+      newPassword,
+      { adminId: admin.id, name: admin.name },
+      'Reset with an emailed link',
+      async (tx) => {
+        // Conditional update so the same link cannot be used twice at once
+        const claimed = await tx.passwordResetToken.updateMany({
+          where: { id: resetToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+        if (claimed.count !== 1) {
+          throw new InvalidPasswordResetTokenError();
+        }
+
+        await tx.admin.update({
+          where: { id: admin.id },
+          data: { failedLoginAttempts: 0, lockedUntil: null, lastFailedAttempt: null },
+        });
+      }
+    );
+
+    await revokeAdminSessions(admin.id, 'PASSWORD_CHANGED');
+  }
+
+  /**
+   * Change an admin's own password
+   * Their other sessions are ended; the current one is kept
+   */
+  async changePassword(
+    adminId: string,
+    currentPassword: string,
+    newPassword: string,
+    actor: ActivityActor,
+    currentSessionId?: string
+  ): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!(await verifyPassword(currentPassword, admin.passwordHash))) {
+      throw new InvalidCurrentPasswordError();
+    }
+
+    await this.assertPasswordAllowed(admin, newPassword);
+    await this.setPassword(admin, newPassword, actor, 'Changed on the account page');
+    await revokeAdminSessions(adminId, 'PASSWORD_CHANGED', currentSessionId);
+  }
+
+  /**
+   * Set a new password during sign-in for an admin who must change theirs
+   * The current password was verified moments earlier by the login step
+   */
+  async completeRequiredChange(adminId: string, newPassword: string): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.mustChangePassword) {
+      throw new ValidationError('A password change is not required for this account');
+    }
+
+    await this.assertPasswordAllowed(admin, newPassword);
+    await this.setPassword(
+      admin,
+      newPassword,
+      { adminId: admin.id, name: admin.name },
+      'Changed at sign-in (required)'
+    );
+    await revokeAdminSessions(adminId, 'PASSWORD_CHANGED');
+  }
+
+  /**
+   * Check a new password against the policy and the admin's recent passwords
+   * Used by AdminService when one admin sets another's password
+   */
+  async assertPasswordAllowed(
+    admin: { id: string; passwordHash: string },
+    password: string
+  ): Promise<void> {
+    if (!validatePasswordStrength(password)) {
+      throw new ValidationError(PASSWORD_POLICY_MESSAGE);
+    }
+
+    if (await this.isRecentPassword(admin, password)) {
+      throw new ValidationError(
+        `Password cannot be the same as any of the last ${config.auth.passwordHistoryDepth} passwords`
+      );
+    }
+  }
+
+  /**
+   * Add a password hash to the admin's history, keeping only the most recent entries
+   */
+  async recordPasswordHistory(
+    adminId: string,
+    passwordHash: string,
+    db: Prisma.TransactionClient = this.db
+  ): Promise<void> {
+    await db.passwordHistory.create({ data: { adminId, passwordHash } });
+
+    const stale = await db.passwordHistory.findMany({
+      where: { adminId },
+      orderBy: { createdAt: 'desc' },
+      skip: config.auth.passwordHistoryDepth,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await db.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+
+  /**
+   * Private helper: Get an admin with their password fields
+   */
+  private async getAdmin(adminId: string) {
+    const admin = await this.db.admin.findUnique({ where: { id: adminId } });
+
+    if (!admin) {
+      throw new AdminNotFoundError(adminId);
+    }
+
+    return admin;
+  }
+
+  /**
+   * Private helper: Find a reset token that is unused, unexpired and belongs to an active admin
+   */
+  private async findUsableToken(token: string) {
+    if (!token) return null;
+
+    const resetToken = await this.db.passwordResetToken.findUnique({
+      where: { tokenHash: hashPasswordResetToken(token) },
+      include: { admin: { select: { email: true, isActive: true } } },
+    });
+
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      resetToken.expiresAt.getTime() < Date.now() ||
+      !resetToken.admin.isActive
+    ) {
+      return null;
+    }
+
+    return resetToken;
+  }
+
+  /**
+   * Private helper: Check a password against the current one and the stored history
+   */
+  private async isRecentPassword(
+    admin: { id: string; passwordHash: string },
+    password: string
+  ): Promise<boolean> {
+    const history = await this.db.passwordHistory.findMany({
+      where: { adminId: admin.id },
+      orderBy: { createdAt: 'desc' },
+      take: config.auth.passwordHistoryDepth,
+      select: { passwordHash: true },
+    });
+
+    const hashes = new Set([admin.passwordHash, ...history.map((entry) => entry.passwordHash)]);
+    for (const hash of hashes) {
+      if (await verifyPassword(password, hash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Private helper: Store a new password, clear the must-change flag and record the change
+   * `extra` runs in the same transaction, e.g. to claim a reset token
+   */
+  private async setPassword(
+    before: Admin,
+    newPassword: string,
+    actor: ActivityActor,
+    details: string,
+    extra?: (tx: Prisma.TransactionClient) => Promise<void>
+  ): Promise<void> {
+    const passwordHash = await hashPassword(newPassword);
+
+    await this.db.$transaction(async (tx) => {
+      if (extra) {
+        await extra(tx);
+      }
+
+      const admin = await tx.admin.update({
+        where: { id: before.id },
+        data: { passwordHash, mustChangePassword: false, passwordChangedAt: new Date() },
+      });
+
+      await this.recordPasswordHistory(admin.id, passwordHash, tx);
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'ADMIN',
+          entityId: admin.id,
+          entityLabel: admin.name,
+          action: 'UPDATE',
+          before,
+          after: admin,
+        },
+        tx
+      );
+    });
+
+    await recordSecurityEvent({
+      type: 'PASSWORD_CHANGED',
+      adminId: before.id,
+      email: before.email,
+      details,
+    });
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const passwordService = new PasswordService(getDatabaseInstance(), activityLogService);
@@ -0,0 +1,432 @@
+import { Handbook, Policy, Prisma, PrismaClient } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { ClientNotFoundError, NotFoundError, ValidationError } from '@/lib/errors';
+import { formatPolicyNumber, isOverdueForReview } from '@/lib/utils/business/policy';
+import { assertUploadAllowed, getStorage, sanitizeFileName } from '@/lib/utils/system/storage';
+
+import type {
+  CreatePolicyDocumentDto,
+  CreatePolicyUploadDto,
+  PolicyDocument,
+  PolicyDocumentKind,
+} from '@/lib/types/policy';
+
+/**
+ * Relations loaded with every policy or handbook version
+ */
+const VERSION_INCLUDE = {
+  author: { select: { name: true } },
+  supersededBy: { select: { id: true } },
+} as const;
+
+type PolicyWithRelations = Policy & {
+  author: { name: string } | null;
+  supersededBy: { id: number } | null;
+};
+
+type HandbookWithRelations = Handbook & {
+  author: { name: string } | null;
+  supersededBy: { id: number } | null;
+};
+
+/**
+ * Columns of the unique constraint a Prisma write violated, or null for any other error
+ */
+function getUniqueConstraintTarget(error: unknown): string | null {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+    return String(error.meta?.target ?? '');
+  }
+  return null;
+}
+
+/**
+ * PolicyService - Business logic for versioned client policies and handbooks
+ *
+ * Key patterns:
+ * - Constructor dependency injection for database access
+ * - Each row is one version with its own number (POL-1-001-001, HAN-1-001-001)
+ * - New versions start as DRAFT; issuing one supersedes the version it replaces
+ * - Storage layout: {client-id}/policies/... and {client-id}/handbooks/...
+ */
+export class PolicyService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Get all policy and handbook versions for a client, newest first
+   */
+  async getClientPolicyDocuments(
+    clientId: number
+  ): Promise<{ policies: PolicyDocument[]; handbooks: PolicyDocument[] }> {
+    const [policies, handbooks] = await Promise.all([
+      this.db.policy.findMany({
+        where: { clientId },
+        include: VERSION_INCLUDE,
+        orderBy: [{ title: 'asc' }, { version: 'desc' }],
+      }),
+      this.db.handbook.findMany({
+        where: { clientId },
+        include: VERSION_INCLUDE,
+        orderBy: [{ title: 'asc' }, { version: 'desc' }],
+      }),
+    ]);
+
+    return {
+      policies: policies.map((policy) => this.toPolicyDocument(policy)),
+      handbooks: handbooks.map((handbook) => this.toHandbookDocument(handbook)),
+    };
+  }
+
+  /**
+   * Get a single version, checking it belongs to the client
+   */
+  async getPolicyDocument(
+    clientId: number,
+    kind: PolicyDocumentKind,
+    id: number
+  ): Promise<PolicyDocument & { storageKey: string | null }> {
+    const record =
+      kind === 'policy'
+        ? await this.db.policy.findUnique({ where: { id }, include: VERSION_INCLUDE })
+        : await this.db.handbook.findUnique({ where: { id }, include: VERSION_INCLUDE });
+
+    if (!record || record.clientId !== clientId) {
+      throw new NotFoundError(kind === 'policy' ? 'Policy' : 'Handbook', id);
+    }
+
+    const document =
+      kind === 'policy'
+        ? this.toPolicyDocument(record as PolicyWithRelations)
+        : this.toHandbookDocument(record as HandbookWithRelations);
+
+    return { ...document, storageKey: record.storageKey };
+  }
+
+  /**
+   * Start a file upload for a policy or handbook version
+   */
+  async createUpload(
+    dto: CreatePolicyUploadDto
+  ): Promise<{ uploadUrl: string; fileKey: string; contentType: string }> {
+    assertUploadAllowed(dto.fileName, dto.fileSize);
+    await this.assertClientExists(dto.clientId);
+
+    // Timestamp prevents naming collisions within the same folder
+    const fileKey = `${this.getKeyPrefix(dto.clientId, dto.kind)}/${Date.now()}-${sanitizeFileName(dto.fileName)}`;
+    const contentType = dto.fileType || 'application/octet-stream';
+
+    const uploadUrl = await getStorage().createUploadUrl(fileKey, contentType, dto.fileSize);
+
+    return { uploadUrl, fileKey, contentType };
+  }
+
+  /**
+   * Create a draft policy or handbook
+   * When supersedesId is set, the draft is the next version of that record
+   */
+  async createDraft(
+    dto: CreatePolicyDocumentDto,
+    defaultAuthorId: string
+  ): Promise<PolicyDocument> {
+    if (!dto.title?.trim()) {
+      throw new ValidationError('Title is required');
+    }
+    if (
+      dto.effectiveDate &&
+      dto.nextReviewDate &&
+      new Date(dto.nextReviewDate) <= new Date(dto.effectiveDate)
+    ) {
+      throw new ValidationError('Next review date must be after the effective date');
+    }
+
+    await this.assertClientExists(dto.clientId);
+
+    // Resolve the version being replaced
+    let version = 1;
+    if (dto.supersedesId) {
+      const previous = await this.getPolicyDocument(dto.clientId, dto.kind, dto.supersedesId);
+
+      if (previous.status !== 'ISSUED') {
+        throw new ValidationError('New versions can only be drafted from an issued version');
+      }
+      if (previous.supersededById) {
+        throw new ValidationError('A newer version already exists');
+      }
+
+      version = previous.version + 1;
+    }
+
+    // Verify the uploaded file before recording it
+    const file = dto.fileKey
+      ? await this.verifyUploadedFile(dto.clientId, dto.kind, dto.fileKey)
+      : null;
+
+    const data = {
+      clientId: dto.clientId,
+      title: dto.title.trim(),
+      version,
+      status: 'DRAFT' as const,
+      effectiveDate: dto.effectiveDate ? new Date(dto.effectiveDate) : null,
+      nextReviewDate: dto.nextReviewDate ? new Date(dto.nextReviewDate) : null,
+      authorId: dto.authorId || defaultAuthorId,
+      supersedesId: dto.supersedesId || null,
+      fileName: file ? dto.fileName || null : null,
+      storageKey: file ? dto.fileKey : null,
+      contentType: file?.contentType || null,
+      fileSize: file?.size || null,
+    };
+
+    // Retry when a concurrent draft for the same client takes the next number first
+    const maxRetries = 3;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        if (dto.kind === 'policy') {
+          const policy = await this.db.$transaction(async (tx) => {
+            // Newest by ID - a string sort puts -1000 before -999
+            const last = await tx.policy.findFirst({
+              where: { clientId: dto.clientId },
+              orderBy: { id: 'desc' },
+              select: { policyNumber: true },
+            });
+            const sequence = this.nextSequence(last?.policyNumber);
+
+            return tx.policy.create({
+              data: {
+                ...data,
+                policyNumber: formatPolicyNumber('POL', dto.clientId, sequence),
+                policyType: dto.policyType || 'OTHER',
+              },
+              include: VERSION_INCLUDE,
+            });
+          });
+
+          return this.toPolicyDocument(policy);
+        }
+
+        const handbook = await this.db.$transaction(async (tx) => {
+          // Newest by ID - a string sort puts -1000 before -999
+          const last = await tx.handbook.findFirst({
+            where: { clientId: dto.clientId },
+            orderBy: { id: 'desc' },
+            select: { handbookNumber: true },
+          });
+          const sequence = this.nextSequence(last?.handbookNumber);
+
+          return tx.handbook.create({
+            data: {
+              ...data,
+              handbookNumber: formatPolicyNumber('HAN', dto.clientId, sequence),
+            },
+            include: VERSION_INCLUDE,
+          });
+        });
+
+        return this.toHandbookDocument(handbook);
+      } catch (error) {
+        const target = getUniqueConstraintTarget(error);
+
+        // Another draft of the same version was created concurrently
+        if (target?.includes('supersedes_id')) {
+          throw new ValidationError('A newer version already exists');
+        }
+        if (target?.includes('policy_number') || target?.includes('handbook_number')) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new ValidationError(
+      `Could not assign a ${dto.kind} number because of concurrent changes. Please try again.`
+    );
+  }
+
+  /**
+   * Issue a draft version
+   * The version it replaces (if any) is marked SUPERSEDED in the same transaction
+   */
+  async issue(clientId: number, kind: PolicyDocumentKind, id: number): Promise<PolicyDocument> {
+    const draft = await this.getPolicyDocument(clientId, kind, id);
+
+    if (draft.status !== 'DRAFT') {
+      throw new ValidationError('Only draft versions can be issued');
+    }
+    if (!draft.storageKey) {
+      throw new ValidationError('Upload the document file before issuing');
+    }
+
+    // Effective from today unless a date was set on the draft
+    const effectiveDate = draft.effectiveDate ? new Date(draft.effectiveDate) : new Date();
+
+    if (kind === 'policy') {
+      const policy = await this.db.$transaction(async (tx) => {
+        if (draft.supersedesId) {
+          await tx.policy.update({
+            where: { id: draft.supersedesId },
+            data: { status: 'SUPERSEDED' },
+          });
+        }
+
+        return tx.policy.update({
+          where: { id },
+          data: { status: 'ISSUED', effectiveDate },
+          include: VERSION_INCLUDE,
+        });
+      });
+
+      return this.toPolicyDocument(policy);
+    }
+
+    const handbook = await this.db.$transaction(async (tx) => {
+      if (draft.supersedesId) {
+        await tx.handbook.update({
+          where: { id: draft.supersedesId },
+          data: { status: 'SUPERSEDED' },
+        });
+      }
+
+      return tx.handbook.update({
+        where: { id },
+        data: { status: 'ISSUED', effectiveDate },
+        include: VERSION_INCLUDE,
+      });
+    });
+
+    return this.toHandbookDocument(handbook);
+  }
+
+  /**
+   * Set the next review date (e.g., after a review confirms no changes are needed)
+   */
+  async updateReviewDate(
+    clientId: number,
+    kind: PolicyDocumentKind,
+    id: number,
+    nextReviewDate: string | null
+  ): Promise<void> {
+    const record = await this.getPolicyDocument(clientId, kind, id);
+
+    if (record.status === 'SUPERSEDED') {
+      throw new ValidationError('Superseded versions are no longer reviewed');
+    }
+
+    const data = { nextReviewDate: nextReviewDate ? new Date(nextReviewDate) : null };
+
+    if (kind === 'policy') {
+      await this.db.policy.update({ where: { id }, data });
+    } else {
+      await this.db.handbook.update({ where: { id }, data });
+    }
+  }
+
+  /**
+   * Delete a draft version and its file
+   * Issued and superseded versions are kept as history
+   */
+  async deleteDraft(clientId: number, kind: PolicyDocumentKind, id: number): Promise<void> {
+    const record = await this.getPolicyDocument(clientId, kind, id);
+
+    if (record.status !== 'DRAFT') {
+      throw new ValidationError('Only draft versions can be deleted');
+    }
+
+    if (kind === 'policy') {
+      await this.db.policy.delete({ where: { id } });
+    } else {
+      await this.db.handbook.delete({ where: { id } });
+    }
+
+    if (record.storageKey) {
+      await getStorage().deleteObject(record.storageKey);
+    }
+  }
+
+  /**
+   * Get the storage key prefix for a client's policies or handbooks
+   */
+  private getKeyPrefix(clientId: number, kind: PolicyDocumentKind): string {
+    return `${clientId}/${kind === 'policy' ? 'policies' : 'handbooks'}`;
+  }
+
+  /**
+   * Check an uploaded file exists and was uploaded for this client and kind
+   */
+  private async verifyUploadedFile(clientId: number, kind: PolicyDocumentKind, fileKey: string) {
+    if (!fileKey.startsWith(`${this.getKeyPrefix(clientId, kind)}/`) || fileKey.includes('..')) {
+      throw new ValidationError('File key does not match the upload location');
+    }
+
+    const stored = await getStorage().headObject(fileKey);
+    if (!stored) {
+      throw new ValidationError('Uploaded file was not found in storage');
+    }
+
+    return stored;
+  }
+
+  /**
+   * Get the next sequential number from the client's latest number
+   */
+  private nextSequence(lastNumber: string | undefined): number {
+    const lastSequence = lastNumber ? parseInt(lastNumber.split('-').pop() || '0', 10) : 0;
+    return (isNaN(lastSequence) ? 0 : lastSequence) + 1;
+  }
+
+  private async assertClientExists(clientId: number): Promise<void> {
+    const client = await this.db.client.findUnique({
+      where: { id: clientId },
+      select: { id: true },
+    });
+
+    if (!client) {
+      throw new ClientNotFoundError(clientId);
+    }
+  }
+
+  private toPolicyDocument(policy: PolicyWithRelations): PolicyDocument {
+    return {
+      ...this.toVersionFields(policy),
+      kind: 'policy',
+      number: policy.policyNumber,
+      policyType: policy.policyType,
+    };
+  }
+
+  private toHandbookDocument(handbook: HandbookWithRelations): PolicyDocument {
+    return {
+      ...this.toVersionFields(handbook),
+      kind: 'handbook',
+      number: handbook.handbookNumber,
+      policyType: null,
+    };
+  }
+
+  /**
+   * Map the fields policies and handbooks share to their serializable form
+   */
+  private toVersionFields(
+    record: PolicyWithRelations | HandbookWithRelations
+  ): Omit<PolicyDocument, 'kind' | 'number' | 'policyType'> {
+    return {
+      id: record.id,
+      clientId: record.clientId,
+      title: record.title,
+      version: record.version,
+      status: record.status,
+      effectiveDate: record.effectiveDate?.toISOString() || null,
+      nextReviewDate: record.nextReviewDate?.toISOString() || null,
+      isOverdueForReview: isOverdueForReview(record.status, record.nextReviewDate),
+      authorId: record.authorId,
+      authorName: record.author?.name || null,
+      supersedesId: record.supersedesId,
+      supersededById: record.supersededBy?.id || null,
+      fileName: record.fileName,
+      contentType: record.contentType,
+      createdAt: record.createdAt.toISOString(),
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const policyService = new PolicyService(getDatabaseInstance());
@@ -0,0 +1,162 @@
+import { Prisma, PrismaClient, SecurityEvent } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { AdminNotFoundError, ValidationError } from '@/lib/errors';
+import { isLoginLocked, unlockLogin } from '@/lib/utils/system/rate-limit';
+import { recordSecurityEvent } from '@/lib/utils/system/security-events';
+
+import type { ActivityActor } from '@/lib/types/activity';
+import type {
+  AdminSecuritySummary,
+  SecurityEventFilters,
+  SecurityEventPage,
+} from '@/lib/types/security';
+
+/**
+ * SecurityEventService - Login history, lockouts and account unlocks
+ *
+ * Key patterns:
+ * - Events are written by the auth flow through recordSecurityEvent, never updated
+ * - Read access for the security page and the edit-admin dialog
+ * - Unlocking clears the rate limiter's counters and is itself recorded as an event
+ */
+export class SecurityEventService {
+  constructor(private readonly db: PrismaClient) {}
+
+  /**
+   * Get a filtered page of security events, newest first
+   */
+  async getEvents(
+    filters: SecurityEventFilters
+  ): Promise<{ events: SecurityEvent[]; pagination: SecurityEventPage['pagination'] }> {
+    const { page = 1, limit = 50 } = filters;
+
+    if (page < 1) {
+      throw new ValidationError('Page must be greater than 0');
+    }
+    if (limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+
+    const where: Prisma.SecurityEventWhereInput = {
+      ...(filters.adminId && { adminId: filters.adminId }),
+      ...(filters.type && { type: filters.type }),
+    };
+
+    const [events, totalCount] = await this.db.$transaction([
+      this.db.securityEvent.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: (page - 1) * limit,
+      }),
+      this.db.securityEvent.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return {
+      events,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Get an admin's most recent security events
+   */
+  async getAdminEvents(adminId: string, limit = 25): Promise<SecurityEvent[]> {
+    return this.db.securityEvent.findMany({
+      where: { adminId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get every admin's last login and lockout state
+   */
+  async getAdminSummaries(): Promise<AdminSecuritySummary[]> {
+    const [admins, lastLogins] = await Promise.all([
+      this.db.admin.findMany({
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          role: true,
+          isActive: true,
+          failedLoginAttempts: true,
+          lastFailedAttempt: true,
+          lockedUntil: true,
+        },
+        orderBy: { name: 'asc' },
+      }),
+      this.db.securityEvent.findMany({
+        where: { type: 'LOGIN_SUCCESS', adminId: { not: null } },
+        distinct: ['adminId'],
+        orderBy: [{ adminId: 'asc' }, { createdAt: 'desc' }],
+        select: { adminId: true, createdAt: true, ipAddress: true },
+      }),
+    ]);
+
+    const lastLoginByAdmin = new Map(lastLogins.map((login) => [login.adminId, login]));
+
+    return admins.map((admin) => {
+      const lastLogin = lastLoginByAdmin.get(admin.id);
+      const isLocked = isLoginLocked(admin);
+
+      return {
+        id: admin.id,
+        name: admin.name,
+        email: admin.email,
+        role: admin.role,
+        isActive: admin.isActive,
+        lastLoginAt: lastLogin?.createdAt.toISOString() || null,
+        lastLoginIp: lastLogin?.ipAddress || null,
+        failedLoginAttempts: admin.failedLoginAttempts,
+        isLocked,
+        lockedUntil: isLocked ? admin.lockedUntil?.toISOString() || null : null,
+      };
+    });
+  }
+
+  /**
+   * Unlock an account locked by too many failed logins
+   */
+  async unlockAdmin(adminId: string, actor: ActivityActor): Promise<void> {
+    const admin = await this.db.admin.findUnique({
+      where: { id: adminId },
+      select: {
+        id: true,
+        email: true,
+        failedLoginAttempts: true,
+        lastFailedAttempt: true,
+        lockedUntil: true,
+      },
+    });
+
+    if (!admin) {
+      throw new AdminNotFoundError(adminId);
+    }
+    if (!isLoginLocked(admin)) {
+      throw new ValidationError('This account is not locked');
+    }
+
+    await unlockLogin(adminId);
+    await recordSecurityEvent({
+      type: 'ACCOUNT_UNLOCKED',
+      adminId,
+      email: admin.email,
+      actor,
+    });
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const securityEventService = new SecurityEventService(getDatabaseInstance());
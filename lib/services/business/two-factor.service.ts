@@ -0,0 +1,311 @@
+import { PrismaClient } from '@prisma/client';
+import QRCode from 'qrcode';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { AdminNotFoundError, InvalidTwoFactorCodeError, ValidationError } from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import {
+  buildOtpauthUri,
+  decryptTotpSecret,
+  encryptTotpSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from '@/lib/utils/system/totp';
+
+import type { ActivityActor } from '@/lib/types/activity';
+import type { TwoFactorSetup, TwoFactorStatus } from '@/lib/types/auth';
+
+/**
+ * Two-factor fields read by this service
+ */
+const TWO_FACTOR_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  twoFactorEnabled: true,
+  twoFactorRequired: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+  twoFactorLastUsedStep: true,
+  twoFactorEnabledAt: true,
+} as const;
+
+/**
+ * TwoFactorService - TOTP two-factor authentication for admin logins
+ *
+ * Key patterns:
+ * - Enrolment stores an encrypted secret that only takes effect once a code from it is confirmed
+ * - Recovery codes are shown once and stored as single-use hashes
+ * - A TOTP code cannot be used twice (last used time step is stored)
+ * - Failed codes are counted by the caller against the login rate limit
+ * - Enabling, disabling, requiring and resetting are recorded in the activity log
+ */
+export class TwoFactorService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService
+  ) {}
+
+  /**
+   * Get an admin's two-factor state
+   */
+  async getStatus(adminId: string): Promise<TwoFactorStatus> {
+    const admin = await this.getAdmin(adminId);
+
+    return {
+      enabled: admin.twoFactorEnabled,
+      required: admin.twoFactorRequired,
+      enabledAt: admin.twoFactorEnabledAt?.toISOString() || null,
+      recoveryCodesRemaining: admin.twoFactorRecoveryCodes.length,
+    };
+  }
+
+  /**
+   * Check whether an admin must enter a code, or enrol, before a session is created
+   */
+  async getLoginRequirement(adminId: string): Promise<'none' | 'verify' | 'setup'> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabled) return 'verify';
+    if (admin.twoFactorRequired) return 'setup';
+    return 'none';
+  }
+
+  /**
+   * Start enrolment - generate a new secret and the QR code for it
+   * Replaces any earlier unconfirmed secret
+   */
+  async startEnrolment(adminId: string): Promise<TwoFactorSetup> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabled) {
+      throw new ValidationError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await this.db.admin.update({
+      where: { id: adminId },
+      data: {
+        twoFactorSecret: encryptTotpSecret(secret),
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    const qrCodeDataUrl = await QRCode.toDataURL(buildOtpauthUri(secret, admin.email), {
+      margin: 1,
+      width: 200,
+    });
+
+    return { secret, qrCodeDataUrl };
+  }
+
+  /**
+   * Confirm enrolment with a code from the authenticator app
+   * Returns the recovery codes - the only time they are available in plain text
+   */
+  async confirmEnrolment(adminId: string, code: string, actor: ActivityActor): Promise<string[]> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabled) {
+      throw new ValidationError('Two-factor authentication is already enabled');
+    }
+    if (!admin.twoFactorSecret) {
+      throw new ValidationError('Start two-factor setup before confirming it');
+    }
+
+    const step = verifyTotp(decryptTotpSecret(admin.twoFactorSecret), code);
+    if (step === null) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await this.db.admin.update({
+      where: { id: adminId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastUsedStep: step,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      },
+    });
+
+    await this.recordChange(admin, { twoFactorEnabled: true }, actor);
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verify a login code - a TOTP code or an unused recovery code
+   * Recovery codes are consumed on use
+   */
+  async verifyCode(adminId: string, code: string): Promise<boolean> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabled || !admin.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(
+      decryptTotpSecret(admin.twoFactorSecret),
+      code,
+      admin.twoFactorLastUsedStep
+    );
+
+    if (step !== null) {
+      // Conditional update so two concurrent requests cannot both use the same code
+      const result = await this.db.admin.updateMany({
+        where: {
+          id: adminId,
+          OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      return result.count === 1;
+    }
+
+    const hash = hashRecoveryCode(code);
+    if (!admin.twoFactorRecoveryCodes.includes(hash)) {
+      return false;
+    }
+
+    const result = await this.db.admin.updateMany({
+      where: { id: adminId, twoFactorRecoveryCodes: { has: hash } },
+      data: {
+        twoFactorRecoveryCodes: admin.twoFactorRecoveryCodes.filter((stored) => stored !== hash),
+      },
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Replace the recovery codes, invalidating the old ones
+   * Requires a current code so a left-open session cannot be used to take them
+   */
+  async regenerateRecoveryCodes(adminId: string, code: string): Promise<string[]> {
+    if (!(await this.verifyCode(adminId, code))) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    await this.db.admin.update({
+      where: { id: adminId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Turn off two-factor authentication for the admin's own account
+   * Not allowed while a SUPER_ADMIN requires it
+   */
+  async disable(adminId: string, code: string, actor: ActivityActor): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabled) {
+      throw new ValidationError('Two-factor authentication is not enabled');
+    }
+    if (admin.twoFactorRequired) {
+      throw new ValidationError('Two-factor authentication is required for your account');
+    }
+    if (!(await this.verifyCode(adminId, code))) {
+      throw new InvalidTwoFactorCodeError();
+    }
+
+    await this.clearTwoFactor(adminId);
+    await this.recordChange(admin, { twoFactorEnabled: false }, actor);
+  }
+
+  /**
+   * Require (or stop requiring) two-factor authentication for an admin
+   * An admin without 2FA who is required to have it must enrol at their next login
+   */
+  async setRequired(adminId: string, required: boolean, actor: ActivityActor): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    await this.db.admin.update({
+      where: { id: adminId },
+      data: { twoFactorRequired: required },
+    });
+
+    await this.recordChange(admin, { twoFactorRequired: required }, actor);
+  }
+
+  /**
+   * Remove an admin's authenticator and recovery codes, e.g. after a lost phone
+   * If 2FA is required they will enrol again at their next login
+   */
+  async reset(adminId: string, actor: ActivityActor): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    await this.clearTwoFactor(adminId);
+    await this.recordChange(admin, { twoFactorEnabled: false }, actor);
+  }
+
+  /**
+   * Private helper: Get an admin's two-factor fields
+   */
+  private async getAdmin(adminId: string) {
+    const admin = await this.db.admin.findUnique({
+      where: { id: adminId },
+      select: TWO_FACTOR_SELECT,
+    });
+
+    if (!admin) {
+      throw new AdminNotFoundError(adminId);
+    }
+
+    return admin;
+  }
+
+  /**
+   * Private helper: Remove the secret and recovery codes
+   */
+  private async clearTwoFactor(adminId: string): Promise<void> {
+    await this.db.admin.update({
+      where: { id: adminId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorEnabledAt: null,
+        twoFactorSecret: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: [],
+      },
+    });
+  }
+
+  /**
+   * Private helper: Record a change to an admin's two-factor settings
+   */
+  private async recordChange(
+    before: { id: string; name: string; twoFactorEnabled: boolean; twoFactorRequired: boolean },
+    changes: { twoFactorEnabled?: boolean; twoFactorRequired?: boolean },
+    actor: ActivityActor
+  ): Promise<void> {
+    const previous = {
+      twoFactorEnabled: before.twoFactorEnabled,
+      twoFactorRequired: before.twoFactorRequired,
+    };
+
+    await this.activityLog.record({
+      actor,
+      entityType: 'ADMIN',
+      entityId: before.id,
+      entityLabel: before.name,
+      action: 'UPDATE',
+      before: previous,
+      after: { ...previous, ...changes },
+    });
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const twoFactorService = new TwoFactorService(getDatabaseInstance(), activityLogService);
@@ -0,0 +1,382 @@
+import { Prisma, PrismaClient, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+
+import { getDatabaseInstance } from '@/lib/database';
+import { NotFoundError, ValidationError, WebhookNotFoundError } from '@/lib/errors';
+import {
+  ActivityLogService,
+  activityLogService,
+} from '@/lib/services/business/activity-log.service';
+import { config } from '@/lib/utils/system/config';
+import { generateWebhookSecret, getRetryDelayMs, sendWebhook } from '@/lib/utils/system/webhook';
+import { isWebhookEvent, type WebhookEvent } from '@/lib/utils/system/webhook-events';
+
+import type { ActivityActor } from '@/lib/types/activity';
+import type {
+  CreatedWebhook,
+  CreateWebhookDto,
+  WebhookDeliveryItem,
+  WebhookItem,
+} from '@/lib/types/webhook';
+
+type WebhookWithCreator = WebhookSubscription & { createdBy: { name: string } | null };
+type DeliveryWithSubscription = WebhookDelivery & { subscription: { name: string } };
+
+/**
+ * How long a claimed delivery is held before another worker may retry it
+ */
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Most due retries sent in one processing run
+ */
+const PROCESS_BATCH_SIZE = 25;
+
+/**
+ * WebhookService - Outbound webhooks for client, contract and case events
+ *
+ * Key patterns:
+ * - Business services call emit() after a change is committed; emit never throws,
+ *   so a broken endpoint can never fail the change itself
+ * - Every event is stored as a delivery row before it is sent, then attempted
+ *   straight away; failures are retried with exponential backoff by
+ *   processDueDeliveries (run after each emit and from the cron endpoint)
+ * - Deliveries are claimed with a conditional update, so two workers never send the same attempt
+ * - Creating, pausing and deleting subscriptions is recorded in the activity log (secret redacted)
+ */
+export class WebhookService {
+  constructor(
+    private readonly db: PrismaClient,
+    private readonly activityLog: ActivityLogService
+  ) {}
+
+  /**
+   * Get every subscription, newest first
+   */
+  async listSubscriptions(): Promise<WebhookItem[]> {
+    const webhooks = await this.db.webhookSubscription.findMany({
+      include: { createdBy: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return webhooks.map((webhook) => this.toWebhookItem(webhook));
+  }
+
+  /**
+   * Create a subscription; the signing secret is returned once
+   */
+  async createSubscription(dto: CreateWebhookDto, actor: ActivityActor): Promise<CreatedWebhook> {
+    const name = dto.name.trim();
+    const url = dto.url.trim();
+    const events = [...new Set(dto.events)];
+
+    if (!name) {
+      throw new ValidationError('Name is required');
+    }
+    if (!this.isHttpUrl(url)) {
+      throw new ValidationError('URL must start with http:// or https://');
+    }
+    if (events.length === 0) {
+      throw new ValidationError('Select at least one event');
+    }
+    const unknownEvent = events.find((event) => !isWebhookEvent(event));
+    if (unknownEvent) {
+      throw new ValidationError(`Unknown event: ${unknownEvent}`);
+    }
+
+    const secret = generateWebhookSecret();
+
+    const webhook = await this.db.$transaction(async (tx) => {
+      const created = await tx.webhookSubscription.create({
+        data: {
+          name,
+          url,
+          events,
+          secret,
+          createdById: actor.adminId,
+        },
+        include: { createdBy: { select: { name: true } } },
+      });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'WEBHOOK',
+          entityId: created.id,
+          entityLabel: created.name,
+          action: 'CREATE',
+          after: created,
+        },
+        tx
+      );
+
+      return created;
+    });
+
+    return { webhook: this.toWebhookItem(webhook), secret };
+  }
+
+  /**
+   * Pause or resume a subscription - paused subscriptions receive no new events
+   */
+  async setSubscriptionActive(id: string, active: boolean, actor: ActivityActor): Promise<void> {
+    const before = await this.db.webhookSubscription.findUnique({ where: { id } });
+
+    if (!before) {
+      throw new WebhookNotFoundError(id);
+    }
+    if (before.active === active) return;
+
+    await this.db.$transaction(async (tx) => {
+      const after = await tx.webhookSubscription.update({
+        where: { id },
+        data: { active },
+      });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'WEBHOOK',
+          entityId: id,
+          entityLabel: before.name,
+          action: 'UPDATE',
+          before,
+          after,
+        },
+        tx
+      );
+    });
+  }
+
+  /**
+   * Delete a subscription and its delivery log
+   */
+  async deleteSubscription(id: string, actor: ActivityActor): Promise<void> {
+    const before = await this.db.webhookSubscription.findUnique({ where: { id } });
+
+    if (!before) {
+      throw new WebhookNotFoundError(id);
+    }
+
+    await this.db.$transaction(async (tx) => {
+      await tx.webhookSubscription.delete({ where: { id } });
+
+      await this.activityLog.record(
+        {
+          actor,
+          entityType: 'WEBHOOK',
+          entityId: id,
+          entityLabel: before.name,
+          action: 'DELETE',
+          before,
+        },
+        tx
+      );
+    });
+  }
+
+  /**
+   * Get recent deliveries, newest first, optionally for one subscription
+   */
+  async listDeliveries(
+    params: { subscriptionId?: string; limit?: number } = {}
+  ): Promise<WebhookDeliveryItem[]> {
+    const deliveries = await this.db.webhookDelivery.findMany({
+      where: params.subscriptionId ? { subscriptionId: params.subscriptionId } : undefined,
+      include: { subscription: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: params.limit ?? 50,
+    });
+
+    return deliveries.map((delivery) => this.toDeliveryItem(delivery));
+  }
+
+  /**
+   * Send an event to every active subscription that wants it
+   * Called by business services after a change is committed
+   */
+  async emit(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    try {
+      const subscriptions = await this.db.webhookSubscription.findMany({
+        where: { active: true, events: { has: event } },
+        select: { id: true },
+      });
+
+      if (subscriptions.length === 0) return;
+
+      const payload = this.toJson({ event, occurredAt: new Date().toISOString(), data });
+      const deliveries = await this.db.webhookDelivery.createManyAndReturn({
+        data: subscriptions.map((subscription) => ({
+          subscriptionId: subscription.id,
+          event,
+          payload,
+          nextAttemptAt: new Date(),
+        })),
+        select: { id: true },
+      });
+
+      // Send in the background - the change that raised the event has already succeeded
+      void Promise.all(deliveries.map((delivery) => this.attemptDelivery(delivery.id)))
+        .then(() => this.processDueDeliveries())
+        .catch((error) => console.error('Webhook delivery failed:', error));
+    } catch (error) {
+      console.error(`Failed to emit webhook event ${event}:`, error);
+    }
+  }
+
+  /**
+   * Send a delivery's payload again as a new delivery
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDeliveryItem> {
+    const original = await this.db.webhookDelivery.findUnique({ where: { id: deliveryId } });
+
+    if (!original) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+
+    const delivery = await this.db.webhookDelivery.create({
+      data: {
+        subscriptionId: original.subscriptionId,
+        event: original.event,
+        payload: original.payload as Prisma.InputJsonValue,
+        nextAttemptAt: new Date(),
+      },
+    });
+
+    await this.attemptDelivery(delivery.id);
+
+    const attempted = await this.db.webhookDelivery.findUniqueOrThrow({
+      where: { id: delivery.id },
+      include: { subscription: { select: { name: true } } },
+    });
+
+    return this.toDeliveryItem(attempted);
+  }
+
+  /**
+   * Send every delivery whose next attempt is due
+   * Returns the number of deliveries attempted
+   */
+  async processDueDeliveries(limit: number = PROCESS_BATCH_SIZE): Promise<number> {
+    const due = await this.db.webhookDelivery.findMany({
+      where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    let attempted = 0;
+    for (const delivery of due) {
+      if (await this.attemptDelivery(delivery.id)) {
+        attempted++;
+      }
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Private helper: Claim a due delivery and send it once
+   * Returns false when the delivery was not due or another worker claimed it first
+   */
+  private async attemptDelivery(id: string): Promise<boolean> {
+    const now = new Date();
+
+    // Claim: push the next attempt out so no other worker picks it up meanwhile
+    const claimed = await this.db.webhookDelivery.updateMany({
+      where: { id, status: 'PENDING', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS) },
+    });
+
+    if (claimed.count === 0) return false;
+
+    const delivery = await this.db.webhookDelivery.findUniqueOrThrow({
+      where: { id },
+      include: { subscription: true },
+    });
+
+    const response = await sendWebhook({
+      deliveryId: delivery.id,
+      event: delivery.event,
+      url: delivery.subscription.url,
+      secret: delivery.subscription.secret,
+      body: JSON.stringify(delivery.payload),
+    });
+
+    const attempts = delivery.attempts + 1;
+    const givesUp = !response.ok && attempts >= config.webhooks.maxAttempts;
+
+    await this.db.webhookDelivery.update({
+      where: { id },
+      data: {
+        attempts,
+        lastAttemptAt: now,
+        responseStatus: response.status,
+        responseBody: response.body,
+        error: response.error,
+        status: response.ok ? 'SUCCEEDED' : givesUp ? 'FAILED' : 'PENDING',
+        deliveredAt: response.ok ? new Date() : null,
+        nextAttemptAt:
+          response.ok || givesUp ? null : new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * Private helper: Convert event data to a JSON value (dates become ISO strings, Decimals strings)
+   */
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+  }
+
+  /**
+   * Private helper: Check a URL is an absolute http(s) URL
+   */
+  private isHttpUrl(value: string): boolean {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Private helper: Convert a subscription row to its serializable form
+   */
+  private toWebhookItem(webhook: WebhookWithCreator): WebhookItem {
+    return {
+      id: webhook.id,
+      name: webhook.name,
+      url: webhook.url,
+      events: webhook.events.filter(isWebhookEvent),
+      active: webhook.active,
+      createdByName: webhook.createdBy?.name || null,
+      createdAt: webhook.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Private helper: Convert a delivery row to its serializable form
+   */
+  private toDeliveryItem(delivery: DeliveryWithSubscription): WebhookDeliveryItem {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscriptionId,
+      subscriptionName: delivery.subscription.name,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt?.toISOString() || null,
+      lastAttemptAt: delivery.lastAttemptAt?.toISOString() || null,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      deliveredAt: delivery.deliveredAt?.toISOString() || null,
+      createdAt: delivery.createdAt.toISOString(),
+    };
+  }
+}
+
+// Singleton instance export with environment-specific database
+export const webhookService = new WebhookService(getDatabaseInstance(), activityLogService);
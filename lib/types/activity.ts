@@ -0,0 +1,85 @@
+/**
+ * Activity log type definitions
+ * Shared across app and business layers
+ */
+
+import type { AdminSession } from './auth';
+import type { ActivityAction, ActivityEntityType } from '@prisma/client';
+
+/**
+ * Who is making a change - an AdminSession satisfies this
+ * Changes made through the external API have no admin: adminId is null and name is the key's
+ */
+export type ActivityActor = Pick<AdminSession, 'name'> & { adminId: string | null };
+
+/**
+ * JSON-safe field value recorded in a diff
+ */
+export type ActivityValue = string | number | boolean | null | Array<string | number | boolean>;
+
+/**
+ * Field-level before/after diff, keyed by field name
+ */
+export type ActivityChanges = Record<string, { from: ActivityValue; to: ActivityValue }>;
+
+/**
+ * A change to record in the activity log
+ * before is null for creates and after is null for deletes
+ */
+export interface RecordActivityInput {
+  actor: ActivityActor;
+  entityType: ActivityEntityType;
+  entityId: string | number;
+  entityLabel?: string | null;
+  action: ActivityAction;
+  before?: object | null;
+  after?: object | null;
+  clientId?: number | null;
+  caseId?: number | null;
+}
+
+/**
+ * Serializable activity log entry for Client Components
+ */
+export interface ActivityLogItem {
+  id: number;
+  actorId: string | null;
+  actorName: string;
+  entityType: ActivityEntityType;
+  entityId: string;
+  entityLabel: string | null;
+  action: ActivityAction;
+  changes: ActivityChanges;
+  clientId: number | null;
+  caseId: number | null;
+  createdAt: string;
+}
+
+/**
+ * Activity log viewer filters
+ */
+export interface ActivityLogFilters {
+  actorId?: string;
+  entityType?: ActivityEntityType;
+  action?: ActivityAction;
+  clientId?: number;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A page of activity log entries
+ */
+export interface ActivityLogPage {
+  entries: ActivityLogItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
@@ -21,6 +21,8 @@ export interface Admin {
   failedLoginAttempts?: number;
   lastFailedAttempt?: Date | null;
   lockedUntil?: Date | null;
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean;
 }
 
 /**
@@ -31,6 +33,7 @@ export interface CreateAdminDto {
   name: string;
   password: string;
   role: AdminRole;
+  mustChangePassword?: boolean; // Ask for a new password at first sign-in
 }
 
 /**
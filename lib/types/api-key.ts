@@ -0,0 +1,49 @@
+/**
+ * API key type definitions
+ * Shared across app, business and middleware layers
+ */
+
+import type { ApiKeyScope } from '@/lib/utils/system/api-scopes';
+
+/**
+ * The key an external API request authenticated with
+ * Attached to the request by withApiKey
+ */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Serializable API key for Client Components - never includes the key itself
+ */
+export interface ApiKeyItem {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+/**
+ * Data for creating an API key
+ */
+export interface CreateApiKeyDto {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+}
+
+/**
+ * A newly created key - the only time the full key is available
+ */
+export interface CreatedApiKey {
+  apiKey: ApiKeyItem;
+  key: string;
+}
@@ -12,4 +12,37 @@ export interface AdminSession {
   email: string;
   role: AdminRole;
   name: string;
+  sessionId: string; // Stored login session this request belongs to
+}
+
+/**
+ * One of an admin's active login sessions, for the account security page
+ */
+export interface ActiveSessionItem {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+/**
+ * An admin's two-factor authentication state
+ */
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Details shown while enrolling an authenticator app
+ * The secret is shown for manual entry when the QR code cannot be scanned
+ */
+export interface TwoFactorSetup {
+  secret: string;
+  qrCodeDataUrl: string;
 }
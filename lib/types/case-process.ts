@@ -0,0 +1,48 @@
+/**
+ * Case process type definitions
+ * Shared across app and business layers
+ */
+
+import type { ActionParty, ProcessStepStatus, ProcessTemplate } from '@prisma/client';
+
+/**
+ * Serializable process step for Client Components
+ */
+export interface CaseProcessStepItem {
+  id: number;
+  position: number;
+  title: string;
+  description: string | null;
+  actionParty: ActionParty;
+  dueInDays: number;
+  dueDate: string; // YYYY-MM-DD
+  documentTemplate: string | null;
+  status: ProcessStepStatus;
+  note: string | null;
+  completedBy: string | null;
+  completedAt: string | null;
+  interactionId: number | null;
+}
+
+/**
+ * Serializable process with its steps in order
+ */
+export interface CaseProcessItem {
+  id: number;
+  caseId: number;
+  template: ProcessTemplate;
+  label: string;
+  startedBy: string;
+  startedAt: string;
+  completedAt: string | null; // Null while steps are pending
+  steps: CaseProcessStepItem[];
+}
+
+/**
+ * Data for completing the current step of a process
+ * A skipped step needs a note giving the reason
+ */
+export interface CompleteProcessStepDto {
+  note?: string | null;
+  skip?: boolean;
+}
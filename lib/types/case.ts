@@ -3,7 +3,31 @@
  * Shared types for case-related operations across layers
  */
 
-import type { CaseStatus, ActionParty } from '@prisma/client';
+import type { CaseFieldValue } from '@/lib/utils/business/case-types';
+import type {
+  CaseStatus,
+  CaseOutcome,
+  CaseType,
+  ActionParty,
+  HoursPeriod,
+  RateUnit,
+  WorkCategory,
+  FileAccessType,
+  InteractionType,
+  InteractionDirection,
+} from '@prisma/client';
+
+/**
+ * Filters and pagination for listing cases
+ */
+export interface GetCasesParams {
+  page?: number;
+  limit?: number;
+  clientId?: number;
+  status?: CaseStatus;
+  type?: CaseType;
+  assignedTo?: string;
+}
 
 export interface CreateCaseInput {
   clientId: number;
@@ -14,6 +38,8 @@ export interface CreateCaseInput {
   actionRequiredBy?: ActionParty | null;
   actionRequired?: string | null;
   description?: string | null;
+  type?: CaseType | null;
+  typeFields?: CaseTypeFieldsInput;
 }
 
 export interface UpdateCaseInput {
@@ -21,9 +47,64 @@ export interface UpdateCaseInput {
   escalatedBy?: string;
   assignedTo?: string | null;
   status?: CaseStatus;
+  statusReason?: string | null; // Required when closing or reopening
+  outcome?: CaseOutcome | null; // Required when closing
   actionRequiredBy?: ActionParty | null;
   actionRequired?: string | null;
   description?: string | null;
+  type?: CaseType | null; // Fields that do not belong to the new type are dropped
+  typeFields?: CaseTypeFieldsInput; // Replaces all stored fields
+}
+
+/**
+ * Structured field values for a case type, keyed by field key - null clears a field
+ */
+export type CaseTypeFieldsInput = Record<string, CaseFieldValue | null>;
+
+/**
+ * Serializable status history entry for Client Components
+ */
+export interface CaseStatusChangeItem {
+  id: number;
+  fromStatus: CaseStatus | null;
+  toStatus: CaseStatus;
+  reason: string | null;
+  outcome: CaseOutcome | null;
+  changedBy: string;
+  changedAt: string;
+}
+
+/**
+ * A case's status history with the time spent in each status
+ */
+export interface CaseStatusHistory {
+  caseId: number;
+  changes: CaseStatusChangeItem[]; // Oldest first
+  hoursInStatus: Record<CaseStatus, number>;
+  hoursToClose: number | null; // Null while the case is not closed
+}
+
+/**
+ * Filters for the case status report - closedFrom/closedTo bound when cases were closed
+ */
+export interface CaseStatusReportParams {
+  clientId?: number;
+  closedFrom?: Date;
+  closedTo?: Date;
+}
+
+/**
+ * Time-to-close and time-in-status across closed cases
+ */
+export interface CaseStatusReport {
+  closedCases: number;
+  averageHoursToClose: number | null;
+  averageHoursInStatus: Record<CaseStatus, number>;
+  byOutcome: Array<{
+    outcome: CaseOutcome | null; // Null for cases closed before outcomes were recorded
+    closedCases: number;
+    averageHoursToClose: number;
+  }>;
 }
 
 export interface CreateInteractionInput {
@@ -33,19 +114,131 @@ export interface CreateInteractionInput {
   party2Name: string;
   party2Type: ActionParty;
   content: string;
+  type?: InteractionType;
+  direction?: InteractionDirection | null;
+  startedAt?: string | null; // ISO date-time; defaults to now
+  durationMinutes?: number | null;
   actionRequired?: string | null;
   actionRequiredBy?: ActionParty | null;
   actionRequiredByDate?: string | null;
 }
 
+/**
+ * Interactions on a case grouped by channel, for filtering the call log
+ */
+export interface CaseInteractionChannel {
+  type: InteractionType;
+  direction: InteractionDirection | null;
+  count: number;
+  minutes: number;
+}
+
 export interface CreateFileInput {
   caseId: number;
   interactionId?: number | null;
   fileName: string;
   fileUrl: string;
+  storageKey?: string | null;
+  contentType?: string | null;
   fileSize: number;
   uploadedBy: string;
   fileTitle?: string | null;
   fileDescription?: string | null;
   fileTags?: string[];
 }
+
+export interface CreateTimeEntryInput {
+  interactionId: number;
+  category: WorkCategory;
+  durationMinutes: number;
+  billable?: boolean;
+  description?: string | null;
+  workDate?: string | null;
+  recordedBy: string;
+}
+
+/**
+ * Hours usage for one work category in the current contract period
+ */
+export interface CategoryHoursUsage {
+  category: WorkCategory;
+  period: HoursPeriod;
+  periodStart: string;
+  periodEnd: string;
+  usedHours: number;
+  includedHours: number;
+  remainingHours: number;
+  overageHours: number;
+  overageRate: number | null;
+  overageRateUnit: RateUnit | null;
+  overageCost: number | null;
+  nonBillableHours: number;
+}
+
+/**
+ * Per-client hours usage reconciled against the active contract
+ */
+export interface ClientHoursUsage {
+  clientId: number;
+  contractId: number;
+  contractNumber: string;
+  categories: CategoryHoursUsage[];
+}
+
+/**
+ * Calls (phone and video) for one calendar month
+ */
+export interface MonthlyCallActivity {
+  month: string; // ISO date of the first day of the month
+  calls: number;
+  minutes: number;
+  untimedCalls: number; // Calls recorded without a duration
+}
+
+/**
+ * Per-client call volume, oldest month first
+ */
+export interface ClientCallActivity {
+  clientId: number;
+  months: MonthlyCallActivity[];
+  totalCalls: number;
+  totalMinutes: number;
+}
+
+/**
+ * Request to upload a file to a case or interaction
+ */
+export interface CreateFileUploadInput {
+  caseId: string; // String case ID (e.g., "CASE-0001")
+  clientId: number;
+  interactionId?: number | null;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+}
+
+/**
+ * Confirmation that an uploaded file should be recorded against a case
+ */
+export interface SaveUploadedFileInput {
+  caseId: string; // String case ID (e.g., "CASE-0001")
+  interactionId?: number | null;
+  fileKey: string;
+  fileName: string;
+  fileTitle?: string | null;
+  fileDescription?: string | null;
+  fileTags?: string[];
+  uploadedBy: string;
+}
+
+/**
+ * Record of an admin opening a case file
+ */
+export interface RecordFileAccessInput {
+  fileId: number;
+  accessType: FileAccessType;
+  adminId: string;
+  accessedBy: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
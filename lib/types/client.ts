@@ -19,6 +19,7 @@ export interface GetClientsParams {
   page?: number;
   limit?: number;
   search?: string;
+  status?: 'ACTIVE' | 'INACTIVE' | 'PENDING';
 }
 
 export interface CreateClientDto {
@@ -0,0 +1,57 @@
+/**
+ * Document template type definitions
+ * Shared across app and business layers
+ */
+
+import type { ClientDocumentCategory, DocumentTemplateEntity } from '@prisma/client';
+
+/**
+ * Serializable document template for Client Components
+ */
+export interface DocumentTemplateItem {
+  id: number;
+  name: string;
+  description: string | null;
+  entityType: DocumentTemplateEntity;
+  category: ClientDocumentCategory;
+  body: string;
+  active: boolean;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+/**
+ * Data for creating or updating a document template
+ */
+export interface SaveDocumentTemplateDto {
+  name: string;
+  description?: string | null;
+  entityType: DocumentTemplateEntity;
+  category?: ClientDocumentCategory;
+  body: string;
+  active?: boolean;
+}
+
+/**
+ * Request to generate a document from a template
+ * Client and contract documents can be logged on one of the client's cases;
+ * case documents are logged on their own case
+ */
+export interface GenerateDocumentDto {
+  templateId: number;
+  entityType: DocumentTemplateEntity;
+  entityId: number; // Client, contract or case ID
+  logInteraction?: boolean;
+  caseId?: number | null; // Case to log client and contract documents on
+}
+
+/**
+ * Where a generated document was stored
+ */
+export interface GeneratedDocument {
+  fileName: string;
+  clientDocumentId: number | null; // Set for client and contract documents
+  caseFileId: number | null; // Set for case documents
+  interactionId: number | null;
+  missingFields: string[]; // Merge fields left blank because the record has no value
+}
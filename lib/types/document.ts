@@ -0,0 +1,60 @@
+/**
+ * Client document type definitions
+ * Shared across app and business layers
+ */
+
+import type { ClientDocumentCategory } from '@prisma/client';
+
+/**
+ * Serializable client document for Client Components
+ */
+export interface ClientDocumentItem {
+  id: number;
+  clientId: number;
+  category: ClientDocumentCategory;
+  title: string;
+  version: string;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+/**
+ * Request to upload a document to a client's repository
+ */
+export interface CreateDocumentUploadDto {
+  clientId: number;
+  category: ClientDocumentCategory;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+}
+
+/**
+ * Confirmation that an uploaded document should be added to the repository
+ */
+export interface SaveClientDocumentDto {
+  clientId: number;
+  category: ClientDocumentCategory;
+  title: string;
+  version?: string | null;
+  fileKey: string;
+  fileName: string;
+  uploadedBy: string;
+}
+
+/**
+ * A document produced on the server to add to a client's repository
+ */
+export interface StoreGeneratedDocumentDto {
+  clientId: number;
+  contractId?: number | null; // Contract the document was generated from
+  category: ClientDocumentCategory;
+  title: string;
+  fileName: string;
+  content: Uint8Array;
+  contentType: string;
+  uploadedBy: string;
+}
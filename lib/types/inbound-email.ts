@@ -0,0 +1,38 @@
+/**
+ * Inbound email type definitions
+ * Shared across app and business layers
+ */
+
+import type { InboundEmailStatus } from '@prisma/client';
+
+/**
+ * Serializable imported email for Client Components
+ */
+export interface InboundEmailItem {
+  id: number;
+  fromAddress: string;
+  fromName: string | null;
+  toAddresses: string[];
+  ccAddresses: string[];
+  subject: string;
+  sentAt: string | null;
+  bodyText: string;
+  attachmentCount: number;
+  status: InboundEmailStatus;
+  triageReason: string | null;
+  clientId: number | null;
+  clientName: string | null;
+  caseId: number | null;
+  caseReference: string | null; // CASE-0001
+  receivedBy: string;
+  receivedAt: string;
+}
+
+/**
+ * Outcome of importing one message
+ * duplicate is true when the Message-ID was already imported; email is the earlier import
+ */
+export interface ImportEmailResult {
+  email: InboundEmailItem;
+  duplicate: boolean;
+}
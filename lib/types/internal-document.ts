@@ -0,0 +1,70 @@
+/**
+ * Internal document library type definitions
+ * Shared across app and business layers
+ */
+
+import type { InternalDocumentType } from '@prisma/client';
+
+/**
+ * Serializable archived (superseded) version of an internal document
+ */
+export interface ArchivedInternalDocumentItem {
+  id: number;
+  archiveNumber: string;
+  title: string;
+  version: number;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  uploadedBy: string;
+  uploadedAt: string;
+  archivedBy: string;
+  archivedAt: string;
+}
+
+/**
+ * Serializable internal document (current version) for Client Components
+ */
+export interface InternalDocumentItem {
+  id: number;
+  internalNumber: string;
+  type: InternalDocumentType;
+  title: string;
+  version: number;
+  fileName: string;
+  contentType: string;
+  fileSize: number;
+  uploadedBy: string;
+  uploadedAt: string;
+  archives: ArchivedInternalDocumentItem[]; // Previous versions, newest first
+}
+
+/**
+ * Request to upload a file to the internal document library
+ */
+export interface CreateInternalDocumentUploadDto {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+}
+
+/**
+ * Confirmation that an uploaded file should be saved to the library
+ * With internalId set the file becomes the next version of that document
+ */
+export interface SaveInternalDocumentDto {
+  internalId?: number | null;
+  type: InternalDocumentType;
+  title: string;
+  fileKey: string;
+  fileName: string;
+  uploadedBy: string;
+}
+
+/**
+ * Editable internal document details
+ */
+export interface UpdateInternalDocumentDto {
+  type: InternalDocumentType;
+  title: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * Policy and handbook type definitions
+ * Shared across app and business layers
+ */
+
+import type { PolicyStatus, PolicyType } from '@prisma/client';
+
+/**
+ * Which versioned document collection a record belongs to
+ */
+export type PolicyDocumentKind = 'policy' | 'handbook';
+
+/**
+ * Serializable policy or handbook version for Client Components
+ */
+export interface PolicyDocument {
+  id: number;
+  kind: PolicyDocumentKind;
+  number: string; // POL-1-001-001 or HAN-1-001-001
+  clientId: number;
+  title: string;
+  policyType: PolicyType | null; // null for handbooks
+  version: number;
+  status: PolicyStatus;
+  effectiveDate: string | null;
+  nextReviewDate: string | null;
+  isOverdueForReview: boolean;
+  authorId: string | null;
+  authorName: string | null;
+  supersedesId: number | null;
+  supersededById: number | null;
+  fileName: string | null;
+  contentType: string | null;
+  createdAt: string;
+}
+
+/**
+ * Request to upload the file for a policy or handbook version
+ */
+export interface CreatePolicyUploadDto {
+  clientId: number;
+  kind: PolicyDocumentKind;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+}
+
+/**
+ * Create a draft policy or handbook, or a draft new version of an existing one
+ */
+export interface CreatePolicyDocumentDto {
+  clientId: number;
+  kind: PolicyDocumentKind;
+  supersedesId?: number | null; // Set when drafting a new version
+  title: string;
+  policyType?: PolicyType | null;
+  effectiveDate?: string | null;
+  nextReviewDate?: string | null;
+  authorId?: string | null;
+  fileKey?: string | null;
+  fileName?: string | null;
+}
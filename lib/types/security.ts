@@ -0,0 +1,77 @@
+/**
+ * Security event type definitions
+ * Shared across app and business layers
+ */
+
+import type { ActivityActor } from './activity';
+import type { AdminRole } from './admin';
+import type { SecurityEventType } from '@prisma/client';
+
+/**
+ * A security event to record
+ * Pass adminId when known; email is looked up from it if not given
+ * actor is the admin who made the change, when it was not the admin themselves
+ */
+export interface RecordSecurityEventInput {
+  type: SecurityEventType;
+  adminId?: string | null;
+  email?: string;
+  details?: string | null;
+  actor?: ActivityActor | null;
+}
+
+/**
+ * Serializable security event for Client Components
+ */
+export interface SecurityEventItem {
+  id: number;
+  adminId: string | null;
+  email: string;
+  type: SecurityEventType;
+  details: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  actorName: string | null;
+  createdAt: string;
+}
+
+/**
+ * Security events page filters
+ */
+export interface SecurityEventFilters {
+  adminId?: string;
+  type?: SecurityEventType;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A page of security events
+ */
+export interface SecurityEventPage {
+  events: SecurityEventItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+/**
+ * One admin's sign-in state, for the security page
+ */
+export interface AdminSecuritySummary {
+  id: string;
+  name: string;
+  email: string;
+  role: AdminRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  lastLoginIp: string | null;
+  failedLoginAttempts: number;
+  isLocked: boolean;
+  lockedUntil: string | null;
+}
@@ -0,0 +1,55 @@
+/**
+ * Webhook type definitions
+ * Shared across app and business layers
+ */
+
+import type { WebhookEvent } from '@/lib/utils/system/webhook-events';
+import type { WebhookDeliveryStatus } from '@prisma/client';
+
+/**
+ * Serializable webhook subscription for Client Components - never includes the secret
+ */
+export interface WebhookItem {
+  id: string;
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+/**
+ * Data for creating a webhook subscription
+ */
+export interface CreateWebhookDto {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+}
+
+/**
+ * A newly created subscription - the only time the secret is shown
+ */
+export interface CreatedWebhook {
+  webhook: WebhookItem;
+  secret: string;
+}
+
+/**
+ * Serializable delivery log entry for Client Components
+ */
+export interface WebhookDeliveryItem {
+  id: string;
+  subscriptionId: string;
+  subscriptionName: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
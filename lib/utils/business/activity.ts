@@ -0,0 +1,110 @@
+/**
+ * Activity log business utility functions
+ * Pure business logic without presentation concerns
+ */
+
+import type { ActivityChanges, ActivityValue } from '@/lib/types/activity';
+
+/**
+ * Fields never recorded in a diff - bookkeeping columns that change on every write
+ */
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'twoFactorLastUsedStep']);
+
+/**
+ * Fields whose values are never written to the log, only the fact that they changed
+ */
+const REDACTED_FIELDS = new Set([
+  'passwordHash',
+  'twoFactorSecret',
+  'twoFactorRecoveryCodes',
+  'keyHash',
+  'secret',
+]);
+
+const REDACTED = '[redacted]';
+
+/**
+ * JSON columns diffed key by key, recorded as "column.key" (e.g. typeFields.hearingDate)
+ */
+const JSON_FIELDS = new Set(['typeFields']);
+
+/**
+ * Convert a field value to its JSON-safe form
+ * Returns undefined for values that are not fields of the record itself (relations, counts)
+ */
+function toActivityValue(value: unknown): ActivityValue | undefined {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.every((item) => ['string', 'number', 'boolean'].includes(typeof item))
+      ? (value as Array<string | number | boolean>)
+      : undefined;
+  }
+  // Prisma Decimal
+  if (typeof value === 'object' && 'toFixed' in value && typeof value.toFixed === 'function') {
+    return value.toString();
+  }
+  return undefined;
+}
+
+/**
+ * Replace each JSON column with one entry per key, so changes inside it are diffed
+ */
+function flattenJsonFields(record: Record<string, unknown>): Record<string, unknown> {
+  const flat = { ...record };
+
+  for (const field of JSON_FIELDS) {
+    if (!(field in record)) continue;
+
+    const value = record[field];
+    delete flat[field];
+
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [key, nested] of Object.entries(value)) {
+        flat[`${field}.${key}`] = nested;
+      }
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Build the field-level diff between two versions of a record
+ * before is null for creates and after is null for deletes; unchanged fields are omitted
+ */
+export function diffRecords(before: object | null, after: object | null): ActivityChanges {
+  const original = (before || {}) as Record<string, unknown>;
+  const updated = (after || {}) as Record<string, unknown>;
+  const previous = flattenJsonFields(original);
+  const next = flattenJsonFields(updated);
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: ActivityChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = before ? toActivityValue(previous[field]) : null;
+    const to = after ? toActivityValue(next[field]) : null;
+
+    // A key added to or removed from a JSON column counts as present on both sides (as null)
+    const column = field.split('.')[0];
+    const onBothSides = JSON_FIELDS.has(column)
+      ? column in original && column in updated
+      : field in previous && field in next;
+
+    // Skip relations and fields only present on one side of an update
+    if (from === undefined || to === undefined) continue;
+    if (before && after && !onBothSides) continue;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { from: from === null ? null : REDACTED, to: to === null ? null : REDACTED }
+      : { from, to };
+  }
+
+  return changes;
+}
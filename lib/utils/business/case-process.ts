@@ -0,0 +1,181 @@
+/**
+ * Case process business utility functions
+ * The guided process templates (ACAS-aligned step sequences) and the rules for scheduling their steps
+ */
+
+import type { CaseTypeValue } from './case-types';
+
+/**
+ * Process template (mirrors Prisma ProcessTemplate enum)
+ */
+export type ProcessTemplateValue = 'DISCIPLINARY' | 'GRIEVANCE';
+
+/**
+ * Process step status (mirrors Prisma ProcessStepStatus enum)
+ */
+export type ProcessStepStatusValue = 'PENDING' | 'COMPLETED' | 'SKIPPED';
+
+/**
+ * Party responsible for a step (mirrors Prisma ActionParty enum)
+ */
+export type ActionPartyValue = 'ARGAN' | 'CLIENT' | 'CONTRACTOR' | 'EMPLOYEE' | 'THIRD_PARTY';
+
+/**
+ * One step of a process template
+ */
+export interface ProcessStepTemplate {
+  title: string;
+  description: string;
+  dueInDays: number; // Days after the previous step is done, or after the process starts for the first step
+  actionParty: ActionPartyValue;
+  documentTemplate?: string; // Letter produced at this step
+}
+
+/**
+ * A process template - the case type it is meant for and its steps in order
+ */
+export interface ProcessTemplateDefinition {
+  label: string;
+  caseType: CaseTypeValue;
+  steps: ProcessStepTemplate[];
+}
+
+export const PROCESS_TEMPLATES: Record<ProcessTemplateValue, ProcessTemplateDefinition> = {
+  DISCIPLINARY: {
+    label: 'Disciplinary Process',
+    caseType: 'DISCIPLINARY',
+    steps: [
+      {
+        title: 'Investigation',
+        description:
+          'Investigate the allegations without unreasonable delay and gather statements and evidence',
+        dueInDays: 10,
+        actionParty: 'CLIENT',
+      },
+      {
+        title: 'Invitation to disciplinary hearing',
+        description:
+          'Write to the employee with the allegations, the evidence, the hearing details and their right to be accompanied',
+        dueInDays: 3,
+        actionParty: 'ARGAN',
+        documentTemplate: 'Invitation to disciplinary hearing',
+      },
+      {
+        title: 'Disciplinary hearing',
+        description:
+          'Hold the hearing, giving the employee reasonable notice and a chance to respond',
+        dueInDays: 7,
+        actionParty: 'CLIENT',
+      },
+      {
+        title: 'Outcome letter',
+        description: 'Confirm the decision in writing, with the reasons and the right of appeal',
+        dueInDays: 3,
+        actionParty: 'ARGAN',
+        documentTemplate: 'Disciplinary outcome letter',
+      },
+      {
+        title: 'Appeal window',
+        description:
+          'Wait for the employee to lodge an appeal - skip the appeal hearing if none is made',
+        dueInDays: 5,
+        actionParty: 'EMPLOYEE',
+      },
+      {
+        title: 'Appeal hearing',
+        description:
+          'Hold the appeal, heard by a manager not previously involved, and confirm the final decision in writing',
+        dueInDays: 10,
+        actionParty: 'CLIENT',
+        documentTemplate: 'Disciplinary appeal outcome letter',
+      },
+    ],
+  },
+  GRIEVANCE: {
+    label: 'Grievance Process',
+    caseType: 'GRIEVANCE',
+    steps: [
+      {
+        title: 'Investigation',
+        description: 'Investigate the written grievance and gather statements and evidence',
+        dueInDays: 10,
+        actionParty: 'CLIENT',
+      },
+      {
+        title: 'Invitation to grievance hearing',
+        description:
+          'Write to the employee with the hearing details and their right to be accompanied',
+        dueInDays: 3,
+        actionParty: 'ARGAN',
+        documentTemplate: 'Invitation to grievance hearing',
+      },
+      {
+        title: 'Grievance hearing',
+        description:
+          'Hold the hearing so the employee can explain their grievance and how it could be resolved',
+        dueInDays: 7,
+        actionParty: 'CLIENT',
+      },
+      {
+        title: 'Outcome letter',
+        description:
+          'Confirm the decision and any action to be taken in writing, with the right of appeal',
+        dueInDays: 3,
+        actionParty: 'ARGAN',
+        documentTemplate: 'Grievance outcome letter',
+      },
+      {
+        title: 'Appeal window',
+        description:
+          'Wait for the employee to lodge an appeal - skip the appeal hearing if none is made',
+        dueInDays: 5,
+        actionParty: 'EMPLOYEE',
+      },
+      {
+        title: 'Appeal hearing',
+        description:
+          'Hold the appeal, heard by a manager not previously involved, and confirm the final decision in writing',
+        dueInDays: 10,
+        actionParty: 'CLIENT',
+        documentTemplate: 'Grievance appeal outcome letter',
+      },
+    ],
+  },
+};
+
+/**
+ * Due dates for a run of steps
+ *
+ * Business Rules:
+ * - Each step is due its offset in days after the step before it
+ * - The first step is due its offset after the start date
+ * - Dates are calendar days (UTC midnight); times of day are ignored
+ *
+ * @param dueInDays - Offset of each step, in order
+ * @param from - When the run starts (process start, or the previous step being done)
+ * @returns Due date of each step
+ */
+export function scheduleProcessSteps(dueInDays: number[], from: Date): Date[] {
+  let previous = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  return dueInDays.map((days) => {
+    previous = new Date(previous.getTime() + days * 24 * 60 * 60 * 1000);
+    return previous;
+  });
+}
+
+/**
+ * The step that is currently due
+ *
+ * Business Rules:
+ * - Steps are done in order, so the current step is the first pending one
+ * - A process with no pending steps is complete
+ *
+ * @param steps - Steps of a process, ordered by position
+ * @returns The current step, or null when the process is complete
+ */
+export function getCurrentProcessStep<T extends { status: ProcessStepStatusValue }>(
+  steps: T[]
+): T | null {
+  return steps.find((step) => step.status === 'PENDING') || null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Case status business utility functions
+ * Pure business logic for status transitions and time-in-status reporting
+ */
+
+/**
+ * Case status (mirrors Prisma CaseStatus enum)
+ */
+export type CaseStatusValue = 'OPEN' | 'AWAITING' | 'CLOSED';
+
+/**
+ * One entry in a case's status history
+ */
+export interface StatusTransition {
+  toStatus: CaseStatusValue;
+  changedAt: Date;
+}
+
+/**
+ * What must accompany a status change
+ *
+ * Business Rules:
+ * - Closing a case needs a reason and an outcome
+ * - Reopening a closed case needs a reason
+ * - Moving between OPEN and AWAITING needs neither
+ *
+ * @param fromStatus - Current status
+ * @param toStatus - New status
+ * @returns Whether a reason and an outcome are required
+ */
+export function getStatusChangeRequirements(
+  fromStatus: CaseStatusValue,
+  toStatus: CaseStatusValue
+): { reasonRequired: boolean; outcomeRequired: boolean } {
+  const closing = toStatus === 'CLOSED' && fromStatus !== 'CLOSED';
+  const reopening = fromStatus === 'CLOSED' && toStatus !== 'CLOSED';
+
+  return {
+    reasonRequired: closing || reopening,
+    outcomeRequired: closing,
+  };
+}
+
+/**
+ * Total hours a case has spent in each status
+ *
+ * Business Rules:
+ * - Each entry lasts until the next one; the latest lasts until the reference date
+ * - A closed case stops accruing time (time spent CLOSED is counted only up to a reopen)
+ *
+ * @param transitions - Status history, oldest first
+ * @param referenceDate - End of the latest entry when the case is not closed
+ * @returns Hours per status
+ */
+export function calculateHoursInStatus(
+  transitions: StatusTransition[],
+  referenceDate: Date = new Date()
+): Record<CaseStatusValue, number> {
+  const totals: Record<CaseStatusValue, number> = { OPEN: 0, AWAITING: 0, CLOSED: 0 };
+
+  transitions.forEach((transition, index) => {
+    const next = transitions[index + 1];
+    if (!next && transition.toStatus === 'CLOSED') return;
+
+    const end = next ? next.changedAt : referenceDate;
+    const milliseconds = Math.max(end.getTime() - transition.changedAt.getTime(), 0);
+    totals[transition.toStatus] += milliseconds / (60 * 60 * 1000);
+  });
+
+  return {
+    OPEN: roundHours(totals.OPEN),
+    AWAITING: roundHours(totals.AWAITING),
+    CLOSED: roundHours(totals.CLOSED),
+  };
+}
+
+/**
+ * Hours from a case being opened to it being closed
+ *
+ * Business Rules:
+ * - Measured from the first entry to the latest close
+ * - Time spent closed before a reopen counts - the matter was not finished
+ * - A case that is not currently closed has no time to close
+ *
+ * @param transitions - Status history, oldest first
+ * @returns Hours to close, or null when the case is not closed
+ */
+export function calculateHoursToClose(transitions: StatusTransition[]): number | null {
+  const first = transitions[0];
+  const last = transitions[transitions.length - 1];
+
+  if (!first || !last || last.toStatus !== 'CLOSED') {
+    return null;
+  }
+
+  return roundHours((last.changedAt.getTime() - first.changedAt.getTime()) / (60 * 60 * 1000));
+}
+
+/**
+ * Average of a set of hour figures
+ *
+ * @param hours - Hours per case
+ * @returns Average hours, or null when there are no figures
+ */
+export function averageHours(hours: number[]): number | null {
+  if (hours.length === 0) return null;
+  return roundHours(hours.reduce((sum, value) => sum + value, 0) / hours.length);
+}
+
+/**
+ * Round hours to two decimal places
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
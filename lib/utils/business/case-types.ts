@@ -0,0 +1,362 @@
+/**
+ * Case type business utility functions
+ * The structured fields recorded for each type of HR matter, and the rules for their values
+ */
+
+/**
+ * Case type (mirrors Prisma CaseType enum)
+ */
+export type CaseTypeValue =
+  | 'DISCIPLINARY'
+  | 'GRIEVANCE'
+  | 'ABSENCE_CAPABILITY'
+  | 'REDUNDANCY'
+  | 'TUPE'
+  | 'SETTLEMENT_AGREEMENT'
+  | 'RECRUITMENT'
+  | 'POLICY_QUERY'
+  | 'OTHER';
+
+/**
+ * A stored field value - dates are stored as YYYY-MM-DD strings
+ */
+export type CaseFieldValue = string | number | boolean;
+
+/**
+ * Structured field values of a case, keyed by field key
+ */
+export type CaseTypeFieldValues = Record<string, CaseFieldValue>;
+
+/**
+ * One structured field of a case type
+ */
+export interface CaseFieldDefinition {
+  key: string;
+  label: string;
+  kind: 'text' | 'date' | 'number' | 'select' | 'boolean';
+  options?: string[]; // Allowed values of a select field
+}
+
+export const CASE_TYPE_LABELS: Record<CaseTypeValue, string> = {
+  DISCIPLINARY: 'Disciplinary',
+  GRIEVANCE: 'Grievance',
+  ABSENCE_CAPABILITY: 'Absence / Capability',
+  REDUNDANCY: 'Redundancy',
+  TUPE: 'TUPE',
+  SETTLEMENT_AGREEMENT: 'Settlement Agreement',
+  RECRUITMENT: 'Recruitment',
+  POLICY_QUERY: 'Policy Query',
+  OTHER: 'Other',
+};
+
+/**
+ * Structured fields per case type, in display order
+ * Add a field here to make it editable on the case and, for select and yes/no
+ * fields, filterable in the case lists
+ */
+export const CASE_TYPE_FIELDS: Record<CaseTypeValue, CaseFieldDefinition[]> = {
+  DISCIPLINARY: [
+    {
+      key: 'stage',
+      label: 'Stage',
+      kind: 'select',
+      options: [
+        'Investigation',
+        'Invitation to hearing',
+        'Hearing',
+        'Outcome issued',
+        'Appeal',
+        'Concluded',
+      ],
+    },
+    { key: 'employeeName', label: 'Employee', kind: 'text' },
+    { key: 'allegation', label: 'Allegation', kind: 'text' },
+    { key: 'investigatingOfficer', label: 'Investigating Officer', kind: 'text' },
+    { key: 'hearingDate', label: 'Hearing Date', kind: 'date' },
+    {
+      key: 'sanction',
+      label: 'Sanction',
+      kind: 'select',
+      options: [
+        'No action',
+        'Verbal warning',
+        'First written warning',
+        'Final written warning',
+        'Dismissal',
+      ],
+    },
+    { key: 'appealDeadline', label: 'Appeal Deadline', kind: 'date' },
+  ],
+  GRIEVANCE: [
+    {
+      key: 'stage',
+      label: 'Stage',
+      kind: 'select',
+      options: ['Informal', 'Investigation', 'Hearing', 'Outcome issued', 'Appeal', 'Concluded'],
+    },
+    { key: 'employeeName', label: 'Employee', kind: 'text' },
+    { key: 'complaint', label: 'Complaint', kind: 'text' },
+    { key: 'hearingDate', label: 'Hearing Date', kind: 'date' },
+    {
+      key: 'finding',
+      label: 'Finding',
+      kind: 'select',
+      options: ['Upheld', 'Partially upheld', 'Not upheld'],
+    },
+    { key: 'appealDeadline', label: 'Appeal Deadline', kind: 'date' },
+  ],
+  ABSENCE_CAPABILITY: [
+    {
+      key: 'stage',
+      label: 'Stage',
+      kind: 'select',
+      options: ['Informal review', 'Formal stage 1', 'Formal stage 2', 'Final review', 'Concluded'],
+    },
+    { key: 'employeeName', label: 'Employee', kind: 'text' },
+    {
+      key: 'absenceType',
+      label: 'Absence Type',
+      kind: 'select',
+      options: ['Short-term', 'Long-term', 'Performance'],
+    },
+    { key: 'daysAbsent', label: 'Days Absent', kind: 'number' },
+    { key: 'occupationalHealthReferral', label: 'Occupational Health Referral', kind: 'boolean' },
+    { key: 'reviewMeetingDate', label: 'Review Meeting Date', kind: 'date' },
+  ],
+  REDUNDANCY: [
+    {
+      key: 'stage',
+      label: 'Stage',
+      kind: 'select',
+      options: ['Planning', 'Consultation', 'Selection', 'Notice issued', 'Concluded'],
+    },
+    { key: 'employeesAtRisk', label: 'Employees at Risk', kind: 'number' },
+    { key: 'collectiveConsultation', label: 'Collective Consultation', kind: 'boolean' },
+    { key: 'consultationStartDate', label: 'Consultation Start Date', kind: 'date' },
+    { key: 'proposedLeavingDate', label: 'Proposed Leaving Date', kind: 'date' },
+  ],
+  TUPE: [
+    {
+      key: 'transferDirection',
+      label: 'Transfer',
+      kind: 'select',
+      options: ['Incoming', 'Outgoing'],
+    },
+    { key: 'transferor', label: 'Transferor', kind: 'text' },
+    { key: 'transferee', label: 'Transferee', kind: 'text' },
+    { key: 'employeesTransferring', label: 'Employees Transferring', kind: 'number' },
+    { key: 'transferDate', label: 'Transfer Date', kind: 'date' },
+    {
+      key: 'employeeLiabilityInfoSent',
+      label: 'Employee Liability Information Sent',
+      kind: 'boolean',
+    },
+  ],
+  SETTLEMENT_AGREEMENT: [
+    {
+      key: 'stage',
+      label: 'Stage',
+      kind: 'select',
+      options: ['Negotiating', 'Drafted', 'With employee adviser', 'Signed'],
+    },
+    { key: 'employeeName', label: 'Employee', kind: 'text' },
+    { key: 'settlementAmount', label: 'Settlement Amount (£)', kind: 'number' },
+    { key: 'terminationDate', label: 'Termination Date', kind: 'date' },
+  ],
+  RECRUITMENT: [
+    { key: 'role', label: 'Role', kind: 'text' },
+    { key: 'vacancies', label: 'Vacancies', kind: 'number' },
+    { key: 'closingDate', label: 'Closing Date', kind: 'date' },
+    { key: 'interviewDate', label: 'Interview Date', kind: 'date' },
+    { key: 'startDate', label: 'Start Date', kind: 'date' },
+  ],
+  POLICY_QUERY: [
+    {
+      key: 'policyArea',
+      label: 'Policy Area',
+      kind: 'select',
+      options: [
+        'Absence',
+        'Annual leave',
+        'Conduct',
+        'Family leave',
+        'Flexible working',
+        'Pay and benefits',
+        'Other',
+      ],
+    },
+    { key: 'policyName', label: 'Policy', kind: 'text' },
+  ],
+  OTHER: [],
+};
+
+/**
+ * Fields of a case type that the case lists can filter on
+ *
+ * Business Rules:
+ * - Select and yes/no fields have a fixed set of values, so they make useful filters
+ * - Free text, number and date fields are not offered as filters
+ *
+ * @param type - Case type, or null for an uncategorised case
+ * @returns Filterable field definitions
+ */
+export function getFilterableCaseFields(type: CaseTypeValue | null): CaseFieldDefinition[] {
+  if (!type) return [];
+  return CASE_TYPE_FIELDS[type].filter(
+    (field) => field.kind === 'select' || field.kind === 'boolean'
+  );
+}
+
+/**
+ * Whether a case's field values match the field filters of a case list
+ *
+ * Business Rules:
+ * - Filters are keyed by field key and hold the accepted values as strings
+ *   ('true'/'false' for yes/no fields)
+ * - A field with no accepted values does not filter; a case without a value for a
+ *   filtered field does not match
+ *
+ * @param values - The case's field values
+ * @param fieldFilters - Accepted values per field key
+ * @returns Whether every active filter matches
+ */
+export function matchesCaseFieldFilters(
+  values: CaseTypeFieldValues | undefined,
+  fieldFilters: Record<string, string[]>
+): boolean {
+  return Object.entries(fieldFilters).every(([key, accepted]) => {
+    if (accepted.length === 0) return true;
+    const value = values?.[key];
+    return value !== undefined && accepted.includes(String(value));
+  });
+}
+
+/**
+ * Keep only the stored values that belong to a case type
+ *
+ * Business Rules:
+ * - Used when a case changes type: values of fields the new type shares (e.g. the
+ *   employee's name) are kept, the rest are dropped
+ * - A shared key whose value is not valid for the new type (e.g. a stage the new
+ *   type does not have) is dropped too
+ * - Anything other than a plain object is treated as no values
+ *
+ * @param type - Case type, or null for an uncategorised case
+ * @param values - Stored field values
+ * @returns Values of the type's fields
+ */
+export function pickCaseTypeFields(
+  type: CaseTypeValue | null,
+  values: unknown
+): CaseTypeFieldValues {
+  if (!type || !values || typeof values !== 'object' || Array.isArray(values)) {
+    return {};
+  }
+
+  const stored = values as Record<string, unknown>;
+  const picked: CaseTypeFieldValues = {};
+  for (const field of CASE_TYPE_FIELDS[type]) {
+    const value = normalizeFieldValue(field, stored[field.key]);
+    if (value !== null) {
+      picked[field.key] = value;
+    }
+  }
+  return picked;
+}
+
+/**
+ * Validate and normalise the structured field values of a case
+ *
+ * Business Rules:
+ * - Only fields defined for the case type are accepted; an uncategorised case has none
+ * - Empty values (null or blank text) clear the field
+ * - Text is trimmed; dates are YYYY-MM-DD; numbers are zero or more; select values
+ *   must be one of the field's options; yes/no fields are booleans
+ *
+ * @param type - Case type, or null for an uncategorised case
+ * @param values - Field values to save
+ * @returns The values to store and one error per invalid field
+ */
+export function normalizeCaseTypeFields(
+  type: CaseTypeValue | null,
+  values: Record<string, unknown>
+): { values: CaseTypeFieldValues; errors: Array<{ field: string; message: string }> } {
+  const definitions = type ? CASE_TYPE_FIELDS[type] : [];
+  const normalized: CaseTypeFieldValues = {};
+  const errors: Array<{ field: string; message: string }> = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const field = definitions.find((definition) => definition.key === key);
+    if (!field) {
+      errors.push({
+        field: key,
+        message: type
+          ? `${key} is not a field of ${CASE_TYPE_LABELS[type]} cases`
+          : 'Set a case type before recording its fields',
+      });
+      continue;
+    }
+
+    if (
+      value === null ||
+      value === undefined ||
+      (typeof value === 'string' && value.trim() === '')
+    ) {
+      continue;
+    }
+
+    const result = normalizeFieldValue(field, value);
+    if (result === null) {
+      errors.push({ field: key, message: getFieldErrorMessage(field) });
+    } else {
+      normalized[key] = result;
+    }
+  }
+
+  return { values: normalized, errors };
+}
+
+/**
+ * Check one non-empty value against its field definition
+ */
+function normalizeFieldValue(field: CaseFieldDefinition, value: unknown): CaseFieldValue | null {
+  switch (field.kind) {
+    case 'text':
+      return typeof value === 'string' ? value.trim() : null;
+    case 'date':
+      return typeof value === 'string' && isCalendarDate(value) ? value : null;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+    case 'select':
+      return typeof value === 'string' && field.options?.includes(value) ? value : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : null;
+  }
+}
+
+/**
+ * Error message for an invalid value of a field
+ */
+function getFieldErrorMessage(field: CaseFieldDefinition): string {
+  switch (field.kind) {
+    case 'text':
+      return `${field.label} must be text`;
+    case 'date':
+      return `${field.label} must be a date (YYYY-MM-DD)`;
+    case 'number':
+      return `${field.label} must be a number of zero or more`;
+    case 'select':
+      return `${field.label} must be one of: ${field.options?.join(', ')}`;
+    case 'boolean':
+      return `${field.label} must be yes or no`;
+  }
+}
+
+/**
+ * Whether a string is a real YYYY-MM-DD calendar date
+ */
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
@@ -0,0 +1,18 @@
+/**
+ * Client business utility functions
+ * Pure business logic without presentation concerns
+ */
+
+import type { Prisma } from '@prisma/client';
+
+/**
+ * Convert a client's Decimal retainer to a number, for JSON responses and Client Components
+ */
+export function serializeClient<T extends { monthlyRetainer: Prisma.Decimal | null }>(
+  client: T
+): Omit<T, 'monthlyRetainer'> & { monthlyRetainer: number | null } {
+  return {
+    ...client,
+    monthlyRetainer: client.monthlyRetainer ? Number(client.monthlyRetainer) : null,
+  };
+}
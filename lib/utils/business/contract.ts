@@ -47,3 +47,58 @@ export function getContractRenewalUrgency(
   // Business rule: More than 90 days is safe
   return 'SAFE';
 }
+
+/**
+ * Inclusive hours period (mirrors Prisma HoursPeriod enum)
+ */
+export type HoursPeriodValue = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+/**
+ * Extra rate unit (mirrors Prisma RateUnit enum)
+ */
+export type RateUnitValue = 'HOURLY' | 'DAILY';
+
+const HOURS_PERIOD_TEXT: Record<HoursPeriodValue, string> = {
+  WEEKLY: 'per week',
+  MONTHLY: 'per month',
+  QUARTERLY: 'per quarter',
+  YEARLY: 'per year',
+};
+
+/**
+ * Describe a contract's inclusive hours for documents, e.g. "10 hours per month"
+ *
+ * @param hours - Inclusive hours, or null when none are agreed
+ * @param period - Period the hours cover
+ * @returns Description, or null when no hours are agreed
+ */
+export function describeInclusiveHours(
+  hours: number | null,
+  period: HoursPeriodValue | null
+): string | null {
+  if (hours === null) return null;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}${period ? ` ${HOURS_PERIOD_TEXT[period]}` : ''}`;
+}
+
+/**
+ * Describe a contract's extra rate for documents, e.g. "£65.00 per hour"
+ *
+ * Business Rules:
+ * - A rate marked as not needed is described as such, whatever amount is stored
+ *
+ * @param rate - Rate in pounds, or null when none is agreed
+ * @param unit - What the rate is charged per (mileage and overnight rates have none)
+ * @param notNeeded - Whether the rate was marked as not needed
+ * @returns Description, or null when no rate is agreed
+ */
+export function describeContractRate(
+  rate: number | null,
+  unit: RateUnitValue | null,
+  notNeeded: boolean
+): string | null {
+  if (notNeeded) return 'Not applicable';
+  if (rate === null) return null;
+
+  const amount = rate.toLocaleString('en-GB', { style: 'currency', currency: 'GBP' });
+  return unit ? `${amount} per ${unit === 'HOURLY' ? 'hour' : 'day'}` : amount;
+}
@@ -0,0 +1,231 @@
+/**
+ * Document template business utility functions
+ * The merge fields each kind of template can use and the rules for filling them in
+ */
+
+/**
+ * Record a template generates from (mirrors Prisma DocumentTemplateEntity enum)
+ */
+export type DocumentTemplateEntityValue = 'CLIENT' | 'CONTRACT' | 'CASE';
+
+export const DOCUMENT_TEMPLATE_ENTITY_LABELS: Record<DocumentTemplateEntityValue, string> = {
+  CLIENT: 'Client',
+  CONTRACT: 'Contract',
+  CASE: 'Case',
+};
+
+/**
+ * A merge field - written in a template as {{key}}
+ */
+export interface MergeFieldDefinition {
+  key: string;
+  label: string;
+}
+
+/**
+ * Merge fields shown together in the template editor
+ */
+export interface MergeFieldGroup {
+  label: string;
+  fields: MergeFieldDefinition[];
+}
+
+/**
+ * Merge field values by key - null when the record has no value
+ */
+export type MergeValues = Record<string, string | null>;
+
+const GENERAL_FIELDS: MergeFieldGroup = {
+  label: 'General',
+  fields: [
+    { key: 'today', label: "Today's date" },
+    { key: 'sender.name', label: 'Your name' },
+  ],
+};
+
+const CLIENT_FIELDS: MergeFieldGroup = {
+  label: 'Client',
+  fields: [
+    { key: 'client.companyName', label: 'Company name' },
+    { key: 'client.businessId', label: 'Business ID' },
+    { key: 'client.sector', label: 'Sector' },
+    { key: 'client.serviceTier', label: 'Service tier' },
+    { key: 'client.contractStartDate', label: 'Contract start date' },
+    { key: 'client.contractRenewalDate', label: 'Contract renewal date' },
+    { key: 'client.monthlyRetainer', label: 'Monthly retainer' },
+  ],
+};
+
+const CONTACT_FIELDS: MergeFieldGroup = {
+  label: 'Service Contact',
+  fields: [
+    { key: 'contact.name', label: 'Name' },
+    { key: 'contact.email', label: 'Email' },
+    { key: 'contact.phone', label: 'Phone' },
+    { key: 'contact.role', label: 'Role' },
+  ],
+};
+
+const ADDRESS_FIELDS: MergeFieldGroup = {
+  label: 'Service Address',
+  fields: [
+    { key: 'address.block', label: 'Full address, one line per part' },
+    { key: 'address.line1', label: 'Address line 1' },
+    { key: 'address.line2', label: 'Address line 2' },
+    { key: 'address.city', label: 'City' },
+    { key: 'address.postcode', label: 'Postcode' },
+    { key: 'address.country', label: 'Country' },
+  ],
+};
+
+const CONTRACT_FIELDS: MergeFieldGroup = {
+  label: 'Contract',
+  fields: [
+    { key: 'contract.number', label: 'Contract number' },
+    { key: 'contract.version', label: 'Version' },
+    { key: 'contract.status', label: 'Status' },
+    { key: 'contract.startDate', label: 'Start date' },
+    { key: 'contract.renewalDate', label: 'Renewal date' },
+    { key: 'contract.hrAdminHours', label: 'HR admin inclusive hours' },
+    { key: 'contract.employmentLawHours', label: 'Employment law inclusive hours' },
+    { key: 'contract.servicesInScope', label: 'Services in scope' },
+    { key: 'contract.servicesOutOfScope', label: 'Services out of scope' },
+    { key: 'contract.hrAdminRate', label: 'HR admin rate' },
+    { key: 'contract.employmentLawRate', label: 'Employment law rate' },
+    { key: 'contract.mileageRate', label: 'Mileage rate' },
+    { key: 'contract.overnightRate', label: 'Overnight rate' },
+  ],
+};
+
+const CASE_FIELDS: MergeFieldGroup = {
+  label: 'Case',
+  fields: [
+    { key: 'case.id', label: 'Case ID' },
+    { key: 'case.title', label: 'Title' },
+    { key: 'case.type', label: 'Case type' },
+    { key: 'case.status', label: 'Status' },
+    { key: 'case.escalatedBy', label: 'Escalated by' },
+    { key: 'case.assignedTo', label: 'Assigned to' },
+    { key: 'case.employeeName', label: 'Employee name' },
+    { key: 'case.description', label: 'Description' },
+  ],
+};
+
+/**
+ * Merge fields available to each kind of template
+ */
+export const MERGE_FIELD_GROUPS: Record<DocumentTemplateEntityValue, MergeFieldGroup[]> = {
+  CLIENT: [GENERAL_FIELDS, CLIENT_FIELDS, CONTACT_FIELDS, ADDRESS_FIELDS],
+  CONTRACT: [GENERAL_FIELDS, CLIENT_FIELDS, CONTACT_FIELDS, ADDRESS_FIELDS, CONTRACT_FIELDS],
+  CASE: [GENERAL_FIELDS, CLIENT_FIELDS, CONTACT_FIELDS, ADDRESS_FIELDS, CASE_FIELDS],
+};
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+/**
+ * Merge fields used in a template
+ *
+ * Business Rules:
+ * - A merge field is a key in double braces, e.g. {{client.companyName}}
+ * - Spaces inside the braces are ignored
+ * - Each key is listed once, in the order it first appears
+ *
+ * @param body - Template HTML
+ * @returns Keys of the merge fields used
+ */
+export function findMergeFields(body: string): string[] {
+  const keys = Array.from(body.matchAll(MERGE_FIELD_PATTERN), (match) => match[1]);
+  return [...new Set(keys)];
+}
+
+/**
+ * Merge fields a template uses that its kind of template does not have
+ *
+ * @param entityType - Record the template generates from
+ * @param body - Template HTML
+ * @returns Unknown keys, empty when the template is valid
+ */
+export function getUnknownMergeFields(
+  entityType: DocumentTemplateEntityValue,
+  body: string
+): string[] {
+  const known = new Set(
+    MERGE_FIELD_GROUPS[entityType].flatMap((group) => group.fields.map((field) => field.key))
+  );
+
+  return findMergeFields(body).filter((key) => !known.has(key));
+}
+
+/**
+ * Escape text for use in HTML, keeping its line breaks
+ *
+ * @param value - Plain text, e.g. a merge field value
+ * @returns HTML that displays the text exactly as written
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Fill in a template's merge fields
+ *
+ * Business Rules:
+ * - Each merge field is replaced with its value, escaped so a value can never add markup
+ *   to the document (a company name containing "<" is shown as written)
+ * - A field with no value is left blank and reported as missing, so the document can
+ *   still be produced and the gap pointed out
+ *
+ * @param body - Template HTML
+ * @param values - Merge field values by key
+ * @returns The filled-in HTML and the keys that had no value
+ */
+export function renderMergeFields(
+  body: string,
+  values: MergeValues
+): { html: string; missing: string[] } {
+  const missing = new Set<string>();
+
+  const html = body.replace(MERGE_FIELD_PATTERN, (_match, key: string) => {
+    const value = values[key];
+    if (value === null || value === undefined || value === '') {
+      missing.add(key);
+      return '';
+    }
+    return escapeHtml(value);
+  });
+
+  return { html, missing: [...missing] };
+}
+
+/**
+ * Date as it is written in letters, e.g. 19 October 2026
+ *
+ * @param date - Date to format, or null
+ * @returns Formatted date, or null when there is no date
+ */
+export function formatMergeDate(date: Date | null): string | null {
+  if (!date) return null;
+  return date.toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Amount in pounds as it is written in letters, e.g. £1,250.00
+ *
+ * @param amount - Amount to format, or null
+ * @returns Formatted amount, or null when there is no amount
+ */
+export function formatMergeMoney(amount: number | null): string | null {
+  if (amount === null) return null;
+  return amount.toLocaleString('en-GB', { style: 'currency', currency: 'GBP' });
+}
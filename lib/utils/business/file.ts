@@ -0,0 +1,42 @@
+/**
+ * File-related business utility functions
+ * Pure business logic without presentation concerns
+ */
+
+/**
+ * Content types that may be rendered inline in the browser
+ * SVG and HTML are excluded as they can carry script
+ */
+const PREVIEWABLE_CONTENT_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+/**
+ * Check whether a file can be previewed inline
+ *
+ * @param contentType - MIME type of the stored file
+ * @returns True for PDFs and raster images
+ */
+export function isPreviewableContentType(contentType: string | null | undefined): boolean {
+  return !!contentType && PREVIEWABLE_CONTENT_TYPES.includes(contentType.toLowerCase());
+}
+
+/**
+ * Check whether a previewable file is an image (as opposed to a PDF)
+ */
+export function isImageContentType(contentType: string | null | undefined): boolean {
+  return isPreviewableContentType(contentType) && contentType!.toLowerCase().startsWith('image/');
+}
+
+/**
+ * Format a file size in bytes for display (e.g., "1.2 MB")
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Internal document business utility functions
+ * Pure business logic without presentation concerns
+ */
+
+/**
+ * Build an internal document or archive number
+ * Format: {prefix}-{officeId}-{paddedClientId}-{sequential}, e.g. INT-1-001-001
+ * Company-wide documents use client 000, e.g. INT-1-000-001
+ */
+export function formatInternalNumber(
+  prefix: 'INT' | 'ARC',
+  clientId: number | null,
+  sequence: number
+): string {
+  const officeId = 1; // Single office/branch
+  return `${prefix}-${officeId}-${String(clientId ?? 0).padStart(3, '0')}-${String(sequence).padStart(3, '0')}`;
+}
+
+/**
+ * Read the sequential part of an internal or archive number
+ * Returns 0 when the number is missing or malformed
+ */
+export function parseInternalSequence(number: string | null | undefined): number {
+  const sequence = parseInt(number?.split('-').pop() || '', 10);
+  return isNaN(sequence) ? 0 : sequence;
+}
+
+/**
+ * Format a version number for display, e.g. V2
+ */
+export function formatInternalVersion(version: number): string {
+  return `V${version}`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Policy-related business utility functions
+ * Pure business logic without presentation concerns
+ */
+
+/**
+ * Check whether an issued policy or handbook has passed its review date
+ *
+ * Business Rules:
+ * - Only ISSUED versions are reviewed (drafts and superseded versions are not in force)
+ * - Overdue once the review date is before today
+ *
+ * @param status - Version status
+ * @param nextReviewDate - Review date (Date object or ISO string)
+ * @param today - Reference date (defaults to now)
+ */
+export function isOverdueForReview(
+  status: string,
+  nextReviewDate: Date | string | null,
+  today: Date = new Date()
+): boolean {
+  if (status !== 'ISSUED' || !nextReviewDate) {
+    return false;
+  }
+
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return new Date(nextReviewDate) < startOfToday;
+}
+
+/**
+ * Build a policy or handbook number
+ * Format: {prefix}-{officeId}-{paddedClientId}-{sequential}, e.g. POL-1-001-001
+ */
+export function formatPolicyNumber(
+  prefix: 'POL' | 'HAN',
+  clientId: number,
+  sequence: number
+): string {
+  const officeId = 1; // Single office/branch
+  return `${prefix}-${officeId}-${String(clientId).padStart(3, '0')}-${String(sequence).padStart(3, '0')}`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Time tracking business utility functions
+ * Pure business logic for reconciling time entries against contract inclusive hours
+ */
+
+/**
+ * Inclusive hours period (mirrors Prisma HoursPeriod enum)
+ */
+export type HoursPeriodValue = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+/**
+ * Rate unit (mirrors Prisma RateUnit enum)
+ */
+export type RateUnitValue = 'HOURLY' | 'DAILY';
+
+/**
+ * Number of working hours in a day, used to convert daily rates to hourly
+ */
+export const WORKING_HOURS_PER_DAY = 7.5;
+
+/**
+ * Get the start and end of the period containing a reference date
+ *
+ * Business Rules:
+ * - WEEKLY: Monday to Sunday
+ * - MONTHLY: Calendar month
+ * - QUARTERLY: Calendar quarter (Jan-Mar, Apr-Jun, Jul-Sep, Oct-Dec)
+ * - YEARLY: Contract year, anchored to the contract start date
+ *
+ * @param period - Inclusive hours period
+ * @param referenceDate - Date the period should contain
+ * @param contractStartDate - Contract start date (anchors the contract year)
+ * @returns Inclusive start and exclusive end of the period
+ */
+export function getPeriodBounds(
+  period: HoursPeriodValue,
+  referenceDate: Date,
+  contractStartDate: Date
+): { start: Date; end: Date } {
+  const year = referenceDate.getFullYear();
+  const month = referenceDate.getMonth();
+
+  switch (period) {
+    case 'WEEKLY': {
+      // getDay() is 0 for Sunday - shift so Monday is the first day of the week
+      const daysSinceMonday = (referenceDate.getDay() + 6) % 7;
+      const start = new Date(year, month, referenceDate.getDate() - daysSinceMonday);
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+      return { start, end };
+    }
+
+    case 'MONTHLY':
+      return { start: new Date(year, month, 1), end: new Date(year, month + 1, 1) };
+
+    case 'QUARTERLY': {
+      const quarterStartMonth = Math.floor(month / 3) * 3;
+      return {
+        start: new Date(year, quarterStartMonth, 1),
+        end: new Date(year, quarterStartMonth + 3, 1),
+      };
+    }
+
+    case 'YEARLY': {
+      const anniversaryMonth = contractStartDate.getMonth();
+      const anniversaryDay = contractStartDate.getDate();
+      let start = new Date(year, anniversaryMonth, anniversaryDay);
+      if (start > referenceDate) {
+        start = new Date(year - 1, anniversaryMonth, anniversaryDay);
+      }
+      const end = new Date(start.getFullYear() + 1, anniversaryMonth, anniversaryDay);
+      return { start, end };
+    }
+  }
+}
+
+/**
+ * Convert a contract rate to an hourly rate
+ *
+ * @param rate - Rate as stored on the contract
+ * @param unit - Rate unit (defaults to hourly when not set)
+ * @returns Hourly rate
+ */
+export function toHourlyRate(rate: number, unit: RateUnitValue | null): number {
+  return unit === 'DAILY' ? rate / WORKING_HOURS_PER_DAY : rate;
+}
+
+/**
+ * Reconcile hours used against hours included for a period
+ *
+ * Business Rules:
+ * - Only billable time counts against inclusive hours
+ * - Overage is billable time above the inclusive allowance
+ * - Overage cost is charged at the out-of-scope rate (converted to hourly)
+ * - No inclusive hours on the contract means all billable time is overage
+ *
+ * @param usedMinutes - Billable minutes recorded in the period
+ * @param includedHours - Inclusive hours on the contract (null if not set)
+ * @param rate - Out-of-scope rate (null if not set)
+ * @param rateUnit - Out-of-scope rate unit
+ * @returns Hours used, included, remaining and overage with its cost
+ */
+export function calculateHoursUsage(
+  usedMinutes: number,
+  includedHours: number | null,
+  rate: number | null,
+  rateUnit: RateUnitValue | null
+): {
+  usedHours: number;
+  includedHours: number;
+  remainingHours: number;
+  overageHours: number;
+  overageCost: number | null;
+} {
+  const usedHours = roundHours(usedMinutes / 60);
+  const included = includedHours ?? 0;
+  const overageHours = roundHours(Math.max(usedHours - included, 0));
+  const remainingHours = roundHours(Math.max(included - usedHours, 0));
+  const overageCost =
+    rate !== null ? Math.round(overageHours * toHourlyRate(rate, rateUnit) * 100) / 100 : null;
+
+  return {
+    usedHours,
+    includedHours: included,
+    remainingHours,
+    overageHours,
+    overageCost,
+  };
+}
+
+/**
+ * Round hours to two decimal places
+ */
+function roundHours(hours: number): number {
+  return Math.round(hours * 100) / 100;
+}
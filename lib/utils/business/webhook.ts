@@ -0,0 +1,62 @@
+/**
+ * Webhook business utility functions
+ * The record summaries sent in webhook payloads - a stable subset of each
+ * record, so receivers are not affected by internal schema changes
+ */
+
+import type { Case, CaseInteraction, Client, Contract } from '@prisma/client';
+
+/**
+ * Client summary for client.* events
+ */
+export function toClientWebhookData(client: Client) {
+  return {
+    id: client.id,
+    companyName: client.companyName,
+    clientType: client.clientType,
+    serviceTier: client.serviceTier,
+    status: client.status,
+  };
+}
+
+/**
+ * Contract summary for contract.* events
+ */
+export function toContractWebhookData(contract: Contract) {
+  return {
+    id: contract.id,
+    contractNumber: contract.contractNumber,
+    clientId: contract.clientId,
+    status: contract.status,
+    contractStartDate: contract.contractStartDate,
+    contractRenewalDate: contract.contractRenewalDate,
+  };
+}
+
+/**
+ * Case summary for case.* events
+ */
+export function toCaseWebhookData(caseRecord: Case) {
+  return {
+    id: caseRecord.id,
+    caseId: caseRecord.caseId,
+    clientId: caseRecord.clientId,
+    title: caseRecord.title,
+    type: caseRecord.type,
+    status: caseRecord.status,
+    outcome: caseRecord.outcome,
+    assignedTo: caseRecord.assignedTo,
+  };
+}
+
+/**
+ * Action summary for case.action_due_date_set
+ */
+export function toActionWebhookData(interaction: CaseInteraction) {
+  return {
+    interactionId: interaction.id,
+    actionRequired: interaction.actionRequired,
+    actionRequiredBy: interaction.actionRequiredBy,
+    actionRequiredByDate: interaction.actionRequiredByDate,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * API Key Utility
+ * Infrastructure layer - key generation and authentication for the /api/v1 external API
+ *
+ * Keys are shown once when created; only a SHA-256 hash is stored. A key is
+ * sent as `Authorization: Bearer <key>` or in the `X-API-Key` header.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+import { prisma } from '@/lib/database';
+
+import { isApiKeyScope } from './api-scopes';
+
+import type { ApiKeyPrincipal } from '@/lib/types/api-key';
+
+/**
+ * Every key starts with this, so leaked keys are easy to recognise
+ */
+const API_KEY_PREFIX = 'argan_';
+
+/**
+ * Characters of the key stored and shown so admins can tell keys apart
+ */
+const DISPLAY_PREFIX_LENGTH = 14;
+
+/**
+ * Minimum time between last-used updates for the same key
+ */
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Generate a new API key with its display prefix and hash
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/**
+ * Hash an API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Read the API key sent with a request, if any
+ */
+export function readApiKey(headers: Headers): string | null {
+  const authorization = headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  return headers.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Look up an API key
+ * Returns null for unknown, revoked and expired keys; records when and where a valid key was used
+ */
+export async function authenticateApiKey(
+  key: string,
+  ipAddress: string | null
+): Promise<ApiKeyPrincipal | null> {
+  if (!key.startsWith(API_KEY_PREFIX)) return null;
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashApiKey(key) },
+    select: {
+      id: true,
+      name: true,
+      scopes: true,
+      expiresAt: true,
+      revokedAt: true,
+      lastUsedAt: true,
+    },
+  });
+
+  const now = new Date();
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+    return null;
+  }
+
+  // Throttled so busy integrations don't write on every request
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: now, lastUsedIp: ipAddress },
+    });
+  }
+
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    scopes: apiKey.scopes.filter(isApiKeyScope),
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * API Request Utility
+ * Infrastructure layer - reading and validating /api/v1 request input
+ *
+ * Invalid input throws ValidationError / FieldValidationError, which the
+ * error handling middleware turns into a 400 response
+ */
+
+import { FieldValidationError, ValidationError } from '@/lib/errors';
+
+import type { z } from 'zod';
+
+/**
+ * Read a JSON request body
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+}
+
+/**
+ * Read a raw (non-JSON) request body, such as an uploaded email message
+ */
+export async function readRawBody(request: Request): Promise<Uint8Array> {
+  const body = new Uint8Array(await request.arrayBuffer());
+
+  if (body.length === 0) {
+    throw new ValidationError('Request body is empty');
+  }
+
+  return body;
+}
+
+/**
+ * Validate input against a schema, reporting every invalid field
+ */
+export function parseInput<T extends z.ZodType>(schema: T, input: unknown): z.output<T> {
+  const result = schema.safeParse(input);
+
+  if (!result.success) {
+    throw new FieldValidationError(
+      result.error.issues.map((issue) => ({
+        field: issue.path.map(String).join('.') || '(body)',
+        message: issue.message,
+        code: issue.code,
+      }))
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Parse a numeric ID from a route parameter
+ */
+export function parseIdParam(value: string, label: string): number {
+  const id = Number(value);
+
+  if (!Number.isInteger(id) || id < 1) {
+    throw new ValidationError(`Invalid ${label} ID`);
+  }
+
+  return id;
+}
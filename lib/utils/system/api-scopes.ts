@@ -0,0 +1,38 @@
+/**
+ * API key scopes for the /api/v1 external API
+ * Pure data - safe to use in Server and Client Components
+ *
+ * Endpoints declare the scopes they need with withApiKey; SUPER_ADMINs
+ * pick a key's scopes when creating it
+ */
+
+/**
+ * Every scope a key can hold
+ */
+export const API_KEY_SCOPES = [
+  'clients:read',
+  'clients:write',
+  'cases:read',
+  'cases:write',
+  'emails:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * What each scope allows, shown when creating a key
+ */
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'clients:read': 'List and read clients',
+  'clients:write': 'Create and update clients',
+  'cases:read': 'List and read cases',
+  'cases:write': 'Create and update cases',
+  'emails:write': 'Import raw emails to be filed against cases',
+};
+
+/**
+ * Check whether a string is a known scope
+ */
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
@@ -68,6 +68,7 @@ export const config = {
     isProduction: getEnvironment() === 'production',
     isTest: getEnvironment() === 'test',
     port: getEnvNumber('PORT', 3000),
+    url: getEnv('APP_URL', 'http://localhost:3000'), // Public base URL used in emailed links
   },
 
   /**
@@ -85,16 +86,68 @@ export const config = {
   auth: {
     sessionSecret: requireEnv('ADMIN_SESSION_SECRET'),
     sessionDuration: getEnvNumber('SESSION_DURATION', 86400), // 24 hours default
+    sessionIdleTimeout: getEnvNumber('SESSION_IDLE_TIMEOUT', 3600), // 1 hour without activity
     jwtSecret: getEnv('JWT_SECRET', ''), // Optional - only if using JWT
+    passwordResetExpiry: getEnvNumber('PASSWORD_RESET_EXPIRY', 3600), // 1 hour
+    passwordHistoryDepth: getEnvNumber('PASSWORD_HISTORY_DEPTH', 5), // Recent passwords that cannot be reused
   },
 
   /**
    * API configuration
+   * RATE_LIMIT_STORE selects where counters live: 'postgres' (shared by every instance) or 'memory' (tests)
    */
   api: {
     version: getEnv('API_VERSION', 'v2.0'),
     rateLimitWindow: getEnvNumber('RATE_LIMIT_WINDOW', 60), // 60 seconds
     rateLimitMax: getEnvNumber('RATE_LIMIT_MAX', 100), // 100 requests per window
+    rateLimitIpMax: getEnvNumber('RATE_LIMIT_IP_MAX', 300), // Per IP before API keys are checked
+    rateLimitStore: getEnv(
+      'RATE_LIMIT_STORE',
+      getEnvironment() === 'test' ? 'memory' : 'postgres'
+    ) as 'postgres' | 'memory',
+    rateLimitAlgorithm: getEnv('RATE_LIMIT_ALGORITHM', 'sliding') as 'fixed' | 'sliding',
+  },
+
+  /**
+   * File storage configuration
+   * STORAGE_DRIVER selects the backend: 's3' for production, 'local' for dev/test
+   */
+  storage: {
+    driver: getEnv('STORAGE_DRIVER', getEnvironment() === 'production' ? 's3' : 'local') as
+      | 's3'
+      | 'local',
+    s3Bucket: getEnv('S3_BUCKET', ''),
+    s3Region: getEnv('AWS_REGION', 'eu-west-2'),
+    localDirectory: getEnv('LOCAL_STORAGE_DIR', '.storage'),
+    uploadUrlExpiry: getEnvNumber('UPLOAD_URL_EXPIRY', 300), // 5 minutes
+    maxUploadBytes: getEnvNumber('MAX_UPLOAD_BYTES', 25 * 1024 * 1024), // 25 MB
+  },
+
+  /**
+   * Outgoing email configuration
+   * MAIL_DRIVER selects the transport: 'smtp' for production, 'console' or 'file' for dev/test
+   */
+  mail: {
+    driver: getEnv('MAIL_DRIVER', getEnvironment() === 'production' ? 'smtp' : 'console') as
+      | 'smtp'
+      | 'console'
+      | 'file',
+    from: getEnv('MAIL_FROM', 'Argan HR <no-reply@localhost>'),
+    smtpHost: getEnv('SMTP_HOST', ''),
+    smtpPort: getEnvNumber('SMTP_PORT', 587),
+    smtpUser: getEnv('SMTP_USER', ''),
+    smtpPassword: getEnv('SMTP_PASSWORD', ''),
+    fileDirectory: getEnv('MAIL_FILE_DIR', '.mail'),
+  },
+
+  /**
+   * Outbound webhook configuration
+   * CRON_SECRET protects the endpoint a scheduler calls to send due retries
+   */
+  webhooks: {
+    timeoutMs: getEnvNumber('WEBHOOK_TIMEOUT_MS', 10000), // 10 seconds per attempt
+    maxAttempts: getEnvNumber('WEBHOOK_MAX_ATTEMPTS', 8), // About 2 hours of retries
+    cronSecret: getEnv('CRON_SECRET', ''), // Optional - retry endpoint is disabled without it
   },
 
   /**
@@ -119,6 +172,22 @@ function validateConfig(): void {
     void config.database.url;
     void config.auth.sessionSecret;
 
+    // Production files must be shared by every instance - the local disk is not
+    if (config.app.isProduction && (config.storage.driver !== 's3' || !config.storage.s3Bucket)) {
+      throw new Error(
+        'File storage is not configured for production\n' +
+          'Set STORAGE_DRIVER=s3 and S3_BUCKET in your environment configuration.'
+      );
+    }
+
+    // Production must send real email - other transports would log or drop reset links
+    if (config.app.isProduction && (config.mail.driver !== 'smtp' || !config.mail.smtpHost)) {
+      throw new Error(
+        'Outgoing email is not configured for production\n' +
+          'Set MAIL_DRIVER=smtp and SMTP_HOST in your environment configuration.'
+      );
+    }
+
     // If we get here, all required config is present
     if (config.app.isDevelopment) {
       console.log('✓ Configuration validated successfully');
@@ -24,10 +24,37 @@ export {
 export { logger, logDebug, logInfo, logWarn, logError, type LogLevel } from './logger';
 
 // Password utilities
-export { hashPassword, verifyPassword } from './password';
+export {
+  hashPassword,
+  verifyPassword,
+  validatePasswordStrength,
+  generatePasswordResetToken,
+  hashPasswordResetToken,
+  PASSWORD_POLICY_MESSAGE,
+} from './password';
 
 // Rate limiting
-export { checkLoginRateLimit, recordFailedLogin, resetLoginAttempts } from './rate-limit';
+export {
+  checkLoginRateLimit,
+  recordFailedLogin,
+  resetLoginAttempts,
+  isLoginLocked,
+  unlockLogin,
+} from './rate-limit';
+
+// Security events
+export { recordSecurityEvent } from './security-events';
+
+// Two-factor authentication
+export {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  encryptTotpSecret,
+  decryptTotpSecret,
+} from './totp';
 
 // HTTP response utilities
 export {
@@ -39,4 +66,11 @@ export {
 } from './response';
 
 // Session management
-export { createAdminSession, validateSession, clearAdminSession } from './session';
+export {
+  createAdminSession,
+  validateSession,
+  clearAdminSession,
+  getActiveSessions,
+  revokeSession,
+  revokeAdminSessions,
+} from './session';
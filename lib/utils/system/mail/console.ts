@@ -0,0 +1,28 @@
+/**
+ * Console Mail Transport
+ * Logs messages instead of sending them, so links can be copied in development
+ * The body is never logged in production, as it can hold reset links
+ */
+
+import { config } from '../config';
+import { logger } from '../logger';
+
+import type { MailMessage, MailTransport } from './index';
+
+/**
+ * Console mail backend
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly driver = 'console' as const;
+
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`Email to ${message.to}: ${message.subject}`, {
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      ...(!config.app.isProduction && { text: message.text }),
+    });
+  }
+}
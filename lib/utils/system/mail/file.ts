@@ -0,0 +1,50 @@
+/**
+ * File Mail Transport
+ * Saves each message as an .eml file that any mail client can open
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+import type { MailMessage, MailTransport } from './index';
+
+/**
+ * File mail backend
+ * Files are named by timestamp so the newest message sorts last
+ */
+export class FileMailTransport implements MailTransport {
+  readonly driver = 'file' as const;
+  private readonly root: string;
+
+  constructor(
+    private readonly from: string,
+    directory: string
+  ) {
+    this.root = path.resolve(directory);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.root, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`;
+    await writeFile(path.join(this.root, fileName), this.toEml(message), 'utf8');
+  }
+
+  /**
+   * Build a minimal RFC 5322 message (plain text only)
+   */
+  private toEml(message: MailMessage): string {
+    const headers = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+
+    return `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}\r\n`;
+  }
+}
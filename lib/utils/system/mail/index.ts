@@ -0,0 +1,67 @@
+/**
+ * Outgoing Mail
+ * Infrastructure layer - pluggable transport for system emails
+ *
+ * Transports:
+ * - smtp: Any SMTP server or relay (production)
+ * - console: Writes messages to the log (dev default)
+ * - file: Saves each message as a .eml file for inspection (dev/test)
+ *
+ * Usage:
+ * const mailer = getMailTransport()
+ * await mailer.send({ to, subject, text })
+ */
+
+import { config } from '../config';
+
+import { ConsoleMailTransport } from './console';
+import { FileMailTransport } from './file';
+import { SmtpMailTransport } from './smtp';
+
+/**
+ * A plain-text email, with an optional HTML alternative
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Mail transport contract
+ */
+export interface MailTransport {
+  readonly driver: 'smtp' | 'console' | 'file';
+
+  /**
+   * Send a message from the configured MAIL_FROM address
+   */
+  send(message: MailMessage): Promise<void>;
+}
+
+let transportInstance: MailTransport | null = null;
+
+/**
+ * Get the configured mail transport (singleton)
+ */
+export function getMailTransport(): MailTransport {
+  if (!transportInstance) {
+    switch (config.mail.driver) {
+      case 'smtp':
+        transportInstance = new SmtpMailTransport(config.mail.from);
+        break;
+      case 'file':
+        transportInstance = new FileMailTransport(config.mail.from, config.mail.fileDirectory);
+        break;
+      default:
+        transportInstance = new ConsoleMailTransport(config.mail.from);
+    }
+  }
+
+  return transportInstance;
+}
+
+export { ConsoleMailTransport } from './console';
+export { FileMailTransport } from './file';
+export { SmtpMailTransport } from './smtp';
@@ -0,0 +1,46 @@
+/**
+ * SMTP Mail Transport
+ * Sends through any SMTP server or relay using nodemailer
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer';
+
+import { ConfigurationError } from '@/lib/errors/system';
+
+import { config } from '../config';
+
+import type { MailMessage, MailTransport } from './index';
+
+/**
+ * SMTP mail backend
+ * Port 465 uses implicit TLS; other ports upgrade with STARTTLS when the server offers it
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly driver = 'smtp' as const;
+  private readonly transporter: Transporter;
+
+  constructor(private readonly from: string) {
+    if (!config.mail.smtpHost) {
+      throw new ConfigurationError('SMTP_HOST must be set when MAIL_DRIVER is smtp');
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: config.mail.smtpHost,
+      port: config.mail.smtpPort,
+      secure: config.mail.smtpPort === 465,
+      ...(config.mail.smtpUser && {
+        auth: { user: config.mail.smtpUser, pass: config.mail.smtpPassword },
+      }),
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
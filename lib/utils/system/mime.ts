@@ -0,0 +1,469 @@
+/**
+ * MIME Email Parsing
+ * Infrastructure layer - reads a raw RFC 5322 message (.eml) into its headers, text and attachments
+ *
+ * Supports:
+ * - Nested multipart bodies (mixed, alternative, related)
+ * - base64 and quoted-printable transfer encodings, decoded with the declared charset
+ * - RFC 2047 encoded headers (=?UTF-8?B?...?=) and RFC 2231 file names (filename*=UTF-8''...)
+ *
+ * Usage:
+ * const email = parseEmail(new Uint8Array(await file.arrayBuffer()))
+ */
+
+import { ValidationError } from '@/lib/errors';
+
+/**
+ * A mailbox from an address header
+ */
+export interface EmailAddress {
+  name: string | null;
+  address: string;
+}
+
+/**
+ * A file attached to the message (inline images included)
+ */
+export interface EmailAttachment {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * The parts of a message needed to file it
+ */
+export interface ParsedEmail {
+  messageId: string | null;
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  date: Date | null;
+  text: string; // Plain text body, converted from HTML when there is no text part
+  attachments: EmailAttachment[];
+}
+
+type HeaderMap = Map<string, string[]>;
+
+/**
+ * One MIME entity - body is a binary (latin1) string until it is decoded
+ */
+interface MimeEntity {
+  headers: HeaderMap;
+  body: string;
+}
+
+/**
+ * A header value split into its main value and parameters (e.g. Content-Type)
+ */
+interface HeaderWithParams {
+  value: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Decode bytes with a charset label, falling back to UTF-8 for unknown labels
+ */
+function decodeBytes(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder(charset?.trim() || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+/**
+ * Split an entity into headers and body, unfolding continued header lines
+ */
+function parseEntity(raw: string): MimeEntity {
+  const headers: HeaderMap = new Map();
+
+  // A part that starts with a blank line has no headers
+  if (/^\r?\n/.test(raw)) {
+    return { headers, body: raw.replace(/^\r?\n/, '') };
+  }
+
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+
+  const lines: string[] = [];
+  for (const line of headerBlock.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1] += ` ${line.trim()}`;
+    } else if (!line.startsWith('From ')) {
+      // "From " (no colon) is an mbox envelope line, not a header
+      lines.push(line);
+    }
+  }
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [...(headers.get(name) ?? []), line.slice(colon + 1).trim()]);
+  }
+
+  return { headers, body };
+}
+
+/**
+ * Get the first value of a header, or null
+ */
+function getHeader(headers: HeaderMap, name: string): string | null {
+  return headers.get(name)?.[0] ?? null;
+}
+
+/**
+ * Decode a header value: raw UTF-8 bytes and RFC 2047 encoded words
+ */
+function decodeHeader(value: string): string {
+  const encodedWord = /=\?([^?\s]+)\?([BbQq])\?([^?]*)\?=/g;
+
+  // Unencoded 8-bit headers are almost always UTF-8
+  const text = /[\x80-\xff]/.test(value) ? Buffer.from(value, 'latin1').toString('utf8') : value;
+
+  return (
+    text
+      // Whitespace between adjacent encoded words is not part of the text
+      .replace(/(=\?[^?\s]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?\s]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+      .replace(encodedWord, (_match, charset: string, encoding: string, encoded: string) => {
+        const bytes =
+          encoding.toUpperCase() === 'B'
+            ? Buffer.from(encoded, 'base64')
+            : Buffer.from(
+                encoded
+                  .replace(/_/g, ' ')
+                  .replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+                    String.fromCharCode(parseInt(code, 16))
+                  ),
+                'latin1'
+              );
+
+        // A charset may carry a language suffix (UTF-8*en)
+        return decodeBytes(bytes, charset.split('*')[0]);
+      })
+  );
+}
+
+/**
+ * Split a header on a delimiter, ignoring delimiters inside quotes, <> and ()
+ */
+function splitOutsideQuotes(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let depth = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+
+    if (char === '\\' && quoted) {
+      current += char + (value[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && (char === '<' || char === '(')) depth++;
+    if (!quoted && (char === '>' || char === ')')) depth = Math.max(0, depth - 1);
+
+    if (char === delimiter && !quoted && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Remove surrounding quotes and backslash escapes
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2
+    ? trimmed.slice(1, -1).replace(/\\(.)/g, '$1')
+    : trimmed;
+}
+
+/**
+ * Parse a header such as Content-Type or Content-Disposition into its value and parameters
+ * RFC 2231 continuations (name*0, name*1) and charset-encoded values (name*=UTF-8''...) are joined
+ */
+function parseHeaderWithParams(header: string | null): HeaderWithParams {
+  const [value = '', ...rawParams] = splitOutsideQuotes(header ?? '', ';');
+  const segments = new Map<string, { index: number; extended: boolean; value: string }[]>();
+
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf('=');
+    if (equals <= 0) continue;
+
+    const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(rawParam.slice(0, equals).trim().toLowerCase());
+    if (!match) continue;
+
+    const [, name, index, extended] = match;
+    segments.set(name, [
+      ...(segments.get(name) ?? []),
+      {
+        index: index ? parseInt(index, 10) : 0,
+        extended: Boolean(extended),
+        value: unquote(rawParam.slice(equals + 1)),
+      },
+    ]);
+  }
+
+  const params: Record<string, string> = {};
+
+  for (const [name, parts] of segments) {
+    parts.sort((a, b) => a.index - b.index);
+
+    if (!parts.some((part) => part.extended)) {
+      params[name] = decodeHeader(parts.map((part) => part.value).join(''));
+      continue;
+    }
+
+    // charset'language'percent-encoded-value - the charset is only on the first segment
+    let charset = 'utf-8';
+    const bytes = parts.map((part, position) => {
+      let encoded = part.value;
+      if (part.extended && position === 0) {
+        const [declaredCharset, , ...rest] = encoded.split("'");
+        charset = declaredCharset || charset;
+        encoded = rest.join("'");
+      }
+      return part.extended
+        ? Buffer.from(
+            encoded.replace(/%([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+              String.fromCharCode(parseInt(code, 16))
+            ),
+            'latin1'
+          )
+        : Buffer.from(encoded, 'latin1');
+    });
+
+    params[name] = decodeBytes(Buffer.concat(bytes), charset);
+  }
+
+  return { value: value.toLowerCase(), params };
+}
+
+/**
+ * Parse an address header (From, To, Cc) into mailboxes
+ * Group syntax ("Team: a@example.com, b@example.com;") is flattened
+ */
+function parseAddressList(header: string | null): EmailAddress[] {
+  if (!header) return [];
+
+  return splitOutsideQuotes(decodeHeader(header), ',').flatMap((entry): EmailAddress[] => {
+    const mailbox = entry
+      .replace(/^[^"<@]*:\s*/, '')
+      .replace(/;\s*$/, '')
+      .trim();
+    const angle = /^(.*?)<([^>]+)>/.exec(mailbox);
+
+    if (angle) {
+      const address = angle[2].trim();
+      return address.includes('@') ? [{ name: unquote(angle[1]) || null, address }] : [];
+    }
+
+    // bare@example.com (Display Name)
+    const comment = /\(([^)]*)\)/.exec(mailbox);
+    const address = mailbox.replace(/\([^)]*\)/g, '').trim();
+    return address.includes('@') ? [{ name: comment?.[1].trim() || null, address }] : [];
+  });
+}
+
+/**
+ * Decode a body with its Content-Transfer-Encoding
+ */
+function decodeTransferEncoding(body: string, encoding: string | null): Buffer {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/[ \t]+(?=\r?\n)/g, '')
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9A-Fa-f]{2})/g, (_hex, code: string) =>
+            String.fromCharCode(parseInt(code, 16))
+          ),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Split a multipart body on its boundary, dropping the preamble and epilogue
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const parts: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+
+    if (trimmed === `--${boundary}`) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+    } else if (trimmed === `--${boundary}--`) {
+      if (current) parts.push(current.join('\r\n'));
+      current = null;
+      break;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  // Tolerate a missing closing boundary
+  if (current) parts.push(current.join('\r\n'));
+
+  return parts;
+}
+
+/**
+ * Character for a numeric HTML entity
+ * Code points that are out of range, null or surrogates become U+FFFD, as browsers show them
+ */
+function decodeCodePoint(codePoint: number, entity: string): string {
+  if (
+    !Number.isFinite(codePoint) ||
+    codePoint === 0 ||
+    codePoint > 0x10ffff ||
+    (codePoint >= 0xd800 && codePoint <= 0xdfff)
+  ) {
+    return '\uFFFD';
+  }
+
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return entity;
+  }
+}
+
+/**
+ * Convert an HTML body to readable plain text
+ */
+function htmlToText(html: string): string {
+  const entities: Record<string, string> = {
+    nbsp: ' ',
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+  };
+
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity.startsWith('#x') || entity.startsWith('#X')) {
+        return decodeCodePoint(parseInt(entity.slice(2), 16), match);
+      }
+      if (entity.startsWith('#')) {
+        return decodeCodePoint(parseInt(entity.slice(1), 10), match);
+      }
+      return entities[entity.toLowerCase()] ?? match;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * File name for an attachment that has none, from its content type
+ */
+function defaultFileName(contentType: string, position: number): string {
+  if (contentType === 'message/rfc822') return `message-${position}.eml`;
+
+  const subtype = contentType.split('/')[1]?.replace(/[^a-z0-9]/g, '');
+  return `attachment-${position}${subtype ? `.${subtype}` : ''}`;
+}
+
+/**
+ * Walk an entity tree, collecting text bodies and attachments
+ */
+function collectParts(
+  entity: MimeEntity,
+  found: { text: string[]; html: string[]; attachments: EmailAttachment[] }
+): void {
+  const contentType = parseHeaderWithParams(getHeader(entity.headers, 'content-type'));
+  const disposition = parseHeaderWithParams(getHeader(entity.headers, 'content-disposition'));
+  const type = contentType.value || 'text/plain';
+
+  if (type.startsWith('multipart/') && contentType.params.boundary) {
+    for (const part of splitMultipart(entity.body, contentType.params.boundary)) {
+      collectParts(parseEntity(part), found);
+    }
+    return;
+  }
+
+  const content = decodeTransferEncoding(
+    entity.body,
+    getHeader(entity.headers, 'content-transfer-encoding')
+  );
+  const fileName = disposition.params.filename || contentType.params.name;
+  const isBodyText = type === 'text/plain' || type === 'text/html';
+
+  if (fileName || disposition.value === 'attachment' || !isBodyText) {
+    found.attachments.push({
+      fileName: fileName || defaultFileName(type, found.attachments.length + 1),
+      contentType: type,
+      content,
+    });
+    return;
+  }
+
+  const text = decodeBytes(content, contentType.params.charset);
+  if (type === 'text/html') {
+    found.html.push(text);
+  } else {
+    found.text.push(text);
+  }
+}
+
+/**
+ * Parse a raw email message
+ * Throws ValidationError when the input has no message headers
+ */
+export function parseEmail(raw: Uint8Array): ParsedEmail {
+  // latin1 keeps every byte as one character, so binary parts survive until decoded
+  const entity = parseEntity(Buffer.from(raw).toString('latin1'));
+
+  if (!getHeader(entity.headers, 'from') && !getHeader(entity.headers, 'subject')) {
+    throw new ValidationError('File is not an email message (no From or Subject header)');
+  }
+
+  const found = {
+    text: [] as string[],
+    html: [] as string[],
+    attachments: [] as EmailAttachment[],
+  };
+  collectParts(entity, found);
+
+  const text = found.text.length > 0 ? found.text.join('\n\n') : htmlToText(found.html.join('\n'));
+  const dateHeader = getHeader(entity.headers, 'date');
+  const date = dateHeader ? new Date(dateHeader) : null;
+  const messageId = getHeader(entity.headers, 'message-id')?.replace(/[<>]/g, '').trim();
+
+  return {
+    messageId: messageId || null,
+    from: parseAddressList(getHeader(entity.headers, 'from'))[0] ?? null,
+    to: (entity.headers.get('to') ?? []).flatMap(parseAddressList),
+    cc: (entity.headers.get('cc') ?? []).flatMap(parseAddressList),
+    subject: decodeHeader(getHeader(entity.headers, 'subject') ?? '').trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text: text.replace(/\r\n?/g, '\n').trim(),
+    attachments: found.attachments.filter((attachment) => attachment.content.length > 0),
+  };
+}
@@ -0,0 +1,554 @@
+/**
+ * OpenAPI Specification
+ * Infrastructure layer - the /api/v1 contract, generated from the zod schemas
+ * the route handlers validate with
+ *
+ * Every /api/v1 endpoint is listed in API_V1_OPERATIONS. `npm run check:openapi`
+ * compares this list against the route handlers and fails when they disagree
+ */
+
+import { z } from 'zod';
+
+import {
+  caseStatusApiSchema,
+  caseStatusReportQuerySchema,
+  createCaseApiSchema,
+  createInteractionApiSchema,
+  listCasesQuerySchema,
+} from '@/lib/validations/case-api';
+import {
+  clientStatusApiSchema,
+  createAddressApiSchema,
+  createClientApiSchema,
+  createContactApiSchema,
+  listClientsQuerySchema,
+  updateAddressApiSchema,
+  updateClientApiSchema,
+  updateContactApiSchema,
+} from '@/lib/validations/client-api';
+
+import type { ApiKeyScope } from './api-scopes';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/**
+ * One endpoint of the external API
+ * Path parameters are taken from the {placeholders} in the path and are always positive integer IDs
+ */
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string; // Relative to /api/v1
+  tag: 'Keys' | 'Clients' | 'Cases';
+  summary: string;
+  scope: ApiKeyScope | null; // null = any valid key
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  rawBody?: string; // Content type of a non-JSON body, sent as is
+  status: 200 | 201;
+  paginated?: boolean;
+}
+
+/**
+ * The /api/v1 endpoints
+ */
+export const API_V1_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'get',
+    path: '/external',
+    tag: 'Keys',
+    summary: "Check the calling key - returns the key's name and scopes",
+    scope: null,
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/clients',
+    tag: 'Clients',
+    summary: 'List and search clients',
+    scope: 'clients:read',
+    query: listClientsQuerySchema,
+    status: 200,
+    paginated: true,
+  },
+  {
+    method: 'post',
+    path: '/clients',
+    tag: 'Clients',
+    summary: 'Create a client with its contacts and addresses',
+    scope: 'clients:write',
+    body: createClientApiSchema,
+    status: 201,
+  },
+  {
+    method: 'get',
+    path: '/clients/{id}',
+    tag: 'Clients',
+    summary: 'Get a client with its contacts and addresses',
+    scope: 'clients:read',
+    status: 200,
+  },
+  {
+    method: 'patch',
+    path: '/clients/{id}',
+    tag: 'Clients',
+    summary: "Update a client's details",
+    scope: 'clients:write',
+    body: updateClientApiSchema,
+    status: 200,
+  },
+  {
+    method: 'put',
+    path: '/clients/{id}/status',
+    tag: 'Clients',
+    summary: "Set a client's status",
+    scope: 'clients:write',
+    body: clientStatusApiSchema,
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/clients/{id}/contacts',
+    tag: 'Clients',
+    summary: "List a client's contacts",
+    scope: 'clients:read',
+    status: 200,
+  },
+  {
+    method: 'post',
+    path: '/clients/{id}/contacts',
+    tag: 'Clients',
+    summary: 'Add a contact to a client',
+    scope: 'clients:write',
+    body: createContactApiSchema,
+    status: 201,
+  },
+  {
+    method: 'patch',
+    path: '/clients/{id}/contacts/{contactId}',
+    tag: 'Clients',
+    summary: 'Update a contact',
+    scope: 'clients:write',
+    body: updateContactApiSchema,
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/clients/{id}/addresses',
+    tag: 'Clients',
+    summary: "List a client's addresses",
+    scope: 'clients:read',
+    status: 200,
+  },
+  {
+    method: 'post',
+    path: '/clients/{id}/addresses',
+    tag: 'Clients',
+    summary: 'Add an address to a client',
+    scope: 'clients:write',
+    body: createAddressApiSchema,
+    status: 201,
+  },
+  {
+    method: 'patch',
+    path: '/clients/{id}/addresses/{addressId}',
+    tag: 'Clients',
+    summary: 'Update an address',
+    scope: 'clients:write',
+    body: updateAddressApiSchema,
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/cases',
+    tag: 'Cases',
+    summary: 'List cases by client, status, type or assignee',
+    scope: 'cases:read',
+    query: listCasesQuerySchema,
+    status: 200,
+    paginated: true,
+  },
+  {
+    method: 'post',
+    path: '/cases',
+    tag: 'Cases',
+    summary: 'Open a case for a client',
+    scope: 'cases:write',
+    body: createCaseApiSchema,
+    status: 201,
+  },
+  {
+    method: 'get',
+    path: '/cases/actions',
+    tag: 'Cases',
+    summary: 'List open actions with due dates, earliest first',
+    scope: 'cases:read',
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/cases/status-report',
+    tag: 'Cases',
+    summary: 'Average time-to-close and time in each status for closed cases',
+    scope: 'cases:read',
+    query: caseStatusReportQuerySchema,
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/cases/{id}',
+    tag: 'Cases',
+    summary: 'Get a case',
+    scope: 'cases:read',
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/cases/{id}/status',
+    tag: 'Cases',
+    summary: "Get a case's status history with time spent in each status",
+    scope: 'cases:read',
+    status: 200,
+  },
+  {
+    method: 'put',
+    path: '/cases/{id}/status',
+    tag: 'Cases',
+    summary:
+      "Change a case's status - closing needs statusReason and outcome, reopening statusReason",
+    scope: 'cases:write',
+    body: caseStatusApiSchema,
+    status: 200,
+  },
+  {
+    method: 'get',
+    path: '/cases/{id}/interactions',
+    tag: 'Cases',
+    summary: "List a case's interactions, newest first",
+    scope: 'cases:read',
+    status: 200,
+  },
+  {
+    method: 'post',
+    path: '/cases/{id}/interactions',
+    tag: 'Cases',
+    summary: 'Append an interaction to a case',
+    scope: 'cases:write',
+    body: createInteractionApiSchema,
+    status: 201,
+  },
+  {
+    method: 'put',
+    path: '/cases/{id}/interactions/{interactionId}/active-action',
+    tag: 'Cases',
+    summary: "Make an interaction the case's active action",
+    scope: 'cases:write',
+    status: 200,
+  },
+  {
+    method: 'delete',
+    path: '/cases/{id}/interactions/{interactionId}/active-action',
+    tag: 'Cases',
+    summary: "Clear an interaction's active action",
+    scope: 'cases:write',
+    status: 200,
+  },
+  {
+    method: 'post',
+    path: '/emails',
+    tag: 'Cases',
+    summary:
+      'Import a raw email - filed to the case in its subject (CASE-0001) when a participant is a client contact, otherwise sent to triage',
+    scope: 'emails:write',
+    rawBody: 'message/rfc822',
+    status: 201,
+  },
+];
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+}
+
+/**
+ * An operation prepared for the docs page - plain JSON, safe to pass to Client Components
+ */
+export interface ApiDocsOperation {
+  method: HttpMethod;
+  path: string;
+  tag: ApiOperation['tag'];
+  summary: string;
+  scope: ApiKeyScope | null;
+  parameters: ApiParameter[];
+  requestBody: JsonSchema | null;
+  requestContentType: string | null;
+}
+
+/**
+ * Convert a zod schema to JSON Schema describing the accepted input
+ * JSON Schema 2020-12 is the dialect OpenAPI 3.1 uses
+ */
+function toJsonSchema(schema: z.ZodType): JsonSchema {
+  const { $schema: _$schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io: 'input',
+    target: 'draft-2020-12',
+    unrepresentable: 'any',
+  });
+
+  return jsonSchema;
+}
+
+/**
+ * Build the request body schema for an operation, or null if it takes no body
+ */
+function buildRequestSchema(operation: ApiOperation): JsonSchema | null {
+  if (operation.rawBody) {
+    return { type: 'string', contentMediaType: operation.rawBody };
+  }
+  return operation.body ? toJsonSchema(operation.body) : null;
+}
+
+/**
+ * Build the parameters for an operation: path IDs, then query parameters
+ */
+function buildParameters(operation: ApiOperation): ApiParameter[] {
+  const pathParameters = [...operation.path.matchAll(/\{(\w+)\}/g)].map(
+    ([, name]): ApiParameter => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'integer', minimum: 1 },
+    })
+  );
+
+  if (!operation.query) {
+    return pathParameters;
+  }
+
+  const query = toJsonSchema(operation.query) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  const queryParameters = Object.entries(query.properties ?? {}).map(
+    ([name, schema]): ApiParameter => ({
+      name,
+      in: 'query',
+      required: query.required?.includes(name) ?? false,
+      schema,
+    })
+  );
+
+  return [...pathParameters, ...queryParameters];
+}
+
+/**
+ * Build the error responses an operation can return
+ */
+function buildErrorResponses(operation: ApiOperation): Record<string, JsonSchema> {
+  const validates = Boolean(
+    operation.body || operation.rawBody || operation.query || operation.path.includes('{')
+  );
+
+  return {
+    ...(validates && { 400: { $ref: '#/components/responses/ValidationError' } }),
+    401: { $ref: '#/components/responses/Unauthorized' },
+    ...(operation.scope && { 403: { $ref: '#/components/responses/Forbidden' } }),
+    ...(operation.path.includes('{') && { 404: { $ref: '#/components/responses/NotFound' } }),
+    429: { $ref: '#/components/responses/RateLimited' },
+  };
+}
+
+/**
+ * Build one operation object
+ */
+function buildOperation(operation: ApiOperation): JsonSchema {
+  const scopes = operation.scope ? [operation.scope] : [];
+  const requestSchema = buildRequestSchema(operation);
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    description: operation.scope
+      ? `Requires the \`${operation.scope}\` scope.`
+      : 'Any valid API key may call this endpoint.',
+    security: [{ bearerAuth: scopes }, { apiKeyHeader: scopes }],
+    parameters: buildParameters(operation),
+    ...(requestSchema && {
+      requestBody: {
+        required: true,
+        content: { [operation.rawBody ?? 'application/json']: { schema: requestSchema } },
+      },
+    }),
+    responses: {
+      [operation.status]: {
+        description: operation.status === 201 ? 'Created' : 'OK',
+        content: {
+          'application/json': {
+            schema: {
+              $ref: operation.paginated
+                ? '#/components/schemas/PaginatedResponse'
+                : '#/components/schemas/SuccessResponse',
+            },
+          },
+        },
+      },
+      ...buildErrorResponses(operation),
+    },
+  };
+}
+
+/**
+ * Standard response envelope (see ApiResponseBuilder in response.ts)
+ */
+const metadataSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    timestamp: { type: 'string', format: 'date-time' },
+    version: { type: 'string' },
+    requestId: { type: 'string' },
+  },
+  required: ['timestamp', 'version'],
+};
+
+const components: JsonSchema = {
+  securitySchemes: {
+    bearerAuth: {
+      type: 'http',
+      scheme: 'bearer',
+      description: 'API key sent as `Authorization: Bearer <key>`',
+    },
+    apiKeyHeader: {
+      type: 'apiKey',
+      in: 'header',
+      name: 'X-API-Key',
+      description: 'API key sent in the `X-API-Key` header',
+    },
+  },
+  schemas: {
+    SuccessResponse: {
+      type: 'object',
+      properties: {
+        success: { const: true },
+        data: {},
+        metadata: metadataSchema,
+      },
+      required: ['success', 'data', 'metadata'],
+    },
+    PaginatedResponse: {
+      type: 'object',
+      properties: {
+        success: { const: true },
+        data: { type: 'array', items: {} },
+        pagination: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer' },
+            limit: { type: 'integer' },
+            totalCount: { type: 'integer' },
+            totalPages: { type: 'integer' },
+          },
+          required: ['page', 'limit', 'totalCount', 'totalPages'],
+        },
+        metadata: metadataSchema,
+      },
+      required: ['success', 'data', 'pagination', 'metadata'],
+    },
+    ErrorResponse: {
+      type: 'object',
+      properties: {
+        success: { const: false },
+        error: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            code: { type: 'string' },
+            details: {},
+          },
+          required: ['message', 'code'],
+        },
+        metadata: metadataSchema,
+      },
+      required: ['success', 'error', 'metadata'],
+    },
+  },
+  responses: Object.fromEntries(
+    [
+      ['ValidationError', 'The request is invalid; `details` lists each invalid field'],
+      ['Unauthorized', 'The API key is missing, invalid, revoked or expired'],
+      ['Forbidden', 'The API key does not have the required scope'],
+      ['NotFound', 'The resource does not exist'],
+      ['RateLimited', 'Too many requests; retry after the `Retry-After` header'],
+    ].map(([name, description]) => [
+      name,
+      {
+        description,
+        content: {
+          'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } },
+        },
+      },
+    ])
+  ),
+};
+
+/**
+ * Build the OpenAPI 3.1 document for /api/v1
+ */
+function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const operation of API_V1_OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method]: buildOperation(operation),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Argan HR API',
+      version: '1.0.0',
+      description:
+        'External API for clients and cases. Authenticate with an API key created by a SUPER_ADMIN; each endpoint lists the scope it requires.',
+    },
+    servers: [{ url: '/api/v1' }],
+    tags: [
+      { name: 'Keys', description: 'API key details' },
+      { name: 'Clients', description: 'Clients, contacts and addresses' },
+      { name: 'Cases', description: 'Cases, interactions and actions' },
+    ],
+    paths,
+    components,
+  };
+}
+
+let openApiDocument: JsonSchema | null = null;
+
+/**
+ * Get the OpenAPI document (built once per process)
+ */
+export function getOpenApiDocument(): JsonSchema {
+  if (!openApiDocument) {
+    openApiDocument = buildOpenApiDocument();
+  }
+  return openApiDocument;
+}
+
+/**
+ * Get the operations for the docs page, in the order they are listed
+ */
+export function getApiDocsOperations(): ApiDocsOperation[] {
+  return API_V1_OPERATIONS.map((operation) => ({
+    method: operation.method,
+    path: operation.path,
+    tag: operation.tag,
+    summary: operation.summary,
+    scope: operation.scope,
+    parameters: buildParameters(operation),
+    requestBody: buildRequestSchema(operation),
+    requestContentType: operation.rawBody ?? (operation.body ? 'application/json' : null),
+  }));
+}
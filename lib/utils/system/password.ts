@@ -1,8 +1,16 @@
 // Password security utilities for Argan HR System
 // Based on document-parser proven patterns
 
+import { createHash, randomBytes } from 'crypto';
+
 import bcrypt from 'bcryptjs';
 
+/**
+ * Message shown whenever a password fails validatePasswordStrength
+ */
+export const PASSWORD_POLICY_MESSAGE =
+  'Password must be at least 8 characters with uppercase, lowercase, and number';
+
 /**
  * Hash a password using bcryptjs with 12 rounds
  * Higher than document-parser's 10 rounds for enhanced security
@@ -47,3 +55,19 @@ export function generateSecurePassword(): string {
 
   return password;
 }
+
+/**
+ * Generate a password reset token for an emailed link
+ * Only the hash is stored, so a database leak cannot be used to reset passwords
+ */
+export function generatePasswordResetToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashPasswordResetToken(token) };
+}
+
+/**
+ * Hash a password reset token for storage and lookup
+ */
+export function hashPasswordResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
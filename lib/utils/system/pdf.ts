@@ -0,0 +1,169 @@
+/**
+ * PDF Rendering
+ * Infrastructure layer - renders sanitised HTML as an A4 PDF
+ *
+ * Supported HTML:
+ * - Headings, paragraphs, line breaks and horizontal rules
+ * - Bold, italic, underline, strikethrough, links and inline text styles
+ * - Bulleted and numbered lists, and tables (with colspan/rowspan)
+ * - PNG and JPEG images embedded as data: URIs, e.g. a letterhead logo
+ * - class="page-break" on an element starts it on a new page
+ *
+ * Anything else (scripts, forms, remote images, event handlers) is removed by
+ * sanitizeDocumentHtml before rendering.
+ *
+ * Usage:
+ * const pdf = await renderPdf({ title: 'Outcome letter', html })
+ */
+
+import htmlToPdfmake from 'html-to-pdfmake';
+import { JSDOM } from 'jsdom';
+import PdfPrinter from 'pdfmake';
+import vfsFonts from 'pdfmake/build/vfs_fonts';
+import sanitizeHtml from 'sanitize-html';
+
+import type { TDocumentDefinitions } from 'pdfmake/interfaces';
+
+const PAGE_MARGIN = 56; // Points on each side of an A4 page
+const PAGE_BREAK_CLASS = 'page-break';
+
+/**
+ * Tags and attributes document templates may use
+ */
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    'h1',
+    'h2',
+    'h3',
+    'h4',
+    'p',
+    'div',
+    'span',
+    'br',
+    'hr',
+    'strong',
+    'b',
+    'em',
+    'i',
+    'u',
+    's',
+    'sub',
+    'sup',
+    'a',
+    'blockquote',
+    'ul',
+    'ol',
+    'li',
+    'table',
+    'thead',
+    'tbody',
+    'tfoot',
+    'tr',
+    'th',
+    'td',
+    'img',
+  ],
+  allowedAttributes: {
+    '*': ['style', 'class'],
+    a: ['href'],
+    img: ['src', 'alt', 'width', 'height'],
+    td: ['colspan', 'rowspan', 'width'],
+    th: ['colspan', 'rowspan', 'width'],
+  },
+  allowedClasses: {
+    '*': [PAGE_BREAK_CLASS],
+  },
+  allowedStyles: {
+    '*': {
+      'text-align': [/^(left|right|center|justify)$/],
+      'font-size': [/^\d{1,2}(\.\d+)?(px|pt)$/],
+      'font-weight': [/^(bold|normal|[1-9]00)$/],
+      'font-style': [/^(italic|normal)$/],
+      'text-decoration': [/^(underline|line-through|none)$/],
+      color: [/^#[0-9a-f]{3,6}$/i, /^rgb\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*\)$/],
+      'background-color': [/^#[0-9a-f]{3,6}$/i],
+      width: [/^\d{1,4}(px|pt|%)$/],
+      height: [/^\d{1,4}(px|pt)$/],
+    },
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  // Images are only ever embedded - nothing is fetched while rendering
+  allowedSchemesByTag: { img: ['data'] },
+  allowProtocolRelative: false,
+  exclusiveFilter: (frame) =>
+    frame.tag === 'img' && !/^data:image\/(png|jpe?g);base64,/i.test(frame.attribs.src ?? ''),
+};
+
+/**
+ * Remove everything from HTML that a document may not contain
+ */
+export function sanitizeDocumentHtml(html: string): string {
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
+
+let printerInstance: PdfPrinter | null = null;
+
+/**
+ * Get the PDF printer with the bundled Roboto fonts (singleton)
+ * Roboto covers Latin, Greek and Cyrillic text
+ */
+function getPrinter(): PdfPrinter {
+  if (!printerInstance) {
+    const font = (file: string) => Buffer.from(vfsFonts[file], 'base64');
+    printerInstance = new PdfPrinter({
+      Roboto: {
+        normal: font('Roboto-Regular.ttf'),
+        bold: font('Roboto-Medium.ttf'),
+        italics: font('Roboto-Italic.ttf'),
+        bolditalics: font('Roboto-MediumItalic.ttf'),
+      },
+    });
+  }
+
+  return printerInstance;
+}
+
+/**
+ * Render HTML as an A4 PDF with page numbers
+ * The HTML is sanitised first, so it may come straight from a template
+ */
+export async function renderPdf(options: { title: string; html: string }): Promise<Uint8Array> {
+  const { window } = new JSDOM('');
+
+  try {
+    const content = htmlToPdfmake(sanitizeDocumentHtml(options.html), {
+      window,
+      removeExtraBlanks: true,
+      tableAutoSize: true,
+    });
+
+    const definition: TDocumentDefinitions = {
+      info: { title: options.title, creator: 'Argan HR' },
+      pageSize: 'A4',
+      pageMargins: PAGE_MARGIN,
+      defaultStyle: { font: 'Roboto', fontSize: 11, lineHeight: 1.2 },
+      content,
+      pageBreakBefore: (node) =>
+        Array.isArray(node.style) && (node.style as string[]).includes(PAGE_BREAK_CLASS),
+      footer: (currentPage, pageCount) => ({
+        text: `Page ${currentPage} of ${pageCount}`,
+        alignment: 'right',
+        fontSize: 8,
+        color: '#737373',
+        margin: [PAGE_MARGIN, PAGE_MARGIN / 2 - 8, PAGE_MARGIN, 0],
+      }),
+    };
+
+    const document = getPrinter().createPdfKitDocument(definition);
+    const chunks: Buffer[] = [];
+
+    return await new Promise<Uint8Array>((resolve, reject) => {
+      document.on('data', (chunk: Buffer) => chunks.push(chunk));
+      document.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))));
+      document.on('error', reject);
+      document.end();
+    });
+  } finally {
+    window.close();
+  }
+}
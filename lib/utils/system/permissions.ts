@@ -0,0 +1,116 @@
+/**
+ * Permission matrix for Argan HR System
+ * Pure role-to-permission mapping - safe to use in Server and Client Components
+ *
+ * Server Actions enforce these with withPermission; the UI uses the same
+ * matrix (via usePermission) to hide or disable controls
+ */
+
+import type { AdminRole } from '@/lib/types/admin';
+
+/**
+ * Every permission an admin can hold
+ */
+export type Permission =
+  // Read access
+  | 'view_dashboard'
+  | 'view_clients'
+  | 'view_audit_logs'
+  | 'view_security_events'
+  | 'view_system_logs'
+  // Clients (details, contacts, addresses, services, onboarding)
+  | 'create_client'
+  | 'update_client'
+  | 'delete_client'
+  | 'manage_sectors'
+  | 'manage_client_audits'
+  // Cases
+  | 'create_case'
+  | 'update_case'
+  | 'delete_case'
+  | 'manage_interactions'
+  | 'manage_case_files'
+  | 'manage_time_entries'
+  // Contracts
+  | 'create_contract'
+  | 'update_contract'
+  | 'delete_contract'
+  // Documents
+  | 'manage_client_documents'
+  | 'manage_policies'
+  | 'manage_internal_documents'
+  | 'delete_internal_document'
+  | 'manage_document_templates'
+  // Administration
+  | 'create_admin'
+  | 'update_admin'
+  | 'delete_admin'
+  | 'reactivate_admin'
+  | 'manage_admin_security'
+  | 'manage_api_keys'
+  | 'manage_webhooks'
+  | 'modify_system_settings';
+
+const ALL_ROLES: AdminRole[] = ['SUPER_ADMIN', 'ADMIN', 'READ_ONLY'];
+const ADMIN_ROLES: AdminRole[] = ['SUPER_ADMIN', 'ADMIN'];
+const SUPER_ADMIN_ONLY: AdminRole[] = ['SUPER_ADMIN'];
+
+/**
+ * Roles granted each permission
+ * READ_ONLY can view everything but change nothing
+ */
+const PERMISSION_MATRIX: Record<Permission, AdminRole[]> = {
+  view_dashboard: ALL_ROLES,
+  view_clients: ALL_ROLES,
+  view_audit_logs: ADMIN_ROLES,
+  view_security_events: ADMIN_ROLES,
+  view_system_logs: SUPER_ADMIN_ONLY,
+
+  create_client: ADMIN_ROLES,
+  update_client: ADMIN_ROLES,
+  delete_client: ADMIN_ROLES,
+  manage_sectors: ADMIN_ROLES,
+  manage_client_audits: ADMIN_ROLES,
+
+  create_case: ADMIN_ROLES,
+  update_case: ADMIN_ROLES,
+  delete_case: ADMIN_ROLES,
+  manage_interactions: ADMIN_ROLES,
+  manage_case_files: ADMIN_ROLES,
+  manage_time_entries: ADMIN_ROLES,
+
+  create_contract: ADMIN_ROLES,
+  update_contract: ADMIN_ROLES,
+  delete_contract: ADMIN_ROLES,
+
+  manage_client_documents: ADMIN_ROLES,
+  manage_policies: ADMIN_ROLES,
+  manage_internal_documents: ADMIN_ROLES,
+  delete_internal_document: ADMIN_ROLES,
+  manage_document_templates: ADMIN_ROLES,
+
+  create_admin: ADMIN_ROLES,
+  update_admin: ADMIN_ROLES,
+  delete_admin: ADMIN_ROLES,
+  reactivate_admin: ADMIN_ROLES,
+  manage_admin_security: SUPER_ADMIN_ONLY,
+  manage_api_keys: SUPER_ADMIN_ONLY,
+  manage_webhooks: SUPER_ADMIN_ONLY,
+  modify_system_settings: SUPER_ADMIN_ONLY,
+};
+
+/**
+ * Check whether a role holds a permission
+ */
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return PERMISSION_MATRIX[permission]?.includes(role) ?? false;
+}
+
+/**
+ * List every permission a role holds
+ */
+export function getRolePermissions(role: AdminRole): Permission[] {
+  return (Object.keys(PERMISSION_MATRIX) as Permission[]).filter((permission) =>
+    hasPermission(role, permission)
+  );
+}
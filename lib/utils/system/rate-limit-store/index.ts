@@ -0,0 +1,119 @@
+/**
+ * API Rate Limit Store
+ * Infrastructure layer - pluggable request counters for the API rate limiter
+ *
+ * Stores:
+ * - postgres: Counters in the database, shared by every server instance (production default)
+ * - memory: Counters in this process only (tests)
+ *
+ * Algorithms:
+ * - fixed: Counts requests in fixed windows (e.g. each clock minute)
+ * - sliding: Weights the previous window's count by how much of it still overlaps the
+ *   last `window` seconds, so a burst across a window boundary is still limited
+ *
+ * Usage:
+ * const result = await consumeRateLimit('api:ip:203.0.113.7', { limit: 100, windowSeconds: 60 })
+ * if (!result.allowed) { ... }
+ */
+
+import { config } from '../config';
+
+import { MemoryRateLimitStore } from './memory';
+import { PostgresRateLimitStore } from './postgres';
+
+/**
+ * Rate limit algorithm
+ */
+export type RateLimitAlgorithm = 'fixed' | 'sliding';
+
+/**
+ * Limit applied to a key
+ */
+export interface RateLimitOptions {
+  limit: number;
+  windowSeconds: number;
+  algorithm?: RateLimitAlgorithm;
+}
+
+/**
+ * Outcome of counting one request against a limit
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until the current window ends
+}
+
+/**
+ * Rate limit store contract
+ * Stores only keep fixed-window counters - the algorithms are built on top of them
+ */
+export interface RateLimitStore {
+  readonly driver: 'postgres' | 'memory';
+
+  /**
+   * Add one to a window's counter and return the new count
+   * Must be atomic across concurrent requests
+   */
+  increment(key: string, windowStart: number, windowMs: number): Promise<number>;
+
+  /**
+   * Get a window's count without changing it (0 if there is none)
+   */
+  getCount(key: string, windowStart: number): Promise<number>;
+
+  /**
+   * Forget every window for a key
+   */
+  reset(key: string): Promise<void>;
+}
+
+let storeInstance: RateLimitStore | null = null;
+
+/**
+ * Get the configured rate limit store (singleton)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!storeInstance) {
+    storeInstance =
+      config.api.rateLimitStore === 'memory'
+        ? new MemoryRateLimitStore()
+        : new PostgresRateLimitStore();
+  }
+
+  return storeInstance;
+}
+
+/**
+ * Count a request against a key's limit
+ * Rejected requests are counted too, so a client that keeps retrying stays limited
+ */
+export async function consumeRateLimit(
+  key: string,
+  options: RateLimitOptions,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  const algorithm = options.algorithm || config.api.rateLimitAlgorithm;
+  const windowMs = options.windowSeconds * 1000;
+  const now = Date.now();
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let used = await store.increment(key, windowStart, windowMs);
+
+  if (algorithm === 'sliding') {
+    const previous = await store.getCount(key, windowStart - windowMs);
+    const previousWeight = 1 - (now - windowStart) / windowMs;
+    used += Math.floor(previous * previousWeight);
+  }
+
+  return {
+    allowed: used <= options.limit,
+    limit: options.limit,
+    remaining: Math.max(0, options.limit - used),
+    resetSeconds: Math.max(1, Math.ceil((windowStart + windowMs - now) / 1000)),
+  };
+}
+
+export { MemoryRateLimitStore } from './memory';
+export { PostgresRateLimitStore } from './postgres';
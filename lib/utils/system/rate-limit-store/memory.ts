@@ -0,0 +1,73 @@
+/**
+ * In-Memory Rate Limit Store
+ * Counters live in this process only - for tests and single-instance development
+ * Each server instance counts separately, so do not use it behind a load balancer
+ */
+
+import type { RateLimitStore } from './index';
+
+/**
+ * Sweep expired counters after this many increments
+ */
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * In-memory rate limit backend
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly driver = 'memory' as const;
+
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+  private incrementsSinceSweep = 0;
+
+  async increment(key: string, windowStart: number, windowMs: number): Promise<number> {
+    this.sweepExpired();
+
+    const id = this.counterId(key, windowStart);
+    const counter = this.counters.get(id);
+
+    if (counter) {
+      counter.count++;
+      return counter.count;
+    }
+
+    // Kept for a second window so the sliding algorithm can read it as the previous one
+    this.counters.set(id, { count: 1, expiresAt: windowStart + windowMs * 2 });
+    return 1;
+  }
+
+  async getCount(key: string, windowStart: number): Promise<number> {
+    const counter = this.counters.get(this.counterId(key, windowStart));
+    return counter && counter.expiresAt > Date.now() ? counter.count : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    for (const id of this.counters.keys()) {
+      if (id.startsWith(`${key}|`)) {
+        this.counters.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Private helper: Map key for one window of a rate limit key
+   */
+  private counterId(key: string, windowStart: number): string {
+    return `${key}|${windowStart}`;
+  }
+
+  /**
+   * Private helper: Drop expired counters every so often, instead of on a timer
+   */
+  private sweepExpired(): void {
+    if (++this.incrementsSinceSweep < SWEEP_INTERVAL) return;
+    this.incrementsSinceSweep = 0;
+
+    const now = Date.now();
+    for (const [id, counter] of this.counters.entries()) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Postgres Rate Limit Store
+ * Counters in the rate_limit_counters table, so every server instance shares the same limits
+ */
+
+import { prisma } from '@/lib/database';
+
+import { logger } from '../logger';
+
+import type { RateLimitStore } from './index';
+
+/**
+ * Chance that starting a new window also prunes expired counters
+ * Keeps the table small without a scheduled job
+ */
+const PRUNE_PROBABILITY = 0.01;
+
+/**
+ * Postgres rate limit backend
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly driver = 'postgres' as const;
+
+  async increment(key: string, windowStart: number, windowMs: number): Promise<number> {
+    // Kept for a second window so the sliding algorithm can read it as the previous one
+    const expiresAt = new Date(windowStart + windowMs * 2);
+
+    // Single upsert so concurrent requests on different instances cannot lose a count
+    const [counter] = await prisma.$queryRaw<Array<{ count: number }>>`
+      INSERT INTO "rate_limit_counters" ("key", "window_start", "count", "expires_at")
+      VALUES (${key}, ${new Date(windowStart)}, 1, ${expiresAt})
+      ON CONFLICT ("key", "window_start")
+      DO UPDATE SET "count" = "rate_limit_counters"."count" + 1
+      RETURNING "count"
+    `;
+
+    if (counter.count === 1 && Math.random() < PRUNE_PROBABILITY) {
+      void this.pruneExpired();
+    }
+
+    return counter.count;
+  }
+
+  async getCount(key: string, windowStart: number): Promise<number> {
+    const counter = await prisma.rateLimitCounter.findUnique({
+      where: { key_windowStart: { key, windowStart: new Date(windowStart) } },
+      select: { count: true, expiresAt: true },
+    });
+
+    return counter && counter.expiresAt.getTime() > Date.now() ? counter.count : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimitCounter.deleteMany({ where: { key } });
+  }
+
+  /**
+   * Private helper: Delete counters that no window can read any more
+   */
+  private async pruneExpired(): Promise<void> {
+    try {
+      await prisma.rateLimitCounter.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+    } catch (error) {
+      logger.warn('Failed to prune expired rate limit counters', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
@@ -1,10 +1,13 @@
 /**
  * Rate Limiting Utility
  * Handles login attempt tracking and account locking
+ * Failed attempts and lockouts are recorded as security events
  */
 
 import { prisma } from '@/lib/database';
 
+import { recordSecurityEvent } from './security-events';
+
 /**
  * Rate limiting configuration
  */
@@ -26,6 +29,7 @@ export async function checkLoginRateLimit(email: string): Promise<{
   const admin = await prisma.admin.findUnique({
     where: { email },
     select: {
+      id: true,
       failedLoginAttempts: true,
       lastFailedAttempt: true,
       lockedUntil: true,
@@ -77,6 +81,13 @@ export async function checkLoginRateLimit(email: string): Promise<{
       data: { lockedUntil: lockUntil },
     });
 
+    await recordSecurityEvent({
+      type: 'ACCOUNT_LOCKED',
+      adminId: admin.id,
+      email,
+      details: `${admin.failedLoginAttempts} failed attempts - locked for ${RATE_LIMIT_CONFIG.lockoutMinutes} minutes`,
+    });
+
     return {
       allowed: false,
       lockedUntil: lockUntil,
@@ -90,15 +101,63 @@ export async function checkLoginRateLimit(email: string): Promise<{
 
 /**
  * Record a failed login attempt
+ * reason describes what was wrong, e.g. "Wrong password"
+ * Attempts against unknown emails are logged but have no counter to increment
  */
-export async function recordFailedLogin(email: string): Promise<void> {
+export async function recordFailedLogin(email: string, reason: string): Promise<void> {
   const now = new Date();
 
+  const admin = await prisma.admin.findUnique({ where: { email }, select: { id: true } });
+
+  if (admin) {
+    await prisma.admin.update({
+      where: { id: admin.id },
+      data: {
+        failedLoginAttempts: { increment: 1 },
+        lastFailedAttempt: now,
+      },
+    });
+  }
+
+  await recordSecurityEvent({
+    type: 'LOGIN_FAILED',
+    adminId: admin?.id ?? null,
+    email,
+    details: reason,
+  });
+}
+
+/**
+ * Check whether an admin's account is locked, or will be at their next attempt
+ */
+export function isLoginLocked(admin: {
+  failedLoginAttempts: number;
+  lastFailedAttempt: Date | null;
+  lockedUntil: Date | null;
+}): boolean {
+  const now = Date.now();
+
+  if (admin.lockedUntil && admin.lockedUntil.getTime() > now) {
+    return true;
+  }
+
+  const withinWindow =
+    !!admin.lastFailedAttempt &&
+    now - admin.lastFailedAttempt.getTime() <= RATE_LIMIT_CONFIG.windowMinutes * 60 * 1000;
+
+  return withinWindow && admin.failedLoginAttempts >= RATE_LIMIT_CONFIG.maxAttempts;
+}
+
+/**
+ * Clear a lockout and the failed attempt counter, e.g. when a SUPER_ADMIN unlocks an account
+ */
+export async function unlockLogin(adminId: string): Promise<void> {
   await prisma.admin.update({
-    where: { email },
+    where: { id: adminId },
     data: {
-      failedLoginAttempts: { increment: 1 },
-      lastFailedAttempt: now,
+      failedLoginAttempts: 0,
+      lastFailedAttempt: null,
+      lockedUntil: null,
     },
   });
 }
@@ -4,10 +4,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { AdminRoleEnum } from '@/lib/types/admin';
+import { getRolePermissions, hasPermission } from '@/lib/utils/system/permissions';
 import { validateSession } from '@/lib/utils/system/session';
 
 import type { AdminRole } from '@/lib/types/admin';
 import type { AdminSession } from '@/lib/types/auth';
+import type { Permission } from '@/lib/utils/system/permissions';
 
 /**
  * Enhanced request with admin session
@@ -92,53 +94,15 @@ export function hasAdminRole(session: AdminSession, role: AdminRole): boolean {
 
 /**
  * Check if session can perform action based on role
+ * See PERMISSION_MATRIX in permissions.ts for the full mapping
  */
-export function canPerformAction(session: AdminSession, action: string): boolean {
-  switch (action) {
-    case 'modify_system_settings':
-      return session.role === AdminRoleEnum.SUPER_ADMIN;
-
-    case 'create_admin':
-    case 'update_admin':
-    case 'delete_admin':
-    case 'reactivate_admin':
-    case 'create_client':
-    case 'update_client':
-    case 'delete_client':
-    case 'view_audit_logs':
-      return session.role === AdminRoleEnum.SUPER_ADMIN || session.role === AdminRoleEnum.ADMIN;
-
-    case 'view_clients':
-    case 'view_dashboard':
-      return true; // All authenticated users can view
-
-    default:
-      return false;
-  }
+export function canPerformAction(session: AdminSession, action: Permission): boolean {
+  return hasPermission(session.role, action);
 }
 
 /**
  * Get user permissions based on role
  */
-export function getUserPermissions(role: AdminRole): string[] {
-  const permissions: string[] = ['view_dashboard', 'view_clients'];
-
-  if (role === AdminRoleEnum.ADMIN || role === AdminRoleEnum.SUPER_ADMIN) {
-    permissions.push(
-      'create_client',
-      'update_client',
-      'delete_client',
-      'view_audit_logs',
-      'create_admin',
-      'update_admin',
-      'delete_admin',
-      'reactivate_admin'
-    );
-  }
-
-  if (role === AdminRoleEnum.SUPER_ADMIN) {
-    permissions.push('modify_system_settings', 'view_system_logs');
-  }
-
-  return permissions;
+export function getUserPermissions(role: AdminRole): Permission[] {
+  return getRolePermissions(role);
 }
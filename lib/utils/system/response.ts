@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 
+import { isAppError } from '@/lib/errors';
+import { SystemError } from '@/lib/errors/system';
+
 import { config } from './config';
 
 /**
@@ -120,6 +123,36 @@ export class ApiResponseBuilder {
     return NextResponse.json(response);
   }
 
+  /**
+   * Create an error API response from a thrown error
+   * Business errors keep their message, code and status (via AppError.toJSON());
+   * anything else gets a generic message so internals are never exposed
+   */
+  static fromError(error: unknown, requestId?: string): NextResponse {
+    if (isAppError(error)) {
+      const { message, code, statusCode, details } = error.toJSON();
+      return ApiResponseBuilder.error(message, code, statusCode, details, requestId);
+    }
+
+    if (error instanceof SystemError) {
+      return ApiResponseBuilder.error(
+        'A system error occurred. Please try again later.',
+        'SYSTEM_ERROR',
+        503,
+        undefined,
+        requestId
+      );
+    }
+
+    return ApiResponseBuilder.error(
+      'An unexpected error occurred. Please try again later.',
+      'INTERNAL_ERROR',
+      500,
+      undefined,
+      requestId
+    );
+  }
+
   /**
    * Create a simple success response (for infrastructure endpoints)
    */
@@ -130,6 +163,7 @@ export class ApiResponseBuilder {
 
 /**
  * Utility function to extract request ID from headers
+ * On /api/v1 routes withApiErrorHandling always sets it to the X-Request-Id it returns
  */
 export function getRequestId(request: Request): string | undefined {
   return request.headers.get('x-request-id') || undefined;
@@ -0,0 +1,61 @@
+/**
+ * Security Events
+ * Records sign-ins, lockouts, logouts and credential changes with the request's IP and user agent
+ *
+ * Recording never throws - a failure to log must not block a login or logout
+ */
+
+import { prisma } from '@/lib/database';
+
+import { logger } from './logger';
+import { getRequestMetadata } from './session';
+
+import type { RecordSecurityEventInput } from '@/lib/types/security';
+
+/**
+ * Record a security event for the current request
+ */
+export async function recordSecurityEvent(input: RecordSecurityEventInput): Promise<void> {
+  try {
+    let email = input.email;
+    if (!email && input.adminId) {
+      const admin = await prisma.admin.findUnique({
+        where: { id: input.adminId },
+        select: { email: true },
+      });
+      email = admin?.email;
+    }
+
+    await prisma.securityEvent.create({
+      data: {
+        adminId: input.adminId ?? null,
+        email: email ?? '',
+        type: input.type,
+        details: input.details ?? null,
+        ...(await getRequestMetadataSafe()),
+        actorId: input.actor?.adminId ?? null,
+        actorName: input.actor?.name ?? null,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to record security event', {
+      type: input.type,
+      adminId: input.adminId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Request IP and user agent, or nulls outside a request (e.g. scripts)
+ */
+async function getRequestMetadataSafe(): Promise<{
+  ipAddress: string | null;
+  userAgent: string | null;
+}> {
+  try {
+    return await getRequestMetadata();
+  } catch {
+    return { ipAddress: null, userAgent: null };
+  }
+}
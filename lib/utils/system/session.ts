@@ -1,28 +1,50 @@
 // Session management for Argan HR System
 // Based on document-parser AES-256-GCM encryption patterns
+// Sessions are stored in the database so they can be listed and revoked;
+// the encrypted cookie only identifies which stored session it belongs to
 
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 
 import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
 
+import { prisma } from '@/lib/database';
+
 import { config } from './config';
 
 import type { AdminRole } from '@/lib/types/admin';
-import type { AdminSession } from '@/lib/types/auth';
+import type { ActiveSessionItem, AdminSession } from '@/lib/types/auth';
+import type { SessionRevokeReason } from '@prisma/client';
 
 /**
  * Session data structure stored in encrypted cookies
  * Internal implementation detail - not exported
  */
 interface SessionData {
-  email: string;
+  sessionId: string;
   adminId: string;
-  role: AdminRole;
-  name: string;
   createdAt: number;
   expiresAt: number;
 }
 
+/**
+ * How often lastSeenAt is written - avoids a database write on every request
+ */
+const LAST_SEEN_UPDATE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Password-verified login waiting for a further step before the session is created
+ * verify: admin has 2FA and must enter a code
+ * setup: admin is required to use 2FA and must enrol before continuing
+ * enrolled: enrolment confirmed with a code, waiting for the admin to save their recovery codes
+ * change_password: admin must choose a new password before continuing
+ */
+export interface PendingLogin {
+  adminId: string;
+  email: string;
+  purpose: 'verify' | 'setup' | 'enrolled' | 'change_password';
+  expiresAt: number;
+}
+
 /**
  * Cookie configuration for admin sessions
  */
@@ -31,13 +53,24 @@ const COOKIE_CONFIG = {
   httpOnly: true,
   secure: config.app.isProduction,
   sameSite: 'lax' as const,
+  path: '/', // Sent to /api routes as well as admin pages
+};
+
+/**
+ * Cookie holding a pending login between the password step and the session being created
+ */
+const PENDING_LOGIN_COOKIE = {
+  ...COOKIE_CONFIG,
+  name: 'admin_login_pending',
   path: '/admin',
 };
 
+const PENDING_LOGIN_MINUTES = 5;
+
 /**
  * Encrypt session data using AES-256-GCM (document-parser pattern)
  */
-function encryptSession(data: SessionData, secret: string): string {
+function encryptSession(data: SessionData | PendingLogin, secret: string): string {
   const iv = randomBytes(16);
   const key = Buffer.from(secret, 'hex');
   const cipher = createCipheriv('aes-256-gcm', key, iv);
@@ -51,7 +84,7 @@ function encryptSession(data: SessionData, secret: string): string {
 /**
  * Decrypt session data using AES-256-GCM (document-parser pattern)
  */
-function decryptSession(encryptedData: string, secret: string): SessionData | null {
+function decryptSession<T = SessionData>(encryptedData: string, secret: string): T | null {
   try {
     const buffer = Buffer.from(encryptedData, 'base64');
     const iv = buffer.subarray(0, 16);
@@ -79,28 +112,50 @@ function isSessionExpired(session: SessionData): boolean {
 }
 
 /**
- * Create session data structure
+ * Check if a stored session has been idle for longer than the idle timeout
  */
-function createSessionData(admin: {
-  id: string;
-  email: string;
-  role: AdminRole;
-  name: string;
-}): SessionData {
-  const now = Date.now();
+function isSessionIdle(lastSeenAt: Date): boolean {
+  return Date.now() - lastSeenAt.getTime() > config.auth.sessionIdleTimeout * 1000;
+}
+
+/**
+ * Get the client IP address and user agent of the current request
+ */
+export async function getRequestMetadata(): Promise<{
+  ipAddress: string | null;
+  userAgent: string | null;
+}> {
+  const headerStore = await headers();
+  const forwardedFor = headerStore.get('x-forwarded-for');
 
   return {
-    email: admin.email,
-    adminId: admin.id,
-    role: admin.role,
-    name: admin.name,
-    createdAt: now,
-    expiresAt: now + config.auth.sessionDuration * 1000, // Convert seconds to milliseconds
+    ipAddress: forwardedFor?.split(',')[0].trim() || headerStore.get('x-real-ip') || null,
+    userAgent: headerStore.get('user-agent'),
   };
 }
 
+/**
+ * Read the session cookie without checking the database
+ */
+async function readSessionCookie(): Promise<SessionData | null> {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get(COOKIE_CONFIG.name);
+
+  if (!sessionCookie) {
+    return null;
+  }
+
+  const sessionData = decryptSession(sessionCookie.value, config.auth.sessionSecret);
+  if (!sessionData?.sessionId || isSessionExpired(sessionData)) {
+    return null;
+  }
+
+  return sessionData;
+}
+
 /**
  * Create an admin session with encrypted cookie
+ * Stores the session with the device and IP it was created from
  */
 export async function createAdminSession(admin: {
   id: string;
@@ -108,7 +163,23 @@ export async function createAdminSession(admin: {
   role: AdminRole;
   name: string;
 }): Promise<void> {
-  const sessionData = createSessionData(admin);
+  const now = Date.now();
+  const expiresAt = now + config.auth.sessionDuration * 1000; // Convert seconds to milliseconds
+
+  const session = await prisma.loginSession.create({
+    data: {
+      adminId: admin.id,
+      expiresAt: new Date(expiresAt),
+      ...(await getRequestMetadata()),
+    },
+  });
+
+  const sessionData: SessionData = {
+    sessionId: session.id,
+    adminId: admin.id,
+    createdAt: now,
+    expiresAt,
+  };
   const encryptedSession = encryptSession(sessionData, config.auth.sessionSecret);
 
   const cookieStore = await cookies();
@@ -120,30 +191,54 @@ export async function createAdminSession(admin: {
 
 /**
  * Validate session from cookie
+ * The stored session must not be revoked, expired or idle, and the admin must still be active
+ * Role and name come from the database so changes apply immediately
  */
 export async function validateSession(): Promise<AdminSession | null> {
-  const cookieStore = await cookies();
-  const sessionCookie = cookieStore.get(COOKIE_CONFIG.name);
-
-  if (!sessionCookie) {
-    return null;
-  }
-
   try {
-    const sessionData = decryptSession(sessionCookie.value, config.auth.sessionSecret);
-    if (!sessionData || isSessionExpired(sessionData)) {
+    const sessionData = await readSessionCookie();
+    if (!sessionData) {
       // Don't try to clear cookies in Server Components
       // The redirect will handle the cleanup
       return null;
     }
+
+    const session = await prisma.loginSession.findUnique({
+      where: { id: sessionData.sessionId },
+      include: {
+        admin: {
+          select: { id: true, email: true, role: true, name: true, isActive: true },
+        },
+      },
+    });
+
+    if (
+      !session ||
+      session.adminId !== sessionData.adminId ||
+      session.revokedAt ||
+      session.expiresAt.getTime() < Date.now() ||
+      isSessionIdle(session.lastSeenAt) ||
+      !session.admin.isActive
+    ) {
+      return null;
+    }
+
+    if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+      await prisma.loginSession.update({
+        where: { id: session.id },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+
     return {
-      adminId: sessionData.adminId,
-      email: sessionData.email,
-      role: sessionData.role,
-      name: sessionData.name,
+      adminId: session.admin.id,
+      email: session.admin.email,
+      role: session.admin.role,
+      name: session.admin.name,
+      sessionId: session.id,
     };
   } catch (error) {
-    // Session decryption failed - invalid or corrupted session
+    // Session decryption or lookup failed - invalid or corrupted session
     console.error('Session validation error:', error);
     return null;
   }
@@ -151,11 +246,134 @@ export async function validateSession(): Promise<AdminSession | null> {
 
 /**
  * Clear admin session cookie
+ * The stored session is ended too, so the cookie cannot be reused if it was copied
  */
 export async function clearAdminSession(): Promise<void> {
+  const sessionData = await readSessionCookie();
+  if (sessionData) {
+    await prisma.loginSession.updateMany({
+      where: { id: sessionData.sessionId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'LOGOUT' },
+    });
+  }
+
   const cookieStore = await cookies();
   cookieStore.set(COOKIE_CONFIG.name, '', {
     ...COOKIE_CONFIG,
     expires: new Date(0), // Expire immediately
   });
 }
+
+/**
+ * Start a pending login after the password has been verified
+ * The session itself is only created once the remaining steps succeed
+ */
+export async function createPendingLogin(
+  admin: { id: string; email: string },
+  purpose: PendingLogin['purpose']
+): Promise<void> {
+  const pending: PendingLogin = {
+    adminId: admin.id,
+    email: admin.email,
+    purpose,
+    expiresAt: Date.now() + PENDING_LOGIN_MINUTES * 60 * 1000,
+  };
+
+  const cookieStore = await cookies();
+  cookieStore.set(PENDING_LOGIN_COOKIE.name, encryptSession(pending, config.auth.sessionSecret), {
+    ...PENDING_LOGIN_COOKIE,
+    expires: new Date(pending.expiresAt),
+  });
+}
+
+/**
+ * Get the pending login, or null if there is none or it has expired
+ */
+export async function getPendingLogin(): Promise<PendingLogin | null> {
+  const cookieStore = await cookies();
+  const pendingCookie = cookieStore.get(PENDING_LOGIN_COOKIE.name);
+
+  if (!pendingCookie) {
+    return null;
+  }
+
+  const pending = decryptSession<PendingLogin>(pendingCookie.value, config.auth.sessionSecret);
+  if (!pending || Date.now() > pending.expiresAt) {
+    return null;
+  }
+
+  return pending;
+}
+
+/**
+ * Clear the pending login cookie
+ */
+export async function clearPendingLogin(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(PENDING_LOGIN_COOKIE.name, '', {
+    ...PENDING_LOGIN_COOKIE,
+    expires: new Date(0),
+  });
+}
+
+/**
+ * List an admin's sessions that can still be used, most recently active first
+ */
+export async function getActiveSessions(
+  adminId: string,
+  currentSessionId?: string
+): Promise<ActiveSessionItem[]> {
+  const sessions = await prisma.loginSession.findMany({
+    where: {
+      adminId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+      lastSeenAt: { gt: new Date(Date.now() - config.auth.sessionIdleTimeout * 1000) },
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    id: session.id,
+    ipAddress: session.ipAddress,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt.toISOString(),
+    lastSeenAt: session.lastSeenAt.toISOString(),
+    expiresAt: session.expiresAt.toISOString(),
+    isCurrent: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * End one of an admin's sessions
+ * Returns false if the session does not belong to the admin or has already ended
+ */
+export async function revokeSession(adminId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.loginSession.updateMany({
+    where: { id: sessionId, adminId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'REVOKED' },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * End every session an admin has, optionally keeping one (e.g. the current one)
+ * Returns the number of sessions ended
+ */
+export async function revokeAdminSessions(
+  adminId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.loginSession.updateMany({
+    where: {
+      adminId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count;
+}
@@ -0,0 +1,146 @@
+/**
+ * File Storage
+ * Infrastructure layer - pluggable object storage for uploaded files
+ *
+ * Backends:
+ * - s3: AWS S3 with presigned URLs (production)
+ * - local: Local filesystem with HMAC-signed URLs served by /api/storage/local (dev/test)
+ *
+ * Usage:
+ * const storage = getStorage()
+ * const uploadUrl = await storage.createUploadUrl(key, contentType, size)
+ */
+
+import { NextResponse } from 'next/server';
+
+import { ValidationError } from '@/lib/errors';
+
+import { config } from '../config';
+
+import { LocalStorageAdapter } from './local';
+import { S3StorageAdapter } from './s3';
+
+/**
+ * Object metadata returned by head/get operations
+ */
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+/**
+ * Object body with metadata for streaming to the client
+ */
+export interface StoredObject extends StoredObjectInfo {
+  body: ReadableStream<Uint8Array>;
+}
+
+/**
+ * Storage backend contract
+ * Keys are relative paths such as `{client-id}/cases/{case-id}/case-level/{file}`
+ */
+export interface StorageAdapter {
+  readonly driver: 's3' | 'local';
+
+  /**
+   * Get the canonical location of an object (not a download link)
+   */
+  getObjectUrl(key: string): string;
+
+  /**
+   * Create a short-lived URL the browser can PUT the file body to
+   */
+  createUploadUrl(key: string, contentType: string, size: number): Promise<string>;
+
+  /**
+   * Get object metadata, or null if the object does not exist
+   */
+  headObject(key: string): Promise<StoredObjectInfo | null>;
+
+  /**
+   * Get object body and metadata, or null if the object does not exist
+   */
+  getObject(key: string): Promise<StoredObject | null>;
+
+  /**
+   * Write an object directly from the server
+   */
+  putObject(key: string, body: Uint8Array, contentType: string): Promise<void>;
+
+  /**
+   * Delete an object (no-op if it does not exist)
+   */
+  deleteObject(key: string): Promise<void>;
+}
+
+let storageInstance: StorageAdapter | null = null;
+
+/**
+ * Get the configured storage backend (singleton)
+ */
+export function getStorage(): StorageAdapter {
+  if (!storageInstance) {
+    storageInstance =
+      config.storage.driver === 's3'
+        ? new S3StorageAdapter(config.storage.s3Bucket, config.storage.s3Region)
+        : new LocalStorageAdapter(config.storage.localDirectory, config.auth.sessionSecret);
+  }
+
+  return storageInstance;
+}
+
+/**
+ * Make a filename safe for use in a storage key
+ * Keeps letters, numbers, dots, dashes and underscores
+ */
+export function sanitizeFileName(fileName: string): string {
+  const sanitized = fileName
+    .trim()
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+/, '');
+
+  return sanitized || 'file';
+}
+
+/**
+ * Check a file is acceptable for upload before issuing an upload URL
+ */
+export function assertUploadAllowed(fileName: string, fileSize: number): void {
+  if (!fileName) {
+    throw new ValidationError('File name is required');
+  }
+  if (!fileSize || fileSize < 1) {
+    throw new ValidationError('File is empty');
+  }
+  if (fileSize > config.storage.maxUploadBytes) {
+    throw new ValidationError(
+      `File is too large. Maximum size is ${Math.floor(config.storage.maxUploadBytes / (1024 * 1024))} MB`
+    );
+  }
+}
+
+/**
+ * Stream a stored object back to the browser
+ * Content-Disposition carries an ASCII fallback plus the UTF-8 file name
+ */
+export function createObjectResponse(
+  object: StoredObject,
+  options: { fileName: string; contentType?: string | null; inline?: boolean }
+): NextResponse {
+  const asciiName = options.fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const disposition = options.inline ? 'inline' : 'attachment';
+
+  return new NextResponse(object.body, {
+    status: 200,
+    headers: {
+      'Content-Type': options.contentType || object.contentType,
+      'Content-Length': String(object.size),
+      'Content-Disposition': `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(options.fileName)}`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
+
+export { LocalStorageAdapter, verifyLocalSignature } from './local';
+export { S3StorageAdapter } from './s3';
@@ -0,0 +1,186 @@
+/**
+ * Local Filesystem Storage Adapter
+ * Stores objects on disk for development and tests
+ *
+ * Browser uploads go to /api/storage/local with an HMAC-signed query string,
+ * mirroring how presigned URLs work with S3
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+
+import { ValidationError } from '@/lib/errors';
+
+import { config } from '../config';
+
+import type { StorageAdapter, StoredObject, StoredObjectInfo } from './index';
+
+/**
+ * Route that serves signed local storage requests
+ */
+const LOCAL_STORAGE_ROUTE = '/api/storage/local';
+
+/**
+ * Local filesystem storage backend
+ * Content type is kept in a `.meta.json` sidecar next to each object
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly driver = 'local' as const;
+  private readonly root: string;
+
+  constructor(
+    directory: string,
+    private readonly secret: string
+  ) {
+    this.root = path.resolve(directory);
+  }
+
+  getObjectUrl(key: string): string {
+    return `file://${this.resolvePath(key)}`;
+  }
+
+  async createUploadUrl(key: string, contentType: string, size: number): Promise<string> {
+    this.resolvePath(key);
+    return createLocalSignedUrl('PUT', key, this.secret, { contentType, size });
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    const filePath = this.resolvePath(key);
+
+    try {
+      const stats = await stat(filePath);
+      return { size: stats.size, contentType: await this.readContentType(filePath) };
+    } catch {
+      return null;
+    }
+  }
+
+  async getObject(key: string): Promise<StoredObject | null> {
+    const info = await this.headObject(key);
+    if (!info) return null;
+
+    const stream = createReadStream(this.resolvePath(key));
+    return {
+      ...info,
+      body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+    };
+  }
+
+  async putObject(key: string, body: Uint8Array, contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+    await writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+
+    await rm(filePath, { force: true });
+    await rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  /**
+   * Resolve a key to a path inside the storage root
+   * Rejects keys that would escape the root directory
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep) || key.endsWith('.meta.json')) {
+      throw new ValidationError('Invalid storage key');
+    }
+
+    return filePath;
+  }
+
+  private async readContentType(filePath: string): Promise<string> {
+    try {
+      const meta = JSON.parse(await readFile(`${filePath}.meta.json`, 'utf8'));
+      return meta.contentType || 'application/octet-stream';
+    } catch {
+      return 'application/octet-stream';
+    }
+  }
+}
+
+/**
+ * Build the string that is signed for a local storage request
+ */
+function signaturePayload(
+  method: string,
+  key: string,
+  expires: number,
+  params: Record<string, string | number>
+): string {
+  const extra = Object.keys(params)
+    .sort()
+    .map((name) => `${name}=${params[name]}`)
+    .join('&');
+
+  return `${method}\n${key}\n${expires}\n${extra}`;
+}
+
+/**
+ * Create a signed URL for the local storage route
+ */
+function createLocalSignedUrl(
+  method: 'GET' | 'PUT',
+  key: string,
+  secret: string,
+  params: Record<string, string | number>
+): string {
+  const expires = Math.floor(Date.now() / 1000) + config.storage.uploadUrlExpiry;
+  const signature = createHmac('sha256', secret)
+    .update(signaturePayload(method, key, expires, params))
+    .digest('hex');
+
+  const query = new URLSearchParams({
+    key,
+    expires: String(expires),
+    ...Object.fromEntries(Object.entries(params).map(([name, value]) => [name, String(value)])),
+    signature,
+  });
+
+  return `${LOCAL_STORAGE_ROUTE}?${query.toString()}`;
+}
+
+/**
+ * Verify a signed local storage request
+ * Returns the signed key and parameters, or null if the signature is invalid or expired
+ */
+export function verifyLocalSignature(
+  method: 'GET' | 'PUT',
+  searchParams: URLSearchParams,
+  signedParamNames: string[]
+): { key: string; params: Record<string, string> } | null {
+  const key = searchParams.get('key');
+  const expires = Number(searchParams.get('expires'));
+  const signature = searchParams.get('signature');
+
+  if (!key || !signature || !expires || expires < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const name of signedParamNames) {
+    const value = searchParams.get(name);
+    if (value === null) return null;
+    params[name] = value;
+  }
+
+  const expected = createHmac('sha256', config.auth.sessionSecret)
+    .update(signaturePayload(method, key, expires, params))
+    .digest();
+  const provided = Buffer.from(signature, 'hex');
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  return { key, params };
+}
@@ -0,0 +1,114 @@
+/**
+ * S3 Storage Adapter
+ * Stores objects in AWS S3 and issues presigned URLs for browser uploads
+ */
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+import { ConfigurationError } from '@/lib/errors/system';
+
+import { config } from '../config';
+
+import type { StorageAdapter, StoredObject, StoredObjectInfo } from './index';
+
+/**
+ * S3 storage backend
+ * Credentials are resolved by the AWS SDK default provider chain
+ */
+export class S3StorageAdapter implements StorageAdapter {
+  readonly driver = 's3' as const;
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    private readonly region: string
+  ) {
+    if (!bucket) {
+      throw new ConfigurationError('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+    }
+
+    this.client = new S3Client({ region });
+  }
+
+  getObjectUrl(key: string): string {
+    return `https://${this.bucket}.s3.${this.region}.amazonaws.com/${encodeURI(key)}`;
+  }
+
+  async createUploadUrl(key: string, contentType: string, size: number): Promise<string> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: size,
+    });
+
+    return getSignedUrl(this.client, command, { expiresIn: config.storage.uploadUrlExpiry });
+  }
+
+  async headObject(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+
+      return {
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType || 'application/octet-stream',
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async getObject(key: string): Promise<StoredObject | null> {
+    try {
+      const result = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+
+      if (!result.Body) return null;
+
+      return {
+        body: result.Body.transformToWebStream(),
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType || 'application/octet-stream',
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async putObject(key: string, body: Uint8Array, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Check if an S3 error means the object does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof S3ServiceException && (error.name === 'NotFound' || error.name === 'NoSuchKey')
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * TOTP Utility
+ * Time-based one-time passwords (RFC 6238) and recovery codes for two-factor authentication
+ *
+ * Codes are 6 digits over a 30 second step using HMAC-SHA1, the defaults every
+ * authenticator app supports. Secrets are stored encrypted with the session secret.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto';
+
+import { config } from './config';
+
+/**
+ * TOTP configuration
+ */
+const TOTP_CONFIG = {
+  issuer: 'Argan HR',
+  digits: 6,
+  stepSeconds: 30,
+  window: 1, // Accept one step either side for clock drift
+  secretBytes: 20,
+  recoveryCodeCount: 10,
+};
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string (padding and spaces ignored)
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate the code for a single time step (RFC 4226 HOTP)
+ */
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** TOTP_CONFIG.digits).toString().padStart(TOTP_CONFIG.digits, '0');
+}
+
+/**
+ * Get the current time step
+ */
+function getCurrentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_CONFIG.stepSeconds);
+}
+
+/**
+ * Generate a new base32 TOTP secret
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_CONFIG.secretBytes));
+}
+
+/**
+ * Build the otpauth:// URI encoded in the enrolment QR code
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_CONFIG.issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_CONFIG.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_CONFIG.digits),
+    period: String(TOTP_CONFIG.stepSeconds),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Verify a TOTP code against a base32 secret
+ * Returns the matched time step, or null if the code is wrong or was already used
+ * Store the returned step and pass it back as lastUsedStep to stop replays
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null
+): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_CONFIG.digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getCurrentStep();
+
+  for (let offset = -TOTP_CONFIG.window; offset <= TOTP_CONFIG.window; offset++) {
+    const step = currentStep + offset;
+    if (lastUsedStep !== null && lastUsedStep !== undefined && step <= lastUsedStep) {
+      continue;
+    }
+    if (generateCode(key, step) === normalized) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Generate single-use recovery codes, formatted xxxxx-xxxxx
+ * Show these to the admin once; store only their hashes
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TOTP_CONFIG.recoveryCodeCount }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/**
+ * Hash a recovery code for storage and comparison
+ * Case, spaces and dashes are ignored so codes can be typed loosely
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Encrypt a TOTP secret for storage using AES-256-GCM
+ */
+export function encryptTotpSecret(secret: string): string {
+  const iv = randomBytes(16);
+  const key = Buffer.from(config.auth.sessionSecret, 'hex');
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  const authTag = cipher.getAuthTag();
+  return Buffer.concat([iv, authTag, encrypted]).toString('base64');
+}
+
+/**
+ * Decrypt a stored TOTP secret
+ */
+export function decryptTotpSecret(encryptedSecret: string): string {
+  const buffer = Buffer.from(encryptedSecret, 'base64');
+  const iv = buffer.subarray(0, 16);
+  const authTag = buffer.subarray(16, 32);
+  const encrypted = buffer.subarray(32);
+
+  const key = Buffer.from(config.auth.sessionSecret, 'hex');
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,42 @@
+/**
+ * Webhook events
+ * Pure data - safe to use in Server and Client Components
+ *
+ * Business services emit these through WebhookService; SUPER_ADMINs pick the
+ * events each subscription receives
+ */
+
+/**
+ * Every event a subscription can receive
+ */
+export const WEBHOOK_EVENTS = [
+  'client.created',
+  'client.status_changed',
+  'contract.activated',
+  'contract.archived',
+  'case.opened',
+  'case.closed',
+  'case.action_due_date_set',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/**
+ * When each event is sent, shown when creating a subscription
+ */
+export const WEBHOOK_EVENT_DESCRIPTIONS: Record<WebhookEvent, string> = {
+  'client.created': 'A client is created',
+  'client.status_changed': "A client's status changes",
+  'contract.activated': 'A contract is set active',
+  'contract.archived': 'A contract is archived',
+  'case.opened': 'A case is opened',
+  'case.closed': 'A case is closed',
+  'case.action_due_date_set': 'An action with a due date becomes the active action on a case',
+};
+
+/**
+ * Check whether a string is a known event
+ */
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
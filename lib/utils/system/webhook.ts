@@ -0,0 +1,116 @@
+/**
+ * Webhook Utility
+ * Infrastructure layer - signing and sending outbound webhook requests
+ *
+ * Each delivery is a JSON POST signed with the subscription's secret:
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ * Receivers recompute the HMAC and reject stale timestamps to prevent replays.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+
+import { config } from './config';
+
+/**
+ * Every secret starts with this, so leaked secrets are easy to recognise
+ */
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Longest response body kept in the delivery log
+ */
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+/**
+ * Delay before the first retry; doubles with each failed attempt
+ */
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+/**
+ * Longest delay between two attempts
+ */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export interface WebhookRequest {
+  deliveryId: string;
+  event: string;
+  url: string;
+  secret: string;
+  body: string;
+}
+
+export interface WebhookResponse {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
+}
+
+/**
+ * Generate a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Sign a payload: hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts (1 min, 2 min, 4 min, ... up to 6 hours)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * POST a signed webhook
+ * Never throws - network errors and timeouts are returned so they can be logged
+ * Any 2xx response counts as delivered
+ */
+export async function sendWebhook(request: WebhookRequest): Promise<WebhookResponse> {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Argan-HR-Webhooks/1.0',
+        'X-Webhook-Id': request.deliveryId,
+        'X-Webhook-Event': request.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `sha256=${signWebhookPayload(request.secret, timestamp, request.body)}`,
+      },
+      body: request.body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+
+    const body = await response.text().catch(() => '');
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body: body.slice(0, MAX_RESPONSE_BODY_LENGTH),
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'TimeoutError';
+
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: timedOut
+        ? `Timed out after ${config.webhooks.timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : 'Request failed',
+    };
+  }
+}
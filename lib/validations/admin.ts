@@ -30,6 +30,7 @@ export const createAdminSchema = z.object({
   password: passwordSchema,
   confirmPassword: z.string().min(1, 'Please confirm your password'),
   role: adminRoleSchema,
+  mustChangePassword: z.boolean(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ['confirmPassword'],
@@ -89,8 +90,33 @@ export const editAdminSchema = z.object({
   }
 );
 
+/**
+ * New password form validation schema (password reset and required change at login)
+ */
+export const newPasswordSchema = z.object({
+  password: passwordSchema,
+  confirmPassword: z.string().min(1, 'Please confirm your password'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+/**
+ * Change password form validation schema (account page)
+ */
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  password: passwordSchema,
+  confirmPassword: z.string().min(1, 'Please confirm your password'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
 /**
  * Infer TypeScript types from schemas
  */
 export type CreateAdminFormValues = z.infer<typeof createAdminSchema>;
 export type EditAdminFormValues = z.infer<typeof editAdminSchema>;
+export type NewPasswordFormValues = z.infer<typeof newPasswordSchema>;
+export type ChangePasswordFormValues = z.infer<typeof changePasswordSchema>;
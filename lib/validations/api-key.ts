@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+import { API_KEY_SCOPES } from '@/lib/utils/system/api-scopes';
+
+/**
+ * Create API key form validation schema
+ * Expiry is a YYYY-MM-DD date, or empty for a key that does not expire
+ */
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'Select at least one scope'),
+  expiresAt: z
+    .string()
+    .refine((value) => !value || /^\d{4}-\d{2}-\d{2}$/.test(value), 'Enter a valid date')
+    .refine(
+      (value) => !value || new Date(`${value}T23:59:59`) > new Date(),
+      'Expiry date must be in the future'
+    ),
+});
+
+/**
+ * TypeScript type inferred from the create API key schema
+ */
+export type CreateApiKeyFormValues = z.infer<typeof createApiKeySchema>;
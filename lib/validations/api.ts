@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+/**
+ * Query parameter schemas shared by the /api/v1 list endpoints
+ * Query values arrive as strings, so numbers are coerced
+ */
+
+/**
+ * Page and page size (page size capped at 100)
+ */
+export const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1, 'Page must be greater than 0').default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .default(25),
+});
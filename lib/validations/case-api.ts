@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+import { paginationQuerySchema } from '@/lib/validations/api';
+
+import type { CreateCaseInput, CreateInteractionInput, UpdateCaseInput } from '@/lib/types/case';
+
+/**
+ * Request body schemas for the /api/v1 cases API
+ * Typed against the service inputs so the API and caseService cannot drift apart
+ */
+
+const caseStatusSchema = z.enum(['OPEN', 'AWAITING', 'CLOSED']);
+const caseOutcomeSchema = z.enum(['RESOLVED', 'SETTLED', 'TRIBUNAL', 'WITHDRAWN', 'OTHER']);
+const actionPartySchema = z.enum(['ARGAN', 'CLIENT', 'CONTRACTOR', 'EMPLOYEE', 'THIRD_PARTY']);
+const caseTypeSchema = z.enum([
+  'DISCIPLINARY',
+  'GRIEVANCE',
+  'ABSENCE_CAPABILITY',
+  'REDUNDANCY',
+  'TUPE',
+  'SETTLEMENT_AGREEMENT',
+  'RECRUITMENT',
+  'POLICY_QUERY',
+  'OTHER',
+]);
+// Values are checked against the case type's field definitions by caseService
+const caseTypeFieldsSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean()]).nullable()
+);
+const interactionTypeSchema = z.enum([
+  'PHONE_CALL',
+  'VIDEO_CALL',
+  'MEETING',
+  'EMAIL',
+  'LETTER',
+  'NOTE',
+]);
+const interactionDirectionSchema = z.enum(['INBOUND', 'OUTBOUND']);
+
+/**
+ * Case fields (create)
+ */
+export const createCaseApiSchema: z.ZodType<CreateCaseInput> = z.strictObject({
+  clientId: z.number().int().positive('Client ID must be a positive integer'),
+  title: z.string().trim().min(1, 'Title is required'),
+  escalatedBy: z.string().trim().min(1, 'Escalated by is required'),
+  assignedTo: z.string().trim().nullable().optional(),
+  // A case cannot be opened as closed
+  status: z.enum(['OPEN', 'AWAITING']).optional(),
+  actionRequiredBy: actionPartySchema.nullable().optional(),
+  actionRequired: z.string().trim().nullable().optional(),
+  description: z.string().trim().nullable().optional(),
+  type: caseTypeSchema.nullable().optional(),
+  typeFields: caseTypeFieldsSchema.optional(),
+});
+
+/**
+ * Interaction fields (create) - the case comes from the URL
+ */
+export const createInteractionApiSchema: z.ZodType<Omit<CreateInteractionInput, 'caseId'>> =
+  z.strictObject({
+    party1Name: z.string().trim().min(1, 'Party 1 name is required'),
+    party1Type: actionPartySchema,
+    party2Name: z.string().trim().min(1, 'Party 2 name is required'),
+    party2Type: actionPartySchema,
+    content: z.string().trim().min(1, 'Content is required'),
+    type: interactionTypeSchema.optional(),
+    direction: interactionDirectionSchema.nullable().optional(),
+    startedAt: z.iso.datetime({ offset: true }).nullable().optional(),
+    durationMinutes: z
+      .number()
+      .int()
+      .positive('Duration must be a whole number of minutes greater than zero')
+      .nullable()
+      .optional(),
+    actionRequired: z.string().trim().nullable().optional(),
+    actionRequiredBy: actionPartySchema.nullable().optional(),
+    actionRequiredByDate: z.iso.date().nullable().optional(),
+  });
+
+/**
+ * Case status change - closing needs a reason and an outcome, reopening a reason
+ */
+export const caseStatusApiSchema: z.ZodType<
+  Required<Pick<UpdateCaseInput, 'status'>> & Pick<UpdateCaseInput, 'statusReason' | 'outcome'>
+> = z.strictObject({
+  status: caseStatusSchema,
+  statusReason: z.string().trim().nullable().optional(),
+  outcome: caseOutcomeSchema.nullable().optional(),
+});
+
+/**
+ * Case status report query parameters - dates bound when cases were closed (inclusive)
+ */
+export const caseStatusReportQuerySchema = z.object({
+  clientId: z.coerce.number().int().positive('Client ID must be a positive integer').optional(),
+  closedFrom: z.iso.date().optional(),
+  closedTo: z.iso.date().optional(),
+});
+
+/**
+ * Case list query parameters
+ */
+export const listCasesQuerySchema = paginationQuerySchema.extend({
+  clientId: z.coerce.number().int().positive('Client ID must be a positive integer').optional(),
+  status: caseStatusSchema.optional(),
+  type: caseTypeSchema.optional(),
+  assignedTo: z.string().trim().min(1).optional(),
+});
@@ -0,0 +1,119 @@
+import { z } from 'zod';
+
+import { paginationQuerySchema } from '@/lib/validations/api';
+
+/**
+ * Request body schemas for the /api/v1 clients API
+ * Dates are YYYY-MM-DD strings; unknown fields are rejected so typos are not silently ignored
+ */
+
+const clientStatusSchema = z.enum(['ACTIVE', 'INACTIVE', 'PENDING']);
+const serviceTierSchema = z.enum(['TIER_1', 'DOC_ONLY', 'AD_HOC']);
+const clientTypeSchema = z.enum(['COMPANY', 'INDIVIDUAL']);
+const paymentMethodSchema = z.enum(['INVOICE', 'DIRECT_DEBIT']);
+const contactTypeSchema = z.enum(['SERVICE', 'INVOICE']);
+const addressTypeSchema = z.enum(['SERVICE', 'INVOICE']);
+
+const dateSchema = z.iso.date().transform((value) => new Date(`${value}T00:00:00.000Z`));
+
+/**
+ * Contact fields (create)
+ */
+export const createContactApiSchema = z.strictObject({
+  type: contactTypeSchema,
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z.email('Invalid email format'),
+  phone: z.string().trim().optional(),
+  role: z.string().trim().optional(),
+});
+
+/**
+ * Contact fields (update) - all optional; null clears phone or role
+ */
+export const updateContactApiSchema = z.strictObject({
+  name: z.string().trim().min(1, 'Name cannot be empty').optional(),
+  email: z.email('Invalid email format').optional(),
+  phone: z.string().trim().nullable().optional(),
+  role: z.string().trim().nullable().optional(),
+});
+
+/**
+ * Address fields (create)
+ */
+export const createAddressApiSchema = z.strictObject({
+  type: addressTypeSchema,
+  addressLine1: z.string().trim().min(1, 'Address line 1 is required'),
+  addressLine2: z.string().trim().optional(),
+  city: z.string().trim().min(1, 'City is required'),
+  postcode: z.string().trim().min(1, 'Postcode is required'),
+  country: z.string().trim().min(1, 'Country cannot be empty').default('United Kingdom'),
+});
+
+/**
+ * Address fields (update) - all optional; null clears line 2
+ */
+export const updateAddressApiSchema = z.strictObject({
+  type: addressTypeSchema.optional(),
+  addressLine1: z.string().trim().min(1, 'Address line 1 cannot be empty').optional(),
+  addressLine2: z.string().trim().nullable().optional(),
+  city: z.string().trim().min(1, 'City cannot be empty').optional(),
+  postcode: z.string().trim().min(1, 'Postcode cannot be empty').optional(),
+  country: z.string().trim().min(1, 'Country cannot be empty').optional(),
+});
+
+/**
+ * Client fields (create), with optional contacts and addresses
+ */
+export const createClientApiSchema = z.strictObject({
+  clientType: clientTypeSchema.optional(),
+  companyName: z.string().trim().min(1, 'Company name is required'),
+  businessId: z.string().trim().optional(),
+  sector: z.string().trim().optional(),
+  serviceTier: serviceTierSchema,
+  monthlyRetainer: z.number().nonnegative().optional(),
+  contractStartDate: dateSchema.optional(),
+  contractRenewalDate: dateSchema.optional(),
+  status: clientStatusSchema.optional(),
+  paymentMethod: paymentMethodSchema.optional(),
+  chargeVat: z.boolean().optional(),
+  contacts: z.array(createContactApiSchema).default([]),
+  addresses: z.array(createAddressApiSchema).optional(),
+});
+
+/**
+ * Client fields (update) - all optional; status is changed through its own endpoint
+ */
+export const updateClientApiSchema = z.strictObject({
+  clientType: clientTypeSchema.optional(),
+  companyName: z.string().trim().min(1, 'Company name cannot be empty').optional(),
+  businessId: z.string().trim().optional(),
+  sector: z.string().trim().optional(),
+  serviceTier: serviceTierSchema.optional(),
+  monthlyRetainer: z.number().nonnegative().optional(),
+  contractStartDate: dateSchema.optional(),
+  contractRenewalDate: dateSchema.optional(),
+  paymentMethod: paymentMethodSchema.optional(),
+  chargeVat: z.boolean().optional(),
+  directDebitSetup: z.boolean().optional(),
+  directDebitConfirmed: z.boolean().optional(),
+  contractAddedToXero: z.boolean().optional(),
+  recurringInvoiceSetup: z.boolean().optional(),
+  dpaSignedGdpr: z.boolean().optional(),
+  firstInvoiceSent: z.boolean().optional(),
+  firstPaymentMade: z.boolean().optional(),
+});
+
+/**
+ * Client status change
+ */
+export const clientStatusApiSchema = z.strictObject({
+  status: clientStatusSchema,
+});
+
+/**
+ * Client list query parameters
+ */
+export const listClientsQuerySchema = paginationQuerySchema.extend({
+  search: z.string().trim().optional(),
+  status: clientStatusSchema.optional(),
+});
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+import { getUnknownMergeFields } from '@/lib/utils/business/document-template';
+
+/**
+ * Document template form validation schema
+ * Merge fields are checked against the ones the chosen kind of template can use
+ */
+export const documentTemplateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+    description: z.string().trim().max(500, 'Description is too long'),
+    entityType: z.enum(['CLIENT', 'CONTRACT', 'CASE']),
+    category: z.enum(['CONTRACT', 'POLICY', 'HANDBOOK', 'CORRESPONDENCE', 'OTHER']),
+    body: z.string().refine((body) => body.trim().length > 0, 'Template text is required'),
+    active: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    const unknown = getUnknownMergeFields(values.entityType, values.body);
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['body'],
+        message: `Unknown merge fields: ${unknown.map((key) => `{{${key}}}`).join(', ')}`,
+      });
+    }
+  });
+
+/**
+ * TypeScript type inferred from the document template schema
+ */
+export type DocumentTemplateFormValues = z.infer<typeof documentTemplateSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+import { WEBHOOK_EVENTS } from '@/lib/utils/system/webhook-events';
+
+/**
+ * Create webhook form validation schema
+ */
+export const createWebhookSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name is too long'),
+  url: z.url({
+    protocol: /^https?$/,
+    error: 'Enter a URL starting with http:// or https://',
+  }),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'Select at least one event'),
+});
+
+/**
+ * TypeScript type inferred from the create webhook schema
+ */
+export type CreateWebhookFormValues = z.infer<typeof createWebhookSchema>;
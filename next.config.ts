@@ -7,6 +7,9 @@ const nextConfig: NextConfig = {
   // Force Next.js to use this project's lockfile instead of parent directory's
   outputFileTracingRoot: process.cwd(),
 
+  // PDF rendering loads font data and a DOM from these packages' files at runtime
+  serverExternalPackages: ['jsdom', 'pdfmake'],
+
   // Skip ESLint during builds - we run it separately with npm run lint
   eslint: {
     ignoreDuringBuilds: true,
@@ -46,7 +49,7 @@ const nextConfig: NextConfig = {
               "style-src 'self' 'unsafe-inline'",
               "img-src 'self' data: blob:",
               "font-src 'self'",
-              "connect-src 'self'",
+              "connect-src 'self' https://*.amazonaws.com", // Direct-to-S3 file uploads
               "frame-ancestors 'none'",
               "base-uri 'self'",
               "form-action 'self'",
@@ -54,6 +57,21 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      {
+        // Case files may be framed by our own pages for inline PDF previews
+        // (later rules override matching keys from the rule above)
+        source: '/api/clients/:id/files/:fileId',
+        headers: [
+          {
+            key: 'X-Frame-Options',
+            value: 'SAMEORIGIN',
+          },
+          {
+            key: 'Content-Security-Policy',
+            value: "frame-ancestors 'self'",
+          },
+        ],
+      },
     ];
   },
 };
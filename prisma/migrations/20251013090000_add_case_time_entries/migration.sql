@@ -0,0 +1,27 @@
+-- CreateEnum: Work category for time entries
+CREATE TYPE "WorkCategory" AS ENUM ('hr_admin', 'employment_law');
+
+-- CreateTable: Time spent on case interactions
+CREATE TABLE "case_time_entries" (
+    "id" SERIAL NOT NULL,
+    "case_id" INTEGER NOT NULL,
+    "interaction_id" INTEGER NOT NULL,
+    "category" "WorkCategory" NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "billable" BOOLEAN NOT NULL DEFAULT true,
+    "description" TEXT,
+    "work_date" DATE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recorded_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_time_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "case_time_entries_case_id_idx" ON "case_time_entries"("case_id");
+CREATE INDEX "case_time_entries_interaction_id_idx" ON "case_time_entries"("interaction_id");
+CREATE INDEX "case_time_entries_work_date_idx" ON "case_time_entries"("work_date");
+
+-- AddForeignKey
+ALTER TABLE "case_time_entries" ADD CONSTRAINT "case_time_entries_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "case_time_entries" ADD CONSTRAINT "case_time_entries_interaction_id_fkey" FOREIGN KEY ("interaction_id") REFERENCES "case_interactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
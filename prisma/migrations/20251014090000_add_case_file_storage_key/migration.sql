@@ -0,0 +1,4 @@
+-- AlterTable: Track storage backend key and content type for case files
+-- Nullable so existing records with only a file URL are preserved
+ALTER TABLE "case_files" ADD COLUMN "storage_key" TEXT;
+ALTER TABLE "case_files" ADD COLUMN "content_type" TEXT;
@@ -0,0 +1,23 @@
+-- CreateEnum: How a case file was accessed
+CREATE TYPE "FileAccessType" AS ENUM ('download', 'preview');
+
+-- CreateTable: Access log for case files
+CREATE TABLE "case_file_accesses" (
+    "id" SERIAL NOT NULL,
+    "file_id" INTEGER NOT NULL,
+    "access_type" "FileAccessType" NOT NULL,
+    "admin_id" TEXT NOT NULL,
+    "accessed_by" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "accessed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_file_accesses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "case_file_accesses_file_id_idx" ON "case_file_accesses"("file_id");
+CREATE INDEX "case_file_accesses_accessed_at_idx" ON "case_file_accesses"("accessed_at");
+
+-- AddForeignKey
+ALTER TABLE "case_file_accesses" ADD CONSTRAINT "case_file_accesses_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "case_files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum: Client document categories
+CREATE TYPE "ClientDocumentCategory" AS ENUM ('contract', 'policy', 'handbook', 'correspondence', 'other');
+
+-- CreateTable: Documents held for each client
+CREATE TABLE "client_documents" (
+    "id" SERIAL NOT NULL,
+    "client_id" INTEGER NOT NULL,
+    "category" "ClientDocumentCategory" NOT NULL,
+    "title" TEXT NOT NULL,
+    "version" TEXT NOT NULL DEFAULT 'V1.0',
+    "file_name" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "uploaded_by" TEXT NOT NULL,
+    "uploaded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "client_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_documents_storage_key_key" ON "client_documents"("storage_key");
+CREATE INDEX "client_documents_client_id_idx" ON "client_documents"("client_id");
+CREATE INDEX "client_documents_category_idx" ON "client_documents"("category");
+
+-- AddForeignKey
+ALTER TABLE "client_documents" ADD CONSTRAINT "client_documents_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- Policy and handbook versioning
+-- Existing rows only have a number and client; they become untitled drafts with no file
+
+-- CreateEnum: Lifecycle of a policy or handbook version
+CREATE TYPE "PolicyStatus" AS ENUM ('draft', 'issued', 'superseded');
+
+-- CreateEnum: Policy subject area
+CREATE TYPE "PolicyType" AS ENUM ('holiday', 'sickness_absence', 'disciplinary', 'grievance', 'equality_diversity', 'health_safety', 'data_protection', 'family_leave', 'flexible_working', 'code_of_conduct', 'other');
+
+-- AlterTable: Policies
+ALTER TABLE "policies" ADD COLUMN "title" TEXT NOT NULL DEFAULT 'Untitled policy';
+ALTER TABLE "policies" ALTER COLUMN "title" DROP DEFAULT;
+ALTER TABLE "policies" ADD COLUMN "policy_type" "PolicyType" NOT NULL DEFAULT 'other';
+ALTER TABLE "policies" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "policies" ADD COLUMN "status" "PolicyStatus" NOT NULL DEFAULT 'draft';
+ALTER TABLE "policies" ADD COLUMN "effective_date" DATE;
+ALTER TABLE "policies" ADD COLUMN "next_review_date" DATE;
+ALTER TABLE "policies" ADD COLUMN "author_id" TEXT;
+ALTER TABLE "policies" ADD COLUMN "supersedes_id" INTEGER;
+ALTER TABLE "policies" ADD COLUMN "file_name" TEXT;
+ALTER TABLE "policies" ADD COLUMN "storage_key" TEXT;
+ALTER TABLE "policies" ADD COLUMN "content_type" TEXT;
+ALTER TABLE "policies" ADD COLUMN "file_size" INTEGER;
+
+-- AlterTable: Handbooks
+ALTER TABLE "handbooks" ADD COLUMN "title" TEXT NOT NULL DEFAULT 'Employee Handbook';
+ALTER TABLE "handbooks" ALTER COLUMN "title" DROP DEFAULT;
+ALTER TABLE "handbooks" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "handbooks" ADD COLUMN "status" "PolicyStatus" NOT NULL DEFAULT 'draft';
+ALTER TABLE "handbooks" ADD COLUMN "effective_date" DATE;
+ALTER TABLE "handbooks" ADD COLUMN "next_review_date" DATE;
+ALTER TABLE "handbooks" ADD COLUMN "author_id" TEXT;
+ALTER TABLE "handbooks" ADD COLUMN "supersedes_id" INTEGER;
+ALTER TABLE "handbooks" ADD COLUMN "file_name" TEXT;
+ALTER TABLE "handbooks" ADD COLUMN "storage_key" TEXT;
+ALTER TABLE "handbooks" ADD COLUMN "content_type" TEXT;
+ALTER TABLE "handbooks" ADD COLUMN "file_size" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "policies_supersedes_id_key" ON "policies"("supersedes_id");
+CREATE INDEX "policies_status_idx" ON "policies"("status");
+CREATE INDEX "policies_next_review_date_idx" ON "policies"("next_review_date");
+CREATE UNIQUE INDEX "handbooks_supersedes_id_key" ON "handbooks"("supersedes_id");
+CREATE INDEX "handbooks_status_idx" ON "handbooks"("status");
+CREATE INDEX "handbooks_next_review_date_idx" ON "handbooks"("next_review_date");
+
+-- AddForeignKey
+ALTER TABLE "policies" ADD CONSTRAINT "policies_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "policies" ADD CONSTRAINT "policies_supersedes_id_fkey" FOREIGN KEY ("supersedes_id") REFERENCES "policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "handbooks" ADD CONSTRAINT "handbooks_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "handbooks" ADD CONSTRAINT "handbooks_supersedes_id_fkey" FOREIGN KEY ("supersedes_id") REFERENCES "handbooks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- Internal documents library with archived previous versions
+-- Both tables only ever held placeholder numbers with no document behind them, so existing rows are cleared
+
+-- CreateEnum: Internal document type
+CREATE TYPE "InternalDocumentType" AS ENUM ('policy', 'contract', 'template', 'form', 'guidance', 'training', 'compliance', 'other');
+
+-- Clear placeholder rows
+DELETE FROM "archives";
+DELETE FROM "internals";
+
+-- AlterTable: Internals
+ALTER TABLE "internals" ALTER COLUMN "client_id" DROP NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "type" "InternalDocumentType" NOT NULL DEFAULT 'other';
+ALTER TABLE "internals" ADD COLUMN "title" TEXT NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "internals" ADD COLUMN "file_name" TEXT NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "storage_key" TEXT NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "content_type" TEXT NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "file_size" INTEGER NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "uploaded_by" TEXT NOT NULL;
+ALTER TABLE "internals" ADD COLUMN "uploaded_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable: Archives
+ALTER TABLE "archives" ALTER COLUMN "client_id" DROP NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "internal_id" INTEGER;
+ALTER TABLE "archives" ADD COLUMN "type" "InternalDocumentType" NOT NULL DEFAULT 'other';
+ALTER TABLE "archives" ADD COLUMN "title" TEXT NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "version" INTEGER NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "file_name" TEXT NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "storage_key" TEXT NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "content_type" TEXT NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "file_size" INTEGER NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "uploaded_by" TEXT NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "uploaded_at" TIMESTAMP(3) NOT NULL;
+ALTER TABLE "archives" ADD COLUMN "archived_by" TEXT NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "internals_storage_key_key" ON "internals"("storage_key");
+CREATE INDEX "internals_type_idx" ON "internals"("type");
+CREATE UNIQUE INDEX "archives_storage_key_key" ON "archives"("storage_key");
+CREATE INDEX "archives_internal_id_idx" ON "archives"("internal_id");
+
+-- AddForeignKey
+ALTER TABLE "archives" ADD CONSTRAINT "archives_internal_id_fkey" FOREIGN KEY ("internal_id") REFERENCES "internals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
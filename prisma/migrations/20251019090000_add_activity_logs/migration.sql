@@ -0,0 +1,40 @@
+-- CreateEnum: Entities recorded in the activity log
+CREATE TYPE "ActivityEntityType" AS ENUM ('client', 'contact', 'address', 'contract', 'case', 'interaction', 'file', 'admin');
+
+-- CreateEnum: Activity log actions
+CREATE TYPE "ActivityAction" AS ENUM ('create', 'update', 'delete');
+
+-- CreateTable: Append-only log of data changes
+CREATE TABLE "activity_logs" (
+    "id" SERIAL NOT NULL,
+    "actor_id" TEXT,
+    "actor_name" TEXT NOT NULL,
+    "entity_type" "ActivityEntityType" NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "entity_label" TEXT,
+    "action" "ActivityAction" NOT NULL,
+    "changes" JSONB NOT NULL DEFAULT '{}',
+    "client_id" INTEGER,
+    "case_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_logs_entity_type_entity_id_idx" ON "activity_logs"("entity_type", "entity_id");
+CREATE INDEX "activity_logs_client_id_idx" ON "activity_logs"("client_id");
+CREATE INDEX "activity_logs_case_id_idx" ON "activity_logs"("case_id");
+CREATE INDEX "activity_logs_actor_id_idx" ON "activity_logs"("actor_id");
+CREATE INDEX "activity_logs_created_at_idx" ON "activity_logs"("created_at");
+
+-- Enforce append-only: rows can be inserted but never updated or deleted
+CREATE FUNCTION "activity_logs_append_only"() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'activity_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "activity_logs_no_update_or_delete"
+    BEFORE UPDATE OR DELETE ON "activity_logs"
+    FOR EACH ROW EXECUTE FUNCTION "activity_logs_append_only"();
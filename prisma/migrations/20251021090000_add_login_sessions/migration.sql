@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "SessionRevokeReason" AS ENUM ('logout', 'revoked', 'admin_deactivated', 'role_changed');
+
+-- CreateTable
+CREATE TABLE "login_sessions" (
+    "id" TEXT NOT NULL,
+    "admin_id" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "revoked_reason" "SessionRevokeReason",
+
+    CONSTRAINT "login_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_sessions_admin_id_revoked_at_idx" ON "login_sessions"("admin_id", "revoked_at");
+
+-- CreateIndex
+CREATE INDEX "login_sessions_expires_at_idx" ON "login_sessions"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "login_sessions" ADD CONSTRAINT "login_sessions_admin_id_fkey" FOREIGN KEY ("admin_id") REFERENCES "admins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SecurityEventType" AS ENUM ('login_success', 'login_failed', 'account_locked', 'account_unlocked', 'logout', 'password_changed', 'role_changed');
+
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" SERIAL NOT NULL,
+    "admin_id" TEXT,
+    "email" TEXT NOT NULL,
+    "type" "SecurityEventType" NOT NULL,
+    "details" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "actor_id" TEXT,
+    "actor_name" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "security_events_admin_id_created_at_idx" ON "security_events"("admin_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_type_created_at_idx" ON "security_events"("type", "created_at");
+
+-- CreateIndex
+CREATE INDEX "security_events_created_at_idx" ON "security_events"("created_at");
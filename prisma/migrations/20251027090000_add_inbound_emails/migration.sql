@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "InboundEmailStatus" AS ENUM ('filed', 'unmatched', 'dismissed');
+
+-- CreateTable
+CREATE TABLE "inbound_emails" (
+    "id" SERIAL NOT NULL,
+    "message_id" TEXT,
+    "from_address" TEXT NOT NULL,
+    "from_name" TEXT,
+    "to_addresses" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "cc_addresses" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "subject" TEXT NOT NULL,
+    "sent_at" TIMESTAMP(3),
+    "body_text" TEXT NOT NULL,
+    "attachment_count" INTEGER NOT NULL DEFAULT 0,
+    "raw_storage_key" TEXT NOT NULL,
+    "raw_size" INTEGER NOT NULL,
+    "status" "InboundEmailStatus" NOT NULL DEFAULT 'unmatched',
+    "triage_reason" TEXT,
+    "client_id" INTEGER,
+    "case_id" INTEGER,
+    "interaction_id" INTEGER,
+    "received_by" TEXT NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processed_by" TEXT,
+    "processed_at" TIMESTAMP(3),
+
+    CONSTRAINT "inbound_emails_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_emails_message_id_key" ON "inbound_emails"("message_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inbound_emails_interaction_id_key" ON "inbound_emails"("interaction_id");
+
+-- CreateIndex
+CREATE INDEX "inbound_emails_status_received_at_idx" ON "inbound_emails"("status", "received_at");
+
+-- CreateIndex
+CREATE INDEX "inbound_emails_client_id_idx" ON "inbound_emails"("client_id");
+
+-- CreateIndex
+CREATE INDEX "inbound_emails_case_id_idx" ON "inbound_emails"("case_id");
+
+-- AddForeignKey
+ALTER TABLE "inbound_emails" ADD CONSTRAINT "inbound_emails_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inbound_emails" ADD CONSTRAINT "inbound_emails_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inbound_emails" ADD CONSTRAINT "inbound_emails_interaction_id_fkey" FOREIGN KEY ("interaction_id") REFERENCES "case_interactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
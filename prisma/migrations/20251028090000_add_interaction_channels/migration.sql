@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "InteractionType" AS ENUM ('phone_call', 'video_call', 'meeting', 'email', 'letter', 'note');
+
+-- CreateEnum
+CREATE TYPE "InteractionDirection" AS ENUM ('inbound', 'outbound');
+
+-- AlterTable
+ALTER TABLE "case_interactions" ADD COLUMN     "type" "InteractionType" NOT NULL DEFAULT 'note',
+ADD COLUMN     "direction" "InteractionDirection",
+ADD COLUMN     "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "duration_minutes" INTEGER;
+
+-- Backfill: existing interactions took place when they were recorded
+UPDATE "case_interactions" SET "started_at" = "created_at";
+
+-- CreateIndex
+CREATE INDEX "case_interactions_type_started_at_idx" ON "case_interactions"("type", "started_at");
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "CaseOutcome" AS ENUM ('resolved', 'settled', 'tribunal', 'withdrawn', 'other');
+
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "outcome" "CaseOutcome",
+ADD COLUMN     "closed_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "case_status_changes" (
+    "id" SERIAL NOT NULL,
+    "case_id" INTEGER NOT NULL,
+    "from_status" "CaseStatus",
+    "to_status" "CaseStatus" NOT NULL,
+    "reason" TEXT,
+    "outcome" "CaseOutcome",
+    "changed_by_id" TEXT,
+    "changed_by" TEXT NOT NULL,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "case_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "case_status_changes_case_id_changed_at_idx" ON "case_status_changes"("case_id", "changed_at");
+
+-- CreateIndex
+CREATE INDEX "case_status_changes_to_status_changed_at_idx" ON "case_status_changes"("to_status", "changed_at");
+
+-- AddForeignKey
+ALTER TABLE "case_status_changes" ADD CONSTRAINT "case_status_changes_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing case was opened when it was created
+INSERT INTO "case_status_changes" ("case_id", "from_status", "to_status", "changed_by", "changed_at")
+SELECT "id", NULL, 'OPEN', "escalated_by", "created_at" FROM "cases";
+
+-- Backfill: cases already moved on from OPEN are assumed to have done so at their last update
+INSERT INTO "case_status_changes" ("case_id", "from_status", "to_status", "reason", "changed_by", "changed_at")
+SELECT "id", 'OPEN', "status", 'Recorded before status history was kept', 'System', "updated_at"
+FROM "cases" WHERE "status" <> 'OPEN';
+
+UPDATE "cases" SET "closed_at" = "updated_at" WHERE "status" = 'CLOSED';
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "CaseType" AS ENUM ('disciplinary', 'grievance', 'absence_capability', 'redundancy', 'tupe', 'settlement_agreement', 'recruitment', 'policy_query', 'other');
+
+-- AlterTable
+ALTER TABLE "cases" ADD COLUMN     "type" "CaseType",
+ADD COLUMN     "type_fields" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateIndex
+CREATE INDEX "cases_type_idx" ON "cases"("type");
@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "ProcessTemplate" AS ENUM ('disciplinary', 'grievance');
+
+-- CreateEnum
+CREATE TYPE "ProcessStepStatus" AS ENUM ('pending', 'completed', 'skipped');
+
+-- CreateTable
+CREATE TABLE "case_processes" (
+    "id" SERIAL NOT NULL,
+    "case_id" INTEGER NOT NULL,
+    "template" "ProcessTemplate" NOT NULL,
+    "interaction_id" INTEGER,
+    "started_by_id" TEXT,
+    "started_by" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "case_processes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "case_process_steps" (
+    "id" SERIAL NOT NULL,
+    "process_id" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "action_party" "ActionParty" NOT NULL,
+    "due_in_days" INTEGER NOT NULL,
+    "due_date" DATE NOT NULL,
+    "document_template" TEXT,
+    "status" "ProcessStepStatus" NOT NULL DEFAULT 'pending',
+    "note" TEXT,
+    "completed_by_id" TEXT,
+    "completed_by" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "interaction_id" INTEGER,
+
+    CONSTRAINT "case_process_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "case_processes_interaction_id_key" ON "case_processes"("interaction_id");
+
+-- CreateIndex
+CREATE INDEX "case_processes_case_id_idx" ON "case_processes"("case_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "case_process_steps_interaction_id_key" ON "case_process_steps"("interaction_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "case_process_steps_process_id_position_key" ON "case_process_steps"("process_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "case_processes" ADD CONSTRAINT "case_processes_case_id_fkey" FOREIGN KEY ("case_id") REFERENCES "cases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "case_processes" ADD CONSTRAINT "case_processes_interaction_id_fkey" FOREIGN KEY ("interaction_id") REFERENCES "case_interactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "case_process_steps" ADD CONSTRAINT "case_process_steps_process_id_fkey" FOREIGN KEY ("process_id") REFERENCES "case_processes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "case_process_steps" ADD CONSTRAINT "case_process_steps_interaction_id_fkey" FOREIGN KEY ("interaction_id") REFERENCES "case_interactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "DocumentTemplateEntity" AS ENUM ('client', 'contract', 'case');
+
+-- AlterEnum
+ALTER TYPE "ActivityEntityType" ADD VALUE 'template';
+
+-- AlterTable
+ALTER TABLE "client_documents" ADD COLUMN     "contract_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "document_templates" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "entity_type" "DocumentTemplateEntity" NOT NULL,
+    "category" "ClientDocumentCategory" NOT NULL DEFAULT 'correspondence',
+    "body" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by" TEXT NOT NULL,
+    "updated_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "client_documents_contract_id_idx" ON "client_documents"("contract_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_templates_name_key" ON "document_templates"("name");
+
+-- CreateIndex
+CREATE INDEX "document_templates_entity_type_idx" ON "document_templates"("entity_type");
+
+-- AddForeignKey
+ALTER TABLE "client_documents" ADD CONSTRAINT "client_documents_contract_id_fkey" FOREIGN KEY ("contract_id") REFERENCES "contracts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
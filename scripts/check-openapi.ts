@@ -0,0 +1,126 @@
+/**
+ * Check: OpenAPI Specification vs Route Handlers
+ *
+ * Compares API_V1_OPERATIONS (lib/utils/system/openapi.ts) with the route
+ * handlers under app/api/v1 and fails when they disagree:
+ * 1. A handler with no operation in the spec
+ * 2. An operation in the spec with no handler
+ * 3. A handler that requires a different scope than the spec documents
+ * 4. A handler not wrapped in withExternalApi
+ *
+ * Run with: npm run check:openapi
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import { join, relative, sep } from 'path';
+
+import { API_V1_OPERATIONS } from '@/lib/utils/system/openapi';
+
+const API_ROOT = join(process.cwd(), 'app', 'api', 'v1');
+
+// Routes that are not part of the documented API
+const UNDOCUMENTED_PATHS = ['/openapi.json'];
+
+interface HandlerInfo {
+  file: string;
+  scope: string | null;
+  wrapped: boolean;
+}
+
+/**
+ * Find every route.ts below a directory
+ */
+function findRouteFiles(dir: string): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(path);
+    return entry.name === 'route.ts' ? [path] : [];
+  });
+}
+
+/**
+ * Turn a route file into its API path: clients/[id]/route.ts -> /clients/{id}
+ */
+function toApiPath(file: string): string {
+  const segments = relative(API_ROOT, file).split(sep).slice(0, -1);
+  return '/' + segments.map((segment) => segment.replace(/^\[(\w+)\]$/, '{$1}')).join('/');
+}
+
+/**
+ * Read the exported HTTP methods of a route file with the scope each requires
+ */
+function readHandlers(file: string): Map<string, HandlerInfo> {
+  const source = readFileSync(file, 'utf8');
+  const handlers = new Map<string, HandlerInfo>();
+
+  for (const [, method] of source.matchAll(
+    /export (?:const|async function) (GET|POST|PUT|PATCH|DELETE)\b/g
+  )) {
+    handlers.set(method.toLowerCase(), { file, scope: null, wrapped: false });
+  }
+
+  for (const [, method, scope] of source.matchAll(
+    /export const (GET|POST|PUT|PATCH|DELETE) = withExternalApi(?:<[^>]*>)?\(\s*(?:'([^']*)')?\s*\)/g
+  )) {
+    handlers.set(method.toLowerCase(), { file, scope: scope ?? null, wrapped: true });
+  }
+
+  return handlers;
+}
+
+function checkOpenApi() {
+  console.log('🔍 Checking /api/v1 route handlers against the OpenAPI specification...\n');
+
+  const problems: string[] = [];
+  const handlers = new Map<string, HandlerInfo>();
+
+  for (const file of findRouteFiles(API_ROOT)) {
+    const path = toApiPath(file);
+    if (UNDOCUMENTED_PATHS.includes(path)) continue;
+
+    for (const [method, info] of readHandlers(file)) {
+      handlers.set(`${method.toUpperCase()} ${path}`, info);
+    }
+  }
+
+  const documented = new Set<string>();
+
+  for (const operation of API_V1_OPERATIONS) {
+    const key = `${operation.method.toUpperCase()} ${operation.path}`;
+    documented.add(key);
+
+    const handler = handlers.get(key);
+    if (!handler) {
+      problems.push(`${key}: documented but no route handler exists`);
+      continue;
+    }
+    if (!handler.wrapped) {
+      problems.push(`${key}: handler is not wrapped in withExternalApi`);
+      continue;
+    }
+    if (handler.scope !== operation.scope) {
+      problems.push(
+        `${key}: handler requires scope ${handler.scope ?? '(none)'}, spec documents ${operation.scope ?? '(none)'}`
+      );
+    }
+  }
+
+  for (const [key, handler] of handlers) {
+    if (!documented.has(key)) {
+      problems.push(
+        `${key}: handler in ${relative(process.cwd(), handler.file)} is not documented`
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    console.error(`❌ Found ${problems.length} mismatch(es):\n`);
+    problems.forEach((problem) => console.error(`  - ${problem}`));
+    console.error('\nUpdate API_V1_OPERATIONS in lib/utils/system/openapi.ts to match.');
+    process.exit(1);
+  }
+
+  console.log(`✅ ${documented.size} operations match their route handlers.`);
+}
+
+checkOpenApi();